@@ -5,7 +5,7 @@ import { isDateDisabled, getCapacityBadge, formatSlotTime } from '@/lib/slots';
 
 // Mock the pricing module
 jest.mock('@/lib/pricing', () => ({
-  quoteLaundry: jest.fn().mockImplementation(({ addons }) => {
+  quoteLaundry: jest.fn().mockImplementation(({ addons, promo }) => {
     const items = [
       {
         key: 'LND_WF_PERLB',
@@ -34,6 +34,18 @@ jest.mock('@/lib/pricing', () => ({
       });
     }
     
+    // Percent promos as a discount line, like the real quote
+    if (promo) {
+      const preDiscount = items.reduce((sum, item) => sum + item.total_cents, 0);
+      const discount = Math.round(preDiscount * promo.percent_off / 100);
+      items.push({
+        key: 'PROMO_DISCOUNT',
+        label: `Promo ${promo.code}`,
+        total_cents: -discount,
+        unit_price_cents: -discount,
+      });
+    }
+    
     const subtotal = items.reduce((sum, item) => sum + item.total_cents, 0);
     
     return Promise.resolve({
@@ -46,6 +58,24 @@ jest.mock('@/lib/pricing', () => ({
   }),
 }));
 
+// Mock the promo code lookup (codes live in the promo_codes table)
+jest.mock('@/lib/promos', () => ({
+  validatePromoCode: jest.fn().mockImplementation((code: string) => {
+    const normalized = code.trim().toUpperCase();
+    if (normalized === 'WELCOME10') {
+      return Promise.resolve({
+        valid: true,
+        promo: { id: 'promo-1', code: 'WELCOME10', discount_type: 'PERCENT', percent_off: 10 },
+      });
+    }
+    return Promise.resolve({ valid: false, message: 'Invalid promo code' });
+  }),
+  getPromoDiscountCents: jest.fn().mockImplementation(({ items }: any) => {
+    const item = items.find((i: any) => i.key === 'PROMO_DISCOUNT');
+    return item ? -item.total_cents : 0;
+  }),
+}));
+
 describe('Booking Flow Utilities', () => {
   describe('estimateLaundry', () => {
     it('should calculate estimate for small tier', async () => {
@@ -73,6 +103,20 @@ describe('Booking Flow Utilities', () => {
 
       expect(result.discount).toBeGreaterThan(0);
       expect(result.total).toBeLessThan(result.subtotal);
+      expect(result.breakdown.some((item) => item.label === 'Promo (WELCOME10)')).toBe(true);
+    });
+
+    it('should not discount an invalid promo code', async () => {
+      const result = await estimateLaundry({
+        serviceType: 'washFold',
+        weightTier: 'medium',
+        addons: {},
+        promoCode: 'HARLEM5',
+        zip: '10027',
+      });
+
+      expect(result.discount).toBe(0);
+      expect(result.promoMessage).toBe('Invalid promo code');
     });
 
     it('should include add-ons in calculation', async () => {
@@ -92,20 +136,15 @@ describe('Booking Flow Utilities', () => {
   });
 
   describe('validatePromoCode', () => {
-    it('should validate WELCOME10 code', () => {
-      const result = validatePromoCode('WELCOME10');
-      expect(result.valid).toBe(true);
-    });
-
-    it('should validate HARLEM5 code', () => {
-      const result = validatePromoCode('HARLEM5');
+    it('should validate WELCOME10 code', async () => {
+      const result = await validatePromoCode('WELCOME10', { serviceType: 'LAUNDRY', zip: '10027' });
       expect(result.valid).toBe(true);
     });
 
-    it('should reject invalid codes', () => {
-      const result = validatePromoCode('INVALID');
+    it('should reject invalid codes', async () => {
+      const result = await validatePromoCode('INVALID', { serviceType: 'LAUNDRY', zip: '10027' });
       expect(result.valid).toBe(false);
-      expect(result.message).toBeDefined();
+      expect(!result.valid && result.message).toBeDefined();
     });
   });
 
@@ -0,0 +1,312 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { ProtectedRoute } from '@/components/ProtectedRoute'
+import { Header } from '@/components/Header'
+
+type Channel = 'sms' | 'email'
+
+interface NotificationEventOption {
+  key: string
+  label: string
+  description: string
+  defaults: Record<Channel, boolean>
+  required?: boolean
+}
+
+interface Preferences {
+  sms_enabled: boolean
+  email_enabled: boolean
+  event_channels: Record<string, Partial<Record<Channel, boolean>>>
+}
+
+interface InboxNotification {
+  id: string
+  event: string
+  order_id: string | null
+  title: string | null
+  body: string | null
+  created_at: string
+  read_at: string | null
+}
+
+function NotificationSettingsContent() {
+  const [preferences, setPreferences] = useState<Preferences | null>(null)
+  const [events, setEvents] = useState<NotificationEventOption[]>([])
+  const [inbox, setInbox] = useState<InboxNotification[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [savedAt, setSavedAt] = useState<number | null>(null)
+
+  useEffect(() => {
+    fetchPreferences()
+    fetchInbox()
+  }, [])
+
+  const fetchPreferences = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/notifications/preferences', { cache: 'no-store' })
+      if (!response.ok) throw new Error('Failed to load notification settings')
+
+      const data = await response.json()
+      setPreferences(data.preferences)
+      setEvents(data.events || [])
+    } catch (err: any) {
+      console.error('Error fetching notification preferences:', err)
+      setError(err.message || 'Failed to load notification settings')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchInbox = async () => {
+    try {
+      const response = await fetch('/api/notifications?limit=20', { cache: 'no-store' })
+      if (response.ok) {
+        const data = await response.json()
+        setInbox(data.notifications || [])
+        setUnreadCount(data.unread_count || 0)
+      }
+    } catch (err) {
+      console.error('Error fetching notifications:', err)
+    }
+  }
+
+  const savePreferences = async (updates: Partial<Preferences>) => {
+    if (!preferences) return
+
+    // Optimistic update; roll back if the save fails
+    const previous = preferences
+    setPreferences({
+      ...preferences,
+      ...updates,
+      event_channels: { ...preferences.event_channels, ...(updates.event_channels || {}) },
+    })
+    setSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/notifications/preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates),
+      })
+      if (!response.ok) throw new Error('Failed to save notification settings')
+
+      const data = await response.json()
+      setPreferences(data.preferences)
+      setSavedAt(Date.now())
+    } catch (err: any) {
+      console.error('Error saving notification preferences:', err)
+      setPreferences(previous)
+      setError(err.message || 'Failed to save notification settings')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const isEventChannelOn = (event: NotificationEventOption, channel: Channel) => {
+    if (event.required) return true
+    const override = preferences?.event_channels[event.key]?.[channel]
+    return typeof override === 'boolean' ? override : event.defaults[channel]
+  }
+
+  const toggleEventChannel = (event: NotificationEventOption, channel: Channel) => {
+    const current = preferences?.event_channels[event.key] || {}
+    savePreferences({
+      event_channels: {
+        [event.key]: { ...current, [channel]: !isEventChannelOn(event, channel) },
+      },
+    })
+  }
+
+  const markAllRead = async () => {
+    try {
+      const response = await fetch('/api/notifications', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ all: true }),
+      })
+      if (response.ok) fetchInbox()
+    } catch (err) {
+      console.error('Error marking notifications read:', err)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <Header />
+        <main className="container mx-auto px-4 py-8">
+          <div className="max-w-3xl mx-auto">
+            <div className="bg-white rounded-lg shadow-md p-12 text-center">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+              <p className="text-gray-600">Loading your notification settings...</p>
+            </div>
+          </div>
+        </main>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+
+      <main className="container mx-auto px-4 py-6 md:py-8">
+        <div className="max-w-3xl mx-auto space-y-6">
+          <div>
+            <Link href="/orders" className="text-sm text-blue-600 hover:text-blue-700">
+              ← My Orders
+            </Link>
+            <h1 className="text-xl font-semibold text-gray-900 mt-2">Notifications</h1>
+            <p className="text-sm text-gray-600 mt-1">
+              Choose which order updates reach you by text and email. Everything also appears in your inbox below.
+            </p>
+          </div>
+
+          {error && (
+            <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800" role="alert">
+              {error}
+            </div>
+          )}
+
+          {preferences && (
+            <>
+              {/* Channels */}
+              <section className="bg-white rounded-lg shadow-sm p-6">
+                <h2 className="text-base font-semibold text-gray-900 mb-4">Channels</h2>
+                <div className="space-y-3">
+                  <label className="flex items-center justify-between">
+                    <span>
+                      <span className="block font-medium text-gray-900">Text messages</span>
+                      <span className="block text-sm text-gray-600">Sent to the phone number on your account</span>
+                    </span>
+                    <input
+                      type="checkbox"
+                      checked={preferences.sms_enabled}
+                      disabled={saving}
+                      onChange={() => savePreferences({ sms_enabled: !preferences.sms_enabled })}
+                      className="w-5 h-5 text-blue-600 border-gray-300 rounded"
+                    />
+                  </label>
+                  <label className="flex items-center justify-between">
+                    <span>
+                      <span className="block font-medium text-gray-900">Email</span>
+                      <span className="block text-sm text-gray-600">Sent to the email address on your account</span>
+                    </span>
+                    <input
+                      type="checkbox"
+                      checked={preferences.email_enabled}
+                      disabled={saving}
+                      onChange={() => savePreferences({ email_enabled: !preferences.email_enabled })}
+                      className="w-5 h-5 text-blue-600 border-gray-300 rounded"
+                    />
+                  </label>
+                </div>
+              </section>
+
+              {/* Per-event opt-ins */}
+              <section className="bg-white rounded-lg shadow-sm">
+                <div className="px-6 py-4 border-b border-gray-200">
+                  <h2 className="text-base font-semibold text-gray-900">Order updates</h2>
+                </div>
+                <table className="min-w-full">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Update</th>
+                      <th className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">Text</th>
+                      <th className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">Email</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {events.map(event => (
+                      <tr key={event.key}>
+                        <td className="px-6 py-3">
+                          <div className="font-medium text-gray-900">{event.label}</div>
+                          <div className="text-sm text-gray-600">
+                            {event.description}
+                            {event.required && ' (always sent)'}
+                          </div>
+                        </td>
+                        {(['sms', 'email'] as Channel[]).map(channel => {
+                          const channelOn = channel === 'sms' ? preferences.sms_enabled : preferences.email_enabled
+                          return (
+                            <td key={channel} className="px-4 py-3 text-center">
+                              <input
+                                type="checkbox"
+                                aria-label={`${event.label} by ${channel === 'sms' ? 'text' : 'email'}`}
+                                checked={channelOn && isEventChannelOn(event, channel)}
+                                disabled={saving || !channelOn || event.required}
+                                onChange={() => toggleEventChannel(event, channel)}
+                                className="w-4 h-4 text-blue-600 border-gray-300 rounded disabled:opacity-50"
+                              />
+                            </td>
+                          )
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+
+              {savedAt && !saving && !error && (
+                <p className="text-sm text-green-700">Settings saved</p>
+              )}
+            </>
+          )}
+
+          {/* Inbox */}
+          <section className="bg-white rounded-lg shadow-sm">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-base font-semibold text-gray-900">
+                Inbox{unreadCount > 0 ? ` (${unreadCount} unread)` : ''}
+              </h2>
+              {unreadCount > 0 && (
+                <button onClick={markAllRead} className="text-sm text-blue-600 hover:text-blue-700 font-medium">
+                  Mark all read
+                </button>
+              )}
+            </div>
+            {inbox.length === 0 ? (
+              <p className="px-6 py-8 text-center text-gray-500">No notifications yet</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {inbox.map(notification => (
+                  <li key={notification.id} className={`px-6 py-3 ${notification.read_at ? '' : 'bg-blue-50'}`}>
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <div className="font-medium text-gray-900">{notification.title}</div>
+                        <div className="text-sm text-gray-700">{notification.body}</div>
+                        {notification.order_id && (
+                          <Link href={`/orders/${notification.order_id}`} className="text-sm text-blue-600 hover:text-blue-700">
+                            View order
+                          </Link>
+                        )}
+                      </div>
+                      <time className="text-xs text-gray-500 whitespace-nowrap" dateTime={notification.created_at}>
+                        {new Date(notification.created_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                      </time>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </div>
+      </main>
+    </div>
+  )
+}
+
+export default function NotificationSettingsPage() {
+  return (
+    <ProtectedRoute>
+      <NotificationSettingsContent />
+    </ProtectedRoute>
+  )
+}
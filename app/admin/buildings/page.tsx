@@ -0,0 +1,374 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { DOORMAN_POLICY_LABELS, type DoormanPolicy } from '@/lib/buildings'
+
+interface AdminBuilding {
+  id: string
+  name: string
+  address_line1: string
+  zip: string
+  contact: string | null
+  doorman_policy: DoormanPolicy
+  dropoff_instructions: string | null
+  discount_pct: number
+  pricing_overrides_json: Record<string, number>
+  active: boolean
+  resident_count: number
+}
+
+interface BuildingForm {
+  name: string
+  address_line1: string
+  zip: string
+  contact: string
+  doorman_policy: DoormanPolicy
+  dropoff_instructions: string
+  discount_percent: string
+  pricing_overrides: string
+}
+
+const EMPTY_FORM: BuildingForm = {
+  name: '',
+  address_line1: '',
+  zip: '',
+  contact: '',
+  doorman_policy: 'DOORMAN_HOLD',
+  dropoff_instructions: '',
+  discount_percent: '0',
+  pricing_overrides: '',
+}
+
+const DOORMAN_POLICIES = Object.entries(DOORMAN_POLICY_LABELS) as Array<[DoormanPolicy, string]>
+
+function toForm(building: AdminBuilding): BuildingForm {
+  const overrides = building.pricing_overrides_json || {}
+  return {
+    name: building.name,
+    address_line1: building.address_line1 || '',
+    zip: building.zip || '',
+    contact: building.contact || '',
+    doorman_policy: building.doorman_policy,
+    dropoff_instructions: building.dropoff_instructions || '',
+    discount_percent: String(Math.round(Number(building.discount_pct) * 1000) / 10),
+    pricing_overrides: Object.keys(overrides).length > 0 ? JSON.stringify(overrides, null, 2) : '',
+  }
+}
+
+export default function AdminBuildingsPage() {
+  const [buildings, setBuildings] = useState<AdminBuilding[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showInactive, setShowInactive] = useState(false)
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null)
+  const [form, setForm] = useState<BuildingForm>(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    fetchBuildings()
+  }, [showInactive])
+
+  async function fetchBuildings() {
+    setLoading(true)
+    try {
+      const res = await fetch(`/api/admin/buildings?include_inactive=${showInactive}`)
+      const data = await res.json()
+      setBuildings(data.buildings || [])
+    } catch (error) {
+      console.error('Failed to fetch buildings:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  function startEdit(building?: AdminBuilding) {
+    setEditingId(building ? building.id : 'new')
+    setForm(building ? toForm(building) : EMPTY_FORM)
+  }
+
+  async function save(e: React.FormEvent) {
+    e.preventDefault()
+
+    let overrides: Record<string, number> = {}
+    if (form.pricing_overrides.trim()) {
+      try {
+        overrides = JSON.parse(form.pricing_overrides)
+      } catch {
+        alert('Pricing overrides must be valid JSON, e.g. {"LND_WF_PERLB": 199}')
+        return
+      }
+    }
+
+    const discountPercent = parseFloat(form.discount_percent || '0')
+    if (isNaN(discountPercent) || discountPercent < 0 || discountPercent > 100) {
+      alert('Discount must be between 0 and 100%')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const isNew = editingId === 'new'
+      const res = await fetch(isNew ? '/api/admin/buildings' : `/api/admin/buildings/${editingId}`, {
+        method: isNew ? 'POST' : 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: form.name,
+          address_line1: form.address_line1,
+          zip: form.zip,
+          contact: form.contact || null,
+          doorman_policy: form.doorman_policy,
+          dropoff_instructions: form.dropoff_instructions || null,
+          discount_pct: discountPercent / 100,
+          pricing_overrides_json: overrides,
+        }),
+      })
+
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to save building')
+      }
+
+      setEditingId(null)
+      await fetchBuildings()
+    } catch (error: any) {
+      alert(`Failed to save building: ${error.message}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function toggleActive(building: AdminBuilding) {
+    const action = building.active ? 'Deactivate' : 'Reactivate'
+    if (!confirm(`${action} ${building.name}?`)) return
+
+    try {
+      const res = await fetch(`/api/admin/buildings/${building.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ active: !building.active }),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to update building')
+      }
+      await fetchBuildings()
+    } catch (error: any) {
+      alert(`Failed to update building: ${error.message}`)
+    }
+  }
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto">
+      <div className="mb-6 flex justify-between items-start">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Buildings</h1>
+          <p className="text-gray-600">
+            Partner buildings get doorman drop-off handling and building pricing. Bookings are matched by street address.
+          </p>
+        </div>
+        <div className="flex gap-3">
+          <Link
+            href="/admin/buildings/pickups"
+            className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors text-sm font-medium"
+          >
+            Pickup Batches
+          </Link>
+          <button
+            onClick={() => startEdit()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium"
+          >
+            Add Building
+          </button>
+        </div>
+      </div>
+
+      {editingId && (
+        <form onSubmit={save} className="bg-white rounded-lg border shadow-sm p-6 mb-6 space-y-4">
+          <h2 className="text-lg font-semibold">{editingId === 'new' ? 'New Building' : 'Edit Building'}</h2>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Name *</label>
+              <input
+                type="text"
+                required
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Street address *</label>
+              <input
+                type="text"
+                required
+                placeholder="171 W 131st St"
+                value={form.address_line1}
+                onChange={(e) => setForm({ ...form, address_line1: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">ZIP *</label>
+              <input
+                type="text"
+                required
+                pattern="\d{5}"
+                value={form.zip}
+                onChange={(e) => setForm({ ...form, zip: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Doorman policy</label>
+              <select
+                value={form.doorman_policy}
+                onChange={(e) => setForm({ ...form, doorman_policy: e.target.value as DoormanPolicy })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              >
+                {DOORMAN_POLICIES.map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Building discount (%)</label>
+              <input
+                type="number"
+                min="0"
+                max="100"
+                step="0.5"
+                value={form.discount_percent}
+                onChange={(e) => setForm({ ...form, discount_percent: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Building contact</label>
+              <input
+                type="text"
+                placeholder="Super / management company"
+                value={form.contact}
+                onChange={(e) => setForm({ ...form, contact: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Drop-off instructions</label>
+              <textarea
+                rows={4}
+                value={form.dropoff_instructions}
+                onChange={(e) => setForm({ ...form, dropoff_instructions: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">
+                Price overrides (JSON, cents by pricing key)
+              </label>
+              <textarea
+                rows={4}
+                placeholder='{"LND_WF_PERLB": 199}'
+                value={form.pricing_overrides}
+                onChange={(e) => setForm({ ...form, pricing_overrides: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono"
+              />
+            </div>
+          </div>
+          <div className="flex gap-3 justify-end">
+            <button
+              type="button"
+              onClick={() => setEditingId(null)}
+              className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:bg-gray-400 text-sm font-medium"
+            >
+              {saving ? 'Saving...' : 'Save Building'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <label className="flex items-center gap-2 text-sm text-gray-700 mb-4">
+        <input
+          type="checkbox"
+          checked={showInactive}
+          onChange={(e) => setShowInactive(e.target.checked)}
+        />
+        Show inactive buildings
+      </label>
+
+      {loading ? (
+        <div className="animate-pulse space-y-4">
+          <div className="h-24 bg-gray-200 rounded"></div>
+          <div className="h-24 bg-gray-200 rounded"></div>
+        </div>
+      ) : buildings.length === 0 ? (
+        <div className="bg-white rounded-lg border-2 border-dashed border-gray-300 p-12 text-center">
+          <h3 className="text-lg font-medium text-gray-900">No buildings registered</h3>
+          <p className="mt-2 text-sm text-gray-500">
+            Add a building to start matching bookings at that address.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {buildings.map((building) => (
+            <div key={building.id} className={`bg-white rounded-lg border shadow-sm p-6 ${building.active ? '' : 'opacity-60'}`}>
+              <div className="flex justify-between items-start">
+                <div>
+                  <div className="flex items-center gap-3 mb-1">
+                    <h3 className="text-lg font-semibold">{building.name}</h3>
+                    {!building.active && (
+                      <span className="px-2 py-1 text-xs font-medium bg-gray-100 text-gray-800 rounded">Inactive</span>
+                    )}
+                    {Number(building.discount_pct) > 0 && (
+                      <span className="px-2 py-1 text-xs font-medium bg-green-100 text-green-800 rounded">
+                        {Math.round(Number(building.discount_pct) * 1000) / 10}% off
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-600">{building.address_line1}, {building.zip}</p>
+                  <p className="text-sm text-gray-600">🚪 {DOORMAN_POLICY_LABELS[building.doorman_policy]}</p>
+                  {building.dropoff_instructions && (
+                    <p className="text-sm text-gray-500 mt-1 whitespace-pre-line">{building.dropoff_instructions}</p>
+                  )}
+                  {Object.keys(building.pricing_overrides_json || {}).length > 0 && (
+                    <p className="text-xs text-gray-500 mt-1 font-mono">
+                      {Object.entries(building.pricing_overrides_json)
+                        .map(([key, cents]) => `${key}: $${(cents / 100).toFixed(2)}`)
+                        .join(' · ')}
+                    </p>
+                  )}
+                </div>
+                <div className="text-right">
+                  <div className="text-sm text-gray-500">Residents</div>
+                  <div className="text-2xl font-bold">{building.resident_count}</div>
+                  <div className="flex gap-2 mt-3">
+                    <button
+                      onClick={() => startEdit(building)}
+                      className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => toggleActive(building)}
+                      className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+                    >
+                      {building.active ? 'Deactivate' : 'Reactivate'}
+                    </button>
+                  </div>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,154 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { formatTimeWindow, toNYDateString } from '@/lib/timezone'
+import { DOORMAN_POLICY_LABELS, type DoormanPolicy } from '@/lib/buildings'
+
+interface PickupBatch {
+  building: {
+    id: string
+    name: string
+    address: string | null
+    doorman_policy: DoormanPolicy
+    dropoff_instructions: string | null
+    contact: string | null
+  }
+  order_count: number
+  first_slot_start: string | null
+  orders: Array<{
+    id: string
+    service_type: string
+    status: string
+    slot_start: string
+    slot_end: string
+    unit: string | null
+    partner_name: string | null
+    customer: { full_name: string | null; phone: string | null } | null
+  }>
+}
+
+export default function BuildingPickupsPage() {
+  const [date, setDate] = useState(() => toNYDateString(new Date()))
+  const [batches, setBatches] = useState<PickupBatch[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    fetchBatches()
+  }, [date])
+
+  async function fetchBatches() {
+    setLoading(true)
+    try {
+      const res = await fetch(`/api/admin/buildings/pickups?date=${date}`)
+      const data = await res.json()
+      setBatches(data.batches || [])
+    } catch (error) {
+      console.error('Failed to fetch pickup batches:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const totalOrders = batches.reduce((sum, batch) => sum + batch.order_count, 0)
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto">
+      <div className="mb-6 flex justify-between items-start">
+        <div>
+          <Link href="/admin/buildings" className="text-sm text-blue-600 hover:underline">
+            ← Buildings
+          </Link>
+          <h1 className="text-3xl font-bold mt-2 mb-2">Building Pickups</h1>
+          <p className="text-gray-600">
+            Pickups grouped by building so one driver run can cover each lobby.
+          </p>
+        </div>
+        <input
+          type="date"
+          value={date}
+          onChange={(e) => setDate(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+        />
+      </div>
+
+      {loading ? (
+        <div className="animate-pulse space-y-4">
+          <div className="h-32 bg-gray-200 rounded"></div>
+          <div className="h-32 bg-gray-200 rounded"></div>
+        </div>
+      ) : batches.length === 0 ? (
+        <div className="bg-white rounded-lg border-2 border-dashed border-gray-300 p-12 text-center">
+          <h3 className="text-lg font-medium text-gray-900">No building pickups on this day</h3>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            {totalOrders} pickups across {batches.length} buildings
+          </p>
+          {batches.map((batch) => (
+            <div key={batch.building.id} className="bg-white rounded-lg border shadow-sm">
+              <div className="p-6 border-b">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <h3 className="text-lg font-semibold">{batch.building.name}</h3>
+                    {batch.building.address && (
+                      <p className="text-sm text-gray-600">{batch.building.address}</p>
+                    )}
+                    <p className="text-sm text-gray-600">🚪 {DOORMAN_POLICY_LABELS[batch.building.doorman_policy]}</p>
+                    {batch.building.dropoff_instructions && (
+                      <p className="text-sm text-gray-500 mt-1 whitespace-pre-line">
+                        {batch.building.dropoff_instructions}
+                      </p>
+                    )}
+                    {batch.building.contact && (
+                      <p className="text-sm text-gray-500 mt-1">Contact: {batch.building.contact}</p>
+                    )}
+                  </div>
+                  <span className="px-3 py-1 text-sm font-medium bg-blue-100 text-blue-800 rounded">
+                    {batch.order_count} {batch.order_count === 1 ? 'pickup' : 'pickups'}
+                  </span>
+                </div>
+              </div>
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase">Window</th>
+                    <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase">Unit</th>
+                    <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase">Customer</th>
+                    <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase">Service</th>
+                    <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase">Partner</th>
+                    <th className="px-6 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {batch.orders.map((order) => (
+                    <tr key={order.id}>
+                      <td className="px-6 py-3 text-sm whitespace-nowrap">
+                        {formatTimeWindow(order.slot_start, order.slot_end)}
+                      </td>
+                      <td className="px-6 py-3 text-sm">{order.unit || '—'}</td>
+                      <td className="px-6 py-3 text-sm">
+                        {order.customer?.full_name || 'Unknown'}
+                        {order.customer?.phone && (
+                          <div className="text-xs text-gray-500">{order.customer.phone}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-3 text-sm">{order.service_type}</td>
+                      <td className="px-6 py-3 text-sm">{order.partner_name || '—'}</td>
+                      <td className="px-6 py-3 text-sm">
+                        <Link href={`/admin/orders/${order.id}`} className="text-blue-600 hover:underline">
+                          {order.status}
+                        </Link>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -340,7 +340,7 @@ export default function AddCapacity() {
           <li>• Only active partners are shown in the dropdown</li>
           <li>• Slots must be in the future</li>
           <li>• The system will check for time conflicts automatically</li>
-          <li>• For recurring slots, use the bulk creation feature (coming soon)</li>
+          <li>• For recurring slots, use Generate from Templates on the capacity page</li>
         </ul>
       </div>
     </div>
@@ -2,6 +2,8 @@
 
 import { useEffect, useState } from 'react';
 import Link from 'next/link';
+import CapacityBlackoutsManager from '@/components/admin/CapacityBlackoutsManager';
+import SlotGenerationPreview from '@/components/admin/SlotGenerationPreview';
 
 interface Slot {
   id: string;
@@ -23,6 +25,7 @@ interface Slot {
 
 export default function CapacityList() {
   const [slots, setSlots] = useState<Slot[]>([]);
+  const [partners, setPartners] = useState<Array<{ id: string; name: string }>>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   
@@ -43,6 +46,13 @@ export default function CapacityList() {
     fetchSlots();
   }, [partnerFilter, serviceTypeFilter, startDate, endDate]);
 
+  useEffect(() => {
+    fetch('/api/admin/partners?status=active')
+      .then((res) => (res.ok ? res.json() : { partners: [] }))
+      .then((data) => setPartners(data.partners || []))
+      .catch((err) => console.error('Error fetching partners:', err));
+  }, []);
+
   async function fetchSlots() {
     setLoading(true);
     setError(null);
@@ -144,7 +154,7 @@ export default function CapacityList() {
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-2xl font-bold text-gray-900">Capacity Management</h1>
-          <p className="text-sm text-gray-600 mt-1">Manage partner availability and time slots</p>
+          <p className="text-sm text-gray-600 mt-1">Manage partner availability, template generation and blackout dates</p>
         </div>
         <Link
           href="/admin/capacity/add"
@@ -331,6 +341,12 @@ export default function CapacityList() {
           </div>
         )}
       </div>
+
+      {/* Template Generation */}
+      <SlotGenerationPreview partners={partners} onGenerated={fetchSlots} />
+
+      {/* Blackouts */}
+      <CapacityBlackoutsManager partners={partners} onChange={fetchSlots} />
     </div>
   );
 }
@@ -0,0 +1,332 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import {
+  CLAIM_TYPE_LABELS,
+  CLAIM_STATUS_LABELS,
+  isClaimOpen,
+  type ClaimType,
+  type ClaimStatus,
+  type ClaimDecision,
+} from '@/lib/claims'
+import { BAG_STATUS_LABELS, type BagStatus } from '@/lib/bags'
+
+interface AdminClaim {
+  id: string
+  order_id: string
+  type: ClaimType
+  status: ClaimStatus
+  description: string | null
+  requested_cents: number | null
+  resolved_cents: number
+  resolution: string | null
+  evidence_json: string[]
+  created_at: string
+  orders: {
+    id: string
+    service_type: string
+    status: string
+    total_cents: number
+    quote_cents: number | null
+  } | null
+  /** Bag the claim is about, with where it was last scanned */
+  bags: {
+    label_code: string
+    status: BagStatus
+    last_scanned_at: string | null
+  } | null
+  profiles: {
+    full_name: string | null
+    email: string | null
+    phone: string | null
+  } | null
+}
+
+type StatusFilter = 'open' | 'PENDING' | 'APPROVED' | 'DENIED' | 'RESOLVED' | 'all'
+
+const STATUS_FILTERS: Array<{ value: StatusFilter; label: string }> = [
+  { value: 'open', label: 'Open' },
+  { value: 'PENDING', label: 'Pending' },
+  { value: 'APPROVED', label: 'Approved' },
+  { value: 'RESOLVED', label: 'Resolved' },
+  { value: 'DENIED', label: 'Denied' },
+  { value: 'all', label: 'All' },
+]
+
+function getStatusBadge(status: ClaimStatus) {
+  const styles: Record<ClaimStatus, string> = {
+    PENDING: 'bg-yellow-100 text-yellow-800',
+    APPROVED: 'bg-blue-100 text-blue-800',
+    DENIED: 'bg-gray-100 text-gray-800',
+    RESOLVED: 'bg-green-100 text-green-800',
+  }
+  return styles[status]
+}
+
+export default function AdminClaimsPage() {
+  const [claims, setClaims] = useState<AdminClaim[]>([])
+  const [loading, setLoading] = useState(true)
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('open')
+  const [submitting, setSubmitting] = useState<string | null>(null)
+  const [amounts, setAmounts] = useState<Record<string, string>>({})
+  const [notes, setNotes] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    fetchClaims()
+  }, [statusFilter])
+
+  async function fetchClaims() {
+    setLoading(true)
+    try {
+      const res = await fetch(`/api/admin/claims?status=${statusFilter}`)
+      const data = await res.json()
+      setClaims(data.claims || [])
+    } catch (error) {
+      console.error('Failed to fetch claims:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function decide(claim: AdminClaim, decision: ClaimDecision) {
+    const resolution = (notes[claim.id] || '').trim()
+    if (!resolution) {
+      alert('Add a note explaining the decision first')
+      return
+    }
+
+    const amountInput = amounts[claim.id]
+    const resolvedCents = amountInput ? Math.round(parseFloat(amountInput) * 100) : undefined
+
+    if (resolvedCents !== undefined && (isNaN(resolvedCents) || resolvedCents < 0)) {
+      alert('Enter a valid amount')
+      return
+    }
+
+    if (decision === 'resolve') {
+      const payout = resolvedCents ?? claim.resolved_cents ?? 0
+      const message = payout > 0
+        ? `Refund $${(payout / 100).toFixed(2)} to the customer and resolve this claim?`
+        : 'Resolve this claim without a refund?'
+      if (!confirm(message)) return
+    }
+
+    setSubmitting(claim.id)
+    try {
+      const res = await fetch(`/api/admin/claims/${claim.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          decision,
+          resolution,
+          resolved_cents: resolvedCents,
+        }),
+      })
+
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to update claim')
+      }
+
+      await fetchClaims()
+    } catch (error: any) {
+      alert(`Failed to update claim: ${error.message}`)
+    } finally {
+      setSubmitting(null)
+    }
+  }
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold mb-2">Claims</h1>
+        <p className="text-gray-600">
+          Review lost, damaged and rework claims. Resolving a claim with an amount issues a refund on the order.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-6">
+        {STATUS_FILTERS.map((filter) => (
+          <button
+            key={filter.value}
+            onClick={() => setStatusFilter(filter.value)}
+            className={`px-3 py-1.5 text-sm font-medium rounded-lg border transition-colors ${
+              statusFilter === filter.value
+                ? 'bg-gray-900 text-white border-gray-900'
+                : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {filter.label}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="animate-pulse space-y-4">
+          <div className="h-32 bg-gray-200 rounded"></div>
+          <div className="h-32 bg-gray-200 rounded"></div>
+        </div>
+      ) : claims.length === 0 ? (
+        <div className="bg-white rounded-lg border-2 border-dashed border-gray-300 p-12 text-center">
+          <h3 className="text-lg font-medium text-gray-900">No claims to show</h3>
+          <p className="mt-2 text-sm text-gray-500">
+            New claims appear here as soon as customers file them.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {claims.map((claim) => {
+            const isSubmitting = submitting === claim.id
+            const paidCents = claim.orders?.quote_cents || claim.orders?.total_cents || 0
+
+            return (
+              <div key={claim.id} className="bg-white rounded-lg border shadow-sm">
+                <div className="p-6">
+                  <div className="flex justify-between items-start mb-4">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-3 mb-2">
+                        <h3 className="text-lg font-semibold">
+                          {CLAIM_TYPE_LABELS[claim.type]}
+                        </h3>
+                        <span className={`px-2 py-1 text-xs font-medium rounded ${getStatusBadge(claim.status)}`}>
+                          {CLAIM_STATUS_LABELS[claim.status]}
+                        </span>
+                        {claim.orders && (
+                          <span className="px-2 py-1 text-xs font-medium bg-blue-100 text-blue-800 rounded">
+                            {claim.orders.service_type}
+                          </span>
+                        )}
+                      </div>
+
+                      <div className="text-sm text-gray-600 space-y-1">
+                        <p>👤 {claim.profiles?.full_name || 'Unknown Customer'}</p>
+                        {claim.profiles?.email && <p>📧 {claim.profiles.email}</p>}
+                        {claim.profiles?.phone && <p>📱 {claim.profiles.phone}</p>}
+                        <p>🕒 Filed {new Date(claim.created_at).toLocaleString()}</p>
+                      </div>
+                    </div>
+
+                    <div className="text-right text-sm">
+                      <div className="text-gray-500">Requested</div>
+                      <div className="text-2xl font-bold text-gray-900">
+                        {claim.requested_cents != null ? `$${(claim.requested_cents / 100).toFixed(2)}` : '—'}
+                      </div>
+                      <div className="text-gray-500 mt-1">Order paid: ${(paidCents / 100).toFixed(2)}</div>
+                      {claim.resolved_cents > 0 && (
+                        <div className="text-green-700 font-medium mt-1">
+                          Approved: ${(claim.resolved_cents / 100).toFixed(2)}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+
+                  {claim.description && (
+                    <p className="text-sm text-gray-800 bg-gray-50 rounded-lg p-3 mb-4 whitespace-pre-line">
+                      {claim.description}
+                    </p>
+                  )}
+
+                  {claim.bags && (
+                    <p className="text-sm text-gray-700 mb-4">
+                      🧺 Bag <span className="font-mono">{claim.bags.label_code}</span>
+                      {' — '}last seen: {BAG_STATUS_LABELS[claim.bags.status] || claim.bags.status}
+                      {claim.bags.last_scanned_at && `, ${new Date(claim.bags.last_scanned_at).toLocaleString()}`}
+                    </p>
+                  )}
+
+                  {claim.evidence_json?.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mb-4">
+                      {claim.evidence_json.map((url, idx) => (
+                        <a
+                          key={url}
+                          href={url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-sm text-blue-600 hover:underline"
+                        >
+                          Evidence {idx + 1}
+                        </a>
+                      ))}
+                    </div>
+                  )}
+
+                  {claim.resolution && !isClaimOpen(claim.status) && (
+                    <p className="text-sm text-gray-600 mb-4">
+                      <span className="font-medium">Resolution:</span> {claim.resolution}
+                    </p>
+                  )}
+
+                  {isClaimOpen(claim.status) && (
+                    <div className="pt-4 border-t space-y-3">
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                        <div>
+                          <label className="block text-xs font-medium text-gray-600 mb-1">
+                            Amount ($)
+                          </label>
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            placeholder={((claim.status === 'APPROVED' ? claim.resolved_cents : claim.requested_cents || 0) / 100).toFixed(2)}
+                            value={amounts[claim.id] || ''}
+                            onChange={(e) => setAmounts({ ...amounts, [claim.id]: e.target.value })}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                          />
+                        </div>
+                        <div className="md:col-span-2">
+                          <label className="block text-xs font-medium text-gray-600 mb-1">
+                            Decision note
+                          </label>
+                          <input
+                            type="text"
+                            placeholder="Explain the decision to the customer"
+                            value={notes[claim.id] || ''}
+                            onChange={(e) => setNotes({ ...notes, [claim.id]: e.target.value })}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                          />
+                        </div>
+                      </div>
+
+                      <div className="flex gap-3">
+                        <Link
+                          href={`/admin/orders/${claim.order_id}`}
+                          className="flex-1 px-4 py-2 text-center border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                        >
+                          View Order
+                        </Link>
+                        {claim.status === 'PENDING' && (
+                          <button
+                            onClick={() => decide(claim, 'approve')}
+                            disabled={isSubmitting}
+                            className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:bg-gray-400 font-medium"
+                          >
+                            Approve
+                          </button>
+                        )}
+                        <button
+                          onClick={() => decide(claim, 'resolve')}
+                          disabled={isSubmitting}
+                          className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:bg-gray-400 font-medium"
+                        >
+                          Resolve
+                        </button>
+                        <button
+                          onClick={() => decide(claim, 'deny')}
+                          disabled={isSubmitting}
+                          className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:bg-gray-400 font-medium"
+                        >
+                          Deny
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,467 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import type {
+  DisputeEvidencePacket,
+  DisputeOutcome,
+  DisputeSlaState,
+  DisputeSource,
+  DisputeStatus,
+} from '@/lib/disputes'
+
+interface AdminDispute {
+  id: string
+  order_id: string
+  source: DisputeSource
+  status: DisputeStatus
+  reason: string | null
+  amount_cents: number | null
+  partner_response: string | null
+  partner_responded_at: string | null
+  stripe_dispute_id: string | null
+  stripe_status: string | null
+  evidence_due_by: string | null
+  opened_at: string
+  sla_due_at: string
+  sla_state: DisputeSlaState
+  outcome: DisputeOutcome | null
+  refund_cents: number | null
+  resolution_note: string | null
+  resolved_at: string | null
+  evidence_submitted_at: string | null
+  available_outcomes: Array<{ value: DisputeOutcome; label: string }>
+  orders: {
+    id: string
+    service_type: string
+    status: string
+    total_cents: number
+    quote_cents: number | null
+    slot_start: string | null
+  } | null
+  partners: { id: string; name: string } | null
+  profiles: {
+    full_name: string | null
+    email: string | null
+    phone: string | null
+  } | null
+}
+
+interface DisputeDetail {
+  customer_evidence: Array<{ url: string; thumbnail_url?: string }>
+  evidence: DisputeEvidencePacket
+}
+
+type StatusFilter = DisputeStatus | 'all'
+
+const STATUS_FILTERS: Array<{ value: StatusFilter; label: string }> = [
+  { value: 'open', label: 'Open' },
+  { value: 'evidence_submitted', label: 'Evidence submitted' },
+  { value: 'resolved', label: 'Resolved' },
+  { value: 'closed', label: 'Closed' },
+  { value: 'all', label: 'All' },
+]
+
+const SLA_BADGES: Record<DisputeSlaState, { label: string; style: string }> = {
+  on_track: { label: 'On track', style: 'bg-green-100 text-green-800' },
+  due_soon: { label: 'Due soon', style: 'bg-yellow-100 text-yellow-800' },
+  overdue: { label: 'Overdue', style: 'bg-red-100 text-red-800' },
+  met: { label: 'SLA met', style: 'bg-gray-100 text-gray-800' },
+  missed: { label: 'SLA missed', style: 'bg-red-50 text-red-700' },
+}
+
+const OUTCOME_STYLES: Record<DisputeOutcome, string> = {
+  partial_refund: 'bg-blue-600 hover:bg-blue-700',
+  full_refund: 'bg-green-600 hover:bg-green-700',
+  rejected: 'bg-red-600 hover:bg-red-700',
+}
+
+function formatCents(cents: number | null | undefined) {
+  return `$${((cents || 0) / 100).toFixed(2)}`
+}
+
+function formatDue(dueAt: string) {
+  const hours = (new Date(dueAt).getTime() - Date.now()) / (60 * 60 * 1000)
+  if (hours < 0) return `${Math.ceil(-hours)}h overdue`
+  return hours < 1 ? `${Math.max(Math.round(hours * 60), 1)}m left` : `${Math.floor(hours)}h left`
+}
+
+export default function AdminDisputesPage() {
+  const searchParams = useSearchParams()
+  const orderFilter = searchParams.get('order')
+
+  const [disputes, setDisputes] = useState<AdminDispute[]>([])
+  const [loading, setLoading] = useState(true)
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('open')
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [details, setDetails] = useState<Record<string, DisputeDetail>>({})
+  const [submitting, setSubmitting] = useState<string | null>(null)
+  const [amounts, setAmounts] = useState<Record<string, string>>({})
+  const [notes, setNotes] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    fetchDisputes()
+  }, [statusFilter, orderFilter])
+
+  async function fetchDisputes() {
+    setLoading(true)
+    try {
+      const query = orderFilter ? `order=${orderFilter}` : `status=${statusFilter}`
+      const res = await fetch(`/api/admin/disputes?${query}`)
+      const data = await res.json()
+      setDisputes(data.disputes || [])
+    } catch (error) {
+      console.error('Failed to fetch disputes:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function toggleEvidence(dispute: AdminDispute) {
+    if (expanded === dispute.id) {
+      setExpanded(null)
+      return
+    }
+
+    setExpanded(dispute.id)
+    if (details[dispute.id]) return
+
+    try {
+      const res = await fetch(`/api/admin/disputes/${dispute.id}`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to load evidence')
+      setDetails((prev) => ({ ...prev, [dispute.id]: data }))
+    } catch (error: any) {
+      alert(error.message)
+      setExpanded(null)
+    }
+  }
+
+  async function resolve(dispute: AdminDispute, outcome: DisputeOutcome, label: string) {
+    const resolutionNote = (notes[dispute.id] || '').trim()
+    if (!resolutionNote) {
+      alert('Add a note explaining the decision first')
+      return
+    }
+
+    let refundCents: number | undefined
+    if (outcome === 'partial_refund') {
+      refundCents = Math.round(parseFloat(amounts[dispute.id] || '') * 100)
+      if (!refundCents || refundCents <= 0) {
+        alert('Enter the amount to refund')
+        return
+      }
+    }
+
+    const message = {
+      partial_refund: `Refund ${formatCents(refundCents)} to the customer and close this dispute?`,
+      full_refund: dispute.source === 'chargeback'
+        ? `Accept the chargeback? The customer keeps ${formatCents(dispute.amount_cents)} and this can't be undone.`
+        : 'Refund the remaining balance to the customer and close this dispute?',
+      rejected: dispute.source === 'chargeback'
+        ? 'Submit the evidence packet to Stripe? Evidence can only be submitted once.'
+        : 'Reject this dispute and mark the order completed?',
+    }[outcome]
+    if (!confirm(message)) return
+
+    setSubmitting(dispute.id)
+    try {
+      const res = await fetch(`/api/admin/disputes/${dispute.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          outcome,
+          refund_cents: refundCents,
+          resolution_note: resolutionNote,
+        }),
+      })
+
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || `Failed to ${label.toLowerCase()}`)
+      }
+
+      await fetchDisputes()
+    } catch (error: any) {
+      alert(`Failed to resolve dispute: ${error.message}`)
+    } finally {
+      setSubmitting(null)
+    }
+  }
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold mb-2">Disputes</h1>
+        <p className="text-gray-600">
+          In-app disputes and Stripe chargebacks. Customers are promised a decision within 24 hours; chargebacks are also
+          due by Stripe&apos;s evidence deadline.
+        </p>
+      </div>
+
+      {orderFilter ? (
+        <div className="mb-6 text-sm text-gray-600">
+          Showing disputes for order {orderFilter.slice(0, 8)}.{' '}
+          <Link href="/admin/disputes" className="text-blue-600 hover:underline">
+            Show the full queue
+          </Link>
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-2 mb-6">
+          {STATUS_FILTERS.map((filter) => (
+            <button
+              key={filter.value}
+              onClick={() => setStatusFilter(filter.value)}
+              className={`px-3 py-1.5 text-sm font-medium rounded-lg border transition-colors ${
+                statusFilter === filter.value
+                  ? 'bg-gray-900 text-white border-gray-900'
+                  : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {filter.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="animate-pulse space-y-4">
+          <div className="h-32 bg-gray-200 rounded"></div>
+          <div className="h-32 bg-gray-200 rounded"></div>
+        </div>
+      ) : disputes.length === 0 ? (
+        <div className="bg-white rounded-lg border-2 border-dashed border-gray-300 p-12 text-center">
+          <h3 className="text-lg font-medium text-gray-900">No disputes to show</h3>
+          <p className="mt-2 text-sm text-gray-500">
+            Disputes appear here when a customer reports an issue or their bank opens a chargeback.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {disputes.map((dispute) => {
+            const isSubmitting = submitting === dispute.id
+            const detail = details[dispute.id]
+            const sla = SLA_BADGES[dispute.sla_state]
+
+            return (
+              <div key={dispute.id} className="bg-white rounded-lg border shadow-sm">
+                <div className="p-6">
+                  <div className="flex justify-between items-start mb-4">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-3 mb-2">
+                        <h3 className="text-lg font-semibold">
+                          {dispute.source === 'chargeback' ? 'Chargeback' : 'In-app dispute'}
+                        </h3>
+                        <span className={`px-2 py-1 text-xs font-medium rounded ${sla.style}`}>
+                          {sla.label}
+                          {dispute.status === 'open' && ` · ${formatDue(dispute.sla_due_at)}`}
+                        </span>
+                        {dispute.orders && (
+                          <span className="px-2 py-1 text-xs font-medium bg-blue-100 text-blue-800 rounded">
+                            {dispute.orders.service_type}
+                          </span>
+                        )}
+                        {dispute.stripe_status && (
+                          <span className="px-2 py-1 text-xs font-medium bg-purple-100 text-purple-800 rounded">
+                            Stripe: {dispute.stripe_status.replace(/_/g, ' ')}
+                          </span>
+                        )}
+                      </div>
+
+                      <div className="text-sm text-gray-600 space-y-1">
+                        <p>👤 {dispute.profiles?.full_name || 'Unknown Customer'}</p>
+                        {dispute.profiles?.email && <p>📧 {dispute.profiles.email}</p>}
+                        {dispute.partners && <p>🧹 {dispute.partners.name}</p>}
+                        <p>🕒 Opened {new Date(dispute.opened_at).toLocaleString()}</p>
+                        {dispute.evidence_due_by && (
+                          <p>📎 Stripe evidence due {new Date(dispute.evidence_due_by).toLocaleString()}</p>
+                        )}
+                      </div>
+                    </div>
+
+                    <div className="text-right text-sm">
+                      <div className="text-gray-500">Disputed</div>
+                      <div className="text-2xl font-bold text-gray-900">{formatCents(dispute.amount_cents)}</div>
+                      <div className="text-gray-500 mt-1">
+                        Order paid: {formatCents(dispute.orders?.quote_cents || dispute.orders?.total_cents)}
+                      </div>
+                      {dispute.refund_cents != null && dispute.refund_cents > 0 && (
+                        <div className="text-green-700 font-medium mt-1">
+                          Refunded: {formatCents(dispute.refund_cents)}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+
+                  {dispute.reason && (
+                    <p className="text-sm text-gray-800 bg-gray-50 rounded-lg p-3 mb-4 whitespace-pre-line">
+                      <span className="font-medium">Customer:</span> {dispute.reason}
+                    </p>
+                  )}
+
+                  <p className="text-sm text-gray-800 bg-orange-50 rounded-lg p-3 mb-4 whitespace-pre-line">
+                    <span className="font-medium">Partner:</span>{' '}
+                    {dispute.partner_response || <span className="text-gray-500">No response yet</span>}
+                  </p>
+
+                  {dispute.resolution_note && dispute.status !== 'open' && (
+                    <p className="text-sm text-gray-600 mb-4">
+                      <span className="font-medium">Resolution:</span> {dispute.resolution_note}
+                    </p>
+                  )}
+
+                  <button
+                    onClick={() => toggleEvidence(dispute)}
+                    className="text-sm text-blue-600 hover:underline mb-4"
+                  >
+                    {expanded === dispute.id ? 'Hide evidence' : 'Review evidence'}
+                  </button>
+
+                  {expanded === dispute.id && (
+                    <div className="border rounded-lg p-4 mb-4 space-y-4 text-sm">
+                      {!detail ? (
+                        <div className="h-24 bg-gray-100 rounded animate-pulse"></div>
+                      ) : (
+                        <>
+                          {detail.customer_evidence.length > 0 && (
+                            <div>
+                              <h4 className="font-medium text-gray-900 mb-2">Customer photos</h4>
+                              <div className="flex flex-wrap gap-2">
+                                {detail.customer_evidence.map((photo) => (
+                                  <a key={photo.url} href={photo.url} target="_blank" rel="noopener noreferrer">
+                                    <img
+                                      src={photo.thumbnail_url || photo.url}
+                                      alt="Customer evidence"
+                                      className="h-20 w-20 object-cover rounded border"
+                                    />
+                                  </a>
+                                ))}
+                              </div>
+                            </div>
+                          )}
+
+                          <div>
+                            <h4 className="font-medium text-gray-900 mb-2">
+                              {dispute.evidence_submitted_at ? 'Evidence submitted to Stripe' : 'Evidence packet'}
+                            </h4>
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-3">
+                              <div className="bg-gray-50 rounded p-3">
+                                <div className="text-gray-500">Receipt</div>
+                                <div className="font-medium">{formatCents(detail.evidence.receipt.total_cents)}</div>
+                                {detail.evidence.receipt.tip_cents > 0 && (
+                                  <div className="text-gray-600">+ {formatCents(detail.evidence.receipt.tip_cents)} tip</div>
+                                )}
+                                <div className="text-gray-600">
+                                  {detail.evidence.receipt.paid_at
+                                    ? `Paid ${new Date(detail.evidence.receipt.paid_at).toLocaleDateString()}`
+                                    : 'Not paid'}
+                                </div>
+                              </div>
+                              <div className="bg-gray-50 rounded p-3 md:col-span-2">
+                                <div className="text-gray-500">
+                                  Policy{detail.evidence.policy.version ? ` v${detail.evidence.policy.version}` : ''}
+                                </div>
+                                <div>{detail.evidence.policy.summary}</div>
+                              </div>
+                            </div>
+
+                            <h5 className="font-medium text-gray-700 mb-1">Timeline</h5>
+                            <ul className="space-y-1 mb-3">
+                              {detail.evidence.timeline.map((entry, idx) => (
+                                <li key={idx} className="text-gray-700">
+                                  <span className="text-gray-500">{new Date(entry.at).toLocaleString()}</span>{' '}
+                                  {entry.event.replace(/_/g, ' ')}
+                                  {entry.actor_role && <span className="text-gray-500"> ({entry.actor_role})</span>}
+                                </li>
+                              ))}
+                            </ul>
+
+                            {detail.evidence.photos.length > 0 && (
+                              <>
+                                <h5 className="font-medium text-gray-700 mb-1">
+                                  Photos ({detail.evidence.photos.length})
+                                </h5>
+                                <div className="flex flex-wrap gap-2">
+                                  {detail.evidence.photos.map((photo, idx) => (
+                                    <a
+                                      key={idx}
+                                      href={photo.url}
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                      className="text-blue-600 hover:underline"
+                                    >
+                                      {photo.label}
+                                    </a>
+                                  ))}
+                                </div>
+                              </>
+                            )}
+                          </div>
+                        </>
+                      )}
+                    </div>
+                  )}
+
+                  {dispute.available_outcomes.length > 0 && (
+                    <div className="pt-4 border-t space-y-3">
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                        {dispute.source === 'in_app' && (
+                          <div>
+                            <label className="block text-xs font-medium text-gray-600 mb-1">
+                              Partial refund ($)
+                            </label>
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              placeholder="0.00"
+                              value={amounts[dispute.id] || ''}
+                              onChange={(e) => setAmounts({ ...amounts, [dispute.id]: e.target.value })}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                            />
+                          </div>
+                        )}
+                        <div className={dispute.source === 'in_app' ? 'md:col-span-2' : 'md:col-span-3'}>
+                          <label className="block text-xs font-medium text-gray-600 mb-1">
+                            Decision note
+                          </label>
+                          <input
+                            type="text"
+                            placeholder="Explain the decision"
+                            value={notes[dispute.id] || ''}
+                            onChange={(e) => setNotes({ ...notes, [dispute.id]: e.target.value })}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                          />
+                        </div>
+                      </div>
+
+                      <div className="flex gap-3">
+                        <Link
+                          href={`/admin/orders/${dispute.order_id}`}
+                          className="flex-1 px-4 py-2 text-center border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                        >
+                          View Order
+                        </Link>
+                        {dispute.available_outcomes.map((outcome) => (
+                          <button
+                            key={outcome.value}
+                            onClick={() => resolve(dispute, outcome.value, outcome.label)}
+                            disabled={isSubmitting}
+                            className={`flex-1 px-4 py-2 text-white rounded-lg transition-colors disabled:bg-gray-400 font-medium ${OUTCOME_STYLES[outcome.value]}`}
+                          >
+                            {outcome.label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,287 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import {
+  APPLICATION_STATUS_LABELS,
+  CAPABILITY_OPTIONS,
+  DEFAULT_PAYOUT_PERCENT,
+  isApplicationOpen,
+  type PartnerApplication,
+  type PartnerApplicationStatus,
+  type PartnerApplicationDecision,
+} from '@/lib/partner-applications'
+
+type StatusFilter = 'open' | PartnerApplicationStatus | 'all'
+
+const STATUS_FILTERS: Array<{ value: StatusFilter; label: string }> = [
+  { value: 'open', label: 'Open' },
+  { value: 'pending', label: 'New' },
+  { value: 'under_review', label: 'Under Review' },
+  { value: 'info_requested', label: 'Info Requested' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'rejected', label: 'Rejected' },
+  { value: 'all', label: 'All' },
+]
+
+function getStatusBadge(status: PartnerApplicationStatus) {
+  const styles: Record<PartnerApplicationStatus, string> = {
+    pending: 'bg-yellow-100 text-yellow-800',
+    under_review: 'bg-blue-100 text-blue-800',
+    info_requested: 'bg-purple-100 text-purple-800',
+    approved: 'bg-green-100 text-green-800',
+    rejected: 'bg-gray-100 text-gray-800',
+  }
+  return styles[status]
+}
+
+export default function AdminPartnerApplicationsPage() {
+  const [applications, setApplications] = useState<PartnerApplication[]>([])
+  const [loading, setLoading] = useState(true)
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('open')
+  const [submitting, setSubmitting] = useState<string | null>(null)
+  const [messages, setMessages] = useState<Record<string, string>>({})
+  const [payouts, setPayouts] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    fetchApplications()
+  }, [statusFilter])
+
+  async function fetchApplications() {
+    setLoading(true)
+    try {
+      const res = await fetch(`/api/admin/partner-applications?status=${statusFilter}`)
+      const data = await res.json()
+      setApplications(data.applications || [])
+    } catch (error) {
+      console.error('Failed to fetch partner applications:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function decide(application: PartnerApplication, decision: PartnerApplicationDecision) {
+    const message = (messages[application.id] || '').trim()
+    if ((decision === 'request_info' || decision === 'reject') && !message) {
+      alert('Add a message for the applicant first')
+      return
+    }
+
+    const payoutInput = payouts[application.id]
+    const payoutPercent = payoutInput ? parseFloat(payoutInput) : undefined
+    if (payoutPercent !== undefined && (isNaN(payoutPercent) || payoutPercent < 0 || payoutPercent > 100)) {
+      alert('Payout percentage must be between 0 and 100')
+      return
+    }
+
+    if (decision === 'approve') {
+      const confirmMessage = `Create ${application.business_name} as a ${application.service_type.toLowerCase()} partner at ${payoutPercent ?? DEFAULT_PAYOUT_PERCENT}% payout?`
+      if (!confirm(confirmMessage)) return
+    }
+
+    setSubmitting(application.id)
+    try {
+      const res = await fetch(`/api/admin/partner-applications/${application.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          decision,
+          message: message || undefined,
+          payout_percent: decision === 'approve' ? payoutPercent : undefined,
+        }),
+      })
+
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to update application')
+      }
+
+      if (decision === 'approve' && data.account_linked === false) {
+        alert('Partner created, but their login could not be linked. They can still sign up with the application email.')
+      }
+
+      await fetchApplications()
+    } catch (error: any) {
+      alert(`Failed to update application: ${error.message}`)
+    } finally {
+      setSubmitting(null)
+    }
+  }
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold mb-2">Partner Applications</h1>
+        <p className="text-gray-600">
+          Review applications from the public partner form. Approving one creates the partner and invites them to the partner portal.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-6">
+        {STATUS_FILTERS.map((filter) => (
+          <button
+            key={filter.value}
+            onClick={() => setStatusFilter(filter.value)}
+            className={`px-3 py-1.5 text-sm font-medium rounded-lg border transition-colors ${
+              statusFilter === filter.value
+                ? 'bg-gray-900 text-white border-gray-900'
+                : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {filter.label}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="animate-pulse space-y-4">
+          <div className="h-32 bg-gray-200 rounded"></div>
+          <div className="h-32 bg-gray-200 rounded"></div>
+        </div>
+      ) : applications.length === 0 ? (
+        <div className="bg-white rounded-lg border-2 border-dashed border-gray-300 p-12 text-center">
+          <h3 className="text-lg font-medium text-gray-900">No applications to show</h3>
+          <p className="mt-2 text-sm text-gray-500">
+            New applications appear here as soon as they are submitted at /partners/apply.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {applications.map((application) => {
+            const isSubmitting = submitting === application.id
+            const offered = CAPABILITY_OPTIONS[application.service_type]
+              .filter(({ key }) => application.capabilities?.[key])
+              .map(({ label }) => label)
+
+            return (
+              <div key={application.id} className="bg-white rounded-lg border shadow-sm">
+                <div className="p-6">
+                  <div className="flex justify-between items-start mb-4">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-3 mb-2">
+                        <h3 className="text-lg font-semibold">{application.business_name}</h3>
+                        <span className={`px-2 py-1 text-xs font-medium rounded ${getStatusBadge(application.status)}`}>
+                          {APPLICATION_STATUS_LABELS[application.status]}
+                        </span>
+                        <span className="px-2 py-1 text-xs font-medium bg-blue-100 text-blue-800 rounded">
+                          {application.service_type}
+                        </span>
+                      </div>
+
+                      <div className="text-sm text-gray-600 space-y-1">
+                        <p>👤 {application.contact_name}</p>
+                        <p>📧 {application.contact_email}</p>
+                        <p>📱 {application.contact_phone}</p>
+                        <p>📍 {application.address} ({application.zip})</p>
+                        <p>🕒 Submitted {new Date(application.submitted_at).toLocaleString()}</p>
+                      </div>
+                    </div>
+
+                    <div className="text-right text-sm max-w-xs">
+                      <div className="text-gray-500">Services</div>
+                      <div className="font-medium text-gray-900">
+                        {offered.length > 0 ? offered.join(', ') : '—'}
+                      </div>
+                      <div className="text-gray-500 mt-2">Service ZIPs</div>
+                      <div className="font-medium text-gray-900">
+                        {application.service_areas?.length ? application.service_areas.join(', ') : application.zip}
+                      </div>
+                    </div>
+                  </div>
+
+                  {application.description && (
+                    <p className="text-sm text-gray-800 bg-gray-50 rounded-lg p-3 mb-4 whitespace-pre-line">
+                      {application.description}
+                    </p>
+                  )}
+
+                  {application.info_request && (
+                    <p className="text-sm text-gray-600 mb-4">
+                      <span className="font-medium">Info requested:</span> {application.info_request}
+                    </p>
+                  )}
+
+                  {application.partner_id && (
+                    <p className="text-sm mb-4">
+                      <Link href={`/admin/partners/${application.partner_id}`} className="text-blue-600 hover:underline">
+                        View partner →
+                      </Link>
+                    </p>
+                  )}
+
+                  {isApplicationOpen(application.status) && (
+                    <div className="pt-4 border-t space-y-3">
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                        <div>
+                          <label className="block text-xs font-medium text-gray-600 mb-1">
+                            Payout % (on approval)
+                          </label>
+                          <input
+                            type="number"
+                            min="0"
+                            max="100"
+                            placeholder={String(DEFAULT_PAYOUT_PERCENT)}
+                            value={payouts[application.id] || ''}
+                            onChange={(e) => setPayouts({ ...payouts, [application.id]: e.target.value })}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                          />
+                        </div>
+                        <div className="md:col-span-2">
+                          <label className="block text-xs font-medium text-gray-600 mb-1">
+                            Message to applicant
+                          </label>
+                          <input
+                            type="text"
+                            placeholder="Required when requesting info or rejecting"
+                            value={messages[application.id] || ''}
+                            onChange={(e) => setMessages({ ...messages, [application.id]: e.target.value })}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                          />
+                        </div>
+                      </div>
+
+                      <div className="flex gap-3">
+                        {application.status === 'pending' && (
+                          <button
+                            onClick={() => decide(application, 'start_review')}
+                            disabled={isSubmitting}
+                            className="flex-1 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                          >
+                            Start Review
+                          </button>
+                        )}
+                        {application.status !== 'info_requested' && (
+                          <button
+                            onClick={() => decide(application, 'request_info')}
+                            disabled={isSubmitting}
+                            className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors disabled:bg-gray-400 font-medium"
+                          >
+                            Request Info
+                          </button>
+                        )}
+                        <button
+                          onClick={() => decide(application, 'approve')}
+                          disabled={isSubmitting}
+                          className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:bg-gray-400 font-medium"
+                        >
+                          Approve
+                        </button>
+                        <button
+                          onClick={() => decide(application, 'reject')}
+                          disabled={isSubmitting}
+                          className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:bg-gray-400 font-medium"
+                        >
+                          Reject
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -12,6 +12,8 @@ interface Partner {
   contact_email: string;
   contact_phone: string;
   address: string | null;
+  latitude: number | null;
+  longitude: number | null;
   payout_percent: number;
   service_areas: string[];
   max_orders_per_slot?: number;
@@ -31,6 +33,8 @@ export default function EditPartner({ params }: { params: { id: string } }) {
     contact_email: '',
     contact_phone: '',
     address: '',
+    latitude: null as number | null,
+    longitude: null as number | null,
     payout_percent: 65,
     max_orders_per_slot: 8,
     max_minutes_per_slot: 240,
@@ -60,6 +64,8 @@ export default function EditPartner({ params }: { params: { id: string } }) {
         contact_email: partner.contact_email,
         contact_phone: partner.contact_phone,
         address: partner.address || '',
+        latitude: partner.latitude,
+        longitude: partner.longitude,
         payout_percent: partner.payout_percent,
         max_orders_per_slot: partner.max_orders_per_slot || 8,
         max_minutes_per_slot: partner.max_minutes_per_slot || 240,
@@ -124,6 +130,8 @@ export default function EditPartner({ params }: { params: { id: string } }) {
         contact_email: formData.contact_email.trim(),
         contact_phone: formData.contact_phone.trim(),
         address: formData.address.trim() || null,
+        latitude: formData.latitude,
+        longitude: formData.longitude,
         payout_percent: formData.payout_percent,
         service_areas: cleanedServiceAreas,
         ...(formData.service_type === 'LAUNDRY' && { max_orders_per_slot: formData.max_orders_per_slot }),
@@ -227,11 +235,16 @@ export default function EditPartner({ params }: { params: { id: string } }) {
                   showLabel={true}
                   defaultValue={formData.address}
                   onAddressSelect={(address) => {
-                    setFormData(prev => ({ ...prev, address: address.formatted }));
+                    setFormData(prev => ({
+                      ...prev,
+                      address: address.formatted,
+                      latitude: address.latitude ?? null,
+                      longitude: address.longitude ?? null,
+                    }));
                   }}
                 />
                 <p className="text-xs text-gray-500 mt-1">
-                  Optional - Business location for reference
+                  Optional - Business location, used to assign nearby bookings
                 </p>
               </div>
             </div>
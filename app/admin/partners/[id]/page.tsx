@@ -3,6 +3,8 @@
 import { use, useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
+import PartnerScorecardPanel from '@/components/admin/PartnerScorecardPanel';
+import type { OrderRating, PartnerScorecard } from '@/lib/scorecards';
 
 interface Partner {
   id: string;
@@ -14,6 +16,7 @@ interface Partner {
   active: boolean;
   payout_percent: number;
   service_areas: string[];
+  scorecard_json: Partial<PartnerScorecard> | null;
   max_orders_per_slot?: number;
   max_minutes_per_slot?: number;
   created_at: string;
@@ -46,6 +49,7 @@ export default function PartnerDetail({ params }: { params: { id: string } }) {
   const [partner, setPartner] = useState<Partner | null>(null);
   const [stats, setStats] = useState<Stats | null>(null);
   const [orders, setOrders] = useState<Order[]>([]);
+  const [reviews, setReviews] = useState<OrderRating[]>([]);
   const [loading, setLoading] = useState(true);
   const [loadingOrders, setLoadingOrders] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -69,6 +73,7 @@ export default function PartnerDetail({ params }: { params: { id: string } }) {
       const data = await res.json();
       setPartner(data.partner);
       setStats(data.stats);
+      setReviews(data.reviews || []);
     } catch (err) {
       console.error('Error fetching partner:', err);
       setError(err instanceof Error ? err.message : 'Failed to load partner');
@@ -226,6 +231,9 @@ export default function PartnerDetail({ params }: { params: { id: string } }) {
         </div>
       )}
 
+      {/* Scorecard */}
+      <PartnerScorecardPanel scorecard={partner.scorecard_json} reviews={reviews} />
+
       {/* Partner Information */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         {/* Contact Information */}
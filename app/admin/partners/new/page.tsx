@@ -16,6 +16,8 @@ export default function NewPartner() {
     contact_email: '',
     contact_phone: '',
     address: '',
+    latitude: null as number | null,
+    longitude: null as number | null,
     payout_percent: 65,
     max_orders_per_slot: 8,
     max_minutes_per_slot: 240,
@@ -71,6 +73,8 @@ export default function NewPartner() {
         contact_email: formData.contact_email.trim(),
         contact_phone: formData.contact_phone.trim(),
         address: formData.address.trim() || null,
+        latitude: formData.latitude,
+        longitude: formData.longitude,
         payout_percent: formData.payout_percent,
         service_areas: cleanedServiceAreas,
         ...(formData.service_type === 'LAUNDRY' && { max_orders_per_slot: formData.max_orders_per_slot }),
@@ -167,11 +171,16 @@ export default function NewPartner() {
                   showLabel={true}
                   defaultValue={formData.address}
                   onAddressSelect={(address) => {
-                    setFormData(prev => ({ ...prev, address: address.formatted }));
+                    setFormData(prev => ({
+                      ...prev,
+                      address: address.formatted,
+                      latitude: address.latitude ?? null,
+                      longitude: address.longitude ?? null,
+                    }));
                   }}
                 />
                 <p className="text-xs text-gray-500 mt-1">
-                  Optional - Business location for reference
+                  Optional - Business location, used to assign nearby bookings
                 </p>
               </div>
             </div>
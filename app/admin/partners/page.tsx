@@ -3,6 +3,7 @@
 import { useEffect, useState } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
+import type { PartnerScorecard } from '@/lib/scorecards';
 
 interface Partner {
   id: string;
@@ -12,6 +13,7 @@ interface Partner {
   contact_phone: string;
   active: boolean;
   payout_percent: number;
+  scorecard_json: Partial<PartnerScorecard> | null;
   created_at: string;
 }
 
@@ -180,11 +182,22 @@ export default function AdminPartners() {
                       <span className="px-2 py-1 text-xs font-medium bg-blue-100 text-blue-800 rounded-full">
                         {partner.service_type}
                       </span>
+                      {!!partner.scorecard_json?.low_metrics?.length && (
+                        <span className="px-2 py-1 text-xs font-medium bg-red-100 text-red-800 rounded-full">
+                          Low scores
+                        </span>
+                      )}
                     </div>
                     <div className="flex items-center gap-4 text-sm text-gray-600">
                       <span>✉️ {partner.contact_email}</span>
                       <span>📞 {partner.contact_phone}</span>
                       <span>💰 {partner.payout_percent}% payout</span>
+                      {partner.scorecard_json?.rating != null && (
+                        <span>⭐ {partner.scorecard_json.rating.toFixed(1)} ({partner.scorecard_json.review_count})</span>
+                      )}
+                      {partner.scorecard_json?.on_time_rate != null && (
+                        <span>⏱️ {Math.round(partner.scorecard_json.on_time_rate * 100)}% on time</span>
+                      )}
                     </div>
                   </div>
                   <div className="flex gap-2">
@@ -0,0 +1,248 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { formatDateOnly } from '@/lib/timezone'
+import { PAYOUT_STATUS_LABELS, type PayoutStatus } from '@/lib/payouts'
+
+interface AdminPayout {
+  id: string
+  partner_id: string
+  period_start: string
+  period_end: string
+  order_count: number
+  revenue_cents: number
+  payout_percent: number | null
+  gross_cents: number
+  refunds_cents: number
+  claims_cents: number
+  tips_cents: number
+  net_cents: number
+  status: PayoutStatus
+  paid_at: string | null
+  payout_reference: string | null
+  notes: string | null
+  partners: {
+    id: string
+    name: string
+    service_type: string
+    contact_email: string | null
+  } | null
+}
+
+type StatusFilter = PayoutStatus | 'all'
+
+const STATUS_FILTERS: Array<{ value: StatusFilter; label: string }> = [
+  { value: 'DUE', label: 'Due' },
+  { value: 'PAID', label: 'Paid' },
+  { value: 'CANCELED', label: 'Canceled' },
+  { value: 'all', label: 'All' },
+]
+
+function formatCents(cents: number) {
+  const sign = cents < 0 ? '-' : ''
+  return `${sign}$${(Math.abs(cents) / 100).toFixed(2)}`
+}
+
+function getStatusBadge(status: PayoutStatus) {
+  const styles: Record<PayoutStatus, string> = {
+    DUE: 'bg-yellow-100 text-yellow-800',
+    PAID: 'bg-green-100 text-green-800',
+    CANCELED: 'bg-gray-100 text-gray-800',
+  }
+  return styles[status]
+}
+
+export default function AdminPayoutsPage() {
+  const [payouts, setPayouts] = useState<AdminPayout[]>([])
+  const [totals, setTotals] = useState({ due_cents: 0, paid_cents: 0 })
+  const [loading, setLoading] = useState(true)
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('DUE')
+  const [submitting, setSubmitting] = useState<string | null>(null)
+  const [references, setReferences] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    fetchPayouts()
+  }, [statusFilter])
+
+  async function fetchPayouts() {
+    setLoading(true)
+    try {
+      const res = await fetch(`/api/admin/payouts?status=${statusFilter}`)
+      const data = await res.json()
+      setPayouts(data.payouts || [])
+      setTotals(data.totals || { due_cents: 0, paid_cents: 0 })
+    } catch (error) {
+      console.error('Failed to fetch payouts:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function markPaid(payout: AdminPayout) {
+    const partnerName = payout.partners?.name || 'this partner'
+    if (!confirm(`Mark ${formatCents(payout.net_cents)} to ${partnerName} as paid?`)) return
+
+    setSubmitting(payout.id)
+    try {
+      const res = await fetch(`/api/admin/payouts/${payout.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          status: 'PAID',
+          payout_reference: (references[payout.id] || '').trim() || undefined,
+        }),
+      })
+
+      const data = await res.json()
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to update payout')
+      }
+
+      await fetchPayouts()
+    } catch (error: any) {
+      alert(`Failed to mark payout paid: ${error.message}`)
+    } finally {
+      setSubmitting(null)
+    }
+  }
+
+  return (
+    <div className="p-6 max-w-7xl mx-auto">
+      <div className="mb-6 flex justify-between items-start">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Partner Payouts</h1>
+          <p className="text-gray-600">
+            Weekly settlements of completed orders, net of refunds and claim charge-backs.
+          </p>
+        </div>
+        <a
+          href={`/api/admin/payouts?status=${statusFilter}&format=csv`}
+          className="px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors text-sm font-medium"
+        >
+          Export CSV
+        </a>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        <div className="bg-white rounded-lg border shadow-sm p-4">
+          <div className="text-sm text-gray-500">Due (shown)</div>
+          <div className="text-2xl font-bold text-yellow-700">{formatCents(totals.due_cents)}</div>
+        </div>
+        <div className="bg-white rounded-lg border shadow-sm p-4">
+          <div className="text-sm text-gray-500">Paid (shown)</div>
+          <div className="text-2xl font-bold text-green-700">{formatCents(totals.paid_cents)}</div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-6">
+        {STATUS_FILTERS.map((filter) => (
+          <button
+            key={filter.value}
+            onClick={() => setStatusFilter(filter.value)}
+            className={`px-3 py-1.5 text-sm font-medium rounded-lg border transition-colors ${
+              statusFilter === filter.value
+                ? 'bg-gray-900 text-white border-gray-900'
+                : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {filter.label}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="animate-pulse space-y-4">
+          <div className="h-16 bg-gray-200 rounded"></div>
+          <div className="h-16 bg-gray-200 rounded"></div>
+        </div>
+      ) : payouts.length === 0 ? (
+        <div className="bg-white rounded-lg border-2 border-dashed border-gray-300 p-12 text-center">
+          <h3 className="text-lg font-medium text-gray-900">No payouts to show</h3>
+          <p className="mt-2 text-sm text-gray-500">
+            Payouts are created every Monday for the previous week.
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg border shadow-sm overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Partner</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Period</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Orders</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Revenue</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Share</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Refunds</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Claims</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Tips</th>
+                <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Net</th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {payouts.map((payout) => (
+                <tr key={payout.id} className="align-top">
+                  <td className="px-4 py-3 text-sm">
+                    <div className="font-medium text-gray-900">{payout.partners?.name || 'Unknown partner'}</div>
+                    <div className="text-xs text-gray-500">{payout.partners?.service_type}</div>
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-700 whitespace-nowrap">
+                    {formatDateOnly(payout.period_start)} – {formatDateOnly(payout.period_end)}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-700 text-right">{payout.order_count}</td>
+                  <td className="px-4 py-3 text-sm text-gray-700 text-right">{formatCents(payout.revenue_cents)}</td>
+                  <td className="px-4 py-3 text-sm text-gray-700 text-right">
+                    {formatCents(payout.gross_cents)}
+                    {payout.payout_percent != null && (
+                      <div className="text-xs text-gray-500">{payout.payout_percent}%</div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-red-600 text-right">
+                    {payout.refunds_cents > 0 ? formatCents(-payout.refunds_cents) : '—'}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-red-600 text-right">
+                    {payout.claims_cents > 0 ? formatCents(-payout.claims_cents) : '—'}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-green-600 text-right">
+                    {payout.tips_cents > 0 ? formatCents(payout.tips_cents) : '—'}
+                  </td>
+                  <td className={`px-4 py-3 text-sm font-semibold text-right ${payout.net_cents < 0 ? 'text-red-700' : 'text-gray-900'}`}>
+                    {formatCents(payout.net_cents)}
+                  </td>
+                  <td className="px-4 py-3 text-sm">
+                    <span className={`px-2 py-1 text-xs font-medium rounded ${getStatusBadge(payout.status)}`}>
+                      {PAYOUT_STATUS_LABELS[payout.status]}
+                    </span>
+                    {payout.status === 'DUE' ? (
+                      <div className="mt-2 flex gap-2">
+                        <input
+                          type="text"
+                          placeholder="Reference"
+                          value={references[payout.id] || ''}
+                          onChange={(e) => setReferences({ ...references, [payout.id]: e.target.value })}
+                          className="w-28 px-2 py-1 border border-gray-300 rounded text-xs"
+                        />
+                        <button
+                          onClick={() => markPaid(payout)}
+                          disabled={submitting === payout.id}
+                          className="px-3 py-1 bg-green-600 text-white rounded text-xs font-medium hover:bg-green-700 disabled:bg-gray-400"
+                        >
+                          Mark Paid
+                        </button>
+                      </div>
+                    ) : payout.paid_at ? (
+                      <div className="mt-1 text-xs text-gray-500">
+                        {new Date(payout.paid_at).toLocaleDateString()}
+                        {payout.payout_reference && ` · ${payout.payout_reference}`}
+                      </div>
+                    ) : null}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -2,6 +2,10 @@
 
 import { useState, useEffect } from 'react'
 import { Toast } from '@/components/Toast'
+import PromoCodesManager from '@/components/admin/PromoCodesManager'
+import FeatureFlagsManager from '@/components/admin/FeatureFlagsManager'
+import PricingVersionsManager from '@/components/admin/PricingVersionsManager'
+import type { PricingVersion } from '@/lib/pricing-versions'
 
 interface PricingRule {
   id: string
@@ -11,12 +15,75 @@ interface PricingRule {
   unit_key: string
   unit_price_cents: number | null
   multiplier: number | null
+  rate: number | null
+  min_quantity: number | null
+  label: string | null
   active: boolean
   updated_at: string
   updated_by: string | null
   change_reason: string | null
 }
 
+type RuleValueField = 'unit_price_cents' | 'multiplier' | 'rate' | 'min_quantity'
+
+// Which column holds a rule's value depends on its type (see lib/pricing-rules)
+function getRuleValueField(rule: PricingRule): RuleValueField {
+  switch (rule.unit_type) {
+    case 'PERCENT_SURCHARGE':
+    case 'FREQUENCY_DISCOUNT':
+    case 'TAX':
+      return 'rate'
+    case 'MIN_QTY':
+      return 'min_quantity'
+    case 'MULTIPLIER':
+      return 'multiplier'
+    default:
+      return 'unit_price_cents'
+  }
+}
+
+// Prices are edited in dollars and rates in percent
+function toInputValue(rule: PricingRule): string {
+  const field = getRuleValueField(rule)
+  const value = rule[field]
+  if (value === null) return ''
+  if (field === 'unit_price_cents') return (value / 100).toFixed(2)
+  if (field === 'rate') return String(Math.round(value * 100000) / 1000)
+  return String(value)
+}
+
+function fromInputValue(rule: PricingRule, input: number): number {
+  const field = getRuleValueField(rule)
+  if (field === 'unit_price_cents') return Math.round(input * 100)
+  if (field === 'rate') return Math.round(input * 1000) / 100000
+  return input
+}
+
+function getValueUnits(rule: PricingRule): { prefix: string; suffix: string } {
+  switch (getRuleValueField(rule)) {
+    case 'unit_price_cents':
+      return { prefix: '$', suffix: '' }
+    case 'rate':
+      return { prefix: '', suffix: '%' }
+    case 'multiplier':
+      return { prefix: '', suffix: 'x' }
+    case 'min_quantity':
+      return { prefix: '', suffix: rule.service_type === 'LAUNDRY' ? 'lbs' : '' }
+  }
+}
+
+function formatRuleValue(rule: PricingRule): string {
+  const value = toInputValue(rule)
+  if (!value) return 'N/A'
+  const { prefix, suffix } = getValueUnits(rule)
+  return getRuleValueField(rule) === 'min_quantity' && suffix
+    ? `${value} ${suffix}`
+    : `${prefix}${value}${suffix}`
+}
+
+// Rules whose label is printed on the customer's quote
+const LABELLED_RULE_TYPES = ['ADDON', 'PER_ITEM', 'PERCENT_SURCHARGE', 'FREQUENCY_DISCOUNT', 'TAX']
+
 interface RuleMetadata {
   displayName: string
   description: string
@@ -54,14 +121,17 @@ interface DeliveryTimePolicy {
 }
 
 export default function AdminSettingsPage() {
-  const [activeTab, setActiveTab] = useState<'pricing' | 'policies' | 'delivery' | 'history'>('pricing')
+  const [activeTab, setActiveTab] = useState<'pricing' | 'policies' | 'delivery' | 'promos' | 'flags' | 'history'>('pricing')
   const [pricingRules, setPricingRules] = useState<PricingRule[]>([])
+  const [pricingVersionId, setPricingVersionId] = useState<string | null>(null)
+  const [pricingVersion, setPricingVersion] = useState<PricingVersion | null>(null)
   const [policies, setPolicies] = useState<CancellationPolicy[]>([])
   const [deliveryPolicies, setDeliveryPolicies] = useState<DeliveryTimePolicy[]>([])
   const [loading, setLoading] = useState(true)
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null)
   const [editingRule, setEditingRule] = useState<string | null>(null)
   const [editValues, setEditValues] = useState<Record<string, number>>({})
+  const [editLabels, setEditLabels] = useState<Record<string, string>>({})
   const [editingPolicy, setEditingPolicy] = useState<string | null>(null)
   const [policyFormValues, setPolicyFormValues] = useState<Partial<CancellationPolicy>>({})
   const [editingDeliveryPolicy, setEditingDeliveryPolicy] = useState<string | null>(null)
@@ -71,13 +141,15 @@ export default function AdminSettingsPage() {
     loadData()
   }, [])
 
-  async function loadData() {
+  // versionId null shows the version in effect now
+  async function loadData(versionId: string | null = pricingVersionId) {
     setLoading(true)
     try {
       // Add timestamp to prevent caching
       const timestamp = Date.now()
+      const versionParam = versionId ? `&version_id=${versionId}` : ''
       const [pricingRes, policiesRes, deliveryRes] = await Promise.all([
-        fetch(`/api/admin/settings/pricing?t=${timestamp}`, {
+        fetch(`/api/admin/settings/pricing?t=${timestamp}${versionParam}`, {
           cache: 'no-store'
         }),
         fetch(`/api/admin/settings/policies?t=${timestamp}`, {
@@ -95,6 +167,7 @@ export default function AdminSettingsPage() {
       ])
 
       if (pricingData.rules) setPricingRules(pricingData.rules)
+      setPricingVersion(pricingData.version || null)
       if (policiesData.policies) setPolicies(policiesData.policies)
       if (deliveryData.policies) setDeliveryPolicies(deliveryData.policies)
     } catch (error) {
@@ -105,6 +178,13 @@ export default function AdminSettingsPage() {
     }
   }
 
+  function selectPricingVersion(versionId: string | null) {
+    setPricingVersionId(versionId)
+    setEditingRule(null)
+    setEditValues({})
+    loadData(versionId)
+  }
+
   function showToast(message: string, type: 'success' | 'error') {
     setToast({ message, type })
     setTimeout(() => setToast(null), 3000)
@@ -210,14 +290,14 @@ export default function AdminSettingsPage() {
     }
   }
 
-  async function updatePricingRule(ruleId: string, value: number) {
+  async function updatePricingRule(ruleId: string, value: number | undefined, label: string | undefined) {
     try {
       const rule = pricingRules.find(r => r.id === ruleId)
       if (!rule) return
 
-      const updateData = rule.unit_price_cents !== null 
-        ? { unit_price_cents: value }
-        : { multiplier: value }
+      const updateData: Record<string, number | string | null> = {}
+      if (value !== undefined) updateData[getRuleValueField(rule)] = value
+      if (label !== undefined) updateData.label = label.trim() || null
 
       const res = await fetch(`/api/admin/settings/pricing/${ruleId}`, {
         method: 'PUT',
@@ -228,25 +308,24 @@ export default function AdminSettingsPage() {
         })
       })
 
-      if (!res.ok) throw new Error('Update failed')
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        throw new Error(data.error || 'Update failed')
+      }
 
-      showToast('Pricing updated successfully', 'success')
+      showToast(`Draft v${pricingVersion?.version} updated`, 'success')
       
       // Wait for data to refresh before clearing edit state
       await loadData()
       
       setEditingRule(null)
       setEditValues({})
+      setEditLabels({})
     } catch (error) {
-      showToast('Failed to update pricing', 'error')
+      showToast(error instanceof Error ? error.message : 'Failed to update pricing', 'error')
     }
   }
 
-  function formatPrice(cents: number | null): string {
-    if (cents === null) return 'N/A'
-    return `$${(cents / 100).toFixed(2)}`
-  }
-
   function getRuleMetadata(rule: PricingRule): RuleMetadata {
     const metadata: Record<string, RuleMetadata> = {
       'LND_WF_PERLB': {
@@ -257,16 +336,17 @@ export default function AdminSettingsPage() {
         usageNote: 'Applied to 89% of orders'
       },
       'LND_WF_MIN_LBS': {
-        displayName: 'Minimum Order Charge',
-        description: 'Minimum dollar amount charged for any laundry order',
+        displayName: 'Minimum Weight',
+        description: 'Least weight billed on any laundry order',
         category: 'BASE_PRICING',
-        example: 'Small orders (e.g. 5-lbs) are still charged $15.00 minimum',
+        example: 'Small orders (e.g. 5-lbs) are still billed as 15 lbs',
         usageNote: 'Ensures profitability on small orders'
       },
       'LND_RUSH_24HR': {
         displayName: 'Rush Service (24-hour)',
-        description: 'Flat fee for expedited 24-hour turnaround',
-        category: 'ADD_ONS',
+        description: 'Percentage of the subtotal added for expedited 24-hour turnaround',
+        category: 'SURCHARGES_DISCOUNTS',
+        example: '$43.75 order + 25% = $54.69',
         usageNote: '12% adoption rate'
       },
       'LND_BULKY_ITEM': {
@@ -384,6 +464,39 @@ export default function AdminSettingsPage() {
         description: 'Included in base price',
         category: 'DELIVERY',
         usageNote: 'No additional charge'
+      },
+      'CLN_RECURRING_WEEKLY': {
+        displayName: 'Weekly Plan Discount',
+        description: 'Off every weekly visit from the second on',
+        category: 'SURCHARGES_DISCOUNTS',
+        usageNote: 'Also stored on new plans'
+      },
+      'CLN_RECURRING_BIWEEKLY': {
+        displayName: 'Biweekly Plan Discount',
+        description: 'Off every biweekly visit from the second on',
+        category: 'SURCHARGES_DISCOUNTS',
+        usageNote: 'Also stored on new plans'
+      },
+      'CLN_RECURRING_MONTHLY': {
+        displayName: 'Monthly Plan Discount',
+        description: 'Off every monthly visit from the second on',
+        category: 'SURCHARGES_DISCOUNTS',
+        usageNote: 'Also stored on new plans'
+      },
+      'NYC_SALES_TAX': {
+        displayName: 'Sales Tax',
+        description: 'Charged on taxable lines (cleaning; laundry is exempt)',
+        category: 'TAX',
+        example: '$149 × 8.875% = $13.22'
+      }
+    }
+    
+    // Garments are added to the catalog freely, so they describe themselves
+    if (!metadata[rule.unit_key] && rule.unit_type === 'PER_ITEM') {
+      return {
+        displayName: rule.label || rule.unit_key,
+        description: 'Dry clean price per garment',
+        category: 'DRY_CLEAN'
       }
     }
     
@@ -400,7 +513,10 @@ export default function AdminSettingsPage() {
       'BASE_PRICING': 'Base Rates',
       'ADD_ONS': 'Add-On Services',
       'MULTIPLIERS': 'Service Type Multipliers',
+      'DRY_CLEAN': 'Dry Clean Garments',
       'DELIVERY': 'Fees & Delivery',
+      'SURCHARGES_DISCOUNTS': 'Surcharges & Discounts',
+      'TAX': 'Tax',
       'OTHER': 'Other Rules'
     }
     return labels[category] || category
@@ -477,6 +593,26 @@ export default function AdminSettingsPage() {
           >
             Delivery Time Policies
           </button>
+          <button
+            onClick={() => setActiveTab('promos')}
+            className={`py-4 px-1 border-b-2 font-medium text-sm ${
+              activeTab === 'promos'
+                ? 'border-blue-500 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            Promo Codes
+          </button>
+          <button
+            onClick={() => setActiveTab('flags')}
+            className={`py-4 px-1 border-b-2 font-medium text-sm ${
+              activeTab === 'flags'
+                ? 'border-blue-500 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            Feature Flags
+          </button>
           <button
             onClick={() => setActiveTab('history')}
             className={`py-4 px-1 border-b-2 font-medium text-sm ${
@@ -504,12 +640,25 @@ export default function AdminSettingsPage() {
               <div className="ml-3">
                 <h3 className="text-sm font-medium text-blue-800">Pricing Updates Apply to New Bookings Only</h3>
                 <p className="mt-1 text-sm text-blue-700">
-                  Changes made here affect NEW orders starting immediately. Existing orders keep their original pricing.
+                  Edits go into a draft and take effect when it is published. Existing orders keep the version they were quoted under.
                 </p>
               </div>
             </div>
           </div>
 
+          <PricingVersionsManager
+            selectedVersionId={pricingVersionId}
+            onSelectVersion={selectPricingVersion}
+            showToast={showToast}
+          />
+
+          {pricingVersion && (
+            <p className="text-sm text-gray-600">
+              Showing v{pricingVersion.version} rules
+              {pricingVersion.status === 'draft' ? ' (draft, editable)' : ' (published, read-only)'}
+            </p>
+          )}
+
           {/* Laundry Service Pricing */}
           <div className="bg-white rounded-lg shadow">
             <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
@@ -517,7 +666,7 @@ export default function AdminSettingsPage() {
                 <span className="text-2xl mr-3">💼</span>
                 <div>
                   <h2 className="text-lg font-semibold text-gray-900">Laundry Service Pricing</h2>
-                  <p className="text-sm text-gray-600">Wash & fold service rates and add-ons</p>
+                  <p className="text-sm text-gray-600">Wash & fold, dry clean and add-on rates</p>
                 </div>
               </div>
             </div>
@@ -547,6 +696,11 @@ export default function AdminSettingsPage() {
                               </span>
                             </div>
                             <p className="mt-1 text-sm text-gray-600">{metadata.description}</p>
+                            {rule.label && (
+                              <p className="mt-1 text-xs text-gray-500">
+                                Shown to customers as &ldquo;{rule.label}&rdquo;
+                              </p>
+                            )}
                             {metadata.example && (
                               <p className="mt-1 text-xs text-gray-500 font-mono bg-gray-50 inline-block px-2 py-1 rounded">
                                 Example: {metadata.example}
@@ -566,35 +720,43 @@ export default function AdminSettingsPage() {
                           
                           <div className="flex items-center gap-4 ml-6">
                             {editingRule === rule.id ? (
-                              <div className="flex items-center gap-2">
-                                <span className="text-sm text-gray-500">
-                                  {rule.unit_price_cents !== null ? '$' : ''}
-                                </span>
-                                <input
-                                  type="number"
-                                  step={rule.unit_price_cents !== null ? "0.01" : "0.01"}
-                                  defaultValue={
-                                    rule.unit_price_cents !== null
-                                      ? (rule.unit_price_cents / 100).toFixed(2)
-                                      : rule.multiplier?.toFixed(2)
-                                  }
-                                  onChange={(e) => setEditValues({
-                                    ...editValues,
-                                    [rule.id]: parseFloat(e.target.value) * (rule.unit_price_cents !== null ? 100 : 1)
-                                  })}
-                                  className="w-24 px-3 py-2 border border-blue-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                                  autoFocus
-                                />
-                                <span className="text-sm text-gray-500">
-                                  {rule.multiplier !== null ? 'x' : ''}
-                                </span>
+                              <div className="flex flex-col items-end gap-2">
+                                <div className="flex items-center gap-2">
+                                  <span className="text-sm text-gray-500">
+                                    {getValueUnits(rule).prefix}
+                                  </span>
+                                  <input
+                                    type="number"
+                                    step={getRuleValueField(rule) === 'rate' ? "0.001" : "0.01"}
+                                    defaultValue={toInputValue(rule)}
+                                    onChange={(e) => setEditValues({
+                                      ...editValues,
+                                      [rule.id]: fromInputValue(rule, parseFloat(e.target.value))
+                                    })}
+                                    className="w-24 px-3 py-2 border border-blue-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                                    autoFocus
+                                  />
+                                  <span className="text-sm text-gray-500">
+                                    {getValueUnits(rule).suffix}
+                                  </span>
+                                </div>
+                                {LABELLED_RULE_TYPES.includes(rule.unit_type) && (
+                                  <input
+                                    type="text"
+                                    placeholder="Customer-facing label"
+                                    defaultValue={rule.label || ''}
+                                    onChange={(e) => setEditLabels({
+                                      ...editLabels,
+                                      [rule.id]: e.target.value
+                                    })}
+                                    className="w-56 px-3 py-2 text-sm border border-blue-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                                  />
+                                )}
                               </div>
                             ) : (
                               <div className="text-right">
                                 <div className="text-2xl font-bold text-gray-900">
-                                  {rule.unit_price_cents !== null
-                                    ? formatPrice(rule.unit_price_cents)
-                                    : `${rule.multiplier}x`}
+                                  {formatRuleValue(rule)}
                                 </div>
                               </div>
                             )}
@@ -603,7 +765,7 @@ export default function AdminSettingsPage() {
                               {editingRule === rule.id ? (
                                 <>
                                   <button
-                                    onClick={() => updatePricingRule(rule.id, editValues[rule.id])}
+                                    onClick={() => updatePricingRule(rule.id, editValues[rule.id], editLabels[rule.id])}
                                     className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium text-sm transition-colors"
                                   >
                                     Save
@@ -612,13 +774,14 @@ export default function AdminSettingsPage() {
                                     onClick={() => {
                                       setEditingRule(null)
                                       setEditValues({})
+                                      setEditLabels({})
                                     }}
                                     className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium text-sm transition-colors"
                                   >
                                     Cancel
                                   </button>
                                 </>
-                              ) : (
+                              ) : pricingVersion?.status === 'draft' && (
                                 <button
                                   onClick={() => setEditingRule(rule.id)}
                                   className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium text-sm transition-colors flex items-center gap-1"
@@ -675,6 +838,11 @@ export default function AdminSettingsPage() {
                               </span>
                             </div>
                             <p className="mt-1 text-sm text-gray-600">{metadata.description}</p>
+                            {rule.label && (
+                              <p className="mt-1 text-xs text-gray-500">
+                                Shown to customers as &ldquo;{rule.label}&rdquo;
+                              </p>
+                            )}
                             {metadata.example && (
                               <p className="mt-1 text-xs text-gray-500 font-mono bg-gray-50 inline-block px-2 py-1 rounded">
                                 Example: {metadata.example}
@@ -694,35 +862,43 @@ export default function AdminSettingsPage() {
                           
                           <div className="flex items-center gap-4 ml-6">
                             {editingRule === rule.id ? (
-                              <div className="flex items-center gap-2">
-                                <span className="text-sm text-gray-500">
-                                  {rule.unit_price_cents !== null ? '$' : ''}
-                                </span>
-                                <input
-                                  type="number"
-                                  step={rule.unit_price_cents !== null ? "0.01" : "0.01"}
-                                  defaultValue={
-                                    rule.unit_price_cents !== null
-                                      ? (rule.unit_price_cents / 100).toFixed(2)
-                                      : rule.multiplier?.toFixed(2)
-                                  }
-                                  onChange={(e) => setEditValues({
-                                    ...editValues,
-                                    [rule.id]: parseFloat(e.target.value) * (rule.unit_price_cents !== null ? 100 : 1)
-                                  })}
-                                  className="w-24 px-3 py-2 border border-blue-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                                  autoFocus
-                                />
-                                <span className="text-sm text-gray-500">
-                                  {rule.multiplier !== null ? 'x' : ''}
-                                </span>
+                              <div className="flex flex-col items-end gap-2">
+                                <div className="flex items-center gap-2">
+                                  <span className="text-sm text-gray-500">
+                                    {getValueUnits(rule).prefix}
+                                  </span>
+                                  <input
+                                    type="number"
+                                    step={getRuleValueField(rule) === 'rate' ? "0.001" : "0.01"}
+                                    defaultValue={toInputValue(rule)}
+                                    onChange={(e) => setEditValues({
+                                      ...editValues,
+                                      [rule.id]: fromInputValue(rule, parseFloat(e.target.value))
+                                    })}
+                                    className="w-24 px-3 py-2 border border-blue-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                                    autoFocus
+                                  />
+                                  <span className="text-sm text-gray-500">
+                                    {getValueUnits(rule).suffix}
+                                  </span>
+                                </div>
+                                {LABELLED_RULE_TYPES.includes(rule.unit_type) && (
+                                  <input
+                                    type="text"
+                                    placeholder="Customer-facing label"
+                                    defaultValue={rule.label || ''}
+                                    onChange={(e) => setEditLabels({
+                                      ...editLabels,
+                                      [rule.id]: e.target.value
+                                    })}
+                                    className="w-56 px-3 py-2 text-sm border border-blue-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                                  />
+                                )}
                               </div>
                             ) : (
                               <div className="text-right">
                                 <div className="text-2xl font-bold text-gray-900">
-                                  {rule.unit_price_cents !== null
-                                    ? formatPrice(rule.unit_price_cents)
-                                    : `${rule.multiplier}x`}
+                                  {formatRuleValue(rule)}
                                 </div>
                               </div>
                             )}
@@ -731,7 +907,7 @@ export default function AdminSettingsPage() {
                               {editingRule === rule.id ? (
                                 <>
                                   <button
-                                    onClick={() => updatePricingRule(rule.id, editValues[rule.id])}
+                                    onClick={() => updatePricingRule(rule.id, editValues[rule.id], editLabels[rule.id])}
                                     className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium text-sm transition-colors"
                                   >
                                     Save
@@ -740,13 +916,14 @@ export default function AdminSettingsPage() {
                                     onClick={() => {
                                       setEditingRule(null)
                                       setEditValues({})
+                                      setEditLabels({})
                                     }}
                                     className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium text-sm transition-colors"
                                   >
                                     Cancel
                                   </button>
                                 </>
-                              ) : (
+                              ) : pricingVersion?.status === 'draft' && (
                                 <button
                                   onClick={() => setEditingRule(rule.id)}
                                   className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium text-sm transition-colors flex items-center gap-1"
@@ -1437,6 +1614,16 @@ export default function AdminSettingsPage() {
         </div>
       )}
 
+      {/* Promo Codes Tab */}
+      {activeTab === 'promos' && (
+        <PromoCodesManager showToast={showToast} />
+      )}
+
+      {/* Feature Flags Tab */}
+      {activeTab === 'flags' && (
+        <FeatureFlagsManager showToast={showToast} />
+      )}
+
       {/* History Tab */}
       {activeTab === 'history' && (
         <div className="bg-white rounded-lg shadow">
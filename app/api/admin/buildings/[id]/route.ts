@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireAdmin } from '@/lib/auth'
+import { getServiceClient } from '@/lib/db'
+import { logAudit, getRequestMetadata } from '@/lib/audit'
+import { buildingSchema, normalizeStreetAddress } from '@/lib/buildings'
+
+const updateBuildingSchema = buildingSchema.partial()
+
+/**
+ * PATCH /api/admin/buildings/[id] - Update building details, terms or status
+ *
+ * Body: any subset of the building fields. Set active: false to retire a
+ * building; existing orders keep their building_id.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAdmin()
+    const { id: buildingId } = await params
+
+    const input = updateBuildingSchema.parse(await request.json())
+
+    const db = getServiceClient()
+
+    const { data: current, error: fetchError } = await db
+      .from('buildings')
+      .select('*')
+      .eq('id', buildingId)
+      .single()
+
+    if (fetchError || !current) {
+      return NextResponse.json(
+        { error: 'Building not found' },
+        { status: 404 }
+      )
+    }
+
+    const updates: Record<string, any> = { ...input }
+    const addressLine1 = input.address_line1 ?? current.address_line1
+    const zip = input.zip ?? current.zip
+
+    if (input.address_line1 !== undefined || input.zip !== undefined) {
+      updates.normalized_address = normalizeStreetAddress(addressLine1)
+      updates.address = `${addressLine1}, New York, NY ${zip}`
+    }
+
+    const { data: building, error: updateError } = await db
+      .from('buildings')
+      .update(updates)
+      .eq('id', buildingId)
+      .select()
+      .single()
+
+    if (updateError) {
+      // Unique (zip, normalized_address) among active buildings
+      if (updateError.code === '23505') {
+        return NextResponse.json(
+          { error: 'Another active building is registered at this address' },
+          { status: 409 }
+        )
+      }
+      throw updateError
+    }
+
+    const changes: Record<string, { old: unknown; new: unknown }> = {}
+    for (const [key, value] of Object.entries(input)) {
+      if (JSON.stringify(current[key]) !== JSON.stringify(value)) {
+        changes[key] = { old: current[key], new: value }
+      }
+    }
+
+    await logAudit({
+      actor_id: user.id,
+      actor_role: 'admin',
+      action: 'building.update',
+      entity_type: 'building',
+      entity_id: buildingId,
+      changes,
+      ...getRequestMetadata(request),
+    })
+
+    return NextResponse.json({ building })
+  } catch (error) {
+    console.error('Building update error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && (error.message === 'Unauthorized' || error.message.includes('Forbidden'))) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.message === 'Unauthorized' ? 401 : 403 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update building' },
+      { status: 500 }
+    )
+  }
+}
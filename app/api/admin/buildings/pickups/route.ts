@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/auth'
+import { getServiceClient } from '@/lib/db'
+import { toNYDateString } from '@/lib/timezone'
+
+const EXCLUDED_STATUSES = ['canceled', 'refunded']
+
+/**
+ * GET /api/admin/buildings/pickups - Pickups batched per building for one day
+ *
+ * Query params:
+ * - date: YYYY-MM-DD in NY time (default: today)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin()
+
+    const { searchParams } = new URL(request.url)
+    const date = searchParams.get('date') || toNYDateString(new Date())
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return NextResponse.json(
+        { error: 'date must be YYYY-MM-DD' },
+        { status: 400 }
+      )
+    }
+
+    // Pad the UTC window by a day on each side, then bucket by NY date
+    const dayStart = new Date(`${date}T00:00:00Z`)
+    const windowStart = new Date(dayStart.getTime() - 24 * 60 * 60 * 1000)
+    const windowEnd = new Date(dayStart.getTime() + 2 * 24 * 60 * 60 * 1000)
+
+    const db = getServiceClient()
+    const { data: orders, error } = await db
+      .from('orders')
+      .select('id, user_id, building_id, service_type, status, slot_start, slot_end, address_snapshot, partner_id, partners(name)')
+      .not('building_id', 'is', null)
+      .gte('slot_start', windowStart.toISOString())
+      .lt('slot_start', windowEnd.toISOString())
+      .order('slot_start', { ascending: true })
+
+    if (error) throw error
+
+    const dayOrders = (orders || []).filter((order: any) =>
+      toNYDateString(order.slot_start) === date && !EXCLUDED_STATUSES.includes(order.status)
+    )
+
+    const buildingIds = Array.from(new Set(dayOrders.map((order: any) => order.building_id)))
+    const userIds = Array.from(new Set(dayOrders.map((order: any) => order.user_id).filter(Boolean)))
+
+    const [buildingsResult, profilesResult] = await Promise.all([
+      buildingIds.length > 0
+        ? db
+            .from('buildings')
+            .select('id, name, address, doorman_policy, dropoff_instructions, contact')
+            .in('id', buildingIds)
+        : Promise.resolve({ data: [] as any[] }),
+      userIds.length > 0
+        ? db
+            .from('profiles')
+            .select('id, full_name, phone')
+            .in('id', userIds)
+        : Promise.resolve({ data: [] as any[] }),
+    ])
+
+    const profilesById = Object.fromEntries(
+      (profilesResult.data || []).map((p: any) => [p.id, p])
+    )
+
+    const batches = (buildingsResult.data || [])
+      .map((building: any) => {
+        const buildingOrders = dayOrders
+          .filter((order: any) => order.building_id === building.id)
+          .map((order: any) => ({
+            id: order.id,
+            service_type: order.service_type,
+            status: order.status,
+            slot_start: order.slot_start,
+            slot_end: order.slot_end,
+            unit: order.address_snapshot?.line2 || null,
+            partner_name: order.partners?.name || null,
+            customer: profilesById[order.user_id] || null,
+          }))
+
+        return {
+          building,
+          order_count: buildingOrders.length,
+          first_slot_start: buildingOrders[0]?.slot_start || null,
+          orders: buildingOrders,
+        }
+      })
+      .sort((a: any, b: any) => (a.first_slot_start || '').localeCompare(b.first_slot_start || ''))
+
+    return NextResponse.json({ date, batches })
+  } catch (error) {
+    console.error('Building pickups error:', error)
+
+    if (error instanceof Error && (error.message === 'Unauthorized' || error.message.includes('Forbidden'))) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.message === 'Unauthorized' ? 401 : 403 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch building pickups' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireAdmin } from '@/lib/auth'
+import { getServiceClient } from '@/lib/db'
+import { logAudit, getRequestMetadata } from '@/lib/audit'
+import { buildingSchema, normalizeStreetAddress } from '@/lib/buildings'
+
+/**
+ * GET /api/admin/buildings - List partner buildings with resident counts
+ *
+ * Query params:
+ * - include_inactive: 'true' to include deactivated buildings
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin()
+
+    const { searchParams } = new URL(request.url)
+    const includeInactive = searchParams.get('include_inactive') === 'true'
+
+    const db = getServiceClient()
+    let query = db
+      .from('buildings')
+      .select('*, building_residents(count)')
+      .order('name', { ascending: true })
+
+    if (!includeInactive) {
+      query = query.eq('active', true)
+    }
+
+    const { data: buildings, error } = await query
+
+    if (error) throw error
+
+    return NextResponse.json({
+      buildings: (buildings || []).map((building: any) => ({
+        ...building,
+        resident_count: building.building_residents?.[0]?.count || 0,
+        building_residents: undefined,
+      })),
+    })
+  } catch (error) {
+    console.error('Buildings list error:', error)
+
+    if (error instanceof Error && (error.message === 'Unauthorized' || error.message.includes('Forbidden'))) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.message === 'Unauthorized' ? 401 : 403 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch buildings' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/admin/buildings - Register a partner building
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAdmin()
+
+    const input = buildingSchema.parse(await request.json())
+    const normalizedAddress = normalizeStreetAddress(input.address_line1)
+
+    const db = getServiceClient()
+
+    const { data: existing } = await db
+      .from('buildings')
+      .select('id, name')
+      .eq('zip', input.zip)
+      .eq('normalized_address', normalizedAddress)
+      .eq('active', true)
+      .maybeSingle()
+
+    if (existing) {
+      return NextResponse.json(
+        { error: `${existing.name} is already registered at this address` },
+        { status: 409 }
+      )
+    }
+
+    const { data: building, error } = await db
+      .from('buildings')
+      .insert({
+        ...input,
+        normalized_address: normalizedAddress,
+        address: `${input.address_line1}, New York, NY ${input.zip}`,
+      })
+      .select()
+      .single()
+
+    if (error) throw error
+
+    await logAudit({
+      actor_id: user.id,
+      actor_role: 'admin',
+      action: 'building.create',
+      entity_type: 'building',
+      entity_id: building.id,
+      changes: input,
+      ...getRequestMetadata(request),
+    })
+
+    return NextResponse.json({ building }, { status: 201 })
+  } catch (error) {
+    console.error('Building create error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && (error.message === 'Unauthorized' || error.message.includes('Forbidden'))) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.message === 'Unauthorized' ? 401 : 403 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create building' },
+      { status: 500 }
+    )
+  }
+}
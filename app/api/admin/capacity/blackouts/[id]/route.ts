@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceClient } from '@/lib/db';
+import { requireAdmin } from '@/lib/auth';
+
+/**
+ * DELETE /api/admin/capacity/blackouts/[id] - Lift a blackout
+ *
+ * Slots come back with the next generation run (on demand or cron).
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAdmin();
+
+    const { id } = await params;
+    const db = getServiceClient();
+
+    const { data: blackout, error } = await db
+      .from('capacity_blackouts')
+      .delete()
+      .eq('id', id)
+      .select()
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!blackout) {
+      return NextResponse.json({ error: 'Blackout not found' }, { status: 404 });
+    }
+
+    await db.from('audit_logs').insert({
+      actor_id: user.id,
+      actor_role: 'admin',
+      action: 'capacity.blackout_delete',
+      entity_type: 'capacity_blackout',
+      entity_id: id,
+      changes: { before: blackout },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting capacity blackout:', error);
+
+    if (error instanceof Error && (error.message === 'Unauthorized' || error.message.includes('Forbidden'))) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.message === 'Unauthorized' ? 401 : 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to delete blackout' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getServiceClient } from '@/lib/db';
+import { requireAdmin } from '@/lib/auth';
+import { clearBlackoutSlots } from '@/lib/capacity-templates';
+import { toNYDateString } from '@/lib/timezone';
+
+const createBlackoutSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  partner_id: z.string().uuid().nullable().optional(),
+  service_type: z.enum(['LAUNDRY', 'CLEANING']).nullable().optional(),
+  reason: z.string().max(200).nullable().optional(),
+});
+
+/**
+ * GET /api/admin/capacity/blackouts - Upcoming holidays and partner exception days
+ */
+export async function GET() {
+  try {
+    await requireAdmin();
+
+    const db = getServiceClient();
+    const { data: blackouts, error } = await db
+      .from('capacity_blackouts')
+      .select('*, partner:partners(id, name)')
+      .gte('date', toNYDateString(new Date()))
+      .order('date', { ascending: true });
+
+    if (error) throw error;
+
+    return NextResponse.json({ blackouts: blackouts || [] });
+  } catch (error) {
+    console.error('Error fetching capacity blackouts:', error);
+
+    if (error instanceof Error && (error.message === 'Unauthorized' || error.message.includes('Forbidden'))) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.message === 'Unauthorized' ? 401 : 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch blackouts' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/admin/capacity/blackouts - Black out a date
+ *
+ * Body:
+ * - date: YYYY-MM-DD
+ * - partner_id: Partner taking the day off (omit for a holiday)
+ * - service_type: 'LAUNDRY' | 'CLEANING' (omit for both)
+ * - reason: string
+ *
+ * Unbooked slots on that date are removed; booked ones are left in place
+ * and counted in `booked_slots`.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAdmin();
+
+    const input = createBlackoutSchema.parse(await request.json());
+    const blackout = {
+      date: input.date,
+      partner_id: input.partner_id || null,
+      service_type: input.service_type || null,
+      reason: input.reason || null,
+    };
+
+    const db = getServiceClient();
+    const { data: created, error } = await db
+      .from('capacity_blackouts')
+      .insert({ ...blackout, created_by: user.id })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: 'This date is already blacked out' },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
+    const { removed, booked } = await clearBlackoutSlots(db, blackout);
+
+    await db.from('audit_logs').insert({
+      actor_id: user.id,
+      actor_role: 'admin',
+      action: 'capacity.blackout_create',
+      entity_type: 'capacity_blackout',
+      entity_id: created.id,
+      changes: { ...blackout, removed_slots: removed, booked_slots: booked },
+    });
+
+    return NextResponse.json({
+      blackout: created,
+      removed_slots: removed,
+      booked_slots: booked,
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating capacity blackout:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof Error && (error.message === 'Unauthorized' || error.message.includes('Forbidden'))) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.message === 'Unauthorized' ? 401 : 403 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create blackout' },
+      { status: 500 }
+    );
+  }
+}
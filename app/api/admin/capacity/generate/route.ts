@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getServiceClient } from '@/lib/db';
+import { requireAdmin } from '@/lib/auth';
+import { generateTemplateSlots, listDates, MAX_GENERATION_DAYS } from '@/lib/capacity-templates';
+
+const generateSchema = z.object({
+  start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  end_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  partner_id: z.string().uuid().optional(),
+  service_type: z.enum(['LAUNDRY', 'CLEANING']).optional(),
+});
+
+function validateRange(input: z.infer<typeof generateSchema>): string | null {
+  if (input.end_date < input.start_date) {
+    return 'end_date must not be before start_date';
+  }
+  if (listDates(input.start_date, input.end_date).length > MAX_GENERATION_DAYS) {
+    return `Date range too large. Maximum ${MAX_GENERATION_DAYS} days allowed.`;
+  }
+  return null;
+}
+
+function errorResponse(error: unknown, fallback: string) {
+  console.error(`${fallback}:`, error);
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Invalid request parameters', details: error.errors },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof Error && (error.message === 'Unauthorized' || error.message.includes('Forbidden'))) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.message === 'Unauthorized' ? 401 : 403 }
+    );
+  }
+
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+/**
+ * GET /api/admin/capacity/generate - Dry-run preview of template generation
+ *
+ * Query params: start_date, end_date (YYYY-MM-DD), partner_id, service_type
+ *
+ * Returns the slots generation would create and the ones it would skip
+ * (existing, past, blackout, partner exception) without writing anything.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin();
+
+    const { searchParams } = new URL(request.url);
+    const input = generateSchema.parse({
+      start_date: searchParams.get('start_date'),
+      end_date: searchParams.get('end_date'),
+      partner_id: searchParams.get('partner_id') || undefined,
+      service_type: searchParams.get('service_type') || undefined,
+    });
+
+    const rangeError = validateRange(input);
+    if (rangeError) {
+      return NextResponse.json({ error: rangeError }, { status: 400 });
+    }
+
+    const preview = await generateTemplateSlots(getServiceClient(), {
+      startDate: input.start_date,
+      endDate: input.end_date,
+      partnerIds: input.partner_id ? [input.partner_id] : undefined,
+      serviceType: input.service_type,
+      dryRun: true,
+    });
+
+    return NextResponse.json(preview);
+  } catch (error) {
+    return errorResponse(error, 'Failed to preview slot generation');
+  }
+}
+
+/**
+ * POST /api/admin/capacity/generate - Generate slots from templates
+ *
+ * Body: { start_date, end_date, partner_id?, service_type? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAdmin();
+
+    const input = generateSchema.parse(await request.json());
+
+    const rangeError = validateRange(input);
+    if (rangeError) {
+      return NextResponse.json({ error: rangeError }, { status: 400 });
+    }
+
+    const db = getServiceClient();
+    const result = await generateTemplateSlots(db, {
+      startDate: input.start_date,
+      endDate: input.end_date,
+      partnerIds: input.partner_id ? [input.partner_id] : undefined,
+      serviceType: input.service_type,
+      createdBy: user.id,
+    });
+
+    await db.from('audit_logs').insert({
+      actor_id: user.id,
+      actor_role: 'admin',
+      action: 'capacity.generate',
+      entity_type: 'capacity_slot',
+      entity_id: input.partner_id || 'all',
+      changes: {
+        ...input,
+        slots_created: result.created,
+        skipped_by_reason: result.skipped_by_reason,
+      },
+    });
+
+    return NextResponse.json({
+      created: result.created,
+      skipped_by_reason: result.skipped_by_reason,
+      message: `Created ${result.created} slots`,
+    }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, 'Failed to generate slots');
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireAdmin } from '@/lib/auth'
+import { getServiceClient } from '@/lib/db'
+import { logAudit, getRequestMetadata } from '@/lib/audit'
+import { AppError } from '@/lib/errors'
+import { claimDecisionSchema, decideClaim } from '@/lib/claims'
+
+/**
+ * PATCH /api/admin/claims/[id] - Approve, deny or resolve a claim
+ *
+ * Body:
+ * - decision: 'approve' | 'deny' | 'resolve'
+ * - resolved_cents: number (optional) - Payout amount. On approve it defaults to
+ *   the requested amount; on resolve it defaults to the approved amount and,
+ *   when positive, is refunded through the shared refund path once the claim
+ *   has moved to RESOLVED.
+ * - resolution: string - Note explaining the decision (shown to the customer)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAdmin()
+    const { id: claimId } = await params
+
+    const input = claimDecisionSchema.parse(await request.json())
+
+    const db = getServiceClient()
+
+    const { data: claim, error: fetchError } = await db
+      .from('claims')
+      .select('*, orders(*)')
+      .eq('id', claimId)
+      .single()
+
+    if (fetchError || !claim) {
+      return NextResponse.json(
+        { error: 'Claim not found' },
+        { status: 404 }
+      )
+    }
+
+    let result
+    try {
+      result = await decideClaim(db, claim, input, user.id)
+    } catch (error) {
+      if (error instanceof AppError) {
+        return NextResponse.json(
+          { error: error.message, code: error.code },
+          { status: error.statusCode }
+        )
+      }
+      throw error
+    }
+
+    const { claim: updatedClaim, fromStatus, toStatus, payoutCents, refundId } = result
+
+    await logAudit({
+      actor_id: user.id,
+      actor_role: 'admin',
+      action: `claim.${input.decision}`,
+      entity_type: 'claim',
+      entity_id: claimId,
+      changes: {
+        order_id: claim.order_id,
+        from: fromStatus,
+        to: toStatus,
+        resolved_cents: payoutCents,
+        refund_id: refundId,
+        resolution: input.resolution,
+      },
+      ...getRequestMetadata(request),
+    })
+
+    await db.from('order_events').insert({
+      order_id: claim.order_id,
+      actor: user.id,
+      actor_role: 'admin',
+      event_type: `claim_${toStatus.toLowerCase()}`,
+      payload_json: {
+        claim_id: claimId,
+        resolved_cents: payoutCents,
+        refund_id: refundId,
+      },
+    })
+
+    return NextResponse.json({ claim: updatedClaim })
+  } catch (error) {
+    console.error('Claim decision error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && (error.message === 'Unauthorized' || error.message.includes('Forbidden'))) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.message === 'Unauthorized' ? 401 : 403 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update claim' },
+      { status: 500 }
+    )
+  }
+}
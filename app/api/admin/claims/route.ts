@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/auth'
+import { getServiceClient } from '@/lib/db'
+
+/**
+ * GET /api/admin/claims - Claims review queue
+ *
+ * Query params:
+ * - status: 'PENDING' | 'APPROVED' | 'DENIED' | 'RESOLVED' | 'open' | 'all' (default: 'open')
+ * - type: 'LOST' | 'DAMAGED' | 'REWORK' | 'OTHER'
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin()
+
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status') || 'open'
+    const type = searchParams.get('type')
+
+    const db = getServiceClient()
+    let query = db
+      .from('claims')
+      .select(`
+        *,
+        orders(id, service_type, status, total_cents, quote_cents, slot_start, partner_id, user_id),
+        bags(label_code, status, last_scanned_at)
+      `)
+      .order('created_at', { ascending: true })
+
+    if (status === 'open') {
+      query = query.in('status', ['PENDING', 'APPROVED'])
+    } else if (status !== 'all') {
+      query = query.eq('status', status)
+    }
+
+    if (type) {
+      query = query.eq('type', type)
+    }
+
+    const { data: claims, error } = await query
+
+    if (error) throw error
+
+    // Attach customer contact info for the queue
+    const userIds = Array.from(new Set((claims || []).map((c: any) => c.user_id).filter(Boolean)))
+    let profilesById: Record<string, any> = {}
+    if (userIds.length > 0) {
+      const { data: profiles } = await db
+        .from('profiles')
+        .select('id, full_name, phone, email')
+        .in('id', userIds)
+
+      profilesById = Object.fromEntries((profiles || []).map((p: any) => [p.id, p]))
+    }
+
+    return NextResponse.json({
+      claims: (claims || []).map((claim: any) => ({
+        ...claim,
+        profiles: profilesById[claim.user_id] || null,
+      })),
+    })
+  } catch (error) {
+    console.error('Error fetching claims:', error)
+
+    if (error instanceof Error && (error.message === 'Unauthorized' || error.message.includes('Forbidden'))) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.message === 'Unauthorized' ? 401 : 403 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch claims' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireAdmin } from '@/lib/auth'
+import { getServiceClient } from '@/lib/db'
+import { logAudit, getRequestMetadata } from '@/lib/audit'
+import { AppError } from '@/lib/errors'
+import { processOutbox } from '@/lib/outbox'
+import {
+  assembleDisputeEvidence,
+  getSlaState,
+  resolveDisputeCase,
+  resolveDisputeSchema,
+  type DisputeCase,
+} from '@/lib/disputes'
+
+/**
+ * GET /api/admin/disputes/[id] - Dispute case with its evidence
+ *
+ * Returns the case, the order, the customer's uploaded evidence and the
+ * evidence packet (timeline, photos, policy version, receipt). For a
+ * contested chargeback the packet is the one submitted to Stripe.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAdmin()
+    const { id: caseId } = await params
+
+    const db = getServiceClient()
+
+    const { data: disputeCase, error: fetchError } = await db
+      .from('dispute_cases')
+      .select('*, orders(*), partners(id, name, contact_phone, contact_email)')
+      .eq('id', caseId)
+      .single()
+
+    if (fetchError || !disputeCase) {
+      return NextResponse.json(
+        { error: 'Dispute not found' },
+        { status: 404 }
+      )
+    }
+
+    const evidence = disputeCase.evidence_json || await assembleDisputeEvidence(db, disputeCase as DisputeCase)
+
+    return NextResponse.json({
+      dispute: {
+        ...disputeCase,
+        sla_state: getSlaState(disputeCase),
+      },
+      customer_evidence: disputeCase.orders?.dispute_evidence_json || [],
+      evidence,
+    })
+  } catch (error) {
+    console.error('Error fetching dispute:', error)
+
+    if (error instanceof Error && (error.message === 'Unauthorized' || error.message.includes('Forbidden'))) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.message === 'Unauthorized' ? 401 : 403 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch dispute' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/admin/disputes/[id] - Resolve a dispute
+ *
+ * Body:
+ * - outcome: 'partial_refund' | 'full_refund' | 'rejected'
+ *   In-app disputes take any outcome. Chargebacks take full_refund (accept
+ *   the chargeback) or rejected (submit the evidence packet to Stripe).
+ * - refund_cents: number - Required for partial_refund
+ * - resolution_note: string - Note explaining the decision
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAdmin()
+    const { id: caseId } = await params
+
+    const input = resolveDisputeSchema.parse(await request.json())
+
+    const db = getServiceClient()
+
+    const { data: disputeCase, error: fetchError } = await db
+      .from('dispute_cases')
+      .select('*')
+      .eq('id', caseId)
+      .single()
+
+    if (fetchError || !disputeCase) {
+      return NextResponse.json(
+        { error: 'Dispute not found' },
+        { status: 404 }
+      )
+    }
+
+    const resolved = await resolveDisputeCase(db, disputeCase, input, user.id)
+
+    await logAudit({
+      actor_id: user.id,
+      actor_role: 'admin',
+      action: `dispute.${input.outcome}`,
+      entity_type: 'dispute_case',
+      entity_id: caseId,
+      changes: {
+        order_id: disputeCase.order_id,
+        source: disputeCase.source,
+        from: disputeCase.status,
+        to: resolved.status,
+        refund_cents: resolved.refund_cents,
+        resolution_note: input.resolution_note,
+      },
+      ...getRequestMetadata(request),
+    })
+
+    // Refunds for in-app disputes are issued by the outbox; start them now
+    if (disputeCase.source === 'in_app') {
+      try {
+        await processOutbox(db, { orderId: disputeCase.order_id })
+      } catch (error) {
+        // The outbox cron retries anything left undelivered
+        console.error('Dispute outbox delivery error:', error)
+      }
+    }
+
+    return NextResponse.json({ dispute: resolved })
+  } catch (error) {
+    console.error('Dispute resolution error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      )
+    }
+
+    if (error instanceof Error && (error.message === 'Unauthorized' || error.message.includes('Forbidden'))) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.message === 'Unauthorized' ? 401 : 403 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to resolve dispute' },
+      { status: 500 }
+    )
+  }
+}
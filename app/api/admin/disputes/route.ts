@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/auth'
+import { getServiceClient } from '@/lib/db'
+import { getAvailableOutcomes, getSlaState } from '@/lib/disputes'
+
+/**
+ * GET /api/admin/disputes - Dispute workbench queue
+ *
+ * Query params:
+ * - status: 'open' | 'resolved' | 'evidence_submitted' | 'closed' | 'all' (default: 'open')
+ * - source: 'in_app' | 'chargeback'
+ * - order: order id, to jump to an order's cases
+ *
+ * Cases are ordered by SLA due time; each carries its sla_state and the
+ * outcomes still available to it.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin()
+
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status') || 'open'
+    const source = searchParams.get('source')
+    const orderId = searchParams.get('order')
+
+    const db = getServiceClient()
+    let query = db
+      .from('dispute_cases')
+      .select(`
+        *,
+        orders(id, service_type, status, total_cents, quote_cents, slot_start, dispute_reason),
+        partners(id, name)
+      `)
+      .order('sla_due_at', { ascending: true })
+
+    if (orderId) {
+      query = query.eq('order_id', orderId)
+    } else if (status !== 'all') {
+      query = query.eq('status', status)
+    }
+
+    if (source) {
+      query = query.eq('source', source)
+    }
+
+    const { data: cases, error } = await query
+
+    if (error) throw error
+
+    // Attach customer contact info for the queue
+    const userIds = Array.from(new Set((cases || []).map((c: any) => c.user_id).filter(Boolean)))
+    let profilesById: Record<string, any> = {}
+    if (userIds.length > 0) {
+      const { data: profiles } = await db
+        .from('profiles')
+        .select('id, full_name, phone, email')
+        .in('id', userIds)
+
+      profilesById = Object.fromEntries((profiles || []).map((p: any) => [p.id, p]))
+    }
+
+    const now = new Date()
+    return NextResponse.json({
+      disputes: (cases || []).map((disputeCase: any) => ({
+        ...disputeCase,
+        sla_state: getSlaState(disputeCase, now),
+        available_outcomes: getAvailableOutcomes(disputeCase),
+        profiles: profilesById[disputeCase.user_id] || null,
+      })),
+    })
+  } catch (error) {
+    console.error('Error fetching disputes:', error)
+
+    if (error instanceof Error && (error.message === 'Unauthorized' || error.message.includes('Forbidden'))) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.message === 'Unauthorized' ? 401 : 403 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch disputes' },
+      { status: 500 }
+    )
+  }
+}
@@ -3,9 +3,11 @@ import { z } from 'zod'
 import { requireAdmin } from '@/lib/auth'
 import { getServiceClient } from '@/lib/db'
 import { quoteLaundry } from '@/lib/pricing'
+import { getPromoCodeById, getPromoDiscountCents, recordPromoRedemption } from '@/lib/promos'
 import Stripe from 'stripe'
 import { canAutoCharge, getPostQuoteStatus } from '@/lib/orderStateMachine'
-import { sendSMS } from '@/lib/sms'
+import { notifyCustomer } from '@/lib/notifications'
+import { recordPaymentRetry } from '@/lib/payment-errors'
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2023-10-16'
@@ -56,10 +58,15 @@ export async function POST(
     
     // Calculate quote
     const addons = order.order_details?.addons || []
+    // The order already holds its promo redemption, so limits aren't re-checked
+    const promo = order.promo_code_id ? await getPromoCodeById(order.promo_code_id) : null
     const pricing = await quoteLaundry({
       zip: order.address_snapshot.zip,
       lbs: actual_weight_lbs,
-      addons
+      addons,
+      buildingId: order.building_id,
+      promo,
+      pricingVersionId: order.pricing_version_id
     })
     
     // Check if can auto-charge
@@ -96,6 +103,7 @@ export async function POST(
         .update({
           actual_weight_lbs,
           quote_cents: pricing.total_cents,
+          pricing_version_id: pricing.pricing_version_id || order.pricing_version_id,
           quoted_at: new Date().toISOString(),
           quoted_by: user.id,
           status: 'paid_processing',
@@ -110,6 +118,16 @@ export async function POST(
       
       if (updateError) throw updateError
       
+      if (promo) {
+        await recordPromoRedemption({
+          promoCodeId: promo.id,
+          orderId,
+          userId: order.user_id,
+          guestEmail: order.guest_email,
+          discountCents: getPromoDiscountCents(pricing)
+        })
+      }
+      
       // Log events
       await db.from('order_events').insert([
         {
@@ -135,13 +153,16 @@ export async function POST(
         }
       ])
       
-      // Send receipt SMS
-      if (order.profiles?.phone) {
-        await sendSMS({
-          to: order.profiles.phone,
-          message: `Tidyhood: Charged $${(pricing.total_cents / 100).toFixed(2)} for your laundry (${actual_weight_lbs} lbs). View receipt: ${process.env.NEXT_PUBLIC_BASE_URL}/orders/${orderId}`
-        }).catch(err => console.error('SMS send failed:', err))
-      }
+      // Send receipt
+      await notifyCustomer({
+        event: 'payment_received',
+        userId: order.user_id,
+        orderId,
+        phone: order.profiles?.phone || order.guest_phone,
+        email: order.guest_email,
+        title: 'Payment receipt',
+        message: `Charged $${(pricing.total_cents / 100).toFixed(2)} for your laundry (${actual_weight_lbs} lbs). View receipt: ${process.env.NEXT_PUBLIC_BASE_URL}/orders/${orderId}`
+      })
       
       return NextResponse.json({
         success: true,
@@ -154,17 +175,8 @@ export async function POST(
     } catch (stripeError: any) {
       console.error('[ADMIN_QUOTE] Stripe charge failed:', stripeError)
       
-      // Log failure for retry (if payment_retry_log table exists)
-      try {
-        await db.from('payment_retry_log').insert({
-          order_id: orderId,
-          error_message: stripeError.message,
-          stripe_error_code: stripeError.code || null,
-          retry_at: new Date(Date.now() + 2 * 60 * 60 * 1000)
-        })
-      } catch (logError) {
-        console.error('[ADMIN_QUOTE] Failed to log retry:', logError)
-      }
+      // Log failure for retry
+      await recordPaymentRetry(db, { orderId, error: stripeError })
       
       return NextResponse.json(
         { 
@@ -3,6 +3,8 @@ import { z } from 'zod'
 import { requireAdmin } from '@/lib/auth'
 import { getServiceClient } from '@/lib/db'
 import { logAudit } from '@/lib/audit'
+import { ValidationError } from '@/lib/errors'
+import { issueRefund, getPaidAmountCents } from '@/lib/refunds'
 
 const refundSchema = z.object({
   amount: z.number(),
@@ -48,44 +50,25 @@ export async function POST(
       )
     }
 
-    // Validate refund amount doesn't exceed paid amount
-    const paidAmount = order.total_amount_cents || 0
+    const paidAmount = getPaidAmountCents(order)
     const refundAmountCents = Math.round(amount * 100)
 
-    if (refundAmountCents > paidAmount) {
-      return NextResponse.json(
-        { error: 'Refund amount cannot exceed paid amount' },
-        { status: 400 }
-      )
-    }
-
-    // Create refund record
-    const { data: refund, error: refundError } = await db
-      .from('refunds')
-      .insert({
-        order_id: orderId,
-        amount_cents: refundAmountCents,
+    let refund
+    try {
+      ({ refund } = await issueRefund(db, {
+        order,
+        amountCents: refundAmountCents,
         reason,
-        approved_by: user.id,
-        status: 'approved'
-      })
-      .select()
-      .single()
-
-    if (refundError) {
-      // If refunds table doesn't exist yet, just log and continue
-      console.warn('Refunds table not available:', refundError)
-    }
-
-    // Update order status if fully refunded
-    if (refundAmountCents >= paidAmount) {
-      await db
-        .from('orders')
-        .update({
-          status: 'refunded',
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', orderId)
+        approvedBy: user.id
+      }))
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        )
+      }
+      throw error
     }
 
     // Log audit trail
@@ -103,15 +86,6 @@ export async function POST(
       }
     })
 
-    // Add admin note
-    await db
-      .from('admin_notes')
-      .insert({
-        order_id: orderId,
-        admin_id: user.id,
-        note: `Refund issued: $${amount.toFixed(2)}. Reason: ${reason}`
-      })
-
     return NextResponse.json({
       success: true,
       refund,
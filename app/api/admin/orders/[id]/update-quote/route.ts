@@ -4,7 +4,8 @@ import { requireAdmin } from '@/lib/auth'
 import { getServiceClient } from '@/lib/db'
 import { quoteLaundry } from '@/lib/pricing'
 import { handleApiError } from '@/lib/errors'
-import { sendSMS } from '@/lib/sms'
+import { notifyCustomer } from '@/lib/notifications'
+import { recordPaymentRetry } from '@/lib/payment-errors'
 
 const updateQuoteSchema = z.object({
   quote_cents: z.number().int().positive(),
@@ -248,16 +249,17 @@ export async function POST(
         autoChargeSuccess = true
         paymentIntentId = paymentIntent.id
         
-        // Send receipt SMS instead of payment link
-        if (order.profiles?.phone) {
-          const amount = `$${(quote_cents / 100).toFixed(2)}`
-          await sendSMS({
-            to: order.profiles.phone,
-            message: `Tidyhood: Charged ${amount} for your ${order.service_type.toLowerCase()} order. View receipt: ${process.env.NEXT_PUBLIC_BASE_URL}/orders/${orderId}`
-          }).catch(err => {
-            console.error('[ADMIN_QUOTE_UPDATE] Failed to send receipt SMS:', err)
-          })
-        }
+        // Send receipt instead of payment link
+        const amount = `$${(quote_cents / 100).toFixed(2)}`
+        await notifyCustomer({
+          event: 'payment_received',
+          userId: order.user_id,
+          orderId,
+          phone: order.profiles?.phone || order.guest_phone,
+          email: order.guest_email,
+          title: 'Payment receipt',
+          message: `Charged ${amount} for your ${order.service_type.toLowerCase()} order. View receipt: ${process.env.NEXT_PUBLIC_BASE_URL}/orders/${orderId}`
+        })
         
         // Log successful auto-charge
         await db.from('order_events').insert({
@@ -288,23 +290,20 @@ export async function POST(
         })
         
         // Log payment failure for retry
-        await db.from('payment_retry_log').insert({
-          order_id: orderId,
-          error_message: error.message,
-          stripe_error_code: error.code ? String(error.code) : null,
-          retry_at: new Date(Date.now() + 2 * 60 * 60 * 1000).toISOString(), // Retry in 2 hours
-          attempts: 1
-        })
+        await recordPaymentRetry(db, { orderId, error })
         
         // Fallback to manual payment flow
-        if (notify_customer && order.profiles?.phone) {
+        if (notify_customer) {
           const paymentUrl = `${process.env.NEXT_PUBLIC_BASE_URL}/orders/${orderId}/pay`
           const amount = `$${(quote_cents / 100).toFixed(2)}`
-          await sendSMS({
-            to: order.profiles.phone,
-            message: `Tidyhood: Your order quote is ready! ${amount}. Pay now: ${paymentUrl}`
-          }).catch(err => {
-            console.error('[ADMIN_QUOTE_UPDATE] Failed to send SMS:', err)
+          await notifyCustomer({
+            event: 'quote_ready',
+            userId: order.user_id,
+            orderId,
+            phone: order.profiles?.phone || order.guest_phone,
+            email: order.guest_email,
+            title: 'Your quote is ready',
+            message: `Your order quote is ready! ${amount}. Pay now: ${paymentUrl}`
           })
         }
       }
@@ -317,14 +316,17 @@ export async function POST(
       })
       
       // No saved payment method - send payment link if notify requested
-      if (notify_customer && order.profiles?.phone) {
+      if (notify_customer) {
         const paymentUrl = `${process.env.NEXT_PUBLIC_BASE_URL}/orders/${orderId}/pay`
         const amount = `$${(quote_cents / 100).toFixed(2)}`
-        await sendSMS({
-          to: order.profiles.phone,
-          message: `Tidyhood: Your order quote is ready! ${amount}. Pay now: ${paymentUrl}`
-        }).catch(err => {
-          console.error('[ADMIN_QUOTE_UPDATE] Failed to send SMS:', err)
+        await notifyCustomer({
+          event: 'quote_ready',
+          userId: order.user_id,
+          orderId,
+          phone: order.profiles?.phone || order.guest_phone,
+          email: order.guest_email,
+          title: 'Your quote is ready',
+          message: `Your order quote is ready! ${amount}. Pay now: ${paymentUrl}`
         })
       }
     }
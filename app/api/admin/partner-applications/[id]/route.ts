@@ -0,0 +1,204 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireAdmin } from '@/lib/auth'
+import { getServiceClient } from '@/lib/db'
+import { logAudit, getRequestMetadata } from '@/lib/audit'
+import { sendEmail } from '@/lib/email'
+import {
+  applicationDecisionSchema,
+  getNextApplicationStatus,
+  buildPartnerFromApplication,
+  linkPartnerAccount,
+  getApplicantEmail,
+  type PartnerApplication,
+  type PartnerApplicationStatus,
+} from '@/lib/partner-applications'
+
+/**
+ * PATCH /api/admin/partner-applications/[id] - Review a partner application
+ *
+ * Body:
+ * - decision: 'start_review' | 'request_info' | 'approve' | 'reject'
+ * - message: string - Sent to the applicant (required for request_info and reject)
+ * - notes: string (optional) - Internal review notes
+ * - payout_percent, service_areas, capabilities, max_orders_per_slot,
+ *   max_minutes_per_slot (optional) - Approval overrides for the new partner
+ *
+ * Approving creates the partners row, links the applicant's auth account
+ * (inviting them when they don't have one yet) and emails them.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAdmin()
+    const { id: applicationId } = await params
+
+    const input = applicationDecisionSchema.parse(await request.json())
+    const { decision, message, notes } = input
+
+    const db = getServiceClient()
+
+    const { data: application, error: fetchError } = await db
+      .from('partner_applications')
+      .select('*')
+      .eq('id', applicationId)
+      .single()
+
+    if (fetchError || !application) {
+      return NextResponse.json(
+        { error: 'Application not found' },
+        { status: 404 }
+      )
+    }
+
+    const fromStatus = application.status as PartnerApplicationStatus
+    const toStatus = getNextApplicationStatus(fromStatus, decision)
+
+    if (!toStatus) {
+      return NextResponse.json(
+        { error: `Cannot ${decision.replace('_', ' ')} an application that is ${fromStatus.replace('_', ' ')}` },
+        { status: 400 }
+      )
+    }
+
+    const updates: Record<string, any> = {
+      status: toStatus,
+      reviewed_by: user.id,
+      reviewed_at: new Date().toISOString(),
+    }
+    if (notes !== undefined) updates.notes = notes
+    if (decision === 'request_info') updates.info_request = message
+
+    let partner: any = null
+
+    if (decision === 'approve') {
+      const { data: existingPartner } = await db
+        .from('partners')
+        .select('id')
+        .eq('contact_email', application.contact_email.toLowerCase())
+        .maybeSingle()
+
+      if (existingPartner) {
+        return NextResponse.json(
+          { error: 'Partner with this email already exists' },
+          { status: 409 }
+        )
+      }
+
+      const partnerData = buildPartnerFromApplication(application as PartnerApplication, input)
+
+      const { data: created, error: createError } = await db
+        .from('partners')
+        .insert(partnerData)
+        .select()
+        .single()
+
+      if (createError) throw createError
+
+      partner = created
+      updates.partner_id = partner.id
+    }
+
+    const { data: updatedApplication, error: updateError } = await db
+      .from('partner_applications')
+      .update(updates)
+      .eq('id', applicationId)
+      .eq('status', fromStatus) // Guard against concurrent decisions
+      .select()
+      .single()
+
+    if (updateError || !updatedApplication) {
+      // Don't leave a partner behind for an approval that lost the race
+      if (partner) {
+        await db.from('partners').delete().eq('id', partner.id)
+      }
+      return NextResponse.json(
+        { error: 'Application was updated by someone else. Refresh and try again.' },
+        { status: 409 }
+      )
+    }
+
+    let invited = false
+    let accountLinked = false
+
+    if (partner) {
+      await db.from('audit_logs').insert({
+        actor_id: user.id,
+        actor_role: 'admin',
+        action: 'partner.create',
+        entity_type: 'partner',
+        entity_id: partner.id,
+        changes: { created: partner, application_id: applicationId },
+      })
+
+      // The partner exists either way; an unlinked account still reaches the
+      // portal through the contact_email fallback once it signs up
+      try {
+        const link = await linkPartnerAccount(db, partner, {
+          full_name: application.contact_name,
+          phone: application.contact_phone,
+        })
+        partner.profile_id = link.profileId
+        invited = link.invited
+        accountLinked = true
+      } catch (error) {
+        console.error('Failed to link partner account:', error)
+      }
+    }
+
+    await logAudit({
+      actor_id: user.id,
+      actor_role: 'admin',
+      action: `partner_application.${decision}`,
+      entity_type: 'partner_application',
+      entity_id: applicationId,
+      changes: {
+        from: fromStatus,
+        to: toStatus,
+        partner_id: partner?.id || null,
+        account_linked: partner ? accountLinked : undefined,
+        message: message || null,
+      },
+      ...getRequestMetadata(request),
+    })
+
+    const email = getApplicantEmail(application, decision, message, invited)
+    if (email) {
+      try {
+        await sendEmail({ to: application.contact_email, ...email })
+      } catch (error) {
+        console.error('Failed to email partner applicant:', error)
+      }
+    }
+
+    return NextResponse.json({
+      application: updatedApplication,
+      partner,
+      account_linked: partner ? accountLinked : undefined,
+      invited: partner ? invited : undefined,
+    })
+  } catch (error) {
+    console.error('Partner application decision error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && (error.message === 'Unauthorized' || error.message.includes('Forbidden'))) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.message === 'Unauthorized' ? 401 : 403 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update application' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/auth'
+import { getServiceClient } from '@/lib/db'
+
+/**
+ * GET /api/admin/partner-applications - Partner application review queue
+ *
+ * Query params:
+ * - status: 'pending' | 'under_review' | 'info_requested' | 'approved' | 'rejected' | 'open' | 'all' (default: 'open')
+ * - service_type: 'LAUNDRY' | 'CLEANING'
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin()
+
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status') || 'open'
+    const serviceType = searchParams.get('service_type')
+
+    const db = getServiceClient()
+    let query = db
+      .from('partner_applications')
+      .select('*')
+      .order('submitted_at', { ascending: true })
+
+    if (status === 'open') {
+      query = query.in('status', ['pending', 'under_review', 'info_requested'])
+    } else if (status !== 'all') {
+      query = query.eq('status', status)
+    }
+
+    if (serviceType) {
+      query = query.eq('service_type', serviceType)
+    }
+
+    const { data: applications, error } = await query
+
+    if (error) throw error
+
+    return NextResponse.json({ applications: applications || [] })
+  } catch (error) {
+    console.error('Error fetching partner applications:', error)
+
+    if (error instanceof Error && (error.message === 'Unauthorized' || error.message.includes('Forbidden'))) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.message === 'Unauthorized' ? 401 : 403 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch partner applications' },
+      { status: 500 }
+    )
+  }
+}
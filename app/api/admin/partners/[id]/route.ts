@@ -9,6 +9,9 @@ const updatePartnerSchema = z.object({
   contact_email: z.string().min(1),
   contact_phone: z.string().min(1),
   address: z.string().nullable().optional(),
+  // Facility location, used by the nearest slot assignment strategy
+  latitude: z.number().min(-90).max(90).nullable().optional(),
+  longitude: z.number().min(-180).max(180).nullable().optional(),
   payout_percent: z.number().optional(),
   service_areas: z.array(z.string()).optional(),
   max_orders_per_slot: z.number().optional(),
@@ -69,9 +72,20 @@ export async function GET(
       }, 0),
     };
 
+    // Latest reviews for the scorecard panel
+    const { data: reviews, error: reviewsError } = await db
+      .from('order_ratings')
+      .select('id, order_id, rating, tags, review, created_at')
+      .eq('partner_id', id)
+      .order('created_at', { ascending: false })
+      .limit(10);
+
+    if (reviewsError) throw reviewsError;
+
     return NextResponse.json({ 
       partner,
-      stats
+      stats,
+      reviews: reviews || []
     });
   } catch (error) {
     console.error('Error fetching partner:', error);
@@ -114,6 +128,8 @@ export async function PUT(
       contact_email,
       contact_phone,
       address,
+      latitude,
+      longitude,
       payout_percent,
       service_areas,
       max_orders_per_slot,
@@ -181,6 +197,11 @@ export async function PUT(
       updated_at: new Date().toISOString(),
     };
 
+    if (latitude !== undefined && longitude !== undefined) {
+      updateData.latitude = latitude;
+      updateData.longitude = longitude;
+    }
+
     if (service_areas && Array.isArray(service_areas)) {
       updateData.service_areas = service_areas;
     }
@@ -9,6 +9,9 @@ const createPartnerSchema = z.object({
   contact_email: z.string().min(1),
   contact_phone: z.string().min(1),
   address: z.string().nullable().optional(),
+  // Facility location, used by the nearest slot assignment strategy
+  latitude: z.number().min(-90).max(90).nullable().optional(),
+  longitude: z.number().min(-180).max(180).nullable().optional(),
   payout_percent: z.number().optional(),
   service_areas: z.array(z.string()).optional(),
   max_orders_per_slot: z.number().optional(),
@@ -86,6 +89,8 @@ export async function POST(request: NextRequest) {
       contact_email,
       contact_phone,
       address,
+      latitude,
+      longitude,
       payout_percent = 65,
       service_areas,
       max_orders_per_slot,
@@ -140,6 +145,8 @@ export async function POST(request: NextRequest) {
       contact_email,
       contact_phone,
       address: address || null,
+      latitude: latitude ?? null,
+      longitude: longitude ?? null,
       payout_percent,
       active: true,
     };
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireAdmin } from '@/lib/auth'
+import { getServiceClient } from '@/lib/db'
+import { logAudit, getRequestMetadata } from '@/lib/audit'
+
+const markPaidSchema = z.object({
+  status: z.literal('PAID'),
+  payout_reference: z.string().trim().max(200).optional(),
+  notes: z.string().trim().max(1000).optional(),
+})
+
+/**
+ * PATCH /api/admin/payouts/[id] - Mark a payout as paid
+ *
+ * Body:
+ * - status: 'PAID'
+ * - payout_reference: string (optional) - Bank transfer / check number
+ * - notes: string (optional)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAdmin()
+    const { id: payoutId } = await params
+
+    const { payout_reference, notes } = markPaidSchema.parse(await request.json())
+
+    const db = getServiceClient()
+
+    const { data: payout, error: fetchError } = await db
+      .from('payouts')
+      .select('id, partner_id, status, net_cents, period_start, period_end')
+      .eq('id', payoutId)
+      .single()
+
+    if (fetchError || !payout) {
+      return NextResponse.json(
+        { error: 'Payout not found' },
+        { status: 404 }
+      )
+    }
+
+    if (payout.status !== 'DUE') {
+      return NextResponse.json(
+        { error: `Payout is already ${payout.status.toLowerCase()}` },
+        { status: 400 }
+      )
+    }
+
+    const { data: updatedPayout, error: updateError } = await db
+      .from('payouts')
+      .update({
+        status: 'PAID',
+        paid_at: new Date().toISOString(),
+        paid_by: user.id,
+        payout_reference: payout_reference || null,
+        notes: notes || null,
+      })
+      .eq('id', payoutId)
+      .eq('status', 'DUE') // Guard against paying twice
+      .select()
+      .single()
+
+    if (updateError || !updatedPayout) {
+      return NextResponse.json(
+        { error: 'Payout was updated by someone else. Refresh and try again.' },
+        { status: 409 }
+      )
+    }
+
+    await logAudit({
+      actor_id: user.id,
+      actor_role: 'admin',
+      action: 'payout.mark_paid',
+      entity_type: 'payout',
+      entity_id: payoutId,
+      changes: {
+        partner_id: payout.partner_id,
+        period_start: payout.period_start,
+        period_end: payout.period_end,
+        net_cents: payout.net_cents,
+        payout_reference: payout_reference || null,
+      },
+      ...getRequestMetadata(request),
+    })
+
+    return NextResponse.json({ payout: updatedPayout })
+  } catch (error) {
+    console.error('Payout update error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && (error.message === 'Unauthorized' || error.message.includes('Forbidden'))) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.message === 'Unauthorized' ? 401 : 403 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update payout' },
+      { status: 500 }
+    )
+  }
+}
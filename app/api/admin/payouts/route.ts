@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAdmin } from '@/lib/auth'
+import { getServiceClient } from '@/lib/db'
+import { buildPayoutsCsv } from '@/lib/payouts'
+
+/**
+ * GET /api/admin/payouts - Partner payout ledger
+ *
+ * Query params:
+ * - status: 'DUE' | 'PAID' | 'CANCELED' | 'all' (default: 'all')
+ * - partner_id: string
+ * - from / to: YYYY-MM-DD bounds on period_start
+ * - format: 'csv' to download the filtered ledger
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin()
+
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status') || 'all'
+    const partnerId = searchParams.get('partner_id')
+    const from = searchParams.get('from')
+    const to = searchParams.get('to')
+    const format = searchParams.get('format')
+
+    const db = getServiceClient()
+    let query = db
+      .from('payouts')
+      .select('*, partners(id, name, service_type, contact_email)')
+      .order('period_start', { ascending: false })
+      .order('created_at', { ascending: false })
+
+    if (status !== 'all') {
+      query = query.eq('status', status)
+    }
+
+    if (partnerId) {
+      query = query.eq('partner_id', partnerId)
+    }
+
+    if (from) {
+      query = query.gte('period_start', from)
+    }
+
+    if (to) {
+      query = query.lte('period_start', to)
+    }
+
+    const { data: payouts, error } = await query
+
+    if (error) throw error
+
+    if (format === 'csv') {
+      return new NextResponse(buildPayoutsCsv(payouts || []), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="payouts-${new Date().toISOString().split('T')[0]}.csv"`,
+        },
+      })
+    }
+
+    const totals = (payouts || []).reduce(
+      (acc: { due_cents: number; paid_cents: number }, payout: any) => {
+        if (payout.status === 'DUE') acc.due_cents += payout.net_cents || 0
+        if (payout.status === 'PAID') acc.paid_cents += payout.net_cents || 0
+        return acc
+      },
+      { due_cents: 0, paid_cents: 0 }
+    )
+
+    return NextResponse.json({ payouts: payouts || [], totals })
+  } catch (error) {
+    console.error('Payouts list error:', error)
+
+    if (error instanceof Error && (error.message === 'Unauthorized' || error.message.includes('Forbidden'))) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.message === 'Unauthorized' ? 401 : 403 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch payouts' },
+      { status: 500 }
+    )
+  }
+}
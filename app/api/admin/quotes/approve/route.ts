@@ -2,7 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { requireAdmin } from '@/lib/auth'
 import { getServiceClient } from '@/lib/db'
-import { sendSMS } from '@/lib/sms'
+import { notifyCustomer } from '@/lib/notifications'
+import { recordPaymentRetry } from '@/lib/payment-errors'
 
 const approveQuoteSchema = z.object({
   order_id: z.string().uuid()
@@ -111,37 +112,31 @@ export async function POST(request: NextRequest) {
         }
       ])
       
-      // Send receipt SMS to customer
-      if (order.profiles?.phone) {
-        const amount = `$${(order.quote_cents / 100).toFixed(2)}`
-        const serviceType = order.service_type.toLowerCase()
-        
-        await sendSMS({
-          to: order.profiles.phone,
-          message: `Tidyhood: Charged ${amount} for your ${serviceType} order. View receipt: ${process.env.NEXT_PUBLIC_BASE_URL}/orders/${order_id}`
-        }).catch(err => {
-          console.error('[QUOTE_APPROVAL] Failed to send receipt SMS:', err)
-          // Don't throw - SMS failure shouldn't block approval
-        })
-      }
+      // Send receipt to customer (failures are recorded, never block approval)
+      const amount = `$${(order.quote_cents / 100).toFixed(2)}`
+      const serviceType = order.service_type.toLowerCase()
+      const receipt = await notifyCustomer({
+        event: 'payment_received',
+        userId: order.user_id,
+        orderId: order_id,
+        phone: order.profiles?.phone || order.guest_phone,
+        email: order.guest_email,
+        title: 'Payment receipt',
+        message: `Charged ${amount} for your ${serviceType} order. View receipt: ${process.env.NEXT_PUBLIC_BASE_URL}/orders/${order_id}`
+      })
       
       return NextResponse.json({
         success: true,
         payment_intent_id: paymentIntent.id,
         amount_charged: order.quote_cents,
-        receipt_sent: !!order.profiles?.phone
+        receipt_sent: receipt.channels.sms === 'sent' || receipt.channels.email === 'sent'
       })
       
     } catch (error: any) {
       console.error('[QUOTE_APPROVAL] Auto-charge failed:', error)
       
       // Log payment failure
-      await db.from('payment_retry_log').insert({
-        order_id: order_id,
-        error_message: error.message,
-        stripe_error_code: error.code ? String(error.code) : null,
-        retry_at: new Date(Date.now() + 2 * 60 * 60 * 1000) // Retry in 2 hours
-      })
+      await recordPaymentRetry(db, { orderId: order_id, error })
       
       return NextResponse.json(
         { 
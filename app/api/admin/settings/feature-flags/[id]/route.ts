@@ -0,0 +1,203 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getServiceClient } from '@/lib/db'
+import { requireAdmin } from '@/lib/auth'
+import { featureFlagSchema, clearFeatureFlagCache } from '@/lib/feature-flags'
+
+export const dynamic = 'force-dynamic'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+const EDITABLE_FIELDS = [
+  'description',
+  'enabled',
+  'rollout_percentage',
+  'target_user_ids',
+  'target_roles',
+  'target_zip_codes',
+  'target_service_types',
+] as const
+
+/**
+ * PUT /api/admin/settings/feature-flags/[id]
+ * 
+ * Updates a feature flag. The key can't be changed since code references it;
+ * create a new flag instead.
+ * Body: any featureFlagSchema fields except key, plus optional change_reason
+ */
+export async function PUT(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const adminUser = await requireAdmin()
+    const { id } = await context.params
+
+    const body = await request.json()
+    const changeReason = typeof body.change_reason === 'string' ? body.change_reason : null
+
+    const db = getServiceClient()
+
+    // Fetch old values for audit
+    const { data: oldFlag, error: fetchError } = await db
+      .from('feature_flags')
+      .select('*')
+      .eq('id', id)
+      .single()
+
+    if (fetchError || !oldFlag) {
+      return NextResponse.json(
+        { error: 'Feature flag not found' },
+        { status: 404 }
+      )
+    }
+
+    // Validate the flag as it will look after the update
+    const merged: Record<string, unknown> = { key: oldFlag.key }
+    for (const field of EDITABLE_FIELDS) {
+      merged[field] = field in body ? body[field] : oldFlag[field]
+    }
+    const input = featureFlagSchema.parse(merged)
+
+    const updates: Record<string, unknown> = {}
+    for (const field of EDITABLE_FIELDS) {
+      if (JSON.stringify(input[field] ?? null) !== JSON.stringify(oldFlag[field] ?? null)) {
+        updates[field] = input[field] ?? null
+      }
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ flag: oldFlag, success: true, changesLogged: 0 })
+    }
+
+    const { data: updatedFlag, error: updateError } = await db
+      .from('feature_flags')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (updateError) {
+      console.error('Error updating feature flag:', updateError)
+      return NextResponse.json(
+        { error: 'Failed to update feature flag' },
+        { status: 500 }
+      )
+    }
+
+    clearFeatureFlagCache()
+
+    // Log each changed field to the audit table
+    for (const [field, newValue] of Object.entries(updates)) {
+      await db.from('settings_audit_log').insert({
+        table_name: 'feature_flags',
+        record_id: id,
+        action: field === 'enabled' ? 'TOGGLE' : 'UPDATE',
+        field_name: field,
+        old_value: oldFlag[field] === null ? null : JSON.stringify(oldFlag[field]),
+        new_value: newValue === null ? null : JSON.stringify(newValue),
+        changed_by: adminUser.id,
+        change_reason: changeReason
+      })
+    }
+
+    return NextResponse.json({
+      flag: updatedFlag,
+      success: true,
+      changesLogged: Object.keys(updates).length
+    })
+  } catch (error) {
+    console.error('Feature flag update error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && (error.message === 'Unauthorized' || error.message.includes('Forbidden'))) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.message === 'Unauthorized' ? 401 : 403 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update feature flag' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/admin/settings/feature-flags/[id]
+ * 
+ * Removes a flag once its feature has fully launched (or been abandoned).
+ * Code that still checks the key will read it as off.
+ * Query params:
+ * - reason: change reason for the audit log (optional)
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const adminUser = await requireAdmin()
+    const { id } = await context.params
+    const changeReason = request.nextUrl.searchParams.get('reason')
+
+    const db = getServiceClient()
+
+    const { data: oldFlag, error: fetchError } = await db
+      .from('feature_flags')
+      .select('*')
+      .eq('id', id)
+      .single()
+
+    if (fetchError || !oldFlag) {
+      return NextResponse.json(
+        { error: 'Feature flag not found' },
+        { status: 404 }
+      )
+    }
+
+    const { error: deleteError } = await db
+      .from('feature_flags')
+      .delete()
+      .eq('id', id)
+
+    if (deleteError) throw deleteError
+
+    clearFeatureFlagCache()
+
+    await db.from('settings_audit_log').insert({
+      table_name: 'feature_flags',
+      record_id: id,
+      action: 'DELETE',
+      field_name: null,
+      old_value: JSON.stringify(oldFlag),
+      new_value: null,
+      changed_by: adminUser.id,
+      change_reason: changeReason,
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Feature flag delete error:', error)
+
+    if (error instanceof Error && (error.message === 'Unauthorized' || error.message.includes('Forbidden'))) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.message === 'Unauthorized' ? 401 : 403 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to delete feature flag' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getServiceClient } from '@/lib/db'
+import { requireAdmin } from '@/lib/auth'
+import { featureFlagSchema, clearFeatureFlagCache } from '@/lib/feature-flags'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/admin/settings/feature-flags
+ * 
+ * Lists feature flags
+ */
+export async function GET() {
+  try {
+    await requireAdmin()
+
+    const db = getServiceClient()
+    const { data: flags, error } = await db
+      .from('feature_flags')
+      .select('*')
+      .order('key', { ascending: true })
+
+    if (error) throw error
+
+    return NextResponse.json({ flags: flags || [] })
+  } catch (error) {
+    console.error('Feature flags fetch error:', error)
+
+    if (error instanceof Error && (error.message === 'Unauthorized' || error.message.includes('Forbidden'))) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.message === 'Unauthorized' ? 401 : 403 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch feature flags' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/admin/settings/feature-flags
+ * 
+ * Creates a feature flag
+ * Body: featureFlagSchema fields plus optional change_reason
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const adminUser = await requireAdmin()
+
+    const body = await request.json()
+    const input = featureFlagSchema.parse(body)
+    const changeReason = typeof body.change_reason === 'string' ? body.change_reason : null
+
+    const db = getServiceClient()
+    const { data: flag, error } = await db
+      .from('feature_flags')
+      .insert({
+        ...input,
+        created_by: adminUser.id,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: `Feature flag ${input.key} already exists` },
+          { status: 409 }
+        )
+      }
+      throw error
+    }
+
+    clearFeatureFlagCache()
+
+    await db.from('settings_audit_log').insert({
+      table_name: 'feature_flags',
+      record_id: flag.id,
+      action: 'CREATE',
+      field_name: null,
+      old_value: null,
+      new_value: JSON.stringify(input),
+      changed_by: adminUser.id,
+      change_reason: changeReason,
+    })
+
+    return NextResponse.json({ flag, success: true }, { status: 201 })
+  } catch (error) {
+    console.error('Feature flag create error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && (error.message === 'Unauthorized' || error.message.includes('Forbidden'))) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.message === 'Unauthorized' ? 401 : 403 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create feature flag' },
+      { status: 500 }
+    )
+  }
+}
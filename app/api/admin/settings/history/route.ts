@@ -9,7 +9,7 @@ export const dynamic = 'force-dynamic'
  * 
  * Fetches settings audit log with filtering
  * Query params:
- * - table_name: 'pricing_rules' | 'cancellation_policies'
+ * - table_name: 'pricing_rules' | 'cancellation_policies' | 'promo_codes' | 'feature_flags'
  * - user_id: UUID
  * - date_from: ISO date
  * - date_to: ISO date
@@ -2,12 +2,17 @@ import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { getServiceClient } from '@/lib/db'
 import { requireAdmin } from '@/lib/auth'
+import { AppError } from '@/lib/errors'
+import { updateDraftPricingRule, type PricingRuleUpdate } from '@/lib/pricing-versions'
 
 export const dynamic = 'force-dynamic'
 
 const updatePricingRuleSchema = z.object({
   unit_price_cents: z.number().optional(),
   multiplier: z.number().optional(),
+  rate: z.number().optional(),
+  min_quantity: z.number().optional(),
+  label: z.string().trim().min(1).nullable().optional(),
   active: z.boolean().optional(),
   change_reason: z.string().nullable().optional()
 })
@@ -19,8 +24,8 @@ interface RouteContext {
 /**
  * PUT /api/admin/settings/pricing/[id]
  * 
- * Updates a single pricing rule
- * Body: { unit_price_cents?, multiplier?, active?, change_reason? }
+ * Updates a single pricing rule of the draft version; published versions are locked
+ * Body: { unit_price_cents?, multiplier?, rate?, min_quantity?, label?, active?, change_reason? }
  */
 export async function PUT(
   request: NextRequest,
@@ -40,7 +45,7 @@ export async function PUT(
         { status: 400 }
       )
     }
-    const { unit_price_cents, multiplier, active, change_reason } = parsed.data
+    const { unit_price_cents, multiplier, rate, min_quantity, label, active, change_reason } = parsed.data
 
     // Validation
     if (unit_price_cents !== undefined && unit_price_cents <= 0) {
@@ -57,6 +62,21 @@ export async function PUT(
       )
     }
 
+    // Surcharges, discounts and tax are a share of the subtotal
+    if (rate !== undefined && (rate < 0 || rate > 1)) {
+      return NextResponse.json(
+        { error: 'Rate must be between 0% and 100%' },
+        { status: 400 }
+      )
+    }
+
+    if (min_quantity !== undefined && min_quantity <= 0) {
+      return NextResponse.json(
+        { error: 'Minimum quantity must be greater than 0' },
+        { status: 400 }
+      )
+    }
+
     const db = getServiceClient()
 
     // Fetch old values for audit
@@ -74,30 +94,20 @@ export async function PUT(
     }
 
     // Build update object
-    const updates: any = {
+    const updates: PricingRuleUpdate = {
       updated_by: adminUser.id,
       change_reason: change_reason || null
     }
 
     if (unit_price_cents !== undefined) updates.unit_price_cents = unit_price_cents
     if (multiplier !== undefined) updates.multiplier = multiplier
+    if (rate !== undefined) updates.rate = rate
+    if (min_quantity !== undefined) updates.min_quantity = min_quantity
+    if (label !== undefined) updates.label = label
     if (active !== undefined) updates.active = active
 
-    // Update pricing rule
-    const { data: updatedRule, error: updateError } = await db
-      .from('pricing_rules')
-      .update(updates)
-      .eq('id', id)
-      .select()
-      .single()
-
-    if (updateError) {
-      console.error('Error updating pricing rule:', updateError)
-      return NextResponse.json(
-        { error: 'Failed to update pricing rule' },
-        { status: 500 }
-      )
-    }
+    // Update pricing rule (409 once its version is published)
+    const updatedRule = await updateDraftPricingRule(db, id, updates)
 
     // Log changes to audit table
     const changes = []
@@ -115,6 +125,27 @@ export async function PUT(
         newValue: multiplier
       })
     }
+    if (rate !== undefined && Number(oldRule.rate) !== rate) {
+      changes.push({
+        field: 'rate',
+        oldValue: oldRule.rate,
+        newValue: rate
+      })
+    }
+    if (min_quantity !== undefined && Number(oldRule.min_quantity) !== min_quantity) {
+      changes.push({
+        field: 'min_quantity',
+        oldValue: oldRule.min_quantity,
+        newValue: min_quantity
+      })
+    }
+    if (label !== undefined && oldRule.label !== label) {
+      changes.push({
+        field: 'label',
+        oldValue: oldRule.label,
+        newValue: label
+      })
+    }
     if (active !== undefined && oldRule.active !== active) {
       changes.push({
         field: 'active',
@@ -144,6 +175,13 @@ export async function PUT(
     })
   } catch (error) {
     console.error('Pricing rule update error:', error)
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      )
+    }
     
     if (error instanceof Error && error.message.includes('Forbidden')) {
       return NextResponse.json(
@@ -1,14 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServiceClient } from '@/lib/db'
 import { requireAdmin } from '@/lib/auth'
+import { getEffectivePricingVersion, getPricingVersion } from '@/lib/pricing-versions'
 
 export const dynamic = 'force-dynamic'
 
 /**
  * GET /api/admin/settings/pricing
  * 
- * Fetches all pricing rules with optional filtering
+ * Fetches the pricing rules of one version with optional filtering
  * Query params:
+ * - version_id: pricing version (defaults to the one in effect now)
  * - service_type: 'LAUNDRY' | 'CLEANING'
  * - active: 'true' | 'false'
  */
@@ -20,11 +22,24 @@ export async function GET(request: NextRequest) {
     const searchParams = request.nextUrl.searchParams
     const serviceType = searchParams.get('service_type')
     const activeFilter = searchParams.get('active')
+    const versionId = searchParams.get('version_id')
 
     const db = getServiceClient()
+    const version = versionId
+      ? await getPricingVersion(db, versionId)
+      : await getEffectivePricingVersion(db)
+
+    if (!version) {
+      return NextResponse.json(
+        { error: 'Pricing version not found' },
+        { status: 404 }
+      )
+    }
+
     let query = db
       .from('pricing_rules')
       .select('*')
+      .eq('version_id', version.id)
       .order('service_type', { ascending: true })
       .order('priority', { ascending: true })
 
@@ -47,6 +62,7 @@ export async function GET(request: NextRequest) {
     }
 
     return NextResponse.json({
+      version,
       rules: rules || [],
       total: rules?.length || 0
     })
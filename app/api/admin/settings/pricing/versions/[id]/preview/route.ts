@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getServiceClient } from '@/lib/db'
+import { requireAdmin } from '@/lib/auth'
+import { DEFAULT_PRICING_SAMPLE_CARTS, previewPricingVersion, type PricingSampleCart } from '@/lib/pricing'
+import { getPricingVersion } from '@/lib/pricing-versions'
+
+export const dynamic = 'force-dynamic'
+
+const sampleCartSchema = z.discriminatedUnion('service_type', [
+  z.object({
+    label: z.string().min(1),
+    service_type: z.literal('LAUNDRY'),
+    params: z.object({
+      zip: z.string().regex(/^\d{5}$/),
+      lbs: z.number().min(0),
+      garments: z.array(z.object({
+        key: z.string().min(1),
+        quantity: z.number().int().positive()
+      })).optional(),
+      addons: z.array(z.string()).optional(),
+      rushService: z.boolean().optional()
+    })
+  }),
+  z.object({
+    label: z.string().min(1),
+    service_type: z.literal('CLEANING'),
+    params: z.object({
+      zip: z.string().regex(/^\d{5}$/),
+      bedrooms: z.number().int().min(0),
+      bathrooms: z.number().int().min(1),
+      deep: z.boolean().optional(),
+      addons: z.array(z.string()).optional(),
+      frequency: z.enum(['oneTime', 'weekly', 'biweekly', 'monthly']).optional(),
+      visitsCompleted: z.number().int().min(0).optional()
+    })
+  })
+])
+
+const previewSchema = z.object({
+  carts: z.array(sampleCartSchema).min(1).max(20).optional()
+})
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * POST /api/admin/settings/pricing/versions/[id]/preview
+ * 
+ * Quotes sample carts under this version next to the version in effect now
+ * Body: { carts? } (defaults to DEFAULT_PRICING_SAMPLE_CARTS)
+ */
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    await requireAdmin()
+    const { id } = await context.params
+
+    const body = await request.json().catch(() => ({}))
+    const { carts } = previewSchema.parse(body)
+
+    const db = getServiceClient()
+    const version = await getPricingVersion(db, id)
+    if (!version) {
+      return NextResponse.json(
+        { error: 'Pricing version not found' },
+        { status: 404 }
+      )
+    }
+
+    const lines = await previewPricingVersion(id, (carts as PricingSampleCart[] | undefined) ?? DEFAULT_PRICING_SAMPLE_CARTS)
+
+    return NextResponse.json({ version, lines })
+  } catch (error) {
+    console.error('Pricing version preview error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && (error.message === 'Unauthorized' || error.message.includes('Forbidden'))) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.message === 'Unauthorized' ? 401 : 403 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to preview pricing version' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getServiceClient } from '@/lib/db'
+import { requireAdmin } from '@/lib/auth'
+import { AppError } from '@/lib/errors'
+import { publishPricingVersion } from '@/lib/pricing-versions'
+
+export const dynamic = 'force-dynamic'
+
+const publishSchema = z.object({
+  effective_from: z.string().datetime().nullable().optional(),
+  change_reason: z.string().nullable().optional()
+})
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * POST /api/admin/settings/pricing/versions/[id]/publish
+ * 
+ * Publishes the draft, effective now or at a scheduled time
+ * Body: { effective_from?, change_reason? }
+ */
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const adminUser = await requireAdmin()
+    const { id } = await context.params
+
+    const body = await request.json().catch(() => ({}))
+    const { effective_from, change_reason } = publishSchema.parse(body)
+
+    const db = getServiceClient()
+    const version = await publishPricingVersion(db, id, {
+      publishedBy: adminUser.id,
+      effectiveFrom: effective_from ? new Date(effective_from) : undefined
+    })
+
+    await db.from('settings_audit_log').insert({
+      table_name: 'pricing_versions',
+      record_id: id,
+      action: 'UPDATE',
+      field_name: 'status',
+      old_value: 'draft',
+      new_value: `published (effective ${version.effective_from})`,
+      changed_by: adminUser.id,
+      change_reason: change_reason || null
+    })
+
+    return NextResponse.json({ version, success: true })
+  } catch (error) {
+    console.error('Pricing version publish error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      )
+    }
+
+    if (error instanceof Error && (error.message === 'Unauthorized' || error.message.includes('Forbidden'))) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.message === 'Unauthorized' ? 401 : 403 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to publish pricing version' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServiceClient } from '@/lib/db'
+import { requireAdmin } from '@/lib/auth'
+import { AppError } from '@/lib/errors'
+import { discardPricingDraft } from '@/lib/pricing-versions'
+
+export const dynamic = 'force-dynamic'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * DELETE /api/admin/settings/pricing/versions/[id]
+ * 
+ * Discards the staged draft and its rules; published versions can't be deleted
+ * Query params:
+ * - reason: optional note for the audit log
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const adminUser = await requireAdmin()
+    const { id } = await context.params
+
+    const db = getServiceClient()
+    await discardPricingDraft(db, id)
+
+    await db.from('settings_audit_log').insert({
+      table_name: 'pricing_versions',
+      record_id: id,
+      action: 'DELETE',
+      field_name: null,
+      old_value: 'draft',
+      new_value: null,
+      changed_by: adminUser.id,
+      change_reason: request.nextUrl.searchParams.get('reason')
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Pricing draft discard error:', error)
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      )
+    }
+
+    if (error instanceof Error && (error.message === 'Unauthorized' || error.message.includes('Forbidden'))) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.message === 'Unauthorized' ? 401 : 403 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to discard pricing draft' },
+      { status: 500 }
+    )
+  }
+}
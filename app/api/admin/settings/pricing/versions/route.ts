@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getServiceClient } from '@/lib/db'
+import { requireAdmin } from '@/lib/auth'
+import { AppError } from '@/lib/errors'
+import {
+  createPricingDraft,
+  listPricingVersions,
+  selectEffectiveVersion,
+} from '@/lib/pricing-versions'
+
+export const dynamic = 'force-dynamic'
+
+const createDraftSchema = z.object({
+  notes: z.string().max(500).nullable().optional(),
+  change_reason: z.string().nullable().optional()
+})
+
+/**
+ * GET /api/admin/settings/pricing/versions
+ * 
+ * Lists pricing versions, newest first, with the one in effect now
+ */
+export async function GET() {
+  try {
+    await requireAdmin()
+
+    const db = getServiceClient()
+    const versions = await listPricingVersions(db)
+
+    return NextResponse.json({
+      versions,
+      effective_version_id: selectEffectiveVersion(versions, new Date())?.id ?? null
+    })
+  } catch (error) {
+    console.error('Pricing versions fetch error:', error)
+
+    if (error instanceof Error && (error.message === 'Unauthorized' || error.message.includes('Forbidden'))) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.message === 'Unauthorized' ? 401 : 403 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch pricing versions' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/admin/settings/pricing/versions
+ * 
+ * Stages a draft copied from the rules in effect now
+ * Body: { notes?, change_reason? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const adminUser = await requireAdmin()
+
+    const body = await request.json().catch(() => ({}))
+    const { notes, change_reason } = createDraftSchema.parse(body)
+
+    const db = getServiceClient()
+    const version = await createPricingDraft(db, { createdBy: adminUser.id, notes })
+
+    await db.from('settings_audit_log').insert({
+      table_name: 'pricing_versions',
+      record_id: version.id,
+      action: 'CREATE',
+      field_name: null,
+      old_value: null,
+      new_value: JSON.stringify({ version: version.version, status: version.status, notes: version.notes }),
+      changed_by: adminUser.id,
+      change_reason: change_reason || null
+    })
+
+    return NextResponse.json({ version, success: true }, { status: 201 })
+  } catch (error) {
+    console.error('Pricing draft create error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.statusCode }
+      )
+    }
+
+    if (error instanceof Error && (error.message === 'Unauthorized' || error.message.includes('Forbidden'))) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.message === 'Unauthorized' ? 401 : 403 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create pricing draft' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getServiceClient } from '@/lib/db'
+import { requireAdmin } from '@/lib/auth'
+import { promoCodeSchema } from '@/lib/promos'
+
+export const dynamic = 'force-dynamic'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+const EDITABLE_FIELDS = [
+  'description',
+  'discount_type',
+  'percent_off',
+  'amount_off_cents',
+  'free_addon_key',
+  'service_types',
+  'zip_codes',
+  'starts_at',
+  'expires_at',
+  'max_redemptions',
+  'max_redemptions_per_user',
+  'first_order_only',
+  'active',
+] as const
+
+/**
+ * PUT /api/admin/settings/promos/[id]
+ * 
+ * Updates a promo code. The code itself can't be renamed once created since
+ * redemptions reference it; create a new code instead.
+ * Body: any promoCodeSchema fields except code, plus optional change_reason
+ */
+export async function PUT(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const adminUser = await requireAdmin()
+    const { id } = await context.params
+
+    const body = await request.json()
+    const changeReason = typeof body.change_reason === 'string' ? body.change_reason : null
+
+    const db = getServiceClient()
+
+    // Fetch old values for audit
+    const { data: oldPromo, error: fetchError } = await db
+      .from('promo_codes')
+      .select('*')
+      .eq('id', id)
+      .single()
+
+    if (fetchError || !oldPromo) {
+      return NextResponse.json(
+        { error: 'Promo code not found' },
+        { status: 404 }
+      )
+    }
+
+    // Validate the promo as it will look after the update
+    const merged: Record<string, unknown> = { code: oldPromo.code }
+    for (const field of EDITABLE_FIELDS) {
+      merged[field] = field in body ? body[field] : oldPromo[field]
+    }
+    const input = promoCodeSchema.parse(merged)
+
+    const updates: Record<string, unknown> = {}
+    for (const field of EDITABLE_FIELDS) {
+      if (JSON.stringify(input[field] ?? null) !== JSON.stringify(oldPromo[field] ?? null)) {
+        updates[field] = input[field] ?? null
+      }
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ promo: oldPromo, success: true, changesLogged: 0 })
+    }
+
+    const { data: updatedPromo, error: updateError } = await db
+      .from('promo_codes')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (updateError) {
+      console.error('Error updating promo code:', updateError)
+      return NextResponse.json(
+        { error: 'Failed to update promo code' },
+        { status: 500 }
+      )
+    }
+
+    // Log each changed field to the audit table
+    for (const [field, newValue] of Object.entries(updates)) {
+      await db.from('settings_audit_log').insert({
+        table_name: 'promo_codes',
+        record_id: id,
+        action: field === 'active' ? 'TOGGLE' : 'UPDATE',
+        field_name: field,
+        old_value: oldPromo[field] === null ? null : JSON.stringify(oldPromo[field]),
+        new_value: newValue === null ? null : JSON.stringify(newValue),
+        changed_by: adminUser.id,
+        change_reason: changeReason
+      })
+    }
+
+    return NextResponse.json({
+      promo: updatedPromo,
+      success: true,
+      changesLogged: Object.keys(updates).length
+    })
+  } catch (error) {
+    console.error('Promo code update error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && (error.message === 'Unauthorized' || error.message.includes('Forbidden'))) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.message === 'Unauthorized' ? 401 : 403 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update promo code' },
+      { status: 500 }
+    )
+  }
+}
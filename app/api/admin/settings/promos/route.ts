@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getServiceClient } from '@/lib/db'
+import { requireAdmin } from '@/lib/auth'
+import { promoCodeSchema, normalizePromoCode } from '@/lib/promos'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/admin/settings/promos
+ * 
+ * Lists promo codes with their redemption counts
+ * Query params:
+ * - active: 'true' | 'false'
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin()
+
+    const activeFilter = request.nextUrl.searchParams.get('active')
+
+    const db = getServiceClient()
+    let query = db
+      .from('promo_codes')
+      .select('*, promo_redemptions(count)')
+      .order('created_at', { ascending: false })
+
+    if (activeFilter) {
+      query = query.eq('active', activeFilter === 'true')
+    }
+
+    const { data: promos, error } = await query
+
+    if (error) throw error
+
+    return NextResponse.json({
+      promos: (promos || []).map((promo: any) => ({
+        ...promo,
+        redemption_count: promo.promo_redemptions?.[0]?.count || 0,
+        promo_redemptions: undefined,
+      })),
+    })
+  } catch (error) {
+    console.error('Promo codes fetch error:', error)
+
+    if (error instanceof Error && (error.message === 'Unauthorized' || error.message.includes('Forbidden'))) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.message === 'Unauthorized' ? 401 : 403 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch promo codes' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/admin/settings/promos
+ * 
+ * Creates a promo code
+ * Body: promoCodeSchema fields plus optional change_reason
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const adminUser = await requireAdmin()
+
+    const body = await request.json()
+    const input = promoCodeSchema.parse(body)
+    const changeReason = typeof body.change_reason === 'string' ? body.change_reason : null
+
+    const db = getServiceClient()
+    const { data: promo, error } = await db
+      .from('promo_codes')
+      .insert({
+        ...input,
+        code: normalizePromoCode(input.code),
+        created_by: adminUser.id,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: `Promo code ${normalizePromoCode(input.code)} already exists` },
+          { status: 409 }
+        )
+      }
+      throw error
+    }
+
+    await db.from('settings_audit_log').insert({
+      table_name: 'promo_codes',
+      record_id: promo.id,
+      action: 'CREATE',
+      field_name: null,
+      old_value: null,
+      new_value: JSON.stringify(input),
+      changed_by: adminUser.id,
+      change_reason: changeReason,
+    })
+
+    return NextResponse.json({ promo, success: true }, { status: 201 })
+  } catch (error) {
+    console.error('Promo code create error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && (error.message === 'Unauthorized' || error.message.includes('Forbidden'))) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.message === 'Unauthorized' ? 401 : 403 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create promo code' },
+      { status: 500 }
+    )
+  }
+}
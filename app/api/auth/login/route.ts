@@ -2,7 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { cookies } from 'next/headers'
 import { createServerClient } from '@supabase/ssr'
 import { z } from 'zod'
-import { checkRateLimit, resetRateLimit, getTimeUntilReset } from '@/lib/rate-limit'
+import { rateLimit, resetRateLimit, getClientIp } from '@/lib/rate-limit'
+import { rateLimitError, getCorrelationId } from '@/lib/api-response'
 import { getSupabaseConfig } from '@/lib/supabase-config'
 
 const loginSchema = z.object({
@@ -16,18 +17,16 @@ export async function POST(request: NextRequest) {
     const { email, password } = loginSchema.parse(body)
 
     // Get IP address for rate limiting
-    const ip = request.headers.get('x-forwarded-for') ?? request.headers.get('x-real-ip') ?? '127.0.0.1'
+    const ip = getClientIp(request)
     
     // Check rate limit (5 attempts per 15 minutes)
-    if (!checkRateLimit(ip, 5, 15 * 60 * 1000)) {
-      const timeUntilReset = getTimeUntilReset(ip)
-      const minutesUntilReset = Math.ceil(timeUntilReset / 60000)
-      
-      return NextResponse.json(
-        { 
-          error: `Too many login attempts. Please try again in ${minutesUntilReset} minute${minutesUntilReset !== 1 ? 's' : ''}.` 
-        },
-        { status: 429 }
+    const limit = await rateLimit('auth.login', ip)
+    if (!limit.allowed) {
+      const minutesUntilReset = Math.ceil(limit.retryAfterSeconds / 60)
+      return rateLimitError(
+        limit.retryAfterSeconds,
+        getCorrelationId(request),
+        `Too many login attempts. Please try again in ${minutesUntilReset} minute${minutesUntilReset !== 1 ? 's' : ''}.`
       )
     }
 
@@ -65,7 +64,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Success - reset rate limit for this IP
-    resetRateLimit(ip)
+    await resetRateLimit('auth.login', ip)
 
     return NextResponse.json({
       user: data.user,
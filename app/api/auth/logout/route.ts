@@ -1,10 +1,17 @@
-import { NextResponse } from 'next/server'
+import { NextRequest, NextResponse } from 'next/server'
 import { cookies } from 'next/headers'
 import { createServerClient } from '@supabase/ssr'
 import { getSupabaseConfig } from '@/lib/supabase-config'
+import { rateLimit, getClientIp } from '@/lib/rate-limit'
+import { rateLimitError, getCorrelationId } from '@/lib/api-response'
 
-export async function POST() {
+export async function POST(request: NextRequest) {
   try {
+    const limit = await rateLimit('auth', getClientIp(request))
+    if (!limit.allowed) {
+      return rateLimitError(limit.retryAfterSeconds, getCorrelationId(request))
+    }
+
     const cookieStore = await cookies()
     const { url: supabaseUrl, anonKey: supabaseAnonKey } = getSupabaseConfig()
     const supabase = createServerClient(
@@ -3,6 +3,8 @@ import { cookies } from 'next/headers'
 import { createServerClient } from '@supabase/ssr'
 import { z } from 'zod'
 import { getSupabaseConfig } from '@/lib/supabase-config'
+import { rateLimit, getClientIp } from '@/lib/rate-limit'
+import { rateLimitError, getCorrelationId } from '@/lib/api-response'
 
 const signupSchema = z.object({
   email: z.string().email(),
@@ -13,6 +15,11 @@ const signupSchema = z.object({
 
 export async function POST(request: NextRequest) {
   try {
+    const limit = await rateLimit('auth.signup', getClientIp(request))
+    if (!limit.allowed) {
+      return rateLimitError(limit.retryAfterSeconds, getCorrelationId(request))
+    }
+
     const body = await request.json()
     const { email, password, fullName, phone } = signupSchema.parse(body)
 
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { findBuildingForAddress } from '@/lib/buildings'
+
+/**
+ * GET /api/buildings/match?line1=...&zip=... - Match a booking address to a partner building
+ *
+ * Public: only returns what the booking flow shows the customer.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const line1 = searchParams.get('line1') || ''
+  const zip = searchParams.get('zip') || ''
+
+  if (!line1 || !/^\d{5}$/.test(zip)) {
+    return NextResponse.json(
+      { error: 'line1 and a 5-digit zip are required' },
+      { status: 400 }
+    )
+  }
+
+  const building = await findBuildingForAddress({ line1, zip })
+
+  return NextResponse.json({
+    building: building
+      ? {
+          id: building.id,
+          name: building.name,
+          doorman_policy: building.doorman_policy,
+          dropoff_instructions: building.dropoff_instructions,
+          discount_pct: Number(building.discount_pct) || 0,
+        }
+      : null,
+  })
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceClient } from '@/lib/db';
+import { expireCapacityHolds } from '@/lib/capacity-holds';
+
+/**
+ * GET /api/cron/capacity-holds - Expire abandoned checkout holds
+ *
+ * Gives the units of holds that were never converted into an order back to
+ * their slots. Safe to re-run: each hold is expired at most once.
+ */
+export async function GET(request: NextRequest) {
+  // Verify cron secret
+  const authHeader = request.headers.get('authorization');
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const db = getServiceClient();
+    const results = await expireCapacityHolds(db, new Date());
+
+    return NextResponse.json({
+      success: true,
+      message: `Expired ${results.expired} holds (${results.units} units returned)`,
+      results,
+    });
+  } catch (error) {
+    console.error('Error expiring capacity holds:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to expire capacity holds',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
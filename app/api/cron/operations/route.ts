@@ -5,6 +5,9 @@ import {
   autoTransitionToInService,
   autoCompleteCleanings
 } from '@/lib/cleaningStatus';
+import { refreshAllScorecards } from '@/lib/scorecards';
+import { flagSlaBreaches } from '@/lib/disputes';
+import { getUploadStorage, sweepPendingUploads } from '@/lib/upload';
 
 /**
  * Combined Operations Cron Job
@@ -12,6 +15,10 @@ import {
  * This endpoint handles multiple operational tasks:
  * 1. Capacity monitoring and alerting
  * 2. Cleaning status automation
+ * 3. Expired rate limit cleanup
+ * 4. Partner scorecard refresh (alerts on low scores)
+ * 5. Dispute SLA breach alerts
+ * 6. Abandoned photo upload cleanup
  * 
  * Runs daily to check system health and automate workflows
  */
@@ -27,6 +34,10 @@ export async function GET(request: NextRequest) {
     timestamp: getNYTime().toISOString(),
     capacityAlerts: {},
     cleaningStatus: {},
+    rateLimits: {},
+    scorecards: {},
+    disputeSla: {},
+    pendingUploads: {},
   };
 
   try {
@@ -165,6 +176,67 @@ export async function GET(request: NextRequest) {
       };
     }
 
+    // ===== RATE LIMIT CLEANUP =====
+    try {
+      const db = getServiceClient();
+      const { count, error } = await db
+        .from('rate_limits')
+        .delete({ count: 'exact' })
+        .lt('expires_at', new Date().toISOString());
+
+      if (error) throw error;
+
+      results.rateLimits = { success: true, deleted: count || 0 };
+    } catch (error) {
+      // Not critical: stale rows are ignored by the limiter anyway
+      console.error('Rate limit cleanup error:', error);
+      results.rateLimits = {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+
+    // ===== PARTNER SCORECARDS =====
+    try {
+      // Ratings refresh a scorecard right away; this catches late arrivals,
+      // no-shows and disputes, and ages orders out of the window
+      const refresh = await refreshAllScorecards(getServiceClient());
+      results.scorecards = { success: true, ...refresh };
+    } catch (error) {
+      // Not critical: scorecards are refreshed again on the next rating or run
+      console.error('Scorecard refresh error:', error);
+      results.scorecards = {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+
+    // ===== DISPUTE SLA =====
+    try {
+      const sla = await flagSlaBreaches(getServiceClient());
+      results.disputeSla = { success: true, ...sla };
+    } catch (error) {
+      // Not critical: overdue cases stay flagged in the workbench queue
+      console.error('Dispute SLA check error:', error);
+      results.disputeSla = {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+
+    // ===== ABANDONED UPLOADS =====
+    try {
+      const sweep = await sweepPendingUploads(getServiceClient(), getUploadStorage());
+      results.pendingUploads = { success: true, ...sweep };
+    } catch (error) {
+      // Not critical: the next run removes them
+      console.error('Pending upload cleanup error:', error);
+      results.pendingUploads = {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+
     // Overall success if no critical errors
     const hasErrors = !results.capacityAlerts.success || !results.cleaningStatus.success;
 
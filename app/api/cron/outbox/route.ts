@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceClient } from '@/lib/db';
+import { processOutbox } from '@/lib/outbox';
+
+/**
+ * GET /api/cron/outbox - Deliver pending domain events
+ *
+ * Fans out events the transition route didn't get to and retries failed
+ * deliveries whose backoff has elapsed. Deliveries that exhaust their
+ * attempts are marked dead and written to audit_logs.
+ *
+ * Safe to re-run: deliveries are claimed before they run and carry
+ * idempotency keys.
+ */
+export async function GET(request: NextRequest) {
+  // Verify cron secret
+  const authHeader = request.headers.get('authorization');
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const db = getServiceClient();
+    const now = new Date();
+
+    const results = await processOutbox(db, { now });
+
+    await db.from('audit_logs').insert({
+      actor_role: 'system',
+      action: 'outbox.run',
+      entity_type: 'domain_event',
+      entity_id: now.toISOString(),
+      changes: results,
+    });
+
+    return NextResponse.json({
+      success: results.dead === 0,
+      message: `Delivered ${results.delivered} side effects (${results.retrying} retrying, ${results.dead} dead)`,
+      results,
+    });
+  } catch (error) {
+    console.error('Error processing outbox:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to process outbox',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceClient } from '@/lib/db';
+import { getNYTime } from '@/lib/timezone';
+import { getPayoutPeriod, settlePartnerPayout, type PayoutPeriod } from '@/lib/payouts';
+
+/**
+ * GET /api/cron/payouts - Weekly partner settlement
+ *
+ * Settles the most recent complete Monday–Sunday week (NY time) for every
+ * partner. Pass ?period_end=YYYY-MM-DD (a Sunday) to settle a specific week.
+ * Safe to re-run: partners already settled for the period are skipped.
+ */
+export async function GET(request: NextRequest) {
+  // Verify cron secret
+  const authHeader = request.headers.get('authorization');
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const db = getServiceClient();
+
+    let period: PayoutPeriod;
+    const periodEnd = request.nextUrl.searchParams.get('period_end');
+    if (periodEnd) {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(periodEnd)) {
+        return NextResponse.json({ error: 'period_end must be YYYY-MM-DD' }, { status: 400 });
+      }
+      // Settling "as of" the Monday after the requested Sunday
+      const [y, m, d] = periodEnd.split('-').map(Number);
+      period = getPayoutPeriod(new Date(y, m - 1, d + 1));
+    } else {
+      period = getPayoutPeriod(getNYTime());
+    }
+
+    const results = {
+      period,
+      settled: 0,
+      skipped: 0,
+      net_cents: 0,
+      errors: [] as Array<{ partner_id: string; error: string }>,
+    };
+
+    // Include inactive partners: they may still have completed orders to be paid for
+    const { data: partners, error: partnersError } = await db
+      .from('partners')
+      .select('id, name, payout_percent');
+
+    if (partnersError) throw partnersError;
+
+    for (const partner of partners || []) {
+      try {
+        const payout = await settlePartnerPayout(db, partner, period);
+        if (payout) {
+          results.settled++;
+          results.net_cents += payout.net_cents;
+        } else {
+          results.skipped++;
+        }
+      } catch (error) {
+        console.error(`Error settling payout for partner ${partner.id}:`, error);
+        results.errors.push({
+          partner_id: partner.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    await db.from('audit_logs').insert({
+      actor_role: 'system',
+      action: 'payouts.settle',
+      entity_type: 'payout',
+      entity_id: `${period.start}:${period.end}`,
+      changes: results,
+    });
+
+    return NextResponse.json({
+      success: results.errors.length === 0,
+      message: `Settled ${results.settled} payouts for ${period.start} – ${period.end}`,
+      results,
+    });
+  } catch (error) {
+    console.error('Error settling payouts:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to settle payouts',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServiceClient } from '@/lib/db';
-import { getNYTime } from '@/lib/timezone';
-
+import { toNYDateString } from '@/lib/timezone';
+import { generateTemplateSlots } from '@/lib/capacity-templates';
+
+// How far ahead slots are generated
+const POPULATE_DAYS = 14;
+
+/**
+ * GET /api/cron/populate-slots - Generate capacity for the next two weeks
+ *
+ * Expands every active partner's capacity templates (or the default
+ * schedule for partners without templates) into capacity_calendar, skipping
+ * blackout dates and windows that already have a slot. Safe to re-run.
+ */
 export async function GET(request: NextRequest) {
   // Verify cron secret
   const authHeader = request.headers.get('authorization');
@@ -11,110 +22,26 @@ export async function GET(request: NextRequest) {
 
   try {
     const db = getServiceClient();
-    const now = getNYTime();
-    const results = {
-      success: true,
-      created: 0,
-      skipped: 0,
-      errors: [] as Array<{ template_id: string; date: string; error: string }>,
-    };
-
-    // Get all active templates
-    const { data: templates, error: templatesError } = await db
-      .from('capacity_templates')
-      .select(`
-        *,
-        partner:partners(id, name, service_type, active)
-      `)
-      .eq('active', true);
-
-    if (templatesError) throw templatesError;
-
-    if (!templates || templates.length === 0) {
-      return NextResponse.json({
-        success: true,
-        message: 'No active templates found',
-        results,
-      });
-    }
-
-    // Filter for active partners only
-    const activeTemplates = templates.filter((t: any) => t.partner.active);
+    const now = new Date();
+    const startDate = toNYDateString(now);
+    const endDate = toNYDateString(new Date(now.getTime() + POPULATE_DAYS * 24 * 60 * 60 * 1000));
 
-    // For each template, ensure slots exist for next 14 days
-    for (const template of activeTemplates) {
-      const startDate = new Date(now);
-      startDate.setHours(0, 0, 0, 0);
-      
-      const endDate = new Date(startDate);
-      endDate.setDate(endDate.getDate() + 14);
+    const generation = await generateTemplateSlots(db, { startDate, endDate, now });
 
-      const currentDate = new Date(startDate);
-
-      while (currentDate <= endDate) {
-        // Check if this day matches template's day_of_week
-        if (currentDate.getDay() === template.day_of_week) {
-          // Create slot date/time
-          const slotStart = new Date(currentDate);
-          const [hours, minutes, seconds] = template.slot_start.split(':');
-          slotStart.setHours(parseInt(hours), parseInt(minutes), parseInt(seconds || '0'));
-
-          const slotEnd = new Date(currentDate);
-          const [endHours, endMinutes, endSeconds] = template.slot_end.split(':');
-          slotEnd.setHours(parseInt(endHours), parseInt(endMinutes), parseInt(endSeconds || '0'));
-
-          // Only create if in future
-          if (slotStart > now) {
-            // Check if slot already exists
-            const { data: existing } = await db
-              .from('capacity_calendar')
-              .select('id')
-              .eq('partner_id', template.partner_id)
-              .eq('service_type', template.service_type)
-              .eq('slot_start', slotStart.toISOString())
-              .maybeSingle();
-
-            if (!existing) {
-              // Create new slot
-              const { error: insertError } = await db
-                .from('capacity_calendar')
-                .insert({
-                  partner_id: template.partner_id,
-                  service_type: template.service_type,
-                  slot_start: slotStart.toISOString(),
-                  slot_end: slotEnd.toISOString(),
-                  max_units: template.max_units,
-                  reserved_units: 0,
-                  notes: `Auto-generated from template ${template.id}`,
-                });
-
-              if (insertError) {
-                results.errors.push({
-                  template_id: template.id,
-                  date: slotStart.toISOString(),
-                  error: insertError.message,
-                });
-              } else {
-                results.created++;
-              }
-            } else {
-              results.skipped++;
-            }
-          }
-        }
-
-        // Move to next day
-        currentDate.setDate(currentDate.getDate() + 1);
-      }
-    }
+    const results = {
+      start_date: startDate,
+      end_date: endDate,
+      created: generation.created,
+      skipped: generation.skipped.length,
+      skipped_by_reason: generation.skipped_by_reason,
+    };
 
     // Log results to audit trail
     await db.from('audit_logs').insert({
-      actor_id: 'system',
       actor_role: 'system',
       action: 'capacity.auto_populate',
       entity_type: 'capacity_slot',
-      entity_id: 'bulk',
+      entity_id: now.toISOString(),
       changes: results,
     });
 
@@ -126,8 +53,8 @@ export async function GET(request: NextRequest) {
   } catch (error) {
     console.error('Error auto-populating slots:', error);
     return NextResponse.json(
-      { 
-        error: 'Failed to auto-populate slots', 
+      {
+        error: 'Failed to auto-populate slots',
         details: error instanceof Error ? error.message : 'Unknown error'
       },
       { status: 500 }
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceClient } from '@/lib/db';
+import {
+  bookRecurringVisit,
+  chargeRecurringVisit,
+  isVisitChargeDue,
+  RECURRING_CHARGE_LEAD_HOURS,
+  type RecurringPlan,
+} from '@/lib/recurring';
+
+/**
+ * GET /api/cron/recurring-orders - Book and charge recurring cleaning visits
+ *
+ * 1. Books the next visit for every active plan whose next_date is within
+ *    RECURRING_BOOKING_LEAD_DAYS (and notifies the customer)
+ * 2. Charges booked visits that entered the RECURRING_CHARGE_LEAD_HOURS window
+ *    (visits of Stripe-billed plans are confirmed instead of charged)
+ *
+ * Safe to re-run: visits are unique per plan and date, and charges use Stripe
+ * idempotency keys.
+ */
+export async function GET(request: NextRequest) {
+  // Verify cron secret
+  const authHeader = request.headers.get('authorization');
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const db = getServiceClient();
+    const now = new Date();
+
+    const results = {
+      booked: 0,
+      skipped: {} as Record<string, number>,
+      charged: 0,
+      covered: 0,
+      charge_failed: 0,
+      errors: [] as Array<{ subscription_id?: string; order_id?: string; error: string }>,
+    };
+
+    // 1. Book upcoming visits
+    const { data: plans, error: plansError } = await db
+      .from('subscriptions')
+      .select('*')
+      .eq('active', true)
+      .eq('service_type', 'CLEANING')
+      .not('next_date', 'is', null);
+
+    if (plansError) throw plansError;
+
+    for (const plan of (plans || []) as RecurringPlan[]) {
+      try {
+        const result = await bookRecurringVisit(db, plan, now);
+        if (result.status === 'booked') {
+          results.booked++;
+        } else {
+          results.skipped[result.reason] = (results.skipped[result.reason] || 0) + 1;
+        }
+      } catch (error) {
+        console.error(`Error booking recurring visit for plan ${plan.id}:`, error);
+        results.errors.push({
+          subscription_id: plan.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    // 2. Charge visits entering the charge window
+    const chargeHorizon = new Date(now.getTime() + RECURRING_CHARGE_LEAD_HOURS * 60 * 60 * 1000);
+    const { data: visits, error: visitsError } = await db
+      .from('orders')
+      .select('*, subscriptions(stripe_subscription_id, billing_status)')
+      .not('subscription_id', 'is', null)
+      .eq('status', 'pending')
+      .is('paid_at', null)
+      .gt('slot_start', now.toISOString())
+      .lte('slot_start', chargeHorizon.toISOString());
+
+    if (visitsError) throw visitsError;
+
+    for (const visit of visits || []) {
+      if (!isVisitChargeDue(visit, now)) continue;
+
+      try {
+        const result = await chargeRecurringVisit(db, visit, visit.subscriptions);
+        if (result.status === 'charged') {
+          results.charged++;
+        } else if (result.status === 'covered') {
+          results.covered++;
+        } else if (result.status !== 'awaiting_subscription') {
+          results.charge_failed++;
+        }
+      } catch (error) {
+        console.error(`Error charging recurring visit ${visit.id}:`, error);
+        results.errors.push({
+          order_id: visit.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    await db.from('audit_logs').insert({
+      actor_role: 'system',
+      action: 'recurring_orders.run',
+      entity_type: 'subscription',
+      entity_id: now.toISOString(),
+      changes: results,
+    });
+
+    return NextResponse.json({
+      success: results.errors.length === 0,
+      message: `Booked ${results.booked} and charged ${results.charged} recurring visits`,
+      results,
+    });
+  } catch (error) {
+    console.error('Error generating recurring orders:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to generate recurring orders',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { estimateLaundry } from '@/lib/estimate';
 import { handleApiError } from '@/lib/errors';
 import { z } from 'zod';
+import { rateLimit, getClientIp } from '@/lib/rate-limit';
+import { rateLimitError, getCorrelationId } from '@/lib/api-response';
 
 const estimateSchema = z.object({
   serviceType: z.enum(['washFold', 'dryClean', 'mixed']).optional().default('washFold'),
@@ -13,6 +15,11 @@ const estimateSchema = z.object({
 
 export async function POST(request: NextRequest) {
   try {
+    const limit = await rateLimit('estimate', getClientIp(request));
+    if (!limit.allowed) {
+      return rateLimitError(limit.retryAfterSeconds, getCorrelationId(request));
+    }
+    
     const body = await request.json();
     const validated = estimateSchema.parse(body);
     
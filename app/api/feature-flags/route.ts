@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getCurrentUser } from '@/lib/auth';
+import { evaluateFeatureFlags } from '@/lib/feature-flags';
+import { handleApiError } from '@/lib/errors';
+
+export const dynamic = 'force-dynamic';
+
+const flagsQuerySchema = z.object({
+  keys: z.array(z.string().min(1).max(64)).min(1).max(20),
+  zip: z.string().regex(/^\d{5}$/).optional(),
+  service_type: z.enum(['LAUNDRY', 'CLEANING']).optional(),
+});
+
+/**
+ * GET /api/feature-flags
+ * 
+ * Evaluates flags for the current visitor (used by useFeatureFlag)
+ * Query params:
+ * - keys: comma-separated flag keys
+ * - zip: ZIP code for ZIP-targeted flags (optional)
+ * - service_type: 'LAUNDRY' | 'CLEANING' (optional)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const query = flagsQuerySchema.parse({
+      keys: (searchParams.get('keys') || '').split(',').map(key => key.trim()).filter(Boolean),
+      zip: searchParams.get('zip') || undefined,
+      service_type: searchParams.get('service_type') || undefined,
+    });
+
+    const user = await getCurrentUser();
+
+    const flags = await evaluateFeatureFlags(query.keys, {
+      userId: user?.id,
+      role: user?.role,
+      zip: query.zip,
+      serviceType: query.service_type,
+    });
+
+    return NextResponse.json(
+      { flags },
+      { headers: { 'Cache-Control': 'private, no-store' } }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    const apiError = handleApiError(error);
+    return NextResponse.json(
+      { error: apiError.error, code: apiError.code },
+      { status: apiError.statusCode }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireAuth } from '@/lib/auth'
+import {
+  getNotificationPreferences,
+  saveNotificationPreferences,
+  mergeNotificationPreferences,
+  notificationPreferencesSchema,
+  NOTIFICATION_EVENTS,
+  NOTIFICATION_EVENT_KEYS,
+} from '@/lib/notifications'
+
+// Force dynamic rendering (uses cookies for auth)
+export const dynamic = 'force-dynamic'
+
+// GET /api/notifications/preferences - Channel and per-event opt-ins, plus
+// the event list the settings page renders
+export async function GET() {
+  try {
+    const user = await requireAuth()
+    const preferences = await getNotificationPreferences(user.id)
+
+    return NextResponse.json({
+      preferences,
+      events: NOTIFICATION_EVENT_KEYS.map(key => ({ key, ...NOTIFICATION_EVENTS[key] })),
+    })
+  } catch (error) {
+    console.error('Notification preferences GET error:', error)
+
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to fetch notification preferences' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/notifications/preferences - Update opt-ins (partial updates are merged)
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await requireAuth()
+    const updates = notificationPreferencesSchema.parse(await request.json())
+
+    const current = await getNotificationPreferences(user.id)
+    const preferences = await saveNotificationPreferences(
+      user.id,
+      mergeNotificationPreferences(current, updates)
+    )
+
+    return NextResponse.json({ preferences, success: true })
+  } catch (error) {
+    console.error('Notification preferences PUT error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to update notification preferences' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireAuth } from '@/lib/auth'
+import { getServiceClient } from '@/lib/db'
+
+// Force dynamic rendering (uses cookies for auth)
+export const dynamic = 'force-dynamic'
+
+const markReadSchema = z.union([
+  z.object({ ids: z.array(z.string().uuid()).min(1).max(100) }),
+  z.object({ all: z.literal(true) }),
+])
+
+// GET /api/notifications - Customer's in-app inbox, newest first
+// Query params: unread=true, limit (default 20, max 100), before (ISO timestamp, for paging)
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireAuth()
+    const searchParams = request.nextUrl.searchParams
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20', 10) || 20, 1), 100)
+    const before = searchParams.get('before')
+
+    const supabase = getServiceClient()
+    let query = supabase
+      .from('notifications')
+      .select('id, template_key, order_id, title, body, created_at, read_at')
+      .eq('recipient_id', user.id)
+      .eq('type', 'IN_APP')
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (searchParams.get('unread') === 'true') {
+      query = query.is('read_at', null)
+    }
+    if (before) {
+      query = query.lt('created_at', before)
+    }
+
+    const [{ data: notifications, error }, { count: unreadCount }] = await Promise.all([
+      query,
+      supabase
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('recipient_id', user.id)
+        .eq('type', 'IN_APP')
+        .is('read_at', null),
+    ])
+
+    if (error) {
+      console.error('Error fetching notifications:', error)
+      return NextResponse.json(
+        { error: 'Failed to fetch notifications' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      notifications: (notifications || []).map(notification => ({
+        id: notification.id,
+        event: notification.template_key,
+        order_id: notification.order_id,
+        title: notification.title,
+        body: notification.body,
+        created_at: notification.created_at,
+        read_at: notification.read_at,
+      })),
+      unread_count: unreadCount || 0,
+    })
+  } catch (error) {
+    console.error('Notifications GET error:', error)
+
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH /api/notifications - Mark notifications read
+// Body: { ids: string[] } or { all: true }
+export async function PATCH(request: NextRequest) {
+  try {
+    const user = await requireAuth()
+    const body = markReadSchema.parse(await request.json())
+    const supabase = getServiceClient()
+
+    let query = supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('recipient_id', user.id)
+      .eq('type', 'IN_APP')
+      .is('read_at', null)
+
+    if ('ids' in body) {
+      query = query.in('id', body.ids)
+    }
+
+    const { data, error } = await query.select('id')
+
+    if (error) {
+      console.error('Error marking notifications read:', error)
+      return NextResponse.json(
+        { error: 'Failed to update notifications' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true, updated: data?.length || 0 })
+  } catch (error) {
+    console.error('Notifications PATCH error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,174 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireAuth } from '@/lib/auth'
+import { getServiceClient } from '@/lib/db'
+import { NotFoundError, ForbiddenError, ValidationError, handleApiError } from '@/lib/errors'
+import { createClaimSchema, canFileClaim, CLAIM_WINDOW_DAYS } from '@/lib/claims'
+
+/**
+ * GET /api/orders/:id/claims - List claims filed against an order
+ *
+ * Authorization: User must own the order or be an admin
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { id: orderId } = await params
+    const db = getServiceClient()
+
+    const { data: order, error: fetchError } = await db
+      .from('orders')
+      .select('id, user_id')
+      .eq('id', orderId)
+      .single()
+
+    if (fetchError || !order) {
+      throw new NotFoundError('Order not found')
+    }
+
+    if (order.user_id !== user.id && user.role !== 'admin') {
+      throw new ForbiddenError()
+    }
+
+    const { data: claims, error } = await db
+      .from('claims')
+      .select('*')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+
+    return NextResponse.json({ claims: claims || [] })
+  } catch (error) {
+    const apiError = handleApiError(error)
+    return NextResponse.json(
+      { error: apiError.error, code: apiError.code },
+      { status: apiError.statusCode }
+    )
+  }
+}
+
+/**
+ * POST /api/orders/:id/claims - File a lost/damaged/rework claim
+ *
+ * Request Body:
+ * - type: 'LOST' | 'DAMAGED' | 'REWORK' | 'OTHER'
+ * - description: string
+ * - requested_cents: number (optional) - Amount the customer is asking for
+ * - bag_id: string (optional) - Bag the claim relates to (laundry)
+ * - evidence: string[] (optional) - Photo URLs
+ *
+ * Authorization: User must own the order
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { id: orderId } = await params
+    const db = getServiceClient()
+
+    const body = await request.json().catch(() => ({}))
+    const input = createClaimSchema.parse(body)
+
+    const { data: order, error: fetchError } = await db
+      .from('orders')
+      .select('id, user_id, status, service_type, updated_at, completed_at')
+      .eq('id', orderId)
+      .single()
+
+    if (fetchError || !order) {
+      throw new NotFoundError('Order not found')
+    }
+
+    if (order.user_id !== user.id) {
+      throw new ForbiddenError('You can only file claims on your own orders')
+    }
+
+    if (!canFileClaim(order)) {
+      throw new ValidationError(
+        `Claims can be filed within ${CLAIM_WINDOW_DAYS} days of delivery or completion`,
+        'CLAIM_NOT_ALLOWED'
+      )
+    }
+
+    // Bag must belong to this order
+    if (input.bag_id) {
+      const { data: bag } = await db
+        .from('bags')
+        .select('id')
+        .eq('id', input.bag_id)
+        .eq('order_id', orderId)
+        .maybeSingle()
+
+      if (!bag) {
+        throw new ValidationError('Bag does not belong to this order', 'INVALID_BAG')
+      }
+    }
+
+    // One open claim per order keeps the admin queue unambiguous
+    const { data: openClaim } = await db
+      .from('claims')
+      .select('id')
+      .eq('order_id', orderId)
+      .in('status', ['PENDING', 'APPROVED'])
+      .maybeSingle()
+
+    if (openClaim) {
+      throw new ValidationError(
+        'There is already an open claim for this order',
+        'CLAIM_ALREADY_OPEN'
+      )
+    }
+
+    const { data: claim, error: insertError } = await db
+      .from('claims')
+      .insert({
+        order_id: orderId,
+        user_id: user.id,
+        bag_id: input.bag_id || null,
+        type: input.type,
+        description: input.description,
+        requested_cents: input.requested_cents ?? null,
+        evidence_json: input.evidence,
+        status: 'PENDING',
+      })
+      .select()
+      .single()
+
+    if (insertError) throw insertError
+
+    await db.from('order_events').insert({
+      order_id: orderId,
+      actor: user.id,
+      actor_role: 'customer',
+      event_type: 'claim_filed',
+      payload_json: {
+        claim_id: claim.id,
+        type: input.type,
+        requested_cents: input.requested_cents ?? null,
+      },
+    })
+
+    return NextResponse.json({ claim }, { status: 201 })
+  } catch (error) {
+    console.error('Claim creation error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    const apiError = handleApiError(error)
+    return NextResponse.json(
+      { error: apiError.error, code: apiError.code },
+      { status: apiError.statusCode }
+    )
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth'
+import { getServiceClient } from '@/lib/db'
+import { NotFoundError, ForbiddenError, ValidationError, handleApiError } from '@/lib/errors'
+import { buildOrderInvoiceData, generateInvoicePDF, INVOICE_ORDER_FIELDS } from '@/lib/pdf'
+import { shortOrderId } from '@/lib/ids'
+
+/**
+ * GET /api/orders/:id/invoice - Download the order's invoice as a PDF
+ *
+ * Lists the service, tax and delivery, with any tip as a separate untaxed
+ * line below the order total.
+ *
+ * Authorization: User must own the order or be an admin
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { id: orderId } = await params
+    const db = getServiceClient()
+
+    const { data: order, error: fetchError } = await db
+      .from('orders')
+      .select(INVOICE_ORDER_FIELDS)
+      .eq('id', orderId)
+      .single()
+
+    if (fetchError || !order) {
+      throw new NotFoundError('Order not found')
+    }
+
+    if (order.user_id !== user.id && user.role !== 'admin') {
+      throw new ForbiddenError()
+    }
+
+    if (!order.paid_at) {
+      throw new ValidationError('An invoice is available once the order is paid', 'INVOICE_NOT_READY')
+    }
+
+    const pdf = await generateInvoicePDF(await buildOrderInvoiceData(db, order))
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="tidyhood-invoice-${shortOrderId(order.id)}.pdf"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    const apiError = handleApiError(error)
+    return NextResponse.json(
+      { error: apiError.error, code: apiError.code },
+      { status: apiError.statusCode }
+    )
+  }
+}
@@ -5,6 +5,7 @@ import { getServiceClient } from '@/lib/db'
 import { canTransition, validateTransition } from '@/lib/orderStateMachine'
 import { NotFoundError, ConflictError, ValidationError, handleApiError } from '@/lib/errors'
 import { logger } from '@/lib/logger'
+import { getOrderTaxRate } from '@/lib/pricing'
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2023-10-16',
@@ -171,7 +172,7 @@ export async function POST(
       tax_breakdown_json: {
         taxable_subtotal_cents: order.tax_cents > 0 ? Math.round(order.subtotal_cents * 0.9) : 0,
         tax_exempt_subtotal_cents: order.tax_cents === 0 ? order.subtotal_cents : Math.round(order.subtotal_cents * 0.1),
-        tax_rate: 0.08875,
+        tax_rate: await getOrderTaxRate(order, db),
       },
     })
     
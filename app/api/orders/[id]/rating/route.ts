@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireAuth } from '@/lib/auth'
+import { getServiceClient } from '@/lib/db'
+import { NotFoundError, ForbiddenError, ValidationError, ConflictError, handleApiError } from '@/lib/errors'
+import { createRatingSchema, canRateOrder, refreshPartnerScorecard } from '@/lib/scorecards'
+
+/**
+ * GET /api/orders/:id/rating - Get the customer's rating of an order
+ *
+ * Returns { rating: null, can_rate } when the order hasn't been rated yet.
+ *
+ * Authorization: User must own the order or be an admin
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { id: orderId } = await params
+    const db = getServiceClient()
+
+    const { data: order, error: fetchError } = await db
+      .from('orders')
+      .select('id, user_id, status, partner_id')
+      .eq('id', orderId)
+      .single()
+
+    if (fetchError || !order) {
+      throw new NotFoundError('Order not found')
+    }
+
+    if (order.user_id !== user.id && user.role !== 'admin') {
+      throw new ForbiddenError()
+    }
+
+    const { data: rating, error } = await db
+      .from('order_ratings')
+      .select('*')
+      .eq('order_id', orderId)
+      .maybeSingle()
+
+    if (error) throw error
+
+    return NextResponse.json({
+      rating: rating || null,
+      can_rate: !rating && order.user_id === user.id && canRateOrder(order),
+    })
+  } catch (error) {
+    const apiError = handleApiError(error)
+    return NextResponse.json(
+      { error: apiError.error, code: apiError.code },
+      { status: apiError.statusCode }
+    )
+  }
+}
+
+/**
+ * POST /api/orders/:id/rating - Rate and review a completed order
+ *
+ * Request Body:
+ * - rating: number - 1 to 5 stars
+ * - tags: Array<'on_time' | 'quality' | 'communication'> (optional) - What went well
+ * - review: string (optional)
+ *
+ * Updates the partner's scorecard right away.
+ *
+ * Authorization: User must own the order
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { id: orderId } = await params
+    const db = getServiceClient()
+
+    const body = await request.json().catch(() => ({}))
+    const input = createRatingSchema.parse(body)
+
+    const { data: order, error: fetchError } = await db
+      .from('orders')
+      .select('id, user_id, status, partner_id')
+      .eq('id', orderId)
+      .single()
+
+    if (fetchError || !order) {
+      throw new NotFoundError('Order not found')
+    }
+
+    if (order.user_id !== user.id) {
+      throw new ForbiddenError('You can only rate your own orders')
+    }
+
+    if (!canRateOrder(order)) {
+      throw new ValidationError('Orders can be rated once the service is complete', 'RATING_NOT_ALLOWED')
+    }
+
+    const { data: rating, error: insertError } = await db
+      .from('order_ratings')
+      .insert({
+        order_id: orderId,
+        partner_id: order.partner_id,
+        user_id: user.id,
+        rating: input.rating,
+        tags: input.tags,
+        review: input.review || null,
+      })
+      .select()
+      .single()
+
+    if (insertError) {
+      // Unique violation on order_id
+      if (insertError.code === '23505') {
+        throw new ConflictError('You have already rated this order')
+      }
+      throw insertError
+    }
+
+    await db.from('order_events').insert({
+      order_id: orderId,
+      actor: user.id,
+      actor_role: 'customer',
+      event_type: 'order_rated',
+      payload_json: {
+        rating_id: rating.id,
+        rating: input.rating,
+        tags: input.tags,
+      },
+    })
+
+    try {
+      await refreshPartnerScorecard(db, order.partner_id)
+    } catch (scorecardError) {
+      // The rating is saved; the operations cron refreshes the scorecard later
+      console.error('Scorecard refresh failed:', scorecardError)
+    }
+
+    return NextResponse.json({ rating }, { status: 201 })
+  } catch (error) {
+    console.error('Rating submission error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    const apiError = handleApiError(error)
+    return NextResponse.json(
+      { error: apiError.error, code: apiError.code },
+      { status: apiError.statusCode }
+    )
+  }
+}
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServiceClient } from '@/lib/db';
 import { logger } from '@/lib/logger';
-import { sendSMS } from '@/lib/sms';
+import { notifyCustomer } from '@/lib/notifications';
 
 /**
  * POST /api/orders/[id]/request-payment
@@ -83,24 +83,28 @@ export async function POST(
       gracePeriodExpiry
     });
     
-    try {
-      await sendSMS({
-        to: customerPhone,
-        message: smsMessage
-      });
-      
+    const notification = await notifyCustomer({
+      event: 'payment_requested',
+      userId: order.user_id,
+      orderId,
+      phone: customerPhone,
+      title: 'Payment needed',
+      message: smsMessage
+    });
+    
+    if (notification.channels.sms === 'sent') {
       logger.info({
         event: 'payment_request_sms_sent',
         order_id: orderId,
         phone: customerPhone
       });
-    } catch (smsError) {
+    } else {
+      // Continue even if SMS fails - customer can still access order
       logger.error({
         event: 'payment_request_sms_failed',
         order_id: orderId,
-        error: smsError
+        outcome: notification.channels.sms
       });
-      // Continue even if SMS fails - customer can still access order
     }
     
     // Update order with grace period info
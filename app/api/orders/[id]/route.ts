@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { requireAuth } from '@/lib/auth'
 import { getServiceClient } from '@/lib/db'
 import { NotFoundError, ForbiddenError, handleApiError } from '@/lib/errors'
+import { getOrderTaxRate } from '@/lib/pricing'
 
 export async function GET(
   request: NextRequest,
@@ -19,7 +20,7 @@ export async function GET(
         *,
         partner:partners(name, contact_phone),
         customer:profiles!orders_user_id_fkey(phone),
-        bags(*),
+        bags(*, bag_scan_events(event, weight_lbs, scanned_at)),
         cleaning_checklist(*)
       `)
       .eq('id', orderId)
@@ -47,6 +48,8 @@ export async function GET(
     
     return NextResponse.json({
       ...order,
+      // Rate of the pricing version the order was quoted under, for its tax line
+      tax_rate: order.tax_cents > 0 ? await getOrderTaxRate(order, db) : null,
       events: events || [],
     })
   } catch (error) {
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireAuth } from '@/lib/auth'
+import { getServiceClient } from '@/lib/db'
+import { NotFoundError, ForbiddenError, handleApiError } from '@/lib/errors'
+import { createTipSchema, chargeTip, canTipOrder, getDeliveredAt, getOrderTip, getTipPresets } from '@/lib/tips'
+
+const TIPPABLE_ORDER_FIELDS =
+  'id, user_id, partner_id, status, quote_cents, total_cents, tax_cents, saved_payment_method_id, stripe_customer_id, completed_at'
+
+/**
+ * GET /api/orders/:id/tip - Get the order's tip and the preset amounts
+ *
+ * Returns { tip, can_tip, presets } where presets are the preset
+ * percentages applied to the pre-tax order price.
+ *
+ * Authorization: User must own the order or be an admin
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { id: orderId } = await params
+    const db = getServiceClient()
+
+    const { data: order, error: fetchError } = await db
+      .from('orders')
+      .select(TIPPABLE_ORDER_FIELDS)
+      .eq('id', orderId)
+      .single()
+
+    if (fetchError || !order) {
+      throw new NotFoundError('Order not found')
+    }
+
+    if (order.user_id !== user.id && user.role !== 'admin') {
+      throw new ForbiddenError()
+    }
+
+    const tip = await getOrderTip(db, orderId)
+    const deliveredAt = order.completed_at ? null : await getDeliveredAt(db, orderId)
+
+    return NextResponse.json({
+      tip,
+      // A pending tip whose charge wasn't confirmed can be retried
+      can_tip: (!tip || tip.status === 'pending') && order.user_id === user.id && canTipOrder({ ...order, delivered_at: deliveredAt }),
+      presets: getTipPresets(order),
+    })
+  } catch (error) {
+    const apiError = handleApiError(error)
+    return NextResponse.json(
+      { error: apiError.error, code: apiError.code },
+      { status: apiError.statusCode }
+    )
+  }
+}
+
+/**
+ * POST /api/orders/:id/tip - Tip the partner after completion
+ *
+ * Request Body (one of percent or amount_cents):
+ * - percent: number - Percentage of the pre-tax order price
+ * - amount_cents: number - Custom amount
+ * - source: 'order_page' | 'rating' (optional)
+ *
+ * Charges the order's saved payment method off-session. The tip is not
+ * taxed and goes to the partner in full.
+ *
+ * Authorization: User must own the order
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { id: orderId } = await params
+    const db = getServiceClient()
+
+    const body = await request.json().catch(() => ({}))
+    const input = createTipSchema.parse(body)
+
+    const { data: order, error: fetchError } = await db
+      .from('orders')
+      .select(TIPPABLE_ORDER_FIELDS)
+      .eq('id', orderId)
+      .single()
+
+    if (fetchError || !order) {
+      throw new NotFoundError('Order not found')
+    }
+
+    if (order.user_id !== user.id) {
+      throw new ForbiddenError('You can only tip on your own orders')
+    }
+
+    const deliveredAt = order.completed_at ? null : await getDeliveredAt(db, orderId)
+    const tip = await chargeTip(db, { ...order, delivered_at: deliveredAt }, input, user.id)
+
+    return NextResponse.json({ tip }, { status: 201 })
+  } catch (error) {
+    console.error('Tip charge error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    const apiError = handleApiError(error)
+    return NextResponse.json(
+      { error: apiError.error, code: apiError.code },
+      { status: apiError.statusCode }
+    )
+  }
+}
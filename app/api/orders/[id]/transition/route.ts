@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth';
 import { getServiceClient } from '@/lib/db';
 import { logger } from '@/lib/logger';
+import { processOutbox } from '@/lib/outbox';
 import type { TransitionRequest, TransitionResponse } from '@/types/cleaningOrders';
 
 /**
@@ -12,7 +13,8 @@ import type { TransitionRequest, TransitionResponse } from '@/types/cleaningOrde
  * service-aware validation and audit logging.
  * 
  * Authorization: Validates session and derives actor role
- * Side effects: May trigger notifications, webhooks, analytics events
+ * Side effects: Partner/customer notifications, admin alerts and dispute
+ * refunds, delivered through the domain event outbox (lib/outbox)
  */
 export async function POST(
   req: NextRequest,
@@ -131,7 +133,12 @@ export async function POST(
 }
 
 /**
- * Trigger service-specific side effects after successful transition
+ * Trigger side effects after a successful transition
+ *
+ * The transition already enqueued its domain event in the same transaction
+ * (see lib/outbox). Deliver this order's pending events now so customers
+ * hear back right away; anything that fails here is retried by the outbox
+ * cron.
  */
 async function triggerSideEffects(
   serviceType: string,
@@ -141,51 +148,8 @@ async function triggerSideEffects(
   supabase: any
 ) {
   try {
-    if (serviceType === 'CLEANING') {
-      switch (action) {
-        case 'assign':
-          // Notify partner of assignment
-          // TODO: Send SMS/email to partner
-          logger.info({ event: 'side_effect', action: 'assign', order_id: order.id, partner_id: order.partner_id }, 'Notify partner of assignment');
-          break;
-
-        case 'en_route':
-          // Notify customer that partner is on the way
-          // TODO: Send SMS to customer
-          logger.info({ event: 'side_effect', action: 'en_route', order_id: order.id, user_id: order.user_id }, 'Notify customer - partner en route');
-          break;
-
-        case 'complete':
-          // Send rating/tip request
-          // TODO: Schedule rating reminder
-          logger.info({ event: 'side_effect', action: 'complete', order_id: order.id }, 'Schedule rating request');
-          break;
-
-        case 'open_dispute':
-          // Alert admin team
-          // TODO: Create admin notification
-          logger.info({ event: 'side_effect', action: 'open_dispute', order_id: order.id }, 'Alert admin team - dispute opened');
-          break;
-
-        case 'resolve_dispute_refund':
-          // Process refund via Stripe
-          // TODO: Call Stripe refund API
-          logger.info({ event: 'side_effect', action: 'resolve_dispute_refund', order_id: order.id }, 'Process refund');
-          break;
-      }
-    } else if (serviceType === 'LAUNDRY') {
-      switch (action) {
-        case 'send_quote':
-          // Send quote notification to customer
-          logger.info({ event: 'side_effect', action: 'send_quote', order_id: order.id }, 'Send quote notification');
-          break;
-
-        case 'mark_delivered':
-          // Send rating request
-          logger.info({ event: 'side_effect', action: 'mark_delivered', order_id: order.id }, 'Send rating request');
-          break;
-      }
-    }
+    const outbox = await processOutbox(supabase, { orderId: order.id });
+    logger.info({ event: 'side_effect', action, order_id: order.id, ...outbox }, 'Delivered transition side effects');
 
     // Log to analytics (PostHog, Amplitude, etc.)
     // TODO: Integrate analytics
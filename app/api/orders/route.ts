@@ -3,11 +3,20 @@ import { z } from 'zod'
 import { requireAuth } from '@/lib/auth'
 import { getServiceClient } from '@/lib/db'
 import { quoteLaundry, quoteCleaning } from '@/lib/pricing'
-import { reserveCapacity, calculateCleaningMinutes, validateZipCode } from '@/lib/capacity'
+import { validateZipCode } from '@/lib/capacity'
+import { BOOKING_CAPACITY_UNITS, convertCapacityHold, releaseCapacityHold } from '@/lib/capacity-holds'
+import { getBookingCapability, holdAssignedSlot, reuseAssignedHold, recordSlotAssignment } from '@/lib/slot-assignment'
 import { generateLabelCode } from '@/lib/ids'
-import { sendOrderCreatedSMS } from '@/lib/sms'
-import { ValidationError, ConflictError, handleApiError } from '@/lib/errors'
+import { formatOrderCreatedMessage } from '@/lib/sms'
+import { notifyCustomer } from '@/lib/notifications'
+import { ValidationError, handleApiError } from '@/lib/errors'
+import { findBuildingForAddress, recordBuildingResident } from '@/lib/buildings'
+import { validatePromoCode, getPromoDiscountCents, recordPromoRedemption, type PromoCode } from '@/lib/promos'
+import { getCustomerPlan } from '@/lib/recurring'
+import { buildCleaningChecklist } from '@/lib/cleaningStatus'
 import { logger } from '@/lib/logger'
+import { rateLimit } from '@/lib/rate-limit'
+import { rateLimitError, getCorrelationId } from '@/lib/api-response'
 
 // Force dynamic rendering (uses cookies for auth)
 export const dynamic = 'force-dynamic'
@@ -172,10 +181,11 @@ const createOrderSchema = z.object({
   service_type: z.enum(['LAUNDRY', 'CLEANING']),
   phone: z.string().optional(),
   slot: z.object({
-    partner_id: z.string().uuid(),
+    partner_id: z.string().uuid().optional(), // Ignored: the partner is assigned server-side
     slot_start: z.string(),
     slot_end: z.string(),
   }),
+  hold_id: z.string().uuid().optional(), // Hold placed when the slot was picked (POST /api/slots/hold)
   delivery_slot: z.object({
     slot_start: z.string(),
     slot_end: z.string(),
@@ -194,9 +204,12 @@ const createOrderSchema = z.object({
     lbs: z.number().optional(),
     bedrooms: z.number().optional(),
     bathrooms: z.number().optional(),
+    cleaningType: z.enum(['standard', 'deep', 'moveOut']).optional(), // For CLEANING orders
     deep: z.boolean().optional(),
     addons: z.array(z.string()).optional(),
   }),
+  promo_code: z.string().max(32).optional(),
+  subscription_id: z.string().uuid().optional(), // Recurring plan this visit starts
 })
 
 export async function POST(request: NextRequest) {
@@ -227,15 +240,41 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(existingOrder)
     }
     
+    // Idempotent replays above don't count against the limit
+    const limit = await rateLimit('orders.create', user.id)
+    if (!limit.allowed) {
+      return rateLimitError(limit.retryAfterSeconds, getCorrelationId(request))
+    }
+    
     // Validate ZIP code
     if (!validateZipCode(params.address.zip)) {
       throw new ValidationError('Service not available in this area')
     }
     
+    // Match the address to a partner building (drives building pricing terms)
+    const building = await findBuildingForAddress(params.address)
+    
+    let promo: PromoCode | null = null
+    if (params.promo_code?.trim()) {
+      const validation = await validatePromoCode(params.promo_code, {
+        serviceType: params.service_type,
+        zip: params.address.zip,
+        userId: user.id,
+      })
+      if (!validation.valid) {
+        throw new ValidationError(validation.message, 'INVALID_PROMO_CODE')
+      }
+      promo = validation.promo
+    }
+    
+    // Only link plans the customer owns (the recurring cron books follow-up visits from it)
+    const plan = params.subscription_id
+      ? await getCustomerPlan(db, params.subscription_id, user.id)
+      : null
+    
     // Calculate pricing
     logger.info({ event: 'order_create_pricing' }, '[POST /api/orders] Calculating pricing')
     let pricing
-    let units = 1 // For laundry, 1 order = 1 unit
     
     if (params.service_type === 'LAUNDRY') {
       // CRITICAL: New laundry orders should NEVER use this endpoint
@@ -264,6 +303,8 @@ export async function POST(request: NextRequest) {
         zip: params.address.zip,
         lbs: params.details.lbs || 0, // 0 for dry clean only orders
         addons: params.details.addons,
+        buildingId: building?.id,
+        promo,
       })
     } else {
       if (params.details.bedrooms === undefined || !params.details.bathrooms) {
@@ -275,33 +316,43 @@ export async function POST(request: NextRequest) {
         bathrooms: params.details.bathrooms,
         deep: params.details.deep,
         addons: params.details.addons,
+        buildingId: building?.id,
+        promo,
       })
-      units = calculateCleaningMinutes(
-        params.details.bedrooms,
-        params.details.bathrooms,
-        params.details.deep || false,
-        params.details.addons || []
-      )
     }
     
-    // Reserve capacity
+    // Hold the slot: the customer's own hold from slot selection, else assign
+    // a partner (see lib/slot-assignment) and hold its slot, like the payment saga
     logger.info({
-      event: 'order_create_reserve_capacity',
-      partner_id: params.slot.partner_id,
+      event: 'order_create_hold_capacity',
       service_type: params.service_type,
       slot_start: params.slot.slot_start,
-      units
-    }, '[POST /api/orders] Reserving capacity')
-    const reserved = await reserveCapacity(
-      params.slot.partner_id,
-      params.service_type,
-      params.slot.slot_start,
-      units
+      hold_id: params.hold_id
+    }, '[POST /api/orders] Holding capacity')
+    const { hold, assignment } = params.hold_id
+      ? await reuseAssignedHold(db, params.hold_id, {
+          userId: user.id,
+          serviceType: params.service_type,
+          slotStart: params.slot.slot_start,
+        })
+      : await holdAssignedSlot(db, {
+          serviceType: params.service_type,
+          zip: params.address.zip,
+          slotStart: params.slot.slot_start,
+          capability: getBookingCapability(params.service_type, params.details.serviceType, params.details.cleaningType),
+          location: null,
+          units: BOOKING_CAPACITY_UNITS,
+          userId: user.id,
+        })
+    logger.info(
+      { event: 'order_create_capacity_held', hold_id: hold.id, partner_id: hold.partner_id },
+      '[POST /api/orders] Capacity held'
     )
-    logger.info({ event: 'order_create_capacity_reserved', reserved }, '[POST /api/orders] Capacity reserved')
     
-    if (!reserved) {
-      throw new ConflictError('Selected time slot is no longer available', 'SLOT_FULL')
+    // Only a hold placed here is released if the order can't be created; a
+    // customer's own hold stays theirs until it expires
+    const releasePlacedHold = async () => {
+      if (!params.hold_id) await releaseCapacityHold(db, hold.id)
     }
     
     // Fetch user profile to get stripe_customer_id
@@ -322,7 +373,11 @@ export async function POST(request: NextRequest) {
     const orderData: any = {
         user_id: user.id,
         service_type: params.service_type,
-        partner_id: params.slot.partner_id,
+        partner_id: hold.partner_id,
+        building_id: building?.id || null,
+        promo_code_id: promo?.id || null,
+        subscription_id: plan?.id || null,
+        pricing_version_id: pricing.pricing_version_id || null,
         slot_start: params.slot.slot_start,
         slot_end: params.slot.slot_end,
         delivery_slot_start: params.delivery_slot?.slot_start || null,
@@ -351,7 +406,7 @@ export async function POST(request: NextRequest) {
       event: 'order_create_data',
       user_id: user.id,
       service_type: params.service_type,
-      partner_id: params.slot.partner_id,
+      partner_id: hold.partner_id,
       status: initialStatus,
       total_cents: pricing.total_cents
     }, '[POST /api/orders] Order data prepared')
@@ -364,10 +419,45 @@ export async function POST(request: NextRequest) {
     
     if (orderError) {
       console.error('[POST /api/orders] Database error creating order:', orderError)
+      await releasePlacedHold()
       throw orderError
     }
     logger.info({ event: 'order_created', order_id: order.id }, '[POST /api/orders] Order created successfully')
     
+    // The hold becomes the order's reservation
+    try {
+      await convertCapacityHold(db, hold.id, order.id)
+    } catch (convertError) {
+      await db.from('orders').delete().eq('id', order.id)
+      await releasePlacedHold()
+      throw convertError
+    }
+    
+    
+    if (promo) {
+      try {
+        await recordPromoRedemption({
+          promoCodeId: promo.id,
+          orderId: order.id,
+          userId: user.id,
+          discountCents: getPromoDiscountCents(pricing),
+        })
+      } catch (redemptionError) {
+        // The discount is priced into the order, so it cannot stand without the redemption
+        await db.from('orders').delete().eq('id', order.id)
+        await releaseCapacityHold(db, hold.id, ['held', 'converted'])
+        throw redemptionError
+      }
+    }
+    
+    if (assignment) {
+      await recordSlotAssignment(db, order.id, assignment)
+    }
+    
+    if (building) {
+      await recordBuildingResident(building.id, user.id)
+    }
+    
     // Create order event
     await db.from('order_events').insert({
       order_id: order.id,
@@ -410,31 +500,18 @@ export async function POST(request: NextRequest) {
     
     // Create cleaning checklist
     if (params.service_type === 'CLEANING') {
-      const rooms = ['Kitchen', 'Bathroom', 'Living Room']
-      if (params.details.bedrooms && params.details.bedrooms > 0) {
-        for (let i = 1; i <= params.details.bedrooms; i++) {
-          rooms.push(`Bedroom ${i}`)
-        }
-      }
-      
-      const checklists = rooms.map(room => ({
-        order_id: order.id,
-        room,
-        tasks_json: getDefaultRoomTasks(room),
-      }))
-      
-      await db.from('cleaning_checklist').insert(checklists)
+      await db.from('cleaning_checklist').insert(buildCleaningChecklist(order.id, params.details.bedrooms))
     }
     
-    // Send SMS notification
-    if (user.phone) {
-      await sendOrderCreatedSMS(
-        user.phone,
-        order.id,
-        params.service_type,
-        params.slot.slot_start
-      )
-    }
+    // Notify the customer (respects their notification preferences)
+    await notifyCustomer({
+      event: 'order_confirmed',
+      userId: user.id,
+      orderId: order.id,
+      phone: user.phone,
+      title: 'Booking confirmed',
+      message: formatOrderCreatedMessage(order.id, params.service_type, params.slot.slot_start),
+    })
     
     logger.info({ event: 'order_create_complete', order_id: order.id }, '[POST /api/orders] Order creation complete')
     return NextResponse.json(order, { status: 201 })
@@ -454,17 +531,3 @@ export async function POST(request: NextRequest) {
     )
   }
 }
-
-function getDefaultRoomTasks(room: string): string[] {
-  const tasks: Record<string, string[]> = {
-    'Kitchen': ['Wipe counters', 'Clean sink', 'Clean stovetop', 'Sweep/mop floor', 'Take out trash'],
-    'Bathroom': ['Clean toilet', 'Clean sink', 'Clean shower/tub', 'Wipe mirrors', 'Sweep/mop floor'],
-    'Living Room': ['Dust surfaces', 'Vacuum/sweep floor', 'Wipe down furniture', 'Empty trash'],
-  }
-  
-  if (room.startsWith('Bedroom')) {
-    return ['Change linens', 'Dust surfaces', 'Vacuum/sweep floor', 'Wipe down furniture', 'Empty trash']
-  }
-  
-  return tasks[room] || ['Clean and organize']
-}
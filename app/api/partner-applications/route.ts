@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getServiceClient } from '@/lib/db'
+import { rateLimit, getClientIp } from '@/lib/rate-limit'
+import { rateLimitError, getCorrelationId } from '@/lib/api-response'
+import {
+  partnerApplicationSchema,
+  normalizeCapabilities,
+  normalizeServiceAreas,
+  canResubmitApplication,
+  type PartnerApplicationStatus,
+} from '@/lib/partner-applications'
+
+/**
+ * POST /api/partner-applications - Submit a partner application
+ *
+ * Body:
+ * - business_name, contact_name, contact_email, contact_phone: string (required)
+ * - service_type: 'LAUNDRY' | 'CLEANING' (required)
+ * - address: string, zip: string (required)
+ * - capabilities: Record<capability, boolean> - At least one for the service type
+ * - service_areas: string[] (optional) - ZIPs served; defaults to the business ZIP
+ * - description: string (optional)
+ *
+ * Resubmitting with the same email updates an application that is waiting on
+ * the applicant (info_requested) and puts it back in the queue. Any other
+ * existing application for the email is a 409.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Check rate limit (5 submissions per hour per IP)
+    const limit = await rateLimit('partner.apply', getClientIp(request))
+    if (!limit.allowed) {
+      return rateLimitError(
+        limit.retryAfterSeconds,
+        getCorrelationId(request),
+        'Too many submissions. Please try again later.'
+      )
+    }
+
+    const body = await request.json()
+
+    // Honeypot field (bot protection)
+    if (body?.honeypot) {
+      return NextResponse.json({ success: true }) // Fake success for bots
+    }
+
+    const input = partnerApplicationSchema.parse(body)
+
+    const applicationData = {
+      business_name: input.business_name,
+      contact_name: input.contact_name,
+      contact_email: input.contact_email,
+      contact_phone: input.contact_phone,
+      service_type: input.service_type,
+      address: input.address,
+      zip: input.zip,
+      capabilities: normalizeCapabilities(input.service_type, input.capabilities),
+      service_areas: normalizeServiceAreas(input.service_areas, input.zip),
+      description: input.description || null,
+    }
+
+    const db = getServiceClient()
+
+    const { data: existing } = await db
+      .from('partner_applications')
+      .select('id, status')
+      .eq('contact_email', input.contact_email)
+      .maybeSingle()
+
+    if (existing) {
+      const status = existing.status as PartnerApplicationStatus
+      if (!canResubmitApplication(status)) {
+        return NextResponse.json(
+          {
+            error: status === 'approved'
+              ? 'This email already belongs to a Tidyhood partner. Sign in to the partner portal instead.'
+              : 'An application for this email is already on file. We will be in touch by email.',
+          },
+          { status: 409 }
+        )
+      }
+
+      const { data: application, error } = await db
+        .from('partner_applications')
+        .update({
+          ...applicationData,
+          status: 'pending',
+          submitted_at: new Date().toISOString(),
+        })
+        .eq('id', existing.id)
+        .eq('status', status) // Guard against a concurrent admin decision
+        .select('id, status')
+        .single()
+
+      if (error || !application) {
+        return NextResponse.json(
+          { error: 'Your application was just updated. Please refresh and try again.' },
+          { status: 409 }
+        )
+      }
+
+      return NextResponse.json({ success: true, application, resubmitted: true })
+    }
+
+    const { data: application, error } = await db
+      .from('partner_applications')
+      .insert({ ...applicationData, status: 'pending' })
+      .select('id, status')
+      .single()
+
+    if (error) {
+      // Unique violation on contact_email: a concurrent submission won
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: 'An application for this email is already on file. We will be in touch by email.' },
+          { status: 409 }
+        )
+      }
+      throw error
+    }
+
+    return NextResponse.json({ success: true, application }, { status: 201 })
+  } catch (error) {
+    console.error('Partner application error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: error.errors[0]?.message || 'Invalid application', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to submit application. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth';
+import { getServiceClient } from '@/lib/db';
+import { handleApiError } from '@/lib/errors';
+import { bagScanSchema, recordBagScan } from '@/lib/bags';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/partner/bags/scan - Record a bag label scan
+ *
+ * Request Body:
+ * - label_code: string - Code from the bag's QR label (e.g. TH-7KX2QM)
+ * - event: 'picked_up' | 'at_facility' | 'weighed' | 'packed' | 'delivered'
+ * - weight_lbs: number - Required for 'weighed'
+ *
+ * Authorization: Partner assigned to the bag's order, or admin
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth();
+    const db = getServiceClient();
+
+    if (user.role !== 'partner' && user.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Unauthorized - Partner access required' },
+        { status: 403 }
+      );
+    }
+
+    const input = bagScanSchema.parse(await request.json());
+
+    let partnerId: string | null = null;
+    if (user.role === 'partner') {
+      const { data: partner } = await db
+        .from('partners')
+        .select('id')
+        .or(`contact_email.eq.${user.email},profile_id.eq.${user.id}`)
+        .single();
+
+      partnerId = partner?.id || null;
+    }
+
+    const { bag, scan } = await recordBagScan(db, input, {
+      userId: user.id,
+      role: user.role,
+      partnerId,
+    });
+
+    return NextResponse.json({ bag, scan });
+  } catch (error) {
+    console.error('Bag scan error:', error);
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    const apiError = handleApiError(error);
+    return NextResponse.json(
+      { error: apiError.error, code: apiError.code },
+      { status: apiError.statusCode }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { NextResponse } from 'next/server';
+import { getCurrentUser } from '@/lib/auth';
+import { getServiceClient } from '@/lib/db';
+import {
+  PAYABLE_ORDER_STATUSES,
+  calculatePayout,
+  normalizePayoutPercent,
+} from '@/lib/payouts';
+
+/**
+ * GET /api/partner/earnings - Read-only payout history for the signed-in partner
+ *
+ * Returns settled payouts (newest first) plus an estimate for completed
+ * orders and tips that have not been settled yet.
+ */
+export async function GET() {
+  try {
+    const user = await getCurrentUser();
+
+    if (!user || user.role !== 'partner') {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const db = getServiceClient();
+
+    const { data: partner } = await db
+      .from('partners')
+      .select('id, name, payout_percent')
+      .or(`profile_id.eq.${user.id},contact_email.eq.${user.email}`)
+      .single();
+
+    if (!partner) {
+      return NextResponse.json(
+        { error: 'Partner not found' },
+        { status: 404 }
+      );
+    }
+
+    const [payoutsResult, unsettledResult, tipsResult] = await Promise.all([
+      db
+        .from('payouts')
+        .select(`
+          id,
+          period_start,
+          period_end,
+          order_count,
+          revenue_cents,
+          payout_percent,
+          gross_cents,
+          refunds_cents,
+          claims_cents,
+          tips_cents,
+          adjustments_cents,
+          net_cents,
+          status,
+          paid_at,
+          payout_reference
+        `)
+        .eq('partner_id', partner.id)
+        .neq('status', 'CANCELED')
+        .order('period_start', { ascending: false })
+        .limit(26),
+
+      db
+        .from('orders')
+        .select('id, quote_cents, total_cents, tax_cents, completed_at, updated_at')
+        .eq('partner_id', partner.id)
+        .in('status', [...PAYABLE_ORDER_STATUSES])
+        .is('payout_id', null),
+
+      db
+        .from('order_tips')
+        .select('id, amount_cents')
+        .eq('partner_id', partner.id)
+        .eq('status', 'succeeded')
+        .is('payout_id', null),
+    ]);
+
+    if (payoutsResult.error) throw payoutsResult.error;
+    if (unsettledResult.error) throw unsettledResult.error;
+    if (tipsResult.error) throw tipsResult.error;
+
+    const payoutPercent = normalizePayoutPercent(partner.payout_percent);
+    const pending = calculatePayout({
+      orders: unsettledResult.data || [],
+      refunds: [],
+      tips: tipsResult.data || [],
+      payoutPercent,
+    });
+
+    return NextResponse.json({
+      payout_percent: payoutPercent,
+      pending: {
+        order_count: pending.order_count,
+        estimated_cents: pending.net_cents,
+        tips_cents: pending.tips_cents,
+      },
+      payouts: payoutsResult.data || [],
+    });
+  } catch (error) {
+    console.error('Partner earnings error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load earnings' },
+      { status: 500 }
+    );
+  }
+}
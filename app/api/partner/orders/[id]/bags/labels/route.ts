@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { getServiceClient } from '@/lib/db';
+import { handleApiError } from '@/lib/errors';
+import { generateBagLabelsPDF } from '@/lib/pdf';
+import { shortOrderId } from '@/lib/ids';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/partner/orders/[id]/bags/labels - Printable QR labels for the order's bags
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const db = getServiceClient();
+
+    if (user.role !== 'partner' && user.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Unauthorized - Partner access required' },
+        { status: 403 }
+      );
+    }
+
+    const { id: orderId } = await params;
+
+    const { data: order } = await db
+      .from('orders')
+      .select('id, partner_id, address_snapshot, profiles!orders_user_id_fkey(full_name)')
+      .eq('id', orderId)
+      .single();
+
+    if (!order) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+
+    if (user.role === 'partner') {
+      const { data: partner } = await db
+        .from('partners')
+        .select('id')
+        .or(`contact_email.eq.${user.email},profile_id.eq.${user.id}`)
+        .single();
+
+      if (!partner || order.partner_id !== partner.id) {
+        return NextResponse.json(
+          { error: 'Order not found or not accessible' },
+          { status: 404 }
+        );
+      }
+    }
+
+    const { data: bags } = await db
+      .from('bags')
+      .select('label_code')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: true });
+
+    if (!bags || bags.length === 0) {
+      return NextResponse.json({ error: 'This order has no bags' }, { status: 404 });
+    }
+
+    const profile = Array.isArray(order.profiles) ? order.profiles[0] : order.profiles;
+    const pdf = await generateBagLabelsPDF(
+      bags.map((bag, index) => ({
+        label_code: bag.label_code,
+        order_number: shortOrderId(order.id),
+        bag_number: index + 1,
+        bag_count: bags.length,
+        customer_name: profile?.full_name || 'Customer',
+        address_line: order.address_snapshot?.line1 || '',
+      }))
+    );
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="tidyhood-bag-labels-${shortOrderId(order.id)}.pdf"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Bag labels error:', error);
+    const apiError = handleApiError(error);
+    return NextResponse.json(
+      { error: apiError.error, code: apiError.code },
+      { status: apiError.statusCode }
+    );
+  }
+}
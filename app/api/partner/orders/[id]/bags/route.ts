@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { getServiceClient } from '@/lib/db';
+import { handleApiError } from '@/lib/errors';
+import { getBagWeightTotal, getOrderBags } from '@/lib/bags';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/partner/orders/[id]/bags - The order's bags with their scans
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const db = getServiceClient();
+
+    if (user.role !== 'partner' && user.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Unauthorized - Partner access required' },
+        { status: 403 }
+      );
+    }
+
+    const { id: orderId } = await params;
+
+    const { data: order } = await db
+      .from('orders')
+      .select('id, partner_id')
+      .eq('id', orderId)
+      .single();
+
+    if (!order) {
+      return NextResponse.json({ error: 'Order not found' }, { status: 404 });
+    }
+
+    if (user.role === 'partner') {
+      const { data: partner } = await db
+        .from('partners')
+        .select('id')
+        .or(`contact_email.eq.${user.email},profile_id.eq.${user.id}`)
+        .single();
+
+      if (!partner || order.partner_id !== partner.id) {
+        return NextResponse.json(
+          { error: 'Order not found or not accessible' },
+          { status: 404 }
+        );
+      }
+    }
+
+    const bags = await getOrderBags(db, orderId);
+
+    // Partially weighed orders have no total yet
+    let totalWeightLbs: number | null = null;
+    try {
+      totalWeightLbs = getBagWeightTotal(bags);
+    } catch {
+      totalWeightLbs = null;
+    }
+
+    return NextResponse.json({ bags, total_weight_lbs: totalWeightLbs });
+  } catch (error) {
+    console.error('Partner bags GET error:', error);
+    const apiError = handleApiError(error);
+    return NextResponse.json(
+      { error: apiError.error, code: apiError.code },
+      { status: apiError.statusCode }
+    );
+  }
+}
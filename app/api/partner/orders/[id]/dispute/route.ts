@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAuth } from '@/lib/auth';
+import { getServiceClient } from '@/lib/db';
+import { handleApiError } from '@/lib/errors';
+import { partnerResponseSchema, recordPartnerResponse } from '@/lib/disputes';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Resolve the partner record for the signed-in partner
+ */
+async function getPartnerId(db: any, user: { id: string; email?: string | null }) {
+  const { data: partner } = await db
+    .from('partners')
+    .select('id')
+    .or(`contact_email.eq.${user.email},profile_id.eq.${user.id}`)
+    .single();
+
+  return partner?.id as string | undefined;
+}
+
+// GET /api/partner/orders/[id]/dispute - The order's open dispute, if any
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const db = getServiceClient();
+
+    if (user.role !== 'partner') {
+      return NextResponse.json(
+        { error: 'Unauthorized - Partner access required' },
+        { status: 403 }
+      );
+    }
+
+    const { id: orderId } = await params;
+    const partnerId = await getPartnerId(db, user);
+
+    if (!partnerId) {
+      return NextResponse.json({ dispute: null });
+    }
+
+    // Partners see the complaint and their own response, not the case notes
+    const { data: dispute } = await db
+      .from('dispute_cases')
+      .select('id, source, status, reason, opened_at, sla_due_at, partner_response, partner_responded_at')
+      .eq('order_id', orderId)
+      .eq('partner_id', partnerId)
+      .eq('status', 'open')
+      .maybeSingle();
+
+    return NextResponse.json({ dispute: dispute || null });
+  } catch (error) {
+    console.error('Partner dispute GET error:', error);
+    const apiError = handleApiError(error);
+    return NextResponse.json(
+      { error: apiError.error },
+      { status: apiError.statusCode }
+    );
+  }
+}
+
+// POST /api/partner/orders/[id]/dispute - Respond to the order's open dispute
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth();
+    const db = getServiceClient();
+
+    if (user.role !== 'partner') {
+      return NextResponse.json(
+        { error: 'Unauthorized - Partner access required' },
+        { status: 403 }
+      );
+    }
+
+    const { id: orderId } = await params;
+    const { response } = partnerResponseSchema.parse(await request.json());
+
+    const partnerId = await getPartnerId(db, user);
+    if (!partnerId) {
+      return NextResponse.json(
+        { error: 'Partner not found' },
+        { status: 404 }
+      );
+    }
+
+    const dispute = await recordPartnerResponse(db, orderId, partnerId, response, user.id);
+
+    return NextResponse.json({
+      dispute: {
+        id: dispute.id,
+        partner_response: dispute.partner_response,
+        partner_responded_at: dispute.partner_responded_at,
+      },
+    });
+  } catch (error) {
+    console.error('Partner dispute POST error:', error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    const apiError = handleApiError(error);
+    return NextResponse.json(
+      { error: apiError.error },
+      { status: apiError.statusCode }
+    );
+  }
+}
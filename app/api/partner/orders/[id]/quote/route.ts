@@ -3,15 +3,26 @@ import { z } from 'zod'
 import { requireAuth } from '@/lib/auth'
 import { getServiceClient } from '@/lib/db'
 import { quoteLaundry } from '@/lib/pricing'
-import { handleApiError } from '@/lib/errors'
+import { getPromoCodeById, getPromoDiscountCents, recordPromoRedemption } from '@/lib/promos'
+import { handleApiError, ValidationError } from '@/lib/errors'
+import { getBagWeightTotal } from '@/lib/bags'
 import { sendSMS } from '@/lib/sms'
 
 const submitQuoteSchema = z.object({
-  actual_weight_lbs: z.number().positive(),
+  // Optional once the order's bags are weighed; their total is used instead
+  actual_weight_lbs: z.number().positive().optional(),
+  // Dry-clean garments itemized at intake (dry clean and mixed orders)
+  garments: z.array(z.object({
+    key: z.string().min(1),
+    quantity: z.number().int().positive()
+  })).optional(),
   notes: z.string().optional()
 })
 
-// POST /api/partner/orders/[id]/quote - Submit weight and quote for laundry order
+// Weights within this much of the bag total count as the same
+const WEIGHT_TOLERANCE_LBS = 0.1
+
+// POST /api/partner/orders/[id]/quote - Submit weight and/or itemized garments and quote for laundry order
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -30,7 +41,7 @@ export async function POST(
     }
     
     const body = await request.json()
-    const { actual_weight_lbs, notes } = submitQuoteSchema.parse(body)
+    const { actual_weight_lbs: enteredWeightLbs, garments = [], notes } = submitQuoteSchema.parse(body)
     
     // Get order with user profile (need stripe_customer_id)
     const { data: order, error: orderError } = await db
@@ -78,19 +89,63 @@ export async function POST(
       }
     }
     
-    // Calculate quote based on actual weight
+    // Wash & fold is priced by weight, dry clean by itemized garment; mixed needs both
+    const serviceType = order.order_details?.serviceType || 'washFold'
+    const pricesByWeight = serviceType !== 'dryClean'
+    const pricesGarments = serviceType === 'dryClean' || serviceType === 'mixed'
+    
+    if (!pricesGarments && garments.length > 0) {
+      throw new ValidationError('Garments can only be itemized on dry clean orders', 'GARMENTS_NOT_ALLOWED')
+    }
+    if (pricesGarments && garments.length === 0) {
+      throw new ValidationError('Itemize the dry clean garments first', 'GARMENTS_REQUIRED')
+    }
+    
+    // Weighed bags are the source of truth for the weight
+    const { data: bags } = await db
+      .from('bags')
+      .select('label_code, weight_lbs')
+      .eq('order_id', orderId)
+    
+    const bagWeightLbs = pricesByWeight ? getBagWeightTotal(bags || []) : null
+    if (
+      bagWeightLbs !== null &&
+      enteredWeightLbs !== undefined &&
+      Math.abs(enteredWeightLbs - bagWeightLbs) > WEIGHT_TOLERANCE_LBS
+    ) {
+      throw new ValidationError(
+        `Weight doesn't match the weighed bags (${bagWeightLbs} lbs)`,
+        'WEIGHT_MISMATCH'
+      )
+    }
+    
+    const actual_weight_lbs = pricesByWeight ? bagWeightLbs ?? enteredWeightLbs : undefined
+    if (pricesByWeight && actual_weight_lbs === undefined) {
+      throw new ValidationError('Enter the weight or weigh each bag first', 'WEIGHT_REQUIRED')
+    }
+    
+    // Calculate quote based on actual weight and garments
     const addons = order.order_details?.addons || []
+    // The order already holds its promo redemption, so limits aren't re-checked
+    const promo = order.promo_code_id ? await getPromoCodeById(order.promo_code_id) : null
     const pricing = await quoteLaundry({
       zip: order.address_snapshot.zip,
-      lbs: actual_weight_lbs,
-      addons
+      lbs: actual_weight_lbs ?? 0,
+      garments,
+      addons,
+      buildingId: order.building_id,
+      promo,
+      // Priced under the version locked at booking; dry-clean orders lock it here
+      pricingVersionId: order.pricing_version_id
     })
     
     // Update order with actual weight and quote - Set pending admin approval
     // CRITICAL: Copy stripe_customer_id from profile to order for auto-charge to work
     const updates = {
-      actual_weight_lbs,
+      actual_weight_lbs: actual_weight_lbs ?? null,
+      ...(pricesGarments && { order_details: { ...order.order_details, garments } }),
       quote_cents: pricing.total_cents,
+      pricing_version_id: pricing.pricing_version_id || order.pricing_version_id,
       quoted_at: new Date().toISOString(),
       status: 'pending_admin_approval',
       pending_admin_approval: true,
@@ -110,6 +165,16 @@ export async function POST(
       throw updateError
     }
     
+    if (promo) {
+      await recordPromoRedemption({
+        promoCodeId: promo.id,
+        orderId,
+        userId: order.user_id,
+        guestEmail: order.guest_email,
+        discountCents: getPromoDiscountCents(pricing)
+      })
+    }
+    
     // Log event
     await db.from('order_events').insert({
       order_id: orderId,
@@ -118,6 +183,10 @@ export async function POST(
       event_type: 'quote_submitted',
       payload_json: {
         actual_weight_lbs,
+        bag_weights: bagWeightLbs !== null
+          ? (bags || []).map((bag) => ({ label_code: bag.label_code, weight_lbs: bag.weight_lbs }))
+          : undefined,
+        garments: pricesGarments ? garments : undefined,
         quote_cents: pricing.total_cents,
         pricing_breakdown: pricing,
         notes
@@ -131,7 +200,8 @@ export async function POST(
       success: true,
       order: updatedOrder,
       quote: {
-        actual_weight_lbs,
+        actual_weight_lbs: actual_weight_lbs ?? null,
+        garments: pricesGarments ? garments : undefined,
         quote_cents: pricing.total_cents,
         subtotal_cents: pricing.subtotal_cents,
         tax_cents: pricing.tax_cents,
@@ -149,7 +219,7 @@ export async function POST(
     
     const apiError = handleApiError(error)
     return NextResponse.json(
-      { error: apiError.error },
+      { error: apiError.error, code: apiError.code },
       { status: apiError.statusCode }
     )
   }
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth } from '@/lib/auth';
 import { getServiceClient } from '@/lib/db';
 import { handleApiError } from '@/lib/errors';
+import { getPricingRules } from '@/lib/pricing';
+import { getLaundryRates, type LaundryRates } from '@/lib/pricing-rules';
 
 export const dynamic = 'force-dynamic';
 
@@ -104,6 +106,18 @@ export async function GET(
       deliverySlot = data;
     }
     
+    // Laundry rates the quote form prices with, from the version the order is locked to
+    let laundryRates: LaundryRates | null = null;
+    if (order.service_type === 'LAUNDRY') {
+      try {
+        const zip = order.address_snapshot?.zip || address?.zip || null;
+        const { rules } = await getPricingRules('LAUNDRY', zip, order.pricing_version_id || undefined);
+        laundryRates = getLaundryRates(rules);
+      } catch (error) {
+        console.error('Partner order detail laundry rates error:', error);
+      }
+    }
+    
     // Build comprehensive response
     return NextResponse.json({
       order: {
@@ -119,7 +133,8 @@ export async function GET(
         address: address || null,
         pickupSlot: pickupSlot || null,
         deliverySlot: deliverySlot || null,
-        history: history || []
+        history: history || [],
+        laundry_rates: laundryRates
       }
     });
   } catch (error) {
@@ -3,7 +3,7 @@ import { z } from 'zod'
 import { requireAuth } from '@/lib/auth'
 import { getServiceClient } from '@/lib/db'
 import { ValidationError, handleApiError } from '@/lib/errors'
-import { sendSMS } from '@/lib/sms'
+import { notifyCustomer, NOTIFICATION_EVENTS, type NotificationEvent } from '@/lib/notifications'
 
 const updateStatusSchema = z.object({
   status: z.enum([
@@ -106,11 +106,8 @@ export async function POST(
       }
     })
     
-    // Send SMS notification to customer
-    const customerPhone = order.profiles?.phone
-    if (customerPhone) {
-      await sendStatusUpdateSMS(customerPhone, status, order.service_type, orderId)
-    }
+    // Notify the customer (respects their notification preferences)
+    await notifyStatusUpdate(order, status, orderId)
     
     // Increment recurring subscription visit counter only when order is truly complete:
     // - LAUNDRY: status = 'delivered' (items returned to customer)
@@ -168,27 +165,45 @@ export async function POST(
   }
 }
 
-// Helper function to send SMS based on status
-async function sendStatusUpdateSMS(phone: string, status: string, serviceType: string, orderId: string) {
+// Order event each customer-facing status maps to
+const STATUS_EVENTS: Record<string, NotificationEvent> = {
+  pending_pickup: 'pickup_scheduled',
+  at_facility: 'items_received',
+  awaiting_payment: 'quote_ready',
+  paid_processing: 'payment_received',
+  in_progress: 'service_in_progress',
+  out_for_delivery: 'out_for_delivery',
+  delivered: 'order_delivered',
+  completed: 'order_completed',
+}
+
+// Helper function to notify the customer based on status
+async function notifyStatusUpdate(order: any, status: string, orderId: string) {
+  const serviceType: string = order.service_type
   const isLaundry = serviceType === 'LAUNDRY'
   const messages: Record<string, string> = {
-    'pending_pickup': `Tidyhood: Your ${serviceType.toLowerCase()} pickup is scheduled! We'll text you when the driver is on the way.`,
-    'at_facility': `Tidyhood: We've received your ${serviceType.toLowerCase()} items! ${isLaundry ? "We'll weigh them and send you a quote shortly." : "Work is in progress."}`,
-    'awaiting_payment': `Tidyhood: Your quote is ready! View and pay: ${process.env.NEXT_PUBLIC_BASE_URL || 'https://tidyhood.vercel.app'}/orders/${orderId}/pay`,
-    'paid_processing': `Tidyhood: Payment received! Your ${serviceType.toLowerCase()} is now being processed.`,
-    'in_progress': `Tidyhood: Your ${serviceType.toLowerCase()} service is now in progress. We'll notify you when complete!`,
-    'out_for_delivery': `Tidyhood: Great news! Your clean laundry is out for delivery and will arrive soon.`,
-    'delivered': `Tidyhood: Your laundry has been delivered! Thank you for choosing Tidyhood.`,
-    'completed': `Tidyhood: Your ${serviceType.toLowerCase()} service is complete! ${isLaundry ? 'Items are ready for pickup/delivery.' : 'Thank you for choosing Tidyhood!'}`
+    'pending_pickup': `Your ${serviceType.toLowerCase()} pickup is scheduled! We'll text you when the driver is on the way.`,
+    'at_facility': `We've received your ${serviceType.toLowerCase()} items! ${isLaundry ? "We'll weigh them and send you a quote shortly." : "Work is in progress."}`,
+    'awaiting_payment': `Your quote is ready! View and pay: ${process.env.NEXT_PUBLIC_BASE_URL || 'https://tidyhood.vercel.app'}/orders/${orderId}/pay`,
+    'paid_processing': `Payment received! Your ${serviceType.toLowerCase()} is now being processed.`,
+    'in_progress': `Your ${serviceType.toLowerCase()} service is now in progress. We'll notify you when complete!`,
+    'out_for_delivery': `Great news! Your clean laundry is out for delivery and will arrive soon.`,
+    'delivered': `Your laundry has been delivered! Thank you for choosing Tidyhood.`,
+    'completed': `Your ${serviceType.toLowerCase()} service is complete! ${isLaundry ? 'Items are ready for pickup/delivery.' : 'Thank you for choosing Tidyhood!'}`
   }
   
+  const event = STATUS_EVENTS[status]
   const message = messages[status]
-  if (message) {
-    try {
-      await sendSMS({ to: phone, message })
-    } catch (error) {
-      console.error('Failed to send status SMS:', error)
-      // Don't throw - SMS failure shouldn't block status update
-    }
+  if (event && message) {
+    // Failures are recorded by the dispatcher and never block the status update
+    await notifyCustomer({
+      event,
+      userId: order.user_id,
+      orderId,
+      phone: order.profiles?.phone || order.guest_phone,
+      email: order.guest_email,
+      title: NOTIFICATION_EVENTS[event].label,
+      message,
+    })
   }
 }
@@ -1,12 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { getSupabaseConfig } from '@/lib/supabase-config';
+import type { PartnerScorecard } from '@/lib/scorecards';
 
 /**
  * GET /api/partners/[id]
  * 
  * Fetch partner information for display in order details
- * Returns: name, photo, rating, review count
+ * Returns: name, photo, rating, review count, on-time rate
+ *
+ * Ratings come from the partner's scorecard (lib/scorecards.ts); rating is
+ * null until the partner's first review.
  * 
  * Public endpoint (no auth required) - only returns public info
  */
@@ -50,10 +54,10 @@ export async function GET(
       );
     }
     
-    // Extract rating from scorecard_json if available
-    const scorecard = partner.scorecard_json || {};
-    const rating = scorecard.rating || 4.5; // Default rating
+    // Only the customer-facing scorecard fields; alerts and dispute metrics stay internal
+    const scorecard: Partial<PartnerScorecard> = partner.scorecard_json || {};
     const review_count = scorecard.review_count || 0;
+    const rating = review_count > 0 ? scorecard.rating ?? null : null;
     
     // Return only public information (with defaults for missing fields)
     // Add cache control headers to prevent stale data
@@ -64,6 +68,8 @@ export async function GET(
         photo_url: null, // Photo feature not yet implemented in DB
         rating: rating,
         review_count: review_count,
+        on_time_rate: scorecard.on_time_rate ?? null,
+        tag_rates: review_count > 0 ? scorecard.tag_rates ?? null : null,
         phone: partner.contact_phone, // Map contact_phone to phone for consistency
       },
       {
@@ -75,7 +75,7 @@ export async function POST(request: NextRequest) {
     const user = await requireAuth();
     
     // Check feature flag
-    if (!canUsePaymentAuthorization(user.id)) {
+    if (!(await canUsePaymentAuthorization(user.id, { role: user.role }))) {
       throw new ValidationError(
         'Payment authorization not available for your account',
         'FEATURE_NOT_ENABLED'
@@ -97,6 +97,7 @@ export async function POST(request: NextRequest) {
     // - wash_fold / mixed: recompute the estimate server-side from weight + addons.
     // - dry_clean: priced after inspection, so cap the authorization at a sanity bound.
     let authorizedAmountCents: number;
+    let pricingVersionId: string | null = null;
     if (params.service_category === 'wash_fold' || params.service_category === 'mixed') {
       const lbs =
         params.details.lbs ??
@@ -110,6 +111,7 @@ export async function POST(request: NextRequest) {
         addons: params.details.addons,
       });
       authorizedAmountCents = quote.total_cents;
+      pricingVersionId = quote.pricing_version_id ?? null;
 
       if (Math.abs(authorizedAmountCents - params.estimated_amount_cents) > 100) {
         logger.warn({
@@ -149,6 +151,7 @@ export async function POST(request: NextRequest) {
       address: params.address,
       phone: params.phone,
       details: params.details,
+      pricing_version_id: pricingVersionId,
     });
     
     // Check if 3D Secure is required
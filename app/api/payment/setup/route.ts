@@ -7,6 +7,14 @@ import { canUsePaymentAuthorization } from '@/lib/feature-flags';
 import { executePaymentAuthorizationSaga } from '@/lib/payment-saga';
 import { logPaymentError, createErrorResponse } from '@/lib/payment-errors';
 import { quoteLaundry, quoteCleaning } from '@/lib/pricing';
+import { findBuildingForAddress, recordBuildingResident } from '@/lib/buildings';
+import {
+  validatePromoCode,
+  getPromoDiscountCents,
+  type PromoCode,
+} from '@/lib/promos';
+import { getServiceClient } from '@/lib/db';
+import { getCustomerPlan } from '@/lib/recurring';
 
 /**
  * Max stored estimate for dry-clean-only orders (quoted after inspection,
@@ -24,7 +32,11 @@ const TIER_TO_LBS: Record<string, number> = { small: 15, medium: 25, large: 35 }
  * The stored estimate drives the ±variance auto-charge gate after weighing,
  * so recompute it server-side from the order details wherever possible.
  */
-async function computeServerEstimateCents(params: z.infer<typeof setupSchema>): Promise<number> {
+async function computeServerEstimate(
+  params: z.infer<typeof setupSchema>,
+  buildingId?: string,
+  promo?: PromoCode | null
+): Promise<{ total_cents: number; promo_discount_cents: number; pricing_version_id: string | null }> {
   const d = (params.details ?? {}) as Record<string, any>;
 
   if (params.service_type === 'LAUNDRY') {
@@ -41,8 +53,14 @@ async function computeServerEstimateCents(params: z.infer<typeof setupSchema>):
         lbs,
         addons: Array.isArray(d.addons) ? d.addons : [],
         rushService: !!d.rushService,
+        buildingId,
+        promo,
       });
-      return quote.total_cents;
+      return {
+        total_cents: quote.total_cents,
+        promo_discount_cents: getPromoDiscountCents(quote),
+        pricing_version_id: quote.pricing_version_id ?? null,
+      };
     }
     // dryClean: priced after inspection — cap the client estimate at a sanity bound
     if (params.estimated_amount_cents > MAX_DRY_CLEAN_AUTH_CENTS) {
@@ -51,7 +69,8 @@ async function computeServerEstimateCents(params: z.infer<typeof setupSchema>):
         'AMOUNT_EXCEEDS_CAP'
       );
     }
-    return params.estimated_amount_cents;
+    // Promo discount is applied, and the pricing version locked, when the partner itemizes the order
+    return { total_cents: params.estimated_amount_cents, promo_discount_cents: 0, pricing_version_id: null };
   }
 
   // CLEANING
@@ -66,8 +85,14 @@ async function computeServerEstimateCents(params: z.infer<typeof setupSchema>):
     addons: Array.isArray(d.addons) ? d.addons : [],
     frequency: d.frequency,
     firstVisitDeep: !!d.firstVisitDeep,
+    buildingId,
+    promo,
   });
-  return quote.total_cents;
+  return {
+    total_cents: quote.total_cents,
+    promo_discount_cents: getPromoDiscountCents(quote),
+    pricing_version_id: quote.pricing_version_id ?? null,
+  };
 }
 
 const setupSchema = z.object({
@@ -89,11 +114,15 @@ const setupSchema = z.object({
     line2: z.string().optional(),
     city: z.string(),
     zip: z.string().length(5),
+    latitude: z.number().min(-90).max(90).optional(), // From Places; used to assign the nearest partner
+    longitude: z.number().min(-180).max(180).optional(),
     notes: z.string().optional(),
   }),
   phone: z.string().optional(),
   details: z.any(), // Allow any details object for flexibility between LAUNDRY and CLEANING
   subscription_id: z.string().uuid().optional(), // For recurring cleaning
+  promo_code: z.string().max(32).optional(),
+  hold_id: z.string().uuid().optional(), // Slot hold from POST /api/slots/hold
   // Guest booking fields
   guest_name: z.string().optional(),
   guest_email: z.string().email().optional(),
@@ -138,7 +167,11 @@ export async function POST(request: NextRequest) {
     }
     
     // Check feature flag (only for authenticated users)
-    if (user && !canUsePaymentAuthorization(user.id)) {
+    if (user && !(await canUsePaymentAuthorization(user.id, {
+      role: user.role,
+      zip: params.address.zip,
+      serviceType: params.service_type,
+    }))) {
       throw new ValidationError(
         'Payment setup not available for your account',
         'FEATURE_NOT_ENABLED'
@@ -154,8 +187,32 @@ export async function POST(request: NextRequest) {
       estimated_amount: params.estimated_amount_cents
     });
     
+    // Match the address to a partner building (drives building pricing terms)
+    const building = await findBuildingForAddress(params.address);
+
+    // Re-check the promo code at booking time; limits may have been reached since it was entered
+    let promo: PromoCode | null = null;
+    if (params.promo_code?.trim()) {
+      const validation = await validatePromoCode(params.promo_code, {
+        serviceType: params.service_type,
+        zip: params.address.zip,
+        userId: user?.id,
+        guestEmail: params.guest_email,
+      });
+      if (!validation.valid) {
+        throw new ValidationError(validation.message, 'INVALID_PROMO_CODE');
+      }
+      promo = validation.promo;
+    }
+
+    // Only link plans the customer owns (the recurring cron books follow-up visits from it)
+    const plan = user && params.subscription_id
+      ? await getCustomerPlan(getServiceClient(), params.subscription_id, user.id)
+      : null;
+
     // Recompute the estimate server-side (never trust the client amount)
-    const serverEstimateCents = await computeServerEstimateCents(params);
+    const serverEstimate = await computeServerEstimate(params, building?.id, promo);
+    const serverEstimateCents = serverEstimate.total_cents;
     if (Math.abs(serverEstimateCents - params.estimated_amount_cents) > 100) {
       logger.warn({
         event: 'payment_setup_estimate_mismatch',
@@ -177,11 +234,21 @@ export async function POST(request: NextRequest) {
       address: params.address,
       phone: params.phone,
       details: params.details,
+      building_id: building?.id,
+      promo_code_id: promo?.id,
+      promo_discount_cents: serverEstimate.promo_discount_cents,
+      subscription_id: plan?.id,
+      hold_id: params.hold_id,
+      pricing_version_id: serverEstimate.pricing_version_id,
       guest_name: params.guest_name,
       guest_email: params.guest_email,
       guest_phone: params.guest_phone,
     });
     
+    if (building && user) {
+      await recordBuildingResident(building.id, user.id);
+    }
+    
     // Check if 3D Secure is required
     const requires3DS = order.setup_status === 'requires_action';
     
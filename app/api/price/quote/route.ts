@@ -3,18 +3,24 @@ import { z } from 'zod'
 import { quoteLaundry, quoteCleaning } from '@/lib/pricing'
 import { validateZipCode } from '@/lib/capacity'
 import { ValidationError, handleApiError } from '@/lib/errors'
+import { findBuildingForAddress } from '@/lib/buildings'
+import { getCurrentUser } from '@/lib/auth'
+import { validatePromoCode, normalizePromoCode, type PromoCode, type PromoValidation } from '@/lib/promos'
 
 const laundrySchema = z.object({
   service: z.literal('LAUNDRY'),
   zip: z.string().length(5),
+  line1: z.string().optional(), // Street address, used to match a partner building
   lbs: z.number().min(1).max(200),
   addons: z.array(z.string()).optional(),
   rushService: z.boolean().optional(),
+  promo_code: z.string().max(32).optional(),
 })
 
 const cleaningSchema = z.object({
   service: z.literal('CLEANING'),
   zip: z.string().length(5),
+  line1: z.string().optional(), // Street address, used to match a partner building
   bedrooms: z.number().min(0).max(5),
   bathrooms: z.number().min(1).max(5),
   deep: z.boolean().optional(),
@@ -22,6 +28,7 @@ const cleaningSchema = z.object({
   frequency: z.enum(['oneTime', 'weekly', 'biweekly', 'monthly']).optional(),
   visitsCompleted: z.number().min(0).optional(),
   firstVisitDeep: z.boolean().optional(),
+  promo_code: z.string().max(32).optional(),
 })
 
 export async function POST(request: NextRequest) {
@@ -48,6 +55,22 @@ export async function POST(request: NextRequest) {
     
     let quote
     
+    const building = typeof body.line1 === 'string'
+      ? await findBuildingForAddress({ line1: body.line1, zip: body.zip })
+      : null
+    
+    // Invalid promo codes don't fail the quote; the reason is returned alongside it
+    let promoValidation: PromoValidation | null = null
+    if (typeof body.promo_code === 'string' && body.promo_code.trim()) {
+      const user = await getCurrentUser()
+      promoValidation = await validatePromoCode(body.promo_code, {
+        serviceType: body.service,
+        zip: body.zip,
+        userId: user?.id,
+      })
+    }
+    const promo: PromoCode | null = promoValidation?.valid ? promoValidation.promo : null
+    
     if (body.service === 'LAUNDRY') {
       const params = laundrySchema.parse(body)
       console.log('[API] Calling quoteLaundry with:', params)
@@ -56,6 +79,8 @@ export async function POST(request: NextRequest) {
         lbs: params.lbs,
         addons: params.addons,
         rushService: params.rushService,
+        buildingId: building?.id,
+        promo,
       })
     } else {
       const params = cleaningSchema.parse(body)
@@ -69,11 +94,20 @@ export async function POST(request: NextRequest) {
         frequency: params.frequency,
         visitsCompleted: params.visitsCompleted,
         firstVisitDeep: params.firstVisitDeep,
+        buildingId: building?.id,
+        promo,
       })
     }
     
     console.log('[API] Quote calculated successfully:', quote)
-    return NextResponse.json(quote)
+    return NextResponse.json({
+      ...quote,
+      promo: promoValidation && {
+        code: normalizePromoCode(body.promo_code),
+        valid: promoValidation.valid,
+        message: promoValidation.valid ? undefined : promoValidation.message,
+      },
+    })
   } catch (error) {
     console.error('[API] Error occurred:', error)
     console.error('[API] Error stack:', error instanceof Error ? error.stack : 'No stack')
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServiceClient } from '@/lib/db'
 import { handleApiError } from '@/lib/errors'
+import { getFrequencyDiscountRates } from '@/lib/pricing'
+import type { DiscountFrequency } from '@/lib/pricing-rules'
 
 /**
  * GET /api/recurring/plan/[id]
@@ -64,12 +66,8 @@ export async function PATCH(
     if (frequency !== undefined) {
       updates.frequency = frequency.toUpperCase()
       // Update discount percentage when frequency changes
-      const RECURRING_DISCOUNTS: Record<string, number> = {
-        WEEKLY: 0.20,
-        BIWEEKLY: 0.15,
-        MONTHLY: 0.10,
-      }
-      updates.discount_pct = RECURRING_DISCOUNTS[updates.frequency] || 0
+      const discounts = await getFrequencyDiscountRates(db)
+      updates.discount_pct = discounts[frequency.toLowerCase() as DiscountFrequency] || 0
     }
 
     if (active !== undefined) updates.active = active
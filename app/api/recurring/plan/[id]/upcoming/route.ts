@@ -0,0 +1,187 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireAuth } from '@/lib/auth'
+import { getServiceClient } from '@/lib/db'
+import { ensureSlotsExist, getAvailableSlots } from '@/lib/capacity'
+import { NotFoundError, NotServedError, ValidationError, ConflictError, handleApiError } from '@/lib/errors'
+import {
+  getCustomerPlan,
+  getUpcomingRecurringVisit,
+  canChangeRecurringVisit,
+  getChargeDueAt,
+  skipRecurringVisit,
+  swapRecurringVisit,
+  pauseRecurringPlan,
+  resumeRecurringPlan,
+  RECURRING_CHARGE_LEAD_HOURS,
+} from '@/lib/recurring'
+
+const actionSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('skip') }),
+  z.object({ action: z.literal('pause') }),
+  z.object({ action: z.literal('resume') }),
+  z.object({
+    action: z.literal('swap'),
+    slot: z.object({
+      partner_id: z.string().uuid(),
+      slot_start: z.string(),
+      slot_end: z.string(),
+    }),
+  }),
+])
+
+function errorResponse(error: unknown) {
+  console.error('Recurring upcoming visit error:', error)
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Invalid request parameters', details: error.errors },
+      { status: 400 }
+    )
+  }
+
+  if (error instanceof Error && error.message === 'Unauthorized') {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const apiError = handleApiError(error)
+  return NextResponse.json(
+    { error: apiError.error, code: apiError.code },
+    { status: apiError.statusCode }
+  )
+}
+
+/**
+ * GET /api/recurring/plan/[id]/upcoming
+ * The plan's next booked visit and whether it can still be skipped or moved
+ *
+ * Query Parameters:
+ * - date: YYYY-MM-DD (optional) - Also return open slots on this date for swapping.
+ *   When no partner serves the visit's ZIP anymore, slots is empty and
+ *   slots_notice says why.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { id } = await params
+    const db = getServiceClient()
+
+    const plan = await getCustomerPlan(db, id, user.id)
+    if (!plan) {
+      throw new NotFoundError('Plan not found')
+    }
+
+    const visit = await getUpcomingRecurringVisit(db, plan.id)
+
+    let slots = undefined
+    let slotsNotice: string | null = null
+    const date = request.nextUrl.searchParams.get('date')
+    if (date && visit) {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+        throw new ValidationError('date must be YYYY-MM-DD')
+      }
+      const zip = visit.address_snapshot?.zip
+      try {
+        await ensureSlotsExist('CLEANING', zip, date)
+        slots = (await getAvailableSlots('CLEANING', zip, date))
+          .filter(slot => slot.slot_start !== visit.slot_start)
+      } catch (error) {
+        // The booked visit still stands; there is just nothing to move it to
+        if (!(error instanceof NotServedError)) throw error
+        slots = []
+        slotsNotice = error.message
+      }
+    }
+
+    return NextResponse.json({
+      plan,
+      visit,
+      can_change: visit ? canChangeRecurringVisit(visit) : false,
+      charge_at: visit ? getChargeDueAt(visit).toISOString() : null,
+      slots,
+      slots_notice: slotsNotice,
+    })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
+
+/**
+ * POST /api/recurring/plan/[id]/upcoming
+ * Customer controls for the next visit
+ *
+ * Body:
+ * - action: 'skip' - Cancel the next visit; the plan continues with the one after
+ * - action: 'swap', slot: { partner_id, slot_start, slot_end } - Move the next visit
+ * - action: 'pause' - Stop booking visits (cancels the next visit if not yet charged)
+ * - action: 'resume' - Start booking visits again
+ *
+ * Skip and swap are only possible until the visit is charged.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { id } = await params
+    const db = getServiceClient()
+
+    const input = actionSchema.parse(await request.json())
+
+    const plan = await getCustomerPlan(db, id, user.id)
+    if (!plan) {
+      throw new NotFoundError('Plan not found')
+    }
+
+    const visit = await getUpcomingRecurringVisit(db, plan.id)
+
+    if (input.action === 'pause') {
+      const { visit_canceled } = await pauseRecurringPlan(db, plan, visit, user.id)
+      return NextResponse.json({ success: true, active: false, visit_canceled })
+    }
+
+    if (input.action === 'resume') {
+      const nextDate = await resumeRecurringPlan(db, plan)
+      return NextResponse.json({ success: true, active: true, next_date: nextDate })
+    }
+
+    if (!visit) {
+      throw new NotFoundError('No upcoming visit to change')
+    }
+
+    if (!canChangeRecurringVisit(visit)) {
+      throw new ValidationError(
+        'This visit has already been charged. Cancel it from the order page instead.',
+        'VISIT_LOCKED'
+      )
+    }
+
+    if (input.action === 'skip') {
+      const nextDate = await skipRecurringVisit(db, plan, visit, user.id)
+      if (!nextDate) {
+        throw new ConflictError('Visit was updated. Refresh and try again.')
+      }
+      return NextResponse.json({ success: true, next_date: nextDate })
+    }
+
+    if (new Date(input.slot.slot_start) <= new Date()) {
+      throw new ValidationError('New slot time must be in the future')
+    }
+    if (!canChangeRecurringVisit({ ...visit, slot_start: input.slot.slot_start })) {
+      throw new ValidationError(`Pick a slot at least ${RECURRING_CHARGE_LEAD_HOURS} hours away`)
+    }
+
+    const updated = await swapRecurringVisit(db, visit, input.slot, user.id)
+    if (!updated) {
+      throw new ConflictError('Selected time slot is no longer available', 'SLOT_FULL')
+    }
+
+    return NextResponse.json({ success: true, visit: updated })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
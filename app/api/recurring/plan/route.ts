@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { requireAuth } from '@/lib/auth'
 import { getServiceClient } from '@/lib/db'
 import { handleApiError } from '@/lib/errors'
+import { getFrequencyDiscountRates } from '@/lib/pricing'
+import type { DiscountFrequency } from '@/lib/pricing-rules'
 
 // Force dynamic rendering (uses cookies for auth)
 export const dynamic = 'force-dynamic'
@@ -115,13 +117,9 @@ export async function POST(request: NextRequest) {
     // Map frontend frequency to DB format
     const dbFrequency = frequency.toUpperCase()
 
-    // Get discount percentage
-    const RECURRING_DISCOUNTS: Record<string, number> = {
-      WEEKLY: 0.20,
-      BIWEEKLY: 0.15,
-      MONTHLY: 0.10,
-    }
-    const discount_pct = RECURRING_DISCOUNTS[dbFrequency] || 0
+    // Get discount percentage from the pricing rules in effect
+    const discounts = await getFrequencyDiscountRates(db)
+    const discount_pct = discounts[frequency.toLowerCase() as DiscountFrequency] || 0
 
     const { data: plan, error } = await db
       .from('subscriptions')
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getCurrentUser } from '@/lib/auth'
+import { getServiceClient } from '@/lib/db'
+import { releaseOwnCapacityHold } from '@/lib/capacity-holds'
+import { holdAssignedSlot } from '@/lib/slot-assignment'
+import { handleApiError } from '@/lib/errors'
+import { rateLimit, getClientIp } from '@/lib/rate-limit'
+import { rateLimitError, getCorrelationId } from '@/lib/api-response'
+
+const holdSchema = z.object({
+  service_type: z.enum(['LAUNDRY', 'CLEANING']),
+  slot_start: z.string(),
+  zip: z.string().length(5),
+  capability: z.enum([
+    'wash_fold', 'dry_clean', 'mixed',
+    'standard', 'deep_clean', 'move_in_out', 'post_construction', 'commercial',
+  ]).optional(),
+  // Customer's address location, for the nearest assignment strategy
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+  // The customer's own previous hold, released once the new one is placed
+  replace_hold_id: z.string().uuid().optional(),
+})
+
+/**
+ * POST /api/slots/hold - Hold a pickup/cleaning window during checkout
+ *
+ * Called when the customer reaches payment. The assignment strategy picks
+ * which partner serving the ZIP takes the window (see lib/slot-assignment)
+ * and the hold keeps it for CAPACITY_HOLD_MINUTES; pass its id to
+ * /api/payment/setup as hold_id. Returns 409 with code SLOT_FULL when every
+ * partner's window filled up.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const limit = await rateLimit('slots.hold', getClientIp(request))
+    if (!limit.allowed) {
+      return rateLimitError(limit.retryAfterSeconds, getCorrelationId(request))
+    }
+
+    const user = await getCurrentUser()
+    const params = holdSchema.parse(await request.json())
+    const db = getServiceClient()
+
+    const { hold } = await holdAssignedSlot(db, {
+      serviceType: params.service_type,
+      zip: params.zip,
+      slotStart: params.slot_start,
+      capability: params.capability,
+      location: params.latitude !== undefined && params.longitude !== undefined
+        ? { lat: params.latitude, lng: params.longitude }
+        : null,
+      userId: user?.id,
+    })
+
+    if (params.replace_hold_id) {
+      await releaseOwnCapacityHold(db, params.replace_hold_id, user?.id ?? null)
+    }
+
+    return NextResponse.json({
+      hold: {
+        id: hold.id,
+        partner_id: hold.partner_id,
+        slot_start: hold.slot_start,
+        expires_at: hold.expires_at,
+      },
+    }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    const apiError = handleApiError(error)
+    return NextResponse.json(
+      { error: apiError.error, code: apiError.code },
+      { status: apiError.statusCode }
+    )
+  }
+}
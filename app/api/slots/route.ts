@@ -7,8 +7,24 @@ const querySchema = z.object({
   service: z.enum(['LAUNDRY', 'CLEANING']),
   zip: z.string().length(5),
   date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  capability: z.enum([
+    'wash_fold', 'dry_clean', 'mixed',
+    'standard', 'deep_clean', 'move_in_out', 'post_construction', 'commercial',
+  ]).optional(),
 })
 
+/**
+ * GET /api/slots - Available pickup/cleaning windows
+ *
+ * Query params:
+ * - service: 'LAUNDRY' | 'CLEANING'
+ * - zip: 5-digit ZIP code
+ * - date: YYYY-MM-DD
+ * - capability: Partner capability the booking needs (e.g. 'dry_clean')
+ *
+ * Only partners serving the ZIP with the capability are included. Returns
+ * 422 with code NOT_SERVED when no partner does.
+ */
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams
@@ -17,6 +33,7 @@ export async function GET(request: NextRequest) {
       service: searchParams.get('service'),
       zip: searchParams.get('zip'),
       date: searchParams.get('date'),
+      capability: searchParams.get('capability') ?? undefined,
     })
     
     // CRITICAL: Ensure slots exist for this date (on-demand generation)
@@ -24,14 +41,16 @@ export async function GET(request: NextRequest) {
     await ensureSlotsExist(
       params.service,
       params.zip,
-      params.date
+      params.date,
+      params.capability
     )
     
     // Fetch and return available slots
     const slots = await getAvailableSlots(
       params.service,
       params.zip,
-      params.date
+      params.date,
+      params.capability
     )
     
     return NextResponse.json({ slots })
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { requireAuth } from '@/lib/auth'
+import { getServiceClient } from '@/lib/db'
+import { NotFoundError, handleApiError } from '@/lib/errors'
+import {
+  parsePhotoPath,
+  getOrderUploadRole,
+  getUploadStorage,
+  SIGNED_URL_TTL_SECONDS,
+} from '@/lib/upload'
+
+// Force dynamic rendering (uses cookies for auth)
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/upload/:orderId/:purpose/:file - View an order photo
+ *
+ * Query params:
+ * - thumbnail=1: Small cover-cropped version
+ *
+ * Redirects to a signed URL that expires after 5 minutes, so stored photo
+ * URLs stay stable while the bucket stays private.
+ *
+ * Authorization: The order's customer, assigned partner, or an admin
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  try {
+    const user = await requireAuth()
+    const { path: segments } = await params
+    const path = segments.join('/')
+
+    const parsed = parsePhotoPath(path)
+    if (!parsed) {
+      throw new NotFoundError('Photo not found')
+    }
+
+    const db = getServiceClient()
+    const { data: order } = await db
+      .from('orders')
+      .select('id, user_id, partner_id')
+      .eq('id', parsed.orderId)
+      .single()
+
+    // Don't reveal whether photos exist for orders the user can't see
+    if (!order || !(await getOrderUploadRole(db, user, order))) {
+      throw new NotFoundError('Photo not found')
+    }
+
+    const signedUrl = await getUploadStorage().createSignedUrl(path, SIGNED_URL_TTL_SECONDS, {
+      thumbnail: request.nextUrl.searchParams.get('thumbnail') === '1',
+    })
+
+    const response = NextResponse.redirect(signedUrl)
+    response.headers.set('Cache-Control', 'private, max-age=60')
+    return response
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const apiError = handleApiError(error)
+    return NextResponse.json(
+      { error: apiError.error, code: apiError.code },
+      { status: apiError.statusCode }
+    )
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireAuth } from '@/lib/auth'
+import { getServiceClient } from '@/lib/db'
+import { handleApiError } from '@/lib/errors'
+import {
+  uploadCompleteSchema,
+  toUploadTarget,
+  assertCanUpload,
+  completeUpload,
+  getUploadStorage,
+} from '@/lib/upload'
+
+// Force dynamic rendering (uses cookies for auth)
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/upload/complete - Record a photo uploaded to its signed URL
+ *
+ * Request Body: the target fields sent to POST /api/upload, plus
+ * - path: string - Path returned with the upload URL
+ *
+ * Returns the stored photo: { url, thumbnail_url, path, ... }. The file's
+ * type and size are checked and its location metadata stripped before it is
+ * recorded; a file that fails the checks is deleted.
+ *
+ * Authorization: Same as POST /api/upload
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth()
+
+    const body = await request.json().catch(() => ({}))
+    const input = uploadCompleteSchema.parse(body)
+    const target = toUploadTarget(input)
+
+    const db = getServiceClient()
+    await assertCanUpload(db, user, target)
+
+    const photo = await completeUpload(db, getUploadStorage(), {
+      target,
+      path: input.path,
+      uploadedBy: user.id,
+      baseUrl: request.nextUrl.origin,
+    })
+
+    return NextResponse.json(photo, { status: 201 })
+  } catch (error) {
+    console.error('Upload completion error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const apiError = handleApiError(error)
+    return NextResponse.json(
+      { error: apiError.error, code: apiError.code },
+      { status: apiError.statusCode }
+    )
+  }
+}
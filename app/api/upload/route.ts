@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requireAuth } from '@/lib/auth'
+import { getServiceClient } from '@/lib/db'
+import { handleApiError } from '@/lib/errors'
+import { rateLimit } from '@/lib/rate-limit'
+import { rateLimitError, getCorrelationId } from '@/lib/api-response'
+import {
+  uploadRequestSchema,
+  toUploadTarget,
+  assertCanUpload,
+  requestUpload,
+  getUploadStorage,
+} from '@/lib/upload'
+
+// Force dynamic rendering (uses cookies for auth)
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/upload - Get a signed URL to upload an order photo to
+ *
+ * Request Body:
+ * - order_id: string
+ * - purpose: 'bag' | 'checklist' | 'dispute' | 'claim' (default 'dispute')
+ * - bag_id: string (bag photos)
+ * - checklist_id, stage: 'before' | 'after' (checklist photos)
+ * - claim_id: string (optional) - Attach to an already filed claim
+ * - filename: string
+ * - content_type: 'image/jpeg' | 'image/png' | 'image/webp'
+ * - size_bytes: number (max 5MB)
+ *
+ * Returns { path, upload_url }. The client PUTs the file to upload_url, then
+ * posts the same target fields and path to /api/upload/complete.
+ *
+ * Authorization: Customers upload dispute/claim photos for their own orders;
+ * the assigned partner uploads bag/checklist photos; admins upload any.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireAuth()
+
+    const limit = await rateLimit('uploads', user.id)
+    if (!limit.allowed) {
+      return rateLimitError(limit.retryAfterSeconds, getCorrelationId(request))
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const input = uploadRequestSchema.parse(body)
+    const target = toUploadTarget(input)
+
+    const db = getServiceClient()
+    await assertCanUpload(db, user, target)
+
+    const pending = await requestUpload(db, getUploadStorage(), {
+      target,
+      filename: input.filename,
+      contentType: input.content_type,
+    })
+
+    return NextResponse.json(pending, { status: 201 })
+  } catch (error) {
+    console.error('Upload error:', error)
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request parameters', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    if (error instanceof Error && error.message === 'Unauthorized') {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const apiError = handleApiError(error)
+    return NextResponse.json(
+      { error: apiError.error, code: apiError.code },
+      { status: apiError.statusCode }
+    )
+  }
+}
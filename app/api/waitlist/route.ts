@@ -1,32 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServiceClient } from '@/lib/db'
-
-// Simple rate limiting using in-memory store (for production, use Redis)
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>()
-const RATE_LIMIT_WINDOW = 60 * 1000 // 1 minute
-const RATE_LIMIT_MAX = 3 // 3 submissions per minute per IP
-
-function getRateLimitKey(ip: string): string {
-  return `waitlist:${ip}`
-}
-
-function checkRateLimit(ip: string): boolean {
-  const key = getRateLimitKey(ip)
-  const now = Date.now()
-  const record = rateLimitMap.get(key)
-
-  if (!record || now > record.resetTime) {
-    rateLimitMap.set(key, { count: 1, resetTime: now + RATE_LIMIT_WINDOW })
-    return true
-  }
-
-  if (record.count >= RATE_LIMIT_MAX) {
-    return false
-  }
-
-  record.count++
-  return true
-}
+import { rateLimit, getClientIp } from '@/lib/rate-limit'
+import { rateLimitError, getCorrelationId } from '@/lib/api-response'
 
 /**
  * POST /api/waitlist - Submit waitlist signup
@@ -39,14 +14,13 @@ function checkRateLimit(ip: string): boolean {
  */
 export async function POST(request: NextRequest) {
   try {
-    // Get IP for rate limiting
-    const ip = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown'
-    
-    // Check rate limit
-    if (!checkRateLimit(ip)) {
-      return NextResponse.json(
-        { error: 'Too many submissions. Please try again in a minute.' },
-        { status: 429 }
+    // Check rate limit (3 submissions per minute per IP)
+    const limit = await rateLimit('waitlist', getClientIp(request))
+    if (!limit.allowed) {
+      return rateLimitError(
+        limit.retryAfterSeconds,
+        getCorrelationId(request),
+        'Too many submissions. Please try again in a minute.'
       )
     }
 
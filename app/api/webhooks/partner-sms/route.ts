@@ -2,9 +2,11 @@ import { NextRequest, NextResponse } from 'next/server';
 import twilio from 'twilio';
 import { parseIntent } from '@/lib/partner-sms/intent-parser';
 import { executeAction } from '@/lib/partner-sms/action-executor';
-import { getOrCreateConversation } from '@/lib/partner-sms/conversation-state';
+import { getActiveConversations } from '@/lib/partner-sms/conversation-state';
 import { sendSMS } from '@/lib/sms';
 import { responses } from '@/lib/partner-sms/response-templates';
+import { rateLimit } from '@/lib/rate-limit';
+import { rateLimitError, getCorrelationId } from '@/lib/api-response';
 
 /**
  * Reconstruct the exact public URL Twilio signed against.
@@ -27,6 +29,9 @@ function getWebhookUrl(request: NextRequest): string {
  * - Body: SMS message text
  * - (other fields we ignore)
  *
+ * Partners can have several orders in flight. Replies may name one by its
+ * short ID ("PICKED UP 1A2B3C4D"); ORDERS lists the active ones.
+ *
  * Security: every request is verified against X-Twilio-Signature.
  * Fails closed (403) if the signature is missing/invalid or
  * TWILIO_AUTH_TOKEN is not configured.
@@ -69,21 +74,20 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get or create conversation for this partner phone
-    const conversation = await getOrCreateConversation(from);
-    
-    if (!conversation) {
-      await sendSMS({ to: from, message: responses.error() });
-      return new NextResponse('<?xml version="1.0" encoding="UTF-8"?><Response></Response>', {
-        headers: { 'Content-Type': 'text/xml' },
-      });
+    // Per-phone limit keeps a runaway sender from flooding the conversation engine
+    const limit = await rateLimit('sms.webhook', from);
+    if (!limit.allowed) {
+      return rateLimitError(limit.retryAfterSeconds, getCorrelationId(request));
     }
 
-    // Parse intent based on message and conversation state
-    const intent = await parseIntent(body, conversation);
+    // Every order this partner is mid-conversation about (one row per order)
+    const conversations = await getActiveConversations(from);
+
+    // Parse intent based on message and the partner's active orders
+    const intent = await parseIntent(body, conversations);
     
-    // Execute the action
-    const responseMessage = await executeAction(intent, conversation, from);
+    // Execute the action against the order the intent targets
+    const responseMessage = await executeAction(intent, conversations, from);
     
     // Send response via SMS
     await sendSMS({ to: from, message: responseMessage });
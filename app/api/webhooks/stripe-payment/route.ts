@@ -3,6 +3,7 @@ import Stripe from 'stripe';
 import { getServiceClient } from '@/lib/db';
 import { logger } from '@/lib/logger';
 import { classifyPaymentError } from '@/lib/payment-errors';
+import { openChargebackCase, syncChargebackStatus } from '@/lib/disputes';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2023-10-16',
@@ -20,7 +21,8 @@ const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET!;
  * - payment_intent.payment_failed: Authorization declined
  * - payment_intent.canceled: Authorization expired
  * - payment_intent.requires_action: 3DS challenge needed
- * - charge.dispute.created: Customer disputed charge
+ * - charge.dispute.created: Customer disputed charge (opens a dispute case)
+ * - charge.dispute.updated / charge.dispute.closed: Chargeback status changed
  */
 export async function POST(request: NextRequest) {
   try {
@@ -90,7 +92,12 @@ export async function POST(request: NextRequest) {
         break;
         
       case 'charge.dispute.created':
-        await handleDisputeCreated(event.data.object as Stripe.Dispute, db);
+        await handleDisputeCreated(event.data.object as Stripe.Dispute, event.id, db);
+        break;
+        
+      case 'charge.dispute.updated':
+      case 'charge.dispute.closed':
+        await handleDisputeChanged(event.data.object as Stripe.Dispute, db);
         break;
         
       default:
@@ -266,55 +273,54 @@ async function handleRequiresAction(paymentIntent: Stripe.PaymentIntent, db: any
 
 /**
  * Handle charge.dispute.created event
- * Customer initiated a chargeback
+ * Customer initiated a chargeback: open a case on the dispute workbench
  */
-async function handleDisputeCreated(dispute: Stripe.Dispute, db: any) {
-  // Find order by payment_id
-  const { data: order } = await db
-    .from('orders')
-    .select('*')
-    .eq('payment_id', dispute.payment_intent)
-    .single();
+async function handleDisputeCreated(dispute: Stripe.Dispute, eventId: string, db: any) {
+  const disputeCase = await openChargebackCase(db, dispute);
   
-  if (!order) {
-    // Try finding by auth_payment_intent_id
-    const { data: authOrder } = await db
-      .from('orders')
-      .select('*')
-      .eq('auth_payment_intent_id', dispute.payment_intent)
-      .single();
-    
-    if (!authOrder) {
-      logger.warn({ event: 'webhook_dispute_order_not_found', dispute_id: dispute.id });
-      return;
-    }
+  if (!disputeCase) {
+    logger.warn({ event: 'webhook_dispute_order_not_found', dispute_id: dispute.id });
+    return;
   }
   
-  const targetOrder = order;
-  
-  // Log dispute
-  await db.from('order_events').insert({
-    order_id: targetOrder.id,
+  // Log dispute once; Stripe retries the event until it is marked processed
+  await db.from('order_events').upsert({
+    order_id: disputeCase.order_id,
     event_type: 'dispute_created',
     actor_role: 'system',
+    idempotency_key: `stripe:${eventId}`,
     payload_json: {
       dispute_id: dispute.id,
+      dispute_case_id: disputeCase.id,
       charge_id: dispute.charge,
       amount: dispute.amount,
       reason: dispute.reason,
       status: dispute.status
     }
-  });
+  }, { onConflict: 'idempotency_key', ignoreDuplicates: true });
   
   logger.error({
     event: 'dispute_created',
-    order_id: targetOrder.id,
+    order_id: disputeCase.order_id,
     dispute_id: dispute.id,
+    dispute_case_id: disputeCase.id,
     charge_id: dispute.charge,
     amount: dispute.amount,
     reason: dispute.reason
   });
+}
+
+/**
+ * Handle charge.dispute.updated and charge.dispute.closed events
+ * Keeps the case's Stripe status current and closes it once the bank decides
+ */
+async function handleDisputeChanged(dispute: Stripe.Dispute, db: any) {
+  const disputeCase = await syncChargebackStatus(db, dispute);
   
-  // TODO: Alert admin team about dispute
-  // TODO: Send email to support team
+  logger.info({
+    event: 'dispute_status_changed',
+    dispute_id: dispute.id,
+    dispute_case_id: disputeCase?.id,
+    status: dispute.status
+  });
 }
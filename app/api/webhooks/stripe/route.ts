@@ -8,7 +8,8 @@
  * 1. Go to https://dashboard.stripe.com/webhooks
  * 2. Add endpoint: https://yourdomain.com/api/webhooks/stripe
  * 3. Select events: payment_intent.succeeded, payment_intent.payment_failed,
- *    charge.refunded, customer.subscription.created, etc.
+ *    charge.refunded, customer.subscription.created/updated/deleted,
+ *    invoice.paid, invoice.payment_failed
  * 4. Copy signing secret to .env.local as STRIPE_WEBHOOK_SECRET
  * 
  * Security:
@@ -24,6 +25,12 @@ import { env } from '@/lib/env'
 import { getServiceClient } from '@/lib/db'
 import { createRouteLogger, logError } from '@/lib/logger'
 import { captureError, addBreadcrumb } from '@/lib/sentry'
+import {
+  syncStripeSubscription,
+  recordRenewalFailure,
+  resolveRenewalRetries,
+  type SubscriptionEventType,
+} from '@/lib/subscription-billing'
 
 const stripe = new Stripe(env.STRIPE_SECRET_KEY, {
   apiVersion: '2023-10-16',
@@ -181,6 +188,11 @@ async function processWebhookEvent(event: Stripe.Event, correlationId: string) {
           await handleSubscriptionChange(event, correlationId)
           break
 
+        case 'invoice.payment_failed':
+        case 'invoice.paid':
+          await handleSubscriptionInvoice(event, correlationId)
+          break
+
         default:
           logger.info({ eventType: event.type }, 'Unhandled webhook event type')
       }
@@ -379,13 +391,56 @@ async function handleChargeRefunded(
 
 /**
  * Handle subscription changes
+ * Mirrors the Stripe subscription status onto the recurring plan
  */
 async function handleSubscriptionChange(
   event: Stripe.Event,
   correlationId: string
 ) {
+  const db = getServiceClient()
   const logger = createRouteLogger('/api/webhooks/stripe', 'POST', correlationId)
-  logger.info({ eventType: event.type }, 'Processing subscription change')
-  
-  // TODO: Implement subscription handling when recurring feature is ready
+
+  const subscription = event.data.object as Stripe.Subscription
+  logger.info(
+    { eventType: event.type, subscriptionId: subscription.id, status: subscription.status },
+    'Processing subscription change'
+  )
+
+  const result = await syncStripeSubscription(
+    db,
+    subscription,
+    event.type as SubscriptionEventType,
+    event.created
+  )
+
+  logger.info({ subscriptionId: subscription.id, ...result }, 'Subscription synced to recurring plan')
+}
+
+/**
+ * Handle subscription renewal invoices
+ * Failed renewals are queued in payment_retry_log; paid ones close the queue
+ */
+async function handleSubscriptionInvoice(
+  event: Stripe.Event,
+  correlationId: string
+) {
+  const db = getServiceClient()
+  const logger = createRouteLogger('/api/webhooks/stripe', 'POST', correlationId)
+
+  const invoice = event.data.object as Stripe.Invoice
+  if (!invoice.subscription) {
+    logger.info({ invoiceId: invoice.id }, 'Invoice is not for a subscription')
+    return
+  }
+
+  const result = event.type === 'invoice.payment_failed'
+    ? await recordRenewalFailure(db, invoice)
+    : await resolveRenewalRetries(db, invoice)
+
+  if (!result) {
+    logger.warn({ invoiceId: invoice.id, eventType: event.type }, 'No recurring plan found for invoice')
+    return
+  }
+
+  logger.info({ invoiceId: invoice.id, eventType: event.type, planId: result.plan_id }, 'Subscription invoice processed')
 }
@@ -4,7 +4,9 @@ import { useState, useEffect, Suspense } from 'react'
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
 import { useAuth } from '@/lib/auth-context'
-import { AddressAutocomplete } from '@/components/AddressAutocomplete'
+import { AddressAutocomplete, type BuildingMatch } from '@/components/AddressAutocomplete'
+import BuildingNotice from '@/components/booking/BuildingNotice'
+import PromoCodeField, { type PromoStatus } from '@/components/booking/PromoCodeField'
 import { PaymentModal } from '@/components/PaymentModal'
 import { Toast } from '@/components/Toast'
 import { Header } from '@/components/Header'
@@ -17,10 +19,12 @@ import { PriceSummary } from '@/components/ui/PriceDisplay'
 import { CleaningType, CleaningAddonKey, Frequency } from '@/lib/types'
 import { usePersistentBooking, formatPhone } from '@/hooks/usePersistentBooking'
 import { useBookingDraft, BookingDraft } from '@/hooks/useBookingDraft'
+import { useSlotHold } from '@/hooks/useSlotHold'
 import { Elements } from '@stripe/react-stripe-js'
 import { loadStripe } from '@stripe/stripe-js'
 import { StripePaymentCollector } from '@/components/booking/StripePaymentCollector'
 import { isSetupIntentEnabled } from '@/lib/feature-flags'
+import { formatRate } from '@/lib/pricing-rules'
 
 // Initialize Stripe
 const stripePromise = loadStripe(process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY!)
@@ -32,6 +36,8 @@ interface Address {
   state: string
   zip: string
   formatted: string
+  latitude?: number
+  longitude?: number
 }
 
 interface TimeSlot {
@@ -44,6 +50,13 @@ interface TimeSlot {
   service_type: string
 }
 
+// Partner capability each cleaning type needs (see /api/slots)
+const CLEANING_CAPABILITIES: Record<CleaningType, string> = {
+  standard: 'standard',
+  deep: 'deep_clean',
+  moveOut: 'move_in_out',
+}
+
 function CleaningBookingForm() {
   const router = useRouter()
   const { user } = useAuth()
@@ -78,6 +91,7 @@ function CleaningBookingForm() {
   
   // Address state
   const [address, setAddress] = useState<Address | null>(null)
+  const [building, setBuilding] = useState<BuildingMatch | null>(null)
   const [isAddressValid, setIsAddressValid] = useState(false)
   const [addressLine2, setAddressLine2] = useState('')
   const [phone, setPhone] = useState('')
@@ -96,9 +110,12 @@ function CleaningBookingForm() {
   const [date, setDate] = useState('')
   const [availableSlots, setAvailableSlots] = useState<TimeSlot[]>([])
   const [selectedSlot, setSelectedSlot] = useState<TimeSlot | null>(null)
+  const [notServedMessage, setNotServedMessage] = useState<string | null>(null)
   
   // Pricing
-  const [pricing, setPricing] = useState({ subtotal: 0, tax: 0, total: 0 })
+  const [pricing, setPricing] = useState({ subtotal: 0, discount: 0, tax: 0, taxRate: 0, total: 0 })
+  const [promoCode, setPromoCode] = useState('')
+  const [promoStatus, setPromoStatus] = useState<PromoStatus | null>(null)
   const [loading, setLoading] = useState(false)
   
   // Toast notifications
@@ -114,6 +131,21 @@ function CleaningBookingForm() {
   const [isSetupIntentFlow, setIsSetupIntentFlow] = useState(false)
   const [submitting, setSubmitting] = useState(false)
 
+  // Hold the cleaning window once the payment step shows
+  const slotHold = useSlotHold(
+    'CLEANING',
+    selectedSlot,
+    address ? { zip: address.zip, capability: CLEANING_CAPABILITIES[cleaningType], latitude: address.latitude, longitude: address.longitude } : null,
+    Boolean(isSetupIntentFlow && address && selectedSlot && pricing.total > 0)
+  )
+
+  useEffect(() => {
+    if (slotHold.error) {
+      setSelectedSlot(null)
+      setToast({ message: 'That time was just booked. Please choose another.', type: 'warning' })
+    }
+  }, [slotHold.error])
+
   // Hydrate form from persisted data on mount
   useEffect(() => {
     if (!persistedLoaded) return
@@ -276,6 +308,8 @@ function CleaningBookingForm() {
           body: JSON.stringify({
             service: 'CLEANING',
             zip: address.zip,
+            line1: address.line1, // Matches partner building pricing
+            promo_code: promoCode || undefined,
             bedrooms,
             bathrooms,
             deep: isDeep,
@@ -288,11 +322,16 @@ function CleaningBookingForm() {
 
         if (response.ok) {
           const quote = await response.json()
+          const promoItem = quote.items?.find((item: { key: string }) => item.key === 'PROMO_DISCOUNT')
+          const discount = promoItem ? -promoItem.total_cents / 100 : 0
           setPricing({
-            subtotal: quote.subtotal_cents / 100,
+            subtotal: quote.subtotal_cents / 100 + discount,
+            discount,
             tax: quote.tax_cents / 100,
+            taxRate: quote.tax_breakdown.tax_rate,
             total: quote.total_cents / 100
           })
+          setPromoStatus(quote.promo || null)
         }
       } catch (err) {
         console.error('Price calculation error:', err)
@@ -300,7 +339,7 @@ function CleaningBookingForm() {
     }
 
     calculatePrice()
-  }, [address, bedrooms, bathrooms, cleaningType, addons, frequency, firstVisitDeep])
+  }, [address, bedrooms, bathrooms, cleaningType, addons, frequency, firstVisitDeep, promoCode])
 
   // Fetch slots when date changes
   useEffect(() => {
@@ -310,11 +349,15 @@ function CleaningBookingForm() {
       try {
         setLoading(true)
         const response = await fetch(
-          `/api/slots?service=CLEANING&zip=${address.zip}&date=${date}`
+          `/api/slots?service=CLEANING&zip=${address.zip}&date=${date}&capability=${CLEANING_CAPABILITIES[cleaningType]}`
         )
+        const data = await response.json()
         if (response.ok) {
-          const data = await response.json()
           setAvailableSlots(data.slots || [])
+          setNotServedMessage(null)
+        } else if (data.code === 'NOT_SERVED') {
+          setAvailableSlots([])
+          setNotServedMessage(data.error)
         }
       } catch (err) {
         console.error('Failed to fetch slots:', err)
@@ -324,7 +367,7 @@ function CleaningBookingForm() {
     }
 
     fetchSlots()
-  }, [date, address])
+  }, [date, address, cleaningType])
 
 
   // Handle login required (save draft and redirect)
@@ -444,6 +487,8 @@ function CleaningBookingForm() {
             line2: addressLine2 || undefined,
             city: address.city,
             zip: address.zip,
+            latitude: address.latitude,
+            longitude: address.longitude,
             notes: specialInstructions || undefined,
           },
           phone: user ? phone : guestPhone,
@@ -459,6 +504,14 @@ function CleaningBookingForm() {
           subscription_id: subscriptionId
         }
         
+        if (promoStatus?.valid) {
+          setupPayload.promo_code = promoStatus.code
+        }
+        
+        if (slotHold.holdId) {
+          setupPayload.hold_id = slotHold.holdId
+        }
+        
         // Add guest data if not authenticated
         if (!user) {
           setupPayload.guest_name = guestName.trim()
@@ -540,6 +593,14 @@ function CleaningBookingForm() {
           subscription_id: subscriptionId
         }
         
+        if (promoStatus?.valid) {
+          orderPayload.promo_code = promoStatus.code
+        }
+        
+        if (slotHold.holdId) {
+          orderPayload.hold_id = slotHold.holdId
+        }
+        
         // Add guest data if not authenticated
         if (!user) {
           orderPayload.guest_name = guestName.trim()
@@ -677,10 +738,12 @@ function CleaningBookingForm() {
                         })
                       }
                     }}
+                    onBuildingMatch={setBuilding}
                     onValidityChange={setIsAddressValid}
                     defaultValue={address?.formatted}
                     showLabel={false}
                   />
+                  <BuildingNotice building={building} />
                   <input
                     type="text"
                     value={addressLine2}
@@ -782,11 +845,28 @@ function CleaningBookingForm() {
                 </div>
 
                 {/* Live Pricing */}
+                {address && (
+                  <div className="mt-4">
+                    <PromoCodeField
+                      status={promoStatus}
+                      discount={pricing.discount}
+                      onApply={setPromoCode}
+                      onRemove={() => {
+                        setPromoCode('')
+                        setPromoStatus(null)
+                      }}
+                    />
+                  </div>
+                )}
+
                 {address && pricing.total > 0 && (
                   <PriceSummary
                     rows={[
                       { label: 'Subtotal', amount: pricing.subtotal },
-                      { label: 'Tax (8.875%)', amount: pricing.tax }
+                      ...(pricing.discount > 0
+                        ? [{ label: `Promo (${promoStatus?.code})`, amount: -pricing.discount }]
+                        : []),
+                      { label: `Tax (${formatRate(pricing.taxRate)})`, amount: pricing.tax }
                     ]}
                     total={pricing.total}
                     totalLabel="Estimated Total"
@@ -826,6 +906,8 @@ function CleaningBookingForm() {
                     </label>
                     {loading ? (
                       <p className="text-gray-500">Loading slots...</p>
+                    ) : notServedMessage ? (
+                      <p className="text-red-600">{notServedMessage}</p>
                     ) : availableSlots.length === 0 ? (
                       <p className="text-red-600">No slots available. Please select a different date.</p>
                     ) : (
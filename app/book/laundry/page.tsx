@@ -4,7 +4,9 @@ import { useState, useEffect, Suspense } from 'react'
 import Link from 'next/link'
 import { useRouter, useSearchParams } from 'next/navigation'
 import { useAuth } from '@/lib/auth-context'
-import { AddressAutocomplete } from '@/components/AddressAutocomplete'
+import { AddressAutocomplete, type BuildingMatch } from '@/components/AddressAutocomplete'
+import BuildingNotice from '@/components/booking/BuildingNotice'
+import PromoCodeField, { type PromoStatus } from '@/components/booking/PromoCodeField'
 import { PaymentModal } from '@/components/PaymentModal'
 import { Toast } from '@/components/Toast'
 import { Header } from '@/components/Header'
@@ -12,6 +14,7 @@ import { PolicyBanner, ServiceInfoBanner, PaymentBanner, DryCleanBanner, RushSer
 import { PriceSummary, EstimateBadge } from '@/components/ui/PriceDisplay'
 import { usePersistentBooking, formatPhone } from '@/hooks/usePersistentBooking'
 import { useBookingDraft, BookingDraft } from '@/hooks/useBookingDraft'
+import { useSlotHold } from '@/hooks/useSlotHold'
 import { Elements } from '@stripe/react-stripe-js'
 import { loadStripe } from '@stripe/stripe-js'
 import { StripePaymentCollector } from '@/components/booking/StripePaymentCollector'
@@ -23,6 +26,7 @@ import {
   findEarliestDeliverySlot
 } from '@/lib/slots'
 import { formatDateOnly } from '@/lib/timezone'
+import { formatRate, RUSH_SURCHARGE_KEY } from '@/lib/pricing-rules'
 
 // Initialize Stripe
 const stripePromise = loadStripe(process.env.NEXT_PUBLIC_STRIPE_PUBLISHABLE_KEY!)
@@ -34,6 +38,8 @@ interface Address {
   state: string
   zip: string
   formatted: string
+  latitude?: number
+  longitude?: number
 }
 
 interface TimeSlot {
@@ -49,6 +55,13 @@ interface TimeSlot {
 type LaundryServiceType = 'washFold' | 'dryClean' | 'mixed'
 type WeightTier = 'small' | 'medium' | 'large'
 
+// Partner capability each laundry service needs (see /api/slots)
+const LAUNDRY_CAPABILITIES: Record<LaundryServiceType, string> = {
+  washFold: 'wash_fold',
+  dryClean: 'dry_clean',
+  mixed: 'mixed',
+}
+
 function LaundryBookingForm() {
   const router = useRouter()
   const searchParams = useSearchParams()
@@ -87,6 +100,7 @@ function LaundryBookingForm() {
   
   // Address state
   const [address, setAddress] = useState<Address | null>(null)
+  const [building, setBuilding] = useState<BuildingMatch | null>(null)
   const [isAddressValid, setIsAddressValid] = useState(false)
   const [addressLine2, setAddressLine2] = useState('')
   const [phone, setPhone] = useState('')
@@ -104,6 +118,7 @@ function LaundryBookingForm() {
   const [deliveryDate, setDeliveryDate] = useState('')
   const [availableSlots, setAvailableSlots] = useState<TimeSlot[]>([])
   const [selectedSlot, setSelectedSlot] = useState<TimeSlot | null>(null)
+  const [notServedMessage, setNotServedMessage] = useState<string | null>(null)
   const [availableDeliverySlots, setAvailableDeliverySlots] = useState<TimeSlot[]>([])
   const [selectedDeliverySlot, setSelectedDeliverySlot] = useState<TimeSlot | null>(null)
   const [loadingDeliverySlots, setLoadingDeliverySlots] = useState(false)
@@ -118,7 +133,10 @@ function LaundryBookingForm() {
   } | null>(null)
   
   // Pricing
-  const [pricing, setPricing] = useState({ subtotal: 0, tax: 0, total: 0 })
+  const [pricing, setPricing] = useState({ subtotal: 0, rush: 0, discount: 0, tax: 0, taxRate: 0, total: 0 })
+  const [rushRate, setRushRate] = useState<number | null>(null)
+  const [promoCode, setPromoCode] = useState('')
+  const [promoStatus, setPromoStatus] = useState<PromoStatus | null>(null)
   const [loading, setLoading] = useState(false)
   
   // Toast notifications
@@ -147,12 +165,35 @@ function LaundryBookingForm() {
     }
     fetchPolicy()
   }, [])
+
+  // Rush surcharge from the pricing rules in effect (see /api/pricing/display)
+  useEffect(() => {
+    fetch('/api/pricing/display')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setRushRate(data?.laundry?.rushRate ?? null))
+      .catch((err) => console.error('Failed to load rush surcharge:', err))
+  }, [])
   
   // Setup Intent state
   const [paymentMethodId, setPaymentMethodId] = useState<string | null>(null)
   const [paymentError, setPaymentError] = useState<string | null>(null)
   const [submitting, setSubmitting] = useState(false)
 
+  // Hold the pickup window once the payment step shows
+  const slotHold = useSlotHold(
+    'LAUNDRY',
+    selectedSlot,
+    address ? { zip: address.zip, capability: LAUNDRY_CAPABILITIES[serviceType], latitude: address.latitude, longitude: address.longitude } : null,
+    Boolean(address && selectedSlot && pricing.total > 0)
+  )
+
+  useEffect(() => {
+    if (slotHold.error) {
+      setSelectedSlot(null)
+      setToast({ message: 'That pickup time was just booked. Please choose another.', type: 'warning' })
+    }
+  }, [slotHold.error])
+
   // Hydrate form from persisted data on mount
   useEffect(() => {
     if (!persistedLoaded) return
@@ -207,7 +248,7 @@ function LaundryBookingForm() {
         
         try {
           const response = await fetch(
-            `/api/slots?service=LAUNDRY&zip=${address.zip}&date=${dateStr}`
+            `/api/slots?service=LAUNDRY&zip=${address.zip}&date=${dateStr}&capability=${LAUNDRY_CAPABILITIES[serviceType]}`
           )
           if (response.ok) {
             const data = await response.json()
@@ -395,6 +436,8 @@ function LaundryBookingForm() {
           body: JSON.stringify({
             service: 'LAUNDRY',
             zip: address.zip,
+            line1: address.line1, // Matches partner building pricing
+            promo_code: promoCode || undefined,
             lbs: pounds, // Use calculated pounds directly
             addons: [], // No addons for now
             rushService
@@ -403,11 +446,18 @@ function LaundryBookingForm() {
 
         if (response.ok) {
           const quote = await response.json()
+          const promoItem = quote.items?.find((item: { key: string }) => item.key === 'PROMO_DISCOUNT')
+          const rushItem = quote.items?.find((item: { key: string }) => item.key === RUSH_SURCHARGE_KEY)
+          const discount = promoItem ? -promoItem.total_cents / 100 : 0
           setPricing({
-            subtotal: quote.subtotal_cents / 100,
+            subtotal: quote.subtotal_cents / 100 + discount,
+            rush: rushItem ? rushItem.total_cents / 100 : 0,
+            discount,
             tax: quote.tax_cents / 100,
+            taxRate: quote.tax_breakdown.tax_rate,
             total: quote.total_cents / 100
           })
+          setPromoStatus(quote.promo || null)
         }
       } catch (err) {
         console.error('Price calculation error:', err)
@@ -415,7 +465,7 @@ function LaundryBookingForm() {
     }
 
     calculatePrice()
-  }, [address, serviceType, weightTier, rushService])
+  }, [address, serviceType, weightTier, rushService, promoCode])
 
   // Find earliest delivery date with available slots when pickup slot or rush service changes
   useEffect(() => {
@@ -452,12 +502,13 @@ function LaundryBookingForm() {
       try {
         setLoading(true)
         const response = await fetch(
-          `/api/slots?service=LAUNDRY&zip=${address.zip}&date=${date}`
+          `/api/slots?service=LAUNDRY&zip=${address.zip}&date=${date}&capability=${LAUNDRY_CAPABILITIES[serviceType]}`
         )
+        const data = await response.json()
         if (response.ok) {
-          const data = await response.json()
           const slots: TimeSlot[] = data.slots || []
           setAvailableSlots(slots)
+          setNotServedMessage(null)
           
           // Auto-select slot closest to 24h from now only if no slot is currently selected
           if (slots.length > 0 && !selectedSlot) {
@@ -466,6 +517,9 @@ function LaundryBookingForm() {
               setSelectedSlot(closestSlot)
             }
           }
+        } else if (data.code === 'NOT_SERVED') {
+          setAvailableSlots([])
+          setNotServedMessage(data.error)
         }
       } catch (err) {
         console.error('Failed to fetch slots:', err)
@@ -475,7 +529,7 @@ function LaundryBookingForm() {
     }
 
     fetchSlots()
-  }, [date, address])
+  }, [date, address, serviceType])
 
   // Fetch delivery slots when delivery date changes
   useEffect(() => {
@@ -485,7 +539,7 @@ function LaundryBookingForm() {
       try {
         setLoadingDeliverySlots(true)
         const response = await fetch(
-          `/api/slots?service=LAUNDRY&zip=${address.zip}&date=${deliveryDate}`
+          `/api/slots?service=LAUNDRY&zip=${address.zip}&date=${deliveryDate}&capability=${LAUNDRY_CAPABILITIES[serviceType]}`
         )
         if (response.ok) {
           const data = await response.json()
@@ -614,6 +668,8 @@ function LaundryBookingForm() {
           line2: addressLine2 || undefined,
           city: address.city,
           zip: address.zip,
+          latitude: address.latitude,
+          longitude: address.longitude,
           notes: specialInstructions || undefined,
         },
         phone: user ? phone : guestPhone,
@@ -626,6 +682,14 @@ function LaundryBookingForm() {
         }
       }
       
+      if (promoStatus?.valid) {
+        setupPayload.promo_code = promoStatus.code
+      }
+      
+      if (slotHold.holdId) {
+        setupPayload.hold_id = slotHold.holdId
+      }
+      
       // Add guest data if not authenticated
       if (!user) {
         setupPayload.guest_name = guestName.trim()
@@ -778,10 +842,12 @@ function LaundryBookingForm() {
                         })
                       }
                     }}
+                    onBuildingMatch={setBuilding}
                     onValidityChange={setIsAddressValid}
                     defaultValue={address?.formatted}
                     showLabel={false}
                   />
+                  <BuildingNotice building={building} />
                   <input
                     type="text"
                     value={addressLine2}
@@ -923,7 +989,7 @@ function LaundryBookingForm() {
                       className="w-6 h-6"
                     />
                     <div className="flex-1">
-                      <div className="font-medium">⚡ Same Day Service (+25%)</div>
+                      <div className="font-medium">⚡ Same Day Service{rushRate !== null && ` (+${formatRate(rushRate)})`}</div>
                       <div className="text-sm text-gray-500">
                         Pickup before 11 AM: delivery same day (6-8 PM or 8-10 PM). After 11 AM: next-day delivery
                       </div>
@@ -932,11 +998,28 @@ function LaundryBookingForm() {
                 </div>
 
                 {/* Live Pricing */}
+                {address && (
+                  <div className="mt-4">
+                    <PromoCodeField
+                      status={promoStatus}
+                      discount={pricing.discount}
+                      onApply={setPromoCode}
+                      onRemove={() => {
+                        setPromoCode('')
+                        setPromoStatus(null)
+                      }}
+                    />
+                  </div>
+                )}
+
                 {address && pricing.total > 0 && (
                   <PriceSummary
                     rows={[
                       { label: 'Subtotal', amount: pricing.subtotal },
-                      { label: 'Tax (8.875%)', amount: pricing.tax }
+                      ...(pricing.discount > 0
+                        ? [{ label: `Promo (${promoStatus?.code})`, amount: -pricing.discount }]
+                        : []),
+                      { label: `Tax (${formatRate(pricing.taxRate)})`, amount: pricing.tax }
                     ]}
                     total={pricing.total}
                     totalLabel={serviceType === 'washFold' ? 'Estimated Total' : 'Estimated Minimum'}
@@ -981,6 +1064,8 @@ function LaundryBookingForm() {
                     </label>
                     {loading ? (
                       <p className="text-gray-500">Loading slots...</p>
+                    ) : notServedMessage ? (
+                      <p className="text-red-600">{notServedMessage}</p>
                     ) : availableSlots.length === 0 ? (
                       <p className="text-red-600">No slots available. Please select a different date.</p>
                     ) : (
@@ -1210,16 +1295,22 @@ function LaundryBookingForm() {
                   <div className="space-y-2 text-sm">
                     <div className="flex justify-between">
                       <span>Wash & Fold (~{estimatedPounds} lbs)</span>
-                      <span className="font-semibold">${pricing.subtotal.toFixed(2)}</span>
+                      <span className="font-semibold">${(pricing.subtotal - pricing.rush).toFixed(2)}</span>
                     </div>
-                    {rushService && (
+                    {pricing.rush > 0 && (
                       <div className="flex justify-between text-orange-600">
-                        <span>⚡ Rush Service (+25%)</span>
-                        <span className="font-semibold">+${(pricing.subtotal * 0.25).toFixed(2)}</span>
+                        <span>⚡ Rush Service{rushRate !== null && ` (+${formatRate(rushRate)})`}</span>
+                        <span className="font-semibold">+${pricing.rush.toFixed(2)}</span>
+                      </div>
+                    )}
+                    {pricing.discount > 0 && (
+                      <div className="flex justify-between text-green-700">
+                        <span>🎉 Promo ({promoStatus?.code})</span>
+                        <span className="font-semibold">-${pricing.discount.toFixed(2)}</span>
                       </div>
                     )}
                     <div className="flex justify-between text-gray-600">
-                      <span>Tax (8.875%)</span>
+                      <span>Tax ({formatRate(pricing.taxRate)})</span>
                       <span>${pricing.tax.toFixed(2)}</span>
                     </div>
                   </div>
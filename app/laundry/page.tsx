@@ -4,6 +4,7 @@ import { Header } from '@/components/Header'
 import Tooltip from '@/components/ui/Tooltip'
 import DryPriceTooltip from '@/components/dryclean/DryPriceTooltip'
 import { getLaundryDisplayPricing } from '@/lib/display-pricing'
+import { formatRate } from '@/lib/pricing-rules'
 
 import { getAllowedZips } from '@/lib/service-area'
 
@@ -136,7 +137,7 @@ export default async function LaundryPage() {
                 <ul className="space-y-2 text-sm">
                   <li className="flex items-start">
                     <span className="text-green-500 mr-2">✓</span>
-                    <span>{pricing.perLbPriceFormatted}/lb + 25% rush surcharge</span>
+                    <span>{pricing.perLbPriceFormatted}/lb{pricing.rushRate !== null && ` + ${formatRate(pricing.rushRate)} rush surcharge`}</span>
                   </li>
                   <li className="flex items-start">
                     <span className="text-green-500 mr-2">✓</span>
@@ -394,7 +395,7 @@ export default async function LaundryPage() {
               <details className="card-compact cursor-pointer">
                 <summary className="font-semibold">What's included in the {pricing.perLbPriceFormatted}/lb price?</summary>
                 <p className="mt-3 text-sm text-text-secondary">
-                  Everything! Wash, dry, fold, eco-friendly detergent, free pickup & delivery, and QR tracking. The only extra cost is if you need rush 24-hour service (+25% surcharge).
+                  Everything! Wash, dry, fold, eco-friendly detergent, free pickup & delivery, and QR tracking. The only extra cost is if you need rush 24-hour service{pricing.rushRate !== null && ` (+${formatRate(pricing.rushRate)} surcharge)`}.
                 </p>
               </details>
               
@@ -1,17 +1,22 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { useParams, useRouter } from 'next/navigation';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { useAuth } from '@/lib/auth-context';
 import { Header } from '@/components/Header';
 import SummaryBar from '@/components/order/SummaryBar';
 import ProgressTracker from '@/components/order/ProgressTracker';
+import BagTimeline, { type TimelineBag } from '@/components/order/BagTimeline';
 import ServiceAddressCard from '@/components/order/ServiceAddressCard';
 import PricingCard from '@/components/order/PricingCard';
 import OrderDetailsSkeleton from '@/components/order/OrderDetailsSkeleton';
 import CancelModal from '@/components/order/CancelModal';
 import RescheduleModal from '@/components/order/RescheduleModal';
+import ClaimModal from '@/components/order/ClaimModal';
+import RatingModal from '@/components/order/RatingModal';
+import TipModal from '@/components/order/TipModal';
+import type { OrderTip, TipSource } from '@/lib/tips';
 import { CleaningOrderView } from '@/components/cleaning/CleaningOrderView';
 import { mapDatabaseStatus } from '@/lib/orderStatus';
 import { getStatusLabel, OrderStatus } from '@/lib/orderStateMachine';
@@ -19,6 +24,8 @@ import { getHoursUntilSlot, formatMoney } from '@/lib/cancellationFees';
 import { isFeatureEnabled } from '@/lib/features';
 import { mapToCleaningStatus } from '@/types/cleaningOrders';
 import { shouldShowAddToCalendar, downloadCalendarEvent } from '@/lib/calendar';
+import { canFileClaim } from '@/lib/claims';
+import { formatRate } from '@/lib/pricing-rules';
 
 interface Order {
   id: string;
@@ -32,6 +39,7 @@ interface Order {
   status: string;
   subtotal_cents: number;
   tax_cents: number;
+  tax_rate: number | null;
   delivery_cents: number;
   total_cents: number;
   actual_weight_lbs?: number;
@@ -65,6 +73,8 @@ interface Order {
   customer?: {
     phone: string;
   };
+  bags?: TimelineBag[];
+  completed_at?: string;
   created_at: string;
   updated_at: string;
 }
@@ -72,14 +82,21 @@ interface Order {
 export default function OrderDetailPage() {
   const params = useParams();
   const router = useRouter();
+  const searchParams = useSearchParams();
   const { user, loading: authLoading } = useAuth();
   const [order, setOrder] = useState<Order | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [showCancelModal, setShowCancelModal] = useState(false);
   const [showRescheduleModal, setShowRescheduleModal] = useState(false);
+  const [showClaimModal, setShowClaimModal] = useState(false);
   const [toastMessage, setToastMessage] = useState('');
   const [policy, setPolicy] = useState<any>(null);
+  const [canRate, setCanRate] = useState(false);
+  const [showRatingModal, setShowRatingModal] = useState(false);
+  const [tip, setTip] = useState<OrderTip | null>(null);
+  const [canTip, setCanTip] = useState(false);
+  const [tipSource, setTipSource] = useState<TipSource | null>(null);
 
   // Helper functions for payment method detection
   const shouldShowLegacyPayButton = (order: Order) => {
@@ -137,6 +154,52 @@ export default function OrderDetailPage() {
     }
   }, [order]);
 
+  // Rating links in completion messages open the rating form (?action=rate)
+  useEffect(() => {
+    if (order && ['completed', 'delivered'].includes(order.status)) {
+      fetch(`/api/orders/${order.id}/rating`)
+        .then((res) => (res.ok ? res.json() : null))
+        .then((data) => {
+          setCanRate(!!data?.can_rate);
+          if (data?.can_rate && searchParams.get('action') === 'rate') {
+            setShowRatingModal(true);
+          }
+        })
+        .catch((err) => console.error('Failed to load order rating:', err));
+
+      fetch(`/api/orders/${order.id}/tip`)
+        .then((res) => (res.ok ? res.json() : null))
+        .then((data) => {
+          setTip(data?.tip || null);
+          setCanTip(!!data?.can_tip);
+        })
+        .catch((err) => console.error('Failed to load order tip:', err));
+    }
+  }, [order?.id, order?.status]);
+
+  const handleRated = () => {
+    setCanRate(false);
+    // The rating request doubles as the tip prompt
+    if (canTip) {
+      setTipSource('rating');
+      return;
+    }
+    setToastMessage('Thanks for your feedback!');
+    setTimeout(() => setToastMessage(''), 3000);
+  };
+
+  const handleTipped = (amountCents: number) => {
+    setCanTip(false);
+    setTip({ amount_cents: amountCents, status: 'succeeded' } as OrderTip);
+    setToastMessage(`Thank you! ${formatMoney(amountCents)} tip sent.`);
+    setTimeout(() => setToastMessage(''), 3000);
+    // Pick up the receipt link
+    fetch(`/api/orders/${params.id}/tip`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => data?.tip && setTip(data.tip))
+      .catch(() => {});
+  };
+
   const fetchOrder = async () => {
     try {
       setLoading(true);
@@ -216,6 +279,41 @@ export default function OrderDetailPage() {
       <div className="min-h-screen bg-gray-50">
         <Header />
         <CleaningOrderView order={cleaningOrder as any} userRole="customer" />
+        {(canRate || canTip) && (
+          <div className="max-w-4xl mx-auto px-4 pb-24 md:pb-8 flex flex-col sm:flex-row gap-3">
+            {canRate && (
+              <button
+                onClick={() => setShowRatingModal(true)}
+                className="flex-1 px-4 py-2.5 rounded-lg font-medium text-sm bg-white border-2 border-yellow-400 text-yellow-700 hover:bg-yellow-50 transition-all duration-150"
+              >
+                ★ Rate Your Cleaning
+              </button>
+            )}
+            {canTip && (
+              <button
+                onClick={() => setTipSource('order_page')}
+                className="flex-1 px-4 py-2.5 rounded-lg font-medium text-sm bg-white border-2 border-green-500 text-green-700 hover:bg-green-50 transition-all duration-150"
+              >
+                Add a Tip
+              </button>
+            )}
+          </div>
+        )}
+        <RatingModal
+          isOpen={showRatingModal}
+          onClose={() => setShowRatingModal(false)}
+          orderId={order.id}
+          partnerLabel="your cleaner"
+          onSuccess={handleRated}
+        />
+        <TipModal
+          isOpen={tipSource !== null}
+          onClose={() => setTipSource(null)}
+          orderId={order.id}
+          source={tipSource || 'order_page'}
+          partnerLabel="your cleaner"
+          onSuccess={handleTipped}
+        />
       </div>
     );
   }
@@ -277,7 +375,7 @@ export default function OrderDetailPage() {
     
     // Only show tax if applicable (greater than $0)
     if (order.tax_cents > 0) {
-      rows.push({ label: 'Tax (8.875%)', amountCents: order.tax_cents });
+      rows.push({ label: order.tax_rate !== null ? `Tax (${formatRate(order.tax_rate)})` : 'Tax', amountCents: order.tax_cents });
     }
     
     if (order.delivery_cents > 0) {
@@ -354,6 +452,13 @@ export default function OrderDetailPage() {
             <ProgressTracker current={currentStep} />
           </div>
 
+          {/* Bag Timeline */}
+          {order.service_type === 'LAUNDRY' && order.bags && order.bags.length > 0 && (
+            <div className="bg-white rounded-xl border border-gray-200 p-4 mb-4 shadow-sm">
+              <BagTimeline bags={order.bags} />
+            </div>
+          )}
+
           {/* Service + Address Card */}
           <div className="mb-4">
             <ServiceAddressCard
@@ -417,6 +522,7 @@ export default function OrderDetailPage() {
             <PricingCard
               rows={getPricingRows()}
               totalCents={displayAmount}
+              tipCents={tip?.status === 'succeeded' ? tip.amount_cents : undefined}
               note={getPricingNote()}
             />
           </div>
@@ -501,6 +607,16 @@ export default function OrderDetailPage() {
                   <span>View Receipt</span>
                 </a>
               )}
+
+              {/* Download Invoice (includes any tip) */}
+              {order.paid_at && (
+                <a
+                  href={`/api/orders/${order.id}/invoice`}
+                  className="block text-center text-sm text-blue-600 hover:text-blue-700"
+                >
+                  Download invoice (PDF)
+                </a>
+              )}
               
               {/* Secondary Actions Grid */}
               <div className="grid gap-2 grid-cols-2">
@@ -542,6 +658,53 @@ export default function OrderDetailPage() {
                 )}
               </div>
 
+              {/* Rate Service */}
+              {canRate && (
+                <button
+                  onClick={() => setShowRatingModal(true)}
+                  className="w-full px-4 py-2.5 rounded-lg font-medium text-sm bg-white border-2 border-yellow-400 text-yellow-700 hover:bg-yellow-50 hover:shadow-sm active:scale-[0.98] transition-all duration-150 flex items-center justify-center gap-1.5 min-h-[42px]"
+                >
+                  <span className="text-lg leading-none">★</span>
+                  <span>Rate Your Service</span>
+                </button>
+              )}
+
+              {/* Add a Tip */}
+              {canTip && (
+                <button
+                  onClick={() => setTipSource('order_page')}
+                  className="w-full px-4 py-2.5 rounded-lg font-medium text-sm bg-white border-2 border-green-500 text-green-700 hover:bg-green-50 hover:shadow-sm active:scale-[0.98] transition-all duration-150 flex items-center justify-center gap-1.5 min-h-[42px]"
+                >
+                  <span className="text-lg leading-none">$</span>
+                  <span>Add a Tip</span>
+                </button>
+              )}
+
+              {/* Tip Receipt */}
+              {tip?.receipt_url && (
+                <a
+                  href={tip.receipt_url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="block text-center text-sm text-blue-600 hover:text-blue-700"
+                >
+                  View tip receipt ({formatMoney(tip.amount_cents)})
+                </a>
+              )}
+
+              {/* Report a Problem */}
+              {canFileClaim(order) && (
+                <button
+                  onClick={() => setShowClaimModal(true)}
+                  className="w-full px-4 py-2.5 rounded-lg font-medium text-sm bg-white border-2 border-orange-500 text-orange-600 hover:bg-orange-50 hover:shadow-sm active:scale-[0.98] transition-all duration-150 flex items-center justify-center gap-1.5 min-h-[42px]"
+                >
+                  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+                  </svg>
+                  <span>Report a Problem</span>
+                </button>
+              )}
+
               {/* Policy Notice */}
               {policy?.requiresNotice && hoursUntil < 24 && (
                 <div className="rounded-lg border border-orange-200 bg-orange-50 p-3">
@@ -609,6 +772,34 @@ export default function OrderDetailPage() {
           fetchOrder(); // Refresh order data
         }}
       />
+
+      <ClaimModal
+        isOpen={showClaimModal}
+        onClose={() => setShowClaimModal(false)}
+        orderId={order.id}
+        bags={order.bags}
+        onSuccess={() => {
+          setToastMessage('Claim submitted. We\'ll review it within 24 hours.');
+          setTimeout(() => setToastMessage(''), 3000);
+        }}
+      />
+
+      <RatingModal
+        isOpen={showRatingModal}
+        onClose={() => setShowRatingModal(false)}
+        orderId={order.id}
+        partnerLabel={order.service_type === 'CLEANING' ? 'your cleaner' : 'your laundromat'}
+        onSuccess={handleRated}
+      />
+
+      <TipModal
+        isOpen={tipSource !== null}
+        onClose={() => setTipSource(null)}
+        orderId={order.id}
+        source={tipSource || 'order_page'}
+        partnerLabel={order.service_type === 'CLEANING' ? 'your cleaner' : 'your laundromat'}
+        onSuccess={handleTipped}
+      />
     </div>
   );
 }
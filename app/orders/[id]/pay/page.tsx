@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation'
 import { PaymentModal } from '@/components/PaymentModal'
 import Link from 'next/link'
 import { Header } from '@/components/Header'
+import { formatRate } from '@/lib/pricing-rules'
 
 interface Order {
   id: string
@@ -14,6 +15,7 @@ interface Order {
   quote_cents?: number
   subtotal_cents: number
   tax_cents: number
+  tax_rate: number | null
   total_cents: number
   order_details: any
   address_snapshot: any
@@ -144,7 +146,7 @@ export default function PayOrderPage({ params }: { params: Promise<{ id: string
                 
                 {order.tax_cents > 0 && (
                   <div className="flex justify-between text-sm">
-                    <span className="text-gray-600">Tax (8.875%):</span>
+                    <span className="text-gray-600">{order.tax_rate !== null ? `Tax (${formatRate(order.tax_rate)})` : 'Tax'}:</span>
                     <span>${(order.tax_cents / 100).toFixed(2)}</span>
                   </div>
                 )}
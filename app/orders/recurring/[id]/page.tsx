@@ -6,6 +6,7 @@ import Link from 'next/link'
 import { ProtectedRoute } from '@/components/ProtectedRoute'
 import { Header } from '@/components/Header'
 import { Toast } from '@/components/Toast'
+import { formatDateTime, formatDateOnly } from '@/lib/timezone'
 
 function RecurringPlanContent() {
   const params = useParams()
@@ -23,9 +24,19 @@ function RecurringPlanContent() {
   const [isEditing, setIsEditing] = useState(false)
   const [showCancelConfirm, setShowCancelConfirm] = useState(false)
 
+  // Upcoming visit controls
+  const [upcoming, setUpcoming] = useState<{ visit: any; can_change: boolean; charge_at: string | null } | null>(null)
+  const [acting, setActing] = useState(false)
+  const [showSwap, setShowSwap] = useState(false)
+  const [swapDate, setSwapDate] = useState('')
+  const [swapSlots, setSwapSlots] = useState<any[]>([])
+  const [swapNotice, setSwapNotice] = useState<string | null>(null)
+  const [loadingSlots, setLoadingSlots] = useState(false)
+
   useEffect(() => {
     fetchPlan()
     fetchPlanOrders()
+    fetchUpcoming()
   }, [planId])
 
   const fetchPlan = async () => {
@@ -61,6 +72,90 @@ function RecurringPlanContent() {
     }
   }
 
+  const fetchUpcoming = async () => {
+    try {
+      const response = await fetch(`/api/recurring/plan/${planId}/upcoming`)
+      if (response.ok) {
+        const data = await response.json()
+        setUpcoming({ visit: data.visit, can_change: data.can_change, charge_at: data.charge_at })
+      }
+    } catch (err) {
+      console.error('Error fetching upcoming visit:', err)
+    }
+  }
+
+  const runVisitAction = async (body: Record<string, any>) => {
+    const response = await fetch(`/api/recurring/plan/${planId}/upcoming`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to update visit')
+    }
+    return data
+  }
+
+  const refreshPlan = () => {
+    fetchPlan()
+    fetchPlanOrders()
+    fetchUpcoming()
+  }
+
+  const handleSkipVisit = async () => {
+    if (!confirm('Skip this visit? Your plan continues with the next one.')) return
+    try {
+      setActing(true)
+      const data = await runVisitAction({ action: 'skip' })
+      setToast({ message: `Visit skipped. Next visit: ${formatDateOnly(data.next_date)}`, type: 'success' })
+      refreshPlan()
+    } catch (err: any) {
+      setToast({ message: err.message, type: 'error' })
+    } finally {
+      setActing(false)
+    }
+  }
+
+  const handleLoadSlots = async (date: string) => {
+    setSwapDate(date)
+    setSwapSlots([])
+    setSwapNotice(null)
+    if (!date) return
+    try {
+      setLoadingSlots(true)
+      const response = await fetch(`/api/recurring/plan/${planId}/upcoming?date=${date}`)
+      if (response.ok) {
+        const data = await response.json()
+        setSwapSlots(data.slots || [])
+        setSwapNotice(data.slots_notice || null)
+      }
+    } catch (err) {
+      console.error('Error fetching slots:', err)
+    } finally {
+      setLoadingSlots(false)
+    }
+  }
+
+  const handleSwapSlot = async (slot: any) => {
+    try {
+      setActing(true)
+      await runVisitAction({
+        action: 'swap',
+        slot: { partner_id: slot.partner_id, slot_start: slot.slot_start, slot_end: slot.slot_end }
+      })
+      setToast({ message: `Visit moved to ${formatDateTime(slot.slot_start)}`, type: 'success' })
+      setShowSwap(false)
+      setSwapDate('')
+      setSwapSlots([])
+      refreshPlan()
+    } catch (err: any) {
+      setToast({ message: err.message, type: 'error' })
+    } finally {
+      setActing(false)
+    }
+  }
+
   const handleSaveChanges = async () => {
     try {
       setSaving(true)
@@ -86,19 +181,14 @@ function RecurringPlanContent() {
 
   const handlePauseResume = async () => {
     try {
-      const response = await fetch(`/api/recurring/plan/${planId}`, {
-        method: 'PATCH',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ active: !plan.active })
+      const data = await runVisitAction({ action: plan.active ? 'pause' : 'resume' })
+      setToast({ 
+        message: plan.active
+          ? (data.visit_canceled ? 'Plan paused and your next visit was canceled' : 'Plan paused successfully')
+          : 'Plan resumed successfully', 
+        type: 'success' 
       })
-
-      if (response.ok) {
-        setToast({ 
-          message: plan.active ? 'Plan paused successfully' : 'Plan resumed successfully', 
-          type: 'success' 
-        })
-        fetchPlan()
-      }
+      refreshPlan()
     } catch (err) {
       setToast({ message: 'Failed to update plan status', type: 'error' })
     }
@@ -191,6 +281,13 @@ function RecurringPlanContent() {
                   <span className="px-3 py-1 rounded-full text-xs font-medium bg-blue-600 text-white">
                     {plan.discount_pct * 100}% off visits 2+
                   </span>
+                  {plan.billing_status && plan.billing_status !== 'active' && (
+                    <span className={`px-3 py-1 rounded-full text-xs font-medium ${
+                      plan.billing_status === 'trialing' ? 'bg-blue-100 text-blue-800' : 'bg-red-100 text-red-800'
+                    }`}>
+                      {plan.billing_status === 'trialing' ? 'Trial' : `Billing ${plan.billing_status.replace('_', ' ')}`}
+                    </span>
+                  )}
                 </div>
               </div>
               <button
@@ -214,7 +311,7 @@ function RecurringPlanContent() {
                 <div>
                   <h3 className="text-sm font-medium text-gray-500 mb-1">Next Scheduled</h3>
                   <p className="text-lg font-semibold text-gray-900">
-                    {new Date(plan.next_date).toLocaleDateString('en-US', { 
+                    {formatDateOnly(plan.next_date, { 
                       weekday: 'long', 
                       month: 'long', 
                       day: 'numeric',
@@ -289,6 +386,89 @@ function RecurringPlanContent() {
             </div>
           </div>
 
+          {/* Upcoming Visit */}
+          {upcoming?.visit && (
+            <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+              <div className="flex items-start justify-between mb-4">
+                <div>
+                  <h3 className="text-lg font-bold text-gray-900 mb-1">Upcoming Visit</h3>
+                  <p className="text-gray-900 font-semibold">{formatDateTime(upcoming.visit.slot_start)}</p>
+                  <p className="text-sm text-gray-600">
+                    ${(upcoming.visit.total_cents / 100).toFixed(2)}
+                    {upcoming.can_change && upcoming.charge_at
+                      ? plan.stripe_subscription_id
+                        ? ` · covered by your subscription · changes close ${formatDateTime(upcoming.charge_at)}`
+                        : ` · charged to your saved card on ${formatDateTime(upcoming.charge_at)}`
+                      : upcoming.visit.paid_at ? ' · paid' : ''}
+                  </p>
+                </div>
+                <Link href={`/orders/${upcoming.visit.id}`} className="text-primary-600 hover:text-primary-700 font-medium text-sm">
+                  View Order →
+                </Link>
+              </div>
+
+              {upcoming.can_change ? (
+                <>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => setShowSwap(!showSwap)}
+                      disabled={acting}
+                      className="btn-secondary"
+                    >
+                      Change Time
+                    </button>
+                    <button
+                      onClick={handleSkipVisit}
+                      disabled={acting}
+                      className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 font-medium disabled:opacity-50"
+                    >
+                      Skip This Visit
+                    </button>
+                  </div>
+
+                  {showSwap && (
+                    <div className="mt-4 border-t pt-4 space-y-3">
+                      <label className="block text-sm font-medium text-gray-700">
+                        Pick a new day
+                      </label>
+                      <input
+                        type="date"
+                        value={swapDate}
+                        min={new Date().toLocaleDateString('en-CA')}
+                        onChange={(e) => handleLoadSlots(e.target.value)}
+                        className="input-field"
+                      />
+                      {loadingSlots ? (
+                        <p className="text-sm text-gray-600">Loading times...</p>
+                      ) : swapNotice ? (
+                        <p className="text-sm text-gray-600">{swapNotice}. Your visit stays as booked.</p>
+                      ) : swapDate && swapSlots.length === 0 ? (
+                        <p className="text-sm text-gray-600">No open times that day. Try another date.</p>
+                      ) : (
+                        <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                          {swapSlots.map((slot) => (
+                            <button
+                              key={`${slot.partner_id}-${slot.slot_start}`}
+                              onClick={() => handleSwapSlot(slot)}
+                              disabled={acting}
+                              className="px-3 py-2 border border-gray-300 rounded-lg text-sm hover:border-primary-600 hover:bg-primary-50 disabled:opacity-50"
+                            >
+                              {formatDateTime(slot.slot_start)}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </>
+              ) : (
+                <p className="text-sm text-gray-600">
+                  This visit is locked in. To cancel it, use the order page.
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Visit History */}
           <div className="bg-white rounded-lg shadow-md p-6 mb-6">
             <h3 className="text-lg font-bold text-gray-900 mb-4">Visit History</h3>
@@ -0,0 +1,199 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { formatDateOnly } from '@/lib/timezone';
+import { PAYOUT_STATUS_LABELS, type PayoutStatus } from '@/lib/payouts';
+
+interface Payout {
+  id: string;
+  period_start: string;
+  period_end: string;
+  order_count: number;
+  revenue_cents: number;
+  payout_percent: number | null;
+  gross_cents: number;
+  refunds_cents: number;
+  claims_cents: number;
+  tips_cents: number;
+  net_cents: number;
+  status: PayoutStatus;
+  paid_at: string | null;
+  payout_reference: string | null;
+}
+
+interface EarningsData {
+  payout_percent: number;
+  pending: {
+    order_count: number;
+    estimated_cents: number;
+    tips_cents: number;
+  };
+  payouts: Payout[];
+}
+
+function formatCents(cents: number) {
+  const sign = cents < 0 ? '-' : '';
+  return `${sign}$${(Math.abs(cents) / 100).toFixed(2)}`;
+}
+
+export default function PartnerEarningsPage() {
+  const [data, setData] = useState<EarningsData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchEarnings();
+  }, []);
+
+  async function fetchEarnings() {
+    try {
+      const response = await fetch('/api/partner/earnings');
+      if (!response.ok) throw new Error('Failed to load earnings');
+      setData(await response.json());
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load earnings');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div className="bg-white rounded-lg shadow p-6 animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/3 mb-2"></div>
+          <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+        </div>
+        <div className="bg-white rounded-lg shadow p-6 animate-pulse h-64"></div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-6">
+        <h3 className="text-lg font-semibold text-red-900 mb-2">Error Loading Earnings</h3>
+        <p className="text-red-700">{error}</p>
+        <button
+          onClick={fetchEarnings}
+          className="mt-4 px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700"
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  if (!data) return null;
+
+  const paidToDate = data.payouts
+    .filter((p) => p.status === 'PAID')
+    .reduce((sum, p) => sum + p.net_cents, 0);
+  const due = data.payouts
+    .filter((p) => p.status === 'DUE')
+    .reduce((sum, p) => sum + p.net_cents, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow p-6">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Earnings</h1>
+        <p className="text-gray-600">
+          Payouts are settled weekly (Monday–Sunday). You earn {data.payout_percent}% of pre-tax order revenue
+          and 100% of customer tips.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="text-sm font-medium text-gray-500 mb-1">Not Yet Settled</div>
+          <div className="text-3xl font-bold text-gray-900">{formatCents(data.pending.estimated_cents)}</div>
+          <div className="text-xs text-gray-500 mt-1">
+            {data.pending.order_count} completed orders (estimate)
+            {data.pending.tips_cents > 0 && `, including ${formatCents(data.pending.tips_cents)} in tips`}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="text-sm font-medium text-gray-500 mb-1">Due</div>
+          <div className="text-3xl font-bold text-blue-600">{formatCents(due)}</div>
+          <div className="text-xs text-gray-500 mt-1">Settled, awaiting transfer</div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="text-sm font-medium text-gray-500 mb-1">Paid</div>
+          <div className="text-3xl font-bold text-green-600">{formatCents(paidToDate)}</div>
+          <div className="text-xs text-gray-500 mt-1">Last {data.payouts.length} periods</div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Payout History</h2>
+        </div>
+        {data.payouts.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-gray-500">No payouts yet</p>
+            <p className="text-sm text-gray-400 mt-1">Your first payout appears after the week you complete an order.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Period</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Orders</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Earned</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Refunds</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Claims</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Tips</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase">Net</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {data.payouts.map((payout) => (
+                  <tr key={payout.id}>
+                    <td className="px-6 py-4 text-sm text-gray-900 whitespace-nowrap">
+                      {formatDateOnly(payout.period_start)} – {formatDateOnly(payout.period_end)}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-700 text-right">{payout.order_count}</td>
+                    <td className="px-6 py-4 text-sm text-gray-700 text-right">{formatCents(payout.gross_cents)}</td>
+                    <td className="px-6 py-4 text-sm text-red-600 text-right">
+                      {payout.refunds_cents > 0 ? formatCents(-payout.refunds_cents) : '—'}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-red-600 text-right">
+                      {payout.claims_cents > 0 ? formatCents(-payout.claims_cents) : '—'}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-green-600 text-right">
+                      {payout.tips_cents > 0 ? formatCents(payout.tips_cents) : '—'}
+                    </td>
+                    <td className="px-6 py-4 text-sm font-semibold text-gray-900 text-right">
+                      {formatCents(payout.net_cents)}
+                    </td>
+                    <td className="px-6 py-4 text-sm whitespace-nowrap">
+                      <span
+                        className={`px-2 py-1 text-xs rounded-full ${
+                          payout.status === 'PAID'
+                            ? 'bg-green-100 text-green-800'
+                            : 'bg-blue-100 text-blue-800'
+                        }`}
+                      >
+                        {PAYOUT_STATUS_LABELS[payout.status]}
+                      </span>
+                      {payout.paid_at && (
+                        <span className="ml-2 text-xs text-gray-500">
+                          {new Date(payout.paid_at).toLocaleDateString()}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -100,6 +100,12 @@ export default async function PartnerLayout({
                 >
                   Capacity
                 </Link>
+                <Link
+                  href="/partner/earnings"
+                  className="text-gray-700 hover:text-gray-900 hover:bg-gray-50 px-3 py-2 rounded-md text-sm font-medium transition"
+                >
+                  Earnings
+                </Link>
               </nav>
             </div>
             <div className="flex items-center space-x-4">
@@ -143,6 +149,12 @@ export default async function PartnerLayout({
             >
               Capacity
             </Link>
+            <Link
+              href="/partner/earnings"
+              className="text-gray-700 hover:text-gray-900 hover:bg-gray-50 px-3 py-2 rounded-md text-sm font-medium whitespace-nowrap"
+            >
+              Earnings
+            </Link>
           </nav>
         </div>
       </header>
@@ -187,6 +187,12 @@ function PartnerLoginForm() {
                   Contact support
                 </a>
               </p>
+              <p className="text-gray-600">
+                Not a partner yet?{' '}
+                <Link href="/partners/apply" className="font-medium text-blue-600 hover:text-blue-500">
+                  Apply to partner
+                </Link>
+              </p>
               <p className="text-gray-600">
                 Forgot password?{' '}
                 <a href="mailto:support@tidyhood.nyc?subject=Partner Portal Password Reset" className="font-medium text-blue-600 hover:text-blue-500">
@@ -5,6 +5,8 @@ import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { STATUS_LABELS, STATUS_COLORS, TIME_FORMATS, VALID_PARTNER_TRANSITIONS } from '@/lib/partner/constants';
 import StatusUpdater from '@/components/partner/StatusUpdater';
+import DisputeResponse from '@/components/partner/DisputeResponse';
+import BagTracker from '@/components/partner/BagTracker';
 
 interface OrderDetail {
   id: string;
@@ -151,6 +153,9 @@ export default function PartnerOrderDetailPage() {
         </div>
       </div>
 
+      {/* Open dispute, if any */}
+      <DisputeResponse orderId={orderId} />
+
       {/* Customer Information */}
       {order.customer && (
         <div className="bg-white rounded-lg shadow p-6">
@@ -275,6 +280,9 @@ export default function PartnerOrderDetailPage() {
         </div>
       </div>
 
+      {/* Bag custody scans (laundry) */}
+      {order.service_type.toLowerCase() === 'laundry' && <BagTracker orderId={orderId} />}
+
       {/* Address & Schedule */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Service Address */}
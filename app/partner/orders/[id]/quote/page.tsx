@@ -5,6 +5,7 @@ import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import QuoteForm from '@/components/partner/QuoteForm';
 import { STATUS_LABELS, STATUS_COLORS } from '@/lib/partner/constants';
+import type { LaundryRates } from '@/lib/pricing-rules';
 
 interface OrderSummary {
   id: string;
@@ -24,6 +25,7 @@ interface OrderSummary {
     state: string;
     zip: string;
   } | null;
+  laundry_rates: LaundryRates | null;
 }
 
 export default function QuoteSubmissionPage() {
@@ -246,6 +248,7 @@ export default function QuoteSubmissionPage() {
           orderId={orderId}
           serviceType={order.service_type as 'laundry' | 'cleaning'}
           orderDetails={order.order_details}
+          laundryRates={order.laundry_rates}
           onSuccess={handleSuccess}
           onCancel={handleCancel}
         />
@@ -0,0 +1,339 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import Image from 'next/image'
+import { CAPABILITY_OPTIONS, type PartnerServiceType } from '@/lib/partner-applications'
+
+const EMPTY_FORM = {
+  business_name: '',
+  contact_name: '',
+  contact_email: '',
+  contact_phone: '',
+  service_type: 'LAUNDRY' as PartnerServiceType,
+  address: '',
+  zip: '',
+  service_areas: '',
+  description: '',
+  honeypot: '' // Bot protection
+}
+
+export default function PartnerApplyPage() {
+  const [formData, setFormData] = useState(EMPTY_FORM)
+  const [capabilities, setCapabilities] = useState<Record<string, boolean>>({})
+  const [loading, setLoading] = useState(false)
+  const [success, setSuccess] = useState<'submitted' | 'resubmitted' | null>(null)
+  const [error, setError] = useState('')
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/partner-applications', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...formData,
+          description: formData.description || undefined,
+          service_areas: formData.service_areas
+            .split(/[\s,]+/)
+            .map(zip => zip.trim())
+            .filter(Boolean),
+          capabilities,
+        })
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to submit')
+      }
+
+      setSuccess(data.resubmitted ? 'resubmitted' : 'submitted')
+      setFormData(EMPTY_FORM)
+      setCapabilities({})
+    } catch (err: any) {
+      setError(err.message || 'Something went wrong. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target
+    if (name === 'service_type') {
+      // Capabilities differ per service type
+      setCapabilities({})
+    }
+    setFormData({
+      ...formData,
+      [name]: value
+    })
+  }
+
+  const inputClass = 'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent text-base'
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-primary-50 to-white">
+      {/* Header */}
+      <header className="container mx-auto px-4 py-3 md:py-4">
+        <Link href="/" className="inline-block hover:opacity-80 transition-opacity">
+          <Image
+            src="/logo.svg"
+            alt="TidyHood"
+            width={420}
+            height={105}
+            priority
+            className="h-22 md:h-25 lg:h-28 w-auto"
+          />
+        </Link>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 md:py-12 pb-24 md:pb-12">
+        <div className="max-w-2xl mx-auto">
+          <div className="text-center mb-8 md:mb-12">
+            <h1 className="text-3xl md:text-4xl font-bold text-gray-900 mb-4">
+              Partner with TidyHood
+            </h1>
+            <p className="text-lg text-text-secondary">
+              Laundromats, dry cleaners and cleaning crews: get steady neighborhood orders without the marketing.
+              Tell us about your business and we'll get back to you by email.
+            </p>
+          </div>
+
+          {success && (
+            <div className="card bg-green-50 border-2 border-green-200 mb-8">
+              <h3 className="font-bold text-lg text-green-900 mb-1">
+                {success === 'resubmitted' ? 'Application updated' : 'Application received'}
+              </h3>
+              <p className="text-sm text-green-800">
+                Thanks! Our partnerships team reviews applications within a few business days and will email you with next steps.
+              </p>
+              <div className="mt-4">
+                <Link href="/" className="btn-outline text-center">
+                  Back to Home
+                </Link>
+              </div>
+            </div>
+          )}
+
+          {!success && (
+            <form onSubmit={handleSubmit} className="card">
+              {/* Honeypot field - hidden from users, visible to bots */}
+              <input
+                type="text"
+                name="honeypot"
+                value={formData.honeypot}
+                onChange={handleChange}
+                className="hidden"
+                tabIndex={-1}
+                autoComplete="off"
+                aria-hidden="true"
+              />
+
+              <div className="space-y-5 md:space-y-6">
+                <div>
+                  <label htmlFor="business_name" className="block text-sm font-medium text-gray-700 mb-2">
+                    Business Name *
+                  </label>
+                  <input
+                    type="text"
+                    id="business_name"
+                    name="business_name"
+                    value={formData.business_name}
+                    onChange={handleChange}
+                    required
+                    className={inputClass}
+                    disabled={loading}
+                  />
+                </div>
+
+                <div className="grid sm:grid-cols-2 gap-4">
+                  <div>
+                    <label htmlFor="contact_name" className="block text-sm font-medium text-gray-700 mb-2">
+                      Your Name *
+                    </label>
+                    <input
+                      type="text"
+                      id="contact_name"
+                      name="contact_name"
+                      value={formData.contact_name}
+                      onChange={handleChange}
+                      required
+                      className={inputClass}
+                      disabled={loading}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="contact_phone" className="block text-sm font-medium text-gray-700 mb-2">
+                      Phone *
+                    </label>
+                    <input
+                      type="tel"
+                      id="contact_phone"
+                      name="contact_phone"
+                      value={formData.contact_phone}
+                      onChange={handleChange}
+                      required
+                      className={inputClass}
+                      placeholder="(212) 555-0123"
+                      disabled={loading}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label htmlFor="contact_email" className="block text-sm font-medium text-gray-700 mb-2">
+                    Email *
+                  </label>
+                  <input
+                    type="email"
+                    id="contact_email"
+                    name="contact_email"
+                    value={formData.contact_email}
+                    onChange={handleChange}
+                    required
+                    className={inputClass}
+                    disabled={loading}
+                  />
+                  <p className="mt-1 text-xs text-text-tertiary">
+                    This becomes your partner portal login. If we asked you for more details, use the same email to update your application.
+                  </p>
+                </div>
+
+                <div className="grid sm:grid-cols-3 gap-4">
+                  <div className="sm:col-span-2">
+                    <label htmlFor="address" className="block text-sm font-medium text-gray-700 mb-2">
+                      Business Address *
+                    </label>
+                    <input
+                      type="text"
+                      id="address"
+                      name="address"
+                      value={formData.address}
+                      onChange={handleChange}
+                      required
+                      className={inputClass}
+                      disabled={loading}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="zip" className="block text-sm font-medium text-gray-700 mb-2">
+                      ZIP Code *
+                    </label>
+                    <input
+                      type="text"
+                      id="zip"
+                      name="zip"
+                      value={formData.zip}
+                      onChange={handleChange}
+                      required
+                      pattern="\d{5}"
+                      maxLength={5}
+                      className={inputClass}
+                      disabled={loading}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label htmlFor="service_type" className="block text-sm font-medium text-gray-700 mb-2">
+                    What do you offer? *
+                  </label>
+                  <select
+                    id="service_type"
+                    name="service_type"
+                    value={formData.service_type}
+                    onChange={handleChange}
+                    required
+                    className={`${inputClass} bg-white`}
+                    disabled={loading}
+                  >
+                    <option value="LAUNDRY">Laundry (wash & fold, dry cleaning)</option>
+                    <option value="CLEANING">Home Cleaning</option>
+                  </select>
+                </div>
+
+                <fieldset>
+                  <legend className="block text-sm font-medium text-gray-700 mb-2">
+                    Services you can take on *
+                  </legend>
+                  <div className="space-y-2">
+                    {CAPABILITY_OPTIONS[formData.service_type].map(({ key, label }) => (
+                      <label key={key} className="flex items-center gap-3">
+                        <input
+                          type="checkbox"
+                          checked={capabilities[key] === true}
+                          onChange={() => setCapabilities({ ...capabilities, [key]: !capabilities[key] })}
+                          className="w-4 h-4 text-primary-600 border-gray-300 rounded"
+                          disabled={loading}
+                        />
+                        <span className="text-sm text-gray-800">{label}</span>
+                      </label>
+                    ))}
+                  </div>
+                </fieldset>
+
+                <div>
+                  <label htmlFor="service_areas" className="block text-sm font-medium text-gray-700 mb-2">
+                    ZIP Codes You Serve
+                  </label>
+                  <input
+                    type="text"
+                    id="service_areas"
+                    name="service_areas"
+                    value={formData.service_areas}
+                    onChange={handleChange}
+                    className={inputClass}
+                    placeholder="10026, 10027, 10030"
+                    disabled={loading}
+                  />
+                  <p className="mt-1 text-xs text-text-tertiary">Separate with commas. Leave blank to serve only your business ZIP.</p>
+                </div>
+
+                <div>
+                  <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-2">
+                    Tell Us About Your Business (Optional)
+                  </label>
+                  <textarea
+                    id="description"
+                    name="description"
+                    value={formData.description}
+                    onChange={handleChange}
+                    rows={4}
+                    className={`${inputClass} resize-none`}
+                    placeholder="Years in business, team size, equipment, weekly capacity..."
+                    disabled={loading}
+                  />
+                </div>
+
+                {error && (
+                  <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+                    <p className="text-sm text-red-800">{error}</p>
+                  </div>
+                )}
+
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="w-full btn-primary py-4 text-lg font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {loading ? 'Submitting...' : 'Submit Application →'}
+                </button>
+
+                <p className="text-xs text-center text-text-tertiary">
+                  Already a partner?{' '}
+                  <Link href="/partner/login" className="text-primary-600 hover:underline">
+                    Sign in to the partner portal
+                  </Link>
+                </p>
+              </div>
+            </form>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -14,10 +14,22 @@ interface Address {
   state: string
   zip: string
   formatted: string
+  // From the Places result; absent for saved and manually entered addresses
+  latitude?: number
+  longitude?: number
+}
+
+export interface BuildingMatch {
+  id: string
+  name: string
+  doorman_policy: string
+  dropoff_instructions: string | null
+  discount_pct: number
 }
 
 interface AddressAutocompleteProps {
   onAddressSelect: (address: Address) => void
+  onBuildingMatch?: (building: BuildingMatch | null) => void
   onValidityChange?: (isValid: boolean) => void
   defaultValue?: string
   savedAddresses?: Array<{
@@ -33,6 +45,7 @@ interface AddressAutocompleteProps {
 
 export function AddressAutocomplete({ 
   onAddressSelect,
+  onBuildingMatch,
   onValidityChange,
   defaultValue,
   savedAddresses = [],
@@ -50,6 +63,22 @@ export function AddressAutocomplete({
   const [error, setError] = useState<string | null>(null)
   const inputRef = useRef<HTMLInputElement>(null)
   const autocompleteRef = useRef<google.maps.places.Autocomplete | null>(null)
+  const onBuildingMatchRef = useRef(onBuildingMatch)
+  onBuildingMatchRef.current = onBuildingMatch
+
+  // Look up the partner building at this address (doorman handling, building pricing)
+  const matchBuilding = async (address: Address) => {
+    if (!onBuildingMatchRef.current) return
+    try {
+      const params = new URLSearchParams({ line1: address.line1, zip: address.zip })
+      const response = await fetch(`/api/buildings/match?${params}`)
+      const data = response.ok ? await response.json() : { building: null }
+      onBuildingMatchRef.current?.(data.building || null)
+    } catch (err) {
+      console.error('Building match failed:', err)
+      onBuildingMatchRef.current?.(null)
+    }
+  }
 
   useEffect(() => {
     const initAutocomplete = async () => {
@@ -116,10 +145,13 @@ export function AddressAutocomplete({
             city: city || 'New York',
             state: state || 'NY',
             zip,
-            formatted: place.formatted_address || ''
+            formatted: place.formatted_address || '',
+            latitude: place.geometry?.location?.lat(),
+            longitude: place.geometry?.location?.lng()
           }
 
           onAddressSelect(address)
+          matchBuilding(address)
           setInputValue(address.formatted)
         })
 
@@ -143,14 +175,16 @@ export function AddressAutocomplete({
     setError(null)
     onValidityChange?.(true)
     
-    onAddressSelect({
+    const selected: Address = {
       line1: address.line1,
       line2: address.line2,
       city: address.city,
       state: 'NY',
       zip: address.zip,
       formatted: formattedAddress
-    })
+    }
+    onAddressSelect(selected)
+    matchBuilding(selected)
   }
 
   const handleManualSubmit = () => {
@@ -184,6 +218,7 @@ export function AddressAutocomplete({
     }
 
     onAddressSelect(address)
+    matchBuilding(address)
     setInputValue(address.formatted)
     setManualMode(false)
   }
@@ -50,6 +50,9 @@ export function Header() {
               <Link href="/orders" className="text-text-secondary hover:text-primary-600">
                 My Orders
               </Link>
+              <Link href="/account/notifications" className="hidden md:inline text-text-secondary hover:text-primary-600">
+                Notifications
+              </Link>
               <button
                 onClick={handleLogout}
                 className="hidden md:inline text-text-secondary hover:text-primary-600"
@@ -28,12 +28,42 @@ export default function AdminNav({ userEmail }: AdminNavProps) {
               >
                 Orders
               </Link>
+              <Link
+                href="/admin/claims"
+                className="text-gray-700 hover:text-gray-900 px-3 py-2 text-sm font-medium"
+              >
+                Claims
+              </Link>
+              <Link
+                href="/admin/disputes"
+                className="text-gray-700 hover:text-gray-900 px-3 py-2 text-sm font-medium"
+              >
+                Disputes
+              </Link>
               <Link
                 href="/admin/partners"
                 className="text-gray-700 hover:text-gray-900 px-3 py-2 text-sm font-medium"
               >
                 Partners
               </Link>
+              <Link
+                href="/admin/partner-applications"
+                className="text-gray-700 hover:text-gray-900 px-3 py-2 text-sm font-medium"
+              >
+                Applications
+              </Link>
+              <Link
+                href="/admin/buildings"
+                className="text-gray-700 hover:text-gray-900 px-3 py-2 text-sm font-medium"
+              >
+                Buildings
+              </Link>
+              <Link
+                href="/admin/payouts"
+                className="text-gray-700 hover:text-gray-900 px-3 py-2 text-sm font-medium"
+              >
+                Payouts
+              </Link>
               <Link
                 href="/admin/users"
                 className="text-gray-700 hover:text-gray-900 px-3 py-2 text-sm font-medium"
@@ -0,0 +1,196 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+
+interface Blackout {
+  id: string
+  date: string
+  partner_id: string | null
+  service_type: 'LAUNDRY' | 'CLEANING' | null
+  reason: string | null
+  partner: { id: string; name: string } | null
+}
+
+interface CapacityBlackoutsManagerProps {
+  partners: Array<{ id: string; name: string }>
+  /** Called after a blackout changed the slots */
+  onChange?: () => void
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+
+function formatBlackoutDate(date: string) {
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(year, month - 1, day).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  })
+}
+
+export default function CapacityBlackoutsManager({ partners, onChange }: CapacityBlackoutsManagerProps) {
+  const [blackouts, setBlackouts] = useState<Blackout[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null)
+  const [date, setDate] = useState('')
+  const [partnerId, setPartnerId] = useState('')
+  const [serviceType, setServiceType] = useState('')
+  const [reason, setReason] = useState('')
+
+  useEffect(() => {
+    fetchBlackouts()
+  }, [])
+
+  async function fetchBlackouts() {
+    try {
+      const res = await fetch('/api/admin/capacity/blackouts')
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to load blackouts')
+      setBlackouts(data.blackouts)
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Failed to load blackouts', type: 'error' })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function handleCreate() {
+    if (!date) return
+
+    setSaving(true)
+    setMessage(null)
+    try {
+      const res = await fetch('/api/admin/capacity/blackouts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          date,
+          partner_id: partnerId || null,
+          service_type: serviceType || null,
+          reason: reason.trim() || null,
+        }),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to add blackout')
+
+      setMessage({
+        text:
+          `Blacked out ${formatBlackoutDate(date)}: removed ${data.removed_slots} empty slots` +
+          (data.booked_slots > 0 ? `, ${data.booked_slots} booked slots need to be moved by hand` : ''),
+        type: data.booked_slots > 0 ? 'error' : 'success',
+      })
+      setDate('')
+      setReason('')
+      fetchBlackouts()
+      onChange?.()
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Failed to add blackout', type: 'error' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleDelete(id: string) {
+    if (!confirm('Lift this blackout? Slots will be generated again for that date.')) return
+
+    try {
+      const res = await fetch(`/api/admin/capacity/blackouts/${id}`, { method: 'DELETE' })
+      if (!res.ok) {
+        const data = await res.json()
+        throw new Error(data.error || 'Failed to lift blackout')
+      }
+      fetchBlackouts()
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Failed to lift blackout', type: 'error' })
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900">Blackout Dates</h2>
+        <p className="text-sm text-gray-600">
+          Holidays close every partner; exception days close one partner. No slots are generated on these dates.
+        </p>
+      </div>
+
+      <div className="p-6 border-b border-gray-200 grid grid-cols-1 md:grid-cols-5 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+          <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Partner</label>
+          <select value={partnerId} onChange={(e) => setPartnerId(e.target.value)} className={inputClass}>
+            <option value="">All partners (holiday)</option>
+            {partners.map((partner) => (
+              <option key={partner.id} value={partner.id}>
+                {partner.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Service</label>
+          <select value={serviceType} onChange={(e) => setServiceType(e.target.value)} className={inputClass}>
+            <option value="">Both</option>
+            <option value="LAUNDRY">Laundry</option>
+            <option value="CLEANING">Cleaning</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Thanksgiving"
+            className={inputClass}
+          />
+        </div>
+        <div className="flex items-end">
+          <button
+            onClick={handleCreate}
+            disabled={!date || saving}
+            className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Add Blackout'}
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <div className={`px-6 py-3 text-sm ${message.type === 'success' ? 'text-green-800 bg-green-50' : 'text-red-800 bg-red-50'}`}>
+          {message.text}
+        </div>
+      )}
+
+      {loading ? (
+        <p className="p-6 text-sm text-gray-500">Loading blackouts...</p>
+      ) : blackouts.length === 0 ? (
+        <p className="p-6 text-sm text-gray-500">No upcoming blackout dates.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {blackouts.map((blackout) => (
+            <li key={blackout.id} className="px-6 py-3 flex items-center justify-between">
+              <div>
+                <div className="text-sm font-medium text-gray-900">{formatBlackoutDate(blackout.date)}</div>
+                <div className="text-xs text-gray-500">
+                  {blackout.partner ? `${blackout.partner.name} off` : 'Holiday - all partners'}
+                  {blackout.service_type ? ` • ${blackout.service_type}` : ''}
+                  {blackout.reason ? ` • ${blackout.reason}` : ''}
+                </div>
+              </div>
+              <button onClick={() => handleDelete(blackout.id)} className="text-sm text-red-600 hover:text-red-900">
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,420 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import type { FeatureFlag } from '@/lib/feature-flags'
+
+interface FlagFormValues {
+  key: string
+  description: string
+  enabled: boolean
+  rollout_percentage: string
+  target_user_ids: string
+  target_roles: string[]
+  target_zip_codes: string
+  target_service_types: string[]
+}
+
+interface FeatureFlagsManagerProps {
+  showToast: (message: string, type: 'success' | 'error') => void
+}
+
+const ROLES = ['user', 'partner', 'admin']
+const SERVICE_TYPES = ['LAUNDRY', 'CLEANING']
+
+const EMPTY_FORM: FlagFormValues = {
+  key: '',
+  description: '',
+  enabled: false,
+  rollout_percentage: '0',
+  target_user_ids: '',
+  target_roles: [],
+  target_zip_codes: '',
+  target_service_types: [],
+}
+
+function splitList(value: string): string[] | null {
+  const items = value.split(/[\s,]+/).filter(Boolean)
+  return items.length > 0 ? items : null
+}
+
+function toFormValues(flag: FeatureFlag): FlagFormValues {
+  return {
+    key: flag.key,
+    description: flag.description || '',
+    enabled: flag.enabled,
+    rollout_percentage: flag.rollout_percentage.toString(),
+    target_user_ids: (flag.target_user_ids || []).join(', '),
+    target_roles: flag.target_roles || [],
+    target_zip_codes: (flag.target_zip_codes || []).join(', '),
+    target_service_types: flag.target_service_types || [],
+  }
+}
+
+function toRequestBody(values: FlagFormValues) {
+  return {
+    key: values.key.trim(),
+    description: values.description.trim() || null,
+    enabled: values.enabled,
+    rollout_percentage: parseInt(values.rollout_percentage, 10) || 0,
+    target_user_ids: splitList(values.target_user_ids),
+    target_roles: values.target_roles.length > 0 ? values.target_roles : null,
+    target_zip_codes: splitList(values.target_zip_codes),
+    target_service_types: values.target_service_types.length > 0 ? values.target_service_types : null,
+  }
+}
+
+function describeTargeting(flag: FeatureFlag): string {
+  const rules = [
+    flag.target_roles?.length ? `Roles: ${flag.target_roles.join(', ')}` : null,
+    flag.target_zip_codes?.length ? `ZIP ${flag.target_zip_codes.join(', ')}` : null,
+    flag.target_service_types?.length ? flag.target_service_types.join(' / ') : null,
+    flag.target_user_ids?.length ? `${flag.target_user_ids.length} targeted user(s)` : null,
+  ].filter(Boolean)
+
+  return rules.length > 0 ? rules.join(' • ') : 'Everyone'
+}
+
+/**
+ * Feature flag management for the admin settings page
+ */
+export default function FeatureFlagsManager({ showToast }: FeatureFlagsManagerProps) {
+  const [flags, setFlags] = useState<FeatureFlag[]>([])
+  const [loading, setLoading] = useState(true)
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null)
+  const [formValues, setFormValues] = useState<FlagFormValues>(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    loadFlags()
+  }, [])
+
+  async function loadFlags() {
+    setLoading(true)
+    try {
+      const res = await fetch(`/api/admin/settings/feature-flags?t=${Date.now()}`, { cache: 'no-store' })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to load feature flags')
+      setFlags(data.flags || [])
+    } catch (error) {
+      console.error('Error loading feature flags:', error)
+      showToast('Failed to load feature flags', 'error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  function startCreating() {
+    setEditingId('new')
+    setFormValues(EMPTY_FORM)
+  }
+
+  function startEditing(flag: FeatureFlag) {
+    setEditingId(flag.id)
+    setFormValues(toFormValues(flag))
+  }
+
+  function cancelEditing() {
+    setEditingId(null)
+    setFormValues(EMPTY_FORM)
+  }
+
+  function toggleListValue(field: 'target_roles' | 'target_service_types', value: string) {
+    setFormValues(values => ({
+      ...values,
+      [field]: values[field].includes(value)
+        ? values[field].filter(v => v !== value)
+        : [...values[field], value],
+    }))
+  }
+
+  async function saveFlag() {
+    setSaving(true)
+    try {
+      const isNew = editingId === 'new'
+      const res = await fetch(
+        isNew ? '/api/admin/settings/feature-flags' : `/api/admin/settings/feature-flags/${editingId}`,
+        {
+          method: isNew ? 'POST' : 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            ...toRequestBody(formValues),
+            change_reason: 'Updated via admin settings',
+          }),
+        }
+      )
+
+      const data = await res.json()
+      if (!res.ok) {
+        const detail = data.details?.[0]?.message
+        throw new Error(detail ? `${data.error}: ${detail}` : data.error || 'Save failed')
+      }
+
+      showToast(isNew ? 'Feature flag created' : 'Feature flag updated', 'success')
+      await loadFlags()
+      cancelEditing()
+    } catch (error) {
+      console.error('Error saving feature flag:', error)
+      showToast(error instanceof Error ? error.message : 'Failed to save feature flag', 'error')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function toggleEnabled(flag: FeatureFlag) {
+    try {
+      const res = await fetch(`/api/admin/settings/feature-flags/${flag.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          enabled: !flag.enabled,
+          change_reason: flag.enabled ? 'Disabled via admin settings' : 'Enabled via admin settings',
+        }),
+      })
+
+      if (!res.ok) throw new Error('Update failed')
+
+      showToast(flag.enabled ? `${flag.key} disabled` : `${flag.key} enabled`, 'success')
+      await loadFlags()
+    } catch (error) {
+      showToast('Failed to update feature flag', 'error')
+    }
+  }
+
+  async function deleteFlag(flag: FeatureFlag) {
+    if (!confirm(`Delete ${flag.key}? Code that checks this flag will read it as off.`)) return
+
+    try {
+      const res = await fetch(
+        `/api/admin/settings/feature-flags/${flag.id}?reason=${encodeURIComponent('Deleted via admin settings')}`,
+        { method: 'DELETE' }
+      )
+
+      if (!res.ok) throw new Error('Delete failed')
+
+      showToast(`${flag.key} deleted`, 'success')
+      await loadFlags()
+    } catch (error) {
+      showToast('Failed to delete feature flag', 'error')
+    }
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow">
+        <div className="px-6 py-4 border-b border-gray-200 bg-gray-50 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Feature Flags</h2>
+            <p className="text-sm text-gray-600">
+              Turn features on for specific users, roles, ZIP codes or services, or roll out to a share of users. Changes apply within a minute.
+            </p>
+          </div>
+          {editingId === null && (
+            <button
+              onClick={startCreating}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium transition-colors"
+            >
+              + New Flag
+            </button>
+          )}
+        </div>
+
+        {editingId !== null && (
+          <div className="p-6 border-b border-gray-200 space-y-4">
+            <h3 className="font-semibold text-gray-900">
+              {editingId === 'new' ? 'New feature flag' : `Edit ${formValues.key}`}
+            </h3>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Key</label>
+                <input
+                  type="text"
+                  value={formValues.key}
+                  disabled={editingId !== 'new'}
+                  onChange={(e) => setFormValues({ ...formValues, key: e.target.value.toLowerCase() })}
+                  placeholder="new_checkout_flow"
+                  className={`${inputClass} disabled:bg-gray-100 font-mono`}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Rollout (%)</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={formValues.rollout_percentage}
+                  onChange={(e) => setFormValues({ ...formValues, rollout_percentage: e.target.value })}
+                  className={inputClass}
+                />
+                <p className="text-xs text-gray-500 mt-1">Partial rollouts only reach signed-in users</p>
+              </div>
+              <div className="flex items-end pb-7">
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={formValues.enabled}
+                    onChange={(e) => setFormValues({ ...formValues, enabled: e.target.checked })}
+                    className="w-4 h-4 text-blue-600 border-gray-300 rounded"
+                  />
+                  Enabled
+                </label>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Description (optional)</label>
+              <input
+                type="text"
+                value={formValues.description}
+                onChange={(e) => setFormValues({ ...formValues, description: e.target.value })}
+                placeholder="Single-page laundry checkout"
+                className={inputClass}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Roles</label>
+                <div className="flex gap-4 py-2">
+                  {ROLES.map(role => (
+                    <label key={role} className="flex items-center gap-2 text-sm capitalize">
+                      <input
+                        type="checkbox"
+                        checked={formValues.target_roles.includes(role)}
+                        onChange={() => toggleListValue('target_roles', role)}
+                        className="w-4 h-4 text-blue-600 border-gray-300 rounded"
+                      />
+                      {role}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500">Leave unchecked for any role</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Services</label>
+                <div className="flex gap-4 py-2">
+                  {SERVICE_TYPES.map(serviceType => (
+                    <label key={serviceType} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={formValues.target_service_types.includes(serviceType)}
+                        onChange={() => toggleListValue('target_service_types', serviceType)}
+                        className="w-4 h-4 text-blue-600 border-gray-300 rounded"
+                      />
+                      {serviceType === 'LAUNDRY' ? 'Laundry' : 'Cleaning'}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500">Leave both unchecked for all services</p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">ZIP codes (optional)</label>
+                <input
+                  type="text"
+                  value={formValues.target_zip_codes}
+                  onChange={(e) => setFormValues({ ...formValues, target_zip_codes: e.target.value })}
+                  placeholder="10026, 10027"
+                  className={inputClass}
+                />
+                <p className="text-xs text-gray-500 mt-1">Leave blank for all ZIPs</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Always-on user IDs (optional)</label>
+                <input
+                  type="text"
+                  value={formValues.target_user_ids}
+                  onChange={(e) => setFormValues({ ...formValues, target_user_ids: e.target.value })}
+                  placeholder="User IDs, comma-separated"
+                  className={`${inputClass} font-mono`}
+                />
+                <p className="text-xs text-gray-500 mt-1">These users get the flag whenever it is enabled</p>
+              </div>
+            </div>
+
+            <div className="flex gap-3 pt-2">
+              <button
+                onClick={saveFlag}
+                disabled={saving}
+                className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium transition-colors disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save Flag'}
+              </button>
+              <button
+                onClick={cancelEditing}
+                className="px-6 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="p-6 text-center text-gray-500">Loading feature flags...</div>
+        ) : flags.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">No feature flags yet</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Flag</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Targeting</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rollout</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {flags.map(flag => (
+                  <tr key={flag.id}>
+                    <td className="px-6 py-4">
+                      <div className="font-mono font-semibold text-gray-900">{flag.key}</div>
+                      {flag.description && (
+                        <div className="text-xs text-gray-500">{flag.description}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-600">{describeTargeting(flag)}</td>
+                    <td className="px-6 py-4 text-sm text-gray-900">{flag.rollout_percentage}%</td>
+                    <td className="px-6 py-4">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                        flag.enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+                      }`}>
+                        {flag.enabled ? 'On' : 'Off'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-right text-sm space-x-3">
+                      <button
+                        onClick={() => startEditing(flag)}
+                        className="text-blue-600 hover:text-blue-800 font-medium"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => toggleEnabled(flag)}
+                        className="text-gray-600 hover:text-gray-800 font-medium"
+                      >
+                        {flag.enabled ? 'Disable' : 'Enable'}
+                      </button>
+                      <button
+                        onClick={() => deleteFlag(flag)}
+                        className="text-red-600 hover:text-red-800 font-medium"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
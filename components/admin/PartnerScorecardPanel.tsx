@@ -0,0 +1,128 @@
+'use client'
+
+import {
+  RATING_TAG_LABELS,
+  SCORECARD_METRIC_LABELS,
+  SCORECARD_THRESHOLDS,
+  type OrderRating,
+  type PartnerScorecard,
+  type RatingTag,
+  type ScorecardMetric,
+} from '@/lib/scorecards'
+
+interface PartnerScorecardPanelProps {
+  scorecard: Partial<PartnerScorecard> | null
+  reviews: Array<Pick<OrderRating, 'id' | 'order_id' | 'rating' | 'tags' | 'review' | 'created_at'>>
+}
+
+function formatPercent(value: number | null | undefined) {
+  return value === null || value === undefined ? '—' : `${Math.round(value * 100)}%`
+}
+
+function Stars({ rating }: { rating: number }) {
+  return (
+    <span className="text-yellow-500" aria-label={`${rating} stars`}>
+      {'★'.repeat(rating)}
+      <span className="text-gray-300">{'★'.repeat(5 - rating)}</span>
+    </span>
+  )
+}
+
+export default function PartnerScorecardPanel({ scorecard, reviews }: PartnerScorecardPanelProps) {
+  const lowMetrics: ScorecardMetric[] = scorecard?.low_metrics || []
+  const t = SCORECARD_THRESHOLDS
+
+  const metrics: Array<{ metric: ScorecardMetric; value: string; detail: string }> = [
+    {
+      metric: 'rating',
+      value: scorecard?.rating != null ? scorecard.rating.toFixed(1) : '—',
+      detail: `${scorecard?.review_count || 0} reviews • min ${t.minRating}`,
+    },
+    {
+      metric: 'on_time_rate',
+      value: formatPercent(scorecard?.on_time_rate),
+      detail: `${scorecard?.completed_orders || 0} orders • min ${formatPercent(t.minOnTimeRate)}`,
+    },
+    {
+      metric: 'no_show_count',
+      value: String(scorecard?.no_show_count || 0),
+      detail: `max ${t.maxNoShows}`,
+    },
+    {
+      metric: 'dispute_rate',
+      value: formatPercent(scorecard?.dispute_rate),
+      detail: `${scorecard?.dispute_count || 0} disputes • max ${formatPercent(t.maxDisputeRate)}`,
+    },
+  ]
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Scorecard</h2>
+          <p className="text-sm text-gray-600">
+            Ratings are all-time; order metrics cover the last {scorecard?.window_days || 90} days.
+          </p>
+        </div>
+        {scorecard?.updated_at && (
+          <span className="text-xs text-gray-500">Updated {new Date(scorecard.updated_at).toLocaleString()}</span>
+        )}
+      </div>
+
+      {lowMetrics.length > 0 && (
+        <div className="px-6 py-3 bg-red-50 border-b border-red-200 text-sm text-red-800">
+          Below threshold: {lowMetrics.map((metric) => SCORECARD_METRIC_LABELS[metric]).join(', ')}
+        </div>
+      )}
+
+      <div className="p-6 grid grid-cols-2 md:grid-cols-4 gap-4">
+        {metrics.map(({ metric, value, detail }) => {
+          const low = lowMetrics.includes(metric)
+          return (
+            <div key={metric} className={`rounded-lg border p-4 ${low ? 'border-red-300 bg-red-50' : 'border-gray-200'}`}>
+              <p className="text-sm text-gray-600">{SCORECARD_METRIC_LABELS[metric]}</p>
+              <p className={`text-2xl font-bold mt-1 ${low ? 'text-red-700' : 'text-gray-900'}`}>{value}</p>
+              <p className="text-xs text-gray-500 mt-1">{detail}</p>
+            </div>
+          )
+        })}
+      </div>
+
+      {scorecard?.tag_rates && (
+        <div className="px-6 pb-6 flex flex-wrap gap-2">
+          {(Object.entries(RATING_TAG_LABELS) as Array<[RatingTag, string]>).map(([tag, label]) => (
+            <span key={tag} className="px-3 py-1 bg-gray-100 text-gray-700 rounded-full text-sm">
+              {label}: {formatPercent(scorecard.tag_rates?.[tag])}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="border-t border-gray-200">
+        <h3 className="px-6 pt-4 text-sm font-semibold text-gray-900">Recent Reviews</h3>
+        {reviews.length === 0 ? (
+          <p className="px-6 py-4 text-sm text-gray-500">No reviews yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {reviews.map((review) => (
+              <li key={review.id} className="px-6 py-3">
+                <div className="flex items-center justify-between text-sm">
+                  <Stars rating={review.rating} />
+                  <a href={`/admin/orders/${review.order_id}`} className="text-xs text-blue-600 hover:text-blue-700">
+                    {new Date(review.created_at).toLocaleDateString()}
+                  </a>
+                </div>
+                {review.tags.length > 0 && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    {review.tags.map((tag) => RATING_TAG_LABELS[tag]).join(' • ')}
+                  </p>
+                )}
+                {review.review && <p className="text-sm text-gray-700 mt-1">{review.review}</p>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,322 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import type { PricingVersion } from '@/lib/pricing-versions'
+import type { PricingPreviewLine } from '@/lib/pricing'
+
+interface PricingVersionsManagerProps {
+  /** Version whose rules the pricing tab is showing */
+  selectedVersionId: string | null
+  onSelectVersion: (versionId: string | null) => void
+  showToast: (message: string, type: 'success' | 'error') => void
+}
+
+// datetime-local inputs work in local time without an offset
+function fromInputDateTime(value: string): string | null {
+  return value ? new Date(value).toISOString() : null
+}
+
+function formatDateTime(iso: string | null): string {
+  return iso ? new Date(iso).toLocaleString() : '—'
+}
+
+function formatCents(cents: number | null | undefined): string {
+  if (cents === null || cents === undefined) return '—'
+  return `$${(cents / 100).toFixed(2)}`
+}
+
+function formatDifference(cents: number | null): string {
+  if (cents === null) return '—'
+  if (cents === 0) return 'No change'
+  return `${cents > 0 ? '+' : '−'}${formatCents(Math.abs(cents))}`
+}
+
+function describeStatus(version: PricingVersion, effectiveVersionId: string | null): { label: string; className: string } {
+  if (version.status === 'draft') {
+    return { label: '📝 DRAFT', className: 'bg-yellow-100 text-yellow-800' }
+  }
+  if (version.id === effectiveVersionId) {
+    return { label: '🟢 IN EFFECT', className: 'bg-green-100 text-green-700' }
+  }
+  if (version.effective_from && new Date(version.effective_from) > new Date()) {
+    return { label: '🕒 SCHEDULED', className: 'bg-blue-100 text-blue-700' }
+  }
+  return { label: '⚪ RETIRED', className: 'bg-gray-100 text-gray-600' }
+}
+
+/**
+ * Pricing version management for the admin settings page: stage a draft,
+ * preview it against sample carts, then publish it now or on a schedule
+ */
+export default function PricingVersionsManager({
+  selectedVersionId,
+  onSelectVersion,
+  showToast,
+}: PricingVersionsManagerProps) {
+  const [versions, setVersions] = useState<PricingVersion[]>([])
+  const [effectiveVersionId, setEffectiveVersionId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [working, setWorking] = useState(false)
+  const [effectiveFrom, setEffectiveFrom] = useState('')
+  const [preview, setPreview] = useState<PricingPreviewLine[] | null>(null)
+
+  const draft = versions.find(v => v.status === 'draft') || null
+
+  useEffect(() => {
+    loadVersions()
+  }, [])
+
+  async function loadVersions() {
+    setLoading(true)
+    try {
+      const res = await fetch(`/api/admin/settings/pricing/versions?t=${Date.now()}`, { cache: 'no-store' })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to load pricing versions')
+      setVersions(data.versions || [])
+      setEffectiveVersionId(data.effective_version_id)
+    } catch (error) {
+      console.error('Error loading pricing versions:', error)
+      showToast('Failed to load pricing versions', 'error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function createDraft() {
+    setWorking(true)
+    try {
+      const res = await fetch('/api/admin/settings/pricing/versions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ change_reason: 'Created via admin settings' }),
+      })
+
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to create draft')
+
+      showToast(`Draft v${data.version.version} created from the current prices`, 'success')
+      await loadVersions()
+      onSelectVersion(data.version.id)
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to create draft', 'error')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  async function previewDraft() {
+    if (!draft) return
+
+    setWorking(true)
+    try {
+      const res = await fetch(`/api/admin/settings/pricing/versions/${draft.id}/preview`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      })
+
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Preview failed')
+
+      setPreview(data.lines || [])
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to preview draft', 'error')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  async function publishDraft() {
+    if (!draft) return
+
+    const when = effectiveFrom ? new Date(effectiveFrom).toLocaleString() : 'immediately'
+    if (!confirm(`Publish v${draft.version}? New bookings will be priced with it ${effectiveFrom ? `from ${when}` : when}.`)) return
+
+    setWorking(true)
+    try {
+      const res = await fetch(`/api/admin/settings/pricing/versions/${draft.id}/publish`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          effective_from: fromInputDateTime(effectiveFrom),
+          change_reason: 'Published via admin settings',
+        }),
+      })
+
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Publish failed')
+
+      showToast(`v${draft.version} published, effective ${when}`, 'success')
+      setPreview(null)
+      setEffectiveFrom('')
+      await loadVersions()
+      onSelectVersion(draft.id)
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : 'Failed to publish draft', 'error')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  async function discardDraft() {
+    if (!draft) return
+    if (!confirm(`Discard draft v${draft.version} and all of its changes?`)) return
+
+    setWorking(true)
+    try {
+      const res = await fetch(
+        `/api/admin/settings/pricing/versions/${draft.id}?reason=${encodeURIComponent('Discarded via admin settings')}`,
+        { method: 'DELETE' }
+      )
+
+      if (!res.ok) throw new Error('Discard failed')
+
+      showToast(`Draft v${draft.version} discarded`, 'success')
+      setPreview(null)
+      await loadVersions()
+      onSelectVersion(null)
+    } catch (error) {
+      showToast('Failed to discard draft', 'error')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const buttonClass = 'px-4 py-2 rounded-lg font-medium text-sm transition-colors disabled:opacity-50'
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="px-6 py-4 border-b border-gray-200 bg-gray-50 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Pricing Versions</h2>
+          <p className="text-sm text-gray-600">
+            Published prices are locked. Stage changes in a draft, preview them, then publish now or schedule them.
+          </p>
+        </div>
+        {!draft && (
+          <button
+            onClick={createDraft}
+            disabled={working || loading}
+            className={`${buttonClass} bg-blue-600 text-white hover:bg-blue-700`}
+          >
+            + New Draft
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="p-6 text-sm text-gray-500">Loading versions...</div>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {versions.map(version => {
+            const status = describeStatus(version, effectiveVersionId)
+            const isSelected = selectedVersionId ? version.id === selectedVersionId : version.id === effectiveVersionId
+            return (
+              <div
+                key={version.id}
+                className={`px-6 py-3 flex items-center justify-between ${isSelected ? 'bg-blue-50' : ''}`}
+              >
+                <div>
+                  <div className="flex items-center gap-3">
+                    <span className="font-semibold text-gray-900">v{version.version}</span>
+                    <span className={`px-2 py-0.5 text-xs rounded-full font-medium ${status.className}`}>
+                      {status.label}
+                    </span>
+                  </div>
+                  <p className="mt-1 text-xs text-gray-500">
+                    {version.status === 'draft'
+                      ? `Created ${formatDateTime(version.created_at)}`
+                      : `Effective ${formatDateTime(version.effective_from)}${version.effective_to ? ` until ${formatDateTime(version.effective_to)}` : ''}`}
+                    {version.notes ? ` • ${version.notes}` : ''}
+                  </p>
+                </div>
+                {!isSelected && (
+                  <button
+                    onClick={() => onSelectVersion(version.id)}
+                    className={`${buttonClass} border border-gray-300 text-gray-700 hover:bg-gray-50`}
+                  >
+                    {version.status === 'draft' ? 'Edit rules' : 'View rules'}
+                  </button>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {draft && (
+        <div className="p-6 border-t border-gray-200 space-y-4">
+          <div className="flex flex-wrap items-end gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Takes effect</label>
+              <input
+                type="datetime-local"
+                value={effectiveFrom}
+                onChange={(e) => setEffectiveFrom(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+              <p className="mt-1 text-xs text-gray-500">Leave empty to publish immediately</p>
+            </div>
+            <button
+              onClick={previewDraft}
+              disabled={working}
+              className={`${buttonClass} border border-gray-300 text-gray-700 hover:bg-gray-50`}
+            >
+              Preview v{draft.version}
+            </button>
+            <button
+              onClick={publishDraft}
+              disabled={working}
+              className={`${buttonClass} bg-green-600 text-white hover:bg-green-700`}
+            >
+              {effectiveFrom ? 'Schedule' : 'Publish now'}
+            </button>
+            <button
+              onClick={discardDraft}
+              disabled={working}
+              className={`${buttonClass} border border-red-300 text-red-700 hover:bg-red-50`}
+            >
+              Discard draft
+            </button>
+          </div>
+
+          {preview && (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-200">
+                    <th className="py-2 pr-4 font-medium">Sample cart</th>
+                    <th className="py-2 pr-4 font-medium text-right">Current</th>
+                    <th className="py-2 pr-4 font-medium text-right">Draft v{draft.version}</th>
+                    <th className="py-2 font-medium text-right">Difference</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {preview.map(line => (
+                    <tr key={line.label}>
+                      <td className="py-2 pr-4 text-gray-900">
+                        {line.label}
+                        {line.error && <p className="text-xs text-red-600">{line.error}</p>}
+                      </td>
+                      <td className="py-2 pr-4 text-right">{formatCents(line.current?.total_cents)}</td>
+                      <td className="py-2 pr-4 text-right">{formatCents(line.preview?.total_cents)}</td>
+                      <td className={`py-2 text-right font-medium ${
+                        line.difference_cents && line.difference_cents > 0
+                          ? 'text-red-600'
+                          : line.difference_cents && line.difference_cents < 0
+                            ? 'text-green-600'
+                            : 'text-gray-500'
+                      }`}>
+                        {formatDifference(line.difference_cents)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
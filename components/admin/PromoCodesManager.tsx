@@ -0,0 +1,522 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  PROMO_DISCOUNT_TYPE_LABELS,
+  describePromoDiscount,
+  type PromoCode,
+  type PromoDiscountType,
+} from '@/lib/promos'
+
+interface AdminPromoCode extends PromoCode {
+  redemption_count: number
+}
+
+interface PromoFormValues {
+  code: string
+  description: string
+  discount_type: PromoDiscountType
+  percent_off: string
+  amount_off_dollars: string
+  free_addon_key: string
+  service_types: string[]
+  zip_codes: string
+  starts_at: string
+  expires_at: string
+  max_redemptions: string
+  max_redemptions_per_user: string
+  first_order_only: boolean
+  active: boolean
+}
+
+interface PromoCodesManagerProps {
+  showToast: (message: string, type: 'success' | 'error') => void
+}
+
+const EMPTY_FORM: PromoFormValues = {
+  code: '',
+  description: '',
+  discount_type: 'PERCENT',
+  percent_off: '',
+  amount_off_dollars: '',
+  free_addon_key: '',
+  service_types: [],
+  zip_codes: '',
+  starts_at: '',
+  expires_at: '',
+  max_redemptions: '',
+  max_redemptions_per_user: '',
+  first_order_only: false,
+  active: true,
+}
+
+// datetime-local inputs work in local time without an offset
+function toInputDateTime(iso: string | null): string {
+  if (!iso) return ''
+  const date = new Date(iso)
+  const offsetMs = date.getTimezoneOffset() * 60000
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16)
+}
+
+function fromInputDateTime(value: string): string | null {
+  return value ? new Date(value).toISOString() : null
+}
+
+function toOptionalInt(value: string): number | null {
+  return value.trim() ? parseInt(value, 10) : null
+}
+
+function toFormValues(promo: PromoCode): PromoFormValues {
+  return {
+    code: promo.code,
+    description: promo.description || '',
+    discount_type: promo.discount_type,
+    percent_off: promo.percent_off?.toString() || '',
+    amount_off_dollars: promo.amount_off_cents ? (promo.amount_off_cents / 100).toFixed(2) : '',
+    free_addon_key: promo.free_addon_key || '',
+    service_types: promo.service_types || [],
+    zip_codes: (promo.zip_codes || []).join(', '),
+    starts_at: toInputDateTime(promo.starts_at),
+    expires_at: toInputDateTime(promo.expires_at),
+    max_redemptions: promo.max_redemptions?.toString() || '',
+    max_redemptions_per_user: promo.max_redemptions_per_user?.toString() || '',
+    first_order_only: promo.first_order_only,
+    active: promo.active,
+  }
+}
+
+function toRequestBody(values: PromoFormValues) {
+  const zipCodes = values.zip_codes.split(/[\s,]+/).filter(Boolean)
+
+  return {
+    code: values.code,
+    description: values.description.trim() || null,
+    discount_type: values.discount_type,
+    percent_off: values.discount_type === 'PERCENT' ? parseFloat(values.percent_off) || null : null,
+    amount_off_cents: values.discount_type === 'FIXED'
+      ? Math.round((parseFloat(values.amount_off_dollars) || 0) * 100) || null
+      : null,
+    free_addon_key: values.discount_type === 'FREE_ADDON' ? values.free_addon_key.trim() || null : null,
+    service_types: values.service_types.length > 0 ? values.service_types : null,
+    zip_codes: zipCodes.length > 0 ? zipCodes : null,
+    starts_at: fromInputDateTime(values.starts_at),
+    expires_at: fromInputDateTime(values.expires_at),
+    max_redemptions: toOptionalInt(values.max_redemptions),
+    max_redemptions_per_user: toOptionalInt(values.max_redemptions_per_user),
+    first_order_only: values.first_order_only,
+    active: values.active,
+  }
+}
+
+function getPromoStatus(promo: PromoCode): { label: string; className: string } {
+  const now = new Date()
+  if (!promo.active) return { label: 'Inactive', className: 'bg-gray-100 text-gray-700' }
+  if (promo.expires_at && new Date(promo.expires_at) <= now) {
+    return { label: 'Expired', className: 'bg-red-100 text-red-800' }
+  }
+  if (promo.starts_at && new Date(promo.starts_at) > now) {
+    return { label: 'Scheduled', className: 'bg-yellow-100 text-yellow-800' }
+  }
+  return { label: 'Active', className: 'bg-green-100 text-green-800' }
+}
+
+/**
+ * Promo code management for the admin settings page
+ */
+export default function PromoCodesManager({ showToast }: PromoCodesManagerProps) {
+  const [promos, setPromos] = useState<AdminPromoCode[]>([])
+  const [loading, setLoading] = useState(true)
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null)
+  const [formValues, setFormValues] = useState<PromoFormValues>(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    loadPromos()
+  }, [])
+
+  async function loadPromos() {
+    setLoading(true)
+    try {
+      const res = await fetch(`/api/admin/settings/promos?t=${Date.now()}`, { cache: 'no-store' })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to load promo codes')
+      setPromos(data.promos || [])
+    } catch (error) {
+      console.error('Error loading promo codes:', error)
+      showToast('Failed to load promo codes', 'error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  function startCreating() {
+    setEditingId('new')
+    setFormValues(EMPTY_FORM)
+  }
+
+  function startEditing(promo: PromoCode) {
+    setEditingId(promo.id)
+    setFormValues(toFormValues(promo))
+  }
+
+  function cancelEditing() {
+    setEditingId(null)
+    setFormValues(EMPTY_FORM)
+  }
+
+  function toggleServiceType(serviceType: string) {
+    setFormValues(values => ({
+      ...values,
+      service_types: values.service_types.includes(serviceType)
+        ? values.service_types.filter(s => s !== serviceType)
+        : [...values.service_types, serviceType],
+    }))
+  }
+
+  async function savePromo() {
+    setSaving(true)
+    try {
+      const isNew = editingId === 'new'
+      const res = await fetch(
+        isNew ? '/api/admin/settings/promos' : `/api/admin/settings/promos/${editingId}`,
+        {
+          method: isNew ? 'POST' : 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            ...toRequestBody(formValues),
+            change_reason: 'Updated via admin settings',
+          }),
+        }
+      )
+
+      const data = await res.json()
+      if (!res.ok) {
+        const detail = data.details?.[0]?.message
+        throw new Error(detail ? `${data.error}: ${detail}` : data.error || 'Save failed')
+      }
+
+      showToast(isNew ? 'Promo code created' : 'Promo code updated', 'success')
+      await loadPromos()
+      cancelEditing()
+    } catch (error) {
+      console.error('Error saving promo code:', error)
+      showToast(error instanceof Error ? error.message : 'Failed to save promo code', 'error')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function toggleActive(promo: PromoCode) {
+    try {
+      const res = await fetch(`/api/admin/settings/promos/${promo.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          active: !promo.active,
+          change_reason: promo.active ? 'Deactivated via admin settings' : 'Activated via admin settings',
+        }),
+      })
+
+      if (!res.ok) throw new Error('Update failed')
+
+      showToast(promo.active ? `${promo.code} deactivated` : `${promo.code} activated`, 'success')
+      await loadPromos()
+    } catch (error) {
+      showToast('Failed to update promo code', 'error')
+    }
+  }
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow">
+        <div className="px-6 py-4 border-b border-gray-200 bg-gray-50 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Promo Codes</h2>
+            <p className="text-sm text-gray-600">
+              Discounts are shown as a line item on the customer&apos;s quote and recorded against the order.
+            </p>
+          </div>
+          {editingId === null && (
+            <button
+              onClick={startCreating}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium transition-colors"
+            >
+              + New Promo Code
+            </button>
+          )}
+        </div>
+
+        {editingId !== null && (
+          <div className="p-6 border-b border-gray-200 space-y-4">
+            <h3 className="font-semibold text-gray-900">
+              {editingId === 'new' ? 'New promo code' : `Edit ${formValues.code}`}
+            </h3>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Code</label>
+                <input
+                  type="text"
+                  value={formValues.code}
+                  disabled={editingId !== 'new'}
+                  onChange={(e) => setFormValues({ ...formValues, code: e.target.value.toUpperCase() })}
+                  placeholder="WELCOME10"
+                  className={`${inputClass} disabled:bg-gray-100`}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Discount type</label>
+                <select
+                  value={formValues.discount_type}
+                  onChange={(e) => setFormValues({ ...formValues, discount_type: e.target.value as PromoDiscountType })}
+                  className={inputClass}
+                >
+                  {Object.entries(PROMO_DISCOUNT_TYPE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                {formValues.discount_type === 'PERCENT' && (
+                  <>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Percent off</label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="100"
+                      value={formValues.percent_off}
+                      onChange={(e) => setFormValues({ ...formValues, percent_off: e.target.value })}
+                      className={inputClass}
+                    />
+                  </>
+                )}
+                {formValues.discount_type === 'FIXED' && (
+                  <>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Amount off ($)</label>
+                    <input
+                      type="number"
+                      min="0.01"
+                      step="0.01"
+                      value={formValues.amount_off_dollars}
+                      onChange={(e) => setFormValues({ ...formValues, amount_off_dollars: e.target.value })}
+                      className={inputClass}
+                    />
+                  </>
+                )}
+                {formValues.discount_type === 'FREE_ADDON' && (
+                  <>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Add-on key</label>
+                    <input
+                      type="text"
+                      value={formValues.free_addon_key}
+                      onChange={(e) => setFormValues({ ...formValues, free_addon_key: e.target.value.toUpperCase() })}
+                      placeholder="LND_DELICATE"
+                      className={inputClass}
+                    />
+                  </>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Description (optional)</label>
+              <input
+                type="text"
+                value={formValues.description}
+                onChange={(e) => setFormValues({ ...formValues, description: e.target.value })}
+                placeholder="Harlem launch promo"
+                className={inputClass}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Services</label>
+                <div className="flex gap-4 py-2">
+                  {['LAUNDRY', 'CLEANING'].map(serviceType => (
+                    <label key={serviceType} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={formValues.service_types.includes(serviceType)}
+                        onChange={() => toggleServiceType(serviceType)}
+                        className="w-4 h-4 text-blue-600 border-gray-300 rounded"
+                      />
+                      {serviceType === 'LAUNDRY' ? 'Laundry' : 'Cleaning'}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500">Leave both unchecked for all services</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">ZIP codes (optional)</label>
+                <input
+                  type="text"
+                  value={formValues.zip_codes}
+                  onChange={(e) => setFormValues({ ...formValues, zip_codes: e.target.value })}
+                  placeholder="10026, 10027"
+                  className={inputClass}
+                />
+                <p className="text-xs text-gray-500 mt-1">Leave blank for all served ZIPs</p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Starts (optional)</label>
+                <input
+                  type="datetime-local"
+                  value={formValues.starts_at}
+                  onChange={(e) => setFormValues({ ...formValues, starts_at: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Expires (optional)</label>
+                <input
+                  type="datetime-local"
+                  value={formValues.expires_at}
+                  onChange={(e) => setFormValues({ ...formValues, expires_at: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Total redemptions limit</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={formValues.max_redemptions}
+                  onChange={(e) => setFormValues({ ...formValues, max_redemptions: e.target.value })}
+                  placeholder="Unlimited"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Per-customer limit</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={formValues.max_redemptions_per_user}
+                  onChange={(e) => setFormValues({ ...formValues, max_redemptions_per_user: e.target.value })}
+                  placeholder="Unlimited"
+                  className={inputClass}
+                />
+              </div>
+              <div className="flex flex-col justify-end gap-2 pb-1">
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={formValues.first_order_only}
+                    onChange={(e) => setFormValues({ ...formValues, first_order_only: e.target.checked })}
+                    className="w-4 h-4 text-blue-600 border-gray-300 rounded"
+                  />
+                  First order only
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={formValues.active}
+                    onChange={(e) => setFormValues({ ...formValues, active: e.target.checked })}
+                    className="w-4 h-4 text-blue-600 border-gray-300 rounded"
+                  />
+                  Active
+                </label>
+              </div>
+            </div>
+
+            <div className="flex gap-3 pt-2">
+              <button
+                onClick={savePromo}
+                disabled={saving}
+                className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium transition-colors disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save Promo Code'}
+              </button>
+              <button
+                onClick={cancelEditing}
+                className="px-6 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 font-medium transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="p-6 text-center text-gray-500">Loading promo codes...</div>
+        ) : promos.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">No promo codes yet</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Code</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Discount</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Restrictions</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Redemptions</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {promos.map(promo => {
+                  const status = getPromoStatus(promo)
+                  const restrictions = [
+                    promo.service_types?.length ? promo.service_types.join(' / ') : null,
+                    promo.zip_codes?.length ? `ZIP ${promo.zip_codes.join(', ')}` : null,
+                    promo.first_order_only ? 'First order' : null,
+                    promo.max_redemptions_per_user ? `${promo.max_redemptions_per_user} per customer` : null,
+                    promo.expires_at ? `Expires ${new Date(promo.expires_at).toLocaleDateString()}` : null,
+                  ].filter(Boolean)
+
+                  return (
+                    <tr key={promo.id}>
+                      <td className="px-6 py-4">
+                        <div className="font-mono font-semibold text-gray-900">{promo.code}</div>
+                        {promo.description && (
+                          <div className="text-xs text-gray-500">{promo.description}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">{describePromoDiscount(promo)}</td>
+                      <td className="px-6 py-4 text-sm text-gray-600">
+                        {restrictions.length > 0 ? restrictions.join(' • ') : 'None'}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        {promo.redemption_count}
+                        {promo.max_redemptions ? ` / ${promo.max_redemptions}` : ''}
+                      </td>
+                      <td className="px-6 py-4">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${status.className}`}>
+                          {status.label}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-right text-sm space-x-3">
+                        <button
+                          onClick={() => startEditing(promo)}
+                          className="text-blue-600 hover:text-blue-800 font-medium"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => toggleActive(promo)}
+                          className="text-gray-600 hover:text-gray-800 font-medium"
+                        >
+                          {promo.active ? 'Deactivate' : 'Activate'}
+                        </button>
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,193 @@
+'use client'
+
+import { useState } from 'react'
+import type { PlannedSlot, SkippedSlot, SlotSkipReason } from '@/lib/capacity-templates'
+
+interface SlotGenerationPreviewProps {
+  partners: Array<{ id: string; name: string }>
+  /** Called after slots were generated */
+  onGenerated?: () => void
+}
+
+interface PreviewResult {
+  create: PlannedSlot[]
+  skipped: SkippedSlot[]
+  skipped_by_reason: Partial<Record<SlotSkipReason, number>>
+}
+
+const SKIP_REASON_LABELS: Record<SlotSkipReason, string> = {
+  exists: 'already scheduled',
+  blackout: 'holiday',
+  partner_exception: 'partner day off',
+  past: 'in the past',
+}
+
+const inputClass =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent'
+
+function toInputDate(date: Date) {
+  return date.toISOString().split('T')[0]
+}
+
+function formatSlot(slot: PlannedSlot) {
+  const start = new Date(slot.slot_start)
+  const end = new Date(slot.slot_end)
+  const day = start.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })
+  const time = (date: Date) => date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true })
+  return `${day}, ${time(start)} - ${time(end)}`
+}
+
+export default function SlotGenerationPreview({ partners, onGenerated }: SlotGenerationPreviewProps) {
+  const [startDate, setStartDate] = useState(() => toInputDate(new Date()))
+  const [endDate, setEndDate] = useState(() => toInputDate(new Date(Date.now() + 13 * 24 * 60 * 60 * 1000)))
+  const [partnerId, setPartnerId] = useState('')
+  const [serviceType, setServiceType] = useState('')
+  const [preview, setPreview] = useState<PreviewResult | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null)
+
+  const partnerNames = new Map(partners.map((partner) => [partner.id, partner.name]))
+
+  function getFilters() {
+    return {
+      start_date: startDate,
+      end_date: endDate,
+      ...(partnerId ? { partner_id: partnerId } : {}),
+      ...(serviceType ? { service_type: serviceType } : {}),
+    }
+  }
+
+  async function handlePreview() {
+    setLoading(true)
+    setMessage(null)
+    try {
+      const res = await fetch(`/api/admin/capacity/generate?${new URLSearchParams(getFilters())}`)
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to preview')
+      setPreview(data)
+    } catch (err) {
+      setPreview(null)
+      setMessage({ text: err instanceof Error ? err.message : 'Failed to preview', type: 'error' })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function handleGenerate() {
+    if (!preview || !confirm(`Create ${preview.create.length} slots?`)) return
+
+    setLoading(true)
+    setMessage(null)
+    try {
+      const res = await fetch('/api/admin/capacity/generate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(getFilters()),
+      })
+      const data = await res.json()
+      if (!res.ok) throw new Error(data.error || 'Failed to generate slots')
+      setPreview(null)
+      setMessage({ text: data.message, type: 'success' })
+      onGenerated?.()
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Failed to generate slots', type: 'error' })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const skippedSummary = preview
+    ? (Object.entries(preview.skipped_by_reason) as Array<[SlotSkipReason, number]>)
+        .map(([reason, count]) => `${count} ${SKIP_REASON_LABELS[reason]}`)
+        .join(', ')
+    : ''
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900">Generate from Templates</h2>
+        <p className="text-sm text-gray-600">
+          Preview the slots partner templates produce (default Mon-Sat schedule for partners without templates), then create them.
+        </p>
+      </div>
+
+      <div className="p-6 grid grid-cols-1 md:grid-cols-5 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Start Date</label>
+          <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">End Date</label>
+          <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Partner</label>
+          <select value={partnerId} onChange={(e) => setPartnerId(e.target.value)} className={inputClass}>
+            <option value="">All partners</option>
+            {partners.map((partner) => (
+              <option key={partner.id} value={partner.id}>
+                {partner.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Service</label>
+          <select value={serviceType} onChange={(e) => setServiceType(e.target.value)} className={inputClass}>
+            <option value="">Both</option>
+            <option value="LAUNDRY">Laundry</option>
+            <option value="CLEANING">Cleaning</option>
+          </select>
+        </div>
+        <div className="flex items-end">
+          <button
+            onClick={handlePreview}
+            disabled={loading || !startDate || !endDate}
+            className="w-full px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition disabled:opacity-50"
+          >
+            {loading ? 'Working...' : 'Preview'}
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <div className={`px-6 py-3 text-sm ${message.type === 'success' ? 'text-green-800 bg-green-50' : 'text-red-800 bg-red-50'}`}>
+          {message.text}
+        </div>
+      )}
+
+      {preview && (
+        <div className="border-t border-gray-200">
+          <div className="px-6 py-4 flex items-center justify-between">
+            <p className="text-sm text-gray-700">
+              <span className="font-semibold">{preview.create.length} slots</span> would be created
+              {skippedSummary && <span className="text-gray-500"> • skipped: {skippedSummary}</span>}
+            </p>
+            <button
+              onClick={handleGenerate}
+              disabled={loading || preview.create.length === 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition disabled:opacity-50"
+            >
+              Create {preview.create.length} Slots
+            </button>
+          </div>
+          {preview.create.length > 0 && (
+            <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100 border-t border-gray-200">
+              {preview.create.map((slot) => (
+                <li key={`${slot.partner_id}-${slot.slot_start}`} className="px-6 py-2 text-sm flex justify-between">
+                  <span className="text-gray-900">
+                    {partnerNames.get(slot.partner_id) || slot.partner_id} • {formatSlot(slot)}
+                  </span>
+                  <span className="text-gray-500">
+                    {slot.max_units} {slot.service_type === 'LAUNDRY' ? 'orders' : 'min'}
+                    {slot.template_id ? '' : ' • default schedule'}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
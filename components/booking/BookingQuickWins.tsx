@@ -47,13 +47,15 @@ export function SocialProofBanner({
 
 interface RushServiceCostBadgeProps {
   subtotal: number
+  /** Rush surcharge share of the subtotal (LaundryRates.rush_rate) */
+  rushRate: number
   isActive: boolean
 }
 
-export function RushServiceCostBadge({ subtotal, isActive }: RushServiceCostBadgeProps) {
+export function RushServiceCostBadge({ subtotal, rushRate, isActive }: RushServiceCostBadgeProps) {
   if (subtotal <= 0) return null
   
-  const rushFee = subtotal * 0.25
+  const rushFee = subtotal * rushRate
   
   return (
     <span className={`font-bold ml-2 transition-all ${
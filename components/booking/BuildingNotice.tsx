@@ -0,0 +1,37 @@
+'use client';
+
+import type { BuildingMatch } from '@/components/AddressAutocomplete';
+import { DOORMAN_POLICY_LABELS, type DoormanPolicy } from '@/lib/buildings';
+
+interface BuildingNoticeProps {
+  building: BuildingMatch | null;
+}
+
+/**
+ * Shown under the address when it matches a partner building
+ */
+export default function BuildingNotice({ building }: BuildingNoticeProps) {
+  if (!building) return null;
+
+  const policyLabel = DOORMAN_POLICY_LABELS[building.doorman_policy as DoormanPolicy];
+  const discountPercent = Math.round(building.discount_pct * 1000) / 10;
+
+  return (
+    <div className="rounded-xl border border-green-200 bg-green-50 p-4 text-sm">
+      <p className="font-medium text-green-900">
+        🏢 {building.name} is a TidyHood partner building
+      </p>
+      {discountPercent > 0 && (
+        <p className="text-green-800 mt-1">
+          Building residents save {discountPercent}% — applied to your estimate.
+        </p>
+      )}
+      {policyLabel && building.doorman_policy !== 'NONE' && (
+        <p className="text-green-800 mt-1">Drop-off: {policyLabel}</p>
+      )}
+      {building.dropoff_instructions && (
+        <p className="text-green-700 mt-1 whitespace-pre-line">{building.dropoff_instructions}</p>
+      )}
+    </div>
+  );
+}
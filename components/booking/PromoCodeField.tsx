@@ -0,0 +1,66 @@
+'use client';
+
+import { useState } from 'react';
+
+export interface PromoStatus {
+  code: string;
+  valid: boolean;
+  message?: string;
+}
+
+interface PromoCodeFieldProps {
+  status: PromoStatus | null;
+  discount: number;
+  onApply: (code: string) => void;
+  onRemove: () => void;
+}
+
+/**
+ * Promo code entry for the booking forms; the quote API validates the code
+ */
+export default function PromoCodeField({ status, discount, onApply, onRemove }: PromoCodeFieldProps) {
+  const [input, setInput] = useState('');
+
+  if (status?.valid) {
+    return (
+      <div className="flex items-center justify-between rounded-lg border border-green-200 bg-green-50 px-4 py-3 text-sm">
+        <span className="text-green-900">
+          🎉 <strong>{status.code}</strong> applied
+          {discount > 0 ? ` — you save $${discount.toFixed(2)}` : ''}
+        </span>
+        <button type="button" onClick={onRemove} className="text-green-800 underline hover:text-green-900">
+          Remove
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <label htmlFor="promo-code" className="block text-sm font-medium text-gray-700 mb-2">
+        Promo code
+      </label>
+      <div className="flex gap-2">
+        <input
+          id="promo-code"
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value.toUpperCase())}
+          placeholder="Enter code"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        />
+        <button
+          type="button"
+          onClick={() => input.trim() && onApply(input.trim())}
+          disabled={!input.trim()}
+          className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 font-medium hover:bg-gray-50 disabled:opacity-50"
+        >
+          Apply
+        </button>
+      </div>
+      {status && !status.valid && (
+        <p className="text-sm text-red-600 mt-1" role="alert">{status.message}</p>
+      )}
+    </div>
+  );
+}
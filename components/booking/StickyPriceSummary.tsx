@@ -1,10 +1,13 @@
 'use client'
 
 import { PriceSummary } from '@/components/ui/PriceDisplay'
+import { formatRate } from '@/lib/pricing-rules'
 
 interface StickyPriceSummaryProps {
   subtotal: number
   tax: number
+  /** Quote's tax_breakdown.tax_rate */
+  taxRate: number
   total: number
   serviceType?: 'laundry' | 'cleaning'
   isEstimate?: boolean
@@ -13,6 +16,7 @@ interface StickyPriceSummaryProps {
 export function StickyPriceSummary({
   subtotal,
   tax,
+  taxRate,
   total,
   serviceType = 'laundry',
   isEstimate = true
@@ -32,7 +36,7 @@ export function StickyPriceSummary({
           <PriceSummary
             rows={[
               { label: 'Subtotal', amount: subtotal },
-              { label: 'Tax (8.875%)', amount: tax }
+              { label: `Tax (${formatRate(taxRate)})`, amount: tax }
             ]}
             total={total}
             totalLabel={isEstimate ? 'Estimated Total' : 'Total'}
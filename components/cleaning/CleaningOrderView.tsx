@@ -11,6 +11,38 @@ import { DisputeModal } from './DisputeModal';
 import { PartnerInfoCard } from './PartnerInfoCard';
 import { getCleaningStatusConfig } from '@/types/cleaningOrders';
 
+/**
+ * Upload a dispute photo straight to storage through a signed URL, then have
+ * the server check and record it. Returns its URL, or null if it failed.
+ */
+async function uploadDisputePhoto(orderId: string, file: File): Promise<string | null> {
+  const target = { order_id: orderId, purpose: 'dispute' };
+
+  const requestRes = await fetch('/api/upload', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...target, filename: file.name, content_type: file.type, size_bytes: file.size }),
+  });
+  if (!requestRes.ok) return null;
+  const { path, upload_url } = await requestRes.json();
+
+  const putRes = await fetch(upload_url, {
+    method: 'PUT',
+    headers: { 'Content-Type': file.type },
+    body: file,
+  });
+  if (!putRes.ok) return null;
+
+  const completeRes = await fetch('/api/upload/complete', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...target, path }),
+  });
+  if (!completeRes.ok) return null;
+  const { url } = await completeRes.json();
+  return url;
+}
+
 interface CleaningOrderViewProps {
   order: CleaningOrder;
   userRole?: 'customer' | 'partner' | 'admin';
@@ -57,17 +89,8 @@ export function CleaningOrderView({
       // Upload proof files first (if any)
       const proofUrls: string[] = [];
       for (const file of proofFiles) {
-        const formData = new FormData();
-        formData.append('file', file);
-        formData.append('order_id', order.id);
-        
-        const uploadRes = await fetch('/api/upload', {
-          method: 'POST',
-          body: formData,
-        });
-        
-        if (uploadRes.ok) {
-          const { url } = await uploadRes.json();
+        const url = await uploadDisputePhoto(order.id, file);
+        if (url) {
           proofUrls.push(url);
         }
       }
@@ -1,6 +1,8 @@
 'use client';
 
-import { Frequency, RECURRING_DISCOUNT } from '@/lib/types';
+import { useEffect, useState } from 'react';
+import { Frequency } from '@/lib/types';
+import type { DiscountFrequency } from '@/lib/pricing-rules';
 
 interface FrequencySelectorProps {
   value: Frequency;
@@ -9,24 +11,22 @@ interface FrequencySelectorProps {
   onFirstVisitDeepChange?: (deep: boolean) => void;
 }
 
-const FREQUENCY_INFO: Record<Frequency, { label: string; discount?: string; description: string }> = {
+// Discounts come from the pricing rules in effect (see /api/pricing/display)
+const FREQUENCY_INFO: Record<Frequency, { label: string; description: string }> = {
   oneTime: {
     label: 'One-Time',
     description: 'Single cleaning service',
   },
   weekly: {
     label: 'Weekly',
-    discount: '20% off',
     description: 'Every week (visits 2+)',
   },
   biweekly: {
     label: 'Bi-Weekly',
-    discount: '15% off',
     description: 'Every 2 weeks (visits 2+)',
   },
   monthly: {
     label: 'Monthly',
-    discount: '10% off',
     description: 'Every month (visits 2+)',
   },
 };
@@ -39,12 +39,26 @@ export default function FrequencySelector({
 }: FrequencySelectorProps) {
   const frequencies: Frequency[] = ['oneTime', 'weekly', 'biweekly', 'monthly'];
   const isRecurring = value !== 'oneTime';
+  const [discounts, setDiscounts] = useState<Record<DiscountFrequency, number> | null>(null);
+
+  useEffect(() => {
+    fetch('/api/pricing/display')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setDiscounts(data?.cleaning?.recurringDiscounts ?? null))
+      .catch((err) => console.error('Failed to load recurring discounts:', err));
+  }, []);
+
+  function getDiscountLabel(freq: Frequency): string | null {
+    const rate = freq === 'oneTime' ? 0 : discounts?.[freq] ?? 0;
+    return rate > 0 ? `${Math.round(rate * 100)}% off` : null;
+  }
 
   return (
     <div className="space-y-3">
       <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
         {frequencies.map((freq) => {
           const info = FREQUENCY_INFO[freq];
+          const discount = getDiscountLabel(freq);
           const isSelected = value === freq;
           
           return (
@@ -64,13 +78,13 @@ export default function FrequencySelector({
                 }`}>
                   {info.label}
                 </span>
-                {info.discount && (
+                {discount && (
                   <span className={`text-xs font-semibold px-1.5 py-0.5 rounded ${
                     isSelected 
                       ? 'bg-blue-600 text-white' 
                       : 'bg-green-100 text-green-700'
                   }`}>
-                    {info.discount}
+                    {discount}
                   </span>
                 )}
               </div>
@@ -89,8 +103,7 @@ export default function FrequencySelector({
         <div className="rounded-md border border-blue-200 bg-blue-50 px-3 py-2.5">
           <p className="text-xs text-gray-700">
             <span className="font-medium">First visit billed at regular price.</span>
-            {' '}
-            {FREQUENCY_INFO[value].discount} discount starts on your second visit.
+            {getDiscountLabel(value) && ` ${getDiscountLabel(value)} discount starts on your second visit.`}
           </p>
         </div>
       )}
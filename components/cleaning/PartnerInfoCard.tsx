@@ -9,6 +9,7 @@ interface Partner {
   photo_url?: string | null;
   rating?: number | null;
   review_count?: number | null;
+  on_time_rate?: number | null;
   phone?: string | null;
 }
 
@@ -23,7 +24,8 @@ interface PartnerInfoCardProps {
  * Shows:
  * - Partner name
  * - Profile photo (or placeholder)
- * - Rating & review count
+ * - Rating & review count (or "New to Tidyhood" before the first review)
+ * - On-time rate
  * - Contact button
  * 
  * Builds trust and transparency for customers
@@ -104,21 +106,30 @@ export function PartnerInfoCard({ partnerId, className = '' }: PartnerInfoCardPr
           </h3>
           
           {/* Rating */}
-          {partner.rating !== null && partner.rating !== undefined && (
-            <div className="flex items-center gap-2 mt-1">
-              <div className="flex items-center">
-                <span className="text-yellow-500 text-base">★</span>
-                <span className="text-sm font-medium text-gray-700 ml-1">
-                  {partner.rating.toFixed(1)}
-                </span>
-              </div>
-              {partner.review_count && partner.review_count > 0 && (
-                <span className="text-sm text-gray-500">
-                  {partner.review_count}
-                </span>
-              )}
-            </div>
-          )}
+          <div className="flex items-center gap-2 mt-1">
+            {partner.rating !== null && partner.rating !== undefined ? (
+              <>
+                <div className="flex items-center">
+                  <span className="text-yellow-500 text-base">★</span>
+                  <span className="text-sm font-medium text-gray-700 ml-1">
+                    {partner.rating.toFixed(1)}
+                  </span>
+                </div>
+                {!!partner.review_count && (
+                  <span className="text-sm text-gray-500">
+                    ({partner.review_count} {partner.review_count === 1 ? 'review' : 'reviews'})
+                  </span>
+                )}
+              </>
+            ) : (
+              <span className="text-sm text-gray-500">New to Tidyhood</span>
+            )}
+            {partner.on_time_rate !== null && partner.on_time_rate !== undefined && (
+              <span className="text-sm text-gray-500">
+                · {Math.round(partner.on_time_rate * 100)}% on time
+              </span>
+            )}
+          </div>
           
           {/* Verified Badge */}
           <div className="flex items-center gap-1 mt-1">
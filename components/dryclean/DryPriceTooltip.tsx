@@ -1,8 +1,29 @@
 'use client';
 
-import { DRY_CLEAN_PRICE_SAMPLES, DRY_CLEAN_DISCLAIMER } from '@/lib/drycleanPrices';
+import { useEffect, useState } from 'react';
+import { DRY_CLEAN_PRICE_SAMPLES, DRY_CLEAN_DISCLAIMER, type DryItemPrice } from '@/lib/drycleanPrices';
+import type { DryCleanGarment } from '@/lib/pricing-rules';
 
 export default function DryPriceTooltip() {
+  const [prices, setPrices] = useState<DryItemPrice[]>(DRY_CLEAN_PRICE_SAMPLES);
+
+  // Starting prices from the garment catalog quotes are priced with
+  useEffect(() => {
+    fetch('/api/pricing/display')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        const garments: DryCleanGarment[] = data?.laundry?.dryCleanGarments || [];
+        if (garments.length > 0) {
+          setPrices(garments.map((garment) => ({
+            key: garment.key,
+            label: garment.label,
+            approx: `$${(garment.price_cents / 100).toFixed(0)}+`,
+          })));
+        }
+      })
+      .catch((err) => console.error('Failed to load dry-clean pricing:', err));
+  }, []);
+
   return (
     <div className="max-w-[20rem]">
       <div className="mb-2 text-sm font-semibold text-gray-900">
@@ -11,7 +32,7 @@ export default function DryPriceTooltip() {
       
       <div className="max-h-[280px] overflow-y-auto">
         <ul className="space-y-1.5">
-          {DRY_CLEAN_PRICE_SAMPLES.map((item) => (
+          {prices.map((item) => (
             <li key={item.key} className="flex justify-between gap-3 text-xs">
               <span className="text-gray-700">
                 {item.label}
@@ -0,0 +1,72 @@
+'use client';
+import * as React from 'react';
+import { BAG_SCAN_EVENTS, BAG_STATUS_LABELS, type BagScanEvent, type BagStatus } from '@/lib/bags';
+
+export interface TimelineBag {
+  id: string;
+  label_code: string;
+  status?: BagStatus;
+  weight_lbs?: number | null;
+  bag_scan_events?: Array<{
+    event: BagScanEvent;
+    weight_lbs: number | null;
+    scanned_at: string;
+  }>;
+}
+
+function formatScanTime(iso: string): string {
+  return new Date(iso).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Where each of the order's bags is, from its label scans
+ */
+export default function BagTimeline({ bags }: { bags: TimelineBag[] }) {
+  return (
+    <>
+      <h3 className="text-lg font-semibold mb-4">Your Bags</h3>
+      <div className="space-y-4">
+        {bags.map((bag, i) => {
+          const scans = bag.bag_scan_events || [];
+          const lastScanAt = (event: BagScanEvent) =>
+            scans.filter((scan) => scan.event === event).pop()?.scanned_at;
+
+          return (
+            <div key={bag.id}>
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-sm font-medium text-gray-900">
+                  Bag {i + 1} <span className="font-mono text-xs text-gray-500">{bag.label_code}</span>
+                </p>
+                <span className="text-xs text-gray-600">
+                  {BAG_STATUS_LABELS[bag.status || 'created']}
+                  {bag.weight_lbs ? ` · ${bag.weight_lbs} lbs` : ''}
+                </span>
+              </div>
+              <ol className="grid grid-cols-5 gap-1">
+                {BAG_SCAN_EVENTS.map((event) => {
+                  const scannedAt = lastScanAt(event);
+                  return (
+                    <li key={event} className="text-center">
+                      <div className={`h-1.5 rounded-full ${scannedAt ? 'bg-primary-500' : 'bg-gray-200'}`} />
+                      <p className={`mt-1 text-[11px] ${scannedAt ? 'text-gray-900' : 'text-gray-400'}`}>
+                        {BAG_STATUS_LABELS[event]}
+                      </p>
+                      {scannedAt && (
+                        <p className="text-[10px] text-gray-500">{formatScanTime(scannedAt)}</p>
+                      )}
+                    </li>
+                  );
+                })}
+              </ol>
+            </div>
+          );
+        })}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,207 @@
+'use client'
+
+import { useState } from 'react'
+import { CLAIM_TYPE_LABELS, type ClaimType } from '@/lib/claims'
+
+interface ClaimModalProps {
+  isOpen: boolean
+  onClose: () => void
+  orderId: string
+  bags?: Array<{ id: string; label_code: string }>
+  onSuccess?: () => void
+}
+
+const CLAIM_TYPES = Object.entries(CLAIM_TYPE_LABELS) as Array<[ClaimType, string]>
+
+export default function ClaimModal({ isOpen, onClose, orderId, bags = [], onSuccess }: ClaimModalProps) {
+  const [type, setType] = useState<ClaimType | ''>('')
+  const [description, setDescription] = useState('')
+  const [amount, setAmount] = useState('')
+  const [bagId, setBagId] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleClose = () => {
+    setType('')
+    setDescription('')
+    setAmount('')
+    setBagId('')
+    setError(null)
+    onClose()
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!type || description.trim().length < 10) return
+
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/orders/${orderId}/claims`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type,
+          description: description.trim(),
+          requested_cents: amount ? Math.round(parseFloat(amount) * 100) : undefined,
+          bag_id: bagId || undefined,
+        }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to submit claim')
+      }
+
+      if (onSuccess) {
+        onSuccess()
+      }
+      handleClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 transition-opacity"
+        onClick={handleClose}
+      />
+
+      {/* Modal */}
+      <div className="flex min-h-full items-end justify-center p-4 text-center sm:items-center sm:p-0">
+        <div
+          className="relative transform overflow-hidden rounded-lg bg-white px-4 pb-4 pt-5 text-left shadow-xl transition-all sm:my-8 sm:w-full sm:max-w-lg sm:p-6"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="mb-4">
+            <div className="mx-auto flex h-12 w-12 items-center justify-center rounded-full bg-orange-100">
+              <svg className="h-6 w-6 text-orange-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+              </svg>
+            </div>
+            <h3 className="mt-4 text-center text-lg font-semibold text-gray-900">
+              Report a Problem
+            </h3>
+            <p className="mt-2 text-center text-sm text-gray-500">
+              Missing or damaged items? Tell us what happened and our team will review it within 24 hours.
+            </p>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label htmlFor="claimType" className="block text-sm font-medium text-gray-700 mb-2">
+                What went wrong? *
+              </label>
+              <select
+                id="claimType"
+                value={type}
+                onChange={(e) => setType(e.target.value as ClaimType)}
+                required
+                className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              >
+                <option value="">Select an issue</option>
+                {CLAIM_TYPES.map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {bags.length > 1 && (
+              <div>
+                <label htmlFor="claimBag" className="block text-sm font-medium text-gray-700 mb-2">
+                  Which bag?
+                </label>
+                <select
+                  id="claimBag"
+                  value={bagId}
+                  onChange={(e) => setBagId(e.target.value)}
+                  className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                >
+                  <option value="">Not sure / all bags</option>
+                  {bags.map((bag) => (
+                    <option key={bag.id} value={bag.id}>
+                      {bag.label_code}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="claimDescription" className="block text-sm font-medium text-gray-700 mb-2">
+                Details *
+              </label>
+              <textarea
+                id="claimDescription"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                required
+                rows={4}
+                maxLength={2000}
+                placeholder="Which items are affected and what happened?"
+                className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                {description.length}/2000 characters
+              </p>
+            </div>
+
+            <div>
+              <label htmlFor="claimAmount" className="block text-sm font-medium text-gray-700 mb-2">
+                Amount requested (optional)
+              </label>
+              <div className="relative">
+                <span className="absolute left-3 top-2 text-sm text-gray-500">$</span>
+                <input
+                  id="claimAmount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  className="w-full rounded-md border border-gray-300 pl-7 pr-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+
+            {error && (
+              <div className="rounded-md bg-red-50 border border-red-200 p-3">
+                <p className="text-sm text-red-800">{error}</p>
+              </div>
+            )}
+
+            {/* Actions */}
+            <div className="flex flex-col-reverse gap-3 sm:flex-row sm:justify-end">
+              <button
+                type="button"
+                onClick={handleClose}
+                className="w-full sm:w-auto rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting || !type || description.trim().length < 10}
+                className="w-full sm:w-auto rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSubmitting ? 'Submitting...' : 'Submit Claim'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
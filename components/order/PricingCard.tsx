@@ -3,10 +3,13 @@ import InlineNote from './InlineNote';
 export default function PricingCard({ 
   rows, 
   totalCents, 
+  tipCents,
   note 
 }: {
   rows: Array<{ label: string; amountCents: number }>;
   totalCents: number;
+  /** Tip charged separately after completion; shown below the taxed total */
+  tipCents?: number;
   note?: string;
 }) {
   const money = (c: number) => (c / 100).toLocaleString(undefined, { style: 'currency', currency: 'USD' });
@@ -25,6 +28,18 @@ export default function PricingCard({
         <span className="text-gray-900">Total</span>
         <span className="text-gray-900">{money(totalCents)}</span>
       </div>
+      {!!tipCents && (
+        <div className="mt-3 space-y-2 border-t pt-3 text-sm">
+          <div className="flex items-center justify-between">
+            <span className="text-gray-700">Tip (not taxed)</span>
+            <span className="font-medium text-gray-900">{money(tipCents)}</span>
+          </div>
+          <div className="flex items-center justify-between font-semibold">
+            <span className="text-gray-900">Total with tip</span>
+            <span className="text-gray-900">{money(totalCents + tipCents)}</span>
+          </div>
+        </div>
+      )}
       {note && <InlineNote className="mt-3" text={note} />}
     </div>
   );
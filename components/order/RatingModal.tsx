@@ -0,0 +1,189 @@
+'use client'
+
+import { useState } from 'react'
+import { RATING_TAG_LABELS, type RatingTag } from '@/lib/scorecards'
+
+interface RatingModalProps {
+  isOpen: boolean
+  onClose: () => void
+  orderId: string
+  /** Who did the work, e.g. "your cleaner" */
+  partnerLabel?: string
+  onSuccess?: () => void
+}
+
+const RATING_TAGS = Object.entries(RATING_TAG_LABELS) as Array<[RatingTag, string]>
+
+const STAR_LABELS = ['Terrible', 'Poor', 'Okay', 'Good', 'Excellent']
+
+export default function RatingModal({ isOpen, onClose, orderId, partnerLabel = 'your pro', onSuccess }: RatingModalProps) {
+  const [rating, setRating] = useState(0)
+  const [hovered, setHovered] = useState(0)
+  const [tags, setTags] = useState<RatingTag[]>([])
+  const [review, setReview] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleClose = () => {
+    setRating(0)
+    setHovered(0)
+    setTags([])
+    setReview('')
+    setError(null)
+    onClose()
+  }
+
+  const toggleTag = (tag: RatingTag) => {
+    setTags((current) => (current.includes(tag) ? current.filter((t) => t !== tag) : [...current, tag]))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!rating) return
+
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/orders/${orderId}/rating`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          rating,
+          tags,
+          review: review.trim() || undefined,
+        }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to submit rating')
+      }
+
+      if (onSuccess) {
+        onSuccess()
+      }
+      handleClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  const shownRating = hovered || rating
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 transition-opacity"
+        onClick={handleClose}
+      />
+
+      {/* Modal */}
+      <div className="flex min-h-full items-end justify-center p-4 text-center sm:items-center sm:p-0">
+        <div
+          className="relative transform overflow-hidden rounded-lg bg-white px-4 pb-4 pt-5 text-left shadow-xl transition-all sm:my-8 sm:w-full sm:max-w-lg sm:p-6"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="mb-4">
+            <h3 className="text-center text-lg font-semibold text-gray-900">
+              How did we do?
+            </h3>
+            <p className="mt-2 text-center text-sm text-gray-500">
+              Your rating helps {partnerLabel} and helps us keep quality high.
+            </p>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="text-center">
+              <div className="flex justify-center gap-1" onMouseLeave={() => setHovered(0)}>
+                {[1, 2, 3, 4, 5].map((star) => (
+                  <button
+                    key={star}
+                    type="button"
+                    onClick={() => setRating(star)}
+                    onMouseEnter={() => setHovered(star)}
+                    aria-label={`${star} star${star === 1 ? '' : 's'}`}
+                    className={`text-4xl leading-none transition-colors ${
+                      star <= shownRating ? 'text-yellow-400' : 'text-gray-300'
+                    }`}
+                  >
+                    ★
+                  </button>
+                ))}
+              </div>
+              <p className="mt-1 h-5 text-sm text-gray-600">
+                {shownRating ? STAR_LABELS[shownRating - 1] : ''}
+              </p>
+            </div>
+
+            <div>
+              <p className="block text-sm font-medium text-gray-700 mb-2">What went well?</p>
+              <div className="flex flex-wrap gap-2">
+                {RATING_TAGS.map(([tag, label]) => (
+                  <button
+                    key={tag}
+                    type="button"
+                    onClick={() => toggleTag(tag)}
+                    className={`rounded-full border px-3 py-1 text-sm transition-colors ${
+                      tags.includes(tag)
+                        ? 'border-blue-600 bg-blue-50 text-blue-700'
+                        : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="ratingReview" className="block text-sm font-medium text-gray-700 mb-2">
+                Review (optional)
+              </label>
+              <textarea
+                id="ratingReview"
+                value={review}
+                onChange={(e) => setReview(e.target.value)}
+                rows={3}
+                maxLength={1000}
+                placeholder="Anything you'd like to share?"
+                className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+              />
+            </div>
+
+            {error && (
+              <div className="rounded-md bg-red-50 border border-red-200 p-3">
+                <p className="text-sm text-red-800">{error}</p>
+              </div>
+            )}
+
+            {/* Actions */}
+            <div className="flex flex-col-reverse gap-3 sm:flex-row sm:justify-end">
+              <button
+                type="button"
+                onClick={handleClose}
+                className="w-full sm:w-auto rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+              >
+                Not now
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting || !rating}
+                className="w-full sm:w-auto rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSubmitting ? 'Submitting...' : 'Submit Rating'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,193 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { MIN_TIP_CENTS, MAX_TIP_CENTS, type TipPreset, type TipSource } from '@/lib/tips'
+
+interface TipModalProps {
+  isOpen: boolean
+  onClose: () => void
+  orderId: string
+  /** Where the customer opened the tip step from */
+  source?: TipSource
+  /** Who receives the tip, e.g. "your cleaner" */
+  partnerLabel?: string
+  onSuccess?: (amountCents: number) => void
+}
+
+function formatCents(cents: number) {
+  return `$${(cents / 100).toFixed(2)}`
+}
+
+export default function TipModal({
+  isOpen,
+  onClose,
+  orderId,
+  source = 'order_page',
+  partnerLabel = 'your pro',
+  onSuccess,
+}: TipModalProps) {
+  const [presets, setPresets] = useState<TipPreset[]>([])
+  const [percent, setPercent] = useState<number | null>(null)
+  const [custom, setCustom] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    fetch(`/api/orders/${orderId}/tip`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        const loaded: TipPreset[] = data?.presets || []
+        setPresets(loaded)
+        // Default to the middle preset
+        setPercent(loaded[Math.floor(loaded.length / 2)]?.percent ?? null)
+      })
+      .catch((err) => console.error('Failed to load tip options:', err))
+  }, [isOpen, orderId])
+
+  const handleClose = () => {
+    setPercent(null)
+    setCustom('')
+    setError(null)
+    onClose()
+  }
+
+  const customCents = custom ? Math.round(parseFloat(custom) * 100) : null
+  const selectedCents =
+    customCents !== null ? customCents : presets.find((preset) => preset.percent === percent)?.amount_cents ?? null
+  const isValid = selectedCents !== null && selectedCents >= MIN_TIP_CENTS && selectedCents <= MAX_TIP_CENTS
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!isValid || selectedCents === null) return
+
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/orders/${orderId}/tip`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(customCents !== null ? { amount_cents: customCents, source } : { percent, source }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to add tip')
+      }
+
+      if (onSuccess) {
+        onSuccess(data.tip.amount_cents)
+      }
+      handleClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 transition-opacity"
+        onClick={handleClose}
+      />
+
+      {/* Modal */}
+      <div className="flex min-h-full items-end justify-center p-4 text-center sm:items-center sm:p-0">
+        <div
+          className="relative transform overflow-hidden rounded-lg bg-white px-4 pb-4 pt-5 text-left shadow-xl transition-all sm:my-8 sm:w-full sm:max-w-lg sm:p-6"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="mb-4">
+            <h3 className="text-center text-lg font-semibold text-gray-900">
+              Add a tip
+            </h3>
+            <p className="mt-2 text-center text-sm text-gray-500">
+              100% of your tip goes to {partnerLabel}. We&apos;ll charge the card saved on this order.
+            </p>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {presets.length > 0 && (
+              <div className="grid grid-cols-3 gap-2">
+                {presets.map((preset) => {
+                  const selected = customCents === null && preset.percent === percent
+                  return (
+                    <button
+                      key={preset.percent}
+                      type="button"
+                      onClick={() => {
+                        setPercent(preset.percent)
+                        setCustom('')
+                      }}
+                      className={`rounded-lg border-2 px-3 py-3 text-center transition-colors ${
+                        selected ? 'border-blue-600 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                      }`}
+                    >
+                      <div className="text-base font-semibold text-gray-900">{preset.percent}%</div>
+                      <div className="text-xs text-gray-500">{formatCents(preset.amount_cents)}</div>
+                    </button>
+                  )
+                })}
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="tipCustom" className="block text-sm font-medium text-gray-700 mb-2">
+                Custom amount
+              </label>
+              <div className="relative">
+                <span className="absolute left-3 top-2 text-sm text-gray-500">$</span>
+                <input
+                  id="tipCustom"
+                  type="number"
+                  min={MIN_TIP_CENTS / 100}
+                  max={MAX_TIP_CENTS / 100}
+                  step="0.01"
+                  value={custom}
+                  onChange={(e) => setCustom(e.target.value)}
+                  className="w-full rounded-md border border-gray-300 pl-7 pr-3 py-2 text-sm focus:border-blue-500 focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+              </div>
+              <p className="mt-1 text-xs text-gray-500">
+                Tips are charged separately and aren&apos;t taxed.
+              </p>
+            </div>
+
+            {error && (
+              <div className="rounded-md bg-red-50 border border-red-200 p-3">
+                <p className="text-sm text-red-800">{error}</p>
+              </div>
+            )}
+
+            {/* Actions */}
+            <div className="flex flex-col-reverse gap-3 sm:flex-row sm:justify-end">
+              <button
+                type="button"
+                onClick={handleClose}
+                className="w-full sm:w-auto rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+              >
+                No thanks
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting || !isValid}
+                className="w-full sm:w-auto rounded-md bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSubmitting ? 'Charging...' : selectedCents ? `Tip ${formatCents(selectedCents)}` : 'Add Tip'}
+              </button>
+            </div>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
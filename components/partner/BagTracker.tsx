@@ -0,0 +1,171 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { BAG_SCAN_EVENTS, BAG_STATUS_LABELS, type BagScanEvent, type BagWithScans } from '@/lib/bags';
+
+interface BagTrackerProps {
+  orderId: string;
+}
+
+/**
+ * BagTracker - Scan each bag's label through pickup, facility, weighing,
+ * packing and delivery
+ *
+ * Works with a handheld scanner (it types the label code into the input) or
+ * by typing the code printed under the QR. Once every bag is weighed, the
+ * total is what the quote uses.
+ */
+export default function BagTracker({ orderId }: BagTrackerProps) {
+  const [bags, setBags] = useState<BagWithScans[]>([]);
+  const [totalWeightLbs, setTotalWeightLbs] = useState<number | null>(null);
+  const [labelCode, setLabelCode] = useState('');
+  const [event, setEvent] = useState<BagScanEvent>('picked_up');
+  const [weightLbs, setWeightLbs] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const labelInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    fetchBags();
+  }, [orderId]);
+
+  async function fetchBags() {
+    try {
+      const res = await fetch(`/api/partner/orders/${orderId}/bags`);
+      if (!res.ok) return;
+      const data = await res.json();
+      setBags(data.bags || []);
+      setTotalWeightLbs(data.total_weight_lbs ?? null);
+    } catch (err) {
+      console.error('Failed to load bags:', err);
+    }
+  }
+
+  async function handleScan(e: React.FormEvent) {
+    e.preventDefault();
+    if (isSubmitting || !labelCode.trim()) return;
+
+    setIsSubmitting(true);
+    setMessage(null);
+
+    try {
+      const res = await fetch('/api/partner/bags/scan', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          label_code: labelCode,
+          event,
+          weight_lbs: event === 'weighed' ? parseFloat(weightLbs) : undefined,
+        }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Scan failed');
+      }
+
+      setMessage({ type: 'success', text: `${data.bag.label_code}: ${BAG_STATUS_LABELS[data.bag.status as BagScanEvent]}` });
+      setLabelCode('');
+      setWeightLbs('');
+      await fetchBags();
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Scan failed' });
+    } finally {
+      setIsSubmitting(false);
+      labelInput.current?.focus();
+    }
+  }
+
+  if (bags.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">Bags</h2>
+        <a
+          href={`/api/partner/orders/${orderId}/bags/labels`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-sm font-medium text-blue-600 hover:text-blue-700"
+        >
+          Print labels
+        </a>
+      </div>
+
+      <ul className="divide-y divide-gray-100 mb-4">
+        {bags.map((bag) => (
+          <li key={bag.id} className="py-2 flex items-center justify-between">
+            <div>
+              <p className="font-mono text-sm text-gray-900">{bag.label_code}</p>
+              {bag.last_scanned_at && (
+                <p className="text-xs text-gray-500">
+                  Last scan {new Date(bag.last_scanned_at).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                </p>
+              )}
+            </div>
+            <div className="text-right">
+              <span className="px-2 py-1 bg-gray-100 text-gray-700 text-xs font-medium rounded">
+                {BAG_STATUS_LABELS[bag.status]}
+              </span>
+              {bag.weight_lbs !== null && (
+                <p className="text-xs text-gray-500 mt-1">{bag.weight_lbs} lbs</p>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {totalWeightLbs !== null && (
+        <p className="text-sm text-gray-700 mb-4">
+          All bags weighed: <span className="font-semibold">{totalWeightLbs} lbs</span> will be used for the quote.
+        </p>
+      )}
+
+      <form onSubmit={handleScan} className="space-y-3">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <input
+            ref={labelInput}
+            value={labelCode}
+            onChange={(e) => setLabelCode(e.target.value)}
+            placeholder="Scan or type label (TH-...)"
+            aria-label="Bag label code"
+            className="px-3 py-2 border border-gray-300 rounded-md font-mono focus:ring-blue-500 focus:border-blue-500"
+          />
+          <select
+            value={event}
+            onChange={(e) => setEvent(e.target.value as BagScanEvent)}
+            aria-label="Scan step"
+            className="px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+          >
+            {BAG_SCAN_EVENTS.map((step) => (
+              <option key={step} value={step}>{BAG_STATUS_LABELS[step]}</option>
+            ))}
+          </select>
+          {event === 'weighed' && (
+            <input
+              type="number"
+              min="0.1"
+              step="0.1"
+              value={weightLbs}
+              onChange={(e) => setWeightLbs(e.target.value)}
+              placeholder="Weight (lbs)"
+              aria-label="Bag weight in pounds"
+              className="px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
+              required
+            />
+          )}
+        </div>
+        {message && (
+          <p className={`text-sm ${message.type === 'success' ? 'text-green-700' : 'text-red-600'}`}>{message.text}</p>
+        )}
+        <button
+          type="submit"
+          disabled={isSubmitting || !labelCode.trim()}
+          className="px-4 py-2 bg-blue-600 text-white font-medium rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSubmitting ? 'Recording...' : 'Record Scan'}
+        </button>
+      </form>
+    </div>
+  );
+}
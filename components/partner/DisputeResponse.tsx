@@ -0,0 +1,108 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface PartnerDispute {
+  id: string;
+  source: 'in_app' | 'chargeback';
+  reason: string | null;
+  opened_at: string;
+  sla_due_at: string;
+  partner_response: string | null;
+  partner_responded_at: string | null;
+}
+
+interface DisputeResponseProps {
+  orderId: string;
+}
+
+/**
+ * DisputeResponse - Partner's side of an open dispute
+ *
+ * Shows the customer's complaint and lets the partner explain what happened
+ * before the admin team decides the case.
+ */
+export default function DisputeResponse({ orderId }: DisputeResponseProps) {
+  const [dispute, setDispute] = useState<PartnerDispute | null>(null);
+  const [response, setResponse] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetch(`/api/partner/orders/${orderId}/dispute`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setDispute(data?.dispute || null))
+      .catch((err) => console.error('Failed to load dispute:', err));
+  }, [orderId]);
+
+  if (!dispute) return null;
+
+  async function handleSubmit() {
+    if (isSubmitting) return;
+
+    setIsSubmitting(true);
+    setError('');
+
+    try {
+      const res = await fetch(`/api/partner/orders/${orderId}/dispute`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ response }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to send response');
+      }
+
+      setDispute({ ...dispute!, ...data.dispute });
+      setResponse('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send response');
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  return (
+    <div className="bg-orange-50 border border-orange-200 rounded-lg p-6">
+      <h2 className="text-lg font-semibold text-orange-900 mb-2">
+        {dispute.source === 'chargeback' ? 'Payment Disputed' : 'Customer Reported an Issue'}
+      </h2>
+      <p className="text-sm text-orange-800 mb-4">
+        {dispute.reason || 'No reason given'}
+      </p>
+
+      {dispute.partner_response ? (
+        <div className="bg-white rounded-lg border border-orange-100 p-4">
+          <p className="text-sm font-medium text-gray-500">Your response</p>
+          <p className="text-gray-900 mt-1 whitespace-pre-wrap">{dispute.partner_response}</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <label htmlFor="dispute-response" className="block text-sm font-medium text-gray-700">
+            Tell us what happened. Our team decides the case by{' '}
+            {new Date(dispute.sla_due_at).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}.
+          </label>
+          <textarea
+            id="dispute-response"
+            value={response}
+            onChange={(e) => setResponse(e.target.value)}
+            rows={4}
+            maxLength={2000}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            placeholder="Describe the service you provided and anything that happened on site..."
+          />
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <button
+            onClick={handleSubmit}
+            disabled={isSubmitting || response.trim().length < 10}
+            className="px-4 py-2 bg-orange-600 text-white font-medium rounded-lg hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? 'Sending...' : 'Send Response'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -11,12 +11,14 @@ import {
 } from '@/lib/partner/quoteCalculation';
 import { LAUNDRY_PRICING, CLEANING_PRICING, QUOTE_LIMITS } from '@/lib/partner/constants';
 import { getErrorMessage, logError } from '@/lib/partner/errors';
+import type { LaundryRates } from '@/lib/pricing-rules';
 
 interface QuoteFormProps {
   orderId: string;
   serviceType: 'laundry' | 'cleaning';
   orderDetails: any;
   estimatedAmountCents?: number; // Customer's estimated amount from booking
+  laundryRates?: LaundryRates | null; // From the order's pricing version
   onSuccess: () => void;
   onCancel: () => void;
 }
@@ -26,11 +28,17 @@ export default function QuoteForm({
   serviceType,
   orderDetails,
   estimatedAmountCents,
+  laundryRates,
   onSuccess,
   onCancel
 }: QuoteFormProps) {
   // Laundry form state
+  const laundryServiceType: 'washFold' | 'dryClean' | 'mixed' = orderDetails?.serviceType || 'washFold';
+  const pricesByWeight = laundryServiceType !== 'dryClean';
+  const pricesGarments = laundryServiceType !== 'washFold';
   const [weightLbs, setWeightLbs] = useState<number>(10);
+  const [garmentCounts, setGarmentCounts] = useState<Record<string, number>>({});
+  const [bagWeightLbs, setBagWeightLbs] = useState<number | null>(null);
   const [bagCount, setBagCount] = useState<number>(0);
   const [hasBedding, setHasBedding] = useState(false);
   const [hasDelicates, setHasDelicates] = useState(false);
@@ -63,17 +71,38 @@ export default function QuoteForm({
   
   const hasLargeVariance = Math.abs(variancePercentage) > 20;
 
+  const itemizedGarments = Object.entries(garmentCounts)
+    .filter(([, quantity]) => quantity > 0)
+    .map(([key, quantity]) => ({ key, quantity }));
+
+  // Once every bag is weighed, their total is the weight
+  useEffect(() => {
+    if (serviceType !== 'laundry' || !pricesByWeight) return;
+
+    fetch(`/api/partner/orders/${orderId}/bags`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (data?.total_weight_lbs) {
+          setBagWeightLbs(data.total_weight_lbs);
+          setWeightLbs(data.total_weight_lbs);
+        }
+      })
+      .catch((err) => console.error('Failed to load bag weights:', err));
+  }, [orderId, serviceType, pricesByWeight]);
+
   // Calculate quote in real-time
   useEffect(() => {
-    if (serviceType === 'laundry') {
+    if (serviceType === 'laundry' && laundryRates) {
       const params: LaundryQuoteParams = {
-        weight_lbs: weightLbs,
+        service_type: laundryServiceType,
+        weight_lbs: pricesByWeight ? weightLbs : 0,
+        garments: pricesGarments ? itemizedGarments : undefined,
         bag_count: bagCount || undefined,
         has_bedding: hasBedding,
         has_delicates: hasDelicates,
         addons: laundryAddons
       };
-      const result = calculateLaundryQuote(params);
+      const result = calculateLaundryQuote(params, laundryRates);
       setQuote(result);
     } else if (serviceType === 'cleaning') {
       const params: CleaningQuoteParams = {
@@ -86,7 +115,10 @@ export default function QuoteForm({
     }
   }, [
     serviceType,
+    laundryRates,
+    laundryServiceType,
     weightLbs,
+    garmentCounts,
     bagCount,
     hasBedding,
     hasDelicates,
@@ -115,7 +147,8 @@ export default function QuoteForm({
         notes: notes.trim() || undefined,
         // Service-specific details
         ...(serviceType === 'laundry' && {
-          weight_lbs: weightLbs,
+          ...(pricesByWeight && { actual_weight_lbs: weightLbs, weight_lbs: weightLbs }),
+          ...(pricesGarments && { garments: itemizedGarments }),
           bag_count: bagCount || undefined,
           has_bedding: hasBedding,
           has_delicates: hasDelicates,
@@ -161,26 +194,63 @@ export default function QuoteForm({
         <div className="space-y-4">
           <h3 className="text-lg font-semibold text-gray-900">Laundry Details</h3>
           
+          {/* Dry Clean Garments */}
+          {pricesGarments && (
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">Dry Clean Garments *</p>
+              {laundryRates?.garments.length ? (
+                <div className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+                  {laundryRates.garments.map((garment) => (
+                    <div key={garment.key} className="flex items-center justify-between px-3 py-2">
+                      <span className="text-sm text-gray-700">
+                        {garment.label}
+                        <span className="ml-2 text-xs text-gray-500">${(garment.price_cents / 100).toFixed(2)} each</span>
+                      </span>
+                      <input
+                        type="number"
+                        min="0"
+                        aria-label={`${garment.label} count`}
+                        value={garmentCounts[garment.key] || 0}
+                        onChange={(e) => setGarmentCounts({
+                          ...garmentCounts,
+                          [garment.key]: Math.max(0, parseInt(e.target.value) || 0)
+                        })}
+                        className="w-20 px-2 py-1 border border-gray-300 rounded-md text-right focus:ring-blue-500 focus:border-blue-500"
+                      />
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">Dry clean pricing is not configured.</p>
+              )}
+            </div>
+          )}
+
           {/* Weight */}
-          <div>
-            <label htmlFor="weight" className="block text-sm font-medium text-gray-700 mb-1">
-              Weight (lbs) *
-            </label>
-            <input
-              id="weight"
-              type="number"
-              min={QUOTE_LIMITS.MIN_WEIGHT}
-              max={QUOTE_LIMITS.MAX_WEIGHT}
-              step="0.1"
-              value={weightLbs}
-              onChange={(e) => setWeightLbs(parseFloat(e.target.value) || 0)}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500"
-              required
-            />
-            <p className="text-xs text-gray-500 mt-1">
-              Min: {QUOTE_LIMITS.MIN_WEIGHT} lbs, Max: {QUOTE_LIMITS.MAX_WEIGHT} lbs
-            </p>
-          </div>
+          {pricesByWeight && (
+            <div>
+              <label htmlFor="weight" className="block text-sm font-medium text-gray-700 mb-1">
+                Weight (lbs) *
+              </label>
+              <input
+                id="weight"
+                type="number"
+                min={QUOTE_LIMITS.MIN_WEIGHT}
+                max={QUOTE_LIMITS.MAX_WEIGHT}
+                step="0.1"
+                value={weightLbs}
+                onChange={(e) => setWeightLbs(parseFloat(e.target.value) || 0)}
+                readOnly={bagWeightLbs !== null}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-blue-500 focus:border-blue-500 read-only:bg-gray-50"
+                required
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                {bagWeightLbs !== null
+                  ? 'Total of the weighed bags'
+                  : `Min: ${QUOTE_LIMITS.MIN_WEIGHT} lbs, Max: ${QUOTE_LIMITS.MAX_WEIGHT} lbs`}
+              </p>
+            </div>
+          )}
 
           {/* Bag Count */}
           <div>
@@ -243,17 +313,19 @@ export default function QuoteForm({
                 </span>
               </label>
 
-              <label className="flex items-center">
-                <input
-                  type="checkbox"
-                  checked={laundryAddons.same_day}
-                  onChange={(e) => setLaundryAddons({...laundryAddons, same_day: e.target.checked})}
-                  className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
-                />
-                <span className="ml-2 text-sm text-gray-700">
-                  Same Day Service (+${LAUNDRY_PRICING.SAME_DAY.toFixed(2)})
-                </span>
-              </label>
+              {laundryRates?.rush_rate != null && (
+                <label className="flex items-center">
+                  <input
+                    type="checkbox"
+                    checked={laundryAddons.same_day}
+                    onChange={(e) => setLaundryAddons({...laundryAddons, same_day: e.target.checked})}
+                    className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                  <span className="ml-2 text-sm text-gray-700">
+                    Same Day Service (+{Math.round(laundryRates.rush_rate * 100)}%)
+                  </span>
+                </label>
+              )}
 
               <label className="flex items-center">
                 <input
@@ -454,6 +526,13 @@ export default function QuoteForm({
               <span className="font-medium">${quote.breakdown.base.toFixed(2)}</span>
             </div>
             
+            {quote.breakdown.garments?.map((item, i) => (
+              <div key={i} className="flex justify-between">
+                <span className="text-gray-600">+ {item.label}:</span>
+                <span className="font-medium">${item.amount.toFixed(2)}</span>
+              </div>
+            ))}
+            
             {quote.breakdown.surcharges.map((item, i) => (
               <div key={i} className="flex justify-between">
                 <span className="text-gray-600">+ {item.label}:</span>
@@ -2,6 +2,7 @@
 
 import React from 'react';
 import { useCancellationPolicy } from '@/lib/useCancellationPolicy';
+import { formatRate } from '@/lib/pricing-rules';
 
 export type BannerType = 'info' | 'success' | 'warning' | 'error';
 
@@ -213,12 +214,12 @@ export function DryCleanBanner({ className }: { className?: string }) {
 /**
  * RushServiceBanner - For rush service availability
  */
-export function RushServiceBanner({ className }: { className?: string }) {
+export function RushServiceBanner({ rushRate, className }: { rushRate: number; className?: string }) {
   return (
     <InfoBanner
       type="info" 
       title="⚡ Rush Service Available"
-      message="Same-day return if picked up before 11 AM, otherwise next-day delivery (+25% fee)"
+      message={`Same-day return if picked up before 11 AM, otherwise next-day delivery (+${formatRate(rushRate)} fee)`}
       className={className}
     />
   );
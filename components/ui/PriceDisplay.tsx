@@ -58,7 +58,7 @@ interface PriceSummaryProps {
  * <PriceSummary
  *   rows={[
  *     { label: 'Subtotal', amount: 45.50 },
- *     { label: 'Tax (8.875%)', amount: 4.04 }
+ *     { label: `Tax (${formatRate(taxRate)})`, amount: 4.04 }
  *   ]}
  *   total={49.54}
  *   note="Final price confirmed after service"
@@ -0,0 +1,49 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { FeatureFlagServiceType } from '@/lib/feature-flags';
+
+interface FeatureFlagOptions {
+  zip?: string;
+  serviceType?: FeatureFlagServiceType;
+}
+
+/**
+ * Hook for checking a feature flag on the client
+ *
+ * Evaluates the flag server-side for the signed-in user (or anonymous
+ * visitor) and the optional ZIP / service type. The flag reads as off while
+ * loading and if the check fails, so dark-launched UI stays hidden by default.
+ */
+export function useFeatureFlag(key: string, options: FeatureFlagOptions = {}) {
+  const [enabled, setEnabled] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const { zip, serviceType } = options;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const params = new URLSearchParams({ keys: key });
+    if (zip && /^\d{5}$/.test(zip)) params.set('zip', zip);
+    if (serviceType) params.set('service_type', serviceType);
+
+    setLoading(true);
+    fetch(`/api/feature-flags?${params.toString()}`, { cache: 'no-store' })
+      .then(res => (res.ok ? res.json() : { flags: {} }))
+      .then(data => {
+        if (!cancelled) setEnabled(Boolean(data.flags?.[key]));
+      })
+      .catch(() => {
+        if (!cancelled) setEnabled(false);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key, zip, serviceType]);
+
+  return { enabled, loading };
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+
+interface HoldableSlot {
+  slot_start: string;
+}
+
+interface HoldTarget {
+  zip: string;
+  capability?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+interface SlotHold {
+  id: string;
+  partner_id: string;
+  slot_start: string;
+  expires_at: string;
+}
+
+/**
+ * Hook for holding the selected slot while the customer pays
+ *
+ * Places a hold (POST /api/slots/hold) once `active` is true, i.e. when the
+ * payment step is showing, and swaps it when the customer picks another
+ * slot or service. The server assigns the partner (see lib/slot-assignment).
+ * `error` is set when the slot filled up in the meantime. Pass `holdId` to
+ * /api/payment/setup; without it the booking still holds the slot itself.
+ */
+export function useSlotHold(
+  serviceType: 'LAUNDRY' | 'CLEANING',
+  slot: HoldableSlot | null,
+  target: HoldTarget | null,
+  active: boolean
+) {
+  const [hold, setHold] = useState<SlotHold | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const holdRef = useRef<SlotHold | null>(null);
+  const heldKeyRef = useRef<string | null>(null);
+  const slotStart = slot?.slot_start;
+  const zip = target?.zip;
+  const capability = target?.capability;
+  const latitude = target?.latitude;
+  const longitude = target?.longitude;
+  const key = `${slotStart}|${zip}|${capability}`;
+
+  useEffect(() => {
+    if (!active || !slotStart || !zip) return;
+    if (heldKeyRef.current === key) return;
+
+    let cancelled = false;
+    setError(null);
+
+    fetch('/api/slots/hold', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        service_type: serviceType,
+        slot_start: slotStart,
+        zip,
+        capability,
+        latitude,
+        longitude,
+        replace_hold_id: holdRef.current?.id,
+      }),
+    })
+      .then(async (res) => {
+        const data = await res.json();
+        if (cancelled) return;
+        if (res.ok) {
+          holdRef.current = data.hold;
+          heldKeyRef.current = key;
+          setHold(data.hold);
+        } else if (data.code === 'SLOT_FULL') {
+          setError(data.error);
+        }
+      })
+      .catch(() => {
+        // Checkout places its own hold if this one failed
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [serviceType, slotStart, zip, capability, latitude, longitude, key, active]);
+
+  return { holdId: heldKeyRef.current === key ? hold?.id : undefined, error };
+}
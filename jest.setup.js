@@ -12,9 +12,6 @@ if (!process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
 if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
   process.env.SUPABASE_SERVICE_ROLE_KEY = 'test-service-role-key';
 }
-if (!process.env.NYC_TAX_RATE) {
-  process.env.NYC_TAX_RATE = '0.08875';
-}
 
 // Mock window.matchMedia
 Object.defineProperty(window, 'matchMedia', {
@@ -0,0 +1,149 @@
+/**
+ * Unit Tests for Bags
+ * Tests custody step ordering, the weighed total and label scans
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { createFakeDb } from './utils/fake-db';
+
+jest.mock('../db');
+
+import {
+  bagScanSchema,
+  canScanBag,
+  getBagWeightTotal,
+  recordBagScan,
+  type BagScanActor,
+} from '../bags';
+
+const NOW = new Date('2030-04-02T15:00:00Z');
+
+const PARTNER: BagScanActor = { userId: 'user-partner', role: 'partner', partnerId: 'partner-1' };
+
+function seedBags(overrides: Record<string, any> = {}) {
+  return createFakeDb({
+    bags: [
+      {
+        id: 'bag-1',
+        order_id: 'order-1',
+        label_code: 'TH-ABC123',
+        service_type: 'LAUNDRY',
+        status: 'at_facility',
+        weight_lbs: null,
+        weighed_at: null,
+        last_scanned_at: null,
+        orders: { id: 'order-1', partner_id: 'partner-1' },
+        ...overrides,
+      },
+    ],
+  });
+}
+
+describe('Bags', () => {
+  describe('canScanBag', () => {
+    it('should allow forward steps, including skipped ones', () => {
+      expect(canScanBag('created', 'picked_up')).toBe(true);
+      expect(canScanBag('picked_up', 'at_facility')).toBe(true);
+      expect(canScanBag('created', 'weighed')).toBe(true);
+    });
+
+    it('should reject repeated or backward steps', () => {
+      expect(canScanBag('at_facility', 'picked_up')).toBe(false);
+      expect(canScanBag('packed', 'packed')).toBe(false);
+      expect(canScanBag('delivered', 'packed')).toBe(false);
+    });
+
+    it('should allow re-weighing', () => {
+      expect(canScanBag('weighed', 'weighed')).toBe(true);
+    });
+  });
+
+  describe('getBagWeightTotal', () => {
+    it('should return null when no bag is weighed', () => {
+      expect(getBagWeightTotal([{ label_code: 'TH-A', weight_lbs: null }])).toBeNull();
+      expect(getBagWeightTotal([])).toBeNull();
+    });
+
+    it('should sum every bag to the nearest tenth', () => {
+      expect(
+        getBagWeightTotal([
+          { label_code: 'TH-A', weight_lbs: 12.3 },
+          { label_code: 'TH-B', weight_lbs: 8.45 },
+        ])
+      ).toBe(20.8);
+    });
+
+    it('should refuse a partial total', () => {
+      expect(() =>
+        getBagWeightTotal([
+          { label_code: 'TH-A', weight_lbs: 12 },
+          { label_code: 'TH-B', weight_lbs: null },
+        ])
+      ).toThrow(/TH-B/);
+    });
+  });
+
+  describe('bagScanSchema', () => {
+    it('should normalize the label code', () => {
+      expect(bagScanSchema.parse({ label_code: ' th-abc123 ', event: 'packed' }).label_code).toBe('TH-ABC123');
+    });
+
+    it('should require a weight when weighing', () => {
+      expect(bagScanSchema.safeParse({ label_code: 'TH-ABC123', event: 'weighed' }).success).toBe(false);
+      expect(bagScanSchema.safeParse({ label_code: 'TH-ABC123', event: 'weighed', weight_lbs: 14.2 }).success).toBe(true);
+    });
+  });
+
+  describe('recordBagScan', () => {
+    it('should advance the bag and log the scan', async () => {
+      const { db, tables } = seedBags();
+
+      const { bag, scan } = await recordBagScan(db, { label_code: 'TH-ABC123', event: 'packed' }, PARTNER, NOW);
+
+      expect(bag.status).toBe('packed');
+      expect(bag.last_scanned_at).toBe(NOW.toISOString());
+      expect(scan).toMatchObject({ bag_id: 'bag-1', order_id: 'order-1', event: 'packed', partner_id: 'partner-1' });
+      expect(tables.order_events).toEqual([
+        expect.objectContaining({
+          order_id: 'order-1',
+          event_type: 'bag_scanned',
+          payload_json: expect.objectContaining({ label_code: 'TH-ABC123', event: 'packed' }),
+        }),
+      ]);
+    });
+
+    it('should record the weight on a weighed scan', async () => {
+      const { db, tables } = seedBags();
+
+      await recordBagScan(db, { label_code: 'TH-ABC123', event: 'weighed', weight_lbs: 14.2 }, PARTNER, NOW);
+
+      expect(tables.bags[0]).toMatchObject({ status: 'weighed', weight_lbs: 14.2, weighed_at: NOW.toISOString() });
+      expect(tables.bag_scan_events[0].weight_lbs).toBe(14.2);
+    });
+
+    it('should reject another partner\'s bag', async () => {
+      const { db, tables } = seedBags();
+
+      await expect(
+        recordBagScan(db, { label_code: 'TH-ABC123', event: 'packed' }, { ...PARTNER, partnerId: 'partner-2' }, NOW)
+      ).rejects.toMatchObject({ statusCode: 403 });
+      expect(tables.bags[0].status).toBe('at_facility');
+    });
+
+    it('should reject an out-of-order scan', async () => {
+      const { db } = seedBags({ status: 'packed' });
+
+      await expect(
+        recordBagScan(db, { label_code: 'TH-ABC123', event: 'at_facility' }, PARTNER, NOW)
+      ).rejects.toMatchObject({ code: 'BAG_SCAN_OUT_OF_ORDER' });
+    });
+
+    it('should reject an unknown label', async () => {
+      const { db } = seedBags();
+
+      await expect(
+        recordBagScan(db, { label_code: 'TH-NOPE', event: 'packed' }, PARTNER, NOW)
+      ).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Unit Tests for Buildings Program
+ * Tests address normalization, building pricing terms and their effect on quotes
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('../db');
+
+import {
+  normalizeStreetAddress,
+  applyBuildingOverrides,
+  buildBuildingDiscountItem,
+  toBuildingTerms,
+  type BuildingTerms,
+} from '../buildings';
+
+const terms: BuildingTerms = {
+  id: 'b1',
+  name: 'The Graham',
+  discount_pct: 0.1,
+  pricing_overrides: { LND_WF_PERLB: 150 },
+};
+
+describe('Buildings Program', () => {
+  describe('normalizeStreetAddress', () => {
+    it('should match Google and hand-typed spellings', () => {
+      expect(normalizeStreetAddress('171 West 131st Street')).toBe('171 w 131st st');
+      expect(normalizeStreetAddress('171 W. 131st St')).toBe('171 w 131st st');
+    });
+
+    it('should ignore unit designators', () => {
+      expect(normalizeStreetAddress('200 Lenox Avenue, Apt 4B')).toBe('200 lenox ave');
+      expect(normalizeStreetAddress('200 Lenox Ave #4B')).toBe('200 lenox ave');
+      expect(normalizeStreetAddress('200 Lenox Ave Suite 12')).toBe('200 lenox ave');
+    });
+
+    it('should collapse whitespace and case', () => {
+      expect(normalizeStreetAddress('  55   EAST  110TH   PLACE ')).toBe('55 e 110th pl');
+    });
+  });
+
+  describe('applyBuildingOverrides', () => {
+    const rules = [
+      { unit_key: 'LND_WF_PERLB', unit_price_cents: 175 },
+      { unit_key: 'LND_DELICATE', unit_price_cents: 500 },
+      { unit_key: 'CLN_DEEP_MULTI', unit_price_cents: null },
+    ];
+
+    it('should override matching unit prices only', () => {
+      const result = applyBuildingOverrides(rules, terms);
+      expect(result[0].unit_price_cents).toBe(150);
+      expect(result[1].unit_price_cents).toBe(500);
+      expect(result[2].unit_price_cents).toBeNull();
+    });
+
+    it('should leave rules untouched without a building', () => {
+      expect(applyBuildingOverrides(rules, null)).toBe(rules);
+    });
+  });
+
+  describe('buildBuildingDiscountItem', () => {
+    it('should create a negative discount line', () => {
+      const item = buildBuildingDiscountItem(5000, terms, false);
+      expect(item).toMatchObject({
+        key: 'BUILDING_DISCOUNT',
+        total_cents: -500,
+        taxable: false,
+      });
+      expect(item?.label).toContain('The Graham');
+    });
+
+    it('should skip buildings without a discount', () => {
+      expect(buildBuildingDiscountItem(5000, { ...terms, discount_pct: 0 }, true)).toBeNull();
+      expect(buildBuildingDiscountItem(5000, null, true)).toBeNull();
+    });
+  });
+
+  describe('toBuildingTerms', () => {
+    it('should coerce numeric strings from Postgres', () => {
+      const result = toBuildingTerms({
+        id: 'b1',
+        name: 'The Graham',
+        discount_pct: '0.15' as unknown as number,
+        pricing_overrides_json: null as unknown as Record<string, number>,
+      });
+      expect(result.discount_pct).toBe(0.15);
+      expect(result.pricing_overrides).toEqual({});
+    });
+  });
+});
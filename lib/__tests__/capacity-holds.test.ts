@@ -0,0 +1,261 @@
+/**
+ * Unit Tests for Capacity Holds
+ * Tests atomic reservations under concurrency and the hold lifecycle
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { createFakeDb } from './utils/fake-db';
+
+jest.mock('../db');
+
+const NOW = new Date('2030-03-05T14:00:00Z');
+const SLOT_START = '2030-03-05T18:00:00.000Z';
+
+function seedSlot(overrides: Record<string, any> = {}, holds: any[] = []) {
+  return createFakeDb({
+    capacity_calendar: [
+      {
+        id: 'slot-1',
+        partner_id: 'partner-1',
+        service_type: 'LAUNDRY',
+        slot_start: SLOT_START,
+        max_units: 3,
+        reserved_units: 0,
+        ...overrides,
+      },
+    ],
+    capacity_holds: holds,
+  }, { deferred: true });
+}
+
+function hold(overrides: Record<string, any> = {}) {
+  return {
+    id: 'hold-1',
+    slot_id: 'slot-1',
+    partner_id: 'partner-1',
+    service_type: 'LAUNDRY',
+    slot_start: SLOT_START,
+    units: 1,
+    status: 'held',
+    order_id: null,
+    user_id: 'user-1',
+    expires_at: '2030-03-05T14:15:00.000Z',
+    ...overrides,
+  };
+}
+
+const HOLD_PARAMS = { partnerId: 'partner-1', serviceType: 'LAUNDRY' as const, slotStart: SLOT_START };
+
+describe('Capacity holds', () => {
+  let capacity: typeof import('../capacity');
+  let holds: typeof import('../capacity-holds');
+  let mockGetServiceClient: jest.Mock<any>;
+
+  beforeEach(async () => {
+    const db = await import('../db');
+    mockGetServiceClient = db.getServiceClient as unknown as jest.Mock<any>;
+    mockGetServiceClient.mockReset();
+    capacity = await import('../capacity');
+    holds = await import('../capacity-holds');
+  });
+
+  describe('reserveCapacity', () => {
+    it('should never overbook a slot under concurrent checkouts', async () => {
+      const { db, tables } = seedSlot();
+      mockGetServiceClient.mockReturnValue(db);
+
+      const results = await Promise.all(
+        Array.from({ length: 10 }, () => capacity.reserveCapacity('partner-1', 'LAUNDRY', SLOT_START, 1))
+      );
+
+      expect(results.filter(Boolean)).toHaveLength(3);
+      expect(tables.capacity_calendar[0].reserved_units).toBe(3);
+    });
+
+    it('should keep every concurrent release', async () => {
+      const { db, tables } = seedSlot({ reserved_units: 2 });
+      mockGetServiceClient.mockReturnValue(db);
+
+      const results = await Promise.all([
+        capacity.releaseCapacity('partner-1', 'LAUNDRY', SLOT_START, 1),
+        capacity.releaseCapacity('partner-1', 'LAUNDRY', SLOT_START, 1),
+        capacity.reserveCapacity('partner-1', 'LAUNDRY', SLOT_START, 1),
+      ]);
+
+      expect(results[2]).toBe(true);
+      expect(tables.capacity_calendar[0].reserved_units).toBe(1);
+    });
+
+    it('should not release below zero', async () => {
+      const { db, tables } = seedSlot({ reserved_units: 1 });
+      mockGetServiceClient.mockReturnValue(db);
+
+      await capacity.releaseCapacity('partner-1', 'LAUNDRY', SLOT_START, 2);
+
+      expect(tables.capacity_calendar[0].reserved_units).toBe(0);
+    });
+  });
+
+  describe('holds.createCapacityHold', () => {
+    it('should take the units and expire after the hold window', async () => {
+      const { db, tables } = seedSlot();
+
+      const created = await holds.createCapacityHold(db, { ...HOLD_PARAMS, userId: 'user-1' }, NOW);
+
+      expect(created).toMatchObject({ slot_id: 'slot-1', units: 1, status: 'held', user_id: 'user-1' });
+      expect(new Date(created.expires_at).getTime() - NOW.getTime()).toBe(holds.CAPACITY_HOLD_MINUTES * 60 * 1000);
+      expect(tables.capacity_calendar[0].reserved_units).toBe(1);
+    });
+
+    it('should hold at most the slot\'s capacity when checkouts race', async () => {
+      const { db, tables } = seedSlot();
+
+      const results = await Promise.allSettled(
+        Array.from({ length: 8 }, () => holds.createCapacityHold(db, HOLD_PARAMS, NOW))
+      );
+
+      const rejected = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+      expect(results.filter((r) => r.status === 'fulfilled')).toHaveLength(3);
+      expect(rejected.every((r) => r.reason.code === 'SLOT_FULL')).toBe(true);
+      expect(tables.capacity_holds).toHaveLength(3);
+      expect(tables.capacity_calendar[0].reserved_units).toBe(3);
+    });
+  });
+
+  describe('holds.convertCapacityHold', () => {
+    it('should keep the units reserved for the order', async () => {
+      const { db, tables } = seedSlot({ reserved_units: 1 }, [hold()]);
+
+      const converted = await holds.convertCapacityHold(db, 'hold-1', 'order-1', NOW);
+
+      expect(converted).toMatchObject({ status: 'converted', order_id: 'order-1' });
+      expect(tables.capacity_calendar[0].reserved_units).toBe(1);
+    });
+
+    it('should be a no-op for the same order and refuse another', async () => {
+      const { db } = seedSlot({ reserved_units: 1 }, [hold({ status: 'converted', order_id: 'order-1' })]);
+
+      await expect(holds.convertCapacityHold(db, 'hold-1', 'order-1', NOW)).resolves.toMatchObject({ order_id: 'order-1' });
+      await expect(holds.convertCapacityHold(db, 'hold-1', 'order-2', NOW)).rejects.toMatchObject({ code: 'HOLD_ALREADY_USED' });
+    });
+
+    it('should re-reserve a lapsed hold while the slot has room', async () => {
+      const { db, tables } = seedSlot({ reserved_units: 0 }, [hold({ status: 'expired' })]);
+
+      await holds.convertCapacityHold(db, 'hold-1', 'order-1', NOW);
+
+      expect(tables.capacity_holds[0].status).toBe('converted');
+      expect(tables.capacity_calendar[0].reserved_units).toBe(1);
+    });
+
+    it('should fail a lapsed hold whose slot filled up', async () => {
+      const { db, tables } = seedSlot({ reserved_units: 3 }, [hold({ status: 'expired' })]);
+
+      await expect(holds.convertCapacityHold(db, 'hold-1', 'order-1', NOW)).rejects.toMatchObject({ code: 'SLOT_FULL' });
+      expect(tables.capacity_calendar[0].reserved_units).toBe(3);
+    });
+  });
+
+  describe('holds.releaseCapacityHold', () => {
+    it('should give an open hold\'s units back once', async () => {
+      const { db, tables } = seedSlot({ reserved_units: 1 }, [hold()]);
+
+      await expect(holds.releaseCapacityHold(db, 'hold-1')).resolves.toBe(true);
+      await expect(holds.releaseCapacityHold(db, 'hold-1')).resolves.toBe(false);
+      expect(tables.capacity_calendar[0].reserved_units).toBe(0);
+    });
+
+    it('should leave converted holds alone unless asked', async () => {
+      const { db, tables } = seedSlot({ reserved_units: 1 }, [hold({ status: 'converted', order_id: 'order-1' })]);
+
+      await expect(holds.releaseCapacityHold(db, 'hold-1')).resolves.toBe(false);
+      expect(tables.capacity_calendar[0].reserved_units).toBe(1);
+
+      await expect(holds.releaseCapacityHold(db, 'hold-1', ['held', 'converted'])).resolves.toBe(true);
+      expect(tables.capacity_calendar[0].reserved_units).toBe(0);
+    });
+  });
+
+  describe('holds.releaseOwnCapacityHold', () => {
+    it('should release the customer\'s own hold', async () => {
+      const { db, tables } = seedSlot({ reserved_units: 1 }, [hold()]);
+
+      await expect(holds.releaseOwnCapacityHold(db, 'hold-1', 'user-1')).resolves.toBe(true);
+      expect(tables.capacity_holds[0].status).toBe('released');
+      expect(tables.capacity_calendar[0].reserved_units).toBe(0);
+    });
+
+    it('should leave another customer\'s hold alone', async () => {
+      const { db, tables } = seedSlot({ reserved_units: 1 }, [hold()]);
+
+      await expect(holds.releaseOwnCapacityHold(db, 'hold-1', 'user-2')).resolves.toBe(false);
+      await expect(holds.releaseOwnCapacityHold(db, 'hold-1', null)).resolves.toBe(false);
+      expect(tables.capacity_holds[0].status).toBe('held');
+      expect(tables.capacity_calendar[0].reserved_units).toBe(1);
+    });
+  });
+
+  describe('holds.getCheckoutHold', () => {
+    const checkout = { userId: 'user-1', serviceType: 'LAUNDRY' as const, slotStart: SLOT_START };
+
+    it('should return the customer\'s open hold for the slot', async () => {
+      const { db } = seedSlot({ reserved_units: 1 }, [hold()]);
+
+      await expect(holds.getCheckoutHold(db, 'hold-1', checkout)).resolves.toMatchObject({ id: 'hold-1', partner_id: 'partner-1' });
+    });
+
+    it('should refuse a hold placed by someone else', async () => {
+      const { db } = seedSlot({ reserved_units: 1 }, [hold()]);
+
+      await expect(holds.getCheckoutHold(db, 'hold-1', { ...checkout, userId: 'user-2' })).rejects.toMatchObject({ code: 'HOLD_MISMATCH' });
+      await expect(holds.getCheckoutHold(db, 'hold-1', { ...checkout, userId: undefined })).rejects.toMatchObject({ code: 'HOLD_MISMATCH' });
+    });
+
+    it('should refuse a hold for another service or window', async () => {
+      const { db } = seedSlot({ reserved_units: 1 }, [hold()]);
+
+      await expect(holds.getCheckoutHold(db, 'hold-1', { ...checkout, serviceType: 'CLEANING' })).rejects.toMatchObject({ code: 'HOLD_MISMATCH' });
+      await expect(
+        holds.getCheckoutHold(db, 'hold-1', { ...checkout, slotStart: '2030-03-05T20:00:00.000Z' })
+      ).rejects.toMatchObject({ code: 'HOLD_MISMATCH' });
+      await expect(holds.getCheckoutHold(db, 'missing', checkout)).rejects.toMatchObject({ code: 'HOLD_MISMATCH' });
+    });
+
+    it('should refuse a hold that is no longer held', async () => {
+      const { db } = seedSlot({ reserved_units: 1 }, [hold({ status: 'converted', order_id: 'order-9' })]);
+
+      await expect(holds.getCheckoutHold(db, 'hold-1', checkout)).rejects.toMatchObject({ statusCode: 409, code: 'HOLD_NOT_ACTIVE' });
+    });
+  });
+
+  describe('holds.expireCapacityHolds', () => {
+    it('should expire only lapsed open holds and return their units', async () => {
+      const { db, tables } = seedSlot({ reserved_units: 3 }, [
+        hold({ id: 'lapsed', expires_at: '2030-03-05T13:59:00.000Z' }),
+        hold({ id: 'fresh', expires_at: '2030-03-05T14:10:00.000Z' }),
+        hold({ id: 'booked', status: 'converted', order_id: 'order-1', expires_at: '2030-03-05T13:00:00.000Z' }),
+      ]);
+
+      const results = await holds.expireCapacityHolds(db, NOW);
+
+      expect(results).toEqual({ expired: 1, units: 1 });
+      expect(tables.capacity_holds.map((h) => h.status)).toEqual(['expired', 'held', 'converted']);
+      expect(tables.capacity_calendar[0].reserved_units).toBe(2);
+    });
+
+    it('should not double-count a hold converted while the sweep runs', async () => {
+      const { db, tables } = seedSlot({ reserved_units: 1 }, [hold({ expires_at: '2030-03-05T13:59:00.000Z' })]);
+
+      const [sweep, conversion] = await Promise.allSettled([
+        holds.expireCapacityHolds(db, NOW),
+        holds.convertCapacityHold(db, 'hold-1', 'order-1', NOW),
+      ]);
+
+      // Whichever ran first, the order ends up with exactly one unit
+      expect(conversion.status).toBe('fulfilled');
+      expect(sweep.status).toBe('fulfilled');
+      expect(tables.capacity_holds[0]).toMatchObject({ status: 'converted', order_id: 'order-1' });
+      expect(tables.capacity_calendar[0].reserved_units).toBe(1);
+    });
+  });
+});
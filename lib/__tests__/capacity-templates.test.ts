@@ -0,0 +1,234 @@
+/**
+ * Unit Tests for Template-Driven Slot Generation
+ * Tests template expansion, the default schedule, blackouts and dry runs
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { createFakeDb } from './utils/fake-db';
+
+jest.mock('../db');
+
+import {
+  listDates,
+  getDayOfWeek,
+  findBlackout,
+  planTemplateSlots,
+  generateTemplateSlots,
+  clearBlackoutSlots,
+  type CapacityBlackout,
+  type CapacityTemplate,
+} from '../capacity-templates';
+
+// Monday, March 4 2030 through Sunday, March 10 2030
+const MONDAY = '2030-03-04';
+const SUNDAY = '2030-03-10';
+const NOW = new Date(2030, 0, 1);
+
+function template(overrides: Partial<CapacityTemplate> = {}): CapacityTemplate {
+  return {
+    id: 'tpl-1',
+    partner_id: 'partner-1',
+    day_of_week: 1,
+    slot_start: '09:00:00',
+    slot_end: '12:00:00',
+    max_units: 240,
+    service_type: 'CLEANING',
+    ...overrides,
+  };
+}
+
+function blackout(overrides: Partial<CapacityBlackout> = {}): CapacityBlackout {
+  return { id: 'b1', date: MONDAY, partner_id: null, service_type: null, reason: 'Holiday', ...overrides };
+}
+
+const cleaner = { id: 'partner-1', service_type: 'CLEANING' as const };
+const laundromat = { id: 'partner-2', service_type: 'LAUNDRY' as const };
+
+describe('Capacity Templates', () => {
+  describe('listDates', () => {
+    it('should list every date in the range inclusively', () => {
+      expect(listDates('2030-02-27', '2030-03-02')).toEqual(['2030-02-27', '2030-02-28', '2030-03-01', '2030-03-02']);
+    });
+
+    it('should return nothing for a reversed range', () => {
+      expect(listDates(SUNDAY, MONDAY)).toEqual([]);
+    });
+  });
+
+  describe('getDayOfWeek', () => {
+    it('should use the calendar day regardless of timezone', () => {
+      expect(getDayOfWeek(MONDAY)).toBe(1);
+      expect(getDayOfWeek(SUNDAY)).toBe(0);
+    });
+  });
+
+  describe('findBlackout', () => {
+    it('should match holidays for every partner and service', () => {
+      expect(findBlackout([blackout()], 'partner-1', 'CLEANING', MONDAY)).toMatchObject({ id: 'b1' });
+    });
+
+    it('should only match a partner exception for that partner and service', () => {
+      const exception = blackout({ partner_id: 'partner-1', service_type: 'CLEANING' });
+
+      expect(findBlackout([exception], 'partner-1', 'CLEANING', MONDAY)).toBe(exception);
+      expect(findBlackout([exception], 'partner-2', 'CLEANING', MONDAY)).toBeNull();
+      expect(findBlackout([exception], 'partner-1', 'LAUNDRY', MONDAY)).toBeNull();
+      expect(findBlackout([exception], 'partner-1', 'CLEANING', SUNDAY)).toBeNull();
+    });
+  });
+
+  describe('planTemplateSlots', () => {
+    const base = { templates: [], blackouts: [], existing: [], startDate: MONDAY, endDate: SUNDAY, now: NOW };
+
+    it('should expand only the partner template windows', () => {
+      const plan = planTemplateSlots({
+        ...base,
+        partners: [cleaner],
+        templates: [template(), template({ id: 'tpl-2', day_of_week: 3, slot_start: '13:00:00', slot_end: '17:00:00' })],
+      });
+
+      expect(plan.create).toEqual([
+        expect.objectContaining({
+          template_id: 'tpl-1',
+          slot_start: new Date(2030, 2, 4, 9).toISOString(),
+          slot_end: new Date(2030, 2, 4, 12).toISOString(),
+          max_units: 240,
+        }),
+        expect.objectContaining({ template_id: 'tpl-2', slot_start: new Date(2030, 2, 6, 13).toISOString() }),
+      ]);
+    });
+
+    it('should ignore templates of another service or partner', () => {
+      const plan = planTemplateSlots({
+        ...base,
+        partners: [cleaner],
+        templates: [template(), template({ id: 'other', partner_id: 'partner-2' }), template({ id: 'laundry', service_type: 'LAUNDRY' })],
+      });
+
+      expect(plan.create.map((slot) => slot.template_id)).toEqual(['tpl-1']);
+    });
+
+    it('should fall back to the Mon-Sat default schedule without templates', () => {
+      const plan = planTemplateSlots({ ...base, partners: [laundromat] });
+
+      expect(plan.create).toHaveLength(36);
+      expect(plan.create[0]).toMatchObject({
+        template_id: null,
+        max_units: 10,
+        slot_start: new Date(2030, 2, 4, 10).toISOString(),
+        slot_end: new Date(2030, 2, 4, 12).toISOString(),
+      });
+      expect(plan.create.some((slot) => new Date(slot.slot_start).getDay() === 0)).toBe(false);
+    });
+
+    it('should skip holidays and partner exception days', () => {
+      const plan = planTemplateSlots({
+        ...base,
+        endDate: '2030-03-05',
+        partners: [cleaner, laundromat],
+        templates: [template(), template({ id: 'tpl-tue', day_of_week: 2 })],
+        blackouts: [
+          blackout(),
+          blackout({ id: 'b2', date: '2030-03-05', partner_id: 'partner-1' }),
+        ],
+      });
+
+      expect(plan.create.every((slot) => slot.partner_id === 'partner-2' && new Date(slot.slot_start).getDate() === 5)).toBe(true);
+      expect(plan.skipped.filter((slot) => slot.reason === 'blackout')).toHaveLength(7);
+      expect(plan.skipped.filter((slot) => slot.reason === 'partner_exception')).toEqual([
+        expect.objectContaining({ template_id: 'tpl-tue' }),
+      ]);
+    });
+
+    it('should skip windows overlapping a slot the partner already has', () => {
+      const plan = planTemplateSlots({
+        ...base,
+        endDate: MONDAY,
+        partners: [laundromat],
+        existing: [
+          {
+            partner_id: 'partner-2',
+            // Stored timestamps don't use toISOString's format
+            slot_start: new Date(2030, 2, 4, 11).toISOString().replace('.000Z', '+00:00'),
+            slot_end: new Date(2030, 2, 4, 13).toISOString().replace('.000Z', '+00:00'),
+          },
+          { partner_id: 'partner-1', slot_start: new Date(2030, 2, 4, 20).toISOString(), slot_end: new Date(2030, 2, 4, 22).toISOString() },
+        ],
+      });
+
+      expect(plan.skipped.map((slot) => [new Date(slot.slot_start).getHours(), slot.reason])).toEqual([
+        [10, 'exists'],
+        [12, 'exists'],
+      ]);
+      expect(plan.create.map((slot) => new Date(slot.slot_start).getHours())).toEqual([14, 16, 18, 20]);
+    });
+
+    it('should skip windows that already started', () => {
+      const plan = planTemplateSlots({ ...base, endDate: MONDAY, partners: [laundromat], now: new Date(2030, 2, 4, 14) });
+
+      expect(plan.skipped.map((slot) => slot.reason)).toEqual(['past', 'past', 'past']);
+      expect(plan.create).toHaveLength(3);
+    });
+  });
+
+  describe('generateTemplateSlots', () => {
+    function seed() {
+      return createFakeDb({
+        partners: [
+          { ...cleaner, active: true },
+          { ...laundromat, active: true },
+          { id: 'partner-3', service_type: 'CLEANING', active: false },
+        ],
+        capacity_templates: [template({ active: true } as any), template({ id: 'off', day_of_week: 2, active: false } as any)],
+        capacity_blackouts: [],
+        capacity_calendar: [],
+      });
+    }
+
+    it('should preview without writing anything', async () => {
+      const { db, tables } = seed();
+
+      const result = await generateTemplateSlots(db, { startDate: MONDAY, endDate: SUNDAY, dryRun: true, now: NOW });
+
+      expect(result).toMatchObject({ dry_run: true, created: 0 });
+      expect(result.create).toHaveLength(1 + 36);
+      expect(tables.capacity_calendar).toHaveLength(0);
+    });
+
+    it('should insert the planned slots and be idempotent', async () => {
+      const { db, tables } = seed();
+
+      const first = await generateTemplateSlots(db, { startDate: MONDAY, endDate: SUNDAY, serviceType: 'CLEANING', now: NOW });
+      const second = await generateTemplateSlots(db, { startDate: MONDAY, endDate: SUNDAY, serviceType: 'CLEANING', now: NOW });
+
+      expect(first.created).toBe(1);
+      expect(second).toMatchObject({ created: 0, skipped_by_reason: { exists: 1 } });
+      expect(tables.capacity_calendar).toEqual([
+        expect.objectContaining({
+          partner_id: 'partner-1',
+          max_units: 240,
+          reserved_units: 0,
+          notes: 'Auto-generated from template tpl-1',
+        }),
+      ]);
+    });
+  });
+
+  describe('clearBlackoutSlots', () => {
+    it('should remove empty slots on the date and keep booked ones', async () => {
+      const { db, tables } = createFakeDb({
+        capacity_calendar: [
+          { id: 's1', partner_id: 'partner-1', service_type: 'CLEANING', slot_start: new Date(2030, 2, 4, 9).toISOString(), reserved_units: 0 },
+          { id: 's2', partner_id: 'partner-1', service_type: 'CLEANING', slot_start: new Date(2030, 2, 4, 13).toISOString(), reserved_units: 120 },
+          { id: 's3', partner_id: 'partner-2', service_type: 'LAUNDRY', slot_start: new Date(2030, 2, 4, 10).toISOString(), reserved_units: 0 },
+          { id: 's4', partner_id: 'partner-1', service_type: 'CLEANING', slot_start: new Date(2030, 2, 5, 9).toISOString(), reserved_units: 0 },
+        ],
+      });
+
+      const result = await clearBlackoutSlots(db, { date: MONDAY, partner_id: 'partner-1', service_type: null });
+
+      expect(result).toEqual({ removed: 1, booked: 1 });
+      expect(tables.capacity_calendar.map((slot) => slot.id)).toEqual(['s2', 's3', 's4']);
+    });
+  });
+});
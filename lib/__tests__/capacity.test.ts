@@ -0,0 +1,153 @@
+/**
+ * Unit Tests for Capacity
+ * Tests ZIP- and capability-aware partner selection and slot merging
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { createFakeDb } from './utils/fake-db';
+
+// Mock the database before any imports
+jest.mock('../db');
+
+// A Tuesday far enough ahead that no slot is in the past or within 6 hours
+const DATE = '2030-03-05';
+
+function window(hour: number) {
+  return {
+    slot_start: new Date(2030, 2, 5, hour).toISOString(),
+    slot_end: new Date(2030, 2, 5, hour + 2).toISOString(),
+  };
+}
+
+const partners = [
+  { id: 'harlem', name: 'Harlem Wash', service_type: 'LAUNDRY', active: true, service_areas: ['10026', '10027'], capabilities: null },
+  { id: 'uptown', name: 'Uptown Clean', service_type: 'LAUNDRY', active: true, service_areas: ['10027'], capabilities: { wash_fold: true, dry_clean: false } },
+  { id: 'midtown', name: 'Midtown Press', service_type: 'LAUNDRY', active: true, service_areas: ['10001'], capabilities: { dry_clean: true } },
+  { id: 'retired', name: 'Old Partner', service_type: 'LAUNDRY', active: false, service_areas: ['10027'], capabilities: null },
+];
+
+describe('Capacity', () => {
+  let capacity: typeof import('../capacity');
+  let mockGetServiceClient: jest.Mock<any>;
+
+  beforeEach(async () => {
+    const db = await import('../db');
+    mockGetServiceClient = db.getServiceClient as unknown as jest.Mock<any>;
+    mockGetServiceClient.mockReset();
+    capacity = await import('../capacity');
+  });
+
+  describe('partnerHasCapability', () => {
+    it('should treat partners without capabilities as offering the defaults', () => {
+      expect(capacity.partnerHasCapability({ capabilities: null }, 'LAUNDRY', 'dry_clean')).toBe(true);
+      expect(capacity.partnerHasCapability({ capabilities: null }, 'CLEANING', 'post_construction')).toBe(false);
+    });
+
+    it('should require the capability to be enabled', () => {
+      expect(capacity.partnerHasCapability({ capabilities: { dry_clean: false } }, 'LAUNDRY', 'dry_clean')).toBe(false);
+      expect(capacity.partnerHasCapability({ capabilities: { deep_clean: true } }, 'CLEANING', 'deep_clean')).toBe(true);
+    });
+
+    it('should accept any partner when no capability is required', () => {
+      expect(capacity.partnerHasCapability({ capabilities: {} }, 'LAUNDRY')).toBe(true);
+    });
+  });
+
+  describe('getServingPartners', () => {
+    it('should only return active partners covering the ZIP', async () => {
+      const { db } = createFakeDb({ partners });
+
+      const serving = await capacity.getServingPartners(db, 'LAUNDRY', '10027');
+
+      expect(serving.map((partner) => partner.id)).toEqual(['harlem', 'uptown']);
+    });
+
+    it('should filter by the required capability', async () => {
+      const { db } = createFakeDb({ partners });
+
+      const serving = await capacity.getServingPartners(db, 'LAUNDRY', '10027', 'dry_clean');
+
+      expect(serving.map((partner) => partner.id)).toEqual(['harlem']);
+    });
+  });
+
+  describe('ensureSlotsExist', () => {
+    it('should create slots only for partners serving the ZIP', async () => {
+      const { db, tables } = createFakeDb({ partners, capacity_calendar: [] });
+      mockGetServiceClient.mockReturnValue(db);
+
+      await capacity.ensureSlotsExist('LAUNDRY', '10027', DATE);
+
+      const partnerIds = new Set(tables.capacity_calendar.map((slot) => slot.partner_id));
+      expect(partnerIds).toEqual(new Set(['harlem', 'uptown']));
+      expect(tables.capacity_calendar).toHaveLength(12);
+    });
+
+    it('should fill in a partner without slots when others already have them', async () => {
+      const { db, tables } = createFakeDb({
+        partners,
+        capacity_calendar: [
+          { id: 'existing', partner_id: 'midtown', service_type: 'LAUNDRY', ...window(10), max_units: 10, reserved_units: 0 },
+        ],
+      });
+      mockGetServiceClient.mockReturnValue(db);
+
+      await capacity.ensureSlotsExist('LAUNDRY', '10027', DATE);
+      await capacity.ensureSlotsExist('LAUNDRY', '10027', DATE);
+
+      expect(tables.capacity_calendar.filter((slot) => slot.partner_id === 'harlem')).toHaveLength(6);
+      expect(tables.capacity_calendar.filter((slot) => slot.partner_id === 'midtown')).toHaveLength(1);
+    });
+  });
+
+  describe('getAvailableSlots', () => {
+    it('should merge windows covered by several partners and book the emptiest', async () => {
+      const { db } = createFakeDb({
+        partners,
+        capacity_calendar: [
+          { id: 's1', partner_id: 'harlem', service_type: 'LAUNDRY', ...window(10), max_units: 10, reserved_units: 8 },
+          { id: 's2', partner_id: 'uptown', service_type: 'LAUNDRY', ...window(10), max_units: 10, reserved_units: 3 },
+          { id: 's3', partner_id: 'harlem', service_type: 'LAUNDRY', ...window(12), max_units: 10, reserved_units: 10 },
+          { id: 's4', partner_id: 'midtown', service_type: 'LAUNDRY', ...window(14), max_units: 10, reserved_units: 0 },
+        ],
+      });
+      mockGetServiceClient.mockReturnValue(db);
+
+      const slots = await capacity.getAvailableSlots('LAUNDRY', '10027', DATE);
+
+      expect(slots).toEqual([
+        expect.objectContaining({ ...window(10), partner_id: 'uptown', available_units: 9, max_units: 20 }),
+      ]);
+    });
+
+    it('should leave out partners without the capability', async () => {
+      const { db } = createFakeDb({
+        partners,
+        capacity_calendar: [
+          { id: 's1', partner_id: 'harlem', service_type: 'LAUNDRY', ...window(10), max_units: 10, reserved_units: 8 },
+          { id: 's2', partner_id: 'uptown', service_type: 'LAUNDRY', ...window(10), max_units: 10, reserved_units: 3 },
+        ],
+      });
+      mockGetServiceClient.mockReturnValue(db);
+
+      const slots = await capacity.getAvailableSlots('LAUNDRY', '10027', DATE, 'dry_clean');
+
+      expect(slots).toEqual([expect.objectContaining({ partner_id: 'harlem', available_units: 2 })]);
+    });
+
+    it('should report a ZIP no partner serves as not served', async () => {
+      const { db } = createFakeDb({ partners, capacity_calendar: [] });
+      mockGetServiceClient.mockReturnValue(db);
+
+      await expect(capacity.getAvailableSlots('LAUNDRY', '10030', DATE)).rejects.toMatchObject({
+        statusCode: 422,
+        code: 'NOT_SERVED',
+        message: "We don't offer laundry in 10030 yet",
+      });
+      await expect(capacity.getAvailableSlots('LAUNDRY', '10001', DATE, 'wash_fold')).rejects.toMatchObject({
+        code: 'NOT_SERVED',
+        message: "We don't offer wash & fold in 10001 yet",
+      });
+    });
+  });
+});
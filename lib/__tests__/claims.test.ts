@@ -0,0 +1,196 @@
+/**
+ * Unit Tests for Claims Workflow
+ * Tests claim status transitions, filing eligibility, decisions and refund balances
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { createFakeDb } from './utils/fake-db';
+import {
+  decideClaim,
+  getNextClaimStatus,
+  isClaimOpen,
+  canFileClaim,
+  createClaimSchema,
+  claimDecisionSchema,
+  CLAIM_WINDOW_DAYS,
+  type Claim,
+} from '../claims';
+import { getPaidAmountCents, getRefundableCents } from '../refunds';
+
+describe('Claims Workflow', () => {
+  describe('getNextClaimStatus', () => {
+    it('should approve pending claims', () => {
+      expect(getNextClaimStatus('PENDING', 'approve')).toBe('APPROVED');
+    });
+
+    it('should not re-approve approved claims', () => {
+      expect(getNextClaimStatus('APPROVED', 'approve')).toBeNull();
+    });
+
+    it('should allow resolving from pending or approved', () => {
+      expect(getNextClaimStatus('PENDING', 'resolve')).toBe('RESOLVED');
+      expect(getNextClaimStatus('APPROVED', 'resolve')).toBe('RESOLVED');
+    });
+
+    it('should allow denying from pending or approved', () => {
+      expect(getNextClaimStatus('PENDING', 'deny')).toBe('DENIED');
+      expect(getNextClaimStatus('APPROVED', 'deny')).toBe('DENIED');
+    });
+
+    it('should reject any decision on terminal claims', () => {
+      for (const status of ['DENIED', 'RESOLVED'] as const) {
+        expect(getNextClaimStatus(status, 'approve')).toBeNull();
+        expect(getNextClaimStatus(status, 'deny')).toBeNull();
+        expect(getNextClaimStatus(status, 'resolve')).toBeNull();
+      }
+    });
+  });
+
+  describe('isClaimOpen', () => {
+    it('should treat pending and approved claims as open', () => {
+      expect(isClaimOpen('PENDING')).toBe(true);
+      expect(isClaimOpen('APPROVED')).toBe(true);
+      expect(isClaimOpen('DENIED')).toBe(false);
+      expect(isClaimOpen('RESOLVED')).toBe(false);
+    });
+  });
+
+  describe('canFileClaim', () => {
+    const now = new Date('2025-10-20T12:00:00Z');
+
+    it('should allow claims on recently delivered orders', () => {
+      expect(canFileClaim({ status: 'delivered', updated_at: '2025-10-18T12:00:00Z' }, now)).toBe(true);
+    });
+
+    it('should reject claims on orders that are still in progress', () => {
+      expect(canFileClaim({ status: 'at_facility', updated_at: '2025-10-19T12:00:00Z' }, now)).toBe(false);
+      expect(canFileClaim({ status: 'pending_pickup' }, now)).toBe(false);
+    });
+
+    it('should reject claims outside the claim window', () => {
+      const old = new Date(now.getTime() - (CLAIM_WINDOW_DAYS + 1) * 24 * 60 * 60 * 1000);
+      expect(canFileClaim({ status: 'completed', completed_at: old.toISOString() }, now)).toBe(false);
+    });
+
+    it('should prefer completed_at over updated_at', () => {
+      const old = new Date(now.getTime() - (CLAIM_WINDOW_DAYS + 1) * 24 * 60 * 60 * 1000);
+      expect(canFileClaim({
+        status: 'completed',
+        completed_at: old.toISOString(),
+        updated_at: now.toISOString(),
+      }, now)).toBe(false);
+    });
+  });
+
+  describe('Validation schemas', () => {
+    it('should require a meaningful description', () => {
+      const result = createClaimSchema.safeParse({ type: 'LOST', description: 'gone' });
+      expect(result.success).toBe(false);
+    });
+
+    it('should default evidence to an empty list', () => {
+      const result = createClaimSchema.parse({
+        type: 'DAMAGED',
+        description: 'Sweater came back with a tear in the sleeve',
+      });
+      expect(result.evidence).toEqual([]);
+    });
+
+    it('should reject negative payout amounts', () => {
+      const result = claimDecisionSchema.safeParse({
+        decision: 'resolve',
+        resolved_cents: -100,
+        resolution: 'Refunded',
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('decideClaim', () => {
+    const order = { id: 'order-1', status: 'completed', total_cents: 6000, quote_cents: null };
+    const approvedClaim = {
+      id: 'claim-1',
+      order_id: 'order-1',
+      bag_id: null,
+      user_id: 'user-1',
+      type: 'DAMAGED',
+      description: 'Sweater came back shrunk',
+      requested_cents: 4000,
+      resolution: 'Approved for replacement value',
+      resolved_cents: 4000,
+      evidence_json: [],
+      status: 'APPROVED',
+      reviewed_by: 'admin-0',
+      reviewed_at: '2030-03-01T12:00:00.000Z',
+      refund_id: null,
+      created_at: '2030-02-28T12:00:00.000Z',
+      resolved_at: null,
+    } as Claim;
+
+    function seed() {
+      return createFakeDb(
+        { claims: [approvedClaim], orders: [order], refunds: [], admin_notes: [] },
+        { deferred: true }
+      );
+    }
+
+    it('should refund once when two admins resolve the same claim at once', async () => {
+      const { db, tables } = seed();
+      const decision = { decision: 'resolve' as const, resolution: 'Refunded replacement value' };
+
+      const results = await Promise.allSettled([
+        decideClaim(db, { ...approvedClaim, orders: order }, decision, 'admin-1'),
+        decideClaim(db, { ...approvedClaim, orders: order }, decision, 'admin-2'),
+      ]);
+
+      expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+      const rejected = results.find((result) => result.status === 'rejected') as PromiseRejectedResult;
+      expect(rejected.reason).toMatchObject({ statusCode: 409, code: 'CLAIM_CONFLICT' });
+      expect(tables.refunds).toHaveLength(1);
+      expect(tables.refunds[0]).toMatchObject({ order_id: 'order-1', amount_cents: 4000 });
+      expect(tables.claims[0]).toMatchObject({ status: 'RESOLVED', refund_id: tables.refunds[0].id });
+      expect(tables.orders[0].status).toBe('completed');
+    });
+
+    it('should reopen the claim when the refund is refused', async () => {
+      const { db, tables } = seed();
+
+      await expect(
+        decideClaim(db, { ...approvedClaim, orders: order }, { decision: 'resolve', resolved_cents: 9000, resolution: 'Full refund' }, 'admin-1')
+      ).rejects.toMatchObject({ code: 'REFUND_EXCEEDS_PAID' });
+      expect(tables.refunds).toEqual([]);
+      expect(tables.claims[0]).toMatchObject({ status: 'APPROVED', resolved_cents: 4000, resolved_at: null, reviewed_by: 'admin-0' });
+    });
+
+    it('should reject decisions the status does not allow', async () => {
+      const { db } = seed();
+
+      await expect(
+        decideClaim(db, { ...approvedClaim, orders: order }, { decision: 'approve', resolution: 'Again' }, 'admin-1')
+      ).rejects.toMatchObject({ statusCode: 400, code: 'INVALID_CLAIM_DECISION' });
+    });
+  });
+});
+
+describe('Refund balances', () => {
+  it('should use the final quote as the paid amount when present', () => {
+    expect(getPaidAmountCents({ quote_cents: 4200, total_cents: 3500 })).toBe(4200);
+    expect(getPaidAmountCents({ quote_cents: null, total_cents: 3500 })).toBe(3500);
+    expect(getPaidAmountCents({})).toBe(0);
+  });
+
+  it('should subtract earlier refunds from the refundable balance', () => {
+    expect(getRefundableCents(5000, [{ amount_cents: 1500, status: 'succeeded' }])).toBe(3500);
+  });
+
+  it('should ignore failed refunds', () => {
+    expect(getRefundableCents(5000, [
+      { amount_cents: 1500, status: 'failed' },
+      { amount_cents: 1000, status: 'pending' },
+    ])).toBe(4000);
+  });
+
+  it('should never go below zero', () => {
+    expect(getRefundableCents(1000, [{ amount_cents: 2000, status: 'succeeded' }])).toBe(0);
+  });
+});
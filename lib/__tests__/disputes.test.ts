@@ -0,0 +1,347 @@
+/**
+ * Unit Tests for Dispute Cases
+ * Tests SLA timers, outcomes, case opening from both sources and resolution
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { createFakeDb } from './utils/fake-db';
+
+jest.mock('../db');
+jest.mock('../pdf', () => ({
+  buildOrderInvoiceData: jest.fn(async () => ({})),
+  generateInvoicePDF: jest.fn(async () => Buffer.from('%PDF')),
+}));
+
+const mockFilesCreate = jest.fn(async (_params: any) => ({ id: 'file_receipt' }));
+const mockDisputesUpdate = jest.fn(async (id: string, _params: any, _options?: any) => ({ id, status: 'under_review' }));
+const mockDisputesClose = jest.fn(async (id: string) => ({ id, status: 'lost' }));
+jest.mock('stripe', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({
+    files: { create: mockFilesCreate },
+    disputes: { update: mockDisputesUpdate, close: mockDisputesClose },
+  })),
+}));
+
+import {
+  getAvailableOutcomes,
+  getDisputeRefundCents,
+  getSlaDueAt,
+  getSlaState,
+  flagSlaBreaches,
+  openChargebackCase,
+  openInAppDisputeCase,
+  resolveDisputeCase,
+  resolveDisputeSchema,
+  type DisputeCase,
+} from '../disputes';
+import { MemoryUploadStorage, setUploadStorage } from '../upload';
+
+const NOW = new Date('2030-03-31T12:00:00Z');
+const HOUR = 60 * 60 * 1000;
+
+function disputeCase(overrides: Partial<DisputeCase> = {}): DisputeCase {
+  return {
+    id: 'case-1',
+    order_id: 'order-1',
+    user_id: 'user-1',
+    partner_id: 'partner-1',
+    source: 'in_app',
+    status: 'open',
+    reason: 'Kitchen was not cleaned',
+    amount_cents: 15000,
+    partner_response: null,
+    partner_responded_at: null,
+    stripe_dispute_id: null,
+    stripe_charge_id: null,
+    stripe_status: null,
+    evidence_due_by: null,
+    evidence_json: null,
+    evidence_submitted_at: null,
+    opened_at: NOW.toISOString(),
+    sla_due_at: new Date(NOW.getTime() + 24 * HOUR).toISOString(),
+    sla_breached_at: null,
+    outcome: null,
+    refund_cents: null,
+    resolution_note: null,
+    resolved_by: null,
+    resolved_at: null,
+    created_at: NOW.toISOString(),
+    updated_at: NOW.toISOString(),
+    ...overrides,
+  };
+}
+
+const order = {
+  id: 'order-1',
+  user_id: 'user-1',
+  partner_id: 'partner-1',
+  service_type: 'CLEANING',
+  status: 'disputed',
+  total_cents: 15000,
+  payment_id: 'pi_order',
+  paid_at: '2030-03-30T10:00:00Z',
+  slot_start: '2030-03-30T14:00:00Z',
+  disputed_at: NOW.toISOString(),
+  dispute_reason: 'Kitchen was not cleaned',
+  policy_version: 3,
+};
+
+function stripeDispute(overrides: Record<string, any> = {}): any {
+  return {
+    id: 'dp_1',
+    payment_intent: 'pi_order',
+    charge: 'ch_1',
+    amount: 15000,
+    reason: 'product_unacceptable',
+    status: 'needs_response',
+    evidence_details: { due_by: Math.floor((NOW.getTime() + 10 * 24 * HOUR) / 1000) },
+    ...overrides,
+  };
+}
+
+describe('Dispute Cases', () => {
+  beforeEach(() => {
+    mockFilesCreate.mockClear();
+    mockDisputesUpdate.mockClear();
+    mockDisputesClose.mockClear();
+  });
+
+  describe('getSlaDueAt', () => {
+    it('should give cases 24 hours', () => {
+      expect(getSlaDueAt(NOW).toISOString()).toBe('2030-04-01T12:00:00.000Z');
+    });
+
+    it('should use an earlier Stripe evidence deadline', () => {
+      const dueBy = new Date(NOW.getTime() + 6 * HOUR);
+      expect(getSlaDueAt(NOW, dueBy)).toEqual(dueBy);
+    });
+  });
+
+  describe('getSlaState', () => {
+    it('should count down open cases', () => {
+      const due = (hours: number) => disputeCase({ sla_due_at: new Date(NOW.getTime() + hours * HOUR).toISOString() });
+      expect(getSlaState(due(20), NOW)).toBe('on_track');
+      expect(getSlaState(due(2), NOW)).toBe('due_soon');
+      expect(getSlaState(due(-1), NOW)).toBe('overdue');
+    });
+
+    it('should judge handled cases by when the admin acted', () => {
+      const dueAt = new Date(NOW.getTime() + 24 * HOUR);
+      const handled = (hours: number) =>
+        disputeCase({ status: 'resolved', resolved_at: new Date(NOW.getTime() + hours * HOUR).toISOString() });
+      expect(getSlaState(handled(5), dueAt)).toBe('met');
+      expect(getSlaState(handled(30), dueAt)).toBe('missed');
+    });
+  });
+
+  describe('outcomes', () => {
+    it('should not offer partial refunds on chargebacks', () => {
+      expect(getAvailableOutcomes(disputeCase()).map((o) => o.value)).toEqual(['partial_refund', 'full_refund', 'rejected']);
+      expect(getAvailableOutcomes(disputeCase({ source: 'chargeback' }))).toEqual([
+        { value: 'full_refund', label: 'Accept chargeback' },
+        { value: 'rejected', label: 'Contest with evidence' },
+      ]);
+      expect(getAvailableOutcomes(disputeCase({ status: 'resolved' }))).toEqual([]);
+    });
+
+    it('should refund the balance, the requested part or nothing', () => {
+      expect(getDisputeRefundCents('full_refund', 15000)).toBe(15000);
+      expect(getDisputeRefundCents('partial_refund', 15000, 5000)).toBe(5000);
+      expect(getDisputeRefundCents('rejected', 15000)).toBe(0);
+      expect(() => getDisputeRefundCents('partial_refund', 15000, 15000)).toThrow('partial refund must be less');
+    });
+
+    it('should require an amount for partial refunds', () => {
+      expect(resolveDisputeSchema.safeParse({ outcome: 'partial_refund', resolution_note: 'Half done' }).success).toBe(false);
+      expect(resolveDisputeSchema.safeParse({ outcome: 'rejected', resolution_note: 'Photos show a clean kitchen' }).success).toBe(true);
+    });
+  });
+
+  describe('openInAppDisputeCase', () => {
+    it('should open one case with the refundable balance and a 24h SLA', async () => {
+      const { db, tables } = createFakeDb({
+        dispute_cases: [],
+        refunds: [{ order_id: 'order-1', amount_cents: 3000, status: 'succeeded' }],
+      });
+
+      const opened = await openInAppDisputeCase(db, order, NOW);
+      const retried = await openInAppDisputeCase(db, order, NOW);
+
+      expect(retried.id).toBe(opened.id);
+      expect(tables.dispute_cases).toHaveLength(1);
+      expect(opened).toMatchObject({
+        source: 'in_app',
+        status: 'open',
+        amount_cents: 12000,
+        reason: 'Kitchen was not cleaned',
+        sla_due_at: '2030-04-01T12:00:00.000Z',
+      });
+    });
+  });
+
+  describe('openChargebackCase', () => {
+    it('should open a case for the disputed order and alert admins once', async () => {
+      const { db, tables } = createFakeDb({ orders: [order], dispute_cases: [], operational_alerts: [] });
+
+      const opened = await openChargebackCase(db, stripeDispute(), NOW);
+      await openChargebackCase(db, stripeDispute(), NOW);
+
+      expect(opened).toMatchObject({
+        order_id: 'order-1',
+        source: 'chargeback',
+        stripe_dispute_id: 'dp_1',
+        amount_cents: 15000,
+        sla_due_at: '2030-04-01T12:00:00.000Z',
+      });
+      expect(tables.dispute_cases).toHaveLength(1);
+      expect(tables.operational_alerts).toEqual([expect.objectContaining({ alert_type: 'chargeback_opened' })]);
+    });
+
+    it('should find orders disputed through a tip', async () => {
+      const { db } = createFakeDb({
+        orders: [order],
+        order_tips: [{ order_id: 'order-1', payment_intent_id: 'pi_tip' }],
+        dispute_cases: [],
+      });
+
+      const opened = await openChargebackCase(db, stripeDispute({ payment_intent: 'pi_tip' }), NOW);
+      expect(opened?.order_id).toBe('order-1');
+    });
+
+    it('should ignore payments that are not ours', async () => {
+      const { db } = createFakeDb({ orders: [order], dispute_cases: [] });
+      expect(await openChargebackCase(db, stripeDispute({ payment_intent: 'pi_other' }), NOW)).toBeNull();
+    });
+  });
+
+  describe('resolveDisputeCase', () => {
+    it('should resolve an in-app partial refund through the state machine', async () => {
+      const { db, tables } = createFakeDb(
+        { orders: [order], refunds: [], dispute_cases: [disputeCase()], order_events: [] },
+        { rpc: () => ({ success: true }) }
+      );
+
+      const resolved = await resolveDisputeCase(
+        db,
+        disputeCase(),
+        { outcome: 'partial_refund', refund_cents: 5000, resolution_note: 'Kitchen missed' },
+        'admin-1',
+        NOW
+      );
+
+      expect(db.rpc).toHaveBeenCalledWith('transition_order_status', expect.objectContaining({
+        p_action: 'resolve_dispute_refund',
+        p_actor_role: 'admin',
+        p_meta: expect.objectContaining({ refund_cents: 5000 }),
+      }));
+      expect(resolved).toMatchObject({ status: 'resolved', outcome: 'partial_refund', refund_cents: 5000 });
+      expect(tables.order_events).toEqual([expect.objectContaining({ event_type: 'dispute_resolved' })]);
+    });
+
+    it('should reject an in-app dispute by completing the order', async () => {
+      const { db } = createFakeDb(
+        { orders: [order], refunds: [], dispute_cases: [disputeCase()], order_events: [] },
+        { rpc: () => ({ success: true }) }
+      );
+
+      const resolved = await resolveDisputeCase(db, disputeCase(), { outcome: 'rejected', resolution_note: 'Photos show it was done' }, 'admin-1', NOW);
+
+      expect(db.rpc).toHaveBeenCalledWith('transition_order_status', expect.objectContaining({
+        p_action: 'resolve_dispute_complete',
+      }));
+      expect(resolved).toMatchObject({ status: 'resolved', outcome: 'rejected', refund_cents: 0 });
+    });
+
+    it('should contest a chargeback with the evidence packet and receipt', async () => {
+      const storage = new MemoryUploadStorage();
+      await storage.upload('order-1/dispute/photo.jpg', new Uint8Array([1]), 'image/jpeg');
+      setUploadStorage(storage);
+
+      const chargeback = disputeCase({ source: 'chargeback', stripe_dispute_id: 'dp_1', partner_response: 'Cleaned every room' });
+      const { db } = createFakeDb({
+        orders: [{ ...order, status: 'completed', dispute_evidence_json: [{ path: 'order-1/dispute/photo.jpg', uploaded_at: NOW.toISOString() }] }],
+        order_events: [{ order_id: 'order-1', event_type: 'complete', actor_role: 'partner', ts: '2030-03-30T17:00:00Z' }],
+        invoices: [{ order_id: 'order-1', tax_breakdown_json: { taxable_subtotal_cents: 15000, tax_exempt_subtotal_cents: 0, tax_rate: 0.08875 } }],
+        dispute_cases: [chargeback],
+      });
+
+      const resolved = await resolveDisputeCase(db, chargeback, { outcome: 'rejected', resolution_note: 'Service delivered' }, 'admin-1', NOW);
+
+      expect(mockFilesCreate).toHaveBeenCalledWith(expect.objectContaining({ purpose: 'dispute_evidence' }));
+      const [disputeId, params] = mockDisputesUpdate.mock.calls[0];
+      expect(disputeId).toBe('dp_1');
+      expect(params).toMatchObject({
+        submit: true,
+        evidence: expect.objectContaining({
+          receipt: 'file_receipt',
+          service_date: '2030-03-30',
+          refund_policy_disclosure: expect.stringContaining('v3'),
+        }),
+      });
+      expect(params.evidence.uncategorized_text).toContain('Cleaned every room');
+      expect(params.evidence.uncategorized_text).toContain('memory://order-photos/order-1/dispute/photo.jpg');
+      expect(resolved).toMatchObject({ status: 'evidence_submitted', outcome: 'rejected', stripe_status: 'under_review' });
+
+      setUploadStorage(null);
+    });
+
+    it('should close a chargeback on Stripe once under concurrent decisions', async () => {
+      const chargeback = disputeCase({ source: 'chargeback', stripe_dispute_id: 'dp_1' });
+      const { db, tables } = createFakeDb(
+        { orders: [order], dispute_cases: [chargeback], order_events: [] },
+        { deferred: true }
+      );
+
+      const results = await Promise.allSettled([
+        resolveDisputeCase(db, chargeback, { outcome: 'full_refund', resolution_note: 'Accept' }, 'admin-1', NOW),
+        resolveDisputeCase(db, chargeback, { outcome: 'full_refund', resolution_note: 'Accept' }, 'admin-2', NOW),
+      ]);
+
+      expect(mockDisputesClose).toHaveBeenCalledTimes(1);
+      expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect(results.find((result) => result.status === 'rejected')).toMatchObject({ reason: { statusCode: 409 } });
+      expect(tables.dispute_cases[0]).toMatchObject({ status: 'closed', outcome: 'full_refund', stripe_status: 'lost' });
+    });
+
+    it('should reopen a chargeback when Stripe refuses to close it', async () => {
+      const chargeback = disputeCase({ source: 'chargeback', stripe_dispute_id: 'dp_1' });
+      const { db, tables } = createFakeDb({ orders: [order], dispute_cases: [chargeback], order_events: [] });
+      mockDisputesClose.mockRejectedValueOnce(new Error('Stripe unavailable'));
+
+      await expect(
+        resolveDisputeCase(db, chargeback, { outcome: 'full_refund', resolution_note: 'Accept' }, 'admin-1', NOW)
+      ).rejects.toThrow('Stripe unavailable');
+
+      expect(tables.dispute_cases[0]).toMatchObject({ status: 'open', outcome: null, resolved_by: null });
+      expect(tables.order_events).toEqual([]);
+    });
+
+    it('should refuse outcomes that do not apply', async () => {
+      const { db } = createFakeDb({ dispute_cases: [] });
+
+      await expect(
+        resolveDisputeCase(db, disputeCase({ source: 'chargeback' }), { outcome: 'partial_refund', refund_cents: 100, resolution_note: 'x' }, 'admin-1')
+      ).rejects.toMatchObject({ code: 'INVALID_DISPUTE_OUTCOME' });
+      await expect(
+        resolveDisputeCase(db, disputeCase({ status: 'resolved' }), { outcome: 'rejected', resolution_note: 'x' }, 'admin-1')
+      ).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+
+  describe('flagSlaBreaches', () => {
+    it('should alert once per overdue case', async () => {
+      const overdue = disputeCase({ sla_due_at: new Date(NOW.getTime() - HOUR).toISOString() });
+      const { db, tables } = createFakeDb({
+        dispute_cases: [overdue, disputeCase({ id: 'case-2' })],
+        operational_alerts: [],
+      });
+
+      expect(await flagSlaBreaches(db, NOW)).toEqual({ flagged: 1 });
+      expect(await flagSlaBreaches(db, NOW)).toEqual({ flagged: 0 });
+      expect(tables.operational_alerts).toEqual([
+        expect.objectContaining({ alert_type: 'dispute_sla_breached', metadata: expect.objectContaining({ dispute_case_id: 'case-1' }) }),
+      ]);
+    });
+  });
+});
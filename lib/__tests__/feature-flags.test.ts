@@ -0,0 +1,170 @@
+/**
+ * Unit Tests for Feature Flags
+ * Tests targeting, percentage rollout and DB-backed flag lookup
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import type { FeatureFlag } from '../feature-flags';
+
+// Mock the database module before any imports
+jest.mock('../db');
+
+function makeFlag(overrides: Partial<FeatureFlag> = {}): FeatureFlag {
+  return {
+    id: 'flag-1',
+    key: 'new_checkout',
+    description: null,
+    enabled: true,
+    rollout_percentage: 100,
+    target_user_ids: null,
+    target_roles: null,
+    target_zip_codes: null,
+    target_service_types: null,
+    created_at: '2025-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+function mockFlagsQuery(result: { data: FeatureFlag[] | null; error: unknown }) {
+  return {
+    from: jest.fn(() => ({
+      select: jest.fn(() => Promise.resolve(result)),
+    })),
+  };
+}
+
+describe('Feature Flags', () => {
+  let flags: typeof import('../feature-flags');
+  let mockGetServiceClient: jest.Mock;
+
+  beforeEach(async () => {
+    const db = await import('../db');
+    mockGetServiceClient = db.getServiceClient as jest.Mock;
+    flags = await import('../feature-flags');
+    flags.clearFeatureFlagCache();
+    mockGetServiceClient.mockReset();
+  });
+
+  describe('evaluateFeatureFlag', () => {
+    it('should be off when the flag is disabled', () => {
+      const flag = makeFlag({ enabled: false, target_user_ids: ['user-1'] });
+      expect(flags.evaluateFeatureFlag(flag, { userId: 'user-1' })).toBe(false);
+    });
+
+    it('should be on for targeted users regardless of other rules', () => {
+      const flag = makeFlag({
+        rollout_percentage: 0,
+        target_user_ids: ['user-1'],
+        target_zip_codes: ['10027'],
+      });
+
+      expect(flags.evaluateFeatureFlag(flag, { userId: 'user-1', zip: '10001' })).toBe(true);
+      expect(flags.evaluateFeatureFlag(flag, { userId: 'user-2', zip: '10027' })).toBe(false);
+    });
+
+    it('should require every targeting rule that is set', () => {
+      const flag = makeFlag({
+        target_roles: ['admin'],
+        target_zip_codes: ['10027'],
+        target_service_types: ['LAUNDRY'],
+      });
+
+      expect(flags.evaluateFeatureFlag(flag, { role: 'admin', zip: '10027', serviceType: 'LAUNDRY' })).toBe(true);
+      expect(flags.evaluateFeatureFlag(flag, { role: 'user', zip: '10027', serviceType: 'LAUNDRY' })).toBe(false);
+      expect(flags.evaluateFeatureFlag(flag, { role: 'admin', zip: '10001', serviceType: 'LAUNDRY' })).toBe(false);
+      expect(flags.evaluateFeatureFlag(flag, { role: 'admin', zip: '10027', serviceType: 'CLEANING' })).toBe(false);
+      expect(flags.evaluateFeatureFlag(flag, { role: 'admin', zip: '10027' })).toBe(false);
+    });
+
+    it('should bucket users deterministically for partial rollouts', () => {
+      const flag = makeFlag({ rollout_percentage: 50 });
+      const userIds = Array.from({ length: 200 }, (_, i) => `user-${i}`);
+
+      const firstPass = userIds.map(userId => flags.evaluateFeatureFlag(flag, { userId }));
+      const secondPass = userIds.map(userId => flags.evaluateFeatureFlag(flag, { userId }));
+      expect(secondPass).toEqual(firstPass);
+
+      const enabledCount = firstPass.filter(Boolean).length;
+      expect(enabledCount).toBeGreaterThan(60);
+      expect(enabledCount).toBeLessThan(140);
+    });
+
+    it('should only add users as the rollout grows', () => {
+      const userIds = Array.from({ length: 100 }, (_, i) => `user-${i}`);
+      const at20 = userIds.filter(userId =>
+        flags.evaluateFeatureFlag(makeFlag({ rollout_percentage: 20 }), { userId })
+      );
+      const at60 = userIds.filter(userId =>
+        flags.evaluateFeatureFlag(makeFlag({ rollout_percentage: 60 }), { userId })
+      );
+
+      expect(at20.every(userId => at60.includes(userId))).toBe(true);
+    });
+
+    it('should leave anonymous visitors out of partial rollouts', () => {
+      expect(flags.evaluateFeatureFlag(makeFlag({ rollout_percentage: 99 }), {})).toBe(false);
+      expect(flags.evaluateFeatureFlag(makeFlag({ rollout_percentage: 100 }), {})).toBe(true);
+    });
+  });
+
+  describe('isFeatureEnabled', () => {
+    it('should read flags from the database', async () => {
+      mockGetServiceClient.mockReturnValue(mockFlagsQuery({
+        data: [makeFlag({ target_zip_codes: ['10027'] })],
+        error: null,
+      }));
+
+      expect(await flags.isFeatureEnabled('new_checkout', { zip: '10027' })).toBe(true);
+      expect(await flags.isFeatureEnabled('new_checkout', { zip: '10001' })).toBe(false);
+    });
+
+    it('should treat unknown flags as off', async () => {
+      mockGetServiceClient.mockReturnValue(mockFlagsQuery({ data: [], error: null }));
+
+      expect(await flags.isFeatureEnabled('does_not_exist', { userId: 'user-1' })).toBe(false);
+    });
+
+    it('should cache flags between checks', async () => {
+      mockGetServiceClient.mockReturnValue(mockFlagsQuery({ data: [makeFlag()], error: null }));
+
+      await flags.isFeatureEnabled('new_checkout');
+      await flags.isFeatureEnabled('new_checkout');
+
+      expect(mockGetServiceClient).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fall back to environment defaults when the DB is unavailable', async () => {
+      mockGetServiceClient.mockReturnValue(mockFlagsQuery({ data: null, error: { message: 'timeout' } }));
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      // ENABLE_PAYMENT_AUTH is unset in tests
+      expect(await flags.canUsePaymentAuthorization('user-1')).toBe(false);
+      expect(await flags.isFeatureEnabled('new_checkout')).toBe(false);
+
+      consoleSpy.mockRestore();
+    });
+
+    it('should let a DB row override the environment default', async () => {
+      mockGetServiceClient.mockReturnValue(mockFlagsQuery({
+        data: [makeFlag({ key: flags.PAYMENT_AUTHORIZATION_FLAG, target_roles: ['admin'] })],
+        error: null,
+      }));
+
+      expect(await flags.canUsePaymentAuthorization('user-1', { role: 'admin' })).toBe(true);
+      expect(await flags.canUsePaymentAuthorization('user-1', { role: 'user' })).toBe(false);
+    });
+
+    it('should evaluate several flags at once', async () => {
+      mockGetServiceClient.mockReturnValue(mockFlagsQuery({
+        data: [makeFlag(), makeFlag({ id: 'flag-2', key: 'dark_launch', enabled: false })],
+        error: null,
+      }));
+
+      expect(await flags.evaluateFeatureFlags(['new_checkout', 'dark_launch', 'missing'])).toEqual({
+        new_checkout: true,
+        dark_launch: false,
+        missing: false,
+      });
+    });
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Unit Tests for Customer Notifications
+ * Tests opt-in checks and the dispatcher's per-channel delivery records
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import type { NotificationPreferences } from '../notifications';
+
+// Mock the database and providers before any imports
+jest.mock('../db');
+jest.mock('../sms', () => ({ sendSMS: jest.fn(), isSMSConfigured: jest.fn() }));
+jest.mock('../email', () => ({ sendEmail: jest.fn(), isEmailConfigured: jest.fn() }));
+
+interface FakeDbOptions {
+  profile?: { phone: string | null; email: string | null } | null;
+  preferences?: Partial<NotificationPreferences> | null;
+}
+
+function createFakeDb({ profile = null, preferences = null }: FakeDbOptions) {
+  const inserts: Record<string, any[]> = {};
+  const rows: Record<string, unknown> = {
+    profiles: profile,
+    notification_preferences: preferences,
+  };
+
+  return {
+    inserts,
+    from: jest.fn((table: string) => ({
+      select: () => ({
+        eq: () => ({
+          maybeSingle: () => Promise.resolve({ data: rows[table] ?? null, error: null }),
+        }),
+      }),
+      insert: (row: any) => {
+        (inserts[table] = inserts[table] || []).push(row);
+        return Promise.resolve({ error: null });
+      },
+    })),
+  };
+}
+
+describe('Customer Notifications', () => {
+  let notifications: typeof import('../notifications');
+  let mockGetServiceClient: jest.Mock;
+  let mockSendSMS: jest.Mock<(...args: any[]) => Promise<void>>;
+  let mockSendEmail: jest.Mock<(...args: any[]) => Promise<string | null>>;
+  let mockSMSConfigured: jest.Mock<() => boolean>;
+
+  beforeEach(async () => {
+    const db = await import('../db');
+    const sms = await import('../sms');
+    const email = await import('../email');
+    mockGetServiceClient = db.getServiceClient as jest.Mock;
+    mockSendSMS = sms.sendSMS as any;
+    mockSendEmail = email.sendEmail as any;
+    mockSMSConfigured = sms.isSMSConfigured as any;
+    mockSMSConfigured.mockReset().mockReturnValue(true);
+    (email.isEmailConfigured as jest.Mock<() => boolean>).mockReset().mockReturnValue(true);
+    mockSendSMS.mockReset().mockResolvedValue(undefined);
+    mockSendEmail.mockReset().mockResolvedValue('msg-1');
+    notifications = await import('../notifications');
+  });
+
+  describe('isChannelEnabled', () => {
+    it('should use event defaults without saved preferences', () => {
+      expect(notifications.isChannelEnabled(null, 'order_confirmed', 'email')).toBe(true);
+      expect(notifications.isChannelEnabled(null, 'out_for_delivery', 'email')).toBe(false);
+      expect(notifications.isChannelEnabled(null, 'service_in_progress', 'sms')).toBe(true);
+      expect(notifications.isChannelEnabled(null, 'service_in_progress', 'email')).toBe(false);
+    });
+
+    it('should apply per-event overrides', () => {
+      const prefs: NotificationPreferences = {
+        sms_enabled: true,
+        email_enabled: true,
+        event_channels: { order_delivered: { sms: false, email: true } },
+      };
+
+      expect(notifications.isChannelEnabled(prefs, 'order_delivered', 'sms')).toBe(false);
+      expect(notifications.isChannelEnabled(prefs, 'order_delivered', 'email')).toBe(true);
+      expect(notifications.isChannelEnabled(prefs, 'order_confirmed', 'sms')).toBe(true);
+    });
+
+    it('should let channel switches override everything', () => {
+      const prefs: NotificationPreferences = {
+        sms_enabled: false,
+        email_enabled: true,
+        event_channels: { order_confirmed: { sms: true } },
+      };
+
+      expect(notifications.isChannelEnabled(prefs, 'order_confirmed', 'sms')).toBe(false);
+      expect(notifications.isChannelEnabled(prefs, 'payment_requested', 'sms')).toBe(false);
+    });
+
+    it('should ignore per-event opt-outs for required events', () => {
+      const prefs: NotificationPreferences = {
+        sms_enabled: true,
+        email_enabled: true,
+        event_channels: { quote_ready: { sms: false } },
+      };
+
+      expect(notifications.isChannelEnabled(prefs, 'quote_ready', 'sms')).toBe(true);
+    });
+  });
+
+  describe('mergeNotificationPreferences', () => {
+    it('should merge event toggles channel by channel', () => {
+      const current: NotificationPreferences = {
+        sms_enabled: true,
+        email_enabled: true,
+        event_channels: { order_delivered: { sms: false } },
+      };
+
+      const merged = notifications.mergeNotificationPreferences(current, {
+        email_enabled: false,
+        event_channels: { order_delivered: { email: true }, items_received: { sms: false } },
+      });
+
+      expect(merged).toEqual({
+        sms_enabled: true,
+        email_enabled: false,
+        event_channels: {
+          order_delivered: { sms: false, email: true },
+          items_received: { sms: false },
+        },
+      });
+    });
+
+    it('should reject unknown events', () => {
+      const result = notifications.notificationPreferencesSchema.safeParse({
+        event_channels: { not_an_event: { sms: true } },
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('notifyCustomer', () => {
+    const baseParams = {
+      event: 'order_delivered' as const,
+      orderId: 'order-1',
+      title: 'Delivered',
+      message: 'Your laundry has been delivered!',
+    };
+
+    it('should send allowed channels, fill the inbox and log the dispatch', async () => {
+      const db = createFakeDb({ profile: { phone: '2125551234', email: 'a@example.com' } });
+      mockGetServiceClient.mockReturnValue(db);
+
+      const result = await notifications.notifyCustomer({ ...baseParams, userId: 'user-1' });
+
+      expect(mockSendSMS).toHaveBeenCalledWith({
+        to: '2125551234',
+        message: 'Tidyhood: Your laundry has been delivered!',
+      });
+      // Delivered emails are off by default
+      expect(mockSendEmail).not.toHaveBeenCalled();
+      expect(result.channels).toEqual({ sms: 'sent', email: 'opted_out', in_app: 'sent' });
+
+      expect(db.inserts.notifications.map(n => [n.type, n.status])).toEqual([
+        ['SMS', 'sent'],
+        ['IN_APP', 'sent'],
+      ]);
+      expect(db.inserts.notification_log[0]).toMatchObject({
+        user_id: 'user-1',
+        order_id: 'order-1',
+        type: 'order_delivered',
+        channels: result.channels,
+      });
+    });
+
+    it('should skip channels the customer opted out of', async () => {
+      const db = createFakeDb({
+        profile: { phone: '2125551234', email: 'a@example.com' },
+        preferences: { sms_enabled: false, email_enabled: true, event_channels: {} },
+      });
+      mockGetServiceClient.mockReturnValue(db);
+
+      const result = await notifications.notifyCustomer({ ...baseParams, event: 'order_confirmed', userId: 'user-1' });
+
+      expect(mockSendSMS).not.toHaveBeenCalled();
+      expect(mockSendEmail).toHaveBeenCalledWith(expect.objectContaining({ to: 'a@example.com', subject: 'Delivered' }));
+      expect(result.channels.sms).toBe('opted_out');
+      expect(result.channels.email).toBe('sent');
+    });
+
+    it('should record failed sends without throwing', async () => {
+      const db = createFakeDb({ profile: { phone: '2125551234', email: null } });
+      mockGetServiceClient.mockReturnValue(db);
+      mockSendSMS.mockRejectedValue(new Error('Twilio down'));
+
+      const result = await notifications.notifyCustomer({ ...baseParams, userId: 'user-1' });
+
+      expect(result.channels.sms).toBe('failed');
+      expect(result.channels.email).toBe('no_recipient');
+      expect(db.inserts.notifications[0]).toMatchObject({
+        type: 'SMS',
+        status: 'failed',
+        error: 'Twilio down',
+      });
+    });
+
+    it('should record sends without a configured provider as failed', async () => {
+      const db = createFakeDb({ profile: { phone: '2125551234', email: null } });
+      mockGetServiceClient.mockReturnValue(db);
+      mockSMSConfigured.mockReturnValue(false);
+
+      const result = await notifications.notifyCustomer({ ...baseParams, userId: 'user-1' });
+
+      expect(mockSendSMS).not.toHaveBeenCalled();
+      expect(result.channels.sms).toBe('failed');
+      expect(db.inserts.notifications[0]).toMatchObject({
+        type: 'SMS',
+        status: 'failed',
+        error: 'SMS provider not configured',
+      });
+    });
+
+    it('should notify guests with event defaults and no inbox', async () => {
+      const db = createFakeDb({});
+      mockGetServiceClient.mockReturnValue(db);
+
+      const result = await notifications.notifyCustomer({
+        ...baseParams,
+        event: 'order_confirmed',
+        phone: '2125559876',
+        email: 'guest@example.com',
+      });
+
+      expect(result.channels).toEqual({ sms: 'sent', email: 'sent', in_app: 'no_recipient' });
+      expect(db.inserts.notification_log).toBeUndefined();
+      expect(db.inserts.notifications.every(n => n.recipient_id === null)).toBe(true);
+    });
+  });
+});
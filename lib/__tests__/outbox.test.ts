@@ -0,0 +1,347 @@
+/**
+ * Unit Tests for the Domain Event Outbox
+ * Tests fan-out, retries with backoff, dead-lettering and the dispute refund handler
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { createFakeDb, type Tables } from './utils/fake-db';
+
+// Mock the database and providers before any imports
+jest.mock('../db');
+jest.mock('../notifications', () => ({
+  notifyCustomer: jest.fn(async () => ({ channels: { sms: 'sent', email: 'sent', in_app: 'sent' } })),
+}));
+jest.mock('../sms', () => ({ sendSMS: jest.fn(async () => undefined) }));
+jest.mock('../email', () => ({ sendEmail: jest.fn(async () => 'msg-1') }));
+
+const mockRefundsCreate = jest.fn(async (params: any, _options?: any) => ({ id: 're_test', ...params }));
+jest.mock('stripe', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({ refunds: { create: mockRefundsCreate } })),
+}));
+
+const TABLE_DEFAULTS: Record<string, Record<string, any>> = {
+  domain_events: { dispatched_at: null },
+  domain_event_deliveries: {
+    status: 'pending',
+    attempts: 0,
+    next_attempt_at: '2026-01-01T00:00:00.000Z',
+    locked_until: null,
+    last_error: null,
+  },
+};
+
+/**
+ * Fake db with the outbox column defaults and the delivery -> event join
+ */
+function createOutboxDb(seed: Tables) {
+  return createFakeDb(seed, {
+    defaults: TABLE_DEFAULTS,
+    relations: {
+      domain_events: (delivery, tables) => tables.domain_events.find((event) => event.id === delivery.event_id) ?? null,
+    },
+  });
+}
+
+const ORDER_ID = '11111111-2222-3333-4444-555555555555';
+
+const baseOrder = {
+  id: ORDER_ID,
+  user_id: 'user-1',
+  partner_id: 'partner-1',
+  service_type: 'CLEANING',
+  status: 'refunded',
+  total_cents: 15000,
+  payment_intent_id: 'pi_test',
+  dispute_reason: 'Missed the bathroom',
+};
+
+function transitionEvent(eventType: string, action: string, metadata: Record<string, any> = {}) {
+  return {
+    id: 'event-1',
+    event_type: eventType,
+    order_id: ORDER_ID,
+    idempotency_key: 'order_event:oe-1',
+    payload: { action, old_status: null, new_status: 'x', actor_id: 'admin-1', actor_role: 'admin', metadata },
+    created_at: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+describe('Domain Event Outbox', () => {
+  let outbox: typeof import('../outbox');
+  let mockNotifyCustomer: jest.Mock<any>;
+  let mockSendSMS: jest.Mock<any>;
+
+  const now = new Date('2026-01-01T12:00:00.000Z');
+
+  beforeEach(async () => {
+    const notifications = await import('../notifications');
+    mockNotifyCustomer = notifications.notifyCustomer as unknown as jest.Mock<any>;
+    mockNotifyCustomer.mockClear();
+    const sms = await import('../sms');
+    mockSendSMS = sms.sendSMS as unknown as jest.Mock<any>;
+    mockSendSMS.mockClear();
+    mockRefundsCreate.mockClear();
+    outbox = await import('../outbox');
+  });
+
+  describe('getRetryDelayMs', () => {
+    it('should back off exponentially', () => {
+      expect(outbox.getRetryDelayMs(1)).toBe(60 * 1000);
+      expect(outbox.getRetryDelayMs(2)).toBe(4 * 60 * 1000);
+      expect(outbox.getRetryDelayMs(3)).toBe(16 * 60 * 1000);
+    });
+
+    it('should cap the delay at six hours', () => {
+      expect(outbox.getRetryDelayMs(20)).toBe(6 * 60 * 60 * 1000);
+    });
+  });
+
+  describe('getCustomerNotification', () => {
+    it('should ask for a rating and tip when a cleaning completes', () => {
+      const notification = outbox.getCustomerNotification(
+        transitionEvent('order.completed', 'complete') as any,
+        baseOrder,
+        'https://tidyhood.test'
+      );
+
+      expect(notification?.event).toBe('order_completed');
+      expect(notification?.message).toContain(`https://tidyhood.test/orders/${ORDER_ID}?action=rate`);
+    });
+
+    it('should not notify customers of admin-only events', () => {
+      expect(outbox.getCustomerNotification(transitionEvent('order.dispute_opened', 'open_dispute') as any, baseOrder)).toBeNull();
+    });
+  });
+
+  describe('processOutbox', () => {
+    it('should fan an event out into one delivery per handler and deliver it', async () => {
+      const { db, tables } = createOutboxDb({
+        orders: [baseOrder],
+        domain_events: [transitionEvent('order.partner_en_route', 'en_route')],
+        domain_event_deliveries: [],
+      });
+
+      const result = await outbox.processOutbox(db, { now });
+
+      expect(result).toMatchObject({ dispatched: 1, delivered: 1, retrying: 0, dead: 0 });
+      expect(tables.domain_events[0].dispatched_at).not.toBeNull();
+      expect(tables.domain_event_deliveries).toHaveLength(1);
+      expect(tables.domain_event_deliveries[0]).toMatchObject({
+        handler: 'customer_notification',
+        idempotency_key: 'event-1:customer_notification',
+        status: 'delivered',
+        attempts: 1,
+      });
+      expect(mockNotifyCustomer).toHaveBeenCalledWith(
+        expect.objectContaining({ event: 'partner_en_route', userId: 'user-1', orderId: ORDER_ID, inApp: true })
+      );
+    });
+
+    it('should not deliver an event twice', async () => {
+      const { db } = createOutboxDb({
+        orders: [baseOrder],
+        domain_events: [transitionEvent('order.partner_en_route', 'en_route')],
+        domain_event_deliveries: [],
+      });
+
+      await outbox.processOutbox(db, { now });
+      const second = await outbox.processOutbox(db, { now });
+
+      expect(second).toMatchObject({ dispatched: 0, delivered: 0 });
+      expect(mockNotifyCustomer).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only process the requested order', async () => {
+      const { db, tables } = createOutboxDb({
+        orders: [baseOrder],
+        domain_events: [{ ...transitionEvent('order.partner_en_route', 'en_route'), order_id: 'other-order' }],
+        domain_event_deliveries: [],
+      });
+
+      const result = await outbox.processOutbox(db, { orderId: ORDER_ID, now });
+
+      expect(result.dispatched).toBe(0);
+      expect(tables.domain_events[0].dispatched_at).toBeNull();
+    });
+
+    it('should text the assigned partner', async () => {
+      const { db } = createOutboxDb({
+        orders: [{ ...baseOrder, slot_start: '2026-01-05T15:00:00.000Z' }],
+        partners: [{ id: 'partner-1', name: 'Sparkle', contact_phone: '+15555550100', contact_email: null }],
+        domain_events: [transitionEvent('order.partner_assigned', 'assign')],
+        domain_event_deliveries: [],
+      });
+
+      await outbox.processOutbox(db, { now });
+
+      expect(mockSendSMS).toHaveBeenCalledWith(
+        expect.objectContaining({ to: '+15555550100', message: expect.stringContaining('#55555555') })
+      );
+    });
+
+    it('should schedule a retry with backoff when a handler fails', async () => {
+      const { db, tables } = createOutboxDb({
+        orders: [baseOrder],
+        domain_events: [transitionEvent('order.partner_en_route', 'en_route')],
+        domain_event_deliveries: [],
+      });
+      const failing = jest.fn(async () => {
+        throw new Error('Twilio is down');
+      });
+      const handlers = { ...outbox.DELIVERY_HANDLERS, customer_notification: failing };
+
+      const result = await outbox.processOutbox(db, { now, handlers });
+
+      expect(result.retrying).toBe(1);
+      expect(tables.domain_event_deliveries[0]).toMatchObject({
+        status: 'pending',
+        attempts: 1,
+        last_error: 'Twilio is down',
+        locked_until: null,
+        next_attempt_at: new Date(now.getTime() + 60 * 1000).toISOString(),
+      });
+
+      // Not due yet
+      await outbox.processOutbox(db, { now, handlers });
+      expect(failing).toHaveBeenCalledTimes(1);
+
+      // Due after the backoff, and succeeds
+      await outbox.processOutbox(db, { now: new Date(now.getTime() + 60 * 1000) });
+      expect(tables.domain_event_deliveries[0]).toMatchObject({ status: 'delivered', attempts: 2 });
+      expect(mockNotifyCustomer).toHaveBeenCalledWith(expect.objectContaining({ inApp: false }));
+    });
+
+    it('should skip deliveries another worker holds', async () => {
+      const { db } = createOutboxDb({
+        orders: [baseOrder],
+        domain_events: [{ ...transitionEvent('order.partner_en_route', 'en_route'), dispatched_at: now.toISOString() }],
+        domain_event_deliveries: [
+          {
+            id: 'delivery-1',
+            event_id: 'event-1',
+            order_id: ORDER_ID,
+            handler: 'customer_notification',
+            idempotency_key: 'event-1:customer_notification',
+            attempts: 1,
+            locked_until: new Date(now.getTime() + 60 * 1000).toISOString(),
+          },
+        ],
+      });
+
+      const result = await outbox.processOutbox(db, { now });
+
+      expect(result.delivered).toBe(0);
+      expect(mockNotifyCustomer).not.toHaveBeenCalled();
+    });
+
+    it('should mark a delivery dead after the last attempt and audit it', async () => {
+      const { db, tables } = createOutboxDb({
+        orders: [baseOrder],
+        domain_events: [{ ...transitionEvent('order.partner_en_route', 'en_route'), dispatched_at: now.toISOString() }],
+        domain_event_deliveries: [
+          {
+            id: 'delivery-1',
+            event_id: 'event-1',
+            order_id: ORDER_ID,
+            handler: 'customer_notification',
+            idempotency_key: 'event-1:customer_notification',
+            attempts: outbox.OUTBOX_MAX_ATTEMPTS - 1,
+          },
+        ],
+        audit_logs: [],
+      });
+      const handlers = {
+        ...outbox.DELIVERY_HANDLERS,
+        customer_notification: jest.fn(async () => {
+          throw new Error('Twilio is down');
+        }),
+      };
+
+      const result = await outbox.processOutbox(db, { now, handlers });
+
+      expect(result.dead).toBe(1);
+      expect(tables.domain_event_deliveries[0]).toMatchObject({ status: 'dead', attempts: outbox.OUTBOX_MAX_ATTEMPTS });
+      expect(tables.audit_logs[0]).toMatchObject({
+        action: 'outbox.delivery_dead',
+        entity_id: ORDER_ID,
+        changes: expect.objectContaining({ handler: 'customer_notification', error: 'Twilio is down' }),
+      });
+    });
+  });
+
+  describe('stripe_refund handler', () => {
+    function disputeRefundDb(metadata: Record<string, any> = {}, refunds: any[] = []) {
+      return createOutboxDb({
+        orders: [baseOrder],
+        refunds,
+        admin_notes: [],
+        domain_events: [transitionEvent('order.dispute_refunded', 'resolve_dispute_refund', metadata)],
+        domain_event_deliveries: [],
+      });
+    }
+
+    it('should refund the full paid amount through Stripe and notify the customer', async () => {
+      const { db, tables } = disputeRefundDb();
+
+      await outbox.processOutbox(db, { now });
+
+      expect(mockRefundsCreate).toHaveBeenCalledWith(
+        expect.objectContaining({ payment_intent: 'pi_test', amount: 15000 }),
+        { idempotencyKey: 'event-1:stripe_refund' }
+      );
+      expect(tables.refunds[0]).toMatchObject({
+        amount_cents: 15000,
+        status: 'succeeded',
+        stripe_refund_id: 're_test',
+        idempotency_key: 'event-1:stripe_refund',
+      });
+
+      // The follow-up event is delivered on the next run
+      expect(tables.domain_events[1]).toMatchObject({
+        event_type: 'order.refund_issued',
+        idempotency_key: `refund:${tables.refunds[0].id}`,
+        payload: { refund_id: tables.refunds[0].id, amount_cents: 15000 },
+      });
+      await outbox.processOutbox(db, { now });
+      expect(mockNotifyCustomer).toHaveBeenCalledWith(expect.objectContaining({ event: 'refund_issued' }));
+    });
+
+    it('should honor a partial refund amount', async () => {
+      const { db, tables } = disputeRefundDb({ refund_cents: 5000 });
+
+      await outbox.processOutbox(db, { now });
+
+      expect(tables.refunds[0].amount_cents).toBe(5000);
+    });
+
+    it('should reuse the refund recorded by an earlier attempt', async () => {
+      const { db, tables } = disputeRefundDb({}, [
+        {
+          id: 'refund-1',
+          order_id: ORDER_ID,
+          amount_cents: 15000,
+          status: 'processing',
+          idempotency_key: 'event-1:stripe_refund',
+        },
+      ]);
+
+      await outbox.processOutbox(db, { now });
+
+      expect(tables.refunds).toHaveLength(1);
+      expect(tables.refunds[0].status).toBe('succeeded');
+      expect(mockRefundsCreate).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip the refund when nothing is left to refund', async () => {
+      const { db, tables } = disputeRefundDb({}, [
+        { id: 'refund-0', order_id: ORDER_ID, amount_cents: 15000, status: 'succeeded' },
+      ]);
+
+      await outbox.processOutbox(db, { now });
+
+      expect(mockRefundsCreate).not.toHaveBeenCalled();
+      expect(tables.domain_event_deliveries[0].status).toBe('delivered');
+    });
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Unit Tests for Partner Applications
+ * Tests review transitions, form validation, partner creation and account linking
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import {
+  getNextApplicationStatus,
+  isApplicationOpen,
+  canResubmitApplication,
+  normalizeCapabilities,
+  normalizeServiceAreas,
+  buildPartnerFromApplication,
+  linkPartnerAccount,
+  getApplicantEmail,
+  partnerApplicationSchema,
+  applicationDecisionSchema,
+  DEFAULT_PAYOUT_PERCENT,
+} from '../partner-applications';
+
+const validApplication = {
+  business_name: 'Harlem Suds',
+  contact_name: 'Jordan Lee',
+  contact_email: 'Owner@HarlemSuds.com',
+  contact_phone: '(212) 555-0123',
+  service_type: 'LAUNDRY',
+  address: '123 Lenox Ave, New York, NY',
+  zip: '10027',
+  capabilities: { wash_fold: true },
+};
+
+/**
+ * Minimal Supabase stand-in: answers the profile lookup and records it and any updates
+ */
+function createFakeDb(profile: { id: string; role: string } | null, invitedUserId = 'new-user') {
+  const updates: Array<{ table: string; values: any; id: string }> = [];
+  const lookups: Array<{ table: string; column: string; value: string }> = [];
+  const inviteUserByEmail = jest.fn(async () => ({ data: { user: { id: invitedUserId } }, error: null }));
+
+  const db: any = {
+    from: (table: string) => ({
+      select: () => ({
+        eq: (column: string, value: string) => {
+          lookups.push({ table, column, value });
+          return { maybeSingle: async () => ({ data: profile, error: null }) };
+        },
+      }),
+      update: (values: any) => ({
+        eq: async (_column: string, id: string) => {
+          updates.push({ table, values, id });
+          return { error: null };
+        },
+      }),
+    }),
+    auth: { admin: { inviteUserByEmail } },
+  };
+
+  return { db, updates, lookups, inviteUserByEmail };
+}
+
+describe('Partner Applications', () => {
+  describe('getNextApplicationStatus', () => {
+    it('should start review only from pending', () => {
+      expect(getNextApplicationStatus('pending', 'start_review')).toBe('under_review');
+      expect(getNextApplicationStatus('under_review', 'start_review')).toBeNull();
+      expect(getNextApplicationStatus('info_requested', 'start_review')).toBeNull();
+    });
+
+    it('should request info from pending or under review', () => {
+      expect(getNextApplicationStatus('pending', 'request_info')).toBe('info_requested');
+      expect(getNextApplicationStatus('under_review', 'request_info')).toBe('info_requested');
+      expect(getNextApplicationStatus('info_requested', 'request_info')).toBeNull();
+    });
+
+    it('should approve or reject any open application', () => {
+      for (const status of ['pending', 'under_review', 'info_requested'] as const) {
+        expect(getNextApplicationStatus(status, 'approve')).toBe('approved');
+        expect(getNextApplicationStatus(status, 'reject')).toBe('rejected');
+      }
+    });
+
+    it('should reject any decision on terminal applications', () => {
+      for (const status of ['approved', 'rejected'] as const) {
+        expect(isApplicationOpen(status)).toBe(false);
+        expect(getNextApplicationStatus(status, 'approve')).toBeNull();
+        expect(getNextApplicationStatus(status, 'reject')).toBeNull();
+        expect(getNextApplicationStatus(status, 'request_info')).toBeNull();
+      }
+    });
+
+    it('should only let applicants resubmit when info was requested', () => {
+      expect(canResubmitApplication('info_requested')).toBe(true);
+      expect(canResubmitApplication('pending')).toBe(false);
+      expect(canResubmitApplication('approved')).toBe(false);
+    });
+  });
+
+  describe('partnerApplicationSchema', () => {
+    it('should accept a valid application and lowercase the email', () => {
+      const parsed = partnerApplicationSchema.parse(validApplication);
+      expect(parsed.contact_email).toBe('owner@harlemsuds.com');
+      expect(parsed.service_areas).toEqual([]);
+    });
+
+    it('should require at least one capability for the service type', () => {
+      expect(partnerApplicationSchema.safeParse({ ...validApplication, capabilities: {} }).success).toBe(false);
+      // A cleaning capability doesn't count for a laundry application
+      expect(
+        partnerApplicationSchema.safeParse({ ...validApplication, capabilities: { deep_clean: true } }).success
+      ).toBe(false);
+    });
+
+    it('should reject malformed ZIPs', () => {
+      expect(partnerApplicationSchema.safeParse({ ...validApplication, zip: '1002' }).success).toBe(false);
+      expect(
+        partnerApplicationSchema.safeParse({ ...validApplication, service_areas: ['10027', 'abc'] }).success
+      ).toBe(false);
+    });
+  });
+
+  describe('applicationDecisionSchema', () => {
+    it('should require a message when requesting info or rejecting', () => {
+      expect(applicationDecisionSchema.safeParse({ decision: 'reject' }).success).toBe(false);
+      expect(applicationDecisionSchema.safeParse({ decision: 'request_info' }).success).toBe(false);
+      expect(applicationDecisionSchema.safeParse({ decision: 'reject', message: 'Outside our area' }).success).toBe(true);
+      expect(applicationDecisionSchema.safeParse({ decision: 'approve' }).success).toBe(true);
+    });
+  });
+
+  describe('buildPartnerFromApplication', () => {
+    const application = {
+      ...validApplication,
+      service_type: 'LAUNDRY' as const,
+      capabilities: { wash_fold: true, deep_clean: true },
+      service_areas: ['10027', '10026', '10027'],
+    };
+
+    it('should keep only capabilities for the service type', () => {
+      expect(normalizeCapabilities('LAUNDRY', application.capabilities)).toEqual({
+        wash_fold: true,
+        dry_clean: false,
+        mixed: false,
+      });
+    });
+
+    it('should de-duplicate service ZIPs and fall back to the business ZIP', () => {
+      expect(normalizeServiceAreas(application.service_areas, '10027')).toEqual(['10027', '10026']);
+      expect(normalizeServiceAreas([], '10030')).toEqual(['10030']);
+    });
+
+    it('should build an active laundry partner with default payout and capacity', () => {
+      const partner = buildPartnerFromApplication(application);
+      expect(partner).toMatchObject({
+        name: 'Harlem Suds',
+        service_type: 'LAUNDRY',
+        contact_email: 'owner@harlemsuds.com',
+        payout_percent: DEFAULT_PAYOUT_PERCENT,
+        service_areas: ['10027', '10026'],
+        capabilities: { wash_fold: true, dry_clean: false, mixed: false },
+        active: true,
+        max_orders_per_slot: 8,
+      });
+      expect(partner.max_minutes_per_slot).toBeUndefined();
+    });
+
+    it('should apply admin overrides', () => {
+      const partner = buildPartnerFromApplication(
+        { ...application, service_type: 'CLEANING', capabilities: { standard: true } },
+        { payout_percent: 70, service_areas: ['10031'], max_minutes_per_slot: 300 }
+      );
+      expect(partner.payout_percent).toBe(70);
+      expect(partner.service_areas).toEqual(['10031']);
+      expect(partner.max_minutes_per_slot).toBe(300);
+      expect(partner.capabilities.standard).toBe(true);
+      expect(partner.max_orders_per_slot).toBeUndefined();
+    });
+  });
+
+  describe('linkPartnerAccount', () => {
+    const partner = { id: 'partner-1', contact_email: 'Owner@HarlemSuds.com' };
+    const contact = { full_name: 'Jordan Lee', phone: '2125550123' };
+
+    it('should link an existing profile and give it the partner role', async () => {
+      const { db, updates, lookups, inviteUserByEmail } = createFakeDb({ id: 'user-1', role: 'user' });
+
+      const result = await linkPartnerAccount(db, partner, contact);
+
+      expect(result).toEqual({ profileId: 'user-1', invited: false });
+      expect(lookups).toEqual([{ table: 'profiles', column: 'email', value: 'owner@harlemsuds.com' }]);
+      expect(inviteUserByEmail).not.toHaveBeenCalled();
+      expect(updates).toEqual([
+        { table: 'profiles', values: { role: 'partner' }, id: 'user-1' },
+        { table: 'partners', values: { profile_id: 'user-1' }, id: 'partner-1' },
+      ]);
+    });
+
+    it('should not demote an admin', async () => {
+      const { db, updates } = createFakeDb({ id: 'admin-1', role: 'admin' });
+
+      await linkPartnerAccount(db, partner, contact);
+
+      expect(updates).toEqual([
+        { table: 'partners', values: { profile_id: 'admin-1' }, id: 'partner-1' },
+      ]);
+    });
+
+    it('should invite applicants without an account', async () => {
+      const { db, updates, inviteUserByEmail } = createFakeDb(null, 'invited-1');
+
+      const result = await linkPartnerAccount(db, partner, contact);
+
+      expect(result).toEqual({ profileId: 'invited-1', invited: true });
+      expect(inviteUserByEmail).toHaveBeenCalledWith('owner@harlemsuds.com', {
+        data: { full_name: 'Jordan Lee', phone: '2125550123' },
+      });
+      expect(updates.map((u) => u.table)).toEqual(['profiles', 'partners']);
+    });
+  });
+
+  describe('getApplicantEmail', () => {
+    const application = { contact_name: 'Jordan Lee', business_name: 'Harlem Suds' };
+
+    it('should include the admin message when requesting info', () => {
+      const email = getApplicantEmail(application, 'request_info', 'Please send your certificate of insurance');
+      expect(email?.text).toContain('Please send your certificate of insurance');
+      expect(email?.text).toContain('same email address');
+    });
+
+    it('should mention the invite on approval', () => {
+      expect(getApplicantEmail(application, 'approve', null, true)?.text).toContain('set your password');
+      expect(getApplicantEmail(application, 'approve', null, false)?.text).toContain('existing Tidyhood account');
+    });
+
+    it('should not email when an admin starts a review', () => {
+      expect(getApplicantEmail(application, 'start_review')).toBeNull();
+    });
+  });
+});
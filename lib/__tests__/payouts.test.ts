@@ -0,0 +1,227 @@
+/**
+ * Unit Tests for Partner Payouts
+ * Tests settlement math, payout percent normalization, periods, settlement and CSV export
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  normalizePayoutPercent,
+  getOrderRevenueCents,
+  getPayoutPeriod,
+  calculatePayout,
+  settlePartnerPayout,
+  buildPayoutsCsv,
+  DEFAULT_PAYOUT_PERCENT,
+} from '../payouts';
+import { toNYDateString } from '../timezone';
+import { createFakeDb } from './utils/fake-db';
+
+describe('Partner Payouts', () => {
+  describe('normalizePayoutPercent', () => {
+    it('should keep percents as-is', () => {
+      expect(normalizePayoutPercent(65)).toBe(65);
+      expect(normalizePayoutPercent('70')).toBe(70);
+    });
+
+    it('should treat legacy fractions as percents', () => {
+      expect(normalizePayoutPercent(0.6)).toBeCloseTo(60);
+    });
+
+    it('should fall back to the default when unset', () => {
+      expect(normalizePayoutPercent(null)).toBe(DEFAULT_PAYOUT_PERCENT);
+      expect(normalizePayoutPercent(undefined)).toBe(DEFAULT_PAYOUT_PERCENT);
+    });
+
+    it('should clamp to 100', () => {
+      expect(normalizePayoutPercent(150)).toBe(100);
+    });
+  });
+
+  describe('getOrderRevenueCents', () => {
+    it('should exclude tax from shared revenue', () => {
+      expect(getOrderRevenueCents({ id: 'o1', total_cents: 10888, tax_cents: 888 })).toBe(10000);
+    });
+
+    it('should prefer the final quote', () => {
+      expect(getOrderRevenueCents({ id: 'o1', quote_cents: 5000, total_cents: 4000 })).toBe(5000);
+    });
+  });
+
+  describe('getPayoutPeriod', () => {
+    it('should return the previous Monday–Sunday week', () => {
+      // Monday, Oct 20 2025
+      expect(getPayoutPeriod(new Date(2025, 9, 20, 9, 0))).toEqual({
+        start: '2025-10-13',
+        end: '2025-10-19',
+      });
+    });
+
+    it('should treat Sunday as still in progress', () => {
+      // Sunday, Oct 19 2025
+      expect(getPayoutPeriod(new Date(2025, 9, 19, 23, 0))).toEqual({
+        start: '2025-10-06',
+        end: '2025-10-12',
+      });
+    });
+
+    it('should handle month boundaries', () => {
+      // Wednesday, Oct 1 2025
+      expect(getPayoutPeriod(new Date(2025, 9, 1))).toEqual({
+        start: '2025-09-22',
+        end: '2025-09-28',
+      });
+    });
+  });
+
+  describe('toNYDateString', () => {
+    it('should convert late-night UTC timestamps to the NY calendar date', () => {
+      expect(toNYDateString('2025-10-20T02:00:00Z')).toBe('2025-10-19');
+    });
+  });
+
+  describe('calculatePayout', () => {
+    const orders = [
+      { id: 'o1', total_cents: 10000 },
+      { id: 'o2', quote_cents: 5000, total_cents: 4500 },
+    ];
+
+    it('should split revenue between partner and platform', () => {
+      const totals = calculatePayout({ orders, refunds: [], payoutPercent: 60 });
+      expect(totals.order_count).toBe(2);
+      expect(totals.revenue_cents).toBe(15000);
+      expect(totals.gross_cents).toBe(9000);
+      expect(totals.commission_cents).toBe(6000);
+      expect(totals.net_cents).toBe(9000);
+    });
+
+    it('should deduct the partner share of refunds', () => {
+      const totals = calculatePayout({
+        orders,
+        refunds: [{ id: 'r1', amount_cents: 1000, status: 'succeeded' }],
+        payoutPercent: 60,
+      });
+      expect(totals.refunds_cents).toBe(600);
+      expect(totals.adjustments_cents).toBe(-600);
+      expect(totals.net_cents).toBe(8400);
+    });
+
+    it('should charge claim settlements back in full', () => {
+      const totals = calculatePayout({
+        orders,
+        refunds: [{ id: 'r1', amount_cents: 2000, status: 'pending' }],
+        claimRefundIds: new Set(['r1']),
+        payoutPercent: 60,
+      });
+      expect(totals.claims_cents).toBe(2000);
+      expect(totals.refunds_cents).toBe(0);
+      expect(totals.net_cents).toBe(7000);
+    });
+
+    it('should ignore failed refunds', () => {
+      const totals = calculatePayout({
+        orders,
+        refunds: [{ id: 'r1', amount_cents: 1000, status: 'failed' }],
+        payoutPercent: 60,
+      });
+      expect(totals.adjustments_cents).toBe(0);
+    });
+
+    it('should pass tips to the partner in full', () => {
+      const totals = calculatePayout({
+        orders,
+        refunds: [],
+        tips: [{ id: 't1', amount_cents: 1500 }, { id: 't2', amount_cents: 500 }],
+        payoutPercent: 60,
+      });
+      expect(totals.tips_cents).toBe(2000);
+      expect(totals.revenue_cents).toBe(15000);
+      expect(totals.commission_cents).toBe(6000);
+      expect(totals.net_cents).toBe(11000);
+    });
+
+    it('should allow a negative net when charge-backs exceed earnings', () => {
+      const totals = calculatePayout({
+        orders: [],
+        refunds: [{ id: 'r1', amount_cents: 2500 }],
+        claimRefundIds: new Set(['r1']),
+        payoutPercent: 65,
+      });
+      expect(totals.net_cents).toBe(-2500);
+    });
+  });
+
+  describe('settlePartnerPayout', () => {
+    const partner = { id: 'partner-1', payout_percent: 65 };
+    const period = { start: '2026-10-05', end: '2026-10-11' };
+    const seed = () => ({
+      orders: [
+        { id: 'order-1', partner_id: 'partner-1', status: 'completed', quote_cents: 10000, tax_cents: 0, completed_at: '2026-10-08T15:00:00Z', payout_id: null },
+        { id: 'order-2', partner_id: 'partner-1', status: 'completed', quote_cents: 5000, tax_cents: 0, completed_at: '2026-10-13T15:00:00Z', payout_id: null },
+      ],
+      refunds: [],
+      order_tips: [],
+    });
+
+    it('should record the payout and stamp what it counts in one call', async () => {
+      const { db } = createFakeDb(seed(), { rpc: () => ({ id: 'payout-1' }) });
+
+      expect(await settlePartnerPayout(db, partner, period)).toEqual({ id: 'payout-1' });
+
+      expect(db.rpc).toHaveBeenCalledTimes(1);
+      expect(db.rpc).toHaveBeenCalledWith('settle_partner_payout', {
+        p_payout: expect.objectContaining({
+          partner_id: 'partner-1',
+          period_start: '2026-10-05',
+          period_end: '2026-10-11',
+          status: 'DUE',
+          order_count: 1,
+          net_cents: 6500,
+        }),
+        p_order_ids: ['order-1'], // order-2 completed after the period
+        p_refund_ids: [],
+        p_tip_ids: [],
+      });
+    });
+
+    it('should return null when the period was already settled', async () => {
+      const { db } = createFakeDb(seed(), { rpc: () => null });
+
+      expect(await settlePartnerPayout(db, partner, period)).toBeNull();
+    });
+
+    it('should throw when the settlement fails', async () => {
+      const { db } = createFakeDb(seed());
+      db.rpc.mockResolvedValueOnce({ data: null, error: { message: 'Orders for payout of partner partner-1 were settled concurrently' } });
+
+      await expect(settlePartnerPayout(db, partner, period)).rejects.toMatchObject({
+        message: expect.stringContaining('settled concurrently'),
+      });
+    });
+  });
+
+  describe('buildPayoutsCsv', () => {
+    it('should export dollars and escape partner names', () => {
+      const csv = buildPayoutsCsv([
+        {
+          id: 'p1',
+          partner_id: 'partner-1',
+          partners: { name: 'Wash, Dry & Fold' },
+          period_start: '2025-10-13',
+          period_end: '2025-10-19',
+          order_count: 2,
+          revenue_cents: 15000,
+          payout_percent: 60,
+          gross_cents: 9000,
+          refunds_cents: 600,
+          claims_cents: 0,
+          net_cents: 8400,
+          status: 'DUE',
+        },
+      ]);
+
+      const [header, row] = csv.split('\n');
+      expect(header.startsWith('payout_id,partner,period_start')).toBe(true);
+      expect(row).toBe('p1,"Wash, Dry & Fold",2025-10-13,2025-10-19,2,150.00,60,90.00,6.00,0.00,0.00,84.00,DUE,,');
+    });
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Unit Tests for Pricing Versions
+ * Tests effective-version resolution and the draft → publish lifecycle
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { createFakeDb } from './utils/fake-db';
+import {
+  assertPricingDraft,
+  createPricingDraft,
+  discardPricingDraft,
+  getEffectivePricingVersion,
+  publishPricingVersion,
+  selectEffectiveVersion,
+  updateDraftPricingRule,
+  type PricingVersion,
+} from '../pricing-versions';
+
+const NOW = new Date('2030-03-05T14:00:00Z');
+
+function version(overrides: Partial<PricingVersion> = {}): PricingVersion {
+  return {
+    id: 'v1',
+    version: 1,
+    status: 'published',
+    effective_from: '2030-01-01T00:00:00.000Z',
+    effective_to: null,
+    notes: null,
+    created_by: null,
+    published_by: null,
+    published_at: '2030-01-01T00:00:00.000Z',
+    created_at: '2030-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function rule(versionId: string, unitKey: string, cents: number) {
+  return {
+    id: `${versionId}-${unitKey}`,
+    version_id: versionId,
+    service_type: 'LAUNDRY',
+    unit_type: 'PER_LB',
+    unit_key: unitKey,
+    unit_price_cents: cents,
+    active: true,
+    created_at: '2030-01-01T00:00:00.000Z',
+    updated_at: '2030-01-01T00:00:00.000Z',
+  };
+}
+
+describe('Pricing versions', () => {
+  describe('selectEffectiveVersion', () => {
+    const versions = [
+      version(),
+      version({ id: 'v2', version: 2, effective_from: '2030-03-01T00:00:00.000Z' }),
+      version({ id: 'v3', version: 3, effective_from: '2030-04-01T00:00:00.000Z' }),
+      version({ id: 'v4', version: 4, status: 'draft', effective_from: null }),
+    ];
+
+    it('should pick the latest published version already in effect', () => {
+      expect(selectEffectiveVersion(versions, NOW)?.id).toBe('v2');
+      expect(selectEffectiveVersion(versions, new Date('2030-02-01T00:00:00Z'))?.id).toBe('v1');
+    });
+
+    it('should switch to a scheduled version at its effective time', () => {
+      expect(selectEffectiveVersion(versions, new Date('2030-04-01T00:00:00Z'))?.id).toBe('v3');
+    });
+
+    it('should never pick a draft', () => {
+      expect(selectEffectiveVersion([version({ status: 'draft' })], NOW)).toBeNull();
+    });
+  });
+
+  describe('getEffectivePricingVersion', () => {
+    it('should fail when nothing is published yet', async () => {
+      const { db } = createFakeDb({ pricing_versions: [version({ status: 'draft' })] });
+
+      await expect(getEffectivePricingVersion(db, NOW)).rejects.toThrow('Pricing not configured');
+    });
+  });
+
+  describe('createPricingDraft', () => {
+    it('should copy the current rules into a new draft version', async () => {
+      const { db, tables } = createFakeDb({
+        pricing_versions: [version(), version({ id: 'v2', version: 2, effective_from: '2030-02-01T00:00:00.000Z' })],
+        pricing_rules: [rule('v1', 'LND_WF_PERLB', 175), rule('v2', 'LND_WF_PERLB', 190)],
+      });
+
+      const draft = await createPricingDraft(db, { createdBy: 'admin-1', notes: 'Spring prices' });
+
+      expect(draft).toMatchObject({ version: 3, status: 'draft', created_by: 'admin-1' });
+      const copies = tables.pricing_rules.filter((r) => r.version_id === draft.id);
+      expect(copies).toHaveLength(1);
+      expect(copies[0]).toMatchObject({ unit_key: 'LND_WF_PERLB', unit_price_cents: 190 });
+      expect(copies[0].id).not.toBe('v2-LND_WF_PERLB');
+    });
+
+    it('should build on a version scheduled for later, not the one in effect', async () => {
+      const { db, tables } = createFakeDb({
+        pricing_versions: [version(), version({ id: 'v2', version: 2, effective_from: '2030-06-01T00:00:00.000Z' })],
+        pricing_rules: [rule('v1', 'LND_WF_PERLB', 175), rule('v2', 'LND_WF_PERLB', 190)],
+      });
+
+      const draft = await createPricingDraft(db, { createdBy: 'admin-1' });
+
+      const copies = tables.pricing_rules.filter((r) => r.version_id === draft.id);
+      expect(copies).toEqual([expect.objectContaining({ unit_key: 'LND_WF_PERLB', unit_price_cents: 190 })]);
+    });
+
+    it('should allow only one staged draft', async () => {
+      const { db } = createFakeDb({
+        pricing_versions: [version(), version({ id: 'v2', version: 2, status: 'draft', effective_from: null })],
+      });
+
+      await expect(createPricingDraft(db, { createdBy: 'admin-1' })).rejects.toMatchObject({
+        code: 'PRICING_DRAFT_EXISTS',
+      });
+    });
+  });
+
+  describe('publishPricingVersion', () => {
+    const seed = () => createFakeDb({
+      pricing_versions: [version(), version({ id: 'v2', version: 2, status: 'draft', effective_from: null })],
+    });
+
+    it('should publish a draft now and close the version it replaces', async () => {
+      const { db, tables } = seed();
+
+      const published = await publishPricingVersion(db, 'v2', { publishedBy: 'admin-1' }, NOW);
+
+      expect(published).toMatchObject({
+        status: 'published',
+        effective_from: NOW.toISOString(),
+        published_by: 'admin-1',
+      });
+      expect(tables.pricing_versions[0].effective_to).toBe(NOW.toISOString());
+      await expect(getEffectivePricingVersion(db, NOW)).resolves.toMatchObject({ id: 'v2' });
+    });
+
+    it('should schedule a draft for later', async () => {
+      const { db } = seed();
+      const later = new Date('2030-04-01T00:00:00Z');
+
+      await publishPricingVersion(db, 'v2', { publishedBy: 'admin-1', effectiveFrom: later }, NOW);
+
+      await expect(getEffectivePricingVersion(db, NOW)).resolves.toMatchObject({ id: 'v1' });
+      await expect(getEffectivePricingVersion(db, later)).resolves.toMatchObject({ id: 'v2' });
+    });
+
+    it('should refuse to take effect in the past', async () => {
+      const { db } = seed();
+
+      await expect(
+        publishPricingVersion(db, 'v2', { publishedBy: 'admin-1', effectiveFrom: new Date('2030-03-01T00:00:00Z') }, NOW)
+      ).rejects.toMatchObject({ code: 'EFFECTIVE_FROM_IN_PAST' });
+    });
+
+    it('should refuse to take effect before a scheduled version', async () => {
+      const { db } = createFakeDb({
+        pricing_versions: [
+          version(),
+          version({ id: 'v2', version: 2, effective_from: '2030-05-01T00:00:00.000Z' }),
+          version({ id: 'v3', version: 3, status: 'draft', effective_from: null }),
+        ],
+      });
+
+      await expect(
+        publishPricingVersion(db, 'v3', { publishedBy: 'admin-1', effectiveFrom: new Date('2030-04-01T00:00:00Z') }, NOW)
+      ).rejects.toMatchObject({ code: 'EFFECTIVE_FROM_TOO_EARLY' });
+    });
+
+    it('should not publish a version twice', async () => {
+      const { db } = seed();
+      await publishPricingVersion(db, 'v2', { publishedBy: 'admin-1' }, NOW);
+
+      await expect(publishPricingVersion(db, 'v2', { publishedBy: 'admin-1' }, NOW)).rejects.toMatchObject({
+        code: 'PRICING_VERSION_LOCKED',
+      });
+    });
+  });
+
+  describe('drafts only', () => {
+    it('should lock published versions and discard drafts', async () => {
+      const { db, tables } = createFakeDb({
+        pricing_versions: [version(), version({ id: 'v2', version: 2, status: 'draft', effective_from: null })],
+      });
+
+      await expect(assertPricingDraft(db, 'v1')).rejects.toMatchObject({ code: 'PRICING_VERSION_LOCKED' });
+      await expect(discardPricingDraft(db, 'v1')).rejects.toMatchObject({ code: 'PRICING_VERSION_LOCKED' });
+
+      await discardPricingDraft(db, 'v2');
+      expect(tables.pricing_versions.map((v) => v.id)).toEqual(['v1']);
+    });
+
+    it('should update a rule only through the draft-checked statement', async () => {
+      const updated = { ...rule('v2', 'LND_WF_PER_LB', 300), unit_price_cents: 325 };
+      const { db } = createFakeDb({}, { rpc: () => ({ success: true, rule: updated }) });
+      const updates = { unit_price_cents: 325, updated_by: 'admin-1', change_reason: null };
+
+      await expect(updateDraftPricingRule(db, updated.id, updates)).resolves.toEqual(updated);
+      expect(db.rpc).toHaveBeenCalledWith('update_draft_pricing_rule', { p_rule_id: updated.id, p_updates: updates });
+    });
+
+    it('should reject updates once the version is published', async () => {
+      const { db } = createFakeDb({}, { rpc: () => ({ success: false, error: 'PRICING_VERSION_LOCKED', version: 2 }) });
+
+      await expect(
+        updateDraftPricingRule(db, 'v2-LND_WF_PER_LB', { rate: 0.3, updated_by: 'admin-1', change_reason: null })
+      ).rejects.toMatchObject({ code: 'PRICING_VERSION_LOCKED', statusCode: 409 });
+    });
+  });
+});
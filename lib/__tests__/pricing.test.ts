@@ -41,6 +41,37 @@ const mockLaundryRules = [
     priority: 3,
     geozone: null,
   },
+  {
+    id: 4,
+    service_type: 'LAUNDRY',
+    unit_type: 'MIN_QTY',
+    unit_key: 'LND_WF_MIN_LBS',
+    min_quantity: 15, // 15 lbs minimum
+    active: true,
+    priority: 4,
+    geozone: null,
+  },
+  {
+    id: 5,
+    service_type: 'LAUNDRY',
+    unit_type: 'PERCENT_SURCHARGE',
+    unit_key: 'LND_RUSH_24HR',
+    rate: 0.25, // +25%
+    label: '24-Hour Rush Service',
+    active: true,
+    priority: 5,
+    geozone: null,
+  },
+  {
+    id: 6,
+    service_type: 'LAUNDRY',
+    unit_type: 'TAX',
+    unit_key: 'NYC_SALES_TAX',
+    rate: 0.08875,
+    active: true,
+    priority: 6,
+    geozone: null,
+  },
 ];
 
 const mockCleaningRules = [
@@ -124,8 +155,67 @@ const mockCleaningRules = [
     priority: 8,
     geozone: null,
   },
+  ...([
+    ['CLN_RECURRING_WEEKLY', 0.2, 'Recurring weekly discount'],
+    ['CLN_RECURRING_BIWEEKLY', 0.15, 'Recurring biweekly discount'],
+    ['CLN_RECURRING_MONTHLY', 0.1, 'Recurring monthly discount'],
+  ] as const).map(([unit_key, rate, label], i) => ({
+    id: 18 + i,
+    service_type: 'CLEANING',
+    unit_type: 'FREQUENCY_DISCOUNT',
+    unit_key,
+    rate,
+    label,
+    active: true,
+    priority: 9,
+    geozone: null,
+  })),
+  {
+    id: 21,
+    service_type: 'CLEANING',
+    unit_type: 'TAX',
+    unit_key: 'NYC_SALES_TAX',
+    rate: 0.08875,
+    active: true,
+    priority: 10,
+    geozone: null,
+  },
+];
+
+// Published version the mock rules belong to
+const mockVersions = [
+  { id: 'version-1', version: 1, status: 'published', effective_from: '2026-01-01T00:00:00Z', effective_to: null },
 ];
 
+/**
+ * Mock client for the pricing queries: published versions, then one version's
+ * rules by service type (service_type, version_id, active, ordered)
+ */
+function mockPricingClient(
+  rulesFor: (serviceType: string, versionId: string) => any[],
+  tables: Record<string, (column: string, value: any) => any> = {}
+) {
+  return {
+    from: jest.fn((table: string) => ({
+      select: jest.fn(() => ({
+        eq: jest.fn((column: string, value: any) => {
+          if (tables[table]) return tables[table](column, value);
+          if (table === 'pricing_versions') {
+            return Promise.resolve({ data: mockVersions.filter((v: any) => v[column] === value), error: null });
+          }
+          return {
+            eq: jest.fn((_versionColumn: string, versionId: string) => ({
+              eq: jest.fn(() => ({
+                order: jest.fn(() => Promise.resolve({ data: rulesFor(value, versionId), error: null })),
+              })),
+            })),
+          };
+        }),
+      })),
+    })),
+  };
+}
+
 describe('Pricing Module', () => {
   let quoteLaundry: any;
   let quoteCleaning: any;
@@ -169,17 +259,7 @@ describe('Pricing Module', () => {
   describe('quoteLaundry', () => {
     beforeEach(() => {
       // Set up the mock to return laundry pricing rules
-      mockGetServiceClient.mockReturnValue({
-        from: jest.fn(() => ({
-          select: jest.fn(() => ({
-            eq: jest.fn(() => ({
-              eq: jest.fn(() => ({
-                order: jest.fn(() => Promise.resolve({ data: mockLaundryRules, error: null })),
-              })),
-            })),
-          })),
-        })),
-      });
+      mockGetServiceClient.mockReturnValue(mockPricingClient(() => mockLaundryRules));
     });
 
     describe('Basic Pricing', () => {
@@ -389,17 +469,7 @@ describe('Pricing Module', () => {
   describe('quoteCleaning', () => {
     beforeEach(() => {
       // Set up the mock to return cleaning pricing rules
-      mockGetServiceClient.mockReturnValue({
-        from: jest.fn(() => ({
-          select: jest.fn(() => ({
-            eq: jest.fn(() => ({
-              eq: jest.fn(() => ({
-                order: jest.fn(() => Promise.resolve({ data: mockCleaningRules, error: null })),
-              })),
-            })),
-          })),
-        })),
-      });
+      mockGetServiceClient.mockReturnValue(mockPricingClient(() => mockCleaningRules));
     });
 
     describe('Basic Pricing', () => {
@@ -732,4 +802,326 @@ describe('Pricing Module', () => {
       });
     });
   });
+
+  describe('Building terms', () => {
+    const building = {
+      id: 'building-1',
+      name: 'The Graham',
+      discount_pct: 0.1,
+      pricing_overrides_json: { LND_WF_PERLB: 125 },
+      active: true,
+    };
+
+    beforeEach(() => {
+      // Route queries by table: buildings lookup vs pricing rules by service type
+      mockGetServiceClient.mockReturnValue(mockPricingClient(
+        (serviceType) => (serviceType === 'LAUNDRY' ? mockLaundryRules : mockCleaningRules),
+        { buildings: () => ({ maybeSingle: jest.fn(() => Promise.resolve({ data: building, error: null })) }) }
+      ));
+    });
+
+    it('should apply building price overrides and discount to laundry', async () => {
+      const result = await quoteLaundry({ zip: '10027', lbs: 20, buildingId: 'building-1' });
+
+      // 20 lbs at the building rate of $1.25 = $25.00, minus 10% = $22.50
+      expect(result.items[0].unit_price_cents).toBe(125);
+      const discount = result.items.find((i: any) => i.key === 'BUILDING_DISCOUNT');
+      expect(discount.total_cents).toBe(-250);
+      expect(result.subtotal_cents).toBe(2250);
+      expect(result.tax_cents).toBe(0);
+    });
+
+    it('should apply the building discount to cleaning before tax', async () => {
+      const result = await quoteCleaning({ zip: '10027', bedrooms: 1, bathrooms: 1, buildingId: 'building-1' });
+
+      // $100 - 10% = $90, taxed
+      expect(result.subtotal_cents).toBe(9000);
+      expect(result.tax_breakdown.taxable_subtotal_cents).toBe(9000);
+      expect(result.tax_cents).toBe(Math.round(9000 * 0.08875));
+    });
+
+    it('should ignore inactive buildings', async () => {
+      building.active = false;
+      const result = await quoteLaundry({ zip: '10027', lbs: 20, buildingId: 'building-1' });
+      building.active = true;
+
+      expect(result.subtotal_cents).toBe(3000);
+      expect(result.items.some((i: any) => i.key === 'BUILDING_DISCOUNT')).toBe(false);
+    });
+  });
+
+  describe('Promo codes', () => {
+    const promo = {
+      id: 'promo-1',
+      code: 'WELCOME10',
+      description: null,
+      discount_type: 'PERCENT',
+      percent_off: 10,
+      amount_off_cents: null,
+      free_addon_key: null,
+      service_types: null,
+      zip_codes: null,
+      starts_at: null,
+      expires_at: null,
+      max_redemptions: null,
+      max_redemptions_per_user: null,
+      first_order_only: false,
+      active: true,
+      created_at: '2026-01-01T00:00:00Z',
+    };
+
+    beforeEach(() => {
+      mockGetServiceClient.mockReturnValue(mockPricingClient(
+        (serviceType) => (serviceType === 'LAUNDRY' ? mockLaundryRules : mockCleaningRules)
+      ));
+    });
+
+    it('should add a promo discount line to laundry', async () => {
+      const result = await quoteLaundry({ zip: '10027', lbs: 20, promo });
+
+      const discount = result.items.find((i: any) => i.key === 'PROMO_DISCOUNT');
+      expect(discount.total_cents).toBe(-300);
+      expect(discount.taxable).toBe(false);
+      expect(result.subtotal_cents).toBe(2700);
+      expect(result.total_cents).toBe(2700);
+    });
+
+    it('should apply the promo to cleaning before tax', async () => {
+      const result = await quoteCleaning({
+        zip: '10027',
+        bedrooms: 1,
+        bathrooms: 1,
+        promo: { ...promo, discount_type: 'FIXED', percent_off: null, amount_off_cents: 1500 },
+      });
+
+      // $100 - $15 = $85, taxed
+      expect(result.subtotal_cents).toBe(8500);
+      expect(result.tax_cents).toBe(Math.round(8500 * 0.08875));
+    });
+
+    it('should make a free add-on free', async () => {
+      const result = await quoteLaundry({
+        zip: '10027',
+        lbs: 20,
+        addons: ['LND_DELICATE'],
+        promo: { ...promo, discount_type: 'FREE_ADDON', percent_off: null, free_addon_key: 'LND_DELICATE' },
+      });
+
+      expect(result.subtotal_cents).toBe(3000);
+      expect(result.items.find((i: any) => i.key === 'PROMO_DISCOUNT').total_cents).toBe(-500);
+    });
+  });
+
+  describe('Configurable rules', () => {
+    // Rules with edited values (as an admin would change them in a draft)
+    const edit = (rules: any[], unitKey: string, changes: Record<string, any>) =>
+      rules.map((rule) => (rule.unit_key === unitKey ? { ...rule, ...changes } : rule));
+
+    const useRules = (laundry: any[], cleaning: any[] = mockCleaningRules) =>
+      mockGetServiceClient.mockReturnValue(mockPricingClient((serviceType) =>
+        serviceType === 'CLEANING' ? cleaning : laundry
+      ));
+
+    it('should charge the rush rate and label from the rules', async () => {
+      useRules(edit(mockLaundryRules, 'LND_RUSH_24HR', { rate: 0.5, label: 'Same-Day Rush' }));
+
+      const result = await quoteLaundry({ zip: '10027', lbs: 20, rushService: true });
+
+      const rush = result.items.find((i: any) => i.key === 'LND_RUSH_24HR');
+      expect(rush.total_cents).toBe(1500);
+      expect(rush.label).toBe('Same-Day Rush (+50%)');
+    });
+
+    it('should refuse rush when no surcharge rule is configured', async () => {
+      useRules(mockLaundryRules.filter((rule) => rule.unit_key !== 'LND_RUSH_24HR'));
+
+      await expect(quoteLaundry({ zip: '10027', lbs: 20, rushService: true }))
+        .rejects.toThrow('Rush service pricing not configured');
+    });
+
+    it('should bill the minimum weight from the rules', async () => {
+      useRules(edit(mockLaundryRules, 'LND_WF_MIN_LBS', { min_quantity: 10 }));
+
+      const result = await quoteLaundry({ zip: '10027', lbs: 5 });
+
+      expect(result.items[0].quantity).toBe(10);
+      expect(result.subtotal_cents).toBe(1500);
+    });
+
+    it('should not apply a minimum when none is configured', async () => {
+      useRules(mockLaundryRules.filter((rule) => rule.unit_key !== 'LND_WF_MIN_LBS'));
+
+      const result = await quoteLaundry({ zip: '10027', lbs: 5 });
+
+      expect(result.subtotal_cents).toBe(750);
+    });
+
+    it('should tax cleaning at the configured rate', async () => {
+      useRules(mockLaundryRules, edit(mockCleaningRules, 'NYC_SALES_TAX', { rate: 0.1 }));
+
+      const result = await quoteCleaning({ zip: '10027', bedrooms: 1, bathrooms: 1 });
+
+      expect(result.tax_cents).toBe(1000);
+      expect(result.tax_breakdown.tax_rate).toBe(0.1);
+    });
+
+    it('should fail rather than quote untaxed when no tax rule is configured', async () => {
+      useRules(mockLaundryRules, mockCleaningRules.filter((rule) => rule.unit_type !== 'TAX'));
+
+      await expect(quoteCleaning({ zip: '10027', bedrooms: 1, bathrooms: 1 }))
+        .rejects.toThrow('Sales tax not configured');
+    });
+
+    it('should apply the configured frequency discount', async () => {
+      useRules(mockLaundryRules, edit(mockCleaningRules, 'CLN_RECURRING_WEEKLY', { rate: 0.25 }));
+
+      const result = await quoteCleaning({
+        zip: '10027',
+        bedrooms: 2,
+        bathrooms: 1,
+        frequency: 'weekly',
+        visitsCompleted: 1,
+      });
+
+      const discount = result.items.find((i: any) => i.key === 'RECURRING_DISCOUNT');
+      expect(discount.total_cents).toBe(-3000);
+      expect(discount.label).toBe('Recurring weekly discount (25% off)');
+    });
+
+    it('should label add-ons from the rules, falling back to the key', async () => {
+      useRules(edit(mockLaundryRules, 'LND_DELICATE', { label: 'Delicate Care' }));
+
+      const result = await quoteLaundry({ zip: '10027', lbs: 20, addons: ['LND_DELICATE', 'LND_EXTRA_SOFTENER'] });
+
+      expect(result.items.map((i: any) => i.label)).toEqual([
+        'Wash & Fold (20 lbs)',
+        'Delicate Care',
+        'LND_EXTRA_SOFTENER',
+      ]);
+    });
+  });
+
+  describe('Dry clean', () => {
+    // Garment catalog (PER_ITEM rules) next to the wash & fold rules
+    const garmentRules = [
+      { key: 'DC_SHIRT', price: 1100, label: 'Shirt / Blouse' },
+      { key: 'DC_SUIT_2PC', price: 2000, label: 'Suit (2-piece)' },
+    ].map(({ key, price, label }, i) => ({
+      id: 30 + i,
+      service_type: 'LAUNDRY',
+      unit_type: 'PER_ITEM',
+      unit_key: key,
+      unit_price_cents: price,
+      label,
+      active: true,
+      priority: 10 + i,
+      geozone: null,
+    }));
+
+    beforeEach(() => {
+      mockGetServiceClient.mockReturnValue(mockPricingClient(() => [...mockLaundryRules, ...garmentRules]));
+    });
+
+    it('should price garments per item without a wash & fold line', async () => {
+      const result = await quoteLaundry({
+        zip: '10027',
+        lbs: 0,
+        garments: [{ key: 'DC_SHIRT', quantity: 3 }, { key: 'DC_SUIT_2PC', quantity: 1 }],
+      });
+
+      expect(result.items).toEqual([
+        { key: 'DC_SHIRT', label: 'Shirt / Blouse × 3', quantity: 3, unit_price_cents: 1100, total_cents: 3300, taxable: false },
+        { key: 'DC_SUIT_2PC', label: 'Suit (2-piece) × 1', quantity: 1, unit_price_cents: 2000, total_cents: 2000, taxable: false },
+      ]);
+      expect(result.subtotal_cents).toBe(5300);
+      expect(result.tax_cents).toBe(0);
+    });
+
+    it('should price a mixed order\'s pounds and garments in one breakdown', async () => {
+      const result = await quoteLaundry({
+        zip: '10027',
+        lbs: 20, // $30.00
+        garments: [{ key: 'DC_SHIRT', quantity: 2 }], // $22.00
+        rushService: true, // +25% of both
+      });
+
+      expect(result.items.map((i: any) => i.key)).toEqual(['LND_WF_PERLB', 'DC_SHIRT', 'LND_RUSH_24HR']);
+      expect(result.subtotal_cents).toBe(6500);
+      expect(result.total_cents).toBe(6500);
+    });
+
+    it('should reject garments missing from the catalog', async () => {
+      await expect(quoteLaundry({ zip: '10027', lbs: 0, garments: [{ key: 'DC_CAPE', quantity: 1 }] }))
+        .rejects.toMatchObject({ code: 'UNKNOWN_GARMENT' });
+    });
+  });
+
+  describe('Pricing versions', () => {
+    // A staged draft raising the per-pound rate to $2.00
+    const draftLaundryRules = mockLaundryRules.map((rule) =>
+      rule.unit_key === 'LND_WF_PERLB' ? { ...rule, unit_price_cents: 200 } : rule
+    );
+
+    beforeEach(() => {
+      mockGetServiceClient.mockReturnValue(mockPricingClient((serviceType, versionId) => {
+        if (serviceType === 'CLEANING') return mockCleaningRules;
+        return versionId === 'draft-2' ? draftLaundryRules : mockLaundryRules;
+      }));
+    });
+
+    it('should price with the version in effect and say which', async () => {
+      const result = await quoteLaundry({ zip: '10027', lbs: 20 });
+
+      expect(result.pricing_version_id).toBe('version-1');
+      expect(result.subtotal_cents).toBe(3000);
+    });
+
+    it('should price with a given version (an order\'s locked one or a draft)', async () => {
+      const result = await quoteLaundry({ zip: '10027', lbs: 20, pricingVersionId: 'draft-2' });
+
+      expect(result.pricing_version_id).toBe('draft-2');
+      expect(result.subtotal_cents).toBe(4000);
+    });
+
+    it('should read an order\'s tax rate from the version it was quoted under', async () => {
+      mockGetServiceClient.mockReturnValue(mockPricingClient((_serviceType, versionId) =>
+        versionId === 'draft-2'
+          ? mockCleaningRules.map((rule: any) => (rule.unit_key === 'NYC_SALES_TAX' ? { ...rule, rate: 0.1 } : rule))
+          : mockCleaningRules
+      ));
+      const { getOrderTaxRate } = await import('../pricing');
+
+      await expect(getOrderTaxRate({ service_type: 'CLEANING', pricing_version_id: 'draft-2' })).resolves.toBe(0.1);
+      await expect(getOrderTaxRate({ service_type: 'CLEANING', pricing_version_id: null })).resolves.toBe(0.08875);
+    });
+
+    it('should preview a draft against sample carts next to current pricing', async () => {
+      const { previewPricingVersion } = await import('../pricing');
+
+      const lines = await previewPricingVersion('draft-2', [
+        { label: 'Wash & fold, 20 lbs', service_type: 'LAUNDRY', params: { zip: '10027', lbs: 20 } },
+        { label: 'Studio', service_type: 'CLEANING', params: { zip: '10027', bedrooms: 0, bathrooms: 1 } },
+      ]);
+
+      expect(lines[0]).toMatchObject({ difference_cents: 1000 });
+      expect(lines[0].current?.total_cents).toBe(3000);
+      expect(lines[0].preview?.total_cents).toBe(4000);
+      expect(lines[1]).toMatchObject({ difference_cents: 0 });
+    });
+
+    it('should report carts a draft can\'t price instead of failing', async () => {
+      mockGetServiceClient.mockReturnValue(mockPricingClient((serviceType, versionId) =>
+        versionId === 'draft-2' ? [] : mockLaundryRules
+      ));
+      const { previewPricingVersion } = await import('../pricing');
+
+      const [line] = await previewPricingVersion('draft-2', [
+        { label: 'Wash & fold, 20 lbs', service_type: 'LAUNDRY', params: { zip: '10027', lbs: 20 } },
+      ]);
+
+      expect(line.preview).toBeNull();
+      expect(line.difference_cents).toBeNull();
+      expect(line.error).toBe('Laundry per-pound pricing not configured');
+    });
+  });
 });
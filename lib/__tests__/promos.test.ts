@@ -0,0 +1,299 @@
+/**
+ * Unit Tests for Promo Codes
+ * Eligibility rules and discount line items
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { createFakeDb, type Tables } from './utils/fake-db';
+import {
+  normalizePromoCode,
+  describePromoDiscount,
+  getPromoIneligibilityReason,
+  buildPromoDiscountItem,
+  getPromoDiscountCents,
+  promoCodeSchema,
+  type PromoCode,
+  type PromoContext,
+  type PromoUsage,
+} from '../promos';
+import type { PricingLineItem } from '../pricing';
+
+jest.mock('../db');
+
+const basePromo: PromoCode = {
+  id: 'promo-1',
+  code: 'WELCOME10',
+  description: null,
+  discount_type: 'PERCENT',
+  percent_off: 10,
+  amount_off_cents: null,
+  free_addon_key: null,
+  service_types: null,
+  zip_codes: null,
+  starts_at: null,
+  expires_at: null,
+  max_redemptions: null,
+  max_redemptions_per_user: null,
+  first_order_only: false,
+  active: true,
+  created_at: '2026-01-01T00:00:00Z',
+};
+
+const context: PromoContext = {
+  serviceType: 'LAUNDRY',
+  zip: '10027',
+  userId: 'user-1',
+  now: new Date('2026-06-15T12:00:00Z'),
+};
+
+const noUsage: PromoUsage = { totalRedemptions: 0, customerRedemptions: 0, customerPriorOrders: 0 };
+
+const laundryItems: PricingLineItem[] = [
+  { key: 'LND_WF_PERLB', label: 'Wash & Fold (20 lbs)', quantity: 20, unit_price_cents: 150, total_cents: 3000, taxable: false },
+  { key: 'LND_DELICATE', label: 'Delicate Care', unit_price_cents: 500, total_cents: 500, taxable: false },
+];
+
+describe('Promo Codes', () => {
+  describe('normalizePromoCode', () => {
+    it('should trim and upper-case codes', () => {
+      expect(normalizePromoCode('  welcome10 ')).toBe('WELCOME10');
+    });
+  });
+
+  describe('describePromoDiscount', () => {
+    it('should describe each discount type', () => {
+      expect(describePromoDiscount(basePromo)).toBe('10% off');
+      expect(describePromoDiscount({ ...basePromo, discount_type: 'FIXED', amount_off_cents: 500 })).toBe('$5.00 off');
+      expect(describePromoDiscount({ ...basePromo, discount_type: 'FREE_ADDON', free_addon_key: 'LND_DELICATE' }))
+        .toBe('Free LND_DELICATE');
+    });
+  });
+
+  describe('getPromoIneligibilityReason', () => {
+    it('should accept an unrestricted active code', () => {
+      expect(getPromoIneligibilityReason(basePromo, context, noUsage)).toBeNull();
+    });
+
+    it('should reject inactive codes', () => {
+      expect(getPromoIneligibilityReason({ ...basePromo, active: false }, context, noUsage))
+        .toMatch(/no longer active/);
+    });
+
+    it('should enforce the start and expiry window', () => {
+      expect(getPromoIneligibilityReason({ ...basePromo, starts_at: '2026-07-01T00:00:00Z' }, context, noUsage))
+        .toMatch(/not active yet/);
+      expect(getPromoIneligibilityReason({ ...basePromo, expires_at: '2026-06-15T12:00:00Z' }, context, noUsage))
+        .toMatch(/expired/);
+      expect(getPromoIneligibilityReason({ ...basePromo, expires_at: '2026-06-16T00:00:00Z' }, context, noUsage))
+        .toBeNull();
+    });
+
+    it('should enforce service-type and ZIP restrictions', () => {
+      expect(getPromoIneligibilityReason({ ...basePromo, service_types: ['CLEANING'] }, context, noUsage))
+        .toMatch(/laundry/);
+      expect(getPromoIneligibilityReason({ ...basePromo, zip_codes: ['10026'] }, context, noUsage))
+        .toMatch(/your area/);
+      expect(getPromoIneligibilityReason(
+        { ...basePromo, service_types: ['LAUNDRY'], zip_codes: ['10026', '10027'] },
+        context,
+        noUsage
+      )).toBeNull();
+    });
+
+    it('should enforce the global redemption limit', () => {
+      const promo = { ...basePromo, max_redemptions: 100 };
+      expect(getPromoIneligibilityReason(promo, context, { ...noUsage, totalRedemptions: 99 })).toBeNull();
+      expect(getPromoIneligibilityReason(promo, context, { ...noUsage, totalRedemptions: 100 }))
+        .toMatch(/redemption limit/);
+    });
+
+    it('should enforce the per-customer limit', () => {
+      const promo = { ...basePromo, max_redemptions_per_user: 1 };
+      expect(getPromoIneligibilityReason(promo, context, { ...noUsage, customerRedemptions: 1 }))
+        .toMatch(/already used/);
+    });
+
+    it('should only allow first-order codes on a first order', () => {
+      const promo = { ...basePromo, first_order_only: true };
+      expect(getPromoIneligibilityReason(promo, context, noUsage)).toBeNull();
+      expect(getPromoIneligibilityReason(promo, context, { ...noUsage, customerPriorOrders: 2 }))
+        .toMatch(/first order/);
+    });
+
+    it('should require a customer for per-customer rules', () => {
+      const anonymous = { ...context, userId: null };
+      expect(getPromoIneligibilityReason({ ...basePromo, first_order_only: true }, anonymous, noUsage))
+        .toMatch(/Sign in/);
+      expect(getPromoIneligibilityReason(
+        { ...basePromo, first_order_only: true },
+        { ...anonymous, guestEmail: 'guest@example.com' },
+        noUsage
+      )).toBeNull();
+      expect(getPromoIneligibilityReason(basePromo, anonymous, noUsage)).toBeNull();
+    });
+  });
+
+  describe('buildPromoDiscountItem', () => {
+    it('should take a percentage of the subtotal', () => {
+      const item = buildPromoDiscountItem(laundryItems, 3500, basePromo, false);
+      expect(item).toEqual({
+        key: 'PROMO_DISCOUNT',
+        label: 'Promo WELCOME10 (10% off)',
+        unit_price_cents: -350,
+        total_cents: -350,
+        taxable: false,
+      });
+    });
+
+    it('should cap fixed discounts at the subtotal', () => {
+      const promo = { ...basePromo, discount_type: 'FIXED' as const, percent_off: null, amount_off_cents: 5000 };
+      expect(buildPromoDiscountItem(laundryItems, 3500, promo, false)?.total_cents).toBe(-3500);
+    });
+
+    it('should discount a selected free add-on', () => {
+      const promo = { ...basePromo, discount_type: 'FREE_ADDON' as const, percent_off: null, free_addon_key: 'LND_DELICATE' };
+      const item = buildPromoDiscountItem(laundryItems, 3500, promo, true);
+      expect(item?.total_cents).toBe(-500);
+      expect(item?.label).toBe('Promo WELCOME10 (free Delicate Care)');
+      expect(item?.taxable).toBe(false); // Follows the add-on
+    });
+
+    it('should skip a free add-on that was not selected', () => {
+      const promo = { ...basePromo, discount_type: 'FREE_ADDON' as const, percent_off: null, free_addon_key: 'LND_BULKY_ITEM' };
+      expect(buildPromoDiscountItem(laundryItems, 3500, promo, false)).toBeNull();
+    });
+
+    it('should return null without a promo or subtotal', () => {
+      expect(buildPromoDiscountItem(laundryItems, 3500, null, false)).toBeNull();
+      expect(buildPromoDiscountItem([], 0, basePromo, false)).toBeNull();
+    });
+  });
+
+  describe('getPromoDiscountCents', () => {
+    it('should read the discount from a quote', () => {
+      const item = buildPromoDiscountItem(laundryItems, 3500, basePromo, false)!;
+      expect(getPromoDiscountCents({ items: [...laundryItems, item] })).toBe(350);
+      expect(getPromoDiscountCents({ items: laundryItems })).toBe(0);
+    });
+  });
+
+  describe('promoCodeSchema', () => {
+    it('should require the value for the discount type', () => {
+      expect(promoCodeSchema.safeParse({ code: 'SAVE5', discount_type: 'FIXED' }).success).toBe(false);
+      expect(promoCodeSchema.safeParse({ code: 'SAVE5', discount_type: 'FIXED', amount_off_cents: 500 }).success)
+        .toBe(true);
+    });
+
+    it('should reject an expiry before the start', () => {
+      const result = promoCodeSchema.safeParse({
+        code: 'SPRING',
+        discount_type: 'PERCENT',
+        percent_off: 15,
+        starts_at: '2026-04-01T00:00:00Z',
+        expires_at: '2026-03-01T00:00:00Z',
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+});
+
+/**
+ * Stand-in for the redeem_promo_code RPC (migration 061): runs in one
+ * synchronous step, as the row lock makes it in Postgres
+ */
+function redeemPromoCode(tables: Tables, params: any) {
+  const promo = tables.promo_codes.find((row) => row.id === params.p_promo_code_id);
+  if (!promo) return { success: false, error: 'PROMO_NOT_FOUND' };
+  const redemptions = tables.promo_redemptions.filter((row) => row.promo_code_id === promo.id);
+  const existing = redemptions.find((row) => row.order_id === params.p_order_id);
+  if (existing) {
+    existing.discount_cents = params.p_discount_cents;
+    return { success: true };
+  }
+  if (promo.max_redemptions && redemptions.length >= promo.max_redemptions) {
+    return { success: false, error: 'PROMO_LIMIT_REACHED' };
+  }
+  const customer = redemptions.filter((row) =>
+    params.p_user_id ? row.user_id === params.p_user_id : row.guest_email === params.p_guest_email
+  );
+  if (promo.max_redemptions_per_user && customer.length >= promo.max_redemptions_per_user) {
+    return { success: false, error: 'PROMO_CUSTOMER_LIMIT_REACHED' };
+  }
+  tables.promo_redemptions.push({
+    promo_code_id: promo.id,
+    order_id: params.p_order_id,
+    user_id: params.p_user_id,
+    guest_email: params.p_guest_email,
+    discount_cents: params.p_discount_cents,
+  });
+  return { success: true };
+}
+
+describe('recordPromoRedemption', () => {
+  let recordPromoRedemption: typeof import('../promos').recordPromoRedemption;
+  let mockGetServiceClient: jest.Mock<any>;
+
+  beforeEach(async () => {
+    // The pure helpers above loaded promos before the db mock was registered
+    jest.resetModules();
+    const db = await import('../db');
+    mockGetServiceClient = db.getServiceClient as unknown as jest.Mock<any>;
+    mockGetServiceClient.mockReset();
+    ({ recordPromoRedemption } = await import('../promos'));
+  });
+
+  function seedPromo(overrides: Partial<PromoCode> = {}, redemptions: any[] = []) {
+    const fake = createFakeDb(
+      { promo_codes: [{ ...basePromo, ...overrides }], promo_redemptions: redemptions },
+      { rpc: (_name, params) => redeemPromoCode(fake.tables, params) }
+    );
+    mockGetServiceClient.mockReturnValue(fake.db);
+    return fake;
+  }
+
+  it('should stop concurrent checkouts at max_redemptions', async () => {
+    const { tables } = seedPromo({ max_redemptions: 2 });
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 5 }, (_, i) =>
+        recordPromoRedemption({ promoCodeId: 'promo-1', orderId: `order-${i}`, userId: `user-${i}`, discountCents: 500 })
+      )
+    );
+
+    expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(2);
+    const rejected = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    expect(rejected).toHaveLength(3);
+    expect(rejected[0].reason).toMatchObject({ statusCode: 409, code: 'PROMO_LIMIT_REACHED' });
+    expect(tables.promo_redemptions).toHaveLength(2);
+  });
+
+  it('should enforce the per-customer limit for guests', async () => {
+    const { tables } = seedPromo({ max_redemptions_per_user: 1 }, [
+      { promo_code_id: 'promo-1', order_id: 'order-0', user_id: null, guest_email: 'guest@example.com', discount_cents: 500 },
+    ]);
+
+    await expect(
+      recordPromoRedemption({ promoCodeId: 'promo-1', orderId: 'order-1', guestEmail: 'guest@example.com', discountCents: 500 })
+    ).rejects.toMatchObject({ code: 'PROMO_CUSTOMER_LIMIT_REACHED' });
+    expect(tables.promo_redemptions).toHaveLength(1);
+  });
+
+  it('should update the discount when an order is re-quoted at the limit', async () => {
+    const { tables } = seedPromo({ max_redemptions: 1 }, [
+      { promo_code_id: 'promo-1', order_id: 'order-0', user_id: 'user-1', guest_email: null, discount_cents: 500 },
+    ]);
+
+    await recordPromoRedemption({ promoCodeId: 'promo-1', orderId: 'order-0', userId: 'user-1', discountCents: 720 });
+
+    expect(tables.promo_redemptions).toEqual([expect.objectContaining({ order_id: 'order-0', discount_cents: 720 })]);
+  });
+
+  it('should throw when the redemption cannot be written', async () => {
+    const { db } = seedPromo();
+    db.rpc.mockResolvedValueOnce({ data: null, error: { message: 'connection reset' } });
+
+    await expect(
+      recordPromoRedemption({ promoCodeId: 'promo-1', orderId: 'order-1', userId: 'user-1', discountCents: 500 })
+    ).rejects.toMatchObject({ statusCode: 500, code: 'PROMO_REDEMPTION_FAILED' });
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Unit Tests for Rate Limiting
+ * Sliding window and token bucket algorithms, the in-memory store and the limiter
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import {
+  applySlidingWindow,
+  applyTokenBucket,
+  rateLimit,
+  resetRateLimit,
+  getClientIp,
+  MemoryRateLimitStore,
+  type RateLimitStore,
+  type SlidingWindowPolicy,
+  type TokenBucketPolicy,
+} from '../rate-limit';
+
+jest.mock('../db');
+
+const MINUTE = 60 * 1000;
+
+describe('Rate Limiting', () => {
+  describe('applySlidingWindow', () => {
+    const policy: SlidingWindowPolicy = { algorithm: 'sliding_window', limit: 3, windowMs: MINUTE };
+    const windowStart = 100 * MINUTE;
+
+    it('should allow up to the limit within a window', () => {
+      let state = null;
+      for (let i = 0; i < 3; i++) {
+        const outcome = applySlidingWindow(state, policy, windowStart + i * 1000);
+        expect(outcome.result.allowed).toBe(true);
+        expect(outcome.result.remaining).toBe(2 - i);
+        state = outcome.state;
+      }
+
+      const denied = applySlidingWindow(state, policy, windowStart + 5000);
+      expect(denied.result.allowed).toBe(false);
+      expect(denied.result.retryAfterSeconds).toBe(55);
+      expect(denied.state.count).toBe(3); // Denied requests aren't counted
+    });
+
+    it('should weigh the previous window', () => {
+      const state = { window_start: windowStart - MINUTE, count: 3, previous_count: 0 };
+
+      // 15s into the new window, 75% of the previous 3 still counts (2.25)
+      expect(applySlidingWindow(state, policy, windowStart + 15 * 1000).result.allowed).toBe(false);
+
+      // 45s in, only 0.75 counts
+      const outcome = applySlidingWindow(state, policy, windowStart + 45 * 1000);
+      expect(outcome.result.allowed).toBe(true);
+      expect(outcome.state).toEqual({ window_start: windowStart, count: 1, previous_count: 3 });
+    });
+
+    it('should retry once enough of the previous window slid out', () => {
+      const state = { window_start: windowStart - MINUTE, count: 3, previous_count: 0 };
+      const outcome = applySlidingWindow(state, policy, windowStart + 15 * 1000);
+
+      // Needs previous weight <= 2/3, i.e. 20s into the window
+      expect(outcome.result.retryAfterSeconds).toBe(5);
+    });
+
+    it('should forget windows older than the previous one', () => {
+      const state = { window_start: windowStart - 2 * MINUTE, count: 3, previous_count: 3 };
+      const outcome = applySlidingWindow(state, policy, windowStart);
+
+      expect(outcome.result.allowed).toBe(true);
+      expect(outcome.state.previous_count).toBe(0);
+      expect(outcome.expiresAt).toBe(windowStart + 2 * MINUTE);
+    });
+  });
+
+  describe('applyTokenBucket', () => {
+    const policy: TokenBucketPolicy = { algorithm: 'token_bucket', capacity: 2, refillPerSecond: 0.5 };
+
+    it('should start full and drain', () => {
+      const first = applyTokenBucket(null, policy, 0);
+      expect(first.result).toEqual({ allowed: true, limit: 2, remaining: 1, retryAfterSeconds: 0 });
+
+      const second = applyTokenBucket(first.state, policy, 0);
+      expect(second.result.allowed).toBe(true);
+
+      const third = applyTokenBucket(second.state, policy, 0);
+      expect(third.result.allowed).toBe(false);
+      expect(third.result.retryAfterSeconds).toBe(2);
+    });
+
+    it('should refill over time up to capacity', () => {
+      const empty = { tokens: 0, updated_at: 0 };
+
+      expect(applyTokenBucket(empty, policy, 1000).result.allowed).toBe(false);
+      expect(applyTokenBucket(empty, policy, 2000).result.allowed).toBe(true);
+
+      const refilled = applyTokenBucket(empty, policy, 60 * 1000);
+      expect(refilled.state.tokens).toBe(1); // Capped at 2, then one spent
+    });
+
+    it('should support weighted requests', () => {
+      const outcome = applyTokenBucket(null, policy, 0, 3);
+      expect(outcome.result.allowed).toBe(false);
+    });
+  });
+
+  describe('MemoryRateLimitStore', () => {
+    const policy: TokenBucketPolicy = { algorithm: 'token_bucket', capacity: 2, refillPerSecond: 0.5 };
+
+    it('should count every concurrent consume', async () => {
+      const store = new MemoryRateLimitStore();
+
+      const results = await Promise.all([1, 2, 3].map(() => store.consume('k', policy, 0, 1)));
+      expect(results.map((result) => result.allowed)).toEqual([true, true, false]);
+
+      await store.delete('k');
+      expect((await store.consume('k', policy, 0, 1)).remaining).toBe(1);
+    });
+  });
+
+  describe('rateLimit', () => {
+    let store: MemoryRateLimitStore;
+
+    beforeEach(() => {
+      store = new MemoryRateLimitStore();
+    });
+
+    it('should apply the named policy per identifier', async () => {
+      const now = 1000 * MINUTE;
+      for (let i = 0; i < 3; i++) {
+        expect((await rateLimit('waitlist', '1.2.3.4', { store, now })).allowed).toBe(true);
+      }
+
+      const denied = await rateLimit('waitlist', '1.2.3.4', { store, now });
+      expect(denied.allowed).toBe(false);
+      expect(denied.retryAfterSeconds).toBeGreaterThan(0);
+
+      // Other identifiers and policies are independent
+      expect((await rateLimit('waitlist', '5.6.7.8', { store, now })).allowed).toBe(true);
+      expect((await rateLimit('estimate', '1.2.3.4', { store, now })).allowed).toBe(true);
+    });
+
+    it('should clear usage on reset', async () => {
+      const now = 1000 * MINUTE;
+      for (let i = 0; i < 5; i++) {
+        await rateLimit('auth.login', '1.2.3.4', { store, now });
+      }
+      expect((await rateLimit('auth.login', '1.2.3.4', { store, now })).allowed).toBe(false);
+
+      await resetRateLimit('auth.login', '1.2.3.4', { store });
+      expect((await rateLimit('auth.login', '1.2.3.4', { store, now })).allowed).toBe(true);
+    });
+
+    it('should treat expired entries as fresh', async () => {
+      const now = 1000 * MINUTE;
+      for (let i = 0; i < 4; i++) {
+        await rateLimit('waitlist', '1.2.3.4', { store, now });
+      }
+
+      const later = await rateLimit('waitlist', '1.2.3.4', { store, now: now + 3 * MINUTE });
+      expect(later.allowed).toBe(true);
+      expect(later.remaining).toBe(2);
+    });
+
+    it('should not let a concurrent burst past the limit', async () => {
+      const now = 1000 * MINUTE;
+
+      const results = await Promise.all(
+        Array.from({ length: 8 }, () => rateLimit('auth.login', '1.2.3.4', { store, now }))
+      );
+
+      expect(results.filter((result) => result.allowed)).toHaveLength(5);
+    });
+
+    describe('when the store errors', () => {
+      const brokenStore: RateLimitStore = {
+        consume: () => Promise.reject(new Error('connection refused')),
+        delete: () => Promise.resolve(),
+      };
+      let consoleSpy: ReturnType<typeof jest.spyOn>;
+
+      beforeEach(() => {
+        consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      });
+
+      afterEach(() => {
+        consoleSpy.mockRestore();
+      });
+
+      it('should fail open for general policies', async () => {
+        const result = await rateLimit('estimate', '1.2.3.4', { store: brokenStore });
+        expect(result.allowed).toBe(true);
+      });
+
+      it('should fail closed for auth and the SMS webhook', async () => {
+        for (const policy of ['auth.login', 'auth.signup', 'auth', 'sms.webhook'] as const) {
+          const result = await rateLimit(policy, '1.2.3.4', { store: brokenStore });
+          expect(result.allowed).toBe(false);
+          expect(result.retryAfterSeconds).toBeGreaterThan(0);
+        }
+      });
+    });
+  });
+
+  describe('getClientIp', () => {
+    it('should use the first forwarded address', () => {
+      const request = { headers: new Headers({ 'x-forwarded-for': '203.0.113.7, 10.0.0.1' }) } as any;
+      expect(getClientIp(request)).toBe('203.0.113.7');
+    });
+
+    it('should fall back to x-real-ip', () => {
+      const request = { headers: new Headers({ 'x-real-ip': '203.0.113.9' }) } as any;
+      expect(getClientIp(request)).toBe('203.0.113.9');
+    });
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Unit Tests for Recurring Visits
+ * Tests visit date math, booking eligibility, slot preference and the skip/swap window
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  addDays,
+  addFrequency,
+  rollForwardDate,
+  toQuoteFrequency,
+  isPlanDueForBooking,
+  getRecurringVisitDetails,
+  rankRecurringSlots,
+  getChargeDueAt,
+  canChangeRecurringVisit,
+  isVisitChargeDue,
+  type CapacitySlot,
+} from '../recurring';
+
+const HOUR = 60 * 60 * 1000;
+
+function slot(partnerId: string, slotStart: string, reserved = 0, max = 10): CapacitySlot {
+  return {
+    id: `${partnerId}-${slotStart}`,
+    partner_id: partnerId,
+    service_type: 'CLEANING',
+    slot_start: slotStart,
+    slot_end: new Date(new Date(slotStart).getTime() + 2 * HOUR).toISOString(),
+    max_units: max,
+    reserved_units: reserved,
+  };
+}
+
+describe('Recurring Visits', () => {
+  describe('visit dates', () => {
+    it('should add weekly and biweekly intervals across month ends', () => {
+      expect(addFrequency('2026-01-28', 'WEEKLY')).toBe('2026-02-04');
+      expect(addFrequency('2026-12-24', 'BIWEEKLY')).toBe('2027-01-07');
+    });
+
+    it('should keep the day of month for monthly plans, clamped to shorter months', () => {
+      expect(addFrequency('2026-03-15', 'MONTHLY')).toBe('2026-04-15');
+      expect(addFrequency('2026-01-31', 'MONTHLY')).toBe('2026-02-28');
+      expect(addFrequency('2026-12-31', 'MONTHLY')).toBe('2027-01-31');
+    });
+
+    it('should roll a missed visit date forward to today or later', () => {
+      expect(rollForwardDate('2026-10-01', 'WEEKLY', '2026-10-19')).toBe('2026-10-22');
+      expect(rollForwardDate('2026-10-22', 'WEEKLY', '2026-10-19')).toBe('2026-10-22');
+      expect(rollForwardDate('2026-10-19', 'BIWEEKLY', '2026-10-19')).toBe('2026-10-19');
+    });
+
+    it('should map plan frequencies to quote frequencies', () => {
+      expect(toQuoteFrequency('BIWEEKLY')).toBe('biweekly');
+      expect(addDays('2026-02-27', 2)).toBe('2026-03-01');
+    });
+  });
+
+  describe('isPlanDueForBooking', () => {
+    const plan = { active: true, next_date: '2026-10-22', service_type: 'CLEANING' as const };
+
+    it('should book visits within the lead window', () => {
+      expect(isPlanDueForBooking(plan, '2026-10-19')).toBe(true);
+      expect(isPlanDueForBooking(plan, '2026-10-18')).toBe(false);
+    });
+
+    it('should skip paused plans and plans waiting for their first visit', () => {
+      expect(isPlanDueForBooking({ ...plan, active: false }, '2026-10-21')).toBe(false);
+      expect(isPlanDueForBooking({ ...plan, next_date: null }, '2026-10-21')).toBe(false);
+      expect(isPlanDueForBooking({ ...plan, service_type: 'LAUNDRY' }, '2026-10-21')).toBe(false);
+    });
+  });
+
+  describe('getRecurringVisitDetails', () => {
+    const template = { bedrooms: 2, bathrooms: 1, cleaningType: 'standard', addons: ['oven'] };
+
+    it('should use the plan add-ons over the template order', () => {
+      const details = getRecurringVisitDetails(
+        { default_addons: { fridge: true, oven: false }, first_visit_deep: false },
+        template
+      );
+      expect(details).toEqual({ bedrooms: 2, bathrooms: 1, deep: false, addons: ['fridge'] });
+    });
+
+    it('should fall back to template add-ons when the plan has none', () => {
+      const details = getRecurringVisitDetails({ default_addons: null, first_visit_deep: false }, template);
+      expect(details.addons).toEqual(['oven']);
+    });
+
+    it('should not repeat a deep clean that only came from first_visit_deep', () => {
+      const firstVisit = { bedrooms: 1, bathrooms: 1, deep: true };
+      expect(getRecurringVisitDetails({ default_addons: {}, first_visit_deep: true }, firstVisit).deep).toBe(false);
+      expect(getRecurringVisitDetails({ default_addons: {}, first_visit_deep: false }, firstVisit).deep).toBe(true);
+      expect(
+        getRecurringVisitDetails({ default_addons: {}, first_visit_deep: true }, { ...firstVisit, cleaningType: 'deep' }).deep
+      ).toBe(true);
+    });
+  });
+
+  describe('rankRecurringSlots', () => {
+    const now = new Date('2026-10-19T12:00:00Z');
+    // Previous visit: partner A at 10am New York
+    const previous = { partner_id: 'A', slot_start: '2026-10-15T14:00:00Z' };
+
+    it('should prefer the same time and partner, then the same time', () => {
+      const ranked = rankRecurringSlots(
+        [
+          slot('A', '2026-10-22T18:00:00Z'),
+          slot('B', '2026-10-22T14:00:00Z'),
+          slot('A', '2026-10-22T14:00:00Z'),
+          slot('B', '2026-10-22T16:00:00Z'),
+        ],
+        previous,
+        now
+      );
+      expect(ranked.map((s) => `${s.partner_id}@${s.slot_start.slice(11, 13)}`)).toEqual([
+        'A@14',
+        'B@14',
+        'A@18',
+        'B@16',
+      ]);
+    });
+
+    it('should leave out full and past slots', () => {
+      const ranked = rankRecurringSlots(
+        [slot('A', '2026-10-22T14:00:00Z', 10, 10), slot('A', '2026-10-19T10:00:00Z'), slot('B', '2026-10-22T20:00:00Z')],
+        previous,
+        now
+      );
+      expect(ranked.map((s) => s.partner_id)).toEqual(['B']);
+    });
+  });
+
+  describe('skip/swap window', () => {
+    const visit = { status: 'pending', paid_at: null, slot_start: '2026-10-22T14:00:00Z' };
+
+    it('should charge the visit 48 hours before the slot', () => {
+      expect(getChargeDueAt(visit).toISOString()).toBe('2026-10-20T14:00:00.000Z');
+    });
+
+    it('should allow changes only until the visit is charged', () => {
+      expect(canChangeRecurringVisit(visit, new Date('2026-10-20T13:59:00Z'))).toBe(true);
+      expect(canChangeRecurringVisit(visit, new Date('2026-10-20T14:00:00Z'))).toBe(false);
+      expect(canChangeRecurringVisit({ ...visit, status: 'paid_processing' }, new Date('2026-10-19T00:00:00Z'))).toBe(false);
+    });
+
+    it('should charge unpaid visits inside the window but not after the slot starts', () => {
+      expect(isVisitChargeDue(visit, new Date('2026-10-19T14:00:00Z'))).toBe(false);
+      expect(isVisitChargeDue(visit, new Date('2026-10-21T09:00:00Z'))).toBe(true);
+      expect(isVisitChargeDue(visit, new Date('2026-10-22T15:00:00Z'))).toBe(false);
+      expect(isVisitChargeDue({ ...visit, paid_at: '2026-10-21T09:00:00Z' }, new Date('2026-10-21T10:00:00Z'))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Unit Tests for Partner Ratings and Scorecards
+ * Tests scorecard aggregation, low-score thresholds and alerting
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { createFakeDb } from './utils/fake-db';
+import {
+  canRateOrder,
+  computeScorecard,
+  createRatingSchema,
+  refreshPartnerScorecard,
+  SCORECARD_WINDOW_DAYS,
+  type ScorecardOrder,
+} from '../scorecards';
+
+const NOW = new Date('2030-03-31T12:00:00Z');
+
+function order(overrides: Partial<ScorecardOrder> = {}): ScorecardOrder {
+  return { status: 'completed', late_minutes: 0, disputed_at: null, no_show_type: null, ...overrides };
+}
+
+function repeat<T>(count: number, make: () => T): T[] {
+  return Array.from({ length: count }, make);
+}
+
+describe('Partner Scorecards', () => {
+  describe('canRateOrder', () => {
+    it('should allow rating completed and delivered orders with a partner', () => {
+      expect(canRateOrder({ status: 'completed', partner_id: 'p1' })).toBe(true);
+      expect(canRateOrder({ status: 'delivered', partner_id: 'p1' })).toBe(true);
+    });
+
+    it('should not allow rating unfinished or unassigned orders', () => {
+      expect(canRateOrder({ status: 'in_service', partner_id: 'p1' })).toBe(false);
+      expect(canRateOrder({ status: 'completed', partner_id: null })).toBe(false);
+    });
+  });
+
+  describe('createRatingSchema', () => {
+    it('should accept a rating with tags and a review', () => {
+      expect(createRatingSchema.parse({ rating: 5, tags: ['on_time', 'quality'], review: ' Great ' })).toEqual({
+        rating: 5,
+        tags: ['on_time', 'quality'],
+        review: 'Great',
+      });
+    });
+
+    it('should reject out-of-range ratings and unknown tags', () => {
+      expect(() => createRatingSchema.parse({ rating: 0 })).toThrow();
+      expect(() => createRatingSchema.parse({ rating: 4.5 })).toThrow();
+      expect(() => createRatingSchema.parse({ rating: 4, tags: ['price'] })).toThrow();
+    });
+  });
+
+  describe('computeScorecard', () => {
+    it('should have no rating before the first review', () => {
+      const scorecard = computeScorecard([], [], NOW);
+
+      expect(scorecard).toMatchObject({
+        rating: null,
+        review_count: 0,
+        tag_rates: { on_time: null, quality: null, communication: null },
+        on_time_rate: null,
+        dispute_rate: null,
+        low_metrics: [],
+        window_days: SCORECARD_WINDOW_DAYS,
+        updated_at: NOW.toISOString(),
+      });
+    });
+
+    it('should average ratings and rate tags', () => {
+      const scorecard = computeScorecard(
+        [
+          { rating: 5, tags: ['on_time', 'quality'] },
+          { rating: 4, tags: ['quality'] },
+          { rating: 4, tags: [] },
+        ],
+        [],
+        NOW
+      );
+
+      expect(scorecard.rating).toBe(4.3);
+      expect(scorecard.review_count).toBe(3);
+      expect(scorecard.tag_rates).toEqual({ on_time: 0.333, quality: 0.667, communication: 0 });
+    });
+
+    it('should count arrivals within the grace period as on time', () => {
+      const scorecard = computeScorecard(
+        [],
+        [order(), order({ late_minutes: 15 }), order({ late_minutes: 40, status: 'delivered' }), order({ late_minutes: null })],
+        NOW
+      );
+
+      expect(scorecard.completed_orders).toBe(4);
+      expect(scorecard.on_time_rate).toBe(0.75);
+    });
+
+    it('should count no-shows and disputes', () => {
+      const scorecard = computeScorecard(
+        [],
+        [
+          order(),
+          order({ status: 'disputed', disputed_at: '2030-03-01T00:00:00Z' }),
+          // Resolved dispute keeps its timestamp
+          order({ status: 'refunded', disputed_at: '2030-03-02T00:00:00Z' }),
+          order({ status: 'cleaner_no_show', no_show_type: 'cleaner' }),
+          order({ status: 'customer_no_show', no_show_type: 'customer' }),
+        ],
+        NOW
+      );
+
+      expect(scorecard.no_show_count).toBe(1);
+      expect(scorecard.completed_orders).toBe(3);
+      expect(scorecard.dispute_count).toBe(2);
+      expect(scorecard.dispute_rate).toBe(0.667);
+    });
+
+    it('should flag a low rating only with enough reviews', () => {
+      const few = computeScorecard(repeat(4, () => ({ rating: 2, tags: [] })), [], NOW);
+      const enough = computeScorecard(repeat(5, () => ({ rating: 3, tags: [] })), [], NOW);
+
+      expect(few.low_metrics).toEqual([]);
+      expect(enough.low_metrics).toEqual(['rating']);
+    });
+
+    it('should flag late arrivals, disputes and no-shows', () => {
+      const orders = [
+        ...repeat(7, () => order()),
+        ...repeat(2, () => order({ late_minutes: 45 })),
+        order({ status: 'disputed', disputed_at: '2030-03-01T00:00:00Z', late_minutes: 30 }),
+        ...repeat(3, () => order({ status: 'cleaner_no_show', no_show_type: 'cleaner' })),
+      ];
+
+      expect(computeScorecard([], orders, NOW).low_metrics).toEqual(['on_time_rate', 'no_show_count']);
+      expect(computeScorecard([], [...orders, order({ status: 'disputed', disputed_at: '2030-03-02' })], NOW).low_metrics).toEqual([
+        'on_time_rate',
+        'dispute_rate',
+        'no_show_count',
+      ]);
+    });
+  });
+
+  describe('refreshPartnerScorecard', () => {
+    function seed(scorecard: Record<string, any> = {}) {
+      return createFakeDb({
+        partners: [{ id: 'p1', name: 'Sparkle Co', scorecard_json: scorecard }],
+        order_ratings: repeat(5, () => ({ partner_id: 'p1', rating: 3, tags: [] })).concat([
+          { partner_id: 'p2', rating: 5, tags: [] },
+        ]),
+        orders: [
+          { partner_id: 'p1', status: 'completed', late_minutes: 0, slot_start: '2030-03-20T14:00:00Z' },
+          // Outside the window
+          { partner_id: 'p1', status: 'disputed', disputed_at: '2029-01-01', slot_start: '2029-01-01T14:00:00Z' },
+        ],
+        operational_alerts: [],
+      });
+    }
+
+    it('should save the scorecard and alert on a newly low metric', async () => {
+      const { db, tables } = seed();
+
+      const result = await refreshPartnerScorecard(db, 'p1', NOW);
+
+      expect(result.alerts).toEqual(['rating']);
+      expect(tables.partners[0].scorecard_json).toMatchObject({
+        rating: 3,
+        review_count: 5,
+        completed_orders: 1,
+        dispute_count: 0,
+        low_metrics: ['rating'],
+      });
+      expect(tables.operational_alerts).toEqual([
+        expect.objectContaining({
+          alert_type: 'partner_low_score',
+          entity_type: 'partner',
+          entity_id: 'p1',
+          message: 'Sparkle Co: average rating 3 over 5 reviews (minimum 4)',
+        }),
+      ]);
+    });
+
+    it('should not alert again while the metric stays low', async () => {
+      const { db, tables } = seed({ low_metrics: ['rating'] });
+
+      const result = await refreshPartnerScorecard(db, 'p1', NOW);
+
+      expect(result.alerts).toEqual([]);
+      expect(tables.operational_alerts).toHaveLength(0);
+    });
+  });
+});
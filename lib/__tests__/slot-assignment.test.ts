@@ -0,0 +1,332 @@
+/**
+ * Unit Tests for Slot Assignment
+ * Tests each strategy's ranking and holding the assigned partner's slot
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { createFakeDb } from './utils/fake-db';
+import {
+  bestScorecardStrategy,
+  getAssignmentCandidates,
+  getBookingCapability,
+  getSlotAssignmentStrategy,
+  holdAssignedSlot,
+  leastLoadedStrategy,
+  nearestStrategy,
+  recordSlotAssignment,
+  reuseAssignedHold,
+  roundRobinStrategy,
+  type AssignmentCandidate,
+  type SlotAssignmentStrategy,
+} from '../slot-assignment';
+
+const SLOT_START = '2030-03-05T18:00:00.000Z';
+const NOW = new Date('2030-03-05T14:00:00Z');
+
+function candidate(overrides: Partial<AssignmentCandidate> = {}): AssignmentCandidate {
+  return {
+    partner_id: 'partner-a',
+    partner_name: 'Partner A',
+    slot_id: 'slot-a',
+    max_units: 4,
+    reserved_units: 0,
+    available_units: 4,
+    scorecard: null,
+    location: null,
+    last_assigned_at: null,
+    ...overrides,
+  };
+}
+
+function partner(id: string, overrides: Record<string, any> = {}) {
+  return {
+    id,
+    name: `Partner ${id}`,
+    service_type: 'LAUNDRY',
+    active: true,
+    service_areas: ['10027'],
+    capabilities: null,
+    scorecard_json: null,
+    latitude: null,
+    longitude: null,
+    ...overrides,
+  };
+}
+
+function slot(partnerId: string, maxUnits: number, reservedUnits: number) {
+  return {
+    id: `slot-${partnerId}`,
+    partner_id: partnerId,
+    service_type: 'LAUNDRY',
+    slot_start: SLOT_START,
+    max_units: maxUnits,
+    reserved_units: reservedUnits,
+  };
+}
+
+const ids = (ranked: Array<{ candidate: AssignmentCandidate }>) => ranked.map((r) => r.candidate.partner_id);
+
+describe('Slot assignment', () => {
+  describe('strategies', () => {
+    it('least_loaded should prefer the emptiest window', () => {
+      const ranked = leastLoadedStrategy.rank([
+        candidate({ partner_id: 'busy', max_units: 4, available_units: 1 }),
+        candidate({ partner_id: 'idle', max_units: 4, available_units: 4 }),
+        candidate({ partner_id: 'half', max_units: 8, available_units: 4 }),
+      ], {});
+
+      expect(ids(ranked)).toEqual(['idle', 'half', 'busy']);
+      expect(ranked[0].reason).toBe('4/4 units free');
+    });
+
+    it('round_robin should prefer the partner that waited longest', () => {
+      const ranked = roundRobinStrategy.rank([
+        candidate({ partner_id: 'recent', last_assigned_at: '2030-03-05T10:00:00Z' }),
+        candidate({ partner_id: 'new', last_assigned_at: null }),
+        candidate({ partner_id: 'older', last_assigned_at: '2030-03-01T10:00:00Z' }),
+      ], {});
+
+      expect(ids(ranked)).toEqual(['new', 'older', 'recent']);
+      expect(ranked[0].reason).toBe('no orders yet');
+    });
+
+    it('best_scorecard should rank by low metrics, then rating', () => {
+      const ranked = bestScorecardStrategy.rank([
+        candidate({ partner_id: 'late', scorecard: { rating: 4.9, review_count: 30, low_metrics: ['on_time_rate'] } }),
+        candidate({ partner_id: 'good', scorecard: { rating: 4.6, review_count: 12, low_metrics: [] } }),
+        candidate({ partner_id: 'great', scorecard: { rating: 4.8, review_count: 20, low_metrics: [] } }),
+      ], {});
+
+      expect(ids(ranked)).toEqual(['great', 'good', 'late']);
+      expect(ranked[2].reason).toBe('rating 4.9, low on_time_rate');
+    });
+
+    it('nearest should rank by distance with unlocated partners last', () => {
+      const ranked = nearestStrategy.rank([
+        candidate({ partner_id: 'unknown' }),
+        candidate({ partner_id: 'far', location: { lat: 40.7061, lng: -73.9969 } }),
+        candidate({ partner_id: 'near', location: { lat: 40.8116, lng: -73.9465 } }),
+      ], { location: { lat: 40.8097, lng: -73.9505 } });
+
+      expect(ids(ranked)).toEqual(['near', 'far', 'unknown']);
+      expect(ranked[0].reason).toMatch(/^0\.\d km away$/);
+      expect(ranked[2].reason).toBe('location unknown');
+    });
+
+    it('nearest should fall back to least_loaded without the customer location', () => {
+      const ranked = nearestStrategy.rank([
+        candidate({ partner_id: 'busy', available_units: 1, location: { lat: 40.81, lng: -73.95 } }),
+        candidate({ partner_id: 'idle', available_units: 4 }),
+      ], { location: null });
+
+      expect(ids(ranked)).toEqual(['idle', 'busy']);
+      expect(ranked[0].reason).toBe('address not located; 4/4 units free');
+    });
+
+    it('should pick the configured strategy and default to least_loaded', () => {
+      expect(getSlotAssignmentStrategy('round_robin')).toBe(roundRobinStrategy);
+      expect(getSlotAssignmentStrategy(undefined)).toBe(leastLoadedStrategy);
+      expect(getSlotAssignmentStrategy('bogus')).toBe(leastLoadedStrategy);
+    });
+  });
+
+  describe('getBookingCapability', () => {
+    it('should map the booking\'s service to a partner capability', () => {
+      expect(getBookingCapability('LAUNDRY', 'dryClean')).toBe('dry_clean');
+      expect(getBookingCapability('CLEANING', 'standard', 'moveOut')).toBe('move_in_out');
+      expect(getBookingCapability('CLEANING', 'standard')).toBeUndefined();
+    });
+  });
+
+  describe('getAssignmentCandidates', () => {
+    it('should include only serving partners with room in the window', async () => {
+      const { db } = createFakeDb({
+        partners: [
+          partner('a', { scorecard_json: { rating: 4.7, review_count: 9, low_metrics: [] }, latitude: '40.81', longitude: '-73.95' }),
+          partner('b'),
+          partner('full'),
+          partner('elsewhere', { service_areas: ['10001'] }),
+          partner('no-dry-clean', { capabilities: { wash_fold: true, dry_clean: false } }),
+        ],
+        capacity_calendar: [
+          slot('a', 4, 1),
+          slot('b', 4, 0),
+          slot('full', 4, 4),
+          slot('elsewhere', 4, 0),
+          slot('no-dry-clean', 4, 0),
+        ],
+        orders: [
+          { partner_id: 'a', service_type: 'LAUNDRY', created_at: '2030-03-01T10:00:00Z' },
+          { partner_id: 'a', service_type: 'LAUNDRY', created_at: '2030-03-04T10:00:00Z' },
+        ],
+      });
+
+      const candidates = await getAssignmentCandidates(db, {
+        serviceType: 'LAUNDRY',
+        zip: '10027',
+        slotStart: SLOT_START,
+        capability: 'dry_clean',
+      });
+
+      expect(candidates.map((c) => c.partner_id)).toEqual(['a', 'b']);
+      expect(candidates[0]).toMatchObject({
+        available_units: 3,
+        scorecard: { rating: 4.7, low_metrics: [] },
+        location: { lat: 40.81, lng: -73.95 },
+        last_assigned_at: '2030-03-04T10:00:00Z',
+      });
+      expect(candidates[1]).toMatchObject({ scorecard: null, location: null, last_assigned_at: null });
+    });
+  });
+
+  describe('holdAssignedSlot', () => {
+    it('should hold the top-ranked partner\'s slot and keep the reason', async () => {
+      const { db, tables } = createFakeDb({
+        partners: [partner('a'), partner('b')],
+        capacity_calendar: [slot('a', 4, 3), slot('b', 4, 0)],
+        capacity_holds: [],
+        orders: [],
+      });
+
+      const { hold, assignment } = await holdAssignedSlot(
+        db,
+        { serviceType: 'LAUNDRY', zip: '10027', slotStart: SLOT_START },
+        leastLoadedStrategy,
+        NOW
+      );
+
+      expect(hold.partner_id).toBe('b');
+      expect(assignment).toEqual({
+        partner_id: 'b',
+        strategy: 'least_loaded',
+        reason: '4/4 units free',
+        candidates: [
+          { partner_id: 'b', available_units: 4, reason: '4/4 units free' },
+          { partner_id: 'a', available_units: 1, reason: '1/4 units free' },
+        ],
+      });
+      expect(tables.capacity_holds[0].assignment_json).toEqual(assignment);
+      expect(tables.capacity_calendar.find((s) => s.id === 'slot-b')!.reserved_units).toBe(1);
+    });
+
+    it('should fall through to the next partner when the first fills up', async () => {
+      const { db, tables } = createFakeDb({
+        partners: [partner('a'), partner('b')],
+        capacity_calendar: [slot('a', 4, 0), slot('b', 4, 2)],
+        capacity_holds: [],
+        orders: [],
+      });
+
+      // Another checkout takes partner a's window while this one ranks
+      const racing: SlotAssignmentStrategy = {
+        name: 'least_loaded',
+        rank(candidates, context) {
+          tables.capacity_calendar.find((s) => s.id === 'slot-a')!.reserved_units = 4;
+          return leastLoadedStrategy.rank(candidates, context);
+        },
+      };
+
+      const { hold, assignment } = await holdAssignedSlot(
+        db,
+        { serviceType: 'LAUNDRY', zip: '10027', slotStart: SLOT_START },
+        racing,
+        NOW
+      );
+
+      expect(hold.partner_id).toBe('b');
+      expect(assignment.partner_id).toBe('b');
+      expect(tables.capacity_calendar.map((s) => s.reserved_units)).toEqual([4, 3]);
+    });
+
+    it('should fail with SLOT_FULL when no partner has room', async () => {
+      const { db } = createFakeDb({
+        partners: [partner('a')],
+        capacity_calendar: [slot('a', 4, 4)],
+        capacity_holds: [],
+        orders: [],
+      });
+
+      await expect(
+        holdAssignedSlot(db, { serviceType: 'LAUNDRY', zip: '10027', slotStart: SLOT_START }, leastLoadedStrategy, NOW)
+      ).rejects.toMatchObject({ code: 'SLOT_FULL' });
+    });
+  });
+
+  describe('reuseAssignedHold', () => {
+    const assignment = {
+      partner_id: 'b',
+      strategy: 'least_loaded' as const,
+      reason: '4/4 units free',
+      candidates: [{ partner_id: 'b', available_units: 4, reason: '4/4 units free' }],
+    };
+    const checkout = { serviceType: 'LAUNDRY' as const, slotStart: SLOT_START, userId: 'user-1' };
+
+    function heldSlot(overrides: Record<string, any> = {}) {
+      return createFakeDb({
+        capacity_holds: [{
+          id: 'hold-1',
+          slot_id: 'slot-b',
+          partner_id: 'b',
+          service_type: 'LAUNDRY',
+          slot_start: SLOT_START,
+          units: 1,
+          status: 'held',
+          user_id: 'user-1',
+          assignment_json: assignment,
+          ...overrides,
+        }],
+      });
+    }
+
+    it('should hand back the customer\'s hold with its assignment', async () => {
+      const { db } = heldSlot();
+
+      const { hold, assignment: reused } = await reuseAssignedHold(db, 'hold-1', checkout);
+
+      expect(hold.partner_id).toBe('b');
+      expect(reused).toEqual(assignment);
+    });
+
+    it('should not trust another customer\'s hold or assignment', async () => {
+      const { db } = heldSlot({ user_id: 'user-2' });
+
+      await expect(reuseAssignedHold(db, 'hold-1', checkout)).rejects.toMatchObject({ code: 'HOLD_MISMATCH' });
+    });
+
+    it('should not reuse a hold that is no longer held', async () => {
+      const { db } = heldSlot({ status: 'converted', order_id: 'order-2' });
+
+      await expect(reuseAssignedHold(db, 'hold-1', checkout)).rejects.toMatchObject({ code: 'HOLD_NOT_ACTIVE' });
+    });
+
+    it('should drop an assignment naming another partner', async () => {
+      const { db } = heldSlot({ assignment_json: { ...assignment, partner_id: 'a' } });
+
+      await expect(reuseAssignedHold(db, 'hold-1', checkout)).resolves.toMatchObject({ assignment: null });
+    });
+  });
+
+  describe('recordSlotAssignment', () => {
+    it('should log the decision as a system order event', async () => {
+      const { db, tables } = createFakeDb({ order_events: [] });
+      const assignment = {
+        partner_id: 'b',
+        strategy: 'round_robin' as const,
+        reason: 'no orders yet',
+        candidates: [{ partner_id: 'b', available_units: 4, reason: 'no orders yet' }],
+      };
+
+      await recordSlotAssignment(db, 'order-1', assignment);
+
+      expect(tables.order_events).toEqual([
+        expect.objectContaining({
+          order_id: 'order-1',
+          actor: null,
+          actor_role: 'system',
+          event_type: 'partner_assigned',
+          payload_json: assignment,
+        }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Unit Tests for Stripe Subscription Billing
+ * Replays the Stripe event fixtures in ./fixtures/stripe against an in-memory database
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import type Stripe from 'stripe';
+import { createFakeDb } from './utils/fake-db';
+
+// Mock the database and providers before any imports
+jest.mock('../db');
+jest.mock('../notifications', () => ({ notifyCustomer: jest.fn(async () => ({ channels: {} })) }));
+
+function loadStripeEvent(name: string): Stripe.Event {
+  return JSON.parse(readFileSync(join(__dirname, 'fixtures', 'stripe', `${name}.json`), 'utf8'));
+}
+
+const basePlan = {
+  id: 'plan-1',
+  user_id: 'user-1',
+  service_type: 'CLEANING',
+  frequency: 'BIWEEKLY',
+  discount_pct: 0.15,
+  next_date: '2026-11-02',
+  active: true,
+  visits_completed: 3,
+  first_visit_deep: false,
+  default_addons: {},
+  stripe_subscription_id: 'sub_1QTestPlan',
+  billing_status: 'active',
+};
+
+describe('Stripe Subscription Billing', () => {
+  let billing: typeof import('../subscription-billing');
+  let mockNotifyCustomer: jest.Mock;
+
+  beforeEach(async () => {
+    const notifications = await import('../notifications');
+    mockNotifyCustomer = notifications.notifyCustomer as unknown as jest.Mock;
+    mockNotifyCustomer.mockClear();
+    billing = await import('../subscription-billing');
+  });
+
+  async function replay(db: any, name: string) {
+    const event = loadStripeEvent(name);
+    const object = event.data.object as any;
+    if (event.type.startsWith('customer.subscription.')) {
+      return billing.syncStripeSubscription(db, object, event.type as any, event.created);
+    }
+    return event.type === 'invoice.payment_failed'
+      ? billing.recordRenewalFailure(db, object)
+      : billing.resolveRenewalRetries(db, object);
+  }
+
+  describe('getNextPlanActive', () => {
+    it('should stop booking when billing lapses and resume when it recovers', () => {
+      expect(billing.getNextPlanActive({ active: true, billing_status: 'active' }, 'past_due')).toBe(false);
+      expect(billing.getNextPlanActive({ active: false, billing_status: 'past_due' }, 'active')).toBe(true);
+    });
+
+    it('should keep a customer pause through renewals', () => {
+      expect(billing.getNextPlanActive({ active: false, billing_status: 'active' }, 'active')).toBe(false);
+      expect(billing.getNextPlanActive({ active: false, billing_status: 'trialing' }, 'active')).toBe(false);
+    });
+  });
+
+  describe('customer.subscription.* fixtures', () => {
+    it('should create a plan for a known customer from the price interval', async () => {
+      const { db, tables } = createFakeDb({
+        subscriptions: [],
+        profiles: [{ id: 'user-1', stripe_customer_id: 'cus_TestCustomer' }],
+        // The plan's discount comes from the FREQUENCY_DISCOUNT pricing rule
+        pricing_versions: [{ id: 'version-1', status: 'published', effective_from: '2026-01-01T00:00:00Z' }],
+        pricing_rules: [{
+          version_id: 'version-1',
+          service_type: 'CLEANING',
+          unit_type: 'FREQUENCY_DISCOUNT',
+          unit_key: 'CLN_RECURRING_BIWEEKLY',
+          rate: 0.15,
+          active: true,
+        }],
+      });
+
+      const result = await replay(db, 'customer.subscription.created');
+
+      expect(result).toMatchObject({ action: 'created' });
+      expect(tables.subscriptions[0]).toMatchObject({
+        user_id: 'user-1',
+        frequency: 'BIWEEKLY',
+        discount_pct: 0.15,
+        stripe_subscription_id: 'sub_1QTestPlan',
+        stripe_customer_id: 'cus_TestCustomer',
+        billing_status: 'active',
+        active: true,
+        next_date: null,
+      });
+    });
+
+    it('should ignore subscriptions for unknown customers', async () => {
+      const { db, tables } = createFakeDb({ subscriptions: [], profiles: [] });
+
+      expect(await replay(db, 'customer.subscription.created')).toEqual({
+        action: 'ignored',
+        reason: 'unknown_customer',
+      });
+      expect(tables.subscriptions).toHaveLength(0);
+    });
+
+    it('should deactivate on past_due and reactivate when payment recovers', async () => {
+      const { db, tables } = createFakeDb({ subscriptions: [basePlan] });
+
+      await replay(db, 'customer.subscription.updated.past_due');
+      expect(tables.subscriptions[0]).toMatchObject({ billing_status: 'past_due', active: false });
+      expect(tables.audit_logs[0]).toMatchObject({ action: 'subscription.past_due', entity_id: 'plan-1' });
+
+      await replay(db, 'customer.subscription.updated.active');
+      expect(tables.subscriptions[0]).toMatchObject({ billing_status: 'active', active: true });
+    });
+
+    it('should keep trialing plans booking', async () => {
+      const { db, tables } = createFakeDb({ subscriptions: [{ ...basePlan, billing_status: null }] });
+
+      await replay(db, 'customer.subscription.updated.trialing');
+
+      expect(tables.subscriptions[0]).toMatchObject({ billing_status: 'trialing', active: true });
+    });
+
+    it('should cancel the plan when the subscription is deleted', async () => {
+      const { db, tables } = createFakeDb({ subscriptions: [basePlan] });
+
+      await replay(db, 'customer.subscription.deleted');
+
+      expect(tables.subscriptions[0]).toMatchObject({
+        billing_status: 'canceled',
+        active: false,
+        canceled_at: new Date(1793000000 * 1000).toISOString(),
+      });
+    });
+
+    it('should link a plan through metadata.subscription_id', async () => {
+      const { db, tables } = createFakeDb({
+        subscriptions: [{ ...basePlan, stripe_subscription_id: null, billing_status: null }],
+      });
+      const event = loadStripeEvent('customer.subscription.updated.past_due');
+      const subscription = { ...(event.data.object as any), metadata: { subscription_id: 'plan-1' } };
+
+      await billing.syncStripeSubscription(db, subscription, 'customer.subscription.updated', event.created);
+
+      expect(tables.subscriptions[0]).toMatchObject({
+        stripe_subscription_id: 'sub_1QTestPlan',
+        billing_status: 'past_due',
+        active: false,
+      });
+    });
+  });
+
+  describe('event order', () => {
+    const pastDue = loadStripeEvent('customer.subscription.updated.past_due');
+    const recovered = loadStripeEvent('customer.subscription.updated.active');
+
+    function sync(db: any, event: Stripe.Event, created: number) {
+      return billing.syncStripeSubscription(db, event.data.object as any, event.type as any, created);
+    }
+
+    it('should ignore an event sent before the one already applied', async () => {
+      const { db, tables } = createFakeDb({ subscriptions: [basePlan] });
+
+      await sync(db, recovered, 1792400100);
+      const result = await sync(db, pastDue, 1792400000);
+
+      expect(result).toEqual({ action: 'ignored', plan_id: 'plan-1', reason: 'stale_event' });
+      expect(tables.subscriptions[0]).toMatchObject({
+        billing_status: 'active',
+        active: true,
+        stripe_event_created_at: new Date(1792400100 * 1000).toISOString(),
+      });
+      expect(tables.audit_logs).toBeUndefined();
+    });
+
+    it('should not revive a canceled plan from a delayed update', async () => {
+      const { db, tables } = createFakeDb({ subscriptions: [basePlan] });
+
+      await sync(db, loadStripeEvent('customer.subscription.deleted'), 1793000000);
+      await sync(db, recovered, 1792400000);
+
+      expect(tables.subscriptions[0]).toMatchObject({ billing_status: 'canceled', active: false });
+    });
+
+    it('should order events from the same second by billing period', async () => {
+      const { db, tables } = createFakeDb({ subscriptions: [basePlan] });
+      const renewed = JSON.parse(JSON.stringify(recovered));
+      renewed.data.object.current_period_end = 1794819200;
+
+      await sync(db, renewed, 1792400000);
+      expect(await sync(db, pastDue, 1792400000)).toMatchObject({ action: 'ignored', reason: 'stale_event' });
+
+      expect(tables.subscriptions[0]).toMatchObject({
+        billing_status: 'active',
+        current_period_end: new Date(1794819200 * 1000).toISOString(),
+      });
+    });
+
+    it('should keep the newer event when both are processed together', async () => {
+      const { db, tables } = createFakeDb({ subscriptions: [basePlan] }, { deferred: true });
+
+      const results = await Promise.all([sync(db, recovered, 1792400100), sync(db, pastDue, 1792400000)]);
+
+      expect(results.map((result) => result.action)).toEqual(['updated', 'ignored']);
+      expect(tables.subscriptions[0]).toMatchObject({ billing_status: 'active', active: true });
+    });
+  });
+
+  describe('invoice fixtures', () => {
+    it('should queue a failed renewal in payment_retry_log and ask the customer to pay', async () => {
+      const { db, tables } = createFakeDb({
+        subscriptions: [basePlan],
+        orders: [],
+        payment_retry_log: [],
+      });
+
+      expect(await replay(db, 'invoice.payment_failed')).toEqual({ plan_id: 'plan-1' });
+
+      expect(tables.payment_retry_log[0]).toMatchObject({
+        order_id: null,
+        subscription_id: 'plan-1',
+        stripe_invoice_id: 'in_1TestRenewal',
+        error_message: 'Your card has insufficient funds.',
+        stripe_error_code: 'card_declined',
+        retry_at: new Date(1793782500 * 1000).toISOString(),
+      });
+      expect(mockNotifyCustomer).toHaveBeenCalledWith(
+        expect.objectContaining({
+          event: 'payment_requested',
+          userId: 'user-1',
+          message: expect.stringContaining('https://invoice.stripe.com/i/acct_Test/test_renewal'),
+        })
+      );
+    });
+
+    it('should resolve open renewal retries once the invoice is paid', async () => {
+      const { db, tables } = createFakeDb({
+        subscriptions: [basePlan],
+        payment_retry_log: [
+          { id: 'retry-1', subscription_id: 'plan-1', stripe_invoice_id: 'in_1TestRenewal', resolved_at: null },
+          { id: 'retry-2', subscription_id: 'plan-1', order_id: 'order-9', stripe_invoice_id: null, resolved_at: null },
+        ],
+      });
+
+      await replay(db, 'invoice.paid');
+
+      expect(tables.payment_retry_log[0].resolved_at).not.toBeNull();
+      // Visit charge retries are not closed by a subscription invoice
+      expect(tables.payment_retry_log[1].resolved_at).toBeNull();
+    });
+
+    it('should ignore invoices for subscriptions without a plan', async () => {
+      const { db, tables } = createFakeDb({ subscriptions: [], payment_retry_log: [] });
+
+      expect(await replay(db, 'invoice.payment_failed')).toBeNull();
+      expect(tables.payment_retry_log).toHaveLength(0);
+      expect(mockNotifyCustomer).not.toHaveBeenCalled();
+    });
+  });
+});
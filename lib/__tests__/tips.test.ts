@@ -0,0 +1,201 @@
+/**
+ * Unit Tests for Tips
+ * Tests tip amounts, the tipping window and the off-session charge
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { createFakeDb, type Row } from './utils/fake-db';
+
+jest.mock('../db');
+
+const mockPaymentIntentsCreate = jest.fn(async (params: any, _options?: any) => ({
+  id: 'pi_tip',
+  status: 'succeeded',
+  latest_charge: { id: 'ch_tip', receipt_url: 'https://pay.stripe.com/receipts/tip' },
+  ...params,
+}));
+jest.mock('stripe', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => ({ paymentIntents: { create: mockPaymentIntentsCreate } })),
+}));
+
+import {
+  calculateTipCents,
+  canTipOrder,
+  chargeTip,
+  createTipSchema,
+  getDeliveredAt,
+  getTipPresets,
+  TIP_WINDOW_DAYS,
+  type TippableOrder,
+} from '../tips';
+
+// The partial unique index on order_tips(order_id) that ignores failed tips
+const ONE_LIVE_TIP_PER_ORDER = (row: Row, existing: Row) => existing.order_id === row.order_id && existing.status !== 'failed';
+
+const NOW = new Date('2030-03-31T12:00:00Z');
+
+function order(overrides: Partial<TippableOrder> = {}): TippableOrder {
+  return {
+    id: 'order-1',
+    user_id: 'user-1',
+    partner_id: 'partner-1',
+    status: 'completed',
+    total_cents: 10888,
+    tax_cents: 888,
+    saved_payment_method_id: 'pm_saved',
+    stripe_customer_id: 'cus_1',
+    completed_at: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+describe('Tips', () => {
+  beforeEach(() => {
+    mockPaymentIntentsCreate.mockClear();
+  });
+
+  describe('createTipSchema', () => {
+    it('should accept a preset percent or a custom amount', () => {
+      expect(createTipSchema.parse({ percent: 20 })).toEqual({ percent: 20, source: 'order_page' });
+      expect(createTipSchema.parse({ amount_cents: 500, source: 'rating' })).toEqual({ amount_cents: 500, source: 'rating' });
+    });
+
+    it('should require exactly one of percent and amount', () => {
+      expect(createTipSchema.safeParse({}).success).toBe(false);
+      expect(createTipSchema.safeParse({ percent: 20, amount_cents: 500 }).success).toBe(false);
+      expect(createTipSchema.safeParse({ amount_cents: 50 }).success).toBe(false);
+    });
+  });
+
+  describe('calculateTipCents', () => {
+    it('should apply the percent to the pre-tax price', () => {
+      expect(calculateTipCents(order(), 20)).toBe(2000);
+      expect(getTipPresets(order()).map((preset) => preset.amount_cents)).toEqual([1500, 2000, 2500]);
+    });
+  });
+
+  describe('canTipOrder', () => {
+    it('should allow tips on finished orders with a saved card', () => {
+      const completedAt = new Date(NOW.getTime() - 2 * 24 * 60 * 60 * 1000).toISOString();
+      expect(canTipOrder(order({ completed_at: completedAt }), NOW)).toBe(true);
+      expect(canTipOrder(order({ status: 'delivered', completed_at: completedAt }), NOW)).toBe(true);
+    });
+
+    it('should not allow tips before completion or without a saved card', () => {
+      expect(canTipOrder(order({ status: 'in_service' }), NOW)).toBe(false);
+      expect(canTipOrder(order({ saved_payment_method_id: null }), NOW)).toBe(false);
+      expect(canTipOrder(order({ partner_id: null }), NOW)).toBe(false);
+    });
+
+    it('should close the tipping window after completion', () => {
+      const completedAt = new Date(NOW.getTime() - (TIP_WINDOW_DAYS + 1) * 24 * 60 * 60 * 1000);
+      expect(canTipOrder(order({ completed_at: completedAt.toISOString() }), NOW)).toBe(false);
+    });
+
+    it('should time delivered laundry from the delivery and refuse orders with neither time', () => {
+      const deliveredAt = new Date(NOW.getTime() - 2 * 24 * 60 * 60 * 1000).toISOString();
+      expect(canTipOrder(order({ status: 'delivered', completed_at: null, delivered_at: deliveredAt }), NOW)).toBe(true);
+      expect(canTipOrder(order({ status: 'delivered', completed_at: null }), NOW)).toBe(false);
+    });
+  });
+
+  describe('getDeliveredAt', () => {
+    it('should find the first move to delivered in either event shape', async () => {
+      const { db } = createFakeDb({
+        order_events: [
+          { order_id: 'order-1', event_type: 'status_updated', ts: '2030-03-28T10:00:00Z', payload_json: { new_status: 'out_for_delivery' } },
+          { order_id: 'order-1', event_type: 'status_updated', ts: '2030-03-28T15:00:00Z', payload_json: { new_status: 'delivered' } },
+          { order_id: 'order-1', action: 'deliver', created_at: '2030-03-29T09:00:00Z', new_status: 'delivered' },
+          { order_id: 'order-2', event_type: 'status_updated', ts: '2030-03-20T15:00:00Z', payload_json: { new_status: 'delivered' } },
+        ],
+      });
+
+      expect(await getDeliveredAt(db, 'order-1')).toBe('2030-03-28T15:00:00Z');
+      expect(await getDeliveredAt(db, 'order-3')).toBeNull();
+    });
+  });
+
+  describe('chargeTip', () => {
+    it('should charge the saved card off-session and record the tip', async () => {
+      const { db, tables } = createFakeDb({ order_tips: [], order_events: [] });
+
+      const tip = await chargeTip(db, order(), { percent: 20, source: 'rating' }, 'user-1');
+
+      expect(mockPaymentIntentsCreate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          amount: 2000,
+          customer: 'cus_1',
+          payment_method: 'pm_saved',
+          off_session: true,
+          confirm: true,
+          metadata: expect.objectContaining({ type: 'tip', order_id: 'order-1' }),
+        }),
+        { idempotencyKey: `tip:${tip.id}` }
+      );
+      expect(tip).toMatchObject({
+        status: 'succeeded',
+        amount_cents: 2000,
+        percent: 20,
+        source: 'rating',
+        payment_intent_id: 'pi_tip',
+        receipt_url: 'https://pay.stripe.com/receipts/tip',
+      });
+      expect(tables.order_events).toEqual([
+        expect.objectContaining({ event_type: 'tip_charged', payload_json: expect.objectContaining({ amount_cents: 2000 }) }),
+      ]);
+    });
+
+    it('should reject a second tip on the same order', async () => {
+      const { db } = createFakeDb(
+        { order_tips: [{ id: 'tip-1', order_id: 'order-1', status: 'succeeded', amount_cents: 1500 }] },
+        { unique: { order_tips: ONE_LIVE_TIP_PER_ORDER } }
+      );
+
+      await expect(chargeTip(db, order(), { amount_cents: 500, source: 'order_page' }, 'user-1')).rejects.toMatchObject({
+        statusCode: 409,
+        code: 'TIP_EXISTS',
+      });
+      expect(mockPaymentIntentsCreate).not.toHaveBeenCalled();
+    });
+
+    it('should mark the tip failed when the card is declined', async () => {
+      mockPaymentIntentsCreate.mockRejectedValueOnce(
+        Object.assign(new Error('Your card was declined.'), { type: 'StripeCardError', code: 'card_declined' })
+      );
+      const { db, tables } = createFakeDb({ order_tips: [], order_events: [] });
+
+      await expect(chargeTip(db, order(), { amount_cents: 500, source: 'order_page' }, 'user-1')).rejects.toMatchObject({
+        statusCode: 402,
+        code: 'TIP_PAYMENT_FAILED',
+      });
+      expect(tables.order_tips).toEqual([expect.objectContaining({ status: 'failed' })]);
+      expect(tables.order_events).toEqual([]);
+    });
+
+    it('should keep the tip pending when the charge outcome is unknown and retry it under the same key', async () => {
+      mockPaymentIntentsCreate.mockRejectedValueOnce(
+        Object.assign(new Error('Request timed out'), { type: 'StripeConnectionError' })
+      );
+      const { db, tables } = createFakeDb(
+        { order_tips: [], order_events: [] },
+        { unique: { order_tips: ONE_LIVE_TIP_PER_ORDER } }
+      );
+
+      await expect(chargeTip(db, order(), { amount_cents: 500, source: 'order_page' }, 'user-1')).rejects.toMatchObject({
+        statusCode: 502,
+        code: 'TIP_PAYMENT_PENDING',
+      });
+      expect(tables.order_tips).toEqual([expect.objectContaining({ status: 'pending' })]);
+
+      // The retry charges the pending tip, whatever amount is resubmitted
+      const tip = await chargeTip(db, order(), { amount_cents: 700, source: 'order_page' }, 'user-1');
+
+      expect(tables.order_tips).toHaveLength(1);
+      expect(tip).toMatchObject({ id: tables.order_tips[0].id, status: 'succeeded', amount_cents: 500 });
+      const [firstKey, retryKey] = mockPaymentIntentsCreate.mock.calls.map(([, options]) => options);
+      expect(retryKey).toEqual(firstKey);
+      expect(mockPaymentIntentsCreate).toHaveBeenLastCalledWith(expect.objectContaining({ amount: 500 }), firstKey);
+    });
+  });
+});
@@ -0,0 +1,567 @@
+/**
+ * Unit Tests for Photo Uploads
+ * Tests type sniffing, location metadata stripping, access rules and the
+ * signed-URL upload flow against the in-memory storage stand-in
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+// Mock the database before any imports
+jest.mock('../db');
+
+const ORDER_ID = '11111111-1111-4111-8111-111111111111';
+const BAG_ID = '22222222-2222-4222-8222-222222222222';
+const CHECKLIST_ID = '33333333-3333-4333-8333-333333333333';
+
+function ascii(text: string): number[] {
+  return Array.from(text, (c) => c.charCodeAt(0));
+}
+
+function containsBytes(haystack: Uint8Array, needle: number[]): boolean {
+  for (let i = 0; i + needle.length <= haystack.length; i++) {
+    if (needle.every((value, j) => haystack[i + j] === value)) return true;
+  }
+  return false;
+}
+
+/**
+ * Little-endian EXIF block: IFD0 with orientation + GPS pointer, and a GPS IFD
+ * holding latitude N 40° 48' 29.52"
+ */
+function buildExif(): Uint8Array {
+  const tiff = new Uint8Array(92);
+  const view = new DataView(tiff.buffer);
+  tiff.set(ascii('II'), 0);
+  view.setUint16(2, 42, true);
+  view.setUint32(4, 8, true);
+
+  // IFD0
+  view.setUint16(8, 2, true);
+  view.setUint16(10, 0x0112, true); // Orientation
+  view.setUint16(12, 3, true);
+  view.setUint32(14, 1, true);
+  view.setUint16(18, 6, true);
+  view.setUint16(22, 0x8825, true); // GPS IFD pointer
+  view.setUint16(24, 4, true);
+  view.setUint32(26, 1, true);
+  view.setUint32(30, 38, true);
+
+  // GPS IFD
+  view.setUint16(38, 2, true);
+  view.setUint16(40, 1, true); // GPSLatitudeRef
+  view.setUint16(42, 2, true);
+  view.setUint32(44, 2, true);
+  tiff.set(ascii('N'), 48);
+  view.setUint16(52, 2, true); // GPSLatitude
+  view.setUint16(54, 5, true);
+  view.setUint32(56, 3, true);
+  view.setUint32(60, 68, true);
+  [40, 1, 48, 1, 2952, 100].forEach((value, i) => view.setUint32(68 + i * 4, value, true));
+
+  return new Uint8Array([...ascii('Exif\0\0'), ...tiff]);
+}
+
+function jpegSegment(marker: number, payload: number[] | Uint8Array): number[] {
+  const length = payload.length + 2;
+  return [0xff, marker, length >> 8, length & 0xff, ...Array.from(payload)];
+}
+
+const SCAN_DATA = [0xff, 0xda, 0x00, 0x08, 0x01, 0x01, 0x00, 0x00, 0x3f, 0x00, 0x12, 0x34, 0xff, 0xd9];
+
+function buildJpeg(): Uint8Array {
+  return new Uint8Array([
+    0xff, 0xd8,
+    ...jpegSegment(0xe1, buildExif()),
+    ...jpegSegment(0xe1, ascii('http://ns.adobe.com/xap/1.0/\0<x:xmpmeta>GPSLatitude</x:xmpmeta>')),
+    ...SCAN_DATA,
+  ]);
+}
+
+function pngChunk(type: string, data: number[]): number[] {
+  const length = [0, 0, 0, data.length];
+  return [...length, ...ascii(type), ...data, 0, 0, 0, 0];
+}
+
+function buildPng(): Uint8Array {
+  return new Uint8Array([
+    0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+    ...pngChunk('IHDR', [0, 0, 0, 1, 0, 0, 0, 1, 8, 2, 0, 0, 0]),
+    ...pngChunk('eXIf', Array.from(buildExif().subarray(6))),
+    ...pngChunk('IDAT', [1, 2, 3]),
+    ...pngChunk('IEND', []),
+  ]);
+}
+
+function webpChunk(type: string, data: number[]): number[] {
+  const padded = data.length % 2 ? [...data, 0] : data;
+  return [...ascii(type), data.length, 0, 0, 0, ...padded];
+}
+
+function buildWebp(): Uint8Array {
+  const chunks = [
+    ...webpChunk('VP8X', [0x0c, 0, 0, 0, 0, 0, 0, 0, 0, 0]),
+    ...webpChunk('VP8 ', [1, 2, 3, 4]),
+    ...webpChunk('EXIF', Array.from(buildExif().subarray(6))),
+    ...webpChunk('XMP ', ascii('<x:xmpmeta/>')),
+  ];
+  const size = chunks.length + 4;
+  return new Uint8Array([...ascii('RIFF'), size & 0xff, size >> 8, 0, 0, ...ascii('WEBP'), ...chunks]);
+}
+
+// Table, photo column and order column append_order_photo uses per purpose
+const APPEND_TARGETS: Record<string, [string, string | null, string]> = {
+  bag: ['bags', 'photos_json', 'order_id'],
+  checklist: ['cleaning_checklist', null, 'order_id'],
+  dispute: ['orders', 'dispute_evidence_json', 'id'],
+  claim: ['claims', 'evidence_json', 'order_id'],
+};
+
+/**
+ * Minimal Supabase stand-in for target lookups and pending_uploads, with the
+ * append_order_photo RPC (migration 067) applied to the same rows
+ */
+function createFakeDb(rows: Record<string, any[]>, options: { failAppend?: boolean } = {}) {
+  rows.pending_uploads = rows.pending_uploads || [];
+
+  const db: any = {
+    from: (table: string) => {
+      const filters: Array<(row: any) => boolean> = [];
+      let operation: 'select' | 'delete' = 'select';
+      let max = Infinity;
+      const matching = () => (rows[table] || []).filter((row) => filters.every((filter) => filter(row)));
+      const query: any = {
+        select: () => query,
+        insert: async (values: any) => {
+          (rows[table] = rows[table] || []).push({ created_at: new Date().toISOString(), ...values });
+          return { error: null };
+        },
+        delete: () => ((operation = 'delete'), query),
+        or: () => query,
+        eq: (column: string, value: any) => (filters.push((row) => row[column] === value), query),
+        in: (column: string, values: any[]) => (filters.push((row) => values.includes(row[column])), query),
+        lt: (column: string, value: any) => (filters.push((row) => row[column] < value), query),
+        limit: (count: number) => ((max = count), query),
+        maybeSingle: async () => ({ data: matching()[0] ?? null, error: null }),
+        then: (resolve: any, reject: any) => {
+          const matched = matching();
+          if (operation === 'delete') rows[table] = (rows[table] || []).filter((row) => !matched.includes(row));
+          return Promise.resolve({ data: matched.slice(0, max), error: null }).then(resolve, reject);
+        },
+      };
+      return query;
+    },
+    rpc: async (_name: string, params: any) => {
+      if (options.failAppend) return { data: null, error: { message: 'append failed' } };
+
+      const [table, column, orderColumn] = APPEND_TARGETS[params.p_purpose];
+      const photosColumn = column || `${params.p_stage}_photos_json`;
+      const row = (rows[table] || []).find(
+        (candidate) => candidate.id === params.p_target_id && candidate[orderColumn] === params.p_order_id
+      );
+      if (!row) return { data: { success: false, error: 'TARGET_NOT_FOUND' }, error: null };
+
+      const photos = row[photosColumn] || [];
+      let photo = photos.find((entry: any) =>
+        typeof entry === 'string' ? entry.endsWith(`/${params.p_path}`) : entry?.path === params.p_path
+      );
+      if (!photo) {
+        if (photos.length >= params.p_max_photos) return { data: { success: false, error: 'PHOTO_LIMIT_REACHED' }, error: null };
+        photo = params.p_photo;
+        row[photosColumn] = [...photos, photo];
+      }
+      rows.pending_uploads = rows.pending_uploads.filter((upload) => upload.path !== params.p_path);
+      return { data: { success: true, count: row[photosColumn].length, photo }, error: null };
+    },
+  };
+
+  return { db, rows };
+}
+
+describe('Photo Uploads', () => {
+  let upload: typeof import('../upload');
+
+  beforeEach(async () => {
+    upload = await import('../upload');
+  });
+
+  describe('validateImage', () => {
+    it('should sniff the type from the file contents', () => {
+      expect(upload.validateImage(buildJpeg())).toBe('image/jpeg');
+      expect(upload.validateImage(buildPng())).toBe('image/png');
+      expect(upload.validateImage(buildWebp())).toBe('image/webp');
+    });
+
+    it('should reject non-images, empty files and files over the size limit', () => {
+      expect(() => upload.validateImage(new Uint8Array(ascii('%PDF-1.7')))).toThrow('Only JPEG, PNG and WebP');
+      expect(() => upload.validateImage(new Uint8Array())).toThrow('File is empty');
+
+      const large = new Uint8Array(upload.MAX_UPLOAD_BYTES + 1);
+      large.set([0xff, 0xd8, 0xff]);
+      expect(() => upload.validateImage(large)).toThrow('larger than 5MB');
+    });
+  });
+
+  describe('stripLocationMetadata', () => {
+    const latitude = [40, 0, 0, 0, 1, 0, 0, 0, 48, 0, 0, 0];
+
+    it('should clear JPEG GPS tags and XMP but keep orientation and image data', () => {
+      const original = buildJpeg();
+      expect(containsBytes(original, latitude)).toBe(true);
+
+      const stripped = upload.stripLocationMetadata(original, 'image/jpeg');
+
+      expect(containsBytes(stripped, latitude)).toBe(false);
+      expect(containsBytes(stripped, ascii('GPSLatitude'))).toBe(false);
+      // Orientation entry (tag 0x0112, SHORT, value 6) survives
+      expect(containsBytes(stripped, [0x12, 0x01, 0x03, 0x00, 0x01, 0x00, 0x00, 0x00, 0x06, 0x00])).toBe(true);
+      expect(Array.from(stripped.subarray(stripped.length - SCAN_DATA.length))).toEqual(SCAN_DATA);
+      expect(upload.detectImageType(stripped)).toBe('image/jpeg');
+    });
+
+    it('should drop the PNG eXIf chunk', () => {
+      const stripped = upload.stripLocationMetadata(buildPng(), 'image/png');
+
+      expect(containsBytes(stripped, ascii('eXIf'))).toBe(false);
+      expect(containsBytes(stripped, latitude)).toBe(false);
+      expect(containsBytes(stripped, ascii('IDAT'))).toBe(true);
+      expect(containsBytes(stripped, ascii('IEND'))).toBe(true);
+    });
+
+    it('should drop WebP EXIF and XMP chunks and fix the RIFF header', () => {
+      const stripped = upload.stripLocationMetadata(buildWebp(), 'image/webp');
+      const view = new DataView(stripped.buffer, stripped.byteOffset);
+
+      expect(containsBytes(stripped, ascii('EXIF'))).toBe(false);
+      expect(containsBytes(stripped, ascii('XMP '))).toBe(false);
+      expect(view.getUint32(4, true)).toBe(stripped.length - 8);
+      // VP8X flags no longer announce EXIF or XMP
+      expect(stripped[20] & 0x0c).toBe(0);
+      expect(upload.detectImageType(stripped)).toBe('image/webp');
+    });
+  });
+
+  describe('uploadRequestSchema', () => {
+    const file = { filename: 'proof.jpg', content_type: 'image/jpeg', size_bytes: 2048 };
+
+    it('should default to dispute photos', () => {
+      expect(upload.uploadRequestSchema.parse({ order_id: ORDER_ID, ...file }).purpose).toBe('dispute');
+    });
+
+    it('should require the bag or checklist room being photographed', () => {
+      expect(upload.uploadRequestSchema.safeParse({ order_id: ORDER_ID, purpose: 'bag', ...file }).success).toBe(false);
+      expect(
+        upload.uploadRequestSchema.safeParse({ order_id: ORDER_ID, purpose: 'checklist', checklist_id: CHECKLIST_ID, ...file }).success
+      ).toBe(false);
+      expect(
+        upload.uploadRequestSchema.safeParse({
+          order_id: ORDER_ID,
+          purpose: 'checklist',
+          checklist_id: CHECKLIST_ID,
+          stage: 'after',
+          ...file,
+        }).success
+      ).toBe(true);
+    });
+
+    it('should refuse files that are not images or are too large before issuing a URL', () => {
+      expect(upload.uploadRequestSchema.safeParse({ order_id: ORDER_ID, ...file, content_type: 'application/pdf' }).success).toBe(false);
+      expect(
+        upload.uploadRequestSchema.safeParse({ order_id: ORDER_ID, ...file, size_bytes: upload.MAX_UPLOAD_BYTES + 1 }).success
+      ).toBe(false);
+    });
+  });
+
+  describe('parsePhotoPath', () => {
+    it('should accept paths generated for uploads', () => {
+      const path = upload.generatePhotoPath(ORDER_ID, 'bag', 'IMG 0001.HEIC', 'image/jpeg');
+      expect(path).toMatch(new RegExp(`^${ORDER_ID}/bag/\\d+-[a-z0-9]+-IMG_0001\\.jpg$`));
+      expect(upload.parsePhotoPath(path)).toEqual({ orderId: ORDER_ID, purpose: 'bag' });
+    });
+
+    it('should reject anything else', () => {
+      expect(upload.parsePhotoPath(`${ORDER_ID}/avatar/1-a.jpg`)).toBeNull();
+      expect(upload.parsePhotoPath(`${ORDER_ID}/toString/1-a.jpg`)).toBeNull();
+      expect(upload.parsePhotoPath(`not-an-order/bag/1-a.jpg`)).toBeNull();
+      expect(upload.parsePhotoPath(`${ORDER_ID}/bag/../../1-a.jpg`)).toBeNull();
+    });
+  });
+
+  describe('access', () => {
+    const order = { user_id: 'customer-1', partner_id: 'partner-1' };
+
+    it('should resolve the user role on the order', async () => {
+      const { db } = createFakeDb({ partners: [{ id: 'partner-1' }] });
+      const otherDb = createFakeDb({ partners: [{ id: 'partner-2' }] }).db;
+
+      expect(await upload.getOrderUploadRole(db, { id: 'admin-1', role: 'admin' }, order)).toBe('admin');
+      expect(await upload.getOrderUploadRole(db, { id: 'customer-1', role: 'user' }, order)).toBe('customer');
+      expect(await upload.getOrderUploadRole(db, { id: 'p-user', role: 'partner' }, order)).toBe('partner');
+      expect(await upload.getOrderUploadRole(otherDb, { id: 'p-user', role: 'partner' }, order)).toBeNull();
+      expect(await upload.getOrderUploadRole(db, { id: 'stranger', role: 'user' }, order)).toBeNull();
+    });
+
+    it('should limit purposes by role', () => {
+      expect(upload.canUploadFor('customer', 'dispute')).toBe(true);
+      expect(upload.canUploadFor('customer', 'bag')).toBe(false);
+      expect(upload.canUploadFor('partner', 'checklist')).toBe(true);
+      expect(upload.canUploadFor('partner', 'dispute')).toBe(false);
+      expect(upload.canUploadFor('admin', 'bag')).toBe(true);
+      expect(upload.canUploadFor(null, 'claim')).toBe(false);
+    });
+  });
+
+  describe('requestUpload', () => {
+    it('should issue a signed URL for a new path under the order and purpose', async () => {
+      const storage = new upload.MemoryUploadStorage();
+      const { db, rows } = createFakeDb({ bags: [{ id: BAG_ID, order_id: ORDER_ID, photos_json: [] }] });
+
+      const pending = await upload.requestUpload(db, storage, {
+        target: { purpose: 'bag', orderId: ORDER_ID, bagId: BAG_ID },
+        filename: 'bag.png',
+        contentType: 'image/png',
+      });
+
+      expect(upload.parsePhotoPath(pending.path)).toEqual({ orderId: ORDER_ID, purpose: 'bag' });
+      expect(pending.path).toMatch(/\.png$/);
+      expect(pending.upload_url).toBe(`memory://order-photos/upload/${pending.path}`);
+      expect(storage.files.size).toBe(0);
+      expect(rows.pending_uploads).toEqual([expect.objectContaining({ path: pending.path, order_id: ORDER_ID, purpose: 'bag' })]);
+    });
+
+    it('should refuse full targets and bags from another order', async () => {
+      const storage = new upload.MemoryUploadStorage();
+      const { db } = createFakeDb({
+        orders: [{ id: ORDER_ID, dispute_evidence_json: [1, 2, 3, 4, 5] }],
+        bags: [{ id: BAG_ID, order_id: 'other-order', photos_json: [] }],
+      });
+
+      await expect(
+        upload.requestUpload(db, storage, {
+          target: { purpose: 'dispute', orderId: ORDER_ID },
+          filename: 'proof.jpg',
+          contentType: 'image/jpeg',
+        })
+      ).rejects.toThrow('At most 5 photos');
+      await expect(
+        upload.requestUpload(db, storage, {
+          target: { purpose: 'bag', orderId: ORDER_ID, bagId: BAG_ID },
+          filename: 'bag.jpg',
+          contentType: 'image/jpeg',
+        })
+      ).rejects.toThrow('bag not found for this order');
+    });
+  });
+
+  describe('completeUpload', () => {
+    const now = new Date('2026-10-19T15:00:00Z');
+    const baseUrl = 'https://tidyhood.test';
+
+    /**
+     * Request a URL and write the file the way the client's PUT would
+     */
+    async function uploadDirectly(
+      db: any,
+      storage: InstanceType<typeof upload.MemoryUploadStorage>,
+      target: import('../upload').UploadTarget,
+      bytes: Uint8Array,
+      contentType: import('../upload').ImageContentType = 'image/jpeg'
+    ): Promise<string> {
+      const { path } = await upload.requestUpload(db, storage, { target, filename: 'photo', contentType });
+      await storage.upload(path, bytes, contentType);
+      return path;
+    }
+
+    it('should strip the stored photo and append it to the bag', async () => {
+      const storage = new upload.MemoryUploadStorage();
+      const existing = { path: 'old', url: 'old' };
+      const { db, rows } = createFakeDb({
+        bags: [{ id: BAG_ID, order_id: ORDER_ID, photos_json: [existing] }],
+      });
+      const target = { purpose: 'bag' as const, orderId: ORDER_ID, bagId: BAG_ID };
+      const path = await uploadDirectly(db, storage, target, buildJpeg());
+
+      const photo = await upload.completeUpload(db, storage, { target, path, uploadedBy: 'partner-user', baseUrl, now });
+
+      expect(photo).toMatchObject({
+        path,
+        content_type: 'image/jpeg',
+        uploaded_by: 'partner-user',
+        uploaded_at: now.toISOString(),
+        url: `${baseUrl}/api/upload/${path}`,
+        thumbnail_url: `${baseUrl}/api/upload/${path}?thumbnail=1`,
+      });
+      expect(containsBytes(storage.files.get(path)!.body, ascii('GPSLatitude'))).toBe(false);
+      expect(rows.bags[0].photos_json).toEqual([existing, photo]);
+
+      expect(await storage.createSignedUrl(path, 300, { thumbnail: true })).toContain('width=320');
+    });
+
+    it('should return the recorded photo when a completion is retried, even at the limit', async () => {
+      const storage = new upload.MemoryUploadStorage();
+      const { db, rows } = createFakeDb({ orders: [{ id: ORDER_ID, dispute_evidence_json: [1, 2, 3, 4] }] });
+      const target = { purpose: 'dispute' as const, orderId: ORDER_ID };
+      const path = await uploadDirectly(db, storage, target, buildJpeg());
+
+      const photo = await upload.completeUpload(db, storage, { target, path, uploadedBy: 'customer-1', baseUrl, now });
+      expect(rows.pending_uploads).toEqual([]);
+
+      const retried = await upload.completeUpload(db, storage, {
+        target,
+        path,
+        uploadedBy: 'customer-1',
+        baseUrl,
+        now: new Date(now.getTime() + 1000),
+      });
+
+      expect(retried).toEqual(photo);
+      expect(rows.orders[0].dispute_evidence_json).toEqual([1, 2, 3, 4, photo]);
+      expect(storage.files.has(path)).toBe(true);
+    });
+
+    it('should keep a recorded file when a retry fails', async () => {
+      const storage = new upload.MemoryUploadStorage();
+      const { db, rows } = createFakeDb({ orders: [{ id: ORDER_ID, dispute_evidence_json: [] }] });
+      const target = { purpose: 'dispute' as const, orderId: ORDER_ID };
+      const path = await uploadDirectly(db, storage, target, buildJpeg());
+      await upload.completeUpload(db, storage, { target, path, uploadedBy: 'customer-1', baseUrl });
+
+      const failingStore = Object.assign(Object.create(storage), {
+        upload: () => Promise.reject(new Error('storage unavailable')),
+      });
+
+      await expect(
+        upload.completeUpload(db, failingStore, { target, path, uploadedBy: 'customer-1', baseUrl })
+      ).rejects.toThrow('storage unavailable');
+      expect(storage.files.has(path)).toBe(true);
+      expect(rows.orders[0].dispute_evidence_json).toHaveLength(1);
+    });
+
+    it('should record checklist photos by stage', async () => {
+      const storage = new upload.MemoryUploadStorage();
+      const { db, rows } = createFakeDb({
+        cleaning_checklist: [{ id: CHECKLIST_ID, order_id: ORDER_ID, after_photos_json: [] }],
+      });
+      const target = { purpose: 'checklist' as const, orderId: ORDER_ID, checklistId: CHECKLIST_ID, stage: 'after' as const };
+      const path = await uploadDirectly(db, storage, target, buildPng(), 'image/png');
+
+      const photo = await upload.completeUpload(db, storage, { target, path, uploadedBy: 'partner-user', baseUrl });
+
+      expect(rows.cleaning_checklist[0].after_photos_json).toEqual([photo]);
+    });
+
+    it('should add claim evidence as URLs, or only return it before the claim exists', async () => {
+      const storage = new upload.MemoryUploadStorage();
+      const { db, rows } = createFakeDb({
+        claims: [{ id: 'claim-1', order_id: ORDER_ID, evidence_json: [] }],
+      });
+      const filedTarget = { purpose: 'claim' as const, orderId: ORDER_ID, claimId: 'claim-1' };
+      const draftTarget = { purpose: 'claim' as const, orderId: ORDER_ID };
+
+      const filed = await upload.completeUpload(db, storage, {
+        target: filedTarget,
+        path: await uploadDirectly(db, storage, filedTarget, buildJpeg()),
+        uploadedBy: 'customer-1',
+        baseUrl,
+      });
+      await upload.completeUpload(db, storage, {
+        target: draftTarget,
+        path: await uploadDirectly(db, storage, draftTarget, buildJpeg()),
+        uploadedBy: 'customer-1',
+        baseUrl,
+      });
+
+      expect(rows.claims[0].evidence_json).toEqual([filed.url]);
+      expect(storage.files.size).toBe(2);
+    });
+
+    it('should keep the limit when uploads requested together finish together', async () => {
+      const storage = new upload.MemoryUploadStorage();
+      const { db, rows } = createFakeDb({
+        orders: [{ id: ORDER_ID, dispute_evidence_json: [1, 2, 3, 4] }],
+      });
+      const target = { purpose: 'dispute' as const, orderId: ORDER_ID };
+      const paths = [
+        await uploadDirectly(db, storage, target, buildJpeg()),
+        await uploadDirectly(db, storage, target, buildWebp(), 'image/webp'),
+      ];
+
+      const results = await Promise.allSettled(
+        paths.map((path) => upload.completeUpload(db, storage, { target, path, uploadedBy: 'customer-1', baseUrl }))
+      );
+
+      expect(results.map((result) => result.status)).toEqual(['fulfilled', 'rejected']);
+      expect((results[1] as PromiseRejectedResult).reason).toMatchObject({ code: 'PHOTO_LIMIT_REACHED' });
+      expect(rows.orders[0].dispute_evidence_json).toHaveLength(5);
+      expect([...storage.files.keys()]).toEqual([paths[0]]);
+    });
+
+    it('should delete files that are not the declared image type', async () => {
+      const storage = new upload.MemoryUploadStorage();
+      const { db, rows } = createFakeDb({ orders: [{ id: ORDER_ID, dispute_evidence_json: [] }] });
+      const target = { purpose: 'dispute' as const, orderId: ORDER_ID };
+      const textPath = await uploadDirectly(db, storage, target, new Uint8Array(ascii('not an image')));
+      const pngAsJpegPath = await uploadDirectly(db, storage, target, buildPng());
+
+      await expect(
+        upload.completeUpload(db, storage, { target, path: textPath, uploadedBy: 'customer-1', baseUrl })
+      ).rejects.toMatchObject({ code: 'UNSUPPORTED_FILE_TYPE' });
+      await expect(
+        upload.completeUpload(db, storage, { target, path: pngAsJpegPath, uploadedBy: 'customer-1', baseUrl })
+      ).rejects.toMatchObject({ code: 'UNSUPPORTED_FILE_TYPE' });
+      expect(storage.files.size).toBe(0);
+      expect(rows.orders[0].dispute_evidence_json).toEqual([]);
+    });
+
+    it('should refuse paths issued for another order or purpose', async () => {
+      const storage = new upload.MemoryUploadStorage();
+      const { db } = createFakeDb({ orders: [{ id: ORDER_ID, dispute_evidence_json: [] }] });
+      const path = upload.generatePhotoPath(BAG_ID, 'dispute', 'proof.jpg', 'image/jpeg');
+      await storage.upload(path, buildJpeg(), 'image/jpeg');
+
+      await expect(
+        upload.completeUpload(db, storage, {
+          target: { purpose: 'dispute', orderId: ORDER_ID },
+          path,
+          uploadedBy: 'customer-1',
+          baseUrl,
+        })
+      ).rejects.toMatchObject({ code: 'INVALID_UPLOAD_PATH' });
+      expect(storage.files.has(path)).toBe(true);
+    });
+
+    it('should delete the stored file when the record fails', async () => {
+      const storage = new upload.MemoryUploadStorage();
+      const { db } = createFakeDb({ orders: [{ id: ORDER_ID, dispute_evidence_json: [] }] }, { failAppend: true });
+      const target = { purpose: 'dispute' as const, orderId: ORDER_ID };
+      const path = await uploadDirectly(db, storage, target, buildWebp(), 'image/webp');
+
+      await expect(
+        upload.completeUpload(db, storage, { target, path, uploadedBy: 'customer-1', baseUrl })
+      ).rejects.toEqual({ message: 'append failed' });
+      expect(storage.files.size).toBe(0);
+    });
+  });
+
+  describe('sweepPendingUploads', () => {
+    it('should remove uploads never completed once their URL has expired', async () => {
+      const storage = new upload.MemoryUploadStorage();
+      const now = new Date('2026-10-19T15:00:00Z');
+      const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000).toISOString();
+      const stalePath = `${ORDER_ID}/dispute/stale.jpg`;
+      const freshPath = `${ORDER_ID}/dispute/fresh.jpg`;
+      await storage.upload(stalePath, buildJpeg(), 'image/jpeg');
+      await storage.upload(freshPath, buildJpeg(), 'image/jpeg');
+      const { db, rows } = createFakeDb({
+        pending_uploads: [
+          { path: stalePath, order_id: ORDER_ID, purpose: 'dispute', created_at: hoursAgo(4) },
+          { path: freshPath, order_id: ORDER_ID, purpose: 'dispute', created_at: hoursAgo(1) },
+        ],
+      });
+
+      expect(await upload.sweepPendingUploads(db, storage, now)).toEqual({ removed: 1 });
+
+      expect([...storage.files.keys()]).toEqual([freshPath]);
+      expect(rows.pending_uploads.map((pending) => pending.path)).toEqual([freshPath]);
+    });
+  });
+});
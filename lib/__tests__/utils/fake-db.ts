@@ -0,0 +1,200 @@
+/**
+ * In-memory Supabase stand-in for lib unit tests
+ *
+ * Supports the subset of the query builder the lib modules use. Filters
+ * apply to selects and updates; awaiting a query resolves `{ data, error }`
+ * the same way PostgREST does.
+ */
+
+import { jest } from '@jest/globals';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+export type Row = Record<string, any>;
+export type Tables = Record<string, Row[]>;
+
+export interface FakeDbError {
+  code?: string;
+  message: string;
+}
+
+export interface FakeDbResult<T> {
+  data: T;
+  error: FakeDbError | null;
+}
+
+export interface FakeDbOptions {
+  /** Column defaults merged under seeded and inserted rows, per table */
+  defaults?: Record<string, Row>;
+  /** Rows embedded when a select names `relation(...)`, resolved per parent row */
+  relations?: Record<string, (row: Row, tables: Tables) => Row | null>;
+  /** Unique indexes: inserts fail with 23505 when a new row collides with an existing one */
+  unique?: Record<string, (row: Row, existing: Row) => boolean>;
+  /** Result of db.rpc(name, params); the call itself is a jest mock */
+  rpc?: (name: string, params: any) => unknown;
+  /**
+   * Resolve every query on a later tick and read the tables when it runs, so
+   * concurrent callers interleave their reads and writes like real requests
+   */
+  deferred?: boolean;
+}
+
+export interface FakeDb {
+  db: SupabaseClient & { rpc: jest.Mock<(name: string, params?: any) => Promise<FakeDbResult<unknown>>> };
+  tables: Tables;
+}
+
+type Operation = 'select' | 'insert' | 'update' | 'upsert' | 'delete';
+type Filter = (row: Row) => boolean;
+
+// ============================================================================
+// FILTERS
+// ============================================================================
+
+function matchOperator(column: string, operator: string, raw: string): Filter {
+  const value = raw === 'null' ? null : raw;
+  switch (operator) {
+    case 'is':
+    case 'eq':
+      return (row) => (row[column] ?? null) === value;
+    case 'lt':
+      return (row) => row[column] != null && row[column] < raw;
+    case 'lte':
+      return (row) => row[column] != null && row[column] <= raw;
+    case 'gt':
+      return (row) => row[column] != null && row[column] > raw;
+    case 'gte':
+      return (row) => row[column] != null && row[column] >= raw;
+    default:
+      throw new Error(`Fake db does not support or() operator "${operator}"`);
+  }
+}
+
+// ============================================================================
+// FAKE DB
+// ============================================================================
+
+/**
+ * Build a fake client over copies of the seeded rows
+ *
+ * `tables` is live: tests assert against it after the code under test runs.
+ */
+export function createFakeDb(seed: Tables, options: FakeDbOptions = {}): FakeDb {
+  const { defaults = {}, relations = {}, unique = {}, rpc, deferred = false } = options;
+  const settle = <T,>(fn: () => T): Promise<T> =>
+    deferred ? new Promise((resolve) => setTimeout(() => resolve(fn()), 0)) : Promise.resolve().then(fn);
+  const tables: Tables = {};
+  for (const [table, rows] of Object.entries(seed)) {
+    tables[table] = rows.map((row) => ({ ...defaults[table], ...row }));
+  }
+  let nextId = 1;
+
+  const from = (table: string) => {
+    const filters: Filter[] = [];
+    let operation: Operation = 'select';
+    let payload: Row | Row[] = [];
+    let columns = '*';
+    let conflict: { column: string; ignoreDuplicates: boolean } | null = null;
+    let orderBy: { column: string; ascending: boolean } | null = null;
+    let max = Infinity;
+
+    const withRelations = (row: Row): Row => {
+      const embedded: Row = { ...row };
+      for (const [relation, resolve] of Object.entries(relations)) {
+        if (!columns.includes(`${relation}(`)) continue;
+        const related = resolve(row, tables);
+        embedded[relation] = related ? { ...related } : null;
+      }
+      return embedded;
+    };
+
+    const run = (): FakeDbResult<Row[] | null> => {
+      const rows = (tables[table] = tables[table] || []);
+      if (operation === 'insert' || operation === 'upsert') {
+        const collides = unique[table];
+        if (collides && ([] as Row[]).concat(payload).some((row) => rows.some((existing) => collides(row, existing)))) {
+          return { data: null, error: { code: '23505', message: 'duplicate key value violates unique constraint' } };
+        }
+        const inserted: Row[] = [];
+        for (const row of ([] as Row[]).concat(payload)) {
+          const existing = conflict && rows.find((current) => current[conflict!.column] === row[conflict!.column]);
+          if (existing) {
+            if (!conflict!.ignoreDuplicates) inserted.push(Object.assign(existing, row));
+            continue;
+          }
+          const created = { id: `${table}-${nextId++}`, ...defaults[table], ...row };
+          rows.push(created);
+          inserted.push(created);
+        }
+        return { data: inserted.map(withRelations), error: null };
+      }
+      let matched = rows.filter((row) => filters.every((filter) => filter(row)));
+      if (operation === 'update') matched.forEach((row) => Object.assign(row, payload));
+      if (operation === 'delete') tables[table] = rows.filter((row) => !matched.includes(row));
+      if (orderBy) {
+        const { column, ascending } = orderBy;
+        matched = [...matched].sort((a, b) => (a[column] === b[column] ? 0 : a[column] < b[column] ? -1 : 1) * (ascending ? 1 : -1));
+      }
+      return { data: matched.slice(0, max).map(withRelations), error: null };
+    };
+
+    const where = (filter: Filter) => (filters.push(filter), builder);
+
+    const builder: any = {
+      select: (selected = '*') => (operation === 'select' && (columns = selected), builder),
+      insert: (values: Row | Row[]) => ((operation = 'insert'), (payload = values), builder),
+      upsert: (values: Row | Row[], upsertOptions: { onConflict?: string; ignoreDuplicates?: boolean } = {}) => {
+        operation = 'upsert';
+        payload = values;
+        conflict = { column: upsertOptions.onConflict || 'id', ignoreDuplicates: upsertOptions.ignoreDuplicates === true };
+        return builder;
+      },
+      update: (values: Row) => ((operation = 'update'), (payload = values), builder),
+      delete: () => ((operation = 'delete'), builder),
+      eq: (column: string, value: unknown) => where((row) => row[column] === value),
+      neq: (column: string, value: unknown) => where((row) => row[column] !== value),
+      in: (column: string, values: unknown[]) => where((row) => values.includes(row[column])),
+      gte: (column: string, value: any) => where((row) => row[column] >= value),
+      lt: (column: string, value: any) => where((row) => row[column] < value),
+      lte: (column: string, value: any) => where((row) => row[column] <= value),
+      contains: (column: string, values: unknown[]) => where((row) => values.every((value) => (row[column] || []).includes(value))),
+      is: (column: string, value: unknown) => where((row) => (row[column] ?? null) === value),
+      not: (column: string, _operator: 'is', value: unknown) => where((row) => (row[column] ?? null) !== value),
+      // `column.operator.value` clauses joined by commas, any of which may match
+      or: (clause: string) => {
+        const alternatives = clause.split(',').map((part) => {
+          const [column, operator, ...rest] = part.split('.');
+          return matchOperator(column, operator, rest.join('.'));
+        });
+        return where((row) => alternatives.some((matches) => matches(row)));
+      },
+      order: (column: string, orderOptions: { ascending?: boolean } = {}) => (
+        (orderBy = { column, ascending: orderOptions.ascending !== false }), builder
+      ),
+      limit: (count: number) => ((max = count), builder),
+      maybeSingle: (): Promise<FakeDbResult<Row | null>> =>
+        settle(() => {
+          const { data, error } = run();
+          return { data: data?.[0] ?? null, error };
+        }),
+      // PostgREST errors when .single() matches no row
+      single: (): Promise<FakeDbResult<Row | null>> =>
+        settle(() => {
+          const { data, error } = run();
+          if (error) return { data: null, error };
+          const row = data?.[0];
+          return row
+            ? { data: row, error: null }
+            : { data: null, error: { code: 'PGRST116', message: 'JSON object requested, multiple (or no) rows returned' } };
+        }),
+      then: (resolve: any, reject: any) => settle(run).then(resolve, reject),
+    };
+    return builder;
+  };
+
+  const db = {
+    from,
+    rpc: jest.fn(async (name: string, params?: any) => ({ data: rpc ? rpc(name, params) : null, error: null })),
+  };
+
+  return { db: db as unknown as FakeDb['db'], tables };
+}
@@ -209,9 +209,10 @@ export function forbiddenError(correlationId?: string): NextResponse {
  */
 export function rateLimitError(
   retryAfter?: number,
-  correlationId?: string
+  correlationId?: string,
+  message: string = 'Too many requests'
 ): NextResponse {
-  return apiError('Too many requests', 429, {
+  return apiError(message, 429, {
     correlationId,
     code: ErrorCodes.RATE_LIMIT_EXCEEDED,
     details: retryAfter ? { retryAfter } : undefined,
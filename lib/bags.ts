@@ -0,0 +1,245 @@
+/**
+ * Bags
+ *
+ * Chain of custody for laundry bags, keyed by the label code printed on each
+ * bag at booking (generateLabelCode).
+ *
+ * - The partner scans a bag's label at each step: picked up, at the
+ *   facility, weighed, packed and delivered
+ * - Scans only move a bag forward; a weighed bag can be re-weighed
+ * - Every scan is kept in bag_scan_events and logged to order_events, so
+ *   the customer timeline and lost-bag claims show where each bag was last seen
+ * - Once every bag is weighed, their total is the quoted weight
+ *
+ * @module lib/bags
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from './errors'
+
+// ============================================
+// TYPES
+// ============================================
+
+export type BagScanEvent = 'picked_up' | 'at_facility' | 'weighed' | 'packed' | 'delivered'
+
+export type BagStatus = 'created' | BagScanEvent
+
+export interface Bag {
+  id: string
+  order_id: string
+  label_code: string
+  service_type: string
+  status: BagStatus
+  weight_lbs: number | null
+  weighed_at: string | null
+  last_scanned_at: string | null
+  photos_json?: unknown[]
+  created_at: string
+}
+
+export interface BagScan {
+  id: string
+  bag_id: string
+  order_id: string
+  event: BagScanEvent
+  weight_lbs: number | null
+  partner_id: string | null
+  scanned_by: string | null
+  scanned_at: string
+}
+
+export interface BagWithScans extends Bag {
+  bag_scan_events: BagScan[]
+}
+
+export interface BagScanActor {
+  userId: string
+  role: string
+  /** Scanning partner; null for admins */
+  partnerId: string | null
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/**
+ * Custody steps in the order a bag passes through them
+ */
+export const BAG_SCAN_EVENTS: BagScanEvent[] = ['picked_up', 'at_facility', 'weighed', 'packed', 'delivered']
+
+export const BAG_STATUS_LABELS: Record<BagStatus, string> = {
+  created: 'Label printed',
+  picked_up: 'Picked up',
+  at_facility: 'At facility',
+  weighed: 'Weighed',
+  packed: 'Packed',
+  delivered: 'Delivered',
+}
+
+/**
+ * Heaviest single bag a scan accepts
+ */
+export const MAX_BAG_WEIGHT_LBS = 100
+
+// ============================================
+// VALIDATION
+// ============================================
+
+export const bagScanSchema = z
+  .object({
+    label_code: z.string().trim().min(1).transform((code) => code.toUpperCase()),
+    event: z.enum(['picked_up', 'at_facility', 'weighed', 'packed', 'delivered']),
+    weight_lbs: z.number().positive().max(MAX_BAG_WEIGHT_LBS).optional(),
+  })
+  .refine((input) => input.event !== 'weighed' || input.weight_lbs !== undefined, {
+    message: 'Weight is required when weighing a bag',
+    path: ['weight_lbs'],
+  })
+
+export type BagScanInput = z.infer<typeof bagScanSchema>
+
+// ============================================
+// RULES
+// ============================================
+
+/**
+ * Whether a bag in this status can be scanned for this step
+ * Steps can be skipped but never repeated or reversed, except re-weighing
+ */
+export function canScanBag(status: BagStatus, event: BagScanEvent): boolean {
+  if (status === 'weighed' && event === 'weighed') return true
+
+  const current = status === 'created' ? -1 : BAG_SCAN_EVENTS.indexOf(status)
+  return BAG_SCAN_EVENTS.indexOf(event) > current
+}
+
+/**
+ * Total weight of an order's bags for the quote
+ * Returns null when no bag has been weighed; every bag must be weighed
+ * before the total counts
+ */
+export function getBagWeightTotal(bags: Pick<Bag, 'label_code' | 'weight_lbs'>[]): number | null {
+  const weighed = bags.filter((bag) => bag.weight_lbs !== null && bag.weight_lbs !== undefined)
+  if (weighed.length === 0) return null
+
+  if (weighed.length < bags.length) {
+    const missing = bags.filter((bag) => !weighed.includes(bag)).map((bag) => bag.label_code)
+    throw new ValidationError(`Weigh every bag before quoting (missing ${missing.join(', ')})`, 'BAGS_NOT_WEIGHED')
+  }
+
+  const total = weighed.reduce((sum, bag) => sum + Number(bag.weight_lbs), 0)
+  return Math.round(total * 10) / 10
+}
+
+// ============================================
+// DATABASE OPERATIONS
+// ============================================
+
+/**
+ * An order's bags with their scans, oldest scan first
+ */
+export async function getOrderBags(db: SupabaseClient, orderId: string): Promise<BagWithScans[]> {
+  const { data, error } = await db
+    .from('bags')
+    .select('*, bag_scan_events(*)')
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+
+  return ((data || []) as BagWithScans[]).map((bag) => ({
+    ...bag,
+    bag_scan_events: [...(bag.bag_scan_events || [])].sort((a, b) => a.scanned_at.localeCompare(b.scanned_at)),
+  }))
+}
+
+/**
+ * Record a label scan
+ * The bag update is guarded on its previous status, so two scanners racing
+ * on the same bag can't both advance it.
+ */
+export async function recordBagScan(
+  db: SupabaseClient,
+  input: BagScanInput,
+  actor: BagScanActor,
+  now: Date = new Date()
+): Promise<{ bag: Bag; scan: BagScan }> {
+  const { data: bag, error } = await db
+    .from('bags')
+    .select('*, orders(id, partner_id)')
+    .eq('label_code', input.label_code)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!bag) {
+    throw new NotFoundError(`No bag with label ${input.label_code}`)
+  }
+
+  if (actor.role !== 'admin' && (!actor.partnerId || bag.orders?.partner_id !== actor.partnerId)) {
+    throw new ForbiddenError('This bag belongs to another partner\'s order')
+  }
+
+  if (!canScanBag(bag.status, input.event)) {
+    throw new ConflictError(
+      `Bag ${bag.label_code} is already ${BAG_STATUS_LABELS[bag.status as BagStatus].toLowerCase()}`,
+      'BAG_SCAN_OUT_OF_ORDER'
+    )
+  }
+
+  const scannedAt = now.toISOString()
+  const updates: Record<string, unknown> = {
+    status: input.event,
+    last_scanned_at: scannedAt,
+  }
+  if (input.event === 'weighed') {
+    updates.weight_lbs = input.weight_lbs
+    updates.weighed_at = scannedAt
+  }
+
+  const { data: updated, error: updateError } = await db
+    .from('bags')
+    .update(updates)
+    .eq('id', bag.id)
+    .eq('status', bag.status)
+    .select()
+    .maybeSingle()
+
+  if (updateError) throw updateError
+  if (!updated) {
+    throw new ConflictError(`Bag ${bag.label_code} was just scanned; scan again`, 'BAG_SCAN_CONFLICT')
+  }
+
+  const { data: scan, error: scanError } = await db
+    .from('bag_scan_events')
+    .insert({
+      bag_id: bag.id,
+      order_id: bag.order_id,
+      event: input.event,
+      weight_lbs: input.event === 'weighed' ? input.weight_lbs : null,
+      partner_id: actor.partnerId,
+      scanned_by: actor.userId,
+      scanned_at: scannedAt,
+    })
+    .select()
+    .single()
+
+  if (scanError) throw scanError
+
+  await db.from('order_events').insert({
+    order_id: bag.order_id,
+    actor: actor.userId,
+    actor_role: actor.role,
+    event_type: 'bag_scanned',
+    payload_json: {
+      bag_id: bag.id,
+      label_code: bag.label_code,
+      event: input.event,
+      weight_lbs: input.event === 'weighed' ? input.weight_lbs : undefined,
+    },
+  })
+
+  return { bag: updated as Bag, scan: scan as BagScan }
+}
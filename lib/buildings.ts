@@ -0,0 +1,206 @@
+/**
+ * Buildings Program
+ *
+ * Partner buildings carry a doorman drop-off policy and pricing terms
+ * (a percentage discount and/or per-unit price overrides). Bookings are
+ * matched to a building by normalized street address + ZIP.
+ *
+ * @module lib/buildings
+ */
+
+import { z } from 'zod'
+import { getServiceClient } from './db'
+import type { PricingLineItem } from './pricing'
+
+export type DoormanPolicy = 'NONE' | 'DOORMAN_HOLD' | 'PACKAGE_ROOM' | 'FRONT_DESK_SIGNATURE'
+
+export const DOORMAN_POLICY_LABELS: Record<DoormanPolicy, string> = {
+  NONE: 'No doorman – hand to resident',
+  DOORMAN_HOLD: 'Leave with doorman',
+  PACKAGE_ROOM: 'Leave in package room',
+  FRONT_DESK_SIGNATURE: 'Front desk signs for delivery',
+}
+
+export interface Building {
+  id: string
+  name: string
+  address: string | null
+  address_line1: string
+  zip: string
+  normalized_address: string
+  contact: string | null
+  doorman_policy: DoormanPolicy
+  dropoff_instructions: string | null
+  discount_pct: number
+  pricing_overrides_json: Record<string, number>
+  active: boolean
+  created_at: string
+  updated_at?: string
+}
+
+/**
+ * Subset of a building that pricing needs
+ */
+export interface BuildingTerms {
+  id: string
+  name: string
+  discount_pct: number
+  pricing_overrides: Record<string, number>
+}
+
+const STREET_ABBREVIATIONS: Record<string, string> = {
+  street: 'st',
+  avenue: 'ave',
+  av: 'ave',
+  boulevard: 'blvd',
+  place: 'pl',
+  road: 'rd',
+  drive: 'dr',
+  lane: 'ln',
+  terrace: 'ter',
+  parkway: 'pkwy',
+  square: 'sq',
+  east: 'e',
+  west: 'w',
+  north: 'n',
+  south: 's',
+}
+
+/**
+ * Normalize a street address line for building matching
+ * "171 West 131st Street, Apt 4B" and "171 W 131st St" both become "171 w 131st st".
+ */
+export function normalizeStreetAddress(line1: string): string {
+  return line1
+    .toLowerCase()
+    // Drop unit designators and everything after them
+    .replace(/(\s|,)+(apt|apartment|unit|ste|suite|fl|floor|#)\b.*$/, '')
+    .replace(/#.*$/, '')
+    .replace(/[.,]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => STREET_ABBREVIATIONS[word] || word)
+    .join(' ')
+}
+
+export const buildingSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  address_line1: z.string().trim().min(1).max(200),
+  zip: z.string().regex(/^\d{5}$/),
+  contact: z.string().trim().max(500).optional().nullable(),
+  doorman_policy: z.enum(['NONE', 'DOORMAN_HOLD', 'PACKAGE_ROOM', 'FRONT_DESK_SIGNATURE']).default('NONE'),
+  dropoff_instructions: z.string().trim().max(1000).optional().nullable(),
+  discount_pct: z.number().min(0).max(1).default(0),
+  pricing_overrides_json: z.record(z.string(), z.number().int().min(0)).default({}),
+  mrr_share_pct: z.number().min(0).max(1).optional(),
+  active: z.boolean().default(true),
+})
+
+export type BuildingInput = z.infer<typeof buildingSchema>
+
+/**
+ * Find the active building at an address, if any
+ */
+export async function findBuildingForAddress(address: {
+  line1: string
+  zip: string
+}): Promise<Building | null> {
+  if (!address.line1 || !address.zip) return null
+
+  const db = getServiceClient()
+  const { data, error } = await db
+    .from('buildings')
+    .select('*')
+    .eq('zip', address.zip)
+    .eq('normalized_address', normalizeStreetAddress(address.line1))
+    .eq('active', true)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Building lookup failed:', error)
+    return null
+  }
+
+  return data as Building | null
+}
+
+/**
+ * Load pricing terms for a building; inactive buildings have no terms
+ */
+export async function getBuildingTerms(buildingId: string): Promise<BuildingTerms | null> {
+  const db = getServiceClient()
+  const { data, error } = await db
+    .from('buildings')
+    .select('id, name, discount_pct, pricing_overrides_json, active')
+    .eq('id', buildingId)
+    .maybeSingle()
+
+  if (error || !data || !data.active) return null
+
+  return toBuildingTerms(data)
+}
+
+export function toBuildingTerms(building: Pick<Building, 'id' | 'name' | 'discount_pct' | 'pricing_overrides_json'>): BuildingTerms {
+  return {
+    id: building.id,
+    name: building.name,
+    discount_pct: Number(building.discount_pct) || 0,
+    pricing_overrides: building.pricing_overrides_json || {},
+  }
+}
+
+/**
+ * Replace rule prices with the building's per-unit overrides
+ */
+export function applyBuildingOverrides<T extends { unit_key: string; unit_price_cents?: number | null }>(
+  rules: T[],
+  terms: BuildingTerms | null
+): T[] {
+  if (!terms || Object.keys(terms.pricing_overrides).length === 0) return rules
+
+  return rules.map(rule => {
+    const override = terms.pricing_overrides[rule.unit_key]
+    return override !== undefined && rule.unit_price_cents != null
+      ? { ...rule, unit_price_cents: override }
+      : rule
+  })
+}
+
+/**
+ * Discount line for a building, or null when the building has none
+ */
+export function buildBuildingDiscountItem(
+  subtotalCents: number,
+  terms: BuildingTerms | null,
+  taxable: boolean
+): PricingLineItem | null {
+  if (!terms || terms.discount_pct <= 0 || subtotalCents <= 0) return null
+
+  const discountCents = Math.round(subtotalCents * terms.discount_pct)
+  if (discountCents <= 0) return null
+
+  return {
+    key: 'BUILDING_DISCOUNT',
+    label: `${terms.name} building discount (${Math.round(terms.discount_pct * 100)}% off)`,
+    unit_price_cents: -discountCents,
+    total_cents: -discountCents,
+    taxable,
+  }
+}
+
+/**
+ * Remember that a user lives in a building (idempotent)
+ */
+export async function recordBuildingResident(buildingId: string, userId: string): Promise<void> {
+  const db = getServiceClient()
+  const { error } = await db
+    .from('building_residents')
+    .upsert(
+      { building_id: buildingId, user_id: userId },
+      { onConflict: 'building_id,user_id', ignoreDuplicates: true }
+    )
+
+  if (error) {
+    console.error('Failed to record building resident:', error)
+  }
+}
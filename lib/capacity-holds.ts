@@ -0,0 +1,306 @@
+/**
+ * Capacity Holds
+ *
+ * Time-boxed claims on a slot while the customer checks out.
+ *
+ * - A hold is placed when the customer reaches payment and takes its units
+ *   from the slot right away (atomically, see adjustReservedUnits), so the
+ *   slot can't be sold twice while the card is being saved
+ * - Finalizing the order converts the hold into the order's reservation;
+ *   the units stay reserved and the hold is linked to the order
+ * - Holds that are never converted expire after CAPACITY_HOLD_MINUTES and
+ *   the sweep (expireCapacityHolds) gives their units back
+ *
+ * Every status change is conditional on the status read, so a conversion
+ * and the sweep racing on the same hold can't both win.
+ *
+ * @module lib/capacity-holds
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { adjustReservedUnits, findCapacitySlot } from './capacity'
+import { ConflictError, NotFoundError, ValidationError } from './errors'
+import type { SlotAssignment } from './slot-assignment'
+
+// ============================================
+// TYPES
+// ============================================
+
+export type CapacityHoldStatus = 'held' | 'converted' | 'released' | 'expired'
+
+export interface CapacityHold {
+  id: string
+  slot_id: string
+  partner_id: string
+  service_type: 'LAUNDRY' | 'CLEANING'
+  slot_start: string
+  units: number
+  status: CapacityHoldStatus
+  order_id: string | null
+  user_id: string | null
+  /** Why this partner got the hold, when a strategy picked it */
+  assignment_json: SlotAssignment | null
+  expires_at: string
+  resolved_at: string | null
+  created_at: string
+}
+
+export interface CreateCapacityHoldParams {
+  partnerId: string
+  serviceType: 'LAUNDRY' | 'CLEANING'
+  slotStart: string
+  units?: number
+  /** Customer placing the hold; null for guests */
+  userId?: string | null
+  assignment?: SlotAssignment | null
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/**
+ * How long a slot is held for a checkout
+ */
+export const CAPACITY_HOLD_MINUTES = 15
+
+/**
+ * Units a booking takes (the cancel and reschedule routes release the same)
+ */
+export const BOOKING_CAPACITY_UNITS = 1
+
+// ============================================
+// HOLDS
+// ============================================
+
+/**
+ * Hold a slot for a checkout
+ *
+ * @throws ConflictError (SLOT_FULL) when the slot has no room left
+ */
+export async function createCapacityHold(
+  db: SupabaseClient,
+  params: CreateCapacityHoldParams,
+  now: Date = new Date()
+): Promise<CapacityHold> {
+  const units = params.units ?? BOOKING_CAPACITY_UNITS
+  const slot = await findCapacitySlot(db, params.partnerId, params.serviceType, params.slotStart)
+
+  if (!(await adjustReservedUnits(db, slot.id, units))) {
+    throw new ConflictError('Selected time slot is no longer available', 'SLOT_FULL')
+  }
+
+  const { data: hold, error } = await db
+    .from('capacity_holds')
+    .insert({
+      slot_id: slot.id,
+      partner_id: slot.partner_id,
+      service_type: slot.service_type,
+      slot_start: slot.slot_start,
+      units,
+      status: 'held',
+      user_id: params.userId ?? null,
+      assignment_json: params.assignment ?? null,
+      expires_at: new Date(now.getTime() + CAPACITY_HOLD_MINUTES * 60 * 1000).toISOString(),
+    })
+    .select()
+    .single()
+
+  if (error || !hold) {
+    await adjustReservedUnits(db, slot.id, -units)
+    throw error || new Error('Failed to create capacity hold')
+  }
+
+  return hold as CapacityHold
+}
+
+export async function getCapacityHold(db: SupabaseClient, holdId: string): Promise<CapacityHold | null> {
+  const { data, error } = await db
+    .from('capacity_holds')
+    .select('*')
+    .eq('id', holdId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data as CapacityHold | null
+}
+
+/**
+ * Load the hold a customer brings to checkout
+ *
+ * Only the customer who placed it (or a guest, for a guest hold) can use
+ * it, while it is still held, for the service and window being booked.
+ *
+ * @throws ValidationError (HOLD_MISMATCH) when the hold is someone else's or for another slot
+ * @throws ConflictError (HOLD_NOT_ACTIVE) when it was already used, released or expired
+ */
+export async function getCheckoutHold(
+  db: SupabaseClient,
+  holdId: string,
+  params: { userId?: string | null; serviceType: 'LAUNDRY' | 'CLEANING'; slotStart: string }
+): Promise<CapacityHold> {
+  const hold = await getCapacityHold(db, holdId)
+
+  if (
+    !hold ||
+    hold.user_id !== (params.userId ?? null) ||
+    hold.service_type !== params.serviceType ||
+    new Date(hold.slot_start).getTime() !== new Date(params.slotStart).getTime()
+  ) {
+    throw new ValidationError('Slot hold does not match the selected time slot', 'HOLD_MISMATCH')
+  }
+
+  if (hold.status !== 'held') {
+    throw new ConflictError('Your slot hold is no longer active, please pick the time again', 'HOLD_NOT_ACTIVE')
+  }
+
+  return hold
+}
+
+/**
+ * Move a hold from one status to another, only if it is still in `from`
+ * (and, when `userId` is given, only if that customer placed it)
+ * Returns the updated hold, or null when another writer got there first
+ */
+async function transitionHold(
+  db: SupabaseClient,
+  holdId: string,
+  from: CapacityHoldStatus[],
+  updates: Partial<CapacityHold>,
+  userId?: string | null
+): Promise<CapacityHold | null> {
+  let query = db
+    .from('capacity_holds')
+    .update(updates)
+    .eq('id', holdId)
+    .in('status', from)
+
+  if (userId !== undefined) {
+    query = userId === null ? query.is('user_id', null) : query.eq('user_id', userId)
+  }
+
+  const { data, error } = await query.select()
+
+  if (error) throw error
+  return ((data || [])[0] as CapacityHold | undefined) ?? null
+}
+
+/**
+ * Turn a hold into the order's reservation
+ *
+ * A hold that lapsed before checkout finished is re-reserved if the slot
+ * still has room. Converting the same hold for the same order twice is a no-op.
+ *
+ * @throws NotFoundError for an unknown hold
+ * @throws ConflictError (SLOT_FULL) when a lapsed hold's slot filled up
+ * @throws ConflictError (HOLD_ALREADY_USED) when the hold belongs to another order
+ */
+export async function convertCapacityHold(
+  db: SupabaseClient,
+  holdId: string,
+  orderId: string,
+  now: Date = new Date()
+): Promise<CapacityHold> {
+  const resolved = { status: 'converted' as const, order_id: orderId, resolved_at: now.toISOString() }
+
+  const converted = await transitionHold(db, holdId, ['held'], resolved)
+  if (converted) return converted
+
+  const hold = await getCapacityHold(db, holdId)
+  if (!hold) {
+    throw new NotFoundError('Capacity hold not found')
+  }
+
+  if (hold.status === 'converted') {
+    if (hold.order_id === orderId) return hold
+    throw new ConflictError('This slot hold was already used for another order', 'HOLD_ALREADY_USED')
+  }
+
+  // Expired or released: its units went back to the slot, so take them again
+  if (!(await adjustReservedUnits(db, hold.slot_id, hold.units))) {
+    throw new ConflictError('Selected time slot is no longer available', 'SLOT_FULL')
+  }
+
+  const reconverted = await transitionHold(db, holdId, [hold.status], resolved)
+  if (!reconverted) {
+    await adjustReservedUnits(db, hold.slot_id, -hold.units)
+    throw new ConflictError('This slot hold changed during checkout, please try again', 'HOLD_CONFLICT')
+  }
+
+  return reconverted
+}
+
+/**
+ * Give a hold's units back (failed checkout, or the customer picked another
+ * slot). Only open holds are released unless `from` says otherwise; the
+ * payment saga also releases the hold it converted when rolling back the
+ * order. Returns false if the hold wasn't in one of those statuses.
+ */
+export async function releaseCapacityHold(
+  db: SupabaseClient,
+  holdId: string,
+  from: CapacityHoldStatus[] = ['held'],
+  now: Date = new Date()
+): Promise<boolean> {
+  return releaseHold(db, holdId, from, now)
+}
+
+/**
+ * Release an open hold on behalf of the customer who placed it (they picked
+ * another slot). Holds placed by someone else are left alone.
+ * Returns false if nothing was released.
+ */
+export async function releaseOwnCapacityHold(
+  db: SupabaseClient,
+  holdId: string,
+  userId: string | null,
+  now: Date = new Date()
+): Promise<boolean> {
+  return releaseHold(db, holdId, ['held'], now, userId)
+}
+
+async function releaseHold(
+  db: SupabaseClient,
+  holdId: string,
+  from: CapacityHoldStatus[],
+  now: Date,
+  userId?: string | null
+): Promise<boolean> {
+  const released = await transitionHold(db, holdId, from, {
+    status: 'released',
+    resolved_at: now.toISOString(),
+  }, userId)
+  if (!released) return false
+
+  await adjustReservedUnits(db, released.slot_id, -released.units)
+  return true
+}
+
+/**
+ * Expire holds whose checkout was abandoned and give their units back
+ * Run by the capacity-holds cron; safe to run concurrently with conversions.
+ */
+export async function expireCapacityHolds(
+  db: SupabaseClient,
+  now: Date = new Date()
+): Promise<{ expired: number; units: number }> {
+  const { data: stale, error } = await db
+    .from('capacity_holds')
+    .select('id')
+    .eq('status', 'held')
+    .lt('expires_at', now.toISOString())
+
+  if (error) throw error
+
+  const results = { expired: 0, units: 0 }
+  for (const { id } of (stale || []) as Array<{ id: string }>) {
+    const expired = await transitionHold(db, id, ['held'], { status: 'expired', resolved_at: now.toISOString() })
+    if (!expired) continue
+
+    await adjustReservedUnits(db, expired.slot_id, -expired.units)
+    results.expired++
+    results.units += expired.units
+  }
+
+  return results
+}
@@ -0,0 +1,386 @@
+/**
+ * Template-Driven Slot Generation
+ *
+ * Expands partners' capacity_templates into capacity_calendar slots.
+ *
+ * Rules:
+ * - A partner with active templates for a service gets exactly those windows
+ *   (day_of_week, slot_start/end, max_units)
+ * - A partner without templates gets DEFAULT_SLOT_TEMPLATES (Mon-Sat,
+ *   10am-10pm, 2-hour windows, 10 units)
+ * - Nothing is generated on blackout dates: holidays (no partner) or a
+ *   partner's exception days (capacity_blackouts)
+ * - Windows overlapping a slot the partner already has, and past windows,
+ *   are skipped, so generation is idempotent
+ *
+ * Used by on-demand generation (ensureSlotsExist), the populate-slots cron
+ * and the admin dry-run preview.
+ *
+ * @module lib/capacity-templates
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// ============================================
+// TYPES
+// ============================================
+
+export type CapacityServiceType = 'LAUNDRY' | 'CLEANING'
+
+export interface CapacityTemplate {
+  id: string
+  partner_id: string
+  day_of_week: number
+  /** TIME, e.g. '10:00:00' */
+  slot_start: string
+  slot_end: string
+  max_units: number
+  service_type: CapacityServiceType
+}
+
+export interface CapacityBlackout {
+  id: string
+  /** YYYY-MM-DD */
+  date: string
+  /** NULL = every partner */
+  partner_id: string | null
+  /** NULL = both services */
+  service_type: CapacityServiceType | null
+  reason: string | null
+}
+
+export interface PlannedSlot {
+  partner_id: string
+  service_type: CapacityServiceType
+  slot_start: string
+  slot_end: string
+  max_units: number
+  /** NULL for the default schedule */
+  template_id: string | null
+}
+
+export type SlotSkipReason = 'exists' | 'blackout' | 'partner_exception' | 'past'
+
+export interface SkippedSlot extends PlannedSlot {
+  reason: SlotSkipReason
+}
+
+export interface SlotPlan {
+  create: PlannedSlot[]
+  skipped: SkippedSlot[]
+}
+
+export interface SlotGenerationResult extends SlotPlan {
+  dry_run: boolean
+  created: number
+  skipped_by_reason: Partial<Record<SlotSkipReason, number>>
+}
+
+export interface GenerateSlotsOptions {
+  /** YYYY-MM-DD, inclusive */
+  startDate: string
+  endDate: string
+  /** Limit to these partners (default: every active partner) */
+  partnerIds?: string[]
+  serviceType?: CapacityServiceType
+  /** Plan without inserting anything */
+  dryRun?: boolean
+  now?: Date
+  createdBy?: string
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/**
+ * Schedule for partners without templates: Mon-Sat, six 2-hour windows from
+ * 10am to 10pm
+ */
+export const DEFAULT_SLOT_TEMPLATES: Array<Omit<CapacityTemplate, 'id' | 'partner_id' | 'service_type'>> =
+  [1, 2, 3, 4, 5, 6].flatMap((day) =>
+    [10, 12, 14, 16, 18, 20].map((hour) => ({
+      day_of_week: day,
+      slot_start: `${String(hour).padStart(2, '0')}:00:00`,
+      slot_end: `${String(hour + 2).padStart(2, '0')}:00:00`,
+      max_units: 10,
+    }))
+  )
+
+/**
+ * Longest range one generation run or preview covers
+ */
+export const MAX_GENERATION_DAYS = 90
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+function parseDate(date: string): [number, number, number] {
+  const [year, month, day] = date.split('-').map(Number)
+  return [year, month, day]
+}
+
+/**
+ * Dates from start to end (inclusive) as YYYY-MM-DD
+ */
+export function listDates(startDate: string, endDate: string): string[] {
+  const dates: string[] = []
+  const [year, month, day] = parseDate(startDate)
+  const cursor = new Date(Date.UTC(year, month - 1, day))
+  const [endYear, endMonth, endDay] = parseDate(endDate)
+  const end = new Date(Date.UTC(endYear, endMonth - 1, endDay))
+
+  while (cursor <= end) {
+    dates.push(cursor.toISOString().slice(0, 10))
+    cursor.setUTCDate(cursor.getUTCDate() + 1)
+  }
+  return dates
+}
+
+export function getDayOfWeek(date: string): number {
+  const [year, month, day] = parseDate(date)
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay()
+}
+
+/**
+ * Slot start/end on a date for a template's TIME values (server local
+ * time, like the rest of slot generation)
+ */
+export function getTemplateWindow(
+  template: Pick<CapacityTemplate, 'slot_start' | 'slot_end'>,
+  date: string
+): { start: string; end: string } {
+  const [year, month, day] = parseDate(date)
+  const toDate = (time: string) => {
+    const [hours, minutes, seconds] = time.split(':').map(Number)
+    return new Date(year, month - 1, day, hours, minutes || 0, seconds || 0)
+  }
+  return { start: toDate(template.slot_start).toISOString(), end: toDate(template.slot_end).toISOString() }
+}
+
+/**
+ * The blackout that stops a partner's slots on a date, if any. A holiday
+ * wins over a partner exception.
+ */
+export function findBlackout(
+  blackouts: CapacityBlackout[],
+  partnerId: string,
+  serviceType: CapacityServiceType,
+  date: string
+): CapacityBlackout | null {
+  const matching = blackouts.filter(
+    (blackout) =>
+      blackout.date === date &&
+      (blackout.partner_id === null || blackout.partner_id === partnerId) &&
+      (blackout.service_type === null || blackout.service_type === serviceType)
+  )
+  return matching.find((blackout) => blackout.partner_id === null) || matching[0] || null
+}
+
+/**
+ * Plan the slots for partners over a date range (pure)
+ */
+export function planTemplateSlots(input: {
+  partners: Array<{ id: string; service_type: CapacityServiceType }>
+  templates: CapacityTemplate[]
+  blackouts: CapacityBlackout[]
+  existing: Array<{ partner_id: string; slot_start: string; slot_end: string }>
+  startDate: string
+  endDate: string
+  now: Date
+}): SlotPlan {
+  const plan: SlotPlan = { create: [], skipped: [] }
+  const dates = listDates(input.startDate, input.endDate)
+
+  for (const partner of input.partners) {
+    const partnerTemplates = input.templates.filter(
+      (template) => template.partner_id === partner.id && template.service_type === partner.service_type
+    )
+    const schedule =
+      partnerTemplates.length > 0
+        ? partnerTemplates
+        : DEFAULT_SLOT_TEMPLATES.map((template) => ({ ...template, id: null }))
+    // Compared as times: stored timestamps don't share toISOString's format
+    const existing = input.existing
+      .filter((slot) => slot.partner_id === partner.id)
+      .map((slot) => ({ start: new Date(slot.slot_start).getTime(), end: new Date(slot.slot_end).getTime() }))
+
+    for (const date of dates) {
+      const dayOfWeek = getDayOfWeek(date)
+      const blackout = findBlackout(input.blackouts, partner.id, partner.service_type, date)
+
+      for (const template of schedule.filter((template) => template.day_of_week === dayOfWeek)) {
+        const window = getTemplateWindow(template, date)
+        const start = new Date(window.start).getTime()
+        const end = new Date(window.end).getTime()
+        const slot: PlannedSlot = {
+          partner_id: partner.id,
+          service_type: partner.service_type,
+          slot_start: window.start,
+          slot_end: window.end,
+          max_units: template.max_units,
+          template_id: template.id,
+        }
+
+        if (blackout) {
+          plan.skipped.push({ ...slot, reason: blackout.partner_id ? 'partner_exception' : 'blackout' })
+        } else if (new Date(slot.slot_start) <= input.now) {
+          plan.skipped.push({ ...slot, reason: 'past' })
+        } else if (existing.some((other) => start < other.end && end > other.start)) {
+          plan.skipped.push({ ...slot, reason: 'exists' })
+        } else {
+          plan.create.push(slot)
+        }
+      }
+    }
+  }
+
+  plan.create.sort((a, b) => a.slot_start.localeCompare(b.slot_start))
+  return plan
+}
+
+function countByReason(skipped: SkippedSlot[]): Partial<Record<SlotSkipReason, number>> {
+  const counts: Partial<Record<SlotSkipReason, number>> = {}
+  for (const slot of skipped) {
+    counts[slot.reason] = (counts[slot.reason] || 0) + 1
+  }
+  return counts
+}
+
+// ============================================
+// DATABASE
+// ============================================
+
+/**
+ * Blackouts on dates in a range
+ */
+export async function getBlackouts(
+  db: SupabaseClient,
+  startDate: string,
+  endDate: string
+): Promise<CapacityBlackout[]> {
+  const { data, error } = await db
+    .from('capacity_blackouts')
+    .select('*')
+    .gte('date', startDate)
+    .lte('date', endDate)
+    .order('date', { ascending: true })
+
+  if (error) throw error
+  return (data || []) as CapacityBlackout[]
+}
+
+/**
+ * Expand active partners' templates into capacity_calendar for a date range
+ */
+export async function generateTemplateSlots(
+  db: SupabaseClient,
+  options: GenerateSlotsOptions
+): Promise<SlotGenerationResult> {
+  const now = options.now || new Date()
+
+  let partnersQuery = db
+    .from('partners')
+    .select('id, service_type')
+    .eq('active', true)
+  if (options.partnerIds) partnersQuery = partnersQuery.in('id', options.partnerIds)
+  if (options.serviceType) partnersQuery = partnersQuery.eq('service_type', options.serviceType)
+
+  const { data: partners, error: partnersError } = await partnersQuery
+  if (partnersError) throw partnersError
+
+  const empty: SlotGenerationResult = { dry_run: !!options.dryRun, create: [], skipped: [], created: 0, skipped_by_reason: {} }
+  if (!partners || partners.length === 0) return empty
+
+  const partnerIds = partners.map((partner) => partner.id)
+
+  const { data: templates, error: templatesError } = await db
+    .from('capacity_templates')
+    .select('*')
+    .in('partner_id', partnerIds)
+    .eq('active', true)
+  if (templatesError) throw templatesError
+
+  const blackouts = await getBlackouts(db, options.startDate, options.endDate)
+
+  // Existing slots in the range (same local-day window as getAvailableSlots)
+  const [startYear, startMonth, startDay] = parseDate(options.startDate)
+  const [endYear, endMonth, endDay] = parseDate(options.endDate)
+  const { data: existing, error: existingError } = await db
+    .from('capacity_calendar')
+    .select('partner_id, slot_start, slot_end')
+    .in('partner_id', partnerIds)
+    .gte('slot_start', new Date(startYear, startMonth - 1, startDay, 0, 0, 0, 0).toISOString())
+    .lte('slot_start', new Date(endYear, endMonth - 1, endDay, 23, 59, 59, 999).toISOString())
+  if (existingError) throw existingError
+
+  const plan = planTemplateSlots({
+    partners: partners as Array<{ id: string; service_type: CapacityServiceType }>,
+    templates: (templates || []) as CapacityTemplate[],
+    blackouts,
+    existing: existing || [],
+    startDate: options.startDate,
+    endDate: options.endDate,
+    now,
+  })
+
+  const result: SlotGenerationResult = {
+    ...plan,
+    dry_run: !!options.dryRun,
+    created: 0,
+    skipped_by_reason: countByReason(plan.skipped),
+  }
+
+  if (options.dryRun || plan.create.length === 0) return result
+
+  const { error: insertError } = await db
+    .from('capacity_calendar')
+    .insert(
+      plan.create.map(({ template_id, ...slot }) => ({
+        ...slot,
+        reserved_units: 0,
+        notes: template_id ? `Auto-generated from template ${template_id}` : 'Auto-generated from default schedule',
+        ...(options.createdBy ? { created_by: options.createdBy } : {}),
+      }))
+    )
+
+  if (insertError) {
+    // Another request generated the same slots concurrently
+    if (insertError.code === '23505') return result
+    throw insertError
+  }
+
+  result.created = plan.create.length
+  return result
+}
+
+/**
+ * Remove the unbooked slots a new blackout covers. Booked slots stay so
+ * their orders can be moved by hand; their count is returned.
+ */
+export async function clearBlackoutSlots(
+  db: SupabaseClient,
+  blackout: Pick<CapacityBlackout, 'date' | 'partner_id' | 'service_type'>
+): Promise<{ removed: number; booked: number }> {
+  const [year, month, day] = parseDate(blackout.date)
+
+  let query = db
+    .from('capacity_calendar')
+    .select('id, reserved_units')
+    .gte('slot_start', new Date(year, month - 1, day, 0, 0, 0, 0).toISOString())
+    .lte('slot_start', new Date(year, month - 1, day, 23, 59, 59, 999).toISOString())
+  if (blackout.partner_id) query = query.eq('partner_id', blackout.partner_id)
+  if (blackout.service_type) query = query.eq('service_type', blackout.service_type)
+
+  const { data: slots, error } = await query
+  if (error) throw error
+
+  const emptyIds = (slots || []).filter((slot) => slot.reserved_units === 0).map((slot) => slot.id)
+  if (emptyIds.length > 0) {
+    const { error: deleteError } = await db.from('capacity_calendar').delete().in('id', emptyIds)
+    if (deleteError) throw deleteError
+  }
+
+  return { removed: emptyIds.length, booked: (slots || []).length - emptyIds.length }
+}
@@ -1,6 +1,10 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { getServiceClient } from './db'
 import { getNYTime, isSlotWithin6Hours, formatTimeWindow, isSlotInPast } from './timezone'
 import { isZipAllowed } from './service-area'
+import { ConflictError, NotServedError } from './errors'
+import { generateTemplateSlots } from './capacity-templates'
+import type { PartnerCapabilities } from './types'
 
 export interface TimeSlot {
   partner_id: string
@@ -13,145 +17,130 @@ export interface TimeSlot {
 }
 
 /**
- * Generate time slot windows for a given date (Mon-Sat, 10am-10pm, 2-hour windows)
+ * A partner capability a booking needs, e.g. 'dry_clean' or 'deep_clean'
  */
-function generateTimeSlotWindows(date: string): Array<{ start: string; end: string }> {
-  const slots: Array<{ start: string; end: string }> = []
-  const [year, month, day] = date.split('-').map(Number)
-  
-  // Check if it's Sunday (skip)
-  const dateObj = new Date(year, month - 1, day)
-  if (dateObj.getDay() === 0) {
-    return []
-  }
-  
-  // Generate 6 time slots from 10am to 10pm (2-hour windows)
-  const hours = [10, 12, 14, 16, 18, 20]
-  
-  for (const hour of hours) {
-    const startDate = new Date(year, month - 1, day, hour, 0, 0)
-    const endDate = new Date(year, month - 1, day, hour + 2, 0, 0)
-    
-    slots.push({
-      start: startDate.toISOString(),
-      end: endDate.toISOString()
-    })
-  }
-  
-  return slots
+export type SlotCapability = keyof PartnerCapabilities
+
+export interface ServingPartner {
+  id: string
+  name: string
+  service_areas: string[] | null
+  capabilities: PartnerCapabilities | null
+}
+
+/**
+ * Capabilities assumed for partners without a capabilities record
+ * (same defaults as /api/services/available)
+ */
+export const DEFAULT_PARTNER_CAPABILITIES: Record<'LAUNDRY' | 'CLEANING', SlotCapability[]> = {
+  LAUNDRY: ['wash_fold', 'dry_clean', 'mixed'],
+  CLEANING: ['standard', 'deep_clean', 'move_in_out'],
+}
+
+const CAPABILITY_LABELS: Record<SlotCapability, string> = {
+  wash_fold: 'wash & fold',
+  dry_clean: 'dry cleaning',
+  mixed: 'mixed laundry',
+  standard: 'standard cleaning',
+  deep_clean: 'deep cleaning',
+  move_in_out: 'move-in/move-out cleaning',
+  post_construction: 'post-construction cleaning',
+  commercial: 'commercial cleaning',
+}
+
+/**
+ * Whether a partner offers a capability (NULL capabilities = the defaults)
+ */
+export function partnerHasCapability(
+  partner: Pick<ServingPartner, 'capabilities'>,
+  serviceType: 'LAUNDRY' | 'CLEANING',
+  capability?: SlotCapability
+): boolean {
+  if (!capability) return true
+  if (!partner.capabilities) return DEFAULT_PARTNER_CAPABILITIES[serviceType].includes(capability)
+  return partner.capabilities[capability] === true
+}
+
+/**
+ * Active partners of a service type that cover a ZIP and offer the
+ * required capability
+ */
+export async function getServingPartners(
+  db: SupabaseClient,
+  serviceType: 'LAUNDRY' | 'CLEANING',
+  zip: string,
+  capability?: SlotCapability
+): Promise<ServingPartner[]> {
+  const { data: partners, error } = await db
+    .from('partners')
+    .select('id, name, service_areas, capabilities')
+    .eq('service_type', serviceType)
+    .eq('active', true)
+    .contains('service_areas', [zip])
+
+  if (error) throw error
+
+  return ((partners || []) as ServingPartner[]).filter(partner =>
+    partnerHasCapability(partner, serviceType, capability)
+  )
+}
+
+/**
+ * Error for a ZIP/capability no partner serves
+ */
+function notServedError(serviceType: 'LAUNDRY' | 'CLEANING', zip: string, capability?: SlotCapability): NotServedError {
+  const service = capability ? CAPABILITY_LABELS[capability] : serviceType === 'LAUNDRY' ? 'laundry' : 'cleaning'
+  return new NotServedError(`We don't offer ${service} in ${zip} yet`)
 }
 
 /**
  * Ensure delivery slots exist for a given date (on-demand generation)
- * Creates them if missing - idempotent and safe to call multiple times
+ * Expands the templates of partners serving the ZIP (honoring blackouts) for
+ * any windows they don't have yet - idempotent and safe to call multiple times
  */
 export async function ensureSlotsExist(
   serviceType: 'LAUNDRY' | 'CLEANING',
   zip: string,
-  date: string
+  date: string,
+  capability?: SlotCapability
 ): Promise<void> {
   const db = getServiceClient()
   
-  // Parse date to check day of week
-  const [year, month, day] = date.split('-').map(Number)
-  const dateObj = new Date(year, month - 1, day)
-  
-  // Skip Sundays - no delivery on Sundays
-  if (dateObj.getDay() === 0) {
-    return
-  }
-  
-  // Check if slots already exist for this date
-  const startOfDay = new Date(year, month - 1, day, 0, 0, 0, 0)
-  const endOfDay = new Date(year, month - 1, day, 23, 59, 59, 999)
-  
-  const { data: existingSlots, error: checkError } = await db
-    .from('capacity_calendar')
-    .select('id')
-    .eq('service_type', serviceType)
-    .gte('slot_start', startOfDay.toISOString())
-    .lte('slot_start', endOfDay.toISOString())
-    .limit(1)
-  
-  if (checkError) {
-    console.error('[ensureSlotsExist] Error checking existing slots:', checkError)
-    throw checkError
-  }
-  
-  // If slots exist, no need to create more
-  if (existingSlots && existingSlots.length > 0) {
-    console.log(`[ensureSlotsExist] Slots already exist for ${serviceType} on ${date}`)
-    return
-  }
-  
   // Get active partners serving this ZIP code
-  const { data: partners, error: partnersError } = await db
-    .from('partners')
-    .select('id, name')
-    .eq('service_type', serviceType)
-    .eq('active', true)
-  
-  if (partnersError) {
-    console.error('[ensureSlotsExist] Error fetching partners:', partnersError)
-    throw partnersError
-  }
+  const partners = await getServingPartners(db, serviceType, zip, capability)
   
-  if (!partners || partners.length === 0) {
+  if (partners.length === 0) {
     console.log(`[ensureSlotsExist] No active partners found for ${serviceType} in ZIP ${zip}`)
     return
   }
   
-  // Generate time slots for the date
-  const timeSlots = generateTimeSlotWindows(date)
-  
-  if (timeSlots.length === 0) {
-    console.log(`[ensureSlotsExist] No time slots to generate for ${date}`)
-    return
-  }
-  
-  // Create slots for each partner and each time window
-  const slotsToInsert = []
-  
-  for (const partner of partners) {
-    for (const slot of timeSlots) {
-      slotsToInsert.push({
-        partner_id: partner.id,
-        service_type: serviceType,
-        slot_start: slot.start,
-        slot_end: slot.end,
-        max_units: 10, // Default capacity per 2-hour window
-        reserved_units: 0
-      })
-    }
-  }
-  
-  // Batch insert all slots (ignore conflicts if slots were created concurrently)
-  const { error: insertError } = await db
-    .from('capacity_calendar')
-    .insert(slotsToInsert)
-    .select()
+  const result = await generateTemplateSlots(db, {
+    startDate: date,
+    endDate: date,
+    partnerIds: partners.map(p => p.id),
+    serviceType,
+  })
   
-  if (insertError) {
-    // Ignore duplicate key errors (23505) - slots may have been created by concurrent request
-    if (insertError.code === '23505') {
-      console.log(`[ensureSlotsExist] Slots already created by concurrent request for ${date}`)
-      return
-    }
-    console.error('[ensureSlotsExist] Error inserting slots:', insertError)
-    throw insertError
+  if (result.created > 0) {
+    console.log(`[ensureSlotsExist] Created ${result.created} slots for ${serviceType} on ${date}`)
   }
-  
-  console.log(`[ensureSlotsExist] Created ${slotsToInsert.length} slots for ${serviceType} on ${date}`)
 }
 
 
 /**
  * Get available time slots for a service type, zip, and date
+ *
+ * Only partners covering the ZIP (and offering the capability, if given)
+ * count. Windows several partners cover are merged into one slot that books
+ * the partner with the most room left.
+ *
+ * @throws NotServedError when no partner serves the ZIP/capability
  */
 export async function getAvailableSlots(
   serviceType: 'LAUNDRY' | 'CLEANING',
   zip: string,
-  date: string
+  date: string,
+  capability?: SlotCapability
 ): Promise<TimeSlot[]> {
   const db = getServiceClient()
   
@@ -165,15 +154,10 @@ export async function getAvailableSlots(
   const endOfDay = new Date(year, month - 1, day, 23, 59, 59, 999)
   
   // Get partners serving this zip
-  const { data: partners, error: partnersError } = await db
-    .from('partners')
-    .select('id, name')
-    .eq('service_type', serviceType)
-    .eq('active', true)
+  const partners = await getServingPartners(db, serviceType, zip, capability)
   
-  if (partnersError) throw partnersError
-  if (!partners || partners.length === 0) {
-    return []
+  if (partners.length === 0) {
+    throw notServedError(serviceType, zip, capability)
   }
   
   const partnerIds = partners.map(p => p.id)
@@ -202,72 +186,154 @@ export async function getAvailableSlots(
     return !isFull && !isInPast && !isTooSoon
   })
   
-  // Consolidate slots by time window (hide partner info)
-  const consolidatedMap = new Map<string, TimeSlot>()
-  
-  for (const slot of availableSlots) {
+  return mergeSlotsByWindow(availableSlots)
+}
+
+/**
+ * Consolidate partner slots by time window (hides partner info). The merged
+ * slot books the partner with the most available units in that window.
+ */
+export function mergeSlotsByWindow(
+  slots: Array<{
+    partner_id: string
+    slot_start: string
+    slot_end: string
+    max_units: number
+    reserved_units: number
+    service_type: string
+  }>
+): TimeSlot[] {
+  const consolidatedMap = new Map<string, TimeSlot & { partner_units: number }>()
+  
+  for (const slot of slots) {
     const timeKey = `${slot.slot_start}-${slot.slot_end}`
+    const availableUnits = slot.max_units - slot.reserved_units
+    const existing = consolidatedMap.get(timeKey)
     
-    if (consolidatedMap.has(timeKey)) {
+    if (existing) {
       // Add capacity to existing time slot
-      const existing = consolidatedMap.get(timeKey)!
-      existing.available_units += (slot.max_units - slot.reserved_units)
+      existing.available_units += availableUnits
       existing.max_units += slot.max_units
+      if (availableUnits > existing.partner_units) {
+        existing.partner_id = slot.partner_id
+        existing.partner_units = availableUnits
+      }
     } else {
       // Create new consolidated slot
       consolidatedMap.set(timeKey, {
-        partner_id: slot.partner_id, // Keep first partner_id for booking
+        partner_id: slot.partner_id,
         partner_name: 'Available', // Hide partner name
         slot_start: slot.slot_start,
         slot_end: slot.slot_end,
-        available_units: slot.max_units - slot.reserved_units,
+        available_units: availableUnits,
         max_units: slot.max_units,
         service_type: slot.service_type as 'LAUNDRY' | 'CLEANING',
+        partner_units: availableUnits,
       })
     }
   }
   
   return Array.from(consolidatedMap.values())
+    .sort((a, b) => a.slot_start.localeCompare(b.slot_start))
+    .map(({ partner_units, ...slot }) => slot)
 }
 
 /**
- * Reserve capacity for an order
+ * Most times a reservation re-reads the slot after losing a race for it
  */
-export async function reserveCapacity(
+const MAX_RESERVE_ATTEMPTS = 10
+
+export interface CapacitySlot {
+  id: string
+  partner_id: string
+  service_type: 'LAUNDRY' | 'CLEANING'
+  slot_start: string
+  max_units: number
+  reserved_units: number
+}
+
+/**
+ * Look up a partner's slot by its start time
+ */
+export async function findCapacitySlot(
+  db: SupabaseClient,
   partnerId: string,
   serviceType: 'LAUNDRY' | 'CLEANING',
-  slotStart: string,
-  units: number
-): Promise<boolean> {
-  const db = getServiceClient()
-  
-  // Get current capacity
-  const { data: slot, error: fetchError } = await db
+  slotStart: string
+): Promise<CapacitySlot> {
+  const { data: slot, error } = await db
     .from('capacity_calendar')
-    .select('*')
+    .select('id, partner_id, service_type, slot_start, max_units, reserved_units')
     .eq('partner_id', partnerId)
     .eq('service_type', serviceType)
     .eq('slot_start', slotStart)
     .single()
-  
-  if (fetchError || !slot) {
+
+  if (error || !slot) {
     throw new Error('Slot not found')
   }
-  
-  // Check if capacity is available
-  if (slot.reserved_units + units > slot.max_units) {
-    return false
+
+  return slot as CapacitySlot
+}
+
+/**
+ * Atomically add units to a slot's reservations (negative units release)
+ *
+ * The write is conditional on the reserved_units it read, so two checkouts
+ * can't both take the last unit: the loser re-reads and tries again. Releases
+ * never go below 0.
+ *
+ * @returns false when the units don't fit in the slot
+ * @throws ConflictError (SLOT_BUSY) if the slot keeps changing underneath us
+ */
+export async function adjustReservedUnits(
+  db: SupabaseClient,
+  slotId: string,
+  units: number
+): Promise<boolean> {
+  for (let attempt = 0; attempt < MAX_RESERVE_ATTEMPTS; attempt++) {
+    const { data: slot, error } = await db
+      .from('capacity_calendar')
+      .select('id, max_units, reserved_units')
+      .eq('id', slotId)
+      .single()
+
+    if (error || !slot) {
+      throw new Error('Slot not found')
+    }
+
+    const reserved = Math.max(0, slot.reserved_units + units)
+    if (units > 0 && reserved > slot.max_units) {
+      return false
+    }
+
+    const { data: updated, error: updateError } = await db
+      .from('capacity_calendar')
+      .update({ reserved_units: reserved })
+      .eq('id', slotId)
+      .eq('reserved_units', slot.reserved_units)
+      .select('id')
+
+    if (updateError) throw updateError
+    if ((updated || []).length === 1) return true
   }
-  
-  // Reserve capacity
-  const { error: updateError } = await db
-    .from('capacity_calendar')
-    .update({ reserved_units: slot.reserved_units + units })
-    .eq('id', slot.id)
-  
-  if (updateError) throw updateError
-  
-  return true
+
+  throw new ConflictError('This time slot is busy right now, please try again', 'SLOT_BUSY')
+}
+
+/**
+ * Reserve capacity for an order
+ */
+export async function reserveCapacity(
+  partnerId: string,
+  serviceType: 'LAUNDRY' | 'CLEANING',
+  slotStart: string,
+  units: number
+): Promise<boolean> {
+  const db = getServiceClient()
+  const slot = await findCapacitySlot(db, partnerId, serviceType, slotStart)
+
+  return adjustReservedUnits(db, slot.id, units)
 }
 
 /**
@@ -280,28 +346,9 @@ export async function releaseCapacity(
   units: number
 ): Promise<void> {
   const db = getServiceClient()
-  
-  const { data: slot, error: fetchError } = await db
-    .from('capacity_calendar')
-    .select('*')
-    .eq('partner_id', partnerId)
-    .eq('service_type', serviceType)
-    .eq('slot_start', slotStart)
-    .single()
-  
-  if (fetchError || !slot) {
-    throw new Error('Slot not found')
-  }
-  
-  // Release capacity (ensure we don't go below 0)
-  const newReserved = Math.max(0, slot.reserved_units - units)
-  
-  const { error: updateError } = await db
-    .from('capacity_calendar')
-    .update({ reserved_units: newReserved })
-    .eq('id', slot.id)
-  
-  if (updateError) throw updateError
+  const slot = await findCapacitySlot(db, partnerId, serviceType, slotStart)
+
+  await adjustReservedUnits(db, slot.id, -units)
 }
 
 /**
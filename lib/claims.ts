@@ -0,0 +1,249 @@
+/**
+ * Claims Workflow
+ *
+ * Lost, damaged and rework claims filed by customers against an order.
+ *
+ * Lifecycle:
+ * - PENDING: Filed by the customer, waiting in the admin queue
+ * - APPROVED: Admin accepted the claim and set the amount to pay out
+ * - DENIED: Admin rejected the claim (terminal)
+ * - RESOLVED: Settled — refund issued or rework completed (terminal)
+ *
+ * @module lib/claims
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { ConflictError, ValidationError } from './errors'
+import { issueRefund } from './refunds'
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ClaimType = 'LOST' | 'DAMAGED' | 'REWORK' | 'OTHER'
+
+export type ClaimStatus = 'PENDING' | 'APPROVED' | 'DENIED' | 'RESOLVED'
+
+export type ClaimDecision = 'approve' | 'deny' | 'resolve'
+
+export interface Claim {
+  id: string
+  order_id: string
+  bag_id: string | null
+  user_id: string | null
+  type: ClaimType
+  description: string | null
+  requested_cents: number | null
+  resolution: string | null
+  resolved_cents: number
+  evidence_json: string[]
+  status: ClaimStatus
+  reviewed_by: string | null
+  reviewed_at: string | null
+  refund_id: string | null
+  created_at: string
+  resolved_at: string | null
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const CLAIM_TYPE_LABELS: Record<ClaimType, string> = {
+  LOST: 'Lost item',
+  DAMAGED: 'Damaged item',
+  REWORK: 'Needs rework',
+  OTHER: 'Other issue',
+}
+
+export const CLAIM_STATUS_LABELS: Record<ClaimStatus, string> = {
+  PENDING: 'Under Review',
+  APPROVED: 'Approved',
+  DENIED: 'Denied',
+  RESOLVED: 'Resolved',
+}
+
+/**
+ * Order statuses a claim can be filed from (items must have been returned)
+ */
+export const CLAIMABLE_ORDER_STATUSES = ['delivered', 'completed', 'refunded']
+
+/**
+ * How long after delivery a customer can still file a claim
+ */
+export const CLAIM_WINDOW_DAYS = 14
+
+const CLAIM_TRANSITIONS: Record<ClaimDecision, { from: ClaimStatus[]; to: ClaimStatus }> = {
+  approve: { from: ['PENDING'], to: 'APPROVED' },
+  deny: { from: ['PENDING', 'APPROVED'], to: 'DENIED' },
+  resolve: { from: ['PENDING', 'APPROVED'], to: 'RESOLVED' },
+}
+
+// ============================================
+// VALIDATION SCHEMAS
+// ============================================
+
+export const createClaimSchema = z.object({
+  type: z.enum(['LOST', 'DAMAGED', 'REWORK', 'OTHER']),
+  description: z.string().trim().min(10, 'Please describe the problem (at least 10 characters)').max(2000),
+  requested_cents: z.number().int().min(0).max(100000).optional(),
+  bag_id: z.string().uuid().optional(),
+  evidence: z.array(z.string().url()).max(10).default([]),
+})
+
+export const claimDecisionSchema = z.object({
+  decision: z.enum(['approve', 'deny', 'resolve']),
+  resolved_cents: z.number().int().min(0).optional(),
+  resolution: z.string().trim().min(1, 'A note explaining the decision is required').max(2000),
+})
+
+export type CreateClaimInput = z.infer<typeof createClaimSchema>
+export type ClaimDecisionInput = z.infer<typeof claimDecisionSchema>
+
+export interface ClaimDecisionResult {
+  claim: Claim
+  fromStatus: ClaimStatus
+  toStatus: ClaimStatus
+  payoutCents: number
+  refundId: string | null
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Resolve the status a decision moves a claim to
+ * Returns null when the decision isn't allowed from the current status
+ */
+export function getNextClaimStatus(current: ClaimStatus, decision: ClaimDecision): ClaimStatus | null {
+  const rule = CLAIM_TRANSITIONS[decision]
+  return rule.from.includes(current) ? rule.to : null
+}
+
+/**
+ * Check whether a claim can still be acted on by an admin
+ */
+export function isClaimOpen(status: ClaimStatus): boolean {
+  return status === 'PENDING' || status === 'APPROVED'
+}
+
+/**
+ * Check whether a customer can file a claim against an order
+ */
+export function canFileClaim(
+  order: { status: string; updated_at?: string | null; completed_at?: string | null },
+  now: Date = new Date()
+): boolean {
+  if (!CLAIMABLE_ORDER_STATUSES.includes(order.status)) return false
+
+  const returnedAt = order.completed_at || order.updated_at
+  if (!returnedAt) return true
+
+  const ageMs = now.getTime() - new Date(returnedAt).getTime()
+  return ageMs <= CLAIM_WINDOW_DAYS * 24 * 60 * 60 * 1000
+}
+
+// ============================================
+// DECISIONS
+// ============================================
+
+/**
+ * Apply an admin decision to a claim loaded with its order (`orders`)
+ *
+ * The status moves with a compare-and-swap on the status the claim was read
+ * in, so of two admins deciding at once only one wins. A resolve pays out
+ * only after winning that swap; if the refund is refused, the claim goes
+ * back to where it was.
+ *
+ * @throws ValidationError if the decision isn't allowed or the refund is refused
+ * @throws ConflictError if the claim was decided by someone else first
+ */
+export async function decideClaim(
+  db: SupabaseClient,
+  claim: Claim & { orders: any },
+  input: ClaimDecisionInput,
+  adminId: string,
+  now: Date = new Date()
+): Promise<ClaimDecisionResult> {
+  const { decision, resolved_cents, resolution } = input
+  const fromStatus = claim.status
+  const toStatus = getNextClaimStatus(fromStatus, decision)
+
+  if (!toStatus) {
+    throw new ValidationError(`Cannot ${decision} a claim that is ${fromStatus.toLowerCase()}`, 'INVALID_CLAIM_DECISION')
+  }
+
+  const decidedAt = now.toISOString()
+  const updates: Partial<Claim> = {
+    status: toStatus,
+    resolution,
+    reviewed_by: adminId,
+    reviewed_at: decidedAt,
+  }
+
+  let payoutCents = 0
+  if (decision === 'approve') {
+    payoutCents = resolved_cents ?? claim.requested_cents ?? 0
+    updates.resolved_cents = payoutCents
+  } else if (decision === 'resolve') {
+    payoutCents = resolved_cents ?? claim.resolved_cents ?? 0
+    updates.resolved_cents = payoutCents
+    updates.resolved_at = decidedAt
+  } else {
+    updates.resolved_cents = 0
+    updates.resolved_at = decidedAt
+  }
+
+  const { data: updatedClaim } = await db
+    .from('claims')
+    .update(updates)
+    .eq('id', claim.id)
+    .eq('status', fromStatus) // Guard against concurrent decisions
+    .select()
+    .maybeSingle()
+
+  if (!updatedClaim) {
+    throw new ConflictError('Claim was updated by someone else. Refresh and try again.', 'CLAIM_CONFLICT')
+  }
+
+  if (decision !== 'resolve' || payoutCents <= 0) {
+    return { claim: updatedClaim, fromStatus, toStatus, payoutCents, refundId: null }
+  }
+
+  let refundId: string | null
+  try {
+    const { refund } = await issueRefund(db, {
+      order: claim.orders,
+      amountCents: payoutCents,
+      reason: `Claim ${claim.type.toLowerCase()}: ${resolution}`,
+      approvedBy: adminId,
+    })
+    refundId = refund?.id || null
+  } catch (error) {
+    // Reopen the claim so the payout can be corrected and resolved again
+    await db
+      .from('claims')
+      .update({
+        status: fromStatus,
+        resolution: claim.resolution,
+        reviewed_by: claim.reviewed_by,
+        reviewed_at: claim.reviewed_at,
+        resolved_cents: claim.resolved_cents,
+        resolved_at: claim.resolved_at,
+      })
+      .eq('id', claim.id)
+      .eq('status', toStatus)
+    throw error
+  }
+
+  const { data: settledClaim } = await db
+    .from('claims')
+    .update({ refund_id: refundId })
+    .eq('id', claim.id)
+    .select()
+    .maybeSingle()
+
+  return { claim: settledClaim || { ...updatedClaim, refund_id: refundId }, fromStatus, toStatus, payoutCents, refundId }
+}
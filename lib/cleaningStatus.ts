@@ -184,6 +184,41 @@ export function getCleaningStatusDisplay(status: CleaningStatus) {
   return CLEANING_STATUS_CONFIG[status]
 }
 
+/**
+ * Default checklist tasks for a room
+ */
+function getDefaultRoomTasks(room: string): string[] {
+  const tasks: Record<string, string[]> = {
+    'Kitchen': ['Wipe counters', 'Clean sink', 'Clean stovetop', 'Sweep/mop floor', 'Take out trash'],
+    'Bathroom': ['Clean toilet', 'Clean sink', 'Clean shower/tub', 'Wipe mirrors', 'Sweep/mop floor'],
+    'Living Room': ['Dust surfaces', 'Vacuum/sweep floor', 'Wipe down furniture', 'Empty trash'],
+  }
+
+  if (room.startsWith('Bedroom')) {
+    return ['Change linens', 'Dust surfaces', 'Vacuum/sweep floor', 'Wipe down furniture', 'Empty trash']
+  }
+
+  return tasks[room] || ['Clean and organize']
+}
+
+/**
+ * Build cleaning_checklist rows for a new cleaning order
+ */
+export function buildCleaningChecklist(orderId: string, bedrooms?: number) {
+  const rooms = ['Kitchen', 'Bathroom', 'Living Room']
+  if (bedrooms && bedrooms > 0) {
+    for (let i = 1; i <= bedrooms; i++) {
+      rooms.push(`Bedroom ${i}`)
+    }
+  }
+
+  return rooms.map(room => ({
+    order_id: orderId,
+    room,
+    tasks_json: getDefaultRoomTasks(room),
+  }))
+}
+
 // ============================================
 // STATE TRANSITIONS
 // ============================================
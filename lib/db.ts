@@ -102,6 +102,7 @@ export type Database = {
           service_type: 'LAUNDRY' | 'CLEANING'
           partner_id: string | null
           building_id: string | null
+          pricing_version_id: string | null
           slot_start: string
           slot_end: string
           status: string
@@ -155,12 +156,16 @@ export type Database = {
       pricing_rules: {
         Row: {
           id: string
+          version_id: string
           service_type: 'LAUNDRY' | 'CLEANING'
           geozone: string | null
-          unit_type: 'PER_LB' | 'FLAT' | 'ADDON' | 'MULTIPLIER' | 'DELIVERY'
+          unit_type: 'PER_LB' | 'PER_ITEM' | 'FLAT' | 'ADDON' | 'MULTIPLIER' | 'DELIVERY' | 'PERCENT_SURCHARGE' | 'FREQUENCY_DISCOUNT' | 'MIN_QTY' | 'TAX'
           unit_key: string
-          unit_price_cents: number
-          multiplier: number
+          unit_price_cents: number | null
+          multiplier: number | null
+          rate: number | null
+          min_quantity: number | null
+          label: string | null
           priority: number
           active: boolean
           created_at: string
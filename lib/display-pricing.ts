@@ -1,33 +1,18 @@
-import { getServiceClient } from './db'
+import { getPricingRules } from './pricing'
+import { findPricingRule, getFrequencyDiscounts, getLaundryRates, type DryCleanGarment } from './pricing-rules'
 
 /**
  * Fetch laundry pricing for marketing/display purposes
  * Returns current active pricing from database
  */
 export async function getLaundryDisplayPricing() {
-  const db = getServiceClient()
-  
   try {
-    // Fetch per-pound rate
-    const { data: perLbRule } = await db
-      .from('pricing_rules')
-      .select('unit_price_cents')
-      .eq('unit_key', 'LND_WF_PERLB')
-      .eq('service_type', 'LAUNDRY')
-      .eq('active', true)
-      .single()
+    // Same rules quoteLaundry charges from (the version in effect now)
+    const { rules } = await getPricingRules('LAUNDRY', null)
+    const rates = getLaundryRates(rules)
     
-    // Fetch minimum weight in lbs
-    const { data: minWeightRule } = await db
-      .from('pricing_rules')
-      .select('unit_price_cents')
-      .eq('unit_key', 'LND_WF_MIN_LBS')
-      .eq('service_type', 'LAUNDRY')
-      .eq('active', true)
-      .single()
-    
-    const perLbCents = perLbRule?.unit_price_cents || 175 // Default to $1.75 (matches seed LND_WF_PERLB)
-    const minWeightLbs = (minWeightRule?.unit_price_cents || 1500) / 100 // Weight stored as cents for consistency (15 lbs = 1500)
+    const perLbCents = rates.per_lb_cents
+    const minWeightLbs = rates.min_lbs
     const minOrderCents = Math.ceil(minWeightLbs * perLbCents) // Calculate minimum order price from weight
     
     return {
@@ -36,6 +21,8 @@ export async function getLaundryDisplayPricing() {
       minWeightLbs: minWeightLbs,
       minOrderPrice: minOrderCents / 100,
       minOrderPriceFormatted: `$${(minOrderCents / 100).toFixed(2)}`,
+      rushRate: rates.rush_rate,
+      dryCleanGarments: rates.garments,
     }
   } catch (error) {
     console.error('Error fetching laundry pricing:', error)
@@ -46,6 +33,8 @@ export async function getLaundryDisplayPricing() {
       minWeightLbs: 15,
       minOrderPrice: 26.25,
       minOrderPriceFormatted: '$26.25',
+      rushRate: null as number | null,
+      dryCleanGarments: [] as DryCleanGarment[],
     }
   }
 }
@@ -55,39 +44,14 @@ export async function getLaundryDisplayPricing() {
  * Returns current active pricing from database
  */
 export async function getCleaningDisplayPricing() {
-  const db = getServiceClient()
-  
   try {
-    // Fetch studio pricing
-    const { data: studioRule } = await db
-      .from('pricing_rules')
-      .select('unit_price_cents')
-      .eq('unit_key', 'CLN_STD_STUDIO')
-      .eq('service_type', 'CLEANING')
-      .eq('active', true)
-      .single()
-    
-    // Fetch 1BR pricing
-    const { data: oneBrRule } = await db
-      .from('pricing_rules')
-      .select('unit_price_cents')
-      .eq('unit_key', 'CLN_STD_1BR')
-      .eq('service_type', 'CLEANING')
-      .eq('active', true)
-      .single()
-    
-    // Fetch 2BR pricing
-    const { data: twoBrRule } = await db
-      .from('pricing_rules')
-      .select('unit_price_cents')
-      .eq('unit_key', 'CLN_STD_2BR')
-      .eq('service_type', 'CLEANING')
-      .eq('active', true)
-      .single()
+    const { rules } = await getPricingRules('CLEANING', null)
+    const flatRate = (unitKey: string) => findPricingRule(rules, 'FLAT', unitKey)?.unit_price_cents
     
-    const studioCents = studioRule?.unit_price_cents || 8900 // Default to $89
-    const oneBrCents = oneBrRule?.unit_price_cents || 11900 // Default to $119
-    const twoBrCents = twoBrRule?.unit_price_cents || 14900 // Default to $149
+    const studioCents = flatRate('CLN_STD_STUDIO') || 8900 // Default to $89
+    const oneBrCents = flatRate('CLN_STD_1BR') || 11900 // Default to $119
+    const twoBrCents = flatRate('CLN_STD_2BR') || 14900 // Default to $149
+    const recurringDiscounts = getFrequencyDiscounts(rules)
     
     return {
       studioPrice: studioCents / 100,
@@ -98,6 +62,7 @@ export async function getCleaningDisplayPricing() {
       twoBrPriceFormatted: `$${(twoBrCents / 100).toFixed(0)}`,
       startingFromPrice: Math.min(studioCents, oneBrCents, twoBrCents) / 100,
       startingFromPriceFormatted: `$${(Math.min(studioCents, oneBrCents, twoBrCents) / 100).toFixed(0)}`,
+      recurringDiscounts,
     }
   } catch (error) {
     console.error('Error fetching cleaning pricing:', error)
@@ -111,6 +76,7 @@ export async function getCleaningDisplayPricing() {
       twoBrPriceFormatted: '$149',
       startingFromPrice: 89,
       startingFromPriceFormatted: '$89',
+      recurringDiscounts: null,
     }
   }
 }
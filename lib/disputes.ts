@@ -0,0 +1,899 @@
+/**
+ * Dispute Cases
+ *
+ * The admin dispute workbench: one case per customer dispute, whether it was
+ * opened in the app or as a chargeback through the customer's bank.
+ *
+ * Sources:
+ * - in_app: the open_dispute transition enqueues order.dispute_opened, and
+ *   the outbox's dispute_case delivery opens the case (lib/outbox)
+ * - chargeback: the Stripe payment webhook opens the case on
+ *   charge.dispute.created and keeps its Stripe status current
+ *
+ * Lifecycle:
+ * - open: waiting on an admin, due DISPUTE_SLA_HOURS after opening (sooner
+ *   when Stripe's evidence deadline is earlier)
+ * - resolved: in-app outcome applied — a partial or full refund
+ *   (resolve_dispute_refund, refunded by the outbox) or rejected
+ *   (resolve_dispute_complete)
+ * - evidence_submitted: chargeback contested with the evidence packet
+ * - closed: chargeback accepted, or decided by the bank
+ *
+ * @module lib/disputes
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type Stripe from 'stripe'
+import { z } from 'zod'
+import { ConflictError, NotFoundError, ValidationError } from './errors'
+import { getPaidAmountCents, getRefundableCents } from './refunds'
+import { getOrderTip } from './tips'
+import { getPolicySummary } from './cancellationFees'
+import { getUploadStorage } from './upload'
+import { buildOrderInvoiceData, generateInvoicePDF } from './pdf'
+import { executeWithCircuitBreaker } from './stripe-circuit-breaker'
+import { formatOrderId, shortOrderId } from './ids'
+
+// ============================================
+// TYPES
+// ============================================
+
+export type DisputeSource = 'in_app' | 'chargeback'
+
+export type DisputeStatus = 'open' | 'resolved' | 'evidence_submitted' | 'closed'
+
+export type DisputeOutcome = 'partial_refund' | 'full_refund' | 'rejected'
+
+export type DisputeSlaState = 'on_track' | 'due_soon' | 'overdue' | 'met' | 'missed'
+
+export interface DisputeCase {
+  id: string
+  order_id: string
+  user_id: string | null
+  partner_id: string | null
+  source: DisputeSource
+  status: DisputeStatus
+  reason: string | null
+  amount_cents: number | null
+  partner_response: string | null
+  partner_responded_at: string | null
+  stripe_dispute_id: string | null
+  stripe_charge_id: string | null
+  stripe_status: string | null
+  evidence_due_by: string | null
+  evidence_json: DisputeEvidencePacket | null
+  evidence_submitted_at: string | null
+  opened_at: string
+  sla_due_at: string
+  sla_breached_at: string | null
+  outcome: DisputeOutcome | null
+  refund_cents: number | null
+  resolution_note: string | null
+  resolved_by: string | null
+  resolved_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface EvidencePhoto {
+  label: string
+  url: string
+  uploaded_at: string | null
+}
+
+export interface EvidenceTimelineEntry {
+  at: string
+  event: string
+  actor_role: string | null
+}
+
+/**
+ * What the workbench shows before submitting and what is sent to Stripe
+ */
+export interface DisputeEvidencePacket {
+  order_number: string
+  service_type: string
+  service_date: string | null
+  customer_name: string
+  customer_email: string
+  customer_statement: string | null
+  partner_response: string | null
+  timeline: EvidenceTimelineEntry[]
+  photos: EvidencePhoto[]
+  policy: {
+    version: number | null
+    summary: string
+  }
+  receipt: {
+    total_cents: number
+    tip_cents: number
+    paid_at: string | null
+  }
+  assembled_at: string
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+/**
+ * Resolution time promised to customers in the dispute form
+ */
+export const DISPUTE_SLA_HOURS = 24
+
+/**
+ * Open cases due within this many hours are flagged in the queue
+ */
+export const DISPUTE_SLA_WARNING_HOURS = 4
+
+/**
+ * Outcomes offered per source. A charge under dispute can't be refunded in
+ * part: accepting a chargeback gives the customer the full disputed amount.
+ */
+export const DISPUTE_OUTCOMES: Record<DisputeSource, DisputeOutcome[]> = {
+  in_app: ['partial_refund', 'full_refund', 'rejected'],
+  chargeback: ['full_refund', 'rejected'],
+}
+
+export const DISPUTE_SOURCE_LABELS: Record<DisputeSource, string> = {
+  in_app: 'In-app',
+  chargeback: 'Chargeback',
+}
+
+export const DISPUTE_OUTCOME_LABELS: Record<DisputeSource, Record<DisputeOutcome, string>> = {
+  in_app: {
+    partial_refund: 'Partial refund',
+    full_refund: 'Full refund',
+    rejected: 'Reject',
+  },
+  chargeback: {
+    partial_refund: 'Partial refund',
+    full_refund: 'Accept chargeback',
+    rejected: 'Contest with evidence',
+  },
+}
+
+/**
+ * Evidence photo links stay valid while Stripe and the bank review the case
+ */
+export const EVIDENCE_PHOTO_URL_TTL_SECONDS = 7 * 24 * 60 * 60
+
+/**
+ * Stripe's limit for a single evidence text field
+ */
+const EVIDENCE_TEXT_LIMIT = 20000
+
+/**
+ * Order columns that may hold the PaymentIntent a chargeback was raised on
+ */
+const PAYMENT_INTENT_COLUMNS = ['payment_intent_id', 'payment_id', 'auth_payment_intent_id']
+
+/**
+ * Stripe dispute statuses after which the bank has decided
+ */
+const DECIDED_STRIPE_STATUSES = ['won', 'lost', 'warning_closed', 'charge_refunded']
+
+// ============================================
+// VALIDATION SCHEMAS
+// ============================================
+
+export const resolveDisputeSchema = z
+  .object({
+    outcome: z.enum(['partial_refund', 'full_refund', 'rejected']),
+    refund_cents: z.number().int().min(1).optional(),
+    resolution_note: z.string().trim().min(1, 'A note explaining the decision is required').max(2000),
+  })
+  .refine((input) => input.outcome !== 'partial_refund' || input.refund_cents !== undefined, {
+    message: 'Enter the amount to refund',
+    path: ['refund_cents'],
+  })
+
+export const partnerResponseSchema = z.object({
+  response: z.string().trim().min(10, 'Please describe what happened (at least 10 characters)').max(2000),
+})
+
+export type ResolveDisputeInput = z.infer<typeof resolveDisputeSchema>
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * A case is due DISPUTE_SLA_HOURS after opening, or by Stripe's evidence
+ * deadline if that comes first
+ */
+export function getSlaDueAt(openedAt: Date, evidenceDueBy?: Date | null): Date {
+  const dueAt = new Date(openedAt.getTime() + DISPUTE_SLA_HOURS * 60 * 60 * 1000)
+  return evidenceDueBy && evidenceDueBy < dueAt ? evidenceDueBy : dueAt
+}
+
+/**
+ * Where a case stands against its SLA. Open cases count down to the due time;
+ * handled cases are judged by when the admin acted.
+ */
+export function getSlaState(
+  disputeCase: Pick<DisputeCase, 'status' | 'sla_due_at' | 'resolved_at' | 'evidence_submitted_at'>,
+  now: Date = new Date()
+): DisputeSlaState {
+  const dueAt = new Date(disputeCase.sla_due_at).getTime()
+
+  if (disputeCase.status === 'open') {
+    if (now.getTime() > dueAt) return 'overdue'
+    return dueAt - now.getTime() <= DISPUTE_SLA_WARNING_HOURS * 60 * 60 * 1000 ? 'due_soon' : 'on_track'
+  }
+
+  const handledAt = disputeCase.evidence_submitted_at || disputeCase.resolved_at
+  if (!handledAt) return 'met'
+  return new Date(handledAt).getTime() <= dueAt ? 'met' : 'missed'
+}
+
+/**
+ * Outcomes an admin can still choose for a case, with their labels
+ */
+export function getAvailableOutcomes(
+  disputeCase: Pick<DisputeCase, 'status' | 'source'>
+): Array<{ value: DisputeOutcome; label: string }> {
+  if (disputeCase.status !== 'open') return []
+  return DISPUTE_OUTCOMES[disputeCase.source].map((value) => ({
+    value,
+    label: DISPUTE_OUTCOME_LABELS[disputeCase.source][value],
+  }))
+}
+
+/**
+ * Check whether an outcome can be applied to a case
+ */
+export function canResolveWith(disputeCase: Pick<DisputeCase, 'status' | 'source'>, outcome: DisputeOutcome): boolean {
+  return disputeCase.status === 'open' && DISPUTE_OUTCOMES[disputeCase.source].includes(outcome)
+}
+
+/**
+ * Amount an outcome refunds
+ *
+ * @throws ValidationError if a partial refund isn't less than the refundable balance
+ */
+export function getDisputeRefundCents(
+  outcome: DisputeOutcome,
+  refundableCents: number,
+  requestedCents?: number
+): number {
+  if (outcome === 'rejected') return 0
+  if (outcome === 'full_refund') return refundableCents
+
+  if (!requestedCents || requestedCents <= 0) {
+    throw new ValidationError('Enter the amount to refund', 'INVALID_REFUND_AMOUNT')
+  }
+  if (requestedCents >= refundableCents) {
+    throw new ValidationError(
+      `A partial refund must be less than the $${(refundableCents / 100).toFixed(2)} refundable`,
+      'REFUND_EXCEEDS_PAID'
+    )
+  }
+  return requestedCents
+}
+
+function formatEvidenceDate(value: string): string {
+  return new Date(value).toISOString().replace('T', ' ').slice(0, 16) + ' UTC'
+}
+
+/**
+ * Render the packet as the free-text part of the chargeback response
+ */
+export function buildEvidenceText(packet: DisputeEvidencePacket): string {
+  const sections = [
+    `Order ${packet.order_number} (${packet.service_type.toLowerCase()} service${packet.service_date ? ` on ${packet.service_date}` : ''}).`,
+    packet.customer_statement ? `Customer's complaint to us: ${packet.customer_statement}` : null,
+    packet.partner_response ? `Service provider's account: ${packet.partner_response}` : null,
+    `Order timeline:\n${packet.timeline.map((entry) => `- ${formatEvidenceDate(entry.at)} ${entry.event}${entry.actor_role ? ` (${entry.actor_role})` : ''}`).join('\n')}`,
+    packet.photos.length > 0
+      ? `Photos:\n${packet.photos.map((photo) => `- ${photo.label}${photo.uploaded_at ? `, ${formatEvidenceDate(photo.uploaded_at)}` : ''}: ${photo.url}`).join('\n')}`
+      : null,
+  ]
+
+  const text = sections.filter(Boolean).join('\n\n')
+  return text.length > EVIDENCE_TEXT_LIMIT ? `${text.slice(0, EVIDENCE_TEXT_LIMIT - 3)}...` : text
+}
+
+/**
+ * Map the packet onto Stripe's dispute evidence fields
+ */
+export function toStripeEvidence(
+  packet: DisputeEvidencePacket,
+  receiptFileId?: string | null
+): Stripe.DisputeUpdateParams.Evidence {
+  return {
+    customer_name: packet.customer_name,
+    customer_email_address: packet.customer_email || undefined,
+    product_description: `Tidyhood ${packet.service_type === 'LAUNDRY' ? 'laundry' : 'home cleaning'} service, order ${packet.order_number}`,
+    service_date: packet.service_date || undefined,
+    refund_policy_disclosure: `Cancellation and refund policy${packet.policy.version ? ` v${packet.policy.version}` : ''}, accepted at booking: ${packet.policy.summary}`,
+    receipt: receiptFileId || undefined,
+    uncategorized_text: buildEvidenceText(packet),
+  }
+}
+
+// ============================================
+// DATABASE OPERATIONS
+// ============================================
+
+async function getRefundableForOrder(db: SupabaseClient, order: any): Promise<number> {
+  const { data: priorRefunds } = await db
+    .from('refunds')
+    .select('amount_cents, status')
+    .eq('order_id', order.id)
+
+  return getRefundableCents(getPaidAmountCents(order), priorRefunds || [])
+}
+
+/**
+ * Open the case for an in-app dispute. Safe to retry: returns the order's
+ * open case if one exists.
+ */
+export async function openInAppDisputeCase(
+  db: SupabaseClient,
+  order: any,
+  now: Date = new Date()
+): Promise<DisputeCase> {
+  const findOpenCase = async () => {
+    const { data, error } = await db
+      .from('dispute_cases')
+      .select('*')
+      .eq('order_id', order.id)
+      .eq('source', 'in_app')
+      .eq('status', 'open')
+      .maybeSingle()
+    if (error) throw error
+    return data as DisputeCase | null
+  }
+
+  const existing = await findOpenCase()
+  if (existing) return existing
+
+  const openedAt = order.disputed_at ? new Date(order.disputed_at) : now
+  const { data, error } = await db
+    .from('dispute_cases')
+    .insert({
+      order_id: order.id,
+      user_id: order.user_id,
+      partner_id: order.partner_id,
+      source: 'in_app',
+      status: 'open',
+      reason: order.dispute_reason || null,
+      amount_cents: await getRefundableForOrder(db, order),
+      opened_at: openedAt.toISOString(),
+      sla_due_at: getSlaDueAt(openedAt).toISOString(),
+    })
+    .select()
+    .single()
+
+  if (error) {
+    // Another delivery opened it first
+    if (error.code === '23505') {
+      const raced = await findOpenCase()
+      if (raced) return raced
+    }
+    throw error
+  }
+
+  return data
+}
+
+/**
+ * Find the order a disputed PaymentIntent belongs to, including tips
+ */
+export async function findOrderForPaymentIntent(db: SupabaseClient, paymentIntentId: string): Promise<any | null> {
+  for (const column of PAYMENT_INTENT_COLUMNS) {
+    const { data } = await db.from('orders').select('*').eq(column, paymentIntentId).maybeSingle()
+    if (data) return data
+  }
+
+  const { data: tip } = await db
+    .from('order_tips')
+    .select('order_id')
+    .eq('payment_intent_id', paymentIntentId)
+    .maybeSingle()
+  if (!tip) return null
+
+  const { data: order } = await db.from('orders').select('*').eq('id', tip.order_id).maybeSingle()
+  return order || null
+}
+
+function getPaymentIntentId(dispute: Stripe.Dispute): string | null {
+  if (!dispute.payment_intent) return null
+  return typeof dispute.payment_intent === 'string' ? dispute.payment_intent : dispute.payment_intent.id
+}
+
+/**
+ * Open the case for a Stripe chargeback and alert the admin team
+ *
+ * Returns null when the disputed payment isn't one of ours. Webhook retries
+ * find the existing case by its Stripe dispute id.
+ */
+export async function openChargebackCase(
+  db: SupabaseClient,
+  dispute: Stripe.Dispute,
+  now: Date = new Date()
+): Promise<DisputeCase | null> {
+  const { data: existing } = await db
+    .from('dispute_cases')
+    .select('*')
+    .eq('stripe_dispute_id', dispute.id)
+    .maybeSingle()
+  if (existing) return existing
+
+  const paymentIntentId = getPaymentIntentId(dispute)
+  const order = paymentIntentId ? await findOrderForPaymentIntent(db, paymentIntentId) : null
+  if (!order) return null
+
+  const dueBy = dispute.evidence_details?.due_by ? new Date(dispute.evidence_details.due_by * 1000) : null
+
+  const { data: disputeCase, error } = await db
+    .from('dispute_cases')
+    .insert({
+      order_id: order.id,
+      user_id: order.user_id,
+      partner_id: order.partner_id,
+      source: 'chargeback',
+      status: 'open',
+      reason: dispute.reason,
+      amount_cents: dispute.amount,
+      stripe_dispute_id: dispute.id,
+      stripe_charge_id: typeof dispute.charge === 'string' ? dispute.charge : dispute.charge?.id,
+      stripe_status: dispute.status,
+      evidence_due_by: dueBy?.toISOString() || null,
+      opened_at: now.toISOString(),
+      sla_due_at: getSlaDueAt(now, dueBy).toISOString(),
+    })
+    .select()
+    .single()
+
+  if (error) {
+    if (error.code === '23505') {
+      const { data: raced } = await db
+        .from('dispute_cases')
+        .select('*')
+        .eq('stripe_dispute_id', dispute.id)
+        .maybeSingle()
+      return raced
+    }
+    throw error
+  }
+
+  const { error: alertError } = await db.from('operational_alerts').insert({
+    alert_type: 'chargeback_opened',
+    severity: 'high',
+    entity_type: 'order',
+    entity_id: order.id,
+    message: `Chargeback of $${(dispute.amount / 100).toFixed(2)} on order ${formatOrderId(order.id)} (${dispute.reason})${dueBy ? `, evidence due ${dueBy.toISOString().slice(0, 10)}` : ''}`,
+    metadata: { dispute_case_id: disputeCase.id, stripe_dispute_id: dispute.id },
+  })
+  // The case is the source of truth; a lost alert shouldn't fail the webhook
+  if (alertError) console.error('Failed to record chargeback alert:', alertError)
+
+  return disputeCase
+}
+
+/**
+ * Record Stripe's latest status for a chargeback; closes the case once the
+ * bank has decided
+ */
+export async function syncChargebackStatus(
+  db: SupabaseClient,
+  dispute: Stripe.Dispute,
+  now: Date = new Date()
+): Promise<DisputeCase | null> {
+  const { data: disputeCase } = await db
+    .from('dispute_cases')
+    .select('*')
+    .eq('stripe_dispute_id', dispute.id)
+    .maybeSingle()
+  if (!disputeCase) return null
+
+  const updates: Record<string, any> = { stripe_status: dispute.status }
+  if (DECIDED_STRIPE_STATUSES.includes(dispute.status) && disputeCase.status !== 'closed') {
+    updates.status = 'closed'
+    updates.resolved_at = disputeCase.resolved_at || now.toISOString()
+  }
+
+  const { data, error } = await db
+    .from('dispute_cases')
+    .update(updates)
+    .eq('id', disputeCase.id)
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+/**
+ * Record the assigned partner's account of an open dispute
+ *
+ * @throws NotFoundError if the partner has no open case on the order
+ */
+export async function recordPartnerResponse(
+  db: SupabaseClient,
+  orderId: string,
+  partnerId: string,
+  response: string,
+  actorId: string
+): Promise<DisputeCase> {
+  const { data: disputeCase, error } = await db
+    .from('dispute_cases')
+    .update({ partner_response: response, partner_responded_at: new Date().toISOString() })
+    .eq('order_id', orderId)
+    .eq('partner_id', partnerId)
+    .eq('status', 'open')
+    .select()
+    .maybeSingle()
+
+  if (error) throw error
+  if (!disputeCase) {
+    throw new NotFoundError('No open dispute on this order')
+  }
+
+  await db.from('order_events').insert({
+    order_id: orderId,
+    actor: actorId,
+    actor_role: 'partner',
+    event_type: 'dispute_partner_responded',
+    payload_json: { dispute_case_id: disputeCase.id },
+  })
+
+  return disputeCase
+}
+
+/**
+ * Photos stored by lib/upload are private: sign each one for the reviewer.
+ * Legacy entries are plain URLs and are passed through.
+ */
+async function signEvidencePhotos(photos: unknown[], label: string): Promise<EvidencePhoto[]> {
+  const storage = getUploadStorage()
+  const signed: EvidencePhoto[] = []
+
+  for (const photo of photos) {
+    if (typeof photo === 'string') {
+      signed.push({ label, url: photo, uploaded_at: null })
+      continue
+    }
+
+    const { path, uploaded_at } = photo as { path?: string; uploaded_at?: string }
+    if (!path) continue
+    try {
+      signed.push({
+        label,
+        url: await storage.createSignedUrl(path, EVIDENCE_PHOTO_URL_TTL_SECONDS),
+        uploaded_at: uploaded_at || null,
+      })
+    } catch (error) {
+      console.error('Failed to sign evidence photo:', path, error)
+    }
+  }
+
+  return signed
+}
+
+/**
+ * Gather the chargeback evidence for a case: the order timeline, photos
+ * from the customer, bags and cleaning checklist, the cancellation policy
+ * version locked at booking and the receipt
+ */
+export async function assembleDisputeEvidence(
+  db: SupabaseClient,
+  disputeCase: DisputeCase,
+  now: Date = new Date()
+): Promise<DisputeEvidencePacket> {
+  const { data: order, error } = await db
+    .from('orders')
+    .select('*, profiles(full_name, email)')
+    .eq('id', disputeCase.order_id)
+    .single()
+
+  if (error || !order) {
+    throw new NotFoundError('Order not found')
+  }
+
+  const [{ data: events }, { data: bags }, { data: rooms }, tip] = await Promise.all([
+    db.from('order_events').select('*').eq('order_id', order.id).order('ts', { ascending: true }),
+    db.from('bags').select('label_code, photos_json').eq('order_id', order.id),
+    db.from('cleaning_checklist').select('room, before_photos_json, after_photos_json').eq('order_id', order.id),
+    getOrderTip(db, order.id),
+  ])
+
+  const photos = [
+    ...(await signEvidencePhotos(order.dispute_evidence_json || [], 'Customer dispute photo')),
+    ...(await signEvidencePhotos(order.intake_photos_json || [], 'Intake photo')),
+    ...(await signEvidencePhotos(order.outtake_photos_json || [], 'Photo before delivery')),
+  ]
+  for (const bag of bags || []) {
+    photos.push(...(await signEvidencePhotos(bag.photos_json || [], `Bag ${bag.label_code}`)))
+  }
+  for (const room of rooms || []) {
+    photos.push(...(await signEvidencePhotos(room.before_photos_json || [], `${room.room} before cleaning`)))
+    photos.push(...(await signEvidencePhotos(room.after_photos_json || [], `${room.room} after cleaning`)))
+  }
+
+  let policyVersion: number | null = order.policy_version ?? null
+  if (policyVersion === null && order.policy_id) {
+    const { data: policy } = await db
+      .from('cancellation_policies')
+      .select('version')
+      .eq('id', order.policy_id)
+      .maybeSingle()
+    policyVersion = policy?.version ?? null
+  }
+
+  const profile = Array.isArray(order.profiles) ? order.profiles[0] : order.profiles
+
+  return {
+    order_number: shortOrderId(order.id),
+    service_type: order.service_type,
+    service_date: order.slot_start ? order.slot_start.slice(0, 10) : null,
+    customer_name: profile?.full_name || order.guest_name || 'Customer',
+    customer_email: profile?.email || order.guest_email || '',
+    customer_statement: order.dispute_reason || null,
+    partner_response: disputeCase.partner_response,
+    timeline: (events || []).map((event: any) => ({
+      at: event.ts || event.created_at,
+      event: event.event_type || event.action,
+      actor_role: event.actor_role || null,
+    })),
+    photos,
+    policy: {
+      version: policyVersion,
+      summary: getPolicySummary(order.service_type),
+    },
+    receipt: {
+      total_cents: getPaidAmountCents(order),
+      tip_cents: tip?.status === 'succeeded' ? tip.amount_cents : 0,
+      paid_at: order.paid_at || null,
+    },
+    assembled_at: now.toISOString(),
+  }
+}
+
+async function getStripe() {
+  const Stripe = (await import('stripe')).default
+  return new Stripe(process.env.STRIPE_SECRET_KEY!, { apiVersion: '2023-10-16' })
+}
+
+/**
+ * Contest a chargeback: upload the invoice as the receipt and submit the
+ * evidence packet to Stripe
+ */
+async function submitChargebackEvidence(
+  db: SupabaseClient,
+  disputeCase: DisputeCase,
+  now: Date
+): Promise<Record<string, any>> {
+  const packet = await assembleDisputeEvidence(db, disputeCase, now)
+  const stripe = await getStripe()
+
+  let receiptFileId: string | null = null
+  if (packet.receipt.paid_at) {
+    const { data: order } = await db
+      .from('orders')
+      .select('*, profiles(full_name, email)')
+      .eq('id', disputeCase.order_id)
+      .single()
+    const pdf = await generateInvoicePDF(await buildOrderInvoiceData(db, order))
+
+    const file = await executeWithCircuitBreaker(() =>
+      stripe.files.create({
+        purpose: 'dispute_evidence',
+        file: { data: pdf, name: `tidyhood-invoice-${packet.order_number}.pdf`, type: 'application/pdf' },
+      })
+    )
+    receiptFileId = file.id
+  }
+
+  const dispute = await executeWithCircuitBreaker(() =>
+    stripe.disputes.update(
+      disputeCase.stripe_dispute_id!,
+      { evidence: toStripeEvidence(packet, receiptFileId), submit: true },
+      { idempotencyKey: `dispute_case:${disputeCase.id}:evidence` }
+    )
+  )
+
+  return {
+    stripe_status: dispute.status,
+    evidence_json: packet,
+    evidence_submitted_at: now.toISOString(),
+  }
+}
+
+/**
+ * Move an open case to its decision; the status guard makes concurrent
+ * decisions conflict instead of both applying
+ */
+async function claimOpenCase(
+  db: SupabaseClient,
+  caseId: string,
+  updates: Record<string, any>
+): Promise<DisputeCase> {
+  const { data: claimed, error } = await db
+    .from('dispute_cases')
+    .update(updates)
+    .eq('id', caseId)
+    .eq('status', 'open')
+    .select()
+    .maybeSingle()
+
+  if (error) throw error
+  if (!claimed) {
+    throw new ConflictError('Dispute was updated by someone else. Refresh and try again.', 'DISPUTE_NOT_OPEN')
+  }
+  return claimed
+}
+
+/**
+ * Accept (close) or contest a chargeback on Stripe
+ *
+ * The case is claimed before Stripe is called so a second admin can't close
+ * or submit the same dispute again; a Stripe failure reopens it.
+ */
+async function resolveChargeback(
+  db: SupabaseClient,
+  disputeCase: DisputeCase,
+  input: ResolveDisputeInput,
+  adminId: string,
+  now: Date
+): Promise<DisputeCase> {
+  const accepted = input.outcome !== 'rejected'
+  const claimed = await claimOpenCase(db, disputeCase.id, {
+    status: accepted ? 'closed' : 'evidence_submitted',
+    outcome: accepted ? 'full_refund' : 'rejected',
+    ...(accepted ? { refund_cents: disputeCase.amount_cents, resolved_at: now.toISOString() } : {}),
+    resolution_note: input.resolution_note,
+    resolved_by: adminId,
+  })
+
+  let stripeUpdates: Record<string, any>
+  try {
+    if (accepted) {
+      const stripe = await getStripe()
+      const dispute = await executeWithCircuitBreaker(() => stripe.disputes.close(disputeCase.stripe_dispute_id!))
+      stripeUpdates = { stripe_status: dispute.status }
+    } else {
+      stripeUpdates = await submitChargebackEvidence(db, disputeCase, now)
+    }
+  } catch (error) {
+    await db
+      .from('dispute_cases')
+      .update({
+        status: 'open',
+        outcome: disputeCase.outcome,
+        refund_cents: disputeCase.refund_cents,
+        resolution_note: disputeCase.resolution_note,
+        resolved_by: disputeCase.resolved_by,
+        resolved_at: disputeCase.resolved_at,
+      })
+      .eq('id', disputeCase.id)
+      .eq('status', claimed.status)
+    throw error
+  }
+
+  const { data: updated, error } = await db
+    .from('dispute_cases')
+    .update(stripeUpdates)
+    .eq('id', disputeCase.id)
+    .select()
+    .single()
+
+  if (error) throw error
+  return updated
+}
+
+/**
+ * Apply an admin's outcome to an open case
+ *
+ * In-app cases go through the order state machine: refunds move the order
+ * to refunded (the outbox issues the Stripe refund for refund_cents), a
+ * rejection returns it to completed. Chargebacks are accepted or contested
+ * on Stripe.
+ *
+ * @throws ValidationError if the outcome doesn't apply to the case
+ * @throws ConflictError if the case was resolved in the meantime
+ */
+export async function resolveDisputeCase(
+  db: SupabaseClient,
+  disputeCase: DisputeCase,
+  input: ResolveDisputeInput,
+  adminId: string,
+  now: Date = new Date()
+): Promise<DisputeCase> {
+  if (disputeCase.status !== 'open') {
+    throw new ConflictError('This dispute has already been handled', 'DISPUTE_NOT_OPEN')
+  }
+  if (!canResolveWith(disputeCase, input.outcome)) {
+    throw new ValidationError(
+      `${DISPUTE_SOURCE_LABELS[disputeCase.source]} disputes can't be resolved with a ${input.outcome.replace('_', ' ')}`,
+      'INVALID_DISPUTE_OUTCOME'
+    )
+  }
+
+  let updated: DisputeCase
+
+  if (disputeCase.source === 'chargeback') {
+    updated = await resolveChargeback(db, disputeCase, input, adminId, now)
+  } else {
+    const { data: order, error: orderError } = await db
+      .from('orders')
+      .select('*')
+      .eq('id', disputeCase.order_id)
+      .single()
+    if (orderError || !order) {
+      throw new NotFoundError('Order not found')
+    }
+
+    const refundCents = getDisputeRefundCents(input.outcome, await getRefundableForOrder(db, order), input.refund_cents)
+
+    const { data: result, error: rpcError } = await db.rpc('transition_order_status', {
+      p_order_id: order.id,
+      p_action: input.outcome === 'rejected' ? 'resolve_dispute_complete' : 'resolve_dispute_refund',
+      p_actor_id: adminId,
+      p_actor_role: 'admin',
+      p_meta: {
+        reason: input.resolution_note,
+        dispute_case_id: disputeCase.id,
+        ...(refundCents > 0 ? { refund_cents: refundCents } : {}),
+      },
+    })
+
+    if (rpcError || !result?.success) {
+      throw new ValidationError(rpcError?.message || result?.error || 'Failed to resolve dispute', 'DISPUTE_TRANSITION_FAILED')
+    }
+
+    updated = await claimOpenCase(db, disputeCase.id, {
+      status: 'resolved',
+      outcome: input.outcome,
+      refund_cents: refundCents,
+      resolution_note: input.resolution_note,
+      resolved_by: adminId,
+      resolved_at: now.toISOString(),
+    })
+  }
+
+  await db.from('order_events').insert({
+    order_id: disputeCase.order_id,
+    actor: adminId,
+    actor_role: 'admin',
+    event_type: `dispute_${updated.status}`,
+    payload_json: {
+      dispute_case_id: disputeCase.id,
+      source: disputeCase.source,
+      outcome: input.outcome,
+      refund_cents: updated.refund_cents,
+    },
+  })
+
+  return updated
+}
+
+/**
+ * Alert the admin team about open cases past their SLA, once per case
+ */
+export async function flagSlaBreaches(db: SupabaseClient, now: Date = new Date()): Promise<{ flagged: number }> {
+  const { data: overdue, error } = await db
+    .from('dispute_cases')
+    .select('id, order_id, source, sla_due_at')
+    .eq('status', 'open')
+    .is('sla_breached_at', null)
+    .lt('sla_due_at', now.toISOString())
+
+  if (error) throw error
+
+  for (const disputeCase of overdue || []) {
+    await db.from('operational_alerts').insert({
+      alert_type: 'dispute_sla_breached',
+      severity: disputeCase.source === 'chargeback' ? 'critical' : 'high',
+      entity_type: 'order',
+      entity_id: disputeCase.order_id,
+      message: `${DISPUTE_SOURCE_LABELS[disputeCase.source as DisputeSource]} dispute on order ${formatOrderId(disputeCase.order_id)} passed its ${DISPUTE_SLA_HOURS}h SLA`,
+      metadata: { dispute_case_id: disputeCase.id, sla_due_at: disputeCase.sla_due_at },
+    })
+    await db.from('dispute_cases').update({ sla_breached_at: now.toISOString() }).eq('id', disputeCase.id)
+  }
+
+  return { flagged: (overdue || []).length }
+}
@@ -1,5 +1,7 @@
 // Sample dry-clean pricing for informational purposes
 // Final prices vary by fabric, embellishments, and condition
+// Quotes price garments from the PER_ITEM pricing rules; these samples are
+// only shown when that catalog can't be loaded
 
 export interface DryItemPrice {
   key: string;
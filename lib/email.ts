@@ -0,0 +1,68 @@
+const isDev = process.env.NODE_ENV === 'development'
+
+const SENDGRID_API_URL = 'https://api.sendgrid.com/v3/mail/send'
+
+/**
+ * Whether sendEmail can deliver: SendGrid is set up, or development logs to console
+ */
+export function isEmailConfigured(): boolean {
+  return isDev || Boolean(process.env.SENDGRID_API_KEY && process.env.EMAIL_FROM)
+}
+
+export interface SendEmailParams {
+  to: string
+  subject: string
+  text: string
+}
+
+/**
+ * Send email notification
+ * In development, logs to console
+ * In production, sends via SendGrid
+ *
+ * @returns SendGrid message ID when available
+ */
+export async function sendEmail(params: SendEmailParams): Promise<string | null> {
+  const { to, subject, text } = params
+
+  if (!to || !/^[^\s@]+@[^\s@]+$/.test(to)) {
+    throw new Error(`Invalid email address: ${to}`)
+  }
+
+  if (isDev) {
+    console.log('📧 [EMAIL] TO:', to)
+    console.log('📧 [EMAIL] SUBJECT:', subject)
+    console.log('📧 [EMAIL] BODY:', text)
+    return null
+  }
+
+  const apiKey = process.env.SENDGRID_API_KEY
+  const from = process.env.EMAIL_FROM
+
+  if (!apiKey || !from) {
+    console.error('SendGrid not configured')
+    return null
+  }
+
+  const response = await fetch(SENDGRID_API_URL, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      personalizations: [{ to: [{ email: to }] }],
+      from: { email: from, name: 'Tidyhood' },
+      subject,
+      content: [{ type: 'text/plain', value: text }],
+    }),
+  })
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '')
+    console.error('Failed to send email:', response.status, detail)
+    throw new Error(`SendGrid request failed with status ${response.status}`)
+  }
+
+  return response.headers.get('x-message-id')
+}
@@ -77,17 +77,29 @@ const serverEnvSchema = clientEnvSchema.extend({
   TWILIO_AUTH_TOKEN: z.string().min(32).optional(),
   TWILIO_FROM_PHONE: z.string().regex(/^\+1\d{10}$/, 'Phone must be E.164 format: +1XXXXXXXXXX').optional(),
 
+  // Partner SMS intent fallback (see lib/partner-sms/intent-classifier.ts)
+  ANTHROPIC_API_KEY: z.string().optional(),
+  SMS_INTENT_CLASSIFIER: z.enum(['anthropic', 'stub']).optional(),
+
+  // SendGrid (Server secrets - Optional for email)
+  SENDGRID_API_KEY: z.string().startsWith('SG.').optional(),
+  EMAIL_FROM: z.string().email().optional(),
+
   // Admin Configuration
   ADMIN_EMAIL: z.string().email().optional(),
   SEED_ADMIN_EMAIL: z.string().email().optional(),
 
   // Authentication
   JWT_PARTNER_ROLE_CLAIM: z.string().default('app_role'),
+  RATE_LIMIT_STORE: z.enum(['postgres', 'memory']).optional(),
+
+  // Order photo storage (see lib/upload.ts)
+  UPLOAD_STORAGE: z.enum(['supabase', 'memory']).optional(),
 
   // Business Rules
-  NYC_TAX_RATE: z.string().default('0.08875').transform((val) => parseFloat(val)).pipe(z.number().min(0).max(1)),
   FIRST_ORDER_CAP_CENTS: z.string().default('7500').transform((val) => parseInt(val)).pipe(z.number().positive()),
-  LAUNDRY_MIN_LBS: z.string().default('10').transform((val) => parseInt(val)).pipe(z.number().positive()),
+  PARTNER_PAYOUT_PERCENT: z.string().default('65').transform((val) => parseFloat(val)).pipe(z.number().min(0).max(100)),
+  SLOT_ASSIGNMENT_STRATEGY: z.enum(['least_loaded', 'round_robin', 'best_scorecard', 'nearest']).optional(),
 
   // Observability (Server-side - Optional)
   SENTRY_DSN: z.string().url().optional(),
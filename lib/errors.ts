@@ -44,6 +44,13 @@ export class ConflictError extends AppError {
   }
 }
 
+export class NotServedError extends AppError {
+  constructor(message: string = 'This area is not served yet') {
+    super(message, 422, 'NOT_SERVED')
+    this.name = 'NotServedError'
+  }
+}
+
 export function handleApiError(error: unknown) {
   if (error instanceof AppError) {
     return {
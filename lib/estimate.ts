@@ -1,26 +1,8 @@
 import { quoteLaundry } from './pricing';
+import { validatePromoCode, getPromoDiscountCents, type PromoCode } from './promos';
 import { EstimateInput, EstimateResult, WEIGHT_TIER_POUNDS, ADDON_INFO } from './types';
 
-/**
- * Calculate promo code discount
- */
-function calculatePromoDiscount(code: string | undefined, subtotal: number): number {
-  if (!code) return 0;
-  
-  const normalizedCode = code.trim().toUpperCase();
-  
-  // Percentage discounts
-  if (normalizedCode === 'WELCOME10') {
-    return Math.round(subtotal * 0.10 * 100) / 100;
-  }
-  
-  // Fixed discounts
-  if (normalizedCode === 'HARLEM5') {
-    return 5;
-  }
-  
-  return 0;
-}
+export { validatePromoCode };
 
 /**
  * Estimate laundry cost based on weight tier and add-ons
@@ -58,15 +40,29 @@ export async function estimateLaundry(input: EstimateInput): Promise<EstimateRes
     .map(([key]) => key);
   
   try {
+    // Promo codes are checked against the DB; an invalid code just means no discount
+    let promo: PromoCode | null = null;
+    let promoMessage: string | undefined;
+    if (promoCode) {
+      const validation = await validatePromoCode(promoCode, { serviceType: 'LAUNDRY', zip });
+      if (validation.valid) {
+        promo = validation.promo;
+      } else {
+        promoMessage = validation.message;
+      }
+    }
+    
     // Use existing pricing system
     const quote = await quoteLaundry({
       zip,
       lbs,
       addons: enabledAddons,
+      promo,
     });
     
-    const subtotal = quote.subtotal_cents / 100;
-    const discount = calculatePromoDiscount(promoCode, subtotal);
+    const discountCents = getPromoDiscountCents(quote);
+    const subtotal = (quote.subtotal_cents + discountCents) / 100;
+    const discount = discountCents / 100;
     const total = Math.max(0, subtotal - discount);
     
     // Build breakdown from pricing items
@@ -92,7 +88,7 @@ export async function estimateLaundry(input: EstimateInput): Promise<EstimateRes
     
     // Add add-ons
     for (const item of quote.items) {
-      if (item.key !== 'LND_WF_PERLB' && item.key !== 'LND_DELIVERY_BASE') {
+      if (item.key !== 'LND_WF_PERLB' && item.key !== 'LND_DELIVERY_BASE' && item.key !== 'PROMO_DISCOUNT') {
         const addonInfo = ADDON_INFO[item.key as keyof typeof ADDON_INFO];
         breakdown.push({
           label: addonInfo?.label || item.label,
@@ -102,9 +98,9 @@ export async function estimateLaundry(input: EstimateInput): Promise<EstimateRes
     }
     
     // Add promo discount
-    if (discount > 0) {
+    if (discount > 0 && promo) {
       breakdown.push({
-        label: `Promo (${promoCode})`,
+        label: `Promo (${promo.code})`,
         amount: -discount,
       });
     }
@@ -114,6 +110,7 @@ export async function estimateLaundry(input: EstimateInput): Promise<EstimateRes
       discount,
       total,
       breakdown,
+      promoMessage,
     };
   } catch (error) {
     console.error('Estimate calculation error:', error);
@@ -126,7 +123,7 @@ export async function estimateLaundry(input: EstimateInput): Promise<EstimateRes
  * Fallback estimation without database (for offline/error scenarios)
  */
 function estimateFallback(input: EstimateInput): EstimateResult {
-  const { serviceType, weightTier, addons, promoCode } = input;
+  const { serviceType, weightTier, addons } = input;
   
   // For dry clean, return placeholder
   if (serviceType === 'dryClean') {
@@ -182,38 +179,11 @@ function estimateFallback(input: EstimateInput): EstimateResult {
     }
   }
   
-  // Apply promo
-  const discount = calculatePromoDiscount(promoCode, subtotal);
-  if (discount > 0) {
-    breakdown.push({
-      label: `Promo (${promoCode})`,
-      amount: -discount,
-    });
-  }
-  
-  const total = Math.max(0, subtotal - discount);
-  
+  // Promo codes can't be checked without the database; they apply at booking
   return {
     subtotal,
-    discount,
-    total,
+    discount: 0,
+    total: subtotal,
     breakdown,
   };
 }
-
-/**
- * Validate promo code
- */
-export function validatePromoCode(code: string): { valid: boolean; message?: string } {
-  const normalizedCode = code.trim().toUpperCase();
-  
-  if (normalizedCode === 'WELCOME10') {
-    return { valid: true };
-  }
-  
-  if (normalizedCode === 'HARLEM5') {
-    return { valid: true };
-  }
-  
-  return { valid: false, message: 'Invalid promo code' };
-}
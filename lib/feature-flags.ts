@@ -1,11 +1,59 @@
 /**
  * Feature Flag System
  * 
- * Provides a safe rollout mechanism for the payment authorization system.
- * Allows gradual rollout by percentage and includes test user overrides.
+ * Database-backed feature flags for dark-launching changes without a redeploy.
+ * A flag can target specific users, roles, ZIP codes and service types, and
+ * roll out to a percentage of users with deterministic bucketing. Flags are
+ * managed from the admin settings page and every change is recorded in
+ * settings_audit_log.
+ * 
+ * Payment authorization predates the feature_flags table; its environment
+ * configuration is used until a payment_authorization row is created.
  */
 
 import crypto from 'crypto';
+import { z } from 'zod';
+import { getServiceClient } from './db';
+
+export type FeatureFlagServiceType = 'LAUNDRY' | 'CLEANING';
+
+export interface FeatureFlag {
+  id: string;
+  key: string;
+  description: string | null;
+  enabled: boolean;
+  rollout_percentage: number;
+  target_user_ids: string[] | null;
+  target_roles: string[] | null;
+  target_zip_codes: string[] | null;
+  target_service_types: FeatureFlagServiceType[] | null;
+  created_by?: string | null;
+  created_at: string;
+  updated_at?: string;
+}
+
+/**
+ * Who is asking, for targeting and rollout
+ */
+export interface FeatureFlagContext {
+  userId?: string | null;
+  role?: string | null;
+  zip?: string | null;
+  serviceType?: FeatureFlagServiceType | null;
+}
+
+export const featureFlagSchema = z.object({
+  key: z.string().trim().min(2).max(64).regex(/^[a-z0-9_.-]+$/, 'Use lowercase letters, numbers, dots, dashes or underscores'),
+  description: z.string().trim().max(500).optional().nullable(),
+  enabled: z.boolean().default(false),
+  rollout_percentage: z.number().int().min(0).max(100).default(0),
+  target_user_ids: z.array(z.string().trim().min(1)).min(1).optional().nullable(),
+  target_roles: z.array(z.enum(['user', 'partner', 'admin'])).min(1).optional().nullable(),
+  target_zip_codes: z.array(z.string().regex(/^\d{5}$/)).min(1).optional().nullable(),
+  target_service_types: z.array(z.enum(['LAUNDRY', 'CLEANING'])).min(1).optional().nullable(),
+});
+
+export type FeatureFlagInput = z.infer<typeof featureFlagSchema>;
 
 export interface FeatureConfig {
   enabled: boolean;
@@ -14,7 +62,7 @@ export interface FeatureConfig {
 }
 
 /**
- * Feature flag configurations
+ * Environment defaults for flags that predate the feature_flags table
  * 
  * Configure via environment variables:
  * - ENABLE_PAYMENT_AUTH: 'true' to enable the feature
@@ -29,6 +77,17 @@ export const FEATURES = {
   }
 } as const;
 
+export const PAYMENT_AUTHORIZATION_FLAG = 'payment_authorization';
+
+const ENV_FLAG_DEFAULTS: Record<string, FeatureConfig> = {
+  [PAYMENT_AUTHORIZATION_FLAG]: FEATURES.PAYMENT_AUTHORIZATION,
+};
+
+// Cache to avoid a DB round trip on every flag check
+let flagCache: Map<string, FeatureFlag> | null = null;
+let cacheExpiry = 0;
+const CACHE_TTL = 30 * 1000; // 30 seconds
+
 /**
  * Hash a user ID to get a deterministic number for percentage rollout
  * 
@@ -41,34 +100,155 @@ function hashUserId(userId: string): number {
 }
 
 /**
- * Check if a feature is enabled for a specific user
+ * Build a flag from its environment defaults
+ */
+function flagFromEnv(key: string, config: FeatureConfig): FeatureFlag {
+  return {
+    id: `env:${key}`,
+    key,
+    description: 'Configured by environment variables',
+    enabled: config.enabled,
+    rollout_percentage: config.percentage,
+    target_user_ids: config.testUsers.length > 0 ? config.testUsers : null,
+    target_roles: null,
+    target_zip_codes: null,
+    target_service_types: null,
+    created_at: new Date(0).toISOString(),
+  };
+}
+
+/**
+ * Check a flag against a request context
  * 
- * @param feature - The feature key
- * @param userId - The user ID to check
- * @returns True if the feature is enabled for this user
+ * Enabled flags are on for targeted users; everyone else must match every
+ * targeting rule that is set and fall inside the rollout percentage. The same
+ * user always lands in the same bucket, so raising the percentage only adds users.
+ * 
+ * @param flag - The flag to evaluate
+ * @param context - User, role, ZIP and service for the request
+ * @returns True if the flag is on for this context
  */
-export function isFeatureEnabled(
-  feature: keyof typeof FEATURES,
-  userId: string
-): boolean {
-  const config = FEATURES[feature];
-  
+export function evaluateFeatureFlag(flag: FeatureFlag, context: FeatureFlagContext): boolean {
   // Feature disabled globally
-  if (!config.enabled) {
+  if (!flag.enabled) {
     return false;
   }
-  
-  // Test users always get the feature
-  if (config.testUsers.includes(userId)) {
+
+  // Targeted users always get the feature
+  if (context.userId && flag.target_user_ids?.includes(context.userId)) {
     return true;
   }
-  
+
+  if (flag.target_roles?.length && !(context.role && flag.target_roles.includes(context.role))) {
+    return false;
+  }
+
+  if (flag.target_zip_codes?.length && !(context.zip && flag.target_zip_codes.includes(context.zip))) {
+    return false;
+  }
+
+  if (
+    flag.target_service_types?.length &&
+    !(context.serviceType && flag.target_service_types.includes(context.serviceType))
+  ) {
+    return false;
+  }
+
+  if (flag.rollout_percentage >= 100) {
+    return true;
+  }
+
+  // Partial rollouts need a stable identity to bucket on
+  if (flag.rollout_percentage <= 0 || !context.userId) {
+    return false;
+  }
+
   // Percentage rollout (deterministic based on user ID)
-  // This ensures the same user always gets the same result
-  const hash = hashUserId(userId);
-  const bucket = hash % 100; // Maps to 0-99
-  
-  return bucket < config.percentage;
+  const bucket = hashUserId(context.userId) % 100; // Maps to 0-99
+  return bucket < flag.rollout_percentage;
+}
+
+/**
+ * Load all flags, keyed by flag key, with environment defaults for flags
+ * that have no row yet. Falls back to the defaults alone if the DB is unavailable.
+ */
+export async function getFeatureFlags(): Promise<Map<string, FeatureFlag>> {
+  const now = Date.now();
+
+  // Return cached if still valid
+  if (flagCache && now < cacheExpiry) {
+    return flagCache;
+  }
+
+  const flags = new Map<string, FeatureFlag>();
+  for (const [key, config] of Object.entries(ENV_FLAG_DEFAULTS)) {
+    flags.set(key, flagFromEnv(key, config));
+  }
+
+  try {
+    const db = getServiceClient();
+    const { data, error } = await db.from('feature_flags').select('*');
+
+    if (error) {
+      console.error('Feature flag lookup failed:', error);
+      return flags;
+    }
+
+    for (const flag of (data || []) as FeatureFlag[]) {
+      flags.set(flag.key, flag);
+    }
+
+    // Cache the result
+    flagCache = flags;
+    cacheExpiry = now + CACHE_TTL;
+  } catch (err) {
+    console.error('Error fetching feature flags:', err);
+  }
+
+  return flags;
+}
+
+/**
+ * Drop cached flags so the next check reads the DB (after admin changes)
+ */
+export function clearFeatureFlagCache(): void {
+  flagCache = null;
+  cacheExpiry = 0;
+}
+
+/**
+ * Check if a feature is enabled for a request context
+ * 
+ * @param key - The flag key
+ * @param context - User, role, ZIP and service for the request
+ * @returns True if the feature is enabled; unknown flags are off
+ */
+export async function isFeatureEnabled(
+  key: string,
+  context: FeatureFlagContext = {}
+): Promise<boolean> {
+  const flags = await getFeatureFlags();
+  const flag = flags.get(key);
+  return flag ? evaluateFeatureFlag(flag, context) : false;
+}
+
+/**
+ * Evaluate several flags at once (for the client hook)
+ * 
+ * @param keys - Flag keys to evaluate
+ * @param context - User, role, ZIP and service for the request
+ * @returns Map of flag key to enabled
+ */
+export async function evaluateFeatureFlags(
+  keys: string[],
+  context: FeatureFlagContext = {}
+): Promise<Record<string, boolean>> {
+  const flags = await getFeatureFlags();
+  return keys.reduce((acc, key) => {
+    const flag = flags.get(key);
+    acc[key] = flag ? evaluateFeatureFlag(flag, context) : false;
+    return acc;
+  }, {} as Record<string, boolean>);
 }
 
 /**
@@ -77,8 +257,11 @@ export function isFeatureEnabled(
  * @param userId - The user ID to check
  * @returns True if the user should use payment authorization
  */
-export function canUsePaymentAuthorization(userId: string): boolean {
-  return isFeatureEnabled('PAYMENT_AUTHORIZATION', userId);
+export async function canUsePaymentAuthorization(
+  userId: string,
+  context: Omit<FeatureFlagContext, 'userId'> = {}
+): Promise<boolean> {
+  return isFeatureEnabled(PAYMENT_AUTHORIZATION_FLAG, { ...context, userId });
 }
 
 /**
@@ -98,16 +281,19 @@ export async function isSetupIntentEnabled(): Promise<boolean> {
 /**
  * Get feature status for debugging/monitoring
  * 
- * @returns Object with feature configuration status
+ * @returns Object with each flag's configuration status
  */
-export function getFeatureStatus() {
-  return {
-    payment_authorization: {
-      enabled: FEATURES.PAYMENT_AUTHORIZATION.enabled,
-      percentage: FEATURES.PAYMENT_AUTHORIZATION.percentage,
-      test_user_count: FEATURES.PAYMENT_AUTHORIZATION.testUsers.length,
-    }
-  };
+export async function getFeatureStatus() {
+  const flags = await getFeatureFlags();
+  return Array.from(flags.values()).reduce((acc, flag) => {
+    acc[flag.key] = {
+      enabled: flag.enabled,
+      percentage: flag.rollout_percentage,
+      test_user_count: flag.target_user_ids?.length || 0,
+      source: flag.id.startsWith('env:') ? 'env' : 'database',
+    };
+    return acc;
+  }, {} as Record<string, { enabled: boolean; percentage: number; test_user_count: number; source: 'env' | 'database' }>);
 }
 
 /**
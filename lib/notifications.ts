@@ -0,0 +1,381 @@
+/**
+ * Customer Notifications
+ *
+ * Single entry point for order notifications to customers. The dispatcher
+ * checks the customer's channel switches and per-event opt-ins
+ * (notification_preferences) before sending SMS or email, records each
+ * channel send with its delivery status in notifications, adds an IN_APP
+ * notification to the customer's inbox and summarizes the dispatch in
+ * notification_log. Sending never throws; a failed channel is recorded and
+ * the caller carries on.
+ *
+ * Partner-facing SMS (the partner SMS webhook) still goes through lib/sms directly.
+ *
+ * @module lib/notifications
+ */
+
+import { z } from 'zod'
+import { getServiceClient } from './db'
+import { isSMSConfigured, sendSMS } from './sms'
+import { isEmailConfigured, sendEmail } from './email'
+
+export type NotificationChannel = 'sms' | 'email'
+
+export type NotificationEvent =
+  | 'order_confirmed'
+  | 'pickup_scheduled'
+  | 'items_received'
+  | 'quote_ready'
+  | 'payment_requested'
+  | 'payment_received'
+  | 'partner_en_route'
+  | 'service_in_progress'
+  | 'out_for_delivery'
+  | 'order_delivered'
+  | 'order_completed'
+  | 'recurring_visit_booked'
+  | 'refund_issued'
+
+export interface NotificationEventInfo {
+  label: string
+  description: string
+  defaults: Record<NotificationChannel, boolean>
+  /** Money is due; customers can't opt out of the event, only out of a channel entirely */
+  required?: boolean
+}
+
+export const NOTIFICATION_EVENTS: Record<NotificationEvent, NotificationEventInfo> = {
+  order_confirmed: {
+    label: 'Booking confirmed',
+    description: 'Your order is booked and your pickup time is set',
+    defaults: { sms: true, email: true },
+  },
+  pickup_scheduled: {
+    label: 'Pickup scheduled',
+    description: 'A partner has your pickup on their schedule',
+    defaults: { sms: true, email: false },
+  },
+  items_received: {
+    label: 'Items received',
+    description: 'Your items arrived at the partner facility',
+    defaults: { sms: true, email: false },
+  },
+  quote_ready: {
+    label: 'Quote ready',
+    description: 'Your final price is ready to review and pay',
+    defaults: { sms: true, email: true },
+    required: true,
+  },
+  payment_requested: {
+    label: 'Payment needed',
+    description: 'We could not charge your saved card and need you to pay',
+    defaults: { sms: true, email: true },
+    required: true,
+  },
+  payment_received: {
+    label: 'Payment receipt',
+    description: 'Your card was charged, with a link to the receipt',
+    defaults: { sms: true, email: true },
+  },
+  partner_en_route: {
+    label: 'Cleaner on the way',
+    description: 'Your cleaner is heading to your home',
+    defaults: { sms: true, email: false },
+  },
+  service_in_progress: {
+    label: 'Service in progress',
+    description: 'Your laundry or cleaning is underway',
+    defaults: { sms: true, email: false },
+  },
+  out_for_delivery: {
+    label: 'Out for delivery',
+    description: 'Your clean laundry is on its way back',
+    defaults: { sms: true, email: false },
+  },
+  order_delivered: {
+    label: 'Delivered',
+    description: 'Your laundry was dropped off',
+    defaults: { sms: true, email: false },
+  },
+  order_completed: {
+    label: 'Service complete',
+    description: 'Your order is finished',
+    defaults: { sms: true, email: true },
+  },
+  recurring_visit_booked: {
+    label: 'Recurring visit booked',
+    description: 'Your next recurring cleaning is booked, with time to skip or reschedule',
+    defaults: { sms: true, email: true },
+  },
+  refund_issued: {
+    label: 'Refund issued',
+    description: 'Money is on its way back to your card',
+    defaults: { sms: true, email: true },
+  },
+}
+
+export const NOTIFICATION_EVENT_KEYS = Object.keys(NOTIFICATION_EVENTS) as NotificationEvent[]
+
+export type EventChannelPreferences = Partial<Record<NotificationEvent, Partial<Record<NotificationChannel, boolean>>>>
+
+export interface NotificationPreferences {
+  sms_enabled: boolean
+  email_enabled: boolean
+  event_channels: EventChannelPreferences
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  sms_enabled: true,
+  email_enabled: true,
+  event_channels: {},
+}
+
+const channelTogglesSchema = z.object({
+  sms: z.boolean().optional(),
+  email: z.boolean().optional(),
+}).strict()
+
+export const notificationPreferencesSchema = z.object({
+  sms_enabled: z.boolean().optional(),
+  email_enabled: z.boolean().optional(),
+  event_channels: z.record(
+    z.enum(NOTIFICATION_EVENT_KEYS as [NotificationEvent, ...NotificationEvent[]]),
+    channelTogglesSchema
+  ).optional(),
+})
+
+export type NotificationPreferencesInput = z.infer<typeof notificationPreferencesSchema>
+
+/**
+ * Outcome of one channel in a dispatch
+ */
+export type ChannelOutcome = 'sent' | 'failed' | 'opted_out' | 'no_recipient'
+
+export interface NotifyCustomerParams {
+  event: NotificationEvent
+  /** Signed-up customer; guests get SMS/email only, with event defaults */
+  userId?: string | null
+  orderId?: string | null
+  /** Contact overrides (guest orders); customers default to their profile */
+  phone?: string | null
+  email?: string | null
+  /** Inbox title and email subject */
+  title: string
+  /** Message body, without the "Tidyhood:" SMS prefix */
+  message: string
+  /** Add the inbox entry (default true); retries of a sent event skip it */
+  inApp?: boolean
+}
+
+export interface NotifyCustomerResult {
+  channels: Record<NotificationChannel | 'in_app', ChannelOutcome>
+}
+
+/**
+ * Whether a customer wants this event on this channel
+ */
+export function isChannelEnabled(
+  preferences: NotificationPreferences | null | undefined,
+  event: NotificationEvent,
+  channel: NotificationChannel
+): boolean {
+  const prefs = preferences || DEFAULT_NOTIFICATION_PREFERENCES
+  const info = NOTIFICATION_EVENTS[event]
+
+  const channelEnabled = channel === 'sms' ? prefs.sms_enabled : prefs.email_enabled
+  if (channelEnabled === false) return false
+
+  if (info.required) return true
+
+  const override = prefs.event_channels?.[event]?.[channel]
+  return typeof override === 'boolean' ? override : info.defaults[channel]
+}
+
+/**
+ * Merge a preferences update into the current preferences
+ */
+export function mergeNotificationPreferences(
+  current: NotificationPreferences,
+  updates: NotificationPreferencesInput
+): NotificationPreferences {
+  const eventChannels: EventChannelPreferences = { ...current.event_channels }
+  for (const [event, toggles] of Object.entries(updates.event_channels || {})) {
+    const key = event as NotificationEvent
+    eventChannels[key] = { ...eventChannels[key], ...toggles }
+  }
+
+  return {
+    sms_enabled: updates.sms_enabled ?? current.sms_enabled,
+    email_enabled: updates.email_enabled ?? current.email_enabled,
+    event_channels: eventChannels,
+  }
+}
+
+/**
+ * Load a customer's preferences, or the defaults if they have never saved any
+ */
+export async function getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+  const db = getServiceClient()
+  const { data, error } = await db
+    .from('notification_preferences')
+    .select('sms_enabled, email_enabled, event_channels')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Notification preferences lookup failed:', error)
+  }
+
+  if (!data) return { ...DEFAULT_NOTIFICATION_PREFERENCES }
+
+  return {
+    sms_enabled: data.sms_enabled ?? true,
+    email_enabled: data.email_enabled ?? true,
+    event_channels: data.event_channels || {},
+  }
+}
+
+/**
+ * Save a customer's preferences
+ */
+export async function saveNotificationPreferences(
+  userId: string,
+  preferences: NotificationPreferences
+): Promise<NotificationPreferences> {
+  const db = getServiceClient()
+  const { error } = await db
+    .from('notification_preferences')
+    .upsert(
+      {
+        user_id: userId,
+        sms_enabled: preferences.sms_enabled,
+        email_enabled: preferences.email_enabled,
+        event_channels: preferences.event_channels,
+      },
+      { onConflict: 'user_id' }
+    )
+
+  if (error) throw error
+
+  return preferences
+}
+
+/**
+ * Send an order notification to a customer on every channel they allow
+ */
+export async function notifyCustomer(params: NotifyCustomerParams): Promise<NotifyCustomerResult> {
+  const { event, userId, orderId, title, message } = params
+  const db = getServiceClient()
+  const result: NotifyCustomerResult = {
+    channels: { sms: 'no_recipient', email: 'no_recipient', in_app: 'no_recipient' },
+  }
+
+  let phone = params.phone || null
+  let email = params.email || null
+  let preferences: NotificationPreferences | null = null
+
+  try {
+    if (userId) {
+      const { data: profile } = await db
+        .from('profiles')
+        .select('phone, email')
+        .eq('id', userId)
+        .maybeSingle()
+
+      phone = phone || profile?.phone || null
+      email = email || profile?.email || null
+      preferences = await getNotificationPreferences(userId)
+    }
+  } catch (error) {
+    console.error('Failed to load notification recipient:', error)
+  }
+
+  const record = async (row: Record<string, unknown>) => {
+    const { error } = await db.from('notifications').insert({
+      recipient_id: userId || null,
+      template_key: event,
+      order_id: orderId || null,
+      title,
+      variables: {},
+      ...row,
+    })
+    if (error) console.error('Failed to record notification:', error)
+  }
+
+  // SMS
+  if (phone) {
+    if (!isChannelEnabled(preferences, event, 'sms')) {
+      result.channels.sms = 'opted_out'
+    } else {
+      const body = `Tidyhood: ${message}`
+      try {
+        // sendSMS returns quietly without a provider; nothing was sent
+        if (!isSMSConfigured()) throw new Error('SMS provider not configured')
+        await sendSMS({ to: phone, message: body })
+        result.channels.sms = 'sent'
+        await record({ type: 'SMS', recipient_phone: phone, body, status: 'sent', sent_at: new Date().toISOString() })
+      } catch (error) {
+        result.channels.sms = 'failed'
+        await record({
+          type: 'SMS',
+          recipient_phone: phone,
+          body,
+          status: 'failed',
+          failed_at: new Date().toISOString(),
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+    }
+  }
+
+  // Email
+  if (email) {
+    if (!isChannelEnabled(preferences, event, 'email')) {
+      result.channels.email = 'opted_out'
+    } else {
+      const body = `${message}\n\n— Tidyhood`
+      try {
+        if (!isEmailConfigured()) throw new Error('Email provider not configured')
+        const providerId = await sendEmail({ to: email, subject: title, text: body })
+        result.channels.email = 'sent'
+        await record({
+          type: 'EMAIL',
+          recipient_email: email,
+          body,
+          status: 'sent',
+          sent_at: new Date().toISOString(),
+          provider_id: providerId,
+        })
+      } catch (error) {
+        result.channels.email = 'failed'
+        await record({
+          type: 'EMAIL',
+          recipient_email: email,
+          body,
+          status: 'failed',
+          failed_at: new Date().toISOString(),
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+    }
+  }
+
+  // Inbox and dispatch log (customers only)
+  if (userId) {
+    if (params.inApp !== false) {
+      await record({ type: 'IN_APP', body: message, status: 'sent', sent_at: new Date().toISOString() })
+      result.channels.in_app = 'sent'
+    }
+
+    const { error } = await db.from('notification_log').insert({
+      user_id: userId,
+      order_id: orderId || null,
+      type: event,
+      channels: result.channels,
+      payload: { title, message },
+    })
+    if (error) console.error('Failed to log notification:', error)
+  }
+
+  return result
+}
@@ -0,0 +1,567 @@
+/**
+ * Domain Event Outbox
+ *
+ * Side effects of order transitions, delivered at least once with retries.
+ *
+ * Flow:
+ * - transition_order_status writes an order_events row; a trigger on that
+ *   table enqueues a domain_events row in the same transaction (migration
+ *   050), so an event exists exactly when the transition committed
+ * - processOutbox fans each new event out into one delivery per handler
+ *   (DOMAIN_EVENT_HANDLERS), claims due deliveries and runs them
+ * - A failed delivery is retried with exponential backoff; after
+ *   OUTBOX_MAX_ATTEMPTS it is marked dead and logged to audit_logs
+ *
+ * Every delivery carries an idempotency key ("<event_id>:<handler>") that is
+ * passed on to Stripe and stored on the refund it creates, so a retry never
+ * refunds twice. The transition route drains the order's events right away;
+ * /api/cron/outbox picks up retries and anything it missed.
+ *
+ * @module lib/outbox
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { notifyCustomer, type NotificationEvent } from './notifications'
+import { sendSMS } from './sms'
+import { sendEmail } from './email'
+import { openInAppDisputeCase, DISPUTE_SLA_HOURS } from './disputes'
+import { issueRefund, executeStripeRefund, getPaidAmountCents, getRefundableCents } from './refunds'
+import { formatOrderId } from './ids'
+import { formatDateTime } from './timezone'
+import { logger } from './logger'
+
+// ============================================
+// TYPES
+// ============================================
+
+export type TransitionEventType =
+  | 'order.partner_assigned'
+  | 'order.partner_en_route'
+  | 'order.completed'
+  | 'order.dispute_opened'
+  | 'order.dispute_refunded'
+  | 'order.quote_sent'
+  | 'order.delivered'
+
+export interface TransitionEventPayload {
+  action: string
+  old_status: string | null
+  new_status: string
+  actor_id: string | null
+  actor_role: 'customer' | 'partner' | 'admin' | 'system'
+  metadata: Record<string, any>
+}
+
+export interface RefundIssuedPayload {
+  refund_id: string
+  amount_cents: number
+}
+
+export interface DomainEventPayloads extends Record<TransitionEventType, TransitionEventPayload> {
+  'order.refund_issued': RefundIssuedPayload
+}
+
+export type DomainEventType = keyof DomainEventPayloads
+
+export type DomainEvent = {
+  [K in DomainEventType]: {
+    id: string
+    event_type: K
+    order_id: string
+    idempotency_key: string
+    payload: DomainEventPayloads[K]
+    dispatched_at: string | null
+    created_at: string
+  }
+}[DomainEventType]
+
+export type DeliveryHandler =
+  | 'customer_notification'
+  | 'partner_notification'
+  | 'admin_alert'
+  | 'dispute_case'
+  | 'stripe_refund'
+
+export type DeliveryStatus = 'pending' | 'delivered' | 'dead'
+
+export interface EventDelivery {
+  id: string
+  event_id: string
+  order_id: string | null
+  handler: DeliveryHandler
+  idempotency_key: string
+  status: DeliveryStatus
+  attempts: number
+  next_attempt_at: string
+  locked_until: string | null
+  last_error: string | null
+}
+
+export interface DeliveryContext {
+  db: SupabaseClient
+  event: DomainEvent
+  order: any
+  delivery: EventDelivery
+}
+
+export type DeliveryHandlerFn = (context: DeliveryContext) => Promise<void>
+
+export interface OutboxRunResult {
+  dispatched: number
+  delivered: number
+  retrying: number
+  dead: number
+  skipped: number
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+/**
+ * Side effects of each event, each delivered and retried on its own
+ */
+export const DOMAIN_EVENT_HANDLERS: Record<DomainEventType, DeliveryHandler[]> = {
+  'order.partner_assigned': ['partner_notification'],
+  'order.partner_en_route': ['customer_notification'],
+  'order.completed': ['customer_notification'],
+  'order.dispute_opened': ['dispute_case', 'admin_alert'],
+  // The customer hears about the refund once Stripe accepts it (order.refund_issued)
+  'order.dispute_refunded': ['stripe_refund'],
+  'order.quote_sent': ['customer_notification'],
+  'order.delivered': ['customer_notification'],
+  'order.refund_issued': ['customer_notification'],
+}
+
+export const OUTBOX_MAX_ATTEMPTS = 6
+
+export const OUTBOX_BATCH_SIZE = 50
+
+/**
+ * How long a claimed delivery is reserved for the worker that claimed it
+ */
+export const OUTBOX_LOCK_MS = 5 * 60 * 1000
+
+const BASE_RETRY_DELAY_MS = 60 * 1000
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Backoff after a failed attempt: 1m, 4m, 16m, 64m, ... capped at 6h
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * Math.pow(4, Math.max(attempts - 1, 0)), MAX_RETRY_DELAY_MS)
+}
+
+export function getDeliveryIdempotencyKey(eventId: string, handler: DeliveryHandler): string {
+  return `${eventId}:${handler}`
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+function formatCents(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`
+}
+
+/**
+ * Customer message for an event, or null when the event doesn't notify them
+ */
+export function getCustomerNotification(
+  event: DomainEvent,
+  order: any,
+  baseUrl: string = process.env.NEXT_PUBLIC_BASE_URL || ''
+): { event: NotificationEvent; title: string; message: string } | null {
+  const orderUrl = `${baseUrl}/orders/${order.id}`
+  const orderLabel = formatOrderId(order.id)
+  const isCleaning = order.service_type === 'CLEANING'
+
+  switch (event.event_type) {
+    case 'order.partner_en_route':
+      return {
+        event: 'partner_en_route',
+        title: 'Your cleaner is on the way',
+        message: `Your cleaner is on the way for order ${orderLabel}. Track it here: ${orderUrl}`,
+      }
+    case 'order.completed':
+      return {
+        event: 'order_completed',
+        title: isCleaning ? 'Your cleaning is complete' : 'Your order is complete',
+        message: `${isCleaning ? 'Your cleaning' : `Order ${orderLabel}`} is complete! How did we do? Rate your service and leave a tip: ${orderUrl}?action=rate`,
+      }
+    case 'order.quote_sent':
+      return {
+        event: 'quote_ready',
+        title: 'Your quote is ready',
+        message: `Your quote for order ${orderLabel} is ready${order.quote_cents ? `: ${formatCents(order.quote_cents)}` : ''}. Review and pay: ${orderUrl}`,
+      }
+    case 'order.delivered':
+      return {
+        event: 'order_delivered',
+        title: 'Your laundry was delivered',
+        message: `Your laundry for order ${orderLabel} was delivered. How did we do? Rate your order and leave a tip: ${orderUrl}?action=rate`,
+      }
+    case 'order.refund_issued':
+      return {
+        event: 'refund_issued',
+        title: 'Refund issued',
+        message: `We refunded ${formatCents(event.payload.amount_cents)} for order ${orderLabel}. It can take 5-10 business days to show on your statement.`,
+      }
+    default:
+      return null
+  }
+}
+
+// ============================================
+// ENQUEUE
+// ============================================
+
+/**
+ * Add an event outside a transition (follow-ups from handlers).
+ * A repeated idempotency key is ignored.
+ */
+export async function enqueueDomainEvent<K extends DomainEventType>(
+  db: SupabaseClient,
+  event: { event_type: K; order_id: string; idempotency_key: string; payload: DomainEventPayloads[K] }
+): Promise<void> {
+  const { error } = await db
+    .from('domain_events')
+    .upsert(event, { onConflict: 'idempotency_key', ignoreDuplicates: true })
+
+  if (error) throw error
+}
+
+// ============================================
+// HANDLERS
+// ============================================
+
+async function deliverCustomerNotification({ event, order, delivery }: DeliveryContext): Promise<void> {
+  const notification = getCustomerNotification(event, order)
+  if (!notification) return
+
+  const result = await notifyCustomer({
+    ...notification,
+    userId: order.user_id,
+    orderId: order.id,
+    phone: order.guest_phone,
+    email: order.guest_email,
+    // The inbox entry was added on the first attempt
+    inApp: delivery.attempts <= 1,
+  })
+
+  const outcomes = [result.channels.sms, result.channels.email]
+  if (outcomes.includes('failed') && !outcomes.includes('sent')) {
+    throw new Error('All notification channels failed')
+  }
+}
+
+async function deliverPartnerNotification({ db, order }: DeliveryContext): Promise<void> {
+  if (!order.partner_id) return
+
+  const { data: partner } = await db
+    .from('partners')
+    .select('id, name, contact_phone, contact_email')
+    .eq('id', order.partner_id)
+    .maybeSingle()
+
+  if (!partner?.contact_phone && !partner?.contact_email) {
+    logger.warn({ event: 'outbox_partner_unreachable', order_id: order.id, partner_id: order.partner_id }, 'Partner has no contact details')
+    return
+  }
+
+  const when = order.slot_start ? ` on ${formatDateTime(order.slot_start)}` : ''
+  const message = `New ${order.service_type === 'CLEANING' ? 'cleaning' : 'laundry'} job ${formatOrderId(order.id)}${when}. Details: ${process.env.NEXT_PUBLIC_BASE_URL}/partner/orders/${order.id}`
+
+  // SMS first; email only when there's no phone or the SMS failed
+  if (partner.contact_phone) {
+    try {
+      await sendSMS({ to: partner.contact_phone, message: `Tidyhood: ${message}` })
+      return
+    } catch (error) {
+      if (!partner.contact_email) throw error
+    }
+  }
+
+  await sendEmail({ to: partner.contact_email, subject: 'New Tidyhood job', text: `${message}\n\n— Tidyhood` })
+}
+
+async function deliverAdminAlert({ db, event, order }: DeliveryContext): Promise<void> {
+  if (event.event_type !== 'order.dispute_opened') return
+
+  const title = `Dispute opened on order ${formatOrderId(order.id)}`
+  const message = `Reason: ${order.dispute_reason || 'none given'}. Review within ${DISPUTE_SLA_HOURS} hours: ${process.env.NEXT_PUBLIC_BASE_URL}/admin/disputes?order=${order.id}`
+
+  // Email before the inbox so a retry after a failed email doesn't duplicate entries
+  if (process.env.ADMIN_EMAIL) {
+    await sendEmail({ to: process.env.ADMIN_EMAIL, subject: title, text: message })
+  }
+
+  const { data: admins } = await db.from('profiles').select('id').eq('role', 'admin')
+  if (!admins?.length) return
+
+  const { error } = await db.from('notifications').insert(
+    admins.map((admin: { id: string }) => ({
+      recipient_id: admin.id,
+      type: 'IN_APP',
+      template_key: 'admin_alert',
+      order_id: order.id,
+      title,
+      body: message,
+      variables: { event_id: event.id },
+      status: 'sent',
+      sent_at: new Date().toISOString(),
+    }))
+  )
+  if (error) console.error('Failed to record admin alert:', error)
+}
+
+async function deliverDisputeCase({ db, event, order }: DeliveryContext): Promise<void> {
+  if (event.event_type !== 'order.dispute_opened') return
+
+  await openInAppDisputeCase(db, order, new Date(event.created_at))
+}
+
+async function deliverStripeRefund({ db, event, order, delivery }: DeliveryContext): Promise<void> {
+  if (event.event_type !== 'order.dispute_refunded') return
+
+  // A retry picks up the refund recorded by an earlier attempt
+  let { data: refund } = await db
+    .from('refunds')
+    .select('*')
+    .eq('idempotency_key', delivery.idempotency_key)
+    .maybeSingle()
+
+  if (!refund) {
+    const { data: priorRefunds } = await db
+      .from('refunds')
+      .select('amount_cents, status')
+      .eq('order_id', order.id)
+
+    const refundableCents = getRefundableCents(getPaidAmountCents(order), priorRefunds || [])
+    const requestedCents = Number(event.payload.metadata?.refund_cents) || refundableCents
+    const amountCents = Math.min(requestedCents, refundableCents)
+    if (amountCents <= 0) {
+      logger.info({ event: 'outbox_refund_skipped', order_id: order.id }, 'Nothing left to refund')
+      return
+    }
+
+    ;({ refund } = await issueRefund(db, {
+      order,
+      amountCents,
+      reason: `Dispute resolved with refund${order.dispute_reason ? `: ${order.dispute_reason}` : ''}`,
+      approvedBy: event.payload.actor_id!,
+      idempotencyKey: delivery.idempotency_key,
+    }))
+    if (!refund) throw new Error('Failed to record refund')
+  }
+
+  if (refund.status !== 'succeeded') {
+    const status = await executeStripeRefund(db, refund, order.payment_intent_id, delivery.idempotency_key)
+    if (status === 'failed') {
+      logger.warn({ event: 'outbox_refund_failed', order_id: order.id, refund_id: refund.id }, 'Stripe rejected dispute refund')
+      return
+    }
+  }
+
+  await enqueueDomainEvent(db, {
+    event_type: 'order.refund_issued',
+    order_id: order.id,
+    idempotency_key: `refund:${refund.id}`,
+    payload: { refund_id: refund.id, amount_cents: refund.amount_cents },
+  })
+}
+
+export const DELIVERY_HANDLERS: Record<DeliveryHandler, DeliveryHandlerFn> = {
+  customer_notification: deliverCustomerNotification,
+  partner_notification: deliverPartnerNotification,
+  admin_alert: deliverAdminAlert,
+  dispute_case: deliverDisputeCase,
+  stripe_refund: deliverStripeRefund,
+}
+
+// ============================================
+// WORKER
+// ============================================
+
+/**
+ * Create the deliveries for events that don't have them yet
+ */
+async function dispatchEvents(db: SupabaseClient, options: { orderId?: string; limit: number }): Promise<number> {
+  let query = db
+    .from('domain_events')
+    .select('id, event_type, order_id')
+    .is('dispatched_at', null)
+    .order('created_at', { ascending: true })
+    .limit(options.limit)
+
+  if (options.orderId) query = query.eq('order_id', options.orderId)
+
+  const { data: events, error } = await query
+  if (error) throw error
+
+  for (const event of events || []) {
+    const handlers = DOMAIN_EVENT_HANDLERS[event.event_type as DomainEventType] || []
+
+    if (handlers.length > 0) {
+      const { error: insertError } = await db.from('domain_event_deliveries').upsert(
+        handlers.map((handler) => ({
+          event_id: event.id,
+          order_id: event.order_id,
+          handler,
+          idempotency_key: getDeliveryIdempotencyKey(event.id, handler),
+        })),
+        { onConflict: 'idempotency_key', ignoreDuplicates: true }
+      )
+      if (insertError) throw insertError
+    }
+
+    await db.from('domain_events').update({ dispatched_at: new Date().toISOString() }).eq('id', event.id)
+  }
+
+  return (events || []).length
+}
+
+/**
+ * Reserve a delivery for this worker. Conditional on the attempt count read,
+ * so two workers can't both claim the same attempt.
+ */
+async function claimDelivery(db: SupabaseClient, delivery: EventDelivery, now: Date): Promise<EventDelivery | null> {
+  const { data, error } = await db
+    .from('domain_event_deliveries')
+    .update({
+      attempts: delivery.attempts + 1,
+      locked_until: new Date(now.getTime() + OUTBOX_LOCK_MS).toISOString(),
+    })
+    .eq('id', delivery.id)
+    .eq('status', 'pending')
+    .eq('attempts', delivery.attempts)
+    .select()
+    .maybeSingle()
+
+  if (error) throw error
+  return data as EventDelivery | null
+}
+
+/**
+ * Run one claimed delivery and record the outcome
+ */
+export async function runDelivery(
+  db: SupabaseClient,
+  delivery: EventDelivery,
+  event: DomainEvent,
+  options: { now?: Date; handlers?: Record<DeliveryHandler, DeliveryHandlerFn> } = {}
+): Promise<DeliveryStatus | 'retrying'> {
+  const now = options.now || new Date()
+  const handlers = options.handlers || DELIVERY_HANDLERS
+
+  try {
+    const { data: order, error: orderError } = await db
+      .from('orders')
+      .select('*')
+      .eq('id', event.order_id)
+      .single()
+
+    if (orderError || !order) throw new Error('Order not found')
+
+    await handlers[delivery.handler]({ db, event, order, delivery })
+
+    await db
+      .from('domain_event_deliveries')
+      .update({ status: 'delivered', delivered_at: now.toISOString(), locked_until: null, last_error: null })
+      .eq('id', delivery.id)
+
+    return 'delivered'
+  } catch (error) {
+    const message = getErrorMessage(error)
+
+    if (delivery.attempts >= OUTBOX_MAX_ATTEMPTS) {
+      await db
+        .from('domain_event_deliveries')
+        .update({ status: 'dead', locked_until: null, last_error: message })
+        .eq('id', delivery.id)
+
+      await db.from('audit_logs').insert({
+        actor_role: 'system',
+        action: 'outbox.delivery_dead',
+        entity_type: 'order',
+        entity_id: event.order_id,
+        changes: {
+          event_id: event.id,
+          event_type: event.event_type,
+          handler: delivery.handler,
+          attempts: delivery.attempts,
+          error: message,
+        },
+      })
+
+      logger.error({ event: 'outbox_delivery_dead', delivery_id: delivery.id, handler: delivery.handler, error: message }, 'Outbox delivery gave up')
+      return 'dead'
+    }
+
+    await db
+      .from('domain_event_deliveries')
+      .update({
+        locked_until: null,
+        last_error: message,
+        next_attempt_at: new Date(now.getTime() + getRetryDelayMs(delivery.attempts)).toISOString(),
+      })
+      .eq('id', delivery.id)
+
+    logger.warn({ event: 'outbox_delivery_failed', delivery_id: delivery.id, handler: delivery.handler, attempts: delivery.attempts, error: message }, 'Outbox delivery failed, will retry')
+    return 'retrying'
+  }
+}
+
+/**
+ * Dispatch new events and run due deliveries, optionally for one order
+ */
+export async function processOutbox(
+  db: SupabaseClient,
+  options: {
+    orderId?: string
+    limit?: number
+    now?: Date
+    handlers?: Record<DeliveryHandler, DeliveryHandlerFn>
+  } = {}
+): Promise<OutboxRunResult> {
+  const now = options.now || new Date()
+  const limit = options.limit || OUTBOX_BATCH_SIZE
+  const result: OutboxRunResult = { dispatched: 0, delivered: 0, retrying: 0, dead: 0, skipped: 0 }
+
+  result.dispatched = await dispatchEvents(db, { orderId: options.orderId, limit })
+
+  let query = db
+    .from('domain_event_deliveries')
+    .select('*, domain_events(*)')
+    .eq('status', 'pending')
+    .lte('next_attempt_at', now.toISOString())
+    .or(`locked_until.is.null,locked_until.lt.${now.toISOString()}`)
+    .order('next_attempt_at', { ascending: true })
+    .limit(limit)
+
+  if (options.orderId) query = query.eq('order_id', options.orderId)
+
+  const { data: deliveries, error } = await query
+  if (error) throw error
+
+  for (const row of deliveries || []) {
+    const { domain_events: event, ...delivery } = row
+
+    const claimed = await claimDelivery(db, delivery as EventDelivery, now)
+    if (!claimed) {
+      result.skipped++
+      continue
+    }
+
+    const status = await runDelivery(db, claimed, event as DomainEvent, { now, handlers: options.handlers })
+    if (status === 'delivered') result.delivered++
+    else if (status === 'dead') result.dead++
+    else result.retrying++
+  }
+
+  return result
+}
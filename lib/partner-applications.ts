@@ -0,0 +1,352 @@
+/**
+ * Partner Applications
+ *
+ * Onboarding pipeline for laundromats and cleaning crews applying to become
+ * partners through the public form at /partners/apply.
+ *
+ * Lifecycle:
+ * - pending: Submitted (or resubmitted), waiting in the admin queue
+ * - under_review: An admin picked it up
+ * - info_requested: Admin asked the applicant for more details; the applicant
+ *   resubmits the form and it goes back to pending
+ * - approved: A partners row was created and the applicant's account linked (terminal)
+ * - rejected: Declined (terminal)
+ *
+ * @module lib/partner-applications
+ */
+
+import { z } from 'zod'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { PartnerCapabilities, LaundryCapability, CleaningCapability } from './types'
+
+// ============================================
+// TYPES
+// ============================================
+
+export type PartnerServiceType = 'LAUNDRY' | 'CLEANING'
+
+export type PartnerApplicationStatus = 'pending' | 'under_review' | 'info_requested' | 'approved' | 'rejected'
+
+export type PartnerApplicationDecision = 'start_review' | 'request_info' | 'approve' | 'reject'
+
+export interface PartnerApplication {
+  id: string
+  business_name: string
+  contact_name: string
+  contact_email: string
+  contact_phone: string
+  service_type: PartnerServiceType
+  address: string
+  zip: string
+  capabilities: PartnerCapabilities
+  service_areas: string[]
+  description: string | null
+  status: PartnerApplicationStatus
+  info_request: string | null
+  notes: string | null
+  documents: Record<string, string>
+  partner_id: string | null
+  submitted_at: string
+  reviewed_by: string | null
+  reviewed_at: string | null
+  updated_at: string
+}
+
+export interface LinkPartnerAccountResult {
+  profileId: string | null
+  /** A new account was created and an invite email sent */
+  invited: boolean
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const APPLICATION_STATUS_LABELS: Record<PartnerApplicationStatus, string> = {
+  pending: 'New',
+  under_review: 'Under Review',
+  info_requested: 'Info Requested',
+  approved: 'Approved',
+  rejected: 'Rejected',
+}
+
+export const CAPABILITY_OPTIONS: {
+  LAUNDRY: { key: LaundryCapability; label: string }[]
+  CLEANING: { key: CleaningCapability; label: string }[]
+} = {
+  LAUNDRY: [
+    { key: 'wash_fold', label: 'Wash & fold' },
+    { key: 'dry_clean', label: 'Dry cleaning' },
+    { key: 'mixed', label: 'Mixed orders (wash & fold + dry cleaning)' },
+  ],
+  CLEANING: [
+    { key: 'standard', label: 'Standard cleaning' },
+    { key: 'deep_clean', label: 'Deep cleaning' },
+    { key: 'move_in_out', label: 'Move-in / move-out' },
+    { key: 'post_construction', label: 'Post-construction' },
+    { key: 'commercial', label: 'Commercial spaces' },
+  ],
+}
+
+/**
+ * Starting payout and capacity for newly approved partners, matching the
+ * defaults of the admin "new partner" form
+ */
+export const DEFAULT_PAYOUT_PERCENT = 65
+export const DEFAULT_MAX_ORDERS_PER_SLOT = 8
+export const DEFAULT_MAX_MINUTES_PER_SLOT = 240
+
+const APPLICATION_TRANSITIONS: Record<
+  PartnerApplicationDecision,
+  { from: PartnerApplicationStatus[]; to: PartnerApplicationStatus }
+> = {
+  start_review: { from: ['pending'], to: 'under_review' },
+  request_info: { from: ['pending', 'under_review'], to: 'info_requested' },
+  approve: { from: ['pending', 'under_review', 'info_requested'], to: 'approved' },
+  reject: { from: ['pending', 'under_review', 'info_requested'], to: 'rejected' },
+}
+
+// ============================================
+// VALIDATION SCHEMAS
+// ============================================
+
+const zipSchema = z.string().trim().regex(/^\d{5}$/, 'ZIP codes must be 5 digits')
+
+const capabilitiesSchema = z.record(z.boolean())
+
+export const partnerApplicationSchema = z.object({
+  business_name: z.string().trim().min(2, 'Business name is required').max(200),
+  contact_name: z.string().trim().min(2, 'Contact name is required').max(200),
+  contact_email: z.string().trim().toLowerCase().email('Invalid email address'),
+  contact_phone: z.string().trim().regex(/^\+?[\d\s().-]{10,20}$/, 'Invalid phone number'),
+  service_type: z.enum(['LAUNDRY', 'CLEANING']),
+  address: z.string().trim().min(5, 'Business address is required').max(500),
+  zip: zipSchema,
+  service_areas: z.array(zipSchema).max(50).default([]),
+  capabilities: capabilitiesSchema.default({}),
+  description: z.string().trim().max(2000).optional(),
+}).refine(
+  (data) => hasAnyCapability(data.service_type, data.capabilities),
+  { message: 'Select at least one service you offer', path: ['capabilities'] }
+)
+
+export const applicationDecisionSchema = z.object({
+  decision: z.enum(['start_review', 'request_info', 'approve', 'reject']),
+  /** Sent to the applicant; required when requesting info or rejecting */
+  message: z.string().trim().max(2000).optional(),
+  /** Internal note, never shown to the applicant */
+  notes: z.string().trim().max(2000).optional(),
+  /** Approval overrides */
+  payout_percent: z.number().min(0).max(100).optional(),
+  service_areas: z.array(zipSchema).min(1).optional(),
+  capabilities: capabilitiesSchema.optional(),
+  max_orders_per_slot: z.number().int().min(1).optional(),
+  max_minutes_per_slot: z.number().int().min(1).optional(),
+}).refine(
+  (data) => !(data.decision === 'request_info' || data.decision === 'reject') || !!data.message,
+  { message: 'A message to the applicant is required', path: ['message'] }
+)
+
+export type PartnerApplicationInput = z.infer<typeof partnerApplicationSchema>
+export type ApplicationDecisionInput = z.infer<typeof applicationDecisionSchema>
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Resolve the status a decision moves an application to
+ * Returns null when the decision isn't allowed from the current status
+ */
+export function getNextApplicationStatus(
+  current: PartnerApplicationStatus,
+  decision: PartnerApplicationDecision
+): PartnerApplicationStatus | null {
+  const rule = APPLICATION_TRANSITIONS[decision]
+  return rule.from.includes(current) ? rule.to : null
+}
+
+/**
+ * Check whether an admin can still act on an application
+ */
+export function isApplicationOpen(status: PartnerApplicationStatus): boolean {
+  return status !== 'approved' && status !== 'rejected'
+}
+
+/**
+ * Check whether the applicant can resubmit the form for an existing application
+ */
+export function canResubmitApplication(status: PartnerApplicationStatus): boolean {
+  return status === 'info_requested'
+}
+
+/**
+ * Keep only the capabilities that belong to the service type, with every
+ * capability for that type set explicitly
+ */
+export function normalizeCapabilities(
+  serviceType: PartnerServiceType,
+  capabilities: Record<string, boolean> | null | undefined
+): PartnerCapabilities {
+  const normalized: PartnerCapabilities = {}
+  for (const { key } of CAPABILITY_OPTIONS[serviceType]) {
+    normalized[key] = capabilities?.[key] === true
+  }
+  return normalized
+}
+
+export function hasAnyCapability(
+  serviceType: PartnerServiceType,
+  capabilities: Record<string, boolean> | null | undefined
+): boolean {
+  return Object.values(normalizeCapabilities(serviceType, capabilities)).some(Boolean)
+}
+
+/**
+ * De-duplicated service ZIPs, falling back to the business's own ZIP
+ */
+export function normalizeServiceAreas(serviceAreas: string[] | null | undefined, zip: string): string[] {
+  const zips = Array.from(new Set((serviceAreas || []).map((z) => z.trim()).filter(Boolean)))
+  return zips.length > 0 ? zips : [zip]
+}
+
+/**
+ * Build the partners row for an approved application
+ */
+export function buildPartnerFromApplication(
+  application: Pick<
+    PartnerApplication,
+    'business_name' | 'contact_email' | 'contact_phone' | 'service_type' | 'address' | 'zip' | 'capabilities' | 'service_areas'
+  >,
+  overrides: Pick<
+    ApplicationDecisionInput,
+    'payout_percent' | 'service_areas' | 'capabilities' | 'max_orders_per_slot' | 'max_minutes_per_slot'
+  > = {}
+): Record<string, any> {
+  const serviceType = application.service_type
+
+  const partner: Record<string, any> = {
+    name: application.business_name,
+    service_type: serviceType,
+    contact_email: application.contact_email.toLowerCase(),
+    contact_phone: application.contact_phone,
+    address: application.address,
+    payout_percent: overrides.payout_percent ?? DEFAULT_PAYOUT_PERCENT,
+    service_areas: normalizeServiceAreas(overrides.service_areas ?? application.service_areas, application.zip),
+    capabilities: normalizeCapabilities(serviceType, overrides.capabilities ?? (application.capabilities as Record<string, boolean>)),
+    capabilities_version: 1,
+    active: true,
+  }
+
+  if (serviceType === 'LAUNDRY') {
+    partner.max_orders_per_slot = overrides.max_orders_per_slot ?? DEFAULT_MAX_ORDERS_PER_SLOT
+  } else {
+    partner.max_minutes_per_slot = overrides.max_minutes_per_slot ?? DEFAULT_MAX_MINUTES_PER_SLOT
+  }
+
+  return partner
+}
+
+/**
+ * Link a newly created partner to the applicant's auth account
+ *
+ * Uses the existing profile for the contact email when there is one;
+ * otherwise invites the applicant, which creates their auth user and profile
+ * and emails them a link to set a password. Either way the profile gets the
+ * partner role (admins keep theirs) and partners.profile_id is set, so the
+ * partner portal finds them by profile_id rather than the email fallback.
+ */
+export async function linkPartnerAccount(
+  db: SupabaseClient,
+  partner: { id: string; contact_email: string },
+  contact: { full_name: string; phone: string }
+): Promise<LinkPartnerAccountResult> {
+  const email = partner.contact_email.toLowerCase()
+  let invited = false
+
+  const { data: existingProfile } = await db
+    .from('profiles')
+    .select('id, role')
+    .eq('email', email)
+    .maybeSingle()
+
+  let profileId: string | null = existingProfile?.id || null
+
+  if (!profileId) {
+    const { data, error } = await db.auth.admin.inviteUserByEmail(email, {
+      data: { full_name: contact.full_name, phone: contact.phone },
+    })
+    if (error || !data?.user) {
+      throw new Error(`Failed to invite partner account: ${error?.message || 'no user returned'}`)
+    }
+    profileId = data.user.id
+    invited = true
+  }
+
+  if (existingProfile?.role !== 'admin') {
+    const { error } = await db
+      .from('profiles')
+      .update({ role: 'partner' })
+      .eq('id', profileId)
+    if (error) throw error
+  }
+
+  const { error: linkError } = await db
+    .from('partners')
+    .update({ profile_id: profileId })
+    .eq('id', partner.id)
+  if (linkError) throw linkError
+
+  return { profileId, invited }
+}
+
+/**
+ * Email sent to the applicant after a decision, or null when there's nothing to tell them
+ */
+export function getApplicantEmail(
+  application: Pick<PartnerApplication, 'contact_name' | 'business_name'>,
+  decision: PartnerApplicationDecision,
+  message?: string | null,
+  invited?: boolean
+): { subject: string; text: string } | null {
+  const greeting = `Hi ${application.contact_name},`
+
+  switch (decision) {
+    case 'approve':
+      return {
+        subject: 'Welcome to Tidyhood — your partner application was approved',
+        text: [
+          greeting,
+          `${application.business_name} is now a Tidyhood partner.`,
+          invited
+            ? 'We sent you a separate email with a link to set your password for the partner portal.'
+            : 'Sign in to the partner portal with your existing Tidyhood account to see your orders.',
+          message || '',
+          '— Tidyhood',
+        ].filter(Boolean).join('\n\n'),
+      }
+    case 'request_info':
+      return {
+        subject: 'Tidyhood partner application — we need a few more details',
+        text: [
+          greeting,
+          `Thanks for applying to partner with Tidyhood. Before we can finish reviewing ${application.business_name}, we need a bit more information:`,
+          message || '',
+          'Submit the application form again with the same email address to update your application.',
+          '— Tidyhood',
+        ].filter(Boolean).join('\n\n'),
+      }
+    case 'reject':
+      return {
+        subject: 'Your Tidyhood partner application',
+        text: [
+          greeting,
+          `Thanks for your interest in partnering with Tidyhood. We're unable to approve the application for ${application.business_name} at this time.`,
+          message || '',
+          '— Tidyhood',
+        ].filter(Boolean).join('\n\n'),
+      }
+    default:
+      return null
+  }
+}
@@ -0,0 +1,61 @@
+import { selectConversation, type Conversation, type ConversationState } from '../conversation-state';
+import { responses } from '../response-templates';
+
+function conversation(orderId: string, state: ConversationState): Conversation {
+  return {
+    id: `conv-${orderId}`,
+    partner_id: 'partner-1',
+    order_id: orderId,
+    phone: '+15555555555',
+    state,
+    context: { service_type: 'laundry' },
+    last_message_at: new Date().toISOString(),
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+  };
+}
+
+const pickup = conversation('00000000-0000-0000-0000-0000aaaa1111', 'awaiting_pickup_notification');
+const weighing = conversation('00000000-0000-0000-0000-0000bbbb2222', 'awaiting_weight');
+const delivery = conversation('00000000-0000-0000-0000-0000cccc3333', 'awaiting_delivery_confirm');
+const secondPickup = conversation('00000000-0000-0000-0000-0000dddd4444', 'awaiting_pickup_notification');
+
+describe('Partner SMS order targeting', () => {
+  it('should use the only active order', () => {
+    const match = selectConversation([delivery], { type: 'picked_up', confidence: 'high' });
+    expect(match).toEqual({ type: 'matched', conversation: delivery });
+  });
+
+  it('should pick the one order waiting on that reply', () => {
+    const conversations = [pickup, weighing, delivery];
+    expect(selectConversation(conversations, { type: 'picked_up', confidence: 'high' })).toEqual({ type: 'matched', conversation: pickup });
+    expect(selectConversation(conversations, { type: 'weight', value: 18, confidence: 'high' })).toEqual({ type: 'matched', conversation: weighing });
+    expect(selectConversation(conversations, { type: 'delivered', confidence: 'high' })).toEqual({ type: 'matched', conversation: delivery });
+  });
+
+  it('should ask which order when several fit', () => {
+    const match = selectConversation([pickup, weighing, secondPickup], { type: 'picked_up', confidence: 'high' });
+    expect(match).toEqual({ type: 'ambiguous', candidates: [pickup, secondPickup] });
+  });
+
+  it('should target the order named in the reply', () => {
+    const match = selectConversation([pickup, secondPickup], { type: 'picked_up', confidence: 'high', order_short_id: 'dddd4444' });
+    expect(match).toEqual({ type: 'matched', conversation: secondPickup });
+  });
+
+  it('should not fall back to another order when the named one is not active', () => {
+    const match = selectConversation([pickup], { type: 'picked_up', confidence: 'high', order_short_id: 'EEEE5555' });
+    expect(match).toEqual({ type: 'not_found', orderShortId: 'EEEE5555' });
+  });
+
+  it('should report no active orders', () => {
+    expect(selectConversation([], { type: 'confirm', confidence: 'high' })).toEqual({ type: 'not_found' });
+  });
+
+  it('should list active orders with their next step', () => {
+    const message = responses.activeOrders([pickup, weighing]);
+    expect(message).toContain('#AAAA1111 laundry - reply PICKED UP');
+    expect(message).toContain('#BBBB2222 laundry - reply with weight');
+    expect(responses.activeOrders([])).toContain('No active orders');
+  });
+});
@@ -0,0 +1,30 @@
+import { StubIntentClassifier } from '../intent-classifier';
+import { evaluateIntentCorpus, formatIntentEvalReport, type GoldenCase } from '../intent-eval';
+import corpus from './golden-corpus.json';
+
+/**
+ * Golden corpus evaluation
+ * `npm run eval:sms-intents` sets SMS_INTENT_REPORT to print the per-intent
+ * report; plain test runs stay quiet. With the stub
+ * fallback this measures the rules alone, which must never mislabel a reply:
+ * anything they can't read should fall through as unknown.
+ */
+describe('SMS intent golden corpus', () => {
+  it('should label replies precisely', async () => {
+    // The parser logs every reply
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const result = await evaluateIntentCorpus(corpus as GoldenCase[], new StubIntentClassifier());
+    log.mockRestore();
+
+    if (process.env.SMS_INTENT_REPORT) {
+      process.stdout.write(`\n${formatIntentEvalReport(result)}\n\n`);
+    }
+
+    for (const score of result.scores) {
+      if (score.intent !== 'unknown' && score.precision !== null) {
+        expect({ intent: score.intent, precision: score.precision }).toEqual({ intent: score.intent, precision: 1 });
+      }
+    }
+    expect(result.accuracy).toBeGreaterThanOrEqual(0.9);
+  });
+});
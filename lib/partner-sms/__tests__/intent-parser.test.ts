@@ -1,15 +1,24 @@
-import { parseIntent } from '../intent-parser';
+import { parseIntent, extractOrderShortId } from '../intent-parser';
+import { StubIntentClassifier } from '../intent-classifier';
+import type { Conversation } from '../conversation-state';
 
 // Mock conversation states for testing
-const mockConversation = {
+const mockConversation: Conversation = {
   id: 'test-conv',
-  partner_phone: '+15555555555',
+  partner_id: 'test-partner',
+  phone: '+15555555555',
   order_id: 'test-order',
-  state: 'awaiting_pickup_confirmation' as const,
+  state: 'awaiting_pickup_confirm',
+  context: {},
+  last_message_at: new Date().toISOString(),
   created_at: new Date().toISOString(),
   updated_at: new Date().toISOString(),
 };
 
+// Weights and times are only read when we've asked for them
+const weighingConversation: Conversation = { ...mockConversation, state: 'awaiting_weight' };
+const suggestingConversation: Conversation = { ...mockConversation, state: 'awaiting_delivery_suggestion' };
+
 describe('SMS Intent Parser', () => {
   describe('Confirmation patterns', () => {
     it('should parse "confirm" as confirm intent', async () => {
@@ -35,22 +44,45 @@ describe('SMS Intent Parser', () => {
 
   describe('Weight patterns', () => {
     it('should parse "18" as weight intent', async () => {
-      const intent = await parseIntent('18', mockConversation);
+      const intent = await parseIntent('18', weighingConversation);
       expect(intent.type).toBe('weight');
       expect(intent.data?.weight).toBe(18);
     });
 
     it('should parse "25 lbs" as weight intent', async () => {
-      const intent = await parseIntent('25 lbs', mockConversation);
+      const intent = await parseIntent('25 lbs', weighingConversation);
       expect(intent.type).toBe('weight');
       expect(intent.data?.weight).toBe(25);
     });
 
     it('should parse "14.5" as weight intent with decimal', async () => {
-      const intent = await parseIntent('14.5', mockConversation);
+      const intent = await parseIntent('14.5', weighingConversation);
       expect(intent.type).toBe('weight');
       expect(intent.data?.weight).toBe(14.5);
     });
+
+    it('should not read a number as a weight before pickup', async () => {
+      const intent = await parseIntent('18', mockConversation);
+      expect(intent.type).toBe('unknown');
+    });
+
+    it('should read a weight when any active order is awaiting one', async () => {
+      const intent = await parseIntent('18', [mockConversation, weighingConversation]);
+      expect(intent.type).toBe('weight');
+    });
+  });
+
+  describe('Delivery time patterns', () => {
+    it('should parse "tomorrow 2pm" as suggest_time when we asked for a time', async () => {
+      const intent = await parseIntent('tomorrow 2pm', suggestingConversation);
+      expect(intent.type).toBe('suggest_time');
+      expect(intent.data?.time).toBe('tomorrow 2pm');
+    });
+
+    it('should not read a time we did not ask for', async () => {
+      const intent = await parseIntent('tomorrow 2pm', mockConversation);
+      expect(intent.type).toBe('unknown');
+    });
   });
 
   describe('Status update patterns', () => {
@@ -92,6 +124,11 @@ describe('SMS Intent Parser', () => {
       const intent = await parseIntent("can't make it", mockConversation);
       expect(intent.type).toBe('reschedule');
     });
+
+    it('should not parse "I can\'t find the building" as reschedule', async () => {
+      const intent = await parseIntent("I can't find the building", mockConversation);
+      expect(intent.type).toBe('unknown');
+    });
   });
 
   describe('Cancel patterns', () => {
@@ -101,6 +138,80 @@ describe('SMS Intent Parser', () => {
     });
   });
 
+  describe('Active orders patterns', () => {
+    it('should parse "orders" as active_orders intent', async () => {
+      const intent = await parseIntent('ORDERS', mockConversation);
+      expect(intent.type).toBe('active_orders');
+    });
+
+    it('should parse "active orders" as active_orders intent', async () => {
+      const intent = await parseIntent('active orders?', mockConversation);
+      expect(intent.type).toBe('active_orders');
+    });
+  });
+
+  describe('Order targeting', () => {
+    it('should attach the order ID to the intent', async () => {
+      const intent = await parseIntent('picked up #1a2b3c4d', mockConversation);
+      expect(intent.type).toBe('picked_up');
+      expect(intent.order_short_id).toBe('1A2B3C4D');
+    });
+
+    it('should not read digits in the order ID as a weight', async () => {
+      const intent = await parseIntent('18 lbs 9A0B1234', weighingConversation);
+      expect(intent.type).toBe('weight');
+      expect(intent.data?.weight).toBe(18);
+      expect(intent.order_short_id).toBe('9A0B1234');
+    });
+
+    it('should leave replies without an order ID untargeted', async () => {
+      const intent = await parseIntent('delivered', mockConversation);
+      expect(intent.order_short_id).toBeUndefined();
+    });
+
+    it('should not treat a plain number as an order ID', () => {
+      expect(extractOrderShortId('12345678')).toEqual({ rest: '12345678' });
+      expect(extractOrderShortId('12345678', ['9A0B1234'])).toEqual({ rest: '12345678' });
+    });
+
+    it('should read an all-digit ID that names an active order', () => {
+      expect(extractOrderShortId('delivered 12345678', ['9A0B1234', '12345678'])).toEqual({
+        orderShortId: '12345678',
+        rest: 'delivered',
+      });
+    });
+
+    it('should prefer the token naming an active order', () => {
+      expect(extractOrderShortId('picked up 1a2b3c4d 12345678', ['12345678'])).toEqual({
+        orderShortId: '12345678',
+        rest: 'picked up 1a2b3c4d',
+      });
+    });
+
+    it('should target an active order whose short ID is all digits', async () => {
+      const numericOrder: Conversation = { ...mockConversation, order_id: 'c0ffee00-0000-4000-8000-000012345678' };
+      const intent = await parseIntent('picked up 12345678', [numericOrder, { ...mockConversation, id: 'other' }]);
+      expect(intent.type).toBe('picked_up');
+      expect(intent.order_short_id).toBe('12345678');
+    });
+  });
+
+  describe('Fallback classifier', () => {
+    it('should hand replies the rules cannot read to the fallback', async () => {
+      const fallback = new StubIntentClassifier({
+        'left it with the doorman': { type: 'delivered', confidence: 'medium' },
+      });
+      const intent = await parseIntent('Left it with the doorman', mockConversation, fallback);
+      expect(intent.type).toBe('delivered');
+    });
+
+    it('should not consult the fallback when a rule matches', async () => {
+      const fallback = new StubIntentClassifier({ delivered: { type: 'unknown', confidence: 'low' } });
+      const intent = await parseIntent('delivered', mockConversation, fallback);
+      expect(intent.type).toBe('delivered');
+    });
+  });
+
   describe('Edge cases', () => {
     it('should handle empty message', async () => {
       const intent = await parseIntent('', mockConversation);
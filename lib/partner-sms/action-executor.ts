@@ -1,16 +1,50 @@
 import { getServiceClient } from '@/lib/db';
 import { sendSMS } from '@/lib/sms';
 import { responses, formatTimeForSMS, formatAddressForSMS } from './response-templates';
-import { updateConversationState, type Conversation } from './conversation-state';
+import { selectConversation, updateConversationState, type Conversation } from './conversation-state';
 import type { ParsedIntent } from './intent-parser';
 
 /**
  * Action Executor
  * Maps parsed intents to actual API calls/database updates
  * Thin wrapper over existing functionality
+ *
+ * A partner can have several orders in flight, each with its own
+ * conversation. The intent is applied to the one it targets (see
+ * selectConversation); when that's unclear the partner is asked which.
  */
 
 export async function executeAction(
+  intent: ParsedIntent,
+  conversations: Conversation[],
+  partnerPhone: string
+): Promise<string> {
+  // Commands that aren't about a single order
+  if (intent.type === 'active_orders') {
+    return responses.activeOrders(conversations);
+  }
+  if (intent.type === 'help') {
+    return responses.help();
+  }
+  if (intent.type === 'unknown') {
+    return responses.unknown();
+  }
+
+  const match = selectConversation(conversations, intent);
+  if (match.type === 'ambiguous') {
+    return responses.whichOrder(match.candidates);
+  }
+  if (match.type === 'not_found') {
+    return responses.notFound(match.orderShortId);
+  }
+
+  return executeOrderAction(intent, match.conversation, partnerPhone);
+}
+
+/**
+ * Apply an intent to one order's conversation
+ */
+async function executeOrderAction(
   intent: ParsedIntent,
   conversation: Conversation,
   partnerPhone: string
@@ -32,7 +66,18 @@ export async function executeAction(
       }
 
       case 'reschedule': {
-        // Mark as needing reschedule, direct to portal
+        // Delivery: ask for a better time over SMS
+        if (conversation.state === 'awaiting_delivery_confirm') {
+          await updateConversationState(
+            conversation.id,
+            'awaiting_delivery_suggestion',
+            { delivery_reschedule_requested: true }
+          );
+
+          return responses.deliveryRescheduled();
+        }
+
+        // Pickup: mark as needing reschedule, direct to portal
         await updateConversationState(
           conversation.id,
           'idle',
@@ -107,6 +152,25 @@ export async function executeAction(
         return responses.quoteReady(quoteCents, weight);
       }
 
+      case 'suggest_time': {
+        const suggestedTime = intent.data?.time || String(intent.value || '');
+        if (!suggestedTime) {
+          return responses.deliveryRescheduled();
+        }
+
+        // Back to awaiting confirmation until ops agree the new time
+        await updateConversationState(
+          conversation.id,
+          'awaiting_delivery_confirm',
+          {
+            suggested_delivery_time: suggestedTime,
+            suggested_at: new Date().toISOString()
+          }
+        );
+
+        return responses.deliveryTimeReceived(suggestedTime);
+      }
+
       case 'delivered': {
         if (!conversation.order_id) {
           return responses.notFound();
@@ -131,11 +195,6 @@ export async function executeAction(
         return responses.deliveryConfirmed(deliveryTime);
       }
 
-      case 'help': {
-        return responses.unknown();
-      }
-
-      case 'unknown':
       default: {
         return responses.unknown();
       }
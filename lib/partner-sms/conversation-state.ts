@@ -1,4 +1,6 @@
 import { getServiceClient } from '@/lib/db';
+import { shortOrderId } from '@/lib/ids';
+import type { ParsedIntent } from './intent-parser';
 
 export type ConversationState = 
   | 'idle'
@@ -29,28 +31,27 @@ export interface Conversation {
 }
 
 /**
- * Get active conversation for a phone number
- * Returns most recent non-idle conversation, or creates new idle one
+ * Get every order a phone number is mid-conversation about
+ * Each order has its own conversation row, so a partner with several pickups
+ * in a day has one non-idle conversation per order, most recent first
  */
-export async function getActiveConversation(phone: string): Promise<Conversation | null> {
+export async function getActiveConversations(phone: string): Promise<Conversation[]> {
   const db = getServiceClient();
   
-  // Get most recent conversation for this phone
   const { data, error } = await db
     .from('partner_sms_conversations')
     .select('*')
     .eq('phone', phone)
-    .order('last_message_at', { ascending: false })
-    .limit(1)
-    .single();
+    .neq('state', 'idle')
+    .not('order_id', 'is', null)
+    .order('last_message_at', { ascending: false });
   
-  if (error && error.code !== 'PGRST116') {
-    // PGRST116 is "no rows returned" which is okay
-    console.error('Error getting conversation:', error);
-    return null;
+  if (error) {
+    console.error('Error getting conversations:', error);
+    return [];
   }
   
-  return data;
+  return data || [];
 }
 
 /**
@@ -160,33 +161,58 @@ export async function endConversation(conversationId: string): Promise<boolean>
 }
 
 /**
- * Get or create conversation for a phone number
- * Used by webhook to get existing conversation or create idle one
+ * States in which each intent makes sense, used to work out which order a
+ * reply without an order ID is about
  */
-export async function getOrCreateConversation(phone: string): Promise<Conversation | null> {
-  let conversation = await getActiveConversation(phone);
-  
-  if (!conversation) {
-    // Create new idle conversation (no partner/order assigned yet)
-    const db = getServiceClient();
-    
-    const { data, error } = await db
-      .from('partner_sms_conversations')
-      .insert({
-        phone,
-        state: 'idle',
-        context: {},
-      })
-      .select()
-      .single();
-    
-    if (error) {
-      console.error('Error creating conversation:', error);
-      return null;
-    }
-    
-    conversation = data;
+export const INTENT_STATES: Partial<Record<ParsedIntent['type'], ConversationState[]>> = {
+  confirm: ['awaiting_pickup_confirm', 'awaiting_quote_approval', 'awaiting_delivery_confirm'],
+  reschedule: ['awaiting_pickup_confirm', 'awaiting_delivery_confirm'],
+  picked_up: ['awaiting_pickup_confirm', 'awaiting_pickup_notification'],
+  weight: ['awaiting_weight'],
+  suggest_time: ['awaiting_delivery_suggestion'],
+  delivered: ['awaiting_delivery_confirm'],
+};
+
+export type ConversationMatch =
+  | { type: 'matched'; conversation: Conversation }
+  | { type: 'ambiguous'; candidates: Conversation[] }
+  | { type: 'not_found'; orderShortId?: string };
+
+/**
+ * Pick the order conversation an intent is about
+ *
+ * An order ID in the reply wins. Otherwise the intent must fit exactly one
+ * order's state; a partner with a single active order never has to say which.
+ */
+export function selectConversation(
+  conversations: Conversation[],
+  intent: ParsedIntent
+): ConversationMatch {
+  if (intent.order_short_id) {
+    const targetId = intent.order_short_id.toUpperCase();
+    const conversation = conversations.find(
+      (c) => c.order_id && shortOrderId(c.order_id) === targetId
+    );
+    return conversation
+      ? { type: 'matched', conversation }
+      : { type: 'not_found', orderShortId: targetId };
   }
-  
-  return conversation;
+
+  if (conversations.length === 0) {
+    return { type: 'not_found' };
+  }
+  if (conversations.length === 1) {
+    return { type: 'matched', conversation: conversations[0] };
+  }
+
+  const states = INTENT_STATES[intent.type];
+  const candidates = states
+    ? conversations.filter((c) => states.includes(c.state))
+    : conversations;
+
+  if (candidates.length === 1) {
+    return { type: 'matched', conversation: candidates[0] };
+  }
+
+  return { type: 'ambiguous', candidates: candidates.length > 0 ? candidates : conversations };
 }
@@ -0,0 +1,182 @@
+import Anthropic from '@anthropic-ai/sdk';
+import type { Conversation, ConversationState } from './conversation-state';
+import type { ParsedIntent } from './intent-parser';
+
+/**
+ * Intent Classifiers
+ * The parser runs the rules engine first (intent-rules.ts) and hands anything
+ * it can't match to a fallback classifier. The fallback is pluggable: the
+ * Anthropic provider in production, a deterministic local stub in tests and
+ * offline development.
+ */
+
+export const INTENT_TYPES: ParsedIntent['type'][] = [
+  'confirm',
+  'reschedule',
+  'picked_up',
+  'weight',
+  'suggest_time',
+  'delivered',
+  'help',
+  'cancel',
+  'active_orders',
+  'unknown',
+];
+
+/**
+ * What a classifier knows about the partner when reading a reply
+ */
+export interface ClassifierContext {
+  /** The partner's active order conversations, most recent first */
+  conversations: Conversation[];
+  /** States of those conversations ('idle' when there are none) */
+  states: ConversationState[];
+}
+
+export interface IntentClassifier {
+  readonly name: string;
+  /** Returns null when the classifier has no opinion */
+  classify(message: string, context: ClassifierContext): Promise<ParsedIntent | null>;
+}
+
+/**
+ * Build the context for a set of active conversations
+ */
+export function buildClassifierContext(conversations: Conversation[]): ClassifierContext {
+  return {
+    conversations,
+    states: conversations.length > 0 ? conversations.map((c) => c.state) : ['idle'],
+  };
+}
+
+// ============================================
+// ANTHROPIC
+// ============================================
+
+/**
+ * Claude Haiku for replies the rules can't read
+ */
+export class AnthropicIntentClassifier implements IntentClassifier {
+  readonly name = 'anthropic';
+
+  constructor(private readonly apiKey: string) {}
+
+  async classify(message: string, context: ClassifierContext): Promise<ParsedIntent> {
+    const systemPrompt = `You are parsing partner SMS messages for a laundry/cleaning service.
+
+Partner's active orders (ID, state, type):
+${context.conversations.map((c) => `- ${c.context?.order_short_id || 'N/A'}: ${c.state}, ${c.context?.service_type || 'N/A'}`).join('\n') || '- none'}
+
+Partner's message: "${message}"
+
+Determine the intent. Respond ONLY with valid JSON:
+{
+  "type": ${INTENT_TYPES.map((type) => `"${type}"`).join(' | ')},
+  "value": "string or number (optional - the weight number, suggested time, etc)",
+  "data": {"weight": number} or {"time": string} (optional - for weight and suggest_time intents),
+  "order_short_id": "string (optional - only if the message names one of the order IDs above)",
+  "confidence": "high" | "medium" | "low"
+}
+
+Only use "weight" when an order is awaiting_weight, and "suggest_time" when an order is awaiting_delivery_suggestion.
+
+Examples:
+- "yes" → {"type": "confirm", "confidence": "high"}
+- "can't do today" → {"type": "reschedule", "confidence": "high"}
+- "18" → {"type": "weight", "value": 18, "data": {"weight": 18}, "confidence": "high"}
+- "weight is 22 pounds" → {"type": "weight", "value": 22, "data": {"weight": 22}, "confidence": "high"}
+- "tomorrow 2pm" → {"type": "suggest_time", "value": "tomorrow 2pm", "data": {"time": "tomorrow 2pm"}, "confidence": "high"}
+- "picked up" → {"type": "picked_up", "confidence": "high"}
+- "delivered" → {"type": "delivered", "confidence": "high"}
+- "help" → {"type": "help", "confidence": "high"}
+- "cancel" → {"type": "cancel", "confidence": "high"}
+- "which orders do I have" → {"type": "active_orders", "confidence": "high"}
+- "I can't find the building" → {"type": "unknown", "confidence": "high"}`;
+
+    try {
+      const anthropic = new Anthropic({ apiKey: this.apiKey });
+      const response = await anthropic.messages.create({
+        model: 'claude-3-haiku-20240307',
+        max_tokens: 200,
+        messages: [
+          {
+            role: 'user',
+            content: systemPrompt
+          }
+        ]
+      });
+
+      const content = response.content[0];
+      if (content.type !== 'text') {
+        throw new Error('Unexpected response type from Claude');
+      }
+
+      const parsed = JSON.parse(content.text) as ParsedIntent;
+      if (!INTENT_TYPES.includes(parsed.type)) {
+        return { type: 'unknown', confidence: 'low' };
+      }
+      return parsed;
+    } catch (error) {
+      console.error('Error parsing with Claude:', error);
+      return { type: 'unknown', confidence: 'low' };
+    }
+  }
+}
+
+// ============================================
+// STUB
+// ============================================
+
+/**
+ * Deterministic stand-in for the LLM
+ * Answers from a fixed table of replies (matched case-insensitively) and
+ * reads everything else as unknown
+ */
+export class StubIntentClassifier implements IntentClassifier {
+  readonly name = 'stub';
+  private readonly answers = new Map<string, ParsedIntent>();
+
+  constructor(answers: Record<string, ParsedIntent> = {}) {
+    for (const [message, intent] of Object.entries(answers)) {
+      this.answers.set(message.trim().toLowerCase(), intent);
+    }
+  }
+
+  async classify(message: string): Promise<ParsedIntent> {
+    return this.answers.get(message.trim().toLowerCase()) ?? { type: 'unknown', confidence: 'low' };
+  }
+}
+
+// ============================================
+// PROVIDER
+// ============================================
+
+let fallback: IntentClassifier | null = null;
+
+/**
+ * Fallback classifier for the configured provider
+ * SMS_INTENT_CLASSIFIER picks it explicitly; otherwise Anthropic when a key
+ * is configured, and the stub in tests or without one
+ */
+export function getIntentFallback(): IntentClassifier {
+  if (!fallback) {
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    const provider =
+      process.env.SMS_INTENT_CLASSIFIER ||
+      (process.env.NODE_ENV === 'test' || !apiKey ? 'stub' : 'anthropic');
+
+    if (provider === 'anthropic' && apiKey) {
+      fallback = new AnthropicIntentClassifier(apiKey);
+    } else {
+      if (provider === 'anthropic') {
+        console.warn('ANTHROPIC_API_KEY not configured, using stub intent classifier');
+      }
+      fallback = new StubIntentClassifier();
+    }
+  }
+  return fallback;
+}
+
+export function setIntentFallback(next: IntentClassifier | null): void {
+  fallback = next;
+}
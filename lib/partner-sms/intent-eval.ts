@@ -0,0 +1,140 @@
+import type { Conversation, ConversationState } from './conversation-state';
+import { INTENT_TYPES, type IntentClassifier } from './intent-classifier';
+import { parsePartnerIntent, type ParsedIntent } from './intent-parser';
+
+/**
+ * Intent Evaluation
+ * Scores the parser against a golden corpus of real-world partner replies
+ * (lib/partner-sms/__tests__/golden-corpus.json). `npm run eval:sms-intents`
+ * scores the rules with the offline stub fallback; pass another classifier
+ * to score a model provider.
+ */
+
+export interface GoldenCase {
+  message: string;
+  /** State of the partner's (single) active order when the reply arrived */
+  state: ConversationState;
+  expected: ParsedIntent['type'];
+  /** Expected weight, for weight replies */
+  weight?: number;
+}
+
+export interface IntentScore {
+  intent: ParsedIntent['type'];
+  /** Cases expecting this intent */
+  support: number;
+  /** Cases the parser labelled with this intent */
+  predicted: number;
+  truePositives: number;
+  /** null when the parser never predicted the intent */
+  precision: number | null;
+  /** null when the corpus has no cases for the intent */
+  recall: number | null;
+}
+
+export interface IntentMiss {
+  message: string;
+  state: ConversationState;
+  expected: ParsedIntent['type'];
+  actual: ParsedIntent['type'];
+}
+
+export interface IntentEvalResult {
+  classifier: string;
+  total: number;
+  correct: number;
+  accuracy: number;
+  scores: IntentScore[];
+  misses: IntentMiss[];
+}
+
+function goldenConversation(state: ConversationState): Conversation {
+  const now = new Date().toISOString();
+  return {
+    id: 'golden',
+    partner_id: 'golden-partner',
+    order_id: '00000000-0000-0000-0000-00000000c0de',
+    phone: '+15555550100',
+    state,
+    context: { service_type: 'laundry', order_short_id: '0000C0DE' },
+    last_message_at: now,
+    created_at: now,
+    updated_at: now,
+  };
+}
+
+/**
+ * Run every case through the parser and score each intent
+ * A weight reply only counts as correct if the weight matches too
+ */
+export async function evaluateIntentCorpus(
+  cases: GoldenCase[],
+  fallback: IntentClassifier
+): Promise<IntentEvalResult> {
+  const misses: IntentMiss[] = [];
+  const outcomes: Array<{ expected: ParsedIntent['type']; actual: ParsedIntent['type'] }> = [];
+
+  for (const testCase of cases) {
+    const intent = await parsePartnerIntent(testCase.message, [goldenConversation(testCase.state)], fallback);
+    const weightMatches = testCase.weight === undefined || intent.data?.weight === testCase.weight;
+    const actual = weightMatches ? intent.type : 'unknown';
+
+    outcomes.push({ expected: testCase.expected, actual });
+    if (actual !== testCase.expected) {
+      misses.push({ message: testCase.message, state: testCase.state, expected: testCase.expected, actual: intent.type });
+    }
+  }
+
+  const scores = INTENT_TYPES.map((intent): IntentScore => {
+    const support = outcomes.filter((o) => o.expected === intent).length;
+    const predicted = outcomes.filter((o) => o.actual === intent).length;
+    const truePositives = outcomes.filter((o) => o.expected === intent && o.actual === intent).length;
+    return {
+      intent,
+      support,
+      predicted,
+      truePositives,
+      precision: predicted > 0 ? truePositives / predicted : null,
+      recall: support > 0 ? truePositives / support : null,
+    };
+  }).filter((score) => score.support > 0 || score.predicted > 0);
+
+  const correct = outcomes.filter((o) => o.expected === o.actual).length;
+
+  return {
+    classifier: fallback.name,
+    total: cases.length,
+    correct,
+    accuracy: cases.length > 0 ? correct / cases.length : 0,
+    scores,
+    misses,
+  };
+}
+
+function formatRatio(value: number | null): string {
+  return value === null ? '   -' : `${(value * 100).toFixed(0).padStart(3)}%`;
+}
+
+/**
+ * Plain-text report: per-intent precision/recall, then every miss
+ */
+export function formatIntentEvalReport(result: IntentEvalResult): string {
+  const lines = [
+    `Partner SMS intent eval (rules + ${result.classifier} fallback)`,
+    `Accuracy: ${result.correct}/${result.total} (${formatRatio(result.accuracy).trim()})`,
+    '',
+    'intent          precision  recall  support  predicted',
+    ...result.scores.map((s) =>
+      `${s.intent.padEnd(16)}${formatRatio(s.precision).padStart(9)}${formatRatio(s.recall).padStart(8)}${String(s.support).padStart(9)}${String(s.predicted).padStart(11)}`
+    ),
+  ];
+
+  if (result.misses.length > 0) {
+    lines.push('', 'Misses:');
+    for (const miss of result.misses) {
+      lines.push(`  [${miss.state}] "${miss.message}" expected ${miss.expected}, got ${miss.actual}`);
+    }
+  }
+
+  return lines.join('\n');
+}
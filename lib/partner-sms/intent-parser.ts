@@ -1,5 +1,7 @@
-import Anthropic from '@anthropic-ai/sdk';
-import { Conversation } from './conversation-state';
+import { shortOrderId } from '@/lib/ids';
+import type { Conversation } from './conversation-state';
+import { buildClassifierContext, getIntentFallback, type IntentClassifier } from './intent-classifier';
+import { RulesIntentClassifier } from './intent-rules';
 
 export interface ParsedIntent {
   type: 
@@ -7,172 +9,89 @@ export interface ParsedIntent {
     | 'reschedule'
     | 'picked_up'
     | 'weight'
+    | 'suggest_time'
     | 'delivered'
     | 'help'
     | 'cancel'
+    | 'active_orders'
     | 'unknown';
   value?: string | number;
   confidence: 'high' | 'medium' | 'low';
   data?: { weight?: number; time?: string };
+  /** Order the reply names, as shown in our texts (shortOrderId) */
+  order_short_id?: string;
 }
 
 /**
- * Try to parse intent using simple pattern matching first
- * This is fast and works for common cases
+ * Order IDs appear in our texts as shortOrderId, e.g. #1A2B3C4D
  */
-function quickParseIntent(
-  message: string,
-  conversationState: string
-): ParsedIntent | null {
-  const msg = message.trim().toLowerCase();
-  
-  // Simple confirmations
-  if (msg === 'confirm' || msg === 'yes' || msg === 'y' || msg === 'ok' || msg === 'okay') {
-    return { type: 'confirm', confidence: 'high' };
-  }
-  
-  // Cancel
-  if (msg === 'cancel' || msg.includes('cancel')) {
-    return { type: 'cancel', confidence: 'high' };
-  }
-  
-  // Help
-  if (msg === 'help' || msg === '?') {
-    return { type: 'help', confidence: 'high' };
-  }
-  
-  // Rescheduling
-  if (msg.includes('reschedule') || msg.includes('later') || msg.includes('cant') || msg.includes('can\'t') || msg.includes('can\'t make it')) {
-    return { type: 'reschedule', confidence: 'high' };
-  }
-  
-  // Picked up notification
-  if (msg.includes('picked up') || msg.includes('picked') || msg.includes('got it') || msg.includes('have it')) {
-    return { type: 'picked_up', confidence: 'high' };
-  }
-  
-  // Delivered
-  if (msg.includes('delivered') || msg.includes('dropped off') || msg.includes('delivery complete')) {
-    return { type: 'delivered', confidence: 'high' };
-  }
-  
-  // Weight input - just a number or number with units
-  const numMatch = msg.match(/^\s*(\d+(?:\.\d+)?)\s*(?:lbs?|pounds?|kg|kilograms?)?\s*$/i);
-  if (numMatch) {
-    const weight = parseFloat(numMatch[1]);
-    return {
-      type: 'weight',
-      value: weight,
-      data: { weight },
-      confidence: 'high'
-    };
-  }
-  
-  // Try to extract number from message like "18 lbs" or "weight is 18"
-  const numInText = msg.match(/\b(\d+(?:\.\d+)?)\s*(?:lbs?|pounds?)?/i);
-  if (numInText) {
-    const weight = parseFloat(numInText[1]);
-    return {
-      type: 'weight',
-      value: weight,
-      data: { weight },
-      confidence: 'medium'
-    };
-  }
-  
-  return null; // Couldn't parse, need Claude
-}
+const ORDER_ID_PATTERN = /#?\b([0-9a-f]{8})\b/gi;
 
 /**
- * Parse intent using Claude when pattern matching fails
- * Uses Claude Haiku for speed and cost-effectiveness
+ * Pull an order ID out of a reply like "picked up #1A2B3C4D"
+ * Returns the ID and the rest of the message, so "18 lbs 1A2B3C4D" still
+ * reads as a weight. A token naming one of the partner's active orders
+ * (activeShortIds) wins, even when it is all digits; other all-digit
+ * tokens are far more likely numbers and are left in the message.
  */
-async function parseWithClaude(
+export function extractOrderShortId(
   message: string,
-  conversation: Conversation
-): Promise<ParsedIntent> {
-  // Check if API key is configured
-  if (!process.env.ANTHROPIC_API_KEY) {
-    console.warn('ANTHROPIC_API_KEY not configured, defaulting to unknown intent');
-    return { type: 'unknown', confidence: 'low' };
+  activeShortIds: string[] = []
+): { orderShortId?: string; rest: string } {
+  const active = new Set(activeShortIds.map((id) => id.toUpperCase()));
+  const matches = Array.from(message.matchAll(ORDER_ID_PATTERN));
+  const match =
+    matches.find((m) => active.has(m[1].toUpperCase())) ??
+    matches.find((m) => !/^\d+$/.test(m[1]));
+  if (!match) {
+    return { rest: message };
   }
-  
-  const anthropic = new Anthropic({
-    apiKey: process.env.ANTHROPIC_API_KEY,
-  });
-
-  const systemPrompt = `You are parsing partner SMS messages for a laundry/cleaning service.
-
-Current conversation state: ${conversation.state}
-Order ID: ${conversation.context?.order_short_id || 'N/A'}
-Order type: ${conversation.context?.service_type || 'N/A'}
-
-Partner's message: "${message}"
 
-Determine the intent. Respond ONLY with valid JSON:
-{
-  "type": "confirm" | "reschedule" | "picked_up" | "weight" | "delivered" | "help" | "cancel" | "unknown",
-  "value": "string or number (optional - the weight number, suggested time, etc)",
-  "data": {"weight": number} (optional - for weight intents),
-  "confidence": "high" | "medium" | "low"
+  return {
+    orderShortId: match[1].toUpperCase(),
+    rest: message.replace(match[0], ' ').replace(/\s+/g, ' ').trim(),
+  };
 }
 
-Examples:
-- "yes" → {"type": "confirm", "confidence": "high"}
-- "can't do today" → {"type": "reschedule", "confidence": "high"}
-- "18" → {"type": "weight", "value": 18, "data": {"weight": 18}, "confidence": "high"}
-- "weight is 22 pounds" → {"type": "weight", "value": 22, "data": {"weight": 22}, "confidence": "high"}
-- "picked up" → {"type": "picked_up", "confidence": "high"}
-- "delivered" → {"type": "delivered", "confidence": "high"}
-- "help" → {"type": "help", "confidence": "high"}
-- "cancel" → {"type": "cancel", "confidence": "high"}`;
-
-  try {
-    const response = await anthropic.messages.create({
-      model: 'claude-3-haiku-20240307',
-      max_tokens: 200,
-      messages: [
-        {
-          role: 'user',
-          content: systemPrompt
-        }
-      ]
-    });
-
-    const content = response.content[0];
-    if (content.type !== 'text') {
-      throw new Error('Unexpected response type from Claude');
-    }
-
-    const parsed = JSON.parse(content.text);
-    return parsed as ParsedIntent;
-  } catch (error) {
-    console.error('Error parsing with Claude:', error);
-    return { type: 'unknown', confidence: 'low' };
-  }
-}
+const rulesClassifier = new RulesIntentClassifier();
 
 /**
- * Main intent parser - tries pattern matching first, falls back to Claude
+ * Main intent parser - tries the rules engine first, then the fallback
+ * classifier (Claude in production, a stub in tests; see intent-classifier.ts)
+ * Accepts every active conversation for the phone so the intent can name
+ * the order it targets
  */
 export async function parsePartnerIntent(
   message: string,
-  conversation: Conversation
+  conversations: Conversation | Conversation[],
+  fallback: IntentClassifier = getIntentFallback()
 ): Promise<ParsedIntent> {
-  // Try quick pattern matching first
-  const quickResult = quickParseIntent(message, conversation.state);
+  const context = buildClassifierContext(Array.isArray(conversations) ? conversations : [conversations]);
+  const activeShortIds = context.conversations.flatMap((c) => (c.order_id ? [shortOrderId(c.order_id)] : []));
+  const { orderShortId, rest } = extractOrderShortId(message, activeShortIds);
+  
+  // Try the rules first
+  const ruleResult = await rulesClassifier.classify(rest, context);
+  
+  if (ruleResult) {
+    const intent = orderShortId ? { ...ruleResult, order_short_id: orderShortId } : ruleResult;
+    console.log('Intent parsed with rules:', intent);
+    return intent;
+  }
   
-  if (quickResult) {
-    console.log('Intent parsed with pattern matching:', quickResult);
-    return quickResult;
+  // Empty replies aren't worth a model call
+  if (!rest.trim()) {
+    return { type: 'unknown', confidence: 'high' };
   }
   
-  // Fall back to Claude for ambiguous cases
-  console.log('Falling back to Claude for intent parsing');
-  const claudeResult = await parseWithClaude(message, conversation);
-  console.log('Intent parsed with Claude:', claudeResult);
+  // Fall back for everything the rules can't read
+  console.log(`Falling back to ${fallback.name} for intent parsing`);
+  const fallbackResult = (await fallback.classify(message, context)) ?? { type: 'unknown', confidence: 'low' };
+  console.log(`Intent parsed with ${fallback.name}:`, fallbackResult);
   
-  return claudeResult;
+  return orderShortId && !fallbackResult.order_short_id
+    ? { ...fallbackResult, order_short_id: orderShortId }
+    : fallbackResult;
 }
 
 // Alias for backwards compatibility
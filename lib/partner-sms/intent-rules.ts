@@ -0,0 +1,137 @@
+import type { ConversationState } from './conversation-state';
+import type { ClassifierContext, IntentClassifier } from './intent-classifier';
+import type { ParsedIntent } from './intent-parser';
+
+/**
+ * Intent Rules
+ * Deterministic grammar for partner replies. A rule only applies while one of
+ * the partner's orders is in a state where the reply makes sense, so "18" is
+ * a weight only when an order is awaiting_weight and "tomorrow 2pm" is a time
+ * only when we asked for one. Rules are tried in order; the first match wins,
+ * and state-specific rules come first.
+ */
+
+export interface IntentRule {
+  intent: ParsedIntent['type'];
+  /** States this grammar applies in; omitted means any state */
+  states?: ConversationState[];
+  pattern: RegExp;
+  confidence: ParsedIntent['confidence'];
+  /** Pull the value out of the match */
+  extract?: (match: RegExpMatchArray, message: string) => Pick<ParsedIntent, 'value' | 'data'>;
+}
+
+function weightFrom(match: RegExpMatchArray): Pick<ParsedIntent, 'value' | 'data'> {
+  const weight = parseFloat(match[1]);
+  return { value: weight, data: { weight } };
+}
+
+function timeFrom(_match: RegExpMatchArray, message: string): Pick<ParsedIntent, 'value' | 'data'> {
+  const time = message.trim();
+  return { value: time, data: { time } };
+}
+
+const TIME_PATTERN =
+  /\b(?:today|tonight|tomorrow|tmrw|mon(?:day)?|tue(?:s|sday)?|wed(?:nesday)?|thu(?:rs|rsday)?|fri(?:day)?|sat(?:urday)?|sun(?:day)?|noon|morning|afternoon|evening)\b|\b\d{1,2}(?::\d{2})?\s*(?:am|pm)\b|\b\d{1,2}:\d{2}\b/i;
+
+export const INTENT_RULES: IntentRule[] = [
+  // State-specific grammar
+  {
+    intent: 'weight',
+    states: ['awaiting_weight'],
+    pattern: /^(?:(?:the\s+)?weight(?:\s+is)?:?\s*)?(\d+(?:\.\d+)?)\s*(?:lbs?|pounds?)?\.?$/i,
+    confidence: 'high',
+    extract: weightFrom,
+  },
+  {
+    intent: 'weight',
+    states: ['awaiting_weight'],
+    pattern: /\b(\d+(?:\.\d+)?)\s*(?:lbs?|pounds?)\b/i,
+    confidence: 'high',
+    extract: weightFrom,
+  },
+  {
+    intent: 'suggest_time',
+    states: ['awaiting_delivery_suggestion'],
+    pattern: TIME_PATTERN,
+    confidence: 'high',
+    extract: timeFrom,
+  },
+
+  // Grammar that applies in any state
+  {
+    intent: 'confirm',
+    pattern: /^(?:confirm(?:ed)?|yes|y|yep|yeah|ok|okay|sure|sounds good)[.!]*$/i,
+    confidence: 'high',
+  },
+  {
+    intent: 'cancel',
+    pattern: /\bcancel(?:led|ed)?\b/i,
+    confidence: 'high',
+  },
+  {
+    intent: 'active_orders',
+    pattern: /^(?:orders|list)[?.!]*$|\b(?:active|my|open) orders\b/i,
+    confidence: 'high',
+  },
+  {
+    intent: 'help',
+    pattern: /^(?:help|\?)[?.!]*$/i,
+    confidence: 'high',
+  },
+  {
+    intent: 'reschedule',
+    pattern: /\breschedul\w*|\bcan'?t make it\b|\bcan'?t (?:do|come|go|get there)(?: (?:it|today|tonight|tomorrow|now|then))?\b|\b(?:another|different|new) time\b|\bnot today\b|\bdo (?:it|this) later\b/i,
+    confidence: 'high',
+  },
+  {
+    intent: 'picked_up',
+    pattern: /\bpicked\s*(?:it\s+|them\s+)?up\b|\bpickup (?:is )?(?:done|complete)\b|\bgot (?:it|them|the (?:bags?|laundry))\b|\bhave (?:the (?:bags?|laundry))\b/i,
+    confidence: 'high',
+  },
+  {
+    intent: 'delivered',
+    pattern: /\bdelivered\b|\bdropped (?:it |them )?off\b|\bdelivery (?:is )?(?:complete|done)\b/i,
+    confidence: 'high',
+  },
+];
+
+/**
+ * Match a reply against the rules for the partner's current states
+ */
+export function matchIntentRules(
+  message: string,
+  states: ConversationState[],
+  rules: IntentRule[] = INTENT_RULES
+): ParsedIntent | null {
+  const msg = message.trim();
+  if (!msg) return null;
+
+  for (const rule of rules) {
+    if (rule.states && !rule.states.some((state) => states.includes(state))) continue;
+
+    const match = msg.match(rule.pattern);
+    if (match) {
+      return {
+        type: rule.intent,
+        confidence: rule.confidence,
+        ...rule.extract?.(match, msg),
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Rules engine as a classifier
+ */
+export class RulesIntentClassifier implements IntentClassifier {
+  readonly name = 'rules';
+
+  constructor(private readonly rules: IntentRule[] = INTENT_RULES) {}
+
+  async classify(message: string, context: ClassifierContext): Promise<ParsedIntent | null> {
+    return matchIntentRules(message, context.states, this.rules);
+  }
+}
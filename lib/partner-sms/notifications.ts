@@ -2,6 +2,7 @@ import { sendAgentMessage } from './action-executor';
 import { createConversation, updateConversationState } from './conversation-state';
 import { formatTimeForSMS, formatAddressForSMS } from './response-templates';
 import { getServiceClient } from '@/lib/db';
+import { shortOrderId } from '@/lib/ids';
 
 /**
  * Partner SMS Notifications
@@ -61,7 +62,7 @@ export async function notifyPartnerNewOrder(
       'awaiting_pickup_confirm',
       {
         service_type: order.service_type,
-        order_short_id: order.id.slice(-4),
+        order_short_id: shortOrderId(order.id),
         pickup_time: pickupTime,
       }
     );
@@ -177,7 +178,7 @@ export async function notifyPartnerOrderComplete(
       partner.phone,
       'order_complete',
       {
-        orderShortId: order.id.slice(-4),
+        orderShortId: shortOrderId(order.id),
       }
     );
 
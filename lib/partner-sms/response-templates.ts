@@ -1,4 +1,28 @@
 import type { Order } from '@/lib/types';
+import { formatOrderId, shortOrderId } from '@/lib/ids';
+import type { Conversation, ConversationState } from './conversation-state';
+
+/**
+ * What the partner should reply next for an order in each state
+ */
+const NEXT_STEP: Record<ConversationState, string> = {
+  idle: 'no reply needed',
+  awaiting_pickup_confirm: 'reply CONFIRM',
+  awaiting_pickup_notification: 'reply PICKED UP',
+  awaiting_weight: 'reply with weight',
+  awaiting_quote_approval: 'reply OK',
+  awaiting_delivery_confirm: 'reply CONFIRM',
+  awaiting_delivery_suggestion: 'reply with a time',
+};
+
+/**
+ * One line per order: "#1A2B3C4D laundry - reply PICKED UP"
+ */
+function formatOrderLines(conversations: Conversation[]): string {
+  return conversations
+    .map((c) => `${formatOrderId(c.order_id!)} ${c.context.service_type || 'order'} - ${NEXT_STEP[c.state]}`)
+    .join('\n');
+}
 
 /**
  * SMS Response Templates
@@ -8,7 +32,7 @@ import type { Order } from '@/lib/types';
 export const responses = {
   // Pickup notifications
   pickupNotification: (order: Order, pickupTime: string, address: string) => 
-    `🧺 New ${order.service_type} order #${order.id.slice(-4)}
+    `🧺 New ${order.service_type} order ${formatOrderId(order.id)}
 📍 ${address.split(',')[0]}
 ⏰ Pickup: ${pickupTime}
 
@@ -22,7 +46,7 @@ Reply CONFIRM or RESCHEDULE`,
 
   // After pickup
   requestWeight: (orderShortId: string) => 
-    `📊 Order ${orderShortId} - What's the actual weight? (Reply with number, e.g. "18")`,
+    `📊 Order #${orderShortId} - What's the actual weight? (Reply with number, e.g. "18")`,
 
   weightConfirmed: (weight: number, serviceType: string) => {
     const emoji = serviceType === 'laundry' ? '👕' : '🧹';
@@ -60,7 +84,7 @@ Reply CONFIRM or suggest different time`,
 
   // Completion
   orderComplete: (orderShortId: string) => 
-    `🎉 Order ${orderShortId} marked complete. Great work!`,
+    `🎉 Order #${orderShortId} marked complete. Great work!`,
 
   // Errors & fallbacks
   unknown: () => 
@@ -68,6 +92,7 @@ Reply CONFIRM or suggest different time`,
 - CONFIRM
 - OK  
 - A number (for weight)
+- ORDERS (list your active orders)
 - Or check the partner portal`,
 
   error: () => 
@@ -75,11 +100,28 @@ Reply CONFIRM or suggest different time`,
 
   notFound: (orderShortId?: string) => {
     if (orderShortId) {
-      return `❓ Couldn't find order ${orderShortId}. Check the partner portal?`;
+      return `❓ Couldn't find active order #${orderShortId}. Reply ORDERS to see yours, or check the partner portal?`;
     }
     return `❓ I don't have any active orders for you. Check the partner portal?`;
   },
 
+  // Multiple orders
+  activeOrders: (conversations: Conversation[]) => {
+    if (conversations.length === 0) {
+      return `📋 No active orders right now. New pickups will be texted to you.`;
+    }
+    return `📋 Active orders (${conversations.length}):
+${formatOrderLines(conversations)}
+
+Add the order ID to your reply when you have more than one, e.g. "PICKED UP ${shortOrderId(conversations[0].order_id!)}"`;
+  },
+
+  whichOrder: (conversations: Conversation[]) => 
+    `🤔 Which order? You have ${conversations.length} waiting on that:
+${formatOrderLines(conversations)}
+
+Send your reply again with the order ID added, e.g. "... ${shortOrderId(conversations[0].order_id!)}"`,
+
   // Help
   help: () => 
     `📱 Partner SMS Assistant
@@ -89,6 +131,9 @@ I'll text you about:
 - Weight collection (reply with number)
 - Quote approval (reply OK)
 - Delivery scheduling
+- Your active orders (reply ORDERS)
+
+With several orders, add the order ID to your reply (e.g. "PICKED UP 1A2B3C4D").
 
 For complex tasks, use the partner portal.`,
 };
@@ -7,7 +7,20 @@ import {
   type LaundryQuoteParams,
   type CleaningQuoteParams
 } from '../quoteCalculation';
-import { LAUNDRY_PRICING, CLEANING_PRICING, QUOTE_LIMITS } from '../constants';
+import { LAUNDRY_PRICING, CLEANING_PRICING, QUOTE_LIMITS, VALIDATION_MESSAGES } from '../constants';
+import type { LaundryRates } from '../../pricing-rules';
+
+// Rates as getLaundryRates reads them from pricing_rules
+const TEST_RATES: LaundryRates = {
+  per_lb_cents: 250,
+  min_lbs: 0,
+  rush_rate: 0.25,
+  garments: [
+    { key: 'DC_SHIRT', label: 'Shirt / Blouse', price_cents: 1100 },
+    { key: 'DC_COAT', label: 'Coat / Outer Jacket', price_cents: 3000 }
+  ]
+};
+const PER_LB = TEST_RATES.per_lb_cents / 100;
 
 describe('calculateLaundryQuote', () => {
   test('calculates base price correctly for minimum valid quote', () => {
@@ -19,8 +32,8 @@ describe('calculateLaundryQuote', () => {
       addons: {}
     };
     
-    const result = calculateLaundryQuote(params);
-    const expectedTotal = 4 * LAUNDRY_PRICING.PER_LB;
+    const result = calculateLaundryQuote(params, TEST_RATES);
+    const expectedTotal = 4 * PER_LB;
     
     expect(result.breakdown.base).toBe(expectedTotal);
     expect(result.total_cents).toBe(Math.round(expectedTotal * 100));
@@ -36,8 +49,8 @@ describe('calculateLaundryQuote', () => {
       addons: {}
     };
     
-    const result = calculateLaundryQuote(params);
-    const expectedTotal = 10 * LAUNDRY_PRICING.PER_LB;
+    const result = calculateLaundryQuote(params, TEST_RATES);
+    const expectedTotal = 10 * PER_LB;
     
     expect(result.breakdown.base).toBe(expectedTotal);
     expect(result.total_cents).toBe(Math.round(expectedTotal * 100));
@@ -51,8 +64,8 @@ describe('calculateLaundryQuote', () => {
       addons: {}
     };
     
-    const result = calculateLaundryQuote(params);
-    const expectedTotal = (10 * LAUNDRY_PRICING.PER_LB) + LAUNDRY_PRICING.BEDDING_SURCHARGE;
+    const result = calculateLaundryQuote(params, TEST_RATES);
+    const expectedTotal = (10 * PER_LB) + LAUNDRY_PRICING.BEDDING_SURCHARGE;
     
     expect(result.breakdown.surcharges).toHaveLength(1);
     expect(result.breakdown.surcharges[0].label).toContain('Bedding');
@@ -68,8 +81,8 @@ describe('calculateLaundryQuote', () => {
       addons: {}
     };
     
-    const result = calculateLaundryQuote(params);
-    const expectedTotal = (10 * LAUNDRY_PRICING.PER_LB) + LAUNDRY_PRICING.DELICATES_SURCHARGE;
+    const result = calculateLaundryQuote(params, TEST_RATES);
+    const expectedTotal = (10 * PER_LB) + LAUNDRY_PRICING.DELICATES_SURCHARGE;
     
     expect(result.breakdown.surcharges).toHaveLength(1);
     expect(result.breakdown.surcharges[0].label).toContain('Delicates');
@@ -86,7 +99,7 @@ describe('calculateLaundryQuote', () => {
       addons: {}
     };
     
-    const result = calculateLaundryQuote(params);
+    const result = calculateLaundryQuote(params, TEST_RATES);
     const expectedBagFee = 3 * LAUNDRY_PRICING.BAG_FEE;
     
     expect(result.breakdown.surcharges).toHaveLength(1);
@@ -104,7 +117,7 @@ describe('calculateLaundryQuote', () => {
       }
     };
     
-    const result = calculateLaundryQuote(params);
+    const result = calculateLaundryQuote(params, TEST_RATES);
     
     expect(result.breakdown.addons).toHaveLength(1);
     expect(result.breakdown.addons[0].label).toContain('Fold');
@@ -121,11 +134,41 @@ describe('calculateLaundryQuote', () => {
       }
     };
     
-    const result = calculateLaundryQuote(params);
+    const result = calculateLaundryQuote(params, TEST_RATES);
     
     expect(result.breakdown.addons).toHaveLength(1);
-    expect(result.breakdown.addons[0].label).toContain('Same Day');
-    expect(result.breakdown.addons[0].amount).toBe(LAUNDRY_PRICING.SAME_DAY);
+    expect(result.breakdown.addons[0].label).toBe('Same Day Service (+25%)');
+    expect(result.breakdown.addons[0].amount).toBe(10 * PER_LB * 0.25);
+  });
+
+  test('leaves out same day when rush is not offered', () => {
+    const params: LaundryQuoteParams = {
+      weight_lbs: 10,
+      has_bedding: false,
+      has_delicates: false,
+      addons: {
+        same_day: true
+      }
+    };
+    
+    const result = calculateLaundryQuote(params, { ...TEST_RATES, rush_rate: null });
+    
+    expect(result.breakdown.addons).toHaveLength(0);
+    expect(result.total_cents).toBe(Math.round(10 * PER_LB * 100));
+  });
+
+  test('bills at least the minimum weight', () => {
+    const params: LaundryQuoteParams = {
+      weight_lbs: 4,
+      has_bedding: false,
+      has_delicates: false,
+      addons: {}
+    };
+    
+    const result = calculateLaundryQuote(params, { ...TEST_RATES, min_lbs: 15 });
+    
+    expect(result.breakdown.base).toBe(15 * PER_LB);
+    expect(result.is_valid).toBe(true);
   });
 
   test('adds eco detergent addon correctly', () => {
@@ -138,7 +181,7 @@ describe('calculateLaundryQuote', () => {
       }
     };
     
-    const result = calculateLaundryQuote(params);
+    const result = calculateLaundryQuote(params, TEST_RATES);
     
     expect(result.breakdown.addons).toHaveLength(1);
     expect(result.breakdown.addons[0].label).toContain('Eco');
@@ -158,19 +201,19 @@ describe('calculateLaundryQuote', () => {
       }
     };
     
-    const result = calculateLaundryQuote(params);
-    const expectedTotal = 
-      (15 * LAUNDRY_PRICING.PER_LB) +
+    const result = calculateLaundryQuote(params, TEST_RATES);
+    const beforeSameDay = 
+      (15 * PER_LB) +
       (2 * LAUNDRY_PRICING.BAG_FEE) +
       LAUNDRY_PRICING.BEDDING_SURCHARGE +
       LAUNDRY_PRICING.DELICATES_SURCHARGE +
       LAUNDRY_PRICING.FOLD_PACKAGE +
-      LAUNDRY_PRICING.SAME_DAY +
       LAUNDRY_PRICING.ECO_DETERGENT;
     
     expect(result.breakdown.surcharges).toHaveLength(3); // bags, bedding, delicates
     expect(result.breakdown.addons).toHaveLength(3);
-    expect(result.total_cents).toBe(Math.round(expectedTotal * 100));
+    // Same day is 25% of everything else
+    expect(result.total_cents).toBe(Math.round(beforeSameDay * 100) + Math.round(beforeSameDay * 0.25 * 100));
     expect(result.is_valid).toBe(true);
   });
 
@@ -182,7 +225,7 @@ describe('calculateLaundryQuote', () => {
       addons: {}
     };
     
-    const result = calculateLaundryQuote(params);
+    const result = calculateLaundryQuote(params, TEST_RATES);
     
     expect(result.is_valid).toBe(false);
     expect(result.validation_errors.length).toBeGreaterThan(0);
@@ -197,7 +240,7 @@ describe('calculateLaundryQuote', () => {
       addons: {}
     };
     
-    const result = calculateLaundryQuote(params);
+    const result = calculateLaundryQuote(params, TEST_RATES);
     
     expect(result.is_valid).toBe(false);
     expect(result.validation_errors.length).toBeGreaterThan(0);
@@ -212,13 +255,71 @@ describe('calculateLaundryQuote', () => {
       addons: {}
     };
     
-    const result = calculateLaundryQuote(params);
+    const result = calculateLaundryQuote(params, TEST_RATES);
     
     expect(result.is_valid).toBe(false);
     expect(result.validation_errors.length).toBeGreaterThan(0);
   });
 });
 
+describe('calculateLaundryQuote - dry clean', () => {
+  test('prices garments only on dry clean orders', () => {
+    const params: LaundryQuoteParams = {
+      service_type: 'dryClean',
+      weight_lbs: 0,
+      garments: [{ key: 'DC_SHIRT', quantity: 2 }, { key: 'DC_COAT', quantity: 1 }],
+      has_bedding: false,
+      has_delicates: false,
+      addons: {}
+    };
+    
+    const result = calculateLaundryQuote(params, TEST_RATES);
+    
+    expect(result.breakdown.base).toBe(0);
+    expect(result.breakdown.garments).toEqual([
+      { label: 'Shirt / Blouse × 2', amount: 22 },
+      { label: 'Coat / Outer Jacket × 1', amount: 30 }
+    ]);
+    expect(result.total_cents).toBe(5200);
+    expect(result.is_valid).toBe(true);
+  });
+
+  test('prices weight and garments together on mixed orders', () => {
+    const params: LaundryQuoteParams = {
+      service_type: 'mixed',
+      weight_lbs: 10,
+      garments: [{ key: 'DC_SHIRT', quantity: 1 }],
+      has_bedding: false,
+      has_delicates: false,
+      addons: { same_day: true }
+    };
+    
+    const result = calculateLaundryQuote(params, TEST_RATES);
+    const beforeSameDay = 10 * PER_LB + 11;
+    
+    expect(result.total_cents).toBe(Math.round(beforeSameDay * 1.25 * 100));
+    expect(formatQuoteBreakdown(result)).toContain('Shirt / Blouse × 1');
+  });
+
+  test('requires itemized garments', () => {
+    const params: LaundryQuoteParams = {
+      service_type: 'mixed',
+      weight_lbs: 10,
+      garments: [{ key: 'DC_CAPE', quantity: 1 }],
+      has_bedding: false,
+      has_delicates: false,
+      addons: {}
+    };
+    
+    const result = calculateLaundryQuote(params, TEST_RATES);
+    
+    expect(result.is_valid).toBe(false);
+    expect(result.validation_errors).toContain(VALIDATION_MESSAGES.UNKNOWN_GARMENT);
+    expect(calculateLaundryQuote({ ...params, garments: [] }, TEST_RATES).validation_errors)
+      .toContain(VALIDATION_MESSAGES.GARMENTS_REQUIRED);
+  });
+});
+
 describe('calculateCleaningQuote', () => {
   test('calculates base price correctly', () => {
     const params: CleaningQuoteParams = {
@@ -339,7 +440,7 @@ describe('formatQuoteBreakdown', () => {
       addons: {}
     };
     
-    const quote = calculateLaundryQuote(params);
+    const quote = calculateLaundryQuote(params, TEST_RATES);
     const formatted = formatQuoteBreakdown(quote);
     
     expect(formatted).toContain('Base:');
@@ -357,7 +458,7 @@ describe('formatQuoteBreakdown', () => {
       }
     };
     
-    const quote = calculateLaundryQuote(params);
+    const quote = calculateLaundryQuote(params, TEST_RATES);
     const formatted = formatQuoteBreakdown(quote);
     
     expect(formatted).toContain('Bedding');
@@ -15,15 +15,14 @@ export const QUOTE_LIMITS = {
 } as const;
 
 // Pricing - Laundry
+// Per-pound rate, minimum weight, same-day (rush) and dry-clean garments come from pricing_rules
 export const LAUNDRY_PRICING = {
-  PER_LB: 2.50, // Base price per pound
   BAG_FEE: 2.00, // Fee per bag
   BEDDING_SURCHARGE: 5.00, // Surcharge for bedding items
   DELICATES_SURCHARGE: 3.00, // Surcharge for delicate items
   
   // Addons
   FOLD_PACKAGE: 5.00,
-  SAME_DAY: 10.00,
   ECO_DETERGENT: 3.00,
 } as const;
 
@@ -93,6 +92,8 @@ export const VALIDATION_MESSAGES = {
   WEIGHT_TOO_HIGH: `Weight cannot exceed ${QUOTE_LIMITS.MAX_WEIGHT} lbs`,
   TIME_TOO_LOW: `Time must be at least ${QUOTE_LIMITS.MIN_TIME} minutes`,
   TIME_TOO_HIGH: `Time cannot exceed ${QUOTE_LIMITS.MAX_TIME} minutes`,
+  GARMENTS_REQUIRED: 'Itemize at least one dry clean garment',
+  UNKNOWN_GARMENT: 'Garment is not in the dry clean catalog',
   INVALID_TRANSITION: 'This status change is not allowed',
   REQUIRED_FIELD: 'This field is required',
 } as const;
@@ -9,10 +9,13 @@ import {
   QUOTE_LIMITS,
   VALIDATION_MESSAGES 
 } from './constants';
+import type { GarmentCount, LaundryRates } from '../pricing-rules';
 
 // Types
 export interface LaundryQuoteParams {
-  weight_lbs: number;
+  service_type?: 'washFold' | 'dryClean' | 'mixed'; // Defaults to washFold
+  weight_lbs: number; // Not billed on dryClean orders
+  garments?: GarmentCount[]; // Itemized at intake on dryClean and mixed orders
   bag_count?: number;
   has_bedding: boolean;
   has_delicates: boolean;
@@ -44,24 +47,56 @@ export interface QuoteResult {
 
 export interface QuoteBreakdown {
   base: number;
+  garments?: { label: string; amount: number }[];
   surcharges: { label: string; amount: number }[];
   addons: { label: string; amount: number }[];
 }
 
 /**
  * Calculate quote for laundry orders
+ * Per-pound rate, minimum weight, the same-day (rush) surcharge and the
+ * dry-clean garment prices come from the order's pricing rules (see
+ * getLaundryRates in lib/pricing-rules). Mixed orders price both.
  */
-export function calculateLaundryQuote(params: LaundryQuoteParams): QuoteResult {
+export function calculateLaundryQuote(params: LaundryQuoteParams, rates: LaundryRates): QuoteResult {
+  const garments: { label: string; amount: number }[] = [];
   const breakdown: QuoteBreakdown = {
     base: 0,
+    garments,
     surcharges: [],
     addons: []
   };
-
-  // Base price: weight * per lb rate
-  const basePrice = params.weight_lbs * LAUNDRY_PRICING.PER_LB;
+  const serviceType = params.service_type || 'washFold';
+  const pricesByWeight = serviceType !== 'dryClean';
+  const pricesGarments = serviceType !== 'washFold';
+  const garmentErrors: string[] = [];
+
+  // Base price: billed weight (at least the minimum) * per lb rate
+  const basePrice = pricesByWeight
+    ? (Math.max(params.weight_lbs, rates.min_lbs) * rates.per_lb_cents) / 100
+    : 0;
   breakdown.base = basePrice;
 
+  // Dry-clean garments, priced per item
+  if (pricesGarments) {
+    const itemized = (params.garments || []).filter(garment => garment.quantity > 0);
+    if (itemized.length === 0) {
+      garmentErrors.push(VALIDATION_MESSAGES.GARMENTS_REQUIRED);
+    }
+    for (const garment of itemized) {
+      const catalogItem = rates.garments.find(item => item.key === garment.key);
+      if (!catalogItem) {
+        garmentErrors.push(VALIDATION_MESSAGES.UNKNOWN_GARMENT);
+        continue;
+      }
+      garments.push({
+        label: `${catalogItem.label} × ${garment.quantity}`,
+        amount: (garment.quantity * catalogItem.price_cents) / 100
+      });
+    }
+  }
+  const garmentsTotal = garments.reduce((sum, item) => sum + item.amount, 0);
+
   // Bag fee
   if (params.bag_count && params.bag_count > 0) {
     const bagFee = params.bag_count * LAUNDRY_PRICING.BAG_FEE;
@@ -95,30 +130,36 @@ export function calculateLaundryQuote(params: LaundryQuoteParams): QuoteResult {
     });
   }
 
-  if (params.addons.same_day) {
+  if (params.addons.eco_detergent) {
     breakdown.addons.push({
-      label: 'Same Day Service',
-      amount: LAUNDRY_PRICING.SAME_DAY
+      label: 'Eco-Friendly Detergent',
+      amount: LAUNDRY_PRICING.ECO_DETERGENT
     });
   }
 
-  if (params.addons.eco_detergent) {
+  // Same day is the rush surcharge: a share of everything above, as quoteLaundry charges it
+  if (params.addons.same_day && rates.rush_rate !== null) {
+    const beforeRush = basePrice + garmentsTotal +
+      [...breakdown.surcharges, ...breakdown.addons].reduce((sum, item) => sum + item.amount, 0);
     breakdown.addons.push({
-      label: 'Eco-Friendly Detergent',
-      amount: LAUNDRY_PRICING.ECO_DETERGENT
+      label: `Same Day Service (+${Math.round(rates.rush_rate * 100)}%)`,
+      amount: Math.round(beforeRush * rates.rush_rate * 100) / 100
     });
   }
 
   // Calculate totals
   const surchargesTotal = breakdown.surcharges.reduce((sum, item) => sum + item.amount, 0);
   const addonsTotal = breakdown.addons.reduce((sum, item) => sum + item.amount, 0);
-  const subtotal = basePrice + surchargesTotal + addonsTotal;
+  const subtotal = basePrice + garmentsTotal + surchargesTotal + addonsTotal;
 
   // Validation
-  const validation_errors = validateLaundryQuote({
-    weight_lbs: params.weight_lbs,
-    total: subtotal
-  });
+  const validation_errors = [
+    ...garmentErrors,
+    ...validateLaundryQuote({
+      weight_lbs: pricesByWeight ? params.weight_lbs : null,
+      total: subtotal
+    })
+  ];
 
   return {
     subtotal_cents: Math.round(subtotal * 100),
@@ -209,14 +250,14 @@ export function calculateCleaningQuote(params: CleaningQuoteParams): QuoteResult
 /**
  * Validate laundry quote parameters
  */
-function validateLaundryQuote(params: { weight_lbs: number; total: number }): string[] {
+function validateLaundryQuote(params: { weight_lbs: number | null; total: number }): string[] {
   const errors: string[] = [];
 
-  // Weight validation
-  if (params.weight_lbs < QUOTE_LIMITS.MIN_WEIGHT) {
+  // Weight validation (garments-only orders aren't weighed)
+  if (params.weight_lbs !== null && params.weight_lbs < QUOTE_LIMITS.MIN_WEIGHT) {
     errors.push(VALIDATION_MESSAGES.WEIGHT_TOO_LOW);
   }
-  if (params.weight_lbs > QUOTE_LIMITS.MAX_WEIGHT) {
+  if (params.weight_lbs !== null && params.weight_lbs > QUOTE_LIMITS.MAX_WEIGHT) {
     errors.push(VALIDATION_MESSAGES.WEIGHT_TOO_HIGH);
   }
 
@@ -265,6 +306,11 @@ export function formatQuoteBreakdown(result: QuoteResult): string {
   // Base
   lines.push(`Base: $${result.breakdown.base.toFixed(2)}`);
 
+  // Dry-clean garments
+  result.breakdown.garments?.forEach(item => {
+    lines.push(`+ ${item.label}: $${item.amount.toFixed(2)}`);
+  });
+
   // Surcharges
   if (result.breakdown.surcharges.length > 0) {
     result.breakdown.surcharges.forEach(item => {
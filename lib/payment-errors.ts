@@ -5,8 +5,12 @@
  * and provides user-friendly messages for each error type.
  */
 
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { logger } from './logger';
 
+/** How long to wait before retrying a failed automatic charge */
+export const PAYMENT_RETRY_DELAY_MS = 2 * 60 * 60 * 1000;
+
 export type PaymentErrorType = 
   | 'card_declined'
   | 'insufficient_funds'
@@ -237,6 +241,48 @@ export async function logPaymentError(
   return classified;
 }
 
+/**
+ * Record a failed automatic charge in payment_retry_log
+ * 
+ * Used by every off-session charge (quote approval, recurring visits, Stripe
+ * subscription renewals) so failures land in one retry queue.
+ * 
+ * @param db - Service client
+ * @param failure.orderId - Order the charge was for (if any)
+ * @param failure.subscriptionId - Recurring plan the charge was for (renewals)
+ * @param failure.invoiceId - Stripe invoice of a failed renewal
+ * @param failure.error - Stripe error (message and code are stored)
+ * @param failure.retryAt - When to retry (defaults to PAYMENT_RETRY_DELAY_MS from now)
+ */
+export async function recordPaymentRetry(
+  db: SupabaseClient,
+  failure: {
+    orderId?: string | null;
+    subscriptionId?: string | null;
+    invoiceId?: string | null;
+    error: { message?: string; code?: string | number | null };
+    retryAt?: Date;
+  }
+): Promise<void> {
+  const { error } = await db.from('payment_retry_log').insert({
+    order_id: failure.orderId || null,
+    subscription_id: failure.subscriptionId || null,
+    stripe_invoice_id: failure.invoiceId || null,
+    error_message: failure.error.message || 'Payment failed',
+    stripe_error_code: failure.error.code ? String(failure.error.code) : null,
+    retry_at: (failure.retryAt || new Date(Date.now() + PAYMENT_RETRY_DELAY_MS)).toISOString(),
+  });
+
+  if (error) {
+    logger.error({
+      event: 'payment_retry_log_failed',
+      order_id: failure.orderId,
+      subscription_id: failure.subscriptionId,
+      error: error.message,
+    });
+  }
+}
+
 /**
  * Determine if an error should trigger a retry
  * 
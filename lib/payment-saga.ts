@@ -6,10 +6,13 @@
  * but order creation fails in the database (or vice versa).
  * 
  * The saga follows these steps:
+ * 0. Assign a partner and hold its slot, or use the hold placed when the
+ *    customer reached payment (reversible)
  * 1. Create order in DRAFT status (reversible)
+ * 1b. Redeem the promo code within its limits (reversible)
  * 2. Save payment method via SetupIntent (reversible)
  * 3. Validate card with $0.01 charge + instant refund (reversible)
- * 4. Finalize order to pending_pickup (commit)
+ * 4. Finalize order to pending_pickup, converting the hold (commit)
  * 
  * If any step fails, all previous steps are compensated (rolled back).
  */
@@ -21,13 +24,27 @@ import { executeWithQuota } from './stripe-quota-manager';
 import { executeWithCircuitBreaker } from './stripe-circuit-breaker';
 import { tracePaymentOperation } from './payment-tracing';
 import { getCardValidationAmount } from './payment-config';
+import {
+  BOOKING_CAPACITY_UNITS,
+  convertCapacityHold,
+  releaseCapacityHold,
+  type CapacityHold,
+} from './capacity-holds';
+import {
+  getBookingCapability,
+  holdAssignedSlot,
+  recordSlotAssignment,
+  reuseAssignedHold,
+  type SlotAssignment,
+} from './slot-assignment';
+import { recordPromoRedemption } from './promos';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2023-10-16',
 });
 
 interface SagaStep {
-  type: 'create_order' | 'save_payment_method' | 'validate_card' | 'finalize_order';
+  type: 'hold_capacity' | 'create_order' | 'redeem_promo' | 'save_payment_method' | 'validate_card' | 'convert_hold' | 'finalize_order';
   data: any;
   timestamp: number;
 }
@@ -39,7 +56,7 @@ interface BookingParams {
   estimated_amount_cents: number;
   payment_method_id: string;
   slot: {
-    partner_id: string;
+    partner_id: string; // Partner shown with the window; the assignment decides who takes it
     slot_start: string;
     slot_end: string;
   };
@@ -52,10 +69,18 @@ interface BookingParams {
     line2?: string;
     city: string;
     zip: string;
+    latitude?: number;
+    longitude?: number;
     notes?: string;
   };
   phone?: string;
   details: any;
+  building_id?: string | null; // Matched partner building (see lib/buildings)
+  promo_code_id?: string | null; // Validated promo code (see lib/promos)
+  promo_discount_cents?: number; // Discount the estimate applied for promo_code_id
+  subscription_id?: string | null; // Recurring plan this visit belongs to (see lib/recurring)
+  hold_id?: string; // Slot hold placed when the customer reached payment (see lib/capacity-holds)
+  pricing_version_id?: string | null; // Version the estimate was quoted under (see lib/pricing-versions)
   // Guest booking fields
   guest_name?: string;
   guest_email?: string;
@@ -95,10 +120,25 @@ export class PaymentAuthorizationSaga {
           // Initialize saga
           await this.initializeSaga(params);
           
-          // Step 1: Create order in DRAFT status
-          const draftOrder = await this.createDraftOrder(params);
+          // Step 0: Hold the slot so it can't be sold twice during checkout
+          const { hold, assignment } = await this.holdCapacity(params);
+          
+          // Step 1: Create order in DRAFT status with the assigned partner
+          const draftOrder = await this.createDraftOrder(params, hold.partner_id);
           this.recordStep('create_order', { order_id: draftOrder.id });
           
+          // Step 1b: Redeem the promo code; fails the checkout once the code is used up
+          if (params.promo_code_id) {
+            await recordPromoRedemption({
+              promoCodeId: params.promo_code_id,
+              orderId: draftOrder.id,
+              userId: params.user_id,
+              guestEmail: params.guest_email,
+              discountCents: params.promo_discount_cents || 0,
+            });
+            this.recordStep('redeem_promo', { order_id: draftOrder.id });
+          }
+          
           // Step 2: Save payment method via SetupIntent
           const setupResult = await this.savePaymentMethod(params, draftOrder);
           this.recordStep('save_payment_method', { 
@@ -115,10 +155,16 @@ export class PaymentAuthorizationSaga {
             });
           }
           
-          // Step 4: Finalize order
+          // Step 4: Finalize order (the hold becomes its reservation)
+          await convertCapacityHold(this.db, hold.id, draftOrder.id);
+          this.recordStep('convert_hold', { hold_id: hold.id });
           const finalOrder = await this.finalizeOrder(draftOrder.id, setupResult);
           this.recordStep('finalize_order', { order_id: finalOrder.id });
           
+          if (assignment) {
+            await recordSlotAssignment(this.db, finalOrder.id, assignment);
+          }
+          
           // Mark saga as complete
           await this.completeSaga();
           
@@ -166,14 +212,67 @@ export class PaymentAuthorizationSaga {
     });
   }
   
+  /**
+   * Step 0: Hold the slot
+   * Uses the customer's own hold from the payment step when it is for this
+   * slot; otherwise assigns a partner (see lib/slot-assignment) and holds its slot.
+   * Only holds placed here are released on failure, so a customer retrying
+   * with another card keeps theirs until it expires.
+   */
+  private async holdCapacity(params: BookingParams): Promise<{ hold: CapacityHold; assignment: SlotAssignment | null }> {
+    if (params.hold_id) {
+      // The hold's partner was assigned server-side, so only the owner, service and window have to match
+      const reused = await reuseAssignedHold(this.db, params.hold_id, {
+        userId: params.user_id,
+        serviceType: params.service_type,
+        slotStart: params.slot.slot_start,
+      });
+      
+      logger.info({
+        event: 'saga_capacity_hold_reused',
+        saga_id: this.sagaId,
+        hold_id: params.hold_id
+      });
+      
+      return reused;
+    }
+    
+    const { latitude, longitude } = params.address;
+    const { hold, assignment } = await holdAssignedSlot(this.db, {
+      serviceType: params.service_type,
+      zip: params.address.zip,
+      slotStart: params.slot.slot_start,
+      capability: getBookingCapability(params.service_type, params.service_category, params.details?.cleaningType),
+      location: latitude !== undefined && longitude !== undefined ? { lat: latitude, lng: longitude } : null,
+      units: BOOKING_CAPACITY_UNITS,
+      userId: params.user_id,
+    });
+    this.recordStep('hold_capacity', { hold_id: hold.id });
+    
+    logger.info({
+      event: 'saga_capacity_held',
+      saga_id: this.sagaId,
+      hold_id: hold.id,
+      partner_id: hold.partner_id,
+      strategy: assignment.strategy,
+      expires_at: hold.expires_at
+    });
+    
+    return { hold, assignment };
+  }
+  
   /**
    * Step 1: Create order in DRAFT status
    */
-  private async createDraftOrder(params: BookingParams) {
+  private async createDraftOrder(params: BookingParams, partnerId: string) {
     const orderData: any = {
       user_id: params.user_id || null,
       service_type: params.service_type,
-      partner_id: params.slot.partner_id,
+      partner_id: partnerId,
+      building_id: params.building_id || null,
+      promo_code_id: params.promo_code_id || null,
+      subscription_id: params.subscription_id || null,
+      pricing_version_id: params.pricing_version_id || null,
       slot_start: params.slot.slot_start,
       slot_end: params.slot.slot_end,
       delivery_slot_start: params.delivery_slot?.slot_start || null,
@@ -477,6 +576,30 @@ export class PaymentAuthorizationSaga {
             });
             break;
             
+          case 'hold_capacity':
+          case 'convert_hold':
+            // Give the slot back (a no-op if it was already released)
+            await releaseCapacityHold(this.db, step.data.hold_id, ['held', 'converted']);
+            logger.info({
+              event: 'saga_compensation_capacity_released',
+              saga_id: this.sagaId,
+              hold_id: step.data.hold_id
+            });
+            break;
+            
+          case 'redeem_promo':
+            // Give the redemption back to the code's limits
+            await this.db
+              .from('promo_redemptions')
+              .delete()
+              .eq('order_id', step.data.order_id);
+            logger.info({
+              event: 'saga_compensation_promo_released',
+              saga_id: this.sagaId,
+              order_id: step.data.order_id
+            });
+            break;
+            
           case 'create_order':
           case 'finalize_order':
             // Delete order from database
@@ -0,0 +1,334 @@
+/**
+ * Partner Payouts
+ *
+ * Weekly settlement of completed orders into the payouts ledger. Each partner
+ * earns their payout percent of pre-tax order revenue; refunds are deducted
+ * at the same share (the platform gives up its commission too) while claim
+ * settlements are charged back to the partner in full. Customer tips pass
+ * through untouched: the partner gets 100% of them.
+ *
+ * Settled orders, refunds and tips are stamped with their payout_id in the
+ * same transaction that records the payout, so anything that lands late simply
+ * rolls into the next period.
+ *
+ * @module lib/payouts
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getPaidAmountCents } from './refunds'
+import { toNYDateString } from './timezone'
+
+export type PayoutStatus = 'DUE' | 'PAID' | 'CANCELED'
+
+export const PAYOUT_STATUS_LABELS: Record<PayoutStatus, string> = {
+  DUE: 'Due',
+  PAID: 'Paid',
+  CANCELED: 'Canceled',
+}
+
+/**
+ * Order statuses that earn the partner a payout
+ */
+export const PAYABLE_ORDER_STATUSES = ['delivered', 'completed'] as const
+
+/**
+ * Partner share used when a partner has no payout_percent of their own
+ */
+export const DEFAULT_PAYOUT_PERCENT = parseFloat(process.env.PARTNER_PAYOUT_PERCENT || '65')
+
+export interface PayoutPeriod {
+  start: string // YYYY-MM-DD (Monday)
+  end: string // YYYY-MM-DD (Sunday)
+}
+
+export interface PayoutOrder {
+  id: string
+  quote_cents?: number | null
+  total_cents?: number | null
+  tax_cents?: number | null
+  completed_at?: string | null
+  updated_at?: string | null
+}
+
+export interface PayoutRefund {
+  id: string
+  amount_cents: number
+  status?: string | null
+}
+
+export interface PayoutTip {
+  id: string
+  amount_cents: number
+}
+
+export interface PayoutTotals {
+  order_count: number
+  revenue_cents: number
+  gross_cents: number
+  commission_cents: number
+  refunds_cents: number
+  claims_cents: number
+  adjustments_cents: number
+  tips_cents: number
+  net_cents: number
+}
+
+/**
+ * Normalize a partner's payout_percent to a percentage
+ * 001_init.sql defaulted the column to a fraction (0.6) while the admin UI
+ * stores percents (65), so values of 1 or less are treated as fractions.
+ */
+export function normalizePayoutPercent(value: number | string | null | undefined): number {
+  const parsed = typeof value === 'string' ? parseFloat(value) : value
+
+  if (parsed === null || parsed === undefined || isNaN(parsed)) {
+    return DEFAULT_PAYOUT_PERCENT
+  }
+
+  const percent = parsed <= 1 ? parsed * 100 : parsed
+  return Math.min(Math.max(percent, 0), 100)
+}
+
+/**
+ * Pre-tax revenue of an order; tax is remitted, never shared
+ */
+export function getOrderRevenueCents(order: PayoutOrder): number {
+  return Math.max(getPaidAmountCents(order) - (order.tax_cents || 0), 0)
+}
+
+function formatLocalDate(date: Date): string {
+  const y = date.getFullYear()
+  const m = String(date.getMonth() + 1).padStart(2, '0')
+  const d = String(date.getDate()).padStart(2, '0')
+  return `${y}-${m}-${d}`
+}
+
+/**
+ * Most recent complete Monday–Sunday week before `nyNow`
+ *
+ * @param nyNow - Current NY wall-clock time (see getNYTime)
+ */
+export function getPayoutPeriod(nyNow: Date): PayoutPeriod {
+  const end = new Date(nyNow.getFullYear(), nyNow.getMonth(), nyNow.getDate())
+  // Step back to the previous Sunday (today counts as in-progress)
+  const daysSinceSunday = end.getDay() === 0 ? 7 : end.getDay()
+  end.setDate(end.getDate() - daysSinceSunday)
+
+  const start = new Date(end)
+  start.setDate(start.getDate() - 6)
+
+  return { start: formatLocalDate(start), end: formatLocalDate(end) }
+}
+
+/**
+ * When an order counts as done for settlement purposes
+ */
+export function getSettledAt(order: PayoutOrder): string | null {
+  return order.completed_at || order.updated_at || null
+}
+
+/**
+ * Settlement math for one partner and one period
+ *
+ * @param claimRefundIds - Refunds that settled a claim; charged back in full
+ * @param tips - Customer tips; passed on in full, outside revenue and commission
+ */
+export function calculatePayout(params: {
+  orders: PayoutOrder[]
+  refunds: PayoutRefund[]
+  claimRefundIds?: Set<string>
+  tips?: PayoutTip[]
+  payoutPercent: number
+}): PayoutTotals {
+  const { orders, refunds, claimRefundIds = new Set<string>(), tips = [], payoutPercent } = params
+  const share = payoutPercent / 100
+
+  const revenueCents = orders.reduce((sum, order) => sum + getOrderRevenueCents(order), 0)
+  const grossCents = orders.reduce(
+    (sum, order) => sum + Math.round(getOrderRevenueCents(order) * share),
+    0
+  )
+
+  let refundsCents = 0
+  let claimsCents = 0
+
+  for (const refund of refunds) {
+    if (refund.status === 'failed') continue
+
+    if (claimRefundIds.has(refund.id)) {
+      claimsCents += refund.amount_cents
+    } else {
+      refundsCents += Math.round(refund.amount_cents * share)
+    }
+  }
+
+  const adjustmentsCents = 0 - refundsCents - claimsCents
+  const tipsCents = tips.reduce((sum, tip) => sum + tip.amount_cents, 0)
+
+  return {
+    order_count: orders.length,
+    revenue_cents: revenueCents,
+    gross_cents: grossCents,
+    commission_cents: revenueCents - grossCents,
+    refunds_cents: refundsCents,
+    claims_cents: claimsCents,
+    adjustments_cents: adjustmentsCents,
+    tips_cents: tipsCents,
+    net_cents: grossCents + adjustmentsCents + tipsCents,
+  }
+}
+
+/**
+ * Roll a partner's unsettled orders and refunds up to `period.end` into a
+ * payout row. Returns null when there is nothing to settle or the period was
+ * already settled for this partner.
+ */
+export async function settlePartnerPayout(
+  db: SupabaseClient,
+  partner: { id: string; payout_percent?: number | string | null },
+  period: PayoutPeriod
+): Promise<any | null> {
+  const { data: orders, error: ordersError } = await db
+    .from('orders')
+    .select('id, quote_cents, total_cents, tax_cents, completed_at, updated_at')
+    .eq('partner_id', partner.id)
+    .in('status', [...PAYABLE_ORDER_STATUSES])
+    .is('payout_id', null)
+
+  if (ordersError) throw ordersError
+
+  const settledOrders = (orders || []).filter((order: PayoutOrder) => {
+    const settledAt = getSettledAt(order)
+    return settledAt !== null && toNYDateString(settledAt) <= period.end
+  })
+  const settledOrderIds = new Set(settledOrders.map((order: PayoutOrder) => order.id))
+
+  const { data: refunds, error: refundsError } = await db
+    .from('refunds')
+    .select('id, order_id, amount_cents, status, created_at, orders!inner(partner_id, payout_id)')
+    .eq('orders.partner_id', partner.id)
+    .is('payout_id', null)
+    .neq('status', 'failed')
+
+  if (refundsError) throw refundsError
+
+  // Only deduct refunds on orders the partner has been (or is now being) paid for
+  const settledRefunds = (refunds || []).filter((refund: any) =>
+    toNYDateString(refund.created_at) <= period.end &&
+    (refund.orders?.payout_id || settledOrderIds.has(refund.order_id))
+  )
+
+  const { data: tips, error: tipsError } = await db
+    .from('order_tips')
+    .select('id, order_id, amount_cents, charged_at, orders!inner(payout_id)')
+    .eq('partner_id', partner.id)
+    .eq('status', 'succeeded')
+    .is('payout_id', null)
+
+  if (tipsError) throw tipsError
+
+  // Tips ride along with the payout for their order, like refunds
+  const settledTips = (tips || []).filter((tip: any) =>
+    tip.charged_at !== null &&
+    toNYDateString(tip.charged_at) <= period.end &&
+    (tip.orders?.payout_id || settledOrderIds.has(tip.order_id))
+  )
+
+  if (settledOrders.length === 0 && settledRefunds.length === 0 && settledTips.length === 0) {
+    return null
+  }
+
+  let claimRefundIds = new Set<string>()
+  if (settledRefunds.length > 0) {
+    const { data: claims } = await db
+      .from('claims')
+      .select('refund_id')
+      .in('refund_id', settledRefunds.map((refund: any) => refund.id))
+
+    claimRefundIds = new Set((claims || []).map((claim: any) => claim.refund_id))
+  }
+
+  const payoutPercent = normalizePayoutPercent(partner.payout_percent)
+  const totals = calculatePayout({
+    orders: settledOrders,
+    refunds: settledRefunds,
+    claimRefundIds,
+    tips: settledTips,
+    payoutPercent,
+  })
+
+  // Inserted and stamped in one transaction, so a payout never exists
+  // without the rows it counts (migration 066)
+  const { data: payout, error } = await db.rpc('settle_partner_payout', {
+    p_payout: {
+      partner_id: partner.id,
+      period_start: period.start,
+      period_end: period.end,
+      payout_percent: payoutPercent,
+      status: 'DUE',
+      ...totals,
+    },
+    p_order_ids: Array.from(settledOrderIds),
+    p_refund_ids: settledRefunds.map((refund: any) => refund.id),
+    p_tip_ids: settledTips.map((tip: any) => tip.id),
+  })
+
+  if (error) throw error
+
+  // null: the period was already settled for this partner
+  return payout ?? null
+}
+
+function escapeCsv(value: unknown): string {
+  const str = value === null || value === undefined ? '' : String(value)
+  return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str
+}
+
+function centsToDollars(cents: number | null | undefined): string {
+  return ((cents || 0) / 100).toFixed(2)
+}
+
+/**
+ * CSV export of payout rows (amounts in dollars)
+ */
+export function buildPayoutsCsv(
+  payouts: Array<Record<string, any> & { partners?: { name?: string | null } | null }>
+): string {
+  const header = [
+    'payout_id',
+    'partner',
+    'period_start',
+    'period_end',
+    'orders',
+    'revenue',
+    'payout_percent',
+    'gross',
+    'refunds',
+    'claims',
+    'tips',
+    'net',
+    'status',
+    'paid_at',
+    'reference',
+  ]
+
+  const rows = payouts.map((payout) => [
+    payout.id,
+    payout.partners?.name || payout.partner_id,
+    payout.period_start,
+    payout.period_end,
+    payout.order_count ?? 0,
+    centsToDollars(payout.revenue_cents),
+    payout.payout_percent ?? '',
+    centsToDollars(payout.gross_cents),
+    centsToDollars(payout.refunds_cents),
+    centsToDollars(payout.claims_cents),
+    centsToDollars(payout.tips_cents),
+    centsToDollars(payout.net_cents),
+    payout.status,
+    payout.paid_at || '',
+    payout.payout_reference || '',
+  ])
+
+  return [header, ...rows].map((row) => row.map(escapeCsv).join(',')).join('\n')
+}
@@ -1,5 +1,16 @@
 import PDFDocument from 'pdfkit'
-import { formatMoney } from './pricing'
+import QRCode from 'qrcode'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { formatMoney, getOrderTaxRate } from './pricing'
+import { getPaidAmountCents } from './refunds'
+import { getOrderTip } from './tips'
+import { shortOrderId } from './ids'
+
+/**
+ * Order columns buildOrderInvoiceData reads
+ */
+export const INVOICE_ORDER_FIELDS =
+  'id, user_id, service_type, status, pricing_version_id, subtotal_cents, tax_cents, delivery_cents, total_cents, quote_cents, credit_cents, paid_at, created_at, profiles(full_name, email)'
 
 export interface InvoiceData {
   order_id: string
@@ -20,6 +31,8 @@ export interface InvoiceData {
   delivery_cents: number
   credit_cents?: number
   total_cents: number
+  /** Tip charged separately after completion; not taxed, not in total_cents */
+  tip_cents?: number
   tax_breakdown: {
     taxable_subtotal_cents: number
     tax_exempt_subtotal_cents: number
@@ -27,6 +40,64 @@ export interface InvoiceData {
   }
 }
 
+/**
+ * Assemble a paid order's invoice: the service, tax and delivery, with any
+ * tip as a separate untaxed line below the order total
+ *
+ * @param order - Order row selected with INVOICE_ORDER_FIELDS
+ */
+export async function buildOrderInvoiceData(db: SupabaseClient, order: any): Promise<InvoiceData> {
+  const { data: invoice } = await db
+    .from('invoices')
+    .select('tax_breakdown_json')
+    .eq('order_id', order.id)
+    .maybeSingle()
+
+  const tip = await getOrderTip(db, order.id)
+
+  const taxCents = order.tax_cents || 0
+  const deliveryCents = order.delivery_cents || 0
+  const totalCents = getPaidAmountCents(order)
+  const serviceCents = Math.max(totalCents - taxCents - deliveryCents, 0)
+  const profile = Array.isArray(order.profiles) ? order.profiles[0] : order.profiles
+
+  const items: InvoiceData['items'] = [
+    {
+      label: order.service_type === 'LAUNDRY' ? 'Laundry Service' : 'Home Cleaning',
+      quantity: 1,
+      unit_price_cents: serviceCents,
+      total_cents: serviceCents,
+      taxable: taxCents > 0,
+    },
+  ]
+  if (deliveryCents > 0) {
+    items.push({ label: 'Delivery', quantity: 1, unit_price_cents: deliveryCents, total_cents: deliveryCents, taxable: false })
+  }
+
+  return {
+    order_id: order.id,
+    order_number: shortOrderId(order.id),
+    created_at: order.paid_at || order.created_at,
+    customer_name: profile?.full_name || 'Customer',
+    customer_email: profile?.email || '',
+    service_type: order.service_type,
+    items,
+    subtotal_cents: serviceCents + deliveryCents,
+    tax_cents: taxCents,
+    delivery_cents: deliveryCents,
+    credit_cents: order.credit_cents || 0,
+    total_cents: totalCents,
+    tip_cents: tip?.status === 'succeeded' ? tip.amount_cents : 0,
+    tax_breakdown: invoice?.tax_breakdown_json?.tax_rate !== undefined
+      ? invoice.tax_breakdown_json
+      : {
+          taxable_subtotal_cents: taxCents > 0 ? serviceCents : 0,
+          tax_exempt_subtotal_cents: taxCents > 0 ? deliveryCents : serviceCents + deliveryCents,
+          tax_rate: await getOrderTaxRate(order, db),
+        },
+  }
+}
+
 /**
  * Generate PDF invoice
  * Returns a Buffer that can be streamed to the response
@@ -145,6 +216,22 @@ export function generateInvoicePDF(data: InvoiceData): Promise<Buffer> {
         .text('Total:', 400, y)
         .text(formatMoney(data.total_cents - (data.credit_cents || 0)), 450, y, { width: 100, align: 'right' })
       
+      if (data.tip_cents && data.tip_cents > 0) {
+        y += 20
+        doc
+          .fontSize(10)
+          .font('Helvetica')
+          .text('Tip (not taxed):', 400, y)
+          .text(formatMoney(data.tip_cents), 450, y, { width: 100, align: 'right' })
+        
+        y += 20
+        doc
+          .fontSize(12)
+          .font('Helvetica-Bold')
+          .text('Total Paid:', 400, y)
+          .text(formatMoney(data.total_cents - (data.credit_cents || 0) + data.tip_cents), 450, y, { width: 100, align: 'right' })
+      }
+      
       // Tax breakdown
       y += 40
       doc
@@ -187,3 +274,65 @@ export function generateInvoicePDF(data: InvoiceData): Promise<Buffer> {
     }
   })
 }
+
+export interface BagLabel {
+  label_code: string
+  order_number: string
+  bag_number: number
+  bag_count: number
+  customer_name: string
+  /** First line of the service address */
+  address_line: string
+}
+
+/**
+ * Generate printable bag labels, one 4x6" page per bag
+ * The QR code holds the label code the partner scans at each custody step
+ */
+export async function generateBagLabelsPDF(labels: BagLabel[]): Promise<Buffer> {
+  const qrCodes = await Promise.all(
+    labels.map((label) => QRCode.toBuffer(label.label_code, { errorCorrectionLevel: 'M', margin: 1, width: 400 }))
+  )
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: [288, 432], margin: 18, autoFirstPage: false })
+    const buffers: Buffer[] = []
+    
+    doc.on('data', buffers.push.bind(buffers))
+    doc.on('end', () => resolve(Buffer.concat(buffers)))
+    doc.on('error', reject)
+    
+    try {
+      labels.forEach((label, index) => {
+        doc.addPage()
+        
+        doc
+          .font('Helvetica-Bold')
+          .fontSize(16)
+          .text('TIDYHOOD', 18, 18)
+          .font('Helvetica')
+          .fontSize(10)
+          .text(`Bag ${label.bag_number} of ${label.bag_count}`, 18, 22, { width: 252, align: 'right' })
+        
+        doc.image(qrCodes[index], 44, 56, { width: 200, height: 200 })
+        
+        doc
+          .font('Helvetica-Bold')
+          .fontSize(24)
+          .text(label.label_code, 18, 268, { width: 252, align: 'center' })
+          .font('Helvetica')
+          .fontSize(12)
+          .text(`Order #${label.order_number}`, 18, 310, { width: 252, align: 'center' })
+          .text(label.customer_name, 18, 332, { width: 252, align: 'center' })
+          .fontSize(10)
+          .text(label.address_line, 18, 352, { width: 252, align: 'center' })
+          .fontSize(8)
+          .text('Scan at pickup, facility, weighing, packing and delivery', 18, 400, { width: 252, align: 'center' })
+      })
+      
+      doc.end()
+    } catch (error) {
+      reject(error)
+    }
+  })
+}
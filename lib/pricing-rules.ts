@@ -0,0 +1,197 @@
+/**
+ * Pricing Rule Types
+ *
+ * Everything a quote charges is a row in pricing_rules, read by unit_type:
+ *
+ * - PER_LB, FLAT, ADDON, DELIVERY: a price (unit_price_cents)
+ * - PER_ITEM: a dry-clean garment's price each (unit_price_cents)
+ * - MULTIPLIER: a factor on the base price (multiplier)
+ * - PERCENT_SURCHARGE: a share of the subtotal added on (rate), e.g. rush
+ * - FREQUENCY_DISCOUNT: a share off recurring visits from the second on (rate)
+ * - MIN_QTY: the least quantity billed (min_quantity), e.g. laundry lbs
+ * - TAX: sales tax on taxable lines (rate)
+ *
+ * `label` is the customer-facing line label. These helpers are pure so the
+ * server quotes, display pricing and the partner quote form read the rules
+ * the same way.
+ *
+ * @module lib/pricing-rules
+ */
+
+import type { Frequency } from './types'
+
+// ============================================
+// TYPES
+// ============================================
+
+export type PricingUnitType =
+  | 'PER_LB'
+  | 'PER_ITEM'
+  | 'FLAT'
+  | 'ADDON'
+  | 'MULTIPLIER'
+  | 'DELIVERY'
+  | 'PERCENT_SURCHARGE'
+  | 'FREQUENCY_DISCOUNT'
+  | 'MIN_QTY'
+  | 'TAX'
+
+export interface PricingRule {
+  id: string
+  version_id: string
+  service_type: 'LAUNDRY' | 'CLEANING'
+  geozone: string | null
+  unit_type: PricingUnitType
+  unit_key: string
+  unit_price_cents: number | null
+  multiplier: number | null
+  rate: number | null
+  min_quantity: number | null
+  label: string | null
+  priority: number
+  active: boolean
+}
+
+export type DiscountFrequency = Exclude<Frequency, 'oneTime'>
+
+/**
+ * A dry-clean garment of the catalog, priced per item
+ */
+export interface DryCleanGarment {
+  key: string
+  label: string
+  price_cents: number
+}
+
+/**
+ * Garments itemized on an order (at intake, or in a sample cart)
+ */
+export interface GarmentCount {
+  key: string
+  quantity: number
+}
+
+/**
+ * Laundry rates the partner quote form prices with
+ */
+export interface LaundryRates {
+  per_lb_cents: number
+  min_lbs: number
+  /** Rush surcharge share of the subtotal, null when rush isn't offered */
+  rush_rate: number | null
+  /** Dry-clean garment catalog, empty when dry clean isn't priced */
+  garments: DryCleanGarment[]
+}
+
+// ============================================
+// KEYS
+// ============================================
+
+export const LAUNDRY_PER_LB_KEY = 'LND_WF_PERLB'
+export const LAUNDRY_MIN_LBS_KEY = 'LND_WF_MIN_LBS'
+export const RUSH_SURCHARGE_KEY = 'LND_RUSH_24HR'
+export const SALES_TAX_KEY = 'NYC_SALES_TAX'
+
+export const FREQUENCY_DISCOUNT_KEYS: Record<DiscountFrequency, string> = {
+  weekly: 'CLN_RECURRING_WEEKLY',
+  biweekly: 'CLN_RECURRING_BIWEEKLY',
+  monthly: 'CLN_RECURRING_MONTHLY',
+}
+
+// ============================================
+// READING RULES
+// ============================================
+
+type RuleLike = Pick<PricingRule, 'unit_type' | 'unit_key'> & Partial<PricingRule>
+
+export function findPricingRule<T extends RuleLike>(
+  rules: T[],
+  unitType: PricingUnitType,
+  unitKey: string
+): T | undefined {
+  return rules.find(rule => rule.unit_type === unitType && rule.unit_key === unitKey)
+}
+
+/**
+ * Customer-facing label of a rule, falling back to its key
+ */
+export function getRuleLabel(rules: RuleLike[], unitKey: string): string {
+  return rules.find(rule => rule.unit_key === unitKey && rule.label)?.label || unitKey
+}
+
+/**
+ * Share of the subtotal a surcharge adds, or null when it isn't configured
+ */
+export function getSurchargeRate(rules: RuleLike[], unitKey: string): number | null {
+  return findPricingRule(rules, 'PERCENT_SURCHARGE', unitKey)?.rate ?? null
+}
+
+/**
+ * Discount for each plan frequency; 0 when a frequency has no rule
+ */
+export function getFrequencyDiscounts(rules: RuleLike[]): Record<DiscountFrequency, number> {
+  const rate = (frequency: DiscountFrequency) =>
+    findPricingRule(rules, 'FREQUENCY_DISCOUNT', FREQUENCY_DISCOUNT_KEYS[frequency])?.rate ?? 0
+
+  return { weekly: rate('weekly'), biweekly: rate('biweekly'), monthly: rate('monthly') }
+}
+
+/**
+ * Least quantity billed, or 0 when there is no minimum
+ */
+export function getMinQuantity(rules: RuleLike[], unitKey: string): number {
+  return findPricingRule(rules, 'MIN_QTY', unitKey)?.min_quantity ?? 0
+}
+
+/**
+ * Sales tax rate on taxable lines
+ *
+ * @throws Error when no tax rule is configured, rather than quoting untaxed
+ */
+export function getTaxRate(rules: RuleLike[]): number {
+  const rate = findPricingRule(rules, 'TAX', SALES_TAX_KEY)?.rate
+  if (rate === null || rate === undefined) {
+    throw new Error('Sales tax not configured')
+  }
+  return rate
+}
+
+/**
+ * Dry-clean garment catalog, in the order admins prioritized it
+ */
+export function getGarmentCatalog(rules: RuleLike[]): DryCleanGarment[] {
+  return rules
+    .filter(rule => rule.unit_type === 'PER_ITEM' && rule.unit_price_cents != null)
+    .sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0))
+    .map(rule => ({
+      key: rule.unit_key,
+      label: rule.label || rule.unit_key,
+      price_cents: rule.unit_price_cents as number,
+    }))
+}
+
+/**
+ * Laundry rates from a version's rules
+ *
+ * @throws Error when the per-pound rate is missing
+ */
+export function getLaundryRates(rules: RuleLike[]): LaundryRates {
+  const perLbRule = findPricingRule(rules, 'PER_LB', LAUNDRY_PER_LB_KEY)
+  if (!perLbRule || perLbRule.unit_price_cents == null) {
+    throw new Error('Laundry per-pound pricing not configured')
+  }
+
+  return {
+    per_lb_cents: perLbRule.unit_price_cents,
+    min_lbs: getMinQuantity(rules, LAUNDRY_MIN_LBS_KEY),
+    rush_rate: getSurchargeRate(rules, RUSH_SURCHARGE_KEY),
+    garments: getGarmentCatalog(rules),
+  }
+}
+
+/**
+ * "25%" style display of a rate
+ */
+export function formatRate(rate: number): string {
+  return `${Math.round(rate * 10000) / 100}%`
+}
@@ -0,0 +1,315 @@
+/**
+ * Pricing Versions
+ *
+ * Pricing rules belong to a version so price changes can be scheduled,
+ * previewed and reproduced.
+ *
+ * - Published versions are locked; the one with the latest effective_from at
+ *   or before a time prices bookings made then
+ * - Changes are staged in a single draft (a copy of the latest published
+ *   rules, a scheduled version's if there is one),
+ *   previewed against sample carts (see previewPricingVersion in lib/pricing)
+ *   and published with an effective_from, now or later
+ * - Orders keep the version they were quoted under (orders.pricing_version_id)
+ *   and re-quotes use it
+ *
+ * @module lib/pricing-versions
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { ConflictError, NotFoundError, ValidationError } from './errors'
+import type { PricingRule } from './pricing-rules'
+
+// ============================================
+// TYPES
+// ============================================
+
+export type PricingVersionStatus = 'draft' | 'published'
+
+export interface PricingVersion {
+  id: string
+  version: number
+  status: PricingVersionStatus
+  effective_from: string | null
+  effective_to: string | null
+  notes: string | null
+  created_by: string | null
+  published_by: string | null
+  published_at: string | null
+  created_at: string
+}
+
+// ============================================
+// RESOLUTION
+// ============================================
+
+/**
+ * Published version in effect at a time, or null before the first one
+ */
+export function selectEffectiveVersion(versions: PricingVersion[], at: Date): PricingVersion | null {
+  let effective: PricingVersion | null = null
+
+  for (const version of versions) {
+    if (version.status !== 'published' || !version.effective_from) continue
+    if (new Date(version.effective_from).getTime() > at.getTime()) continue
+    if (!effective || version.effective_from > effective.effective_from!) effective = version
+  }
+
+  return effective
+}
+
+/**
+ * Published version with the latest effective_from, scheduled ones included
+ * (the one a new draft builds on and takes effect after)
+ */
+export function selectLatestPublishedVersion(versions: PricingVersion[]): PricingVersion | null {
+  return versions
+    .filter((version) => version.status === 'published' && version.effective_from)
+    .sort((a, b) => b.effective_from!.localeCompare(a.effective_from!))[0] ?? null
+}
+
+export async function listPricingVersions(db: SupabaseClient): Promise<PricingVersion[]> {
+  const { data, error } = await db
+    .from('pricing_versions')
+    .select('*')
+    .order('version', { ascending: false })
+
+  if (error) throw error
+  return (data || []) as PricingVersion[]
+}
+
+export async function getPricingVersion(db: SupabaseClient, versionId: string): Promise<PricingVersion | null> {
+  const { data, error } = await db
+    .from('pricing_versions')
+    .select('*')
+    .eq('id', versionId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data as PricingVersion | null
+}
+
+/**
+ * Version that prices bookings made at `at`
+ */
+export async function getEffectivePricingVersion(
+  db: SupabaseClient,
+  at: Date = new Date()
+): Promise<PricingVersion> {
+  const { data, error } = await db
+    .from('pricing_versions')
+    .select('*')
+    .eq('status', 'published')
+
+  if (error) throw error
+
+  const effective = selectEffectiveVersion((data || []) as PricingVersion[], at)
+  if (!effective) {
+    throw new Error('Pricing not configured')
+  }
+
+  return effective
+}
+
+// ============================================
+// DRAFTS
+// ============================================
+
+/**
+ * Stage a draft: a copy of the latest published version's rules to edit
+ *
+ * A draft can only take effect after that version, so it starts from a
+ * scheduled version's rules rather than the ones in effect today.
+ *
+ * @throws ConflictError (PRICING_DRAFT_EXISTS) when a draft is already staged
+ */
+export async function createPricingDraft(
+  db: SupabaseClient,
+  params: { createdBy: string; notes?: string | null }
+): Promise<PricingVersion> {
+  const versions = await listPricingVersions(db)
+  if (versions.some((version) => version.status === 'draft')) {
+    throw new ConflictError('A pricing draft is already staged', 'PRICING_DRAFT_EXISTS')
+  }
+
+  const base = selectLatestPublishedVersion(versions)
+
+  const { data: draft, error } = await db
+    .from('pricing_versions')
+    .insert({
+      version: Math.max(0, ...versions.map((version) => version.version)) + 1,
+      status: 'draft',
+      notes: params.notes ?? null,
+      created_by: params.createdBy,
+    })
+    .select()
+    .single()
+
+  // The unique draft index catches two admins staging at once
+  if (error?.code === '23505') {
+    throw new ConflictError('A pricing draft is already staged', 'PRICING_DRAFT_EXISTS')
+  }
+  if (error || !draft) throw error || new Error('Failed to create pricing draft')
+
+  if (base) {
+    const { data: rules, error: rulesError } = await db
+      .from('pricing_rules')
+      .select('*')
+      .eq('version_id', base.id)
+
+    if (rulesError) throw rulesError
+
+    if (rules && rules.length > 0) {
+      const copies = rules.map(({ id, version_id, created_at, updated_at, ...rule }) => ({
+        ...rule,
+        version_id: draft.id,
+      }))
+      const { error: copyError } = await db.from('pricing_rules').insert(copies)
+      if (copyError) {
+        await db.from('pricing_versions').delete().eq('id', draft.id)
+        throw copyError
+      }
+    }
+  }
+
+  return draft as PricingVersion
+}
+
+/**
+ * Throw unless the version is a draft (published rules are locked)
+ *
+ * @throws NotFoundError for an unknown version
+ * @throws ConflictError (PRICING_VERSION_LOCKED) for a published version
+ */
+export async function assertPricingDraft(db: SupabaseClient, versionId: string): Promise<PricingVersion> {
+  const version = await getPricingVersion(db, versionId)
+  if (!version) {
+    throw new NotFoundError('Pricing version not found')
+  }
+  if (version.status !== 'draft') {
+    throw new ConflictError(
+      `Pricing version ${version.version} is published and can't be changed; edit the draft instead`,
+      'PRICING_VERSION_LOCKED'
+    )
+  }
+  return version
+}
+
+/**
+ * Columns of a draft rule an admin can change, plus who changed it and why
+ */
+export type PricingRuleUpdate = Partial<
+  Pick<PricingRule, 'unit_price_cents' | 'multiplier' | 'rate' | 'min_quantity' | 'label' | 'active'>
+> & {
+  updated_by: string
+  change_reason: string | null
+}
+
+/**
+ * Update a rule only while its version is still a draft
+ *
+ * The check and the update run in one statement (update_draft_pricing_rule),
+ * so a publish can't land between them.
+ *
+ * @throws NotFoundError for an unknown rule
+ * @throws ConflictError (PRICING_VERSION_LOCKED) when its version is published
+ */
+export async function updateDraftPricingRule(
+  db: SupabaseClient,
+  ruleId: string,
+  updates: PricingRuleUpdate
+): Promise<PricingRule> {
+  const { data, error } = await db.rpc('update_draft_pricing_rule', {
+    p_rule_id: ruleId,
+    p_updates: updates,
+  })
+
+  if (error) throw error
+
+  const result = data as { success: boolean; error?: string; version?: number; rule?: PricingRule }
+  if (result.success) return result.rule!
+
+  if (result.error === 'PRICING_VERSION_LOCKED') {
+    throw new ConflictError(
+      `Pricing version ${result.version} is published and can't be changed; edit the draft instead`,
+      'PRICING_VERSION_LOCKED'
+    )
+  }
+  throw new NotFoundError('Pricing rule not found')
+}
+
+/**
+ * Publish the draft, effective now or at a later time
+ *
+ * The version it replaces gets effective_to. Versions only move forward:
+ * a draft can't take effect in the past or before the latest published one.
+ *
+ * @throws ValidationError (EFFECTIVE_FROM_IN_PAST, EFFECTIVE_FROM_TOO_EARLY)
+ * @throws ConflictError (PRICING_VERSION_LOCKED) when it was already published
+ */
+export async function publishPricingVersion(
+  db: SupabaseClient,
+  versionId: string,
+  params: { publishedBy: string; effectiveFrom?: Date },
+  now: Date = new Date()
+): Promise<PricingVersion> {
+  await assertPricingDraft(db, versionId)
+
+  const effectiveFrom = params.effectiveFrom ?? now
+  if (effectiveFrom.getTime() < now.getTime() - 60 * 1000) {
+    throw new ValidationError('Pricing can only take effect now or later', 'EFFECTIVE_FROM_IN_PAST')
+  }
+
+  const latest = selectLatestPublishedVersion(await listPricingVersions(db))
+
+  if (latest && effectiveFrom.getTime() <= new Date(latest.effective_from!).getTime()) {
+    throw new ValidationError(
+      `Version ${latest.version} takes effect ${latest.effective_from}; pick a later time`,
+      'EFFECTIVE_FROM_TOO_EARLY'
+    )
+  }
+
+  const { data, error } = await db
+    .from('pricing_versions')
+    .update({
+      status: 'published',
+      effective_from: effectiveFrom.toISOString(),
+      effective_to: null,
+      published_by: params.publishedBy,
+      published_at: now.toISOString(),
+    })
+    .eq('id', versionId)
+    .eq('status', 'draft')
+    .select()
+
+  if (error) throw error
+
+  const published = ((data || [])[0] as PricingVersion | undefined) ?? null
+  if (!published) {
+    throw new ConflictError('This pricing draft was already published', 'PRICING_VERSION_LOCKED')
+  }
+
+  if (latest) {
+    await db
+      .from('pricing_versions')
+      .update({ effective_to: published.effective_from })
+      .eq('id', latest.id)
+  }
+
+  return published
+}
+
+/**
+ * Throw away the staged draft and its rules
+ */
+export async function discardPricingDraft(db: SupabaseClient, versionId: string): Promise<void> {
+  await assertPricingDraft(db, versionId)
+
+  const { error } = await db
+    .from('pricing_versions')
+    .delete()
+    .eq('id', versionId)
+    .eq('status', 'draft')
+
+  if (error) throw error
+}
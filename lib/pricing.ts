@@ -1,7 +1,26 @@
 import { getServiceClient } from './db'
-
-const NYC_TAX_RATE = parseFloat(process.env.NYC_TAX_RATE || '0.08875')
-const LAUNDRY_MIN_LBS = parseInt(process.env.LAUNDRY_MIN_LBS || '15')
+import {
+  getBuildingTerms,
+  applyBuildingOverrides,
+  buildBuildingDiscountItem,
+} from './buildings'
+import { buildPromoDiscountItem, type PromoCode } from './promos'
+import { getEffectivePricingVersion } from './pricing-versions'
+import { ValidationError } from './errors'
+import {
+  FREQUENCY_DISCOUNT_KEYS,
+  findPricingRule,
+  getFrequencyDiscounts,
+  getLaundryRates,
+  getRuleLabel,
+  getTaxRate,
+  formatRate,
+  RUSH_SURCHARGE_KEY,
+  type DiscountFrequency,
+  type GarmentCount,
+  type PricingRule,
+} from './pricing-rules'
+import type { SupabaseClient } from '@supabase/supabase-js'
 
 export interface PricingLineItem {
   key: string
@@ -23,13 +42,18 @@ export interface PricingBreakdown {
     tax_exempt_subtotal_cents: number
     tax_rate: number
   }
+  pricing_version_id?: string // Version the quote was priced under (see lib/pricing-versions)
 }
 
 export interface LaundryQuoteParams {
   zip: string
-  lbs: number
+  lbs: number // 0 for garments-only (dry clean) orders
+  garments?: GarmentCount[] // Dry-clean items, priced per item from the PER_ITEM catalog
   addons?: string[]
   rushService?: boolean
+  buildingId?: string | null
+  promo?: PromoCode | null // Already validated (see lib/promos validatePromoCode)
+  pricingVersionId?: string | null // The order's locked version or a draft being previewed; defaults to the one in effect
 }
 
 export interface CleaningQuoteParams {
@@ -41,66 +65,113 @@ export interface CleaningQuoteParams {
   frequency?: 'oneTime' | 'weekly' | 'biweekly' | 'monthly'
   visitsCompleted?: number
   firstVisitDeep?: boolean
+  buildingId?: string | null
+  promo?: PromoCode | null // Already validated (see lib/promos validatePromoCode)
+  pricingVersionId?: string | null // The order's locked version or a draft being previewed; defaults to the one in effect
 }
 
 /**
- * Fetch active pricing rules for a service type and zone
+ * Fetch active pricing rules of a version for a service type and zone
+ * Uses the version in effect now unless one is given; without a zip, rules
+ * for every zone are returned (display pricing).
  */
-async function getPricingRules(serviceType: 'LAUNDRY' | 'CLEANING', zip: string) {
-  const db = getServiceClient()
+export async function getPricingRules(
+  serviceType: 'LAUNDRY' | 'CLEANING',
+  zip: string | null,
+  pricingVersionId?: string | null,
+  db: SupabaseClient = getServiceClient()
+): Promise<{ versionId: string; rules: PricingRule[] }> {
+  const versionId = pricingVersionId || (await getEffectivePricingVersion(db)).id
   
   const { data: rules, error } = await db
     .from('pricing_rules')
     .select('*')
     .eq('service_type', serviceType)
+    .eq('version_id', versionId)
     .eq('active', true)
     .order('priority', { ascending: true })
   
   if (error) throw error
   
   // Filter by geozone (if specified)
-  return rules.filter(rule => {
-    if (!rule.geozone) return true
-    const zones = rule.geozone.split(',').map((z: string) => z.trim())
-    return zones.includes(zip)
-  })
+  return {
+    versionId,
+    rules: (rules as PricingRule[]).filter(rule => {
+      if (!rule.geozone || !zip) return true
+      const zones = rule.geozone.split(',').map((z: string) => z.trim())
+      return zones.includes(zip)
+    }),
+  }
+}
+
+/**
+ * Sales tax rate of the version an order was priced under
+ *
+ * @throws Error when that version has no tax rule
+ */
+export async function getOrderTaxRate(
+  order: { service_type: 'LAUNDRY' | 'CLEANING'; pricing_version_id?: string | null },
+  db: SupabaseClient = getServiceClient()
+): Promise<number> {
+  const { rules } = await getPricingRules(order.service_type, null, order.pricing_version_id, db)
+  return getTaxRate(rules)
 }
 
 /**
  * Calculate laundry pricing
+ * Wash & fold pounds and dry-clean garments price together, so mixed orders
+ * get one breakdown; a garments-only order has no per-pound line.
  */
 export async function quoteLaundry(params: LaundryQuoteParams): Promise<PricingBreakdown> {
-  const { zip, lbs, addons = [], rushService = false } = params
+  const { zip, lbs, garments = [], addons = [], rushService = false, buildingId, promo, pricingVersionId } = params
   
-  const rules = await getPricingRules('LAUNDRY', zip)
+  const buildingTerms = buildingId ? await getBuildingTerms(buildingId) : null
+  const { versionId, rules: versionRules } = await getPricingRules('LAUNDRY', zip, pricingVersionId)
+  const rules = applyBuildingOverrides(versionRules, buildingTerms)
   const items: PricingLineItem[] = []
+  const rates = getLaundryRates(rules)
+  const taxRate = getTaxRate(rules)
   
-  // Find per-pound rate
-  const perLbRule = rules.find(r => r.unit_type === 'PER_LB' && r.unit_key === 'LND_WF_PERLB')
-  if (!perLbRule) {
-    throw new Error('Laundry per-pound pricing not configured')
-  }
+  const itemized = garments.filter(garment => garment.quantity > 0)
   
   // Apply minimum weight
-  const effectiveLbs = Math.max(lbs, LAUNDRY_MIN_LBS)
-  const laundryTotal = effectiveLbs * perLbRule.unit_price_cents
+  if (lbs > 0 || itemized.length === 0) {
+    const effectiveLbs = Math.max(lbs, rates.min_lbs)
+    const laundryTotal = effectiveLbs * rates.per_lb_cents
+    
+    items.push({
+      key: 'LND_WF_PERLB',
+      label: `Wash & Fold (${effectiveLbs} lbs)`,
+      quantity: effectiveLbs,
+      unit_price_cents: rates.per_lb_cents,
+      total_cents: laundryTotal,
+      taxable: false, // Laundry is tax-exempt
+    })
+  }
   
-  items.push({
-    key: 'LND_WF_PERLB',
-    label: `Wash & Fold (${effectiveLbs} lbs)`,
-    quantity: effectiveLbs,
-    unit_price_cents: perLbRule.unit_price_cents,
-    total_cents: laundryTotal,
-    taxable: false, // Laundry is tax-exempt
-  })
+  // Dry-clean garments
+  for (const garment of itemized) {
+    const garmentRule = findPricingRule(rules, 'PER_ITEM', garment.key)
+    if (garmentRule?.unit_price_cents == null) {
+      throw new ValidationError(`Unknown dry-clean garment: ${garment.key}`, 'UNKNOWN_GARMENT')
+    }
+    items.push({
+      key: garment.key,
+      label: `${getRuleLabel(rules, garment.key)} × ${garment.quantity}`,
+      quantity: garment.quantity,
+      unit_price_cents: garmentRule.unit_price_cents,
+      total_cents: garment.quantity * garmentRule.unit_price_cents,
+      taxable: false, // Dry cleaning is tax-exempt like laundry
+    })
+  }
   
   // Add-ons
   for (const addonKey of addons) {
     const addonRule = rules.find(r => r.unit_type === 'ADDON' && r.unit_key === addonKey)
-    if (addonRule) {
+    if (addonRule?.unit_price_cents != null) {
       items.push({
         key: addonKey,
-        label: formatAddonLabel(addonKey),
+        label: getRuleLabel(rules, addonKey),
         unit_price_cents: addonRule.unit_price_cents,
         total_cents: addonRule.unit_price_cents,
         taxable: false,
@@ -111,12 +182,15 @@ export async function quoteLaundry(params: LaundryQuoteParams): Promise<PricingB
   // Calculate subtotal before rush service
   let subtotal_cents = items.reduce((sum, item) => sum + item.total_cents, 0)
   
-  // Apply 25% rush service surcharge if selected
+  // Rush service surcharge (a share of the subtotal) if selected
   if (rushService) {
-    const rushCharge = Math.round(subtotal_cents * 0.25)
+    if (rates.rush_rate === null) {
+      throw new Error('Rush service pricing not configured')
+    }
+    const rushCharge = Math.round(subtotal_cents * rates.rush_rate)
     items.push({
-      key: 'LND_RUSH_24HR',
-      label: '24-Hour Rush Service (+25%)',
+      key: RUSH_SURCHARGE_KEY,
+      label: `${getRuleLabel(rules, RUSH_SURCHARGE_KEY)} (+${formatRate(rates.rush_rate)})`,
       unit_price_cents: rushCharge,
       total_cents: rushCharge,
       taxable: false,
@@ -124,12 +198,26 @@ export async function quoteLaundry(params: LaundryQuoteParams): Promise<PricingB
     subtotal_cents += rushCharge
   }
   
+  // Building discount applies to the full laundry subtotal
+  const buildingDiscount = buildBuildingDiscountItem(subtotal_cents, buildingTerms, false)
+  if (buildingDiscount) {
+    items.push(buildingDiscount)
+    subtotal_cents += buildingDiscount.total_cents
+  }
+  
+  // Promo code applies last, to what the customer would otherwise pay
+  const promoDiscount = buildPromoDiscountItem(items, subtotal_cents, promo, false)
+  if (promoDiscount) {
+    items.push(promoDiscount)
+    subtotal_cents += promoDiscount.total_cents
+  }
+  
   // Note: Delivery is included in base price (no separate fee)
   const deliveryCents = 0
   
   // Calculate totals (subtotal already calculated above)
   const taxable_subtotal = items.filter(i => i.taxable).reduce((sum, item) => sum + item.total_cents, 0)
-  const tax_cents = Math.round(taxable_subtotal * NYC_TAX_RATE)
+  const tax_cents = Math.round(taxable_subtotal * taxRate)
   const total_cents = subtotal_cents + tax_cents
   
   return {
@@ -141,8 +229,9 @@ export async function quoteLaundry(params: LaundryQuoteParams): Promise<PricingB
     tax_breakdown: {
       taxable_subtotal_cents: taxable_subtotal,
       tax_exempt_subtotal_cents: subtotal_cents - taxable_subtotal,
-      tax_rate: NYC_TAX_RATE,
+      tax_rate: taxRate,
     },
+    pricing_version_id: versionId,
   }
 }
 
@@ -158,11 +247,17 @@ export async function quoteCleaning(params: CleaningQuoteParams): Promise<Pricin
     addons = [],
     frequency = 'oneTime',
     visitsCompleted = 0,
-    firstVisitDeep = false
+    firstVisitDeep = false,
+    buildingId,
+    promo,
+    pricingVersionId
   } = params
   
-  const rules = await getPricingRules('CLEANING', zip)
+  const buildingTerms = buildingId ? await getBuildingTerms(buildingId) : null
+  const { versionId, rules: versionRules } = await getPricingRules('CLEANING', zip, pricingVersionId)
+  const rules = applyBuildingOverrides(versionRules, buildingTerms)
   const items: PricingLineItem[] = []
+  const taxRate = getTaxRate(rules)
   
   // Determine flat rate key
   let unitKey: string
@@ -173,7 +268,7 @@ export async function quoteCleaning(params: CleaningQuoteParams): Promise<Pricin
   else unitKey = 'CLN_STD_4BR'
   
   const baseRule = rules.find(r => r.unit_type === 'FLAT' && r.unit_key === unitKey)
-  if (!baseRule) {
+  if (baseRule?.unit_price_cents == null) {
     throw new Error('Cleaning pricing not configured for this unit size')
   }
   
@@ -186,7 +281,7 @@ export async function quoteCleaning(params: CleaningQuoteParams): Promise<Pricin
   // Apply deep clean multiplier
   if (shouldApplyDeepMultiplier) {
     const deepMultRule = rules.find(r => r.unit_type === 'MULTIPLIER' && r.unit_key === 'CLN_DEEP_MULTI')
-    if (deepMultRule) {
+    if (deepMultRule?.multiplier != null) {
       baseCents = Math.round(baseCents * deepMultRule.multiplier)
     }
   }
@@ -204,10 +299,10 @@ export async function quoteCleaning(params: CleaningQuoteParams): Promise<Pricin
   // Add-ons
   for (const addonKey of addons) {
     const addonRule = rules.find(r => r.unit_type === 'ADDON' && r.unit_key === addonKey)
-    if (addonRule) {
+    if (addonRule?.unit_price_cents != null) {
       items.push({
         key: addonKey,
-        label: formatAddonLabel(addonKey),
+        label: getRuleLabel(rules, addonKey),
         unit_price_cents: addonRule.unit_price_cents,
         total_cents: addonRule.unit_price_cents,
         taxable: true,
@@ -223,19 +318,13 @@ export async function quoteCleaning(params: CleaningQuoteParams): Promise<Pricin
   let subtotal_cents = items.reduce((sum, item) => sum + item.total_cents, 0)
   
   // Apply recurring discount (only from visit #2 onward)
-  const RECURRING_DISCOUNTS: Record<string, number> = {
-    weekly: 0.20,
-    biweekly: 0.15,
-    monthly: 0.10,
-  }
-  
   if (frequency !== 'oneTime' && visitsCompleted >= 1) {
-    const discountRate = RECURRING_DISCOUNTS[frequency] || 0
+    const discountRate = getFrequencyDiscounts(rules)[frequency]
     const discountAmount = Math.round(subtotal_cents * discountRate)
     
     items.push({
       key: 'RECURRING_DISCOUNT',
-      label: `Recurring ${frequency} discount (${Math.round(discountRate * 100)}% off)`,
+      label: `${getRuleLabel(rules, FREQUENCY_DISCOUNT_KEYS[frequency])} (${formatRate(discountRate)} off)`,
       unit_price_cents: -discountAmount,
       total_cents: -discountAmount,
       taxable: true, // Discount applies to taxable items
@@ -253,9 +342,23 @@ export async function quoteCleaning(params: CleaningQuoteParams): Promise<Pricin
     })
   }
   
+  // Building discount stacks after the recurring discount
+  const buildingDiscount = buildBuildingDiscountItem(subtotal_cents, buildingTerms, true)
+  if (buildingDiscount) {
+    items.push(buildingDiscount)
+    subtotal_cents += buildingDiscount.total_cents
+  }
+  
+  // Promo code applies last, before tax
+  const promoDiscount = buildPromoDiscountItem(items, subtotal_cents, promo, true)
+  if (promoDiscount) {
+    items.push(promoDiscount)
+    subtotal_cents += promoDiscount.total_cents
+  }
+  
   // Recalculate tax on final subtotal (after discount)
   const taxable_subtotal = items.filter(i => i.taxable).reduce((sum, item) => sum + item.total_cents, 0)
-  const tax_cents = Math.round(taxable_subtotal * NYC_TAX_RATE)
+  const tax_cents = Math.round(taxable_subtotal * taxRate)
   const total_cents = subtotal_cents + tax_cents
   
   return {
@@ -267,29 +370,106 @@ export async function quoteCleaning(params: CleaningQuoteParams): Promise<Pricin
     tax_breakdown: {
       taxable_subtotal_cents: taxable_subtotal,
       tax_exempt_subtotal_cents: subtotal_cents - taxable_subtotal,
-      tax_rate: NYC_TAX_RATE,
+      tax_rate: taxRate,
     },
+    pricing_version_id: versionId,
   }
 }
 
+export type PricingSampleCart =
+  | { label: string; service_type: 'LAUNDRY'; params: Omit<LaundryQuoteParams, 'pricingVersionId' | 'promo'> }
+  | { label: string; service_type: 'CLEANING'; params: Omit<CleaningQuoteParams, 'pricingVersionId' | 'promo'> }
+
+export interface PricingPreviewLine {
+  label: string
+  service_type: 'LAUNDRY' | 'CLEANING'
+  current: PricingBreakdown | null
+  preview: PricingBreakdown | null
+  difference_cents: number | null
+  error?: string
+}
+
+/**
+ * Carts admins preview a pricing draft against when they don't bring their own
+ */
+export const DEFAULT_PRICING_SAMPLE_CARTS: PricingSampleCart[] = [
+  { label: 'Wash & fold, 20 lbs', service_type: 'LAUNDRY', params: { zip: '10027', lbs: 20 } },
+  {
+    label: 'Wash & fold, 15 lbs, rush + delicates',
+    service_type: 'LAUNDRY',
+    params: { zip: '10027', lbs: 15, addons: ['LND_DELICATE'], rushService: true },
+  },
+  {
+    label: 'Mixed: 15 lbs + 3 shirts and a suit',
+    service_type: 'LAUNDRY',
+    params: {
+      zip: '10027',
+      lbs: 15,
+      garments: [{ key: 'DC_SHIRT', quantity: 3 }, { key: 'DC_SUIT_2PC', quantity: 1 }],
+    },
+  },
+  { label: 'Studio standard clean', service_type: 'CLEANING', params: { zip: '10027', bedrooms: 0, bathrooms: 1 } },
+  {
+    label: '2BR deep clean + fridge',
+    service_type: 'CLEANING',
+    params: { zip: '10027', bedrooms: 2, bathrooms: 1, deep: true, addons: ['CLN_FRIDGE_INSIDE'] },
+  },
+  {
+    label: '1BR biweekly, repeat visit',
+    service_type: 'CLEANING',
+    params: { zip: '10027', bedrooms: 1, bathrooms: 1, frequency: 'biweekly', visitsCompleted: 1 },
+  },
+]
+
+function quoteSampleCart(cart: PricingSampleCart, pricingVersionId?: string): Promise<PricingBreakdown> {
+  return cart.service_type === 'LAUNDRY'
+    ? quoteLaundry({ ...cart.params, pricingVersionId })
+    : quoteCleaning({ ...cart.params, pricingVersionId })
+}
+
 /**
- * Format addon labels from keys
+ * Quote sample carts under a version (usually the staged draft) next to the
+ * version in effect now. A cart the version can't price reports its error
+ * instead of failing the preview.
  */
-function formatAddonLabel(key: string): string {
-  const labels: Record<string, string> = {
-    // Laundry
-    'LND_RUSH_24HR': 'Rush Service (24hr)',
-    'LND_BULKY_ITEM': 'Bulky Item Fee',
-    'LND_DELICATE': 'Delicate Care',
-    'LND_EXTRA_SOFTENER': 'Extra Softener',
-    // Cleaning
-    'CLN_FRIDGE_INSIDE': 'Refrigerator Interior',
-    'CLN_OVEN_INSIDE': 'Oven Interior',
-    'CLN_WINDOWS_INSIDE': 'Interior Windows',
-    'CLN_LAUNDRY_WASH': 'Laundry Service',
-    'CLN_EXTRA_BATHROOM': 'Additional Bathroom',
+export async function previewPricingVersion(
+  pricingVersionId: string,
+  carts: PricingSampleCart[] = DEFAULT_PRICING_SAMPLE_CARTS
+): Promise<PricingPreviewLine[]> {
+  const lines: PricingPreviewLine[] = []
+
+  for (const cart of carts) {
+    const [current, preview] = await Promise.allSettled([
+      quoteSampleCart(cart),
+      quoteSampleCart(cart, pricingVersionId),
+    ])
+
+    const failed = [current, preview].find((r): r is PromiseRejectedResult => r.status === 'rejected')
+    const currentQuote = current.status === 'fulfilled' ? current.value : null
+    const previewQuote = preview.status === 'fulfilled' ? preview.value : null
+
+    lines.push({
+      label: cart.label,
+      service_type: cart.service_type,
+      current: currentQuote,
+      preview: previewQuote,
+      difference_cents: currentQuote && previewQuote ? previewQuote.total_cents - currentQuote.total_cents : null,
+      ...(failed && { error: failed.reason instanceof Error ? failed.reason.message : String(failed.reason) }),
+    })
   }
-  return labels[key] || key
+
+  return lines
+}
+
+/**
+ * Recurring plan discounts in effect (stored on plans as discount_pct)
+ */
+export async function getFrequencyDiscountRates(
+  db: SupabaseClient = getServiceClient(),
+  pricingVersionId?: string | null
+): Promise<Record<DiscountFrequency, number>> {
+  const { rules } = await getPricingRules('CLEANING', null, pricingVersionId, db)
+  return getFrequencyDiscounts(rules)
 }
 
 /**
@@ -0,0 +1,361 @@
+/**
+ * Promo Codes
+ *
+ * Admin-managed promo codes: percentage, fixed-amount and free add-on
+ * discounts with expiry windows, service-type / ZIP restrictions, global and
+ * per-user redemption limits and first-order-only rules. Eligibility is
+ * checked when a code is entered and again when the order is created; the
+ * discount itself is a PROMO_DISCOUNT line in the PricingBreakdown.
+ *
+ * @module lib/promos
+ */
+
+import { z } from 'zod'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getServiceClient } from './db'
+import { AppError, ConflictError } from './errors'
+import type { PricingBreakdown, PricingLineItem } from './pricing'
+
+export type PromoDiscountType = 'PERCENT' | 'FIXED' | 'FREE_ADDON'
+
+export type PromoServiceType = 'LAUNDRY' | 'CLEANING'
+
+export const PROMO_DISCOUNT_TYPE_LABELS: Record<PromoDiscountType, string> = {
+  PERCENT: 'Percent off',
+  FIXED: 'Amount off',
+  FREE_ADDON: 'Free add-on',
+}
+
+export interface PromoCode {
+  id: string
+  code: string
+  description: string | null
+  discount_type: PromoDiscountType
+  percent_off: number | null
+  amount_off_cents: number | null
+  free_addon_key: string | null
+  service_types: PromoServiceType[] | null
+  zip_codes: string[] | null
+  starts_at: string | null
+  expires_at: string | null
+  max_redemptions: number | null
+  max_redemptions_per_user: number | null
+  first_order_only: boolean
+  active: boolean
+  created_by?: string | null
+  created_at: string
+  updated_at?: string
+}
+
+/**
+ * Who is booking what, for eligibility checks
+ */
+export interface PromoContext {
+  serviceType: PromoServiceType
+  zip: string
+  userId?: string | null
+  guestEmail?: string | null
+  now?: Date
+}
+
+/**
+ * Redemption counts for a code; see getPromoUsage
+ */
+export interface PromoUsage {
+  totalRedemptions: number
+  customerRedemptions: number
+  customerPriorOrders: number
+}
+
+export type PromoValidation =
+  | { valid: true; promo: PromoCode }
+  | { valid: false; message: string }
+
+export const promoCodeSchema = z.object({
+  code: z.string().trim().min(3).max(32).regex(/^[A-Za-z0-9_-]+$/, 'Use letters, numbers, dashes or underscores'),
+  description: z.string().trim().max(500).optional().nullable(),
+  discount_type: z.enum(['PERCENT', 'FIXED', 'FREE_ADDON']),
+  percent_off: z.number().gt(0).max(100).optional().nullable(),
+  amount_off_cents: z.number().int().positive().optional().nullable(),
+  free_addon_key: z.string().trim().min(1).optional().nullable(),
+  service_types: z.array(z.enum(['LAUNDRY', 'CLEANING'])).min(1).optional().nullable(),
+  zip_codes: z.array(z.string().regex(/^\d{5}$/)).min(1).optional().nullable(),
+  starts_at: z.string().datetime({ offset: true }).optional().nullable(),
+  expires_at: z.string().datetime({ offset: true }).optional().nullable(),
+  max_redemptions: z.number().int().positive().optional().nullable(),
+  max_redemptions_per_user: z.number().int().positive().optional().nullable(),
+  first_order_only: z.boolean().default(false),
+  active: z.boolean().default(true),
+}).superRefine((promo, ctx) => {
+  if (promo.discount_type === 'PERCENT' && !promo.percent_off) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['percent_off'], message: 'Percent off is required' })
+  }
+  if (promo.discount_type === 'FIXED' && !promo.amount_off_cents) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['amount_off_cents'], message: 'Amount off is required' })
+  }
+  if (promo.discount_type === 'FREE_ADDON' && !promo.free_addon_key) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['free_addon_key'], message: 'Add-on is required' })
+  }
+  if (promo.starts_at && promo.expires_at && new Date(promo.starts_at) >= new Date(promo.expires_at)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['expires_at'], message: 'Expiry must be after the start date' })
+  }
+})
+
+export type PromoCodeInput = z.infer<typeof promoCodeSchema>
+
+/**
+ * Codes are stored and matched upper-case
+ */
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase()
+}
+
+/**
+ * Short human description of a code's discount, e.g. "10% off" or "$5.00 off"
+ */
+export function describePromoDiscount(
+  promo: Pick<PromoCode, 'discount_type' | 'percent_off' | 'amount_off_cents' | 'free_addon_key'>
+): string {
+  switch (promo.discount_type) {
+    case 'PERCENT':
+      return `${Number(promo.percent_off)}% off`
+    case 'FIXED':
+      return `$${((promo.amount_off_cents || 0) / 100).toFixed(2)} off`
+    case 'FREE_ADDON':
+      return `Free ${promo.free_addon_key}`
+  }
+}
+
+/**
+ * Why a code can't be used for this booking, or null when it can
+ */
+export function getPromoIneligibilityReason(
+  promo: PromoCode,
+  context: PromoContext,
+  usage: PromoUsage
+): string | null {
+  const now = context.now || new Date()
+
+  if (!promo.active) {
+    return 'This promo code is no longer active'
+  }
+
+  if (promo.starts_at && now < new Date(promo.starts_at)) {
+    return 'This promo code is not active yet'
+  }
+
+  if (promo.expires_at && now >= new Date(promo.expires_at)) {
+    return 'This promo code has expired'
+  }
+
+  if (promo.service_types?.length && !promo.service_types.includes(context.serviceType)) {
+    return `This promo code is not valid for ${context.serviceType === 'LAUNDRY' ? 'laundry' : 'cleaning'} orders`
+  }
+
+  if (promo.zip_codes?.length && !promo.zip_codes.includes(context.zip)) {
+    return 'This promo code is not valid in your area'
+  }
+
+  if (promo.max_redemptions && usage.totalRedemptions >= promo.max_redemptions) {
+    return 'This promo code has reached its redemption limit'
+  }
+
+  const needsCustomer = promo.first_order_only || !!promo.max_redemptions_per_user
+  if (needsCustomer && !context.userId && !context.guestEmail) {
+    return 'Sign in to use this promo code'
+  }
+
+  if (promo.max_redemptions_per_user && usage.customerRedemptions >= promo.max_redemptions_per_user) {
+    return 'You have already used this promo code'
+  }
+
+  if (promo.first_order_only && usage.customerPriorOrders > 0) {
+    return 'This promo code is only valid on your first order'
+  }
+
+  return null
+}
+
+/**
+ * Discount line for a promo, or null when it doesn't apply to these items
+ *
+ * @param subtotalCents - Subtotal after any other discounts
+ */
+export function buildPromoDiscountItem(
+  items: PricingLineItem[],
+  subtotalCents: number,
+  promo: PromoCode | null | undefined,
+  taxable: boolean
+): PricingLineItem | null {
+  if (!promo || subtotalCents <= 0) return null
+
+  let discountCents = 0
+  let label = `Promo ${promo.code}`
+  let lineTaxable = taxable
+
+  if (promo.discount_type === 'PERCENT') {
+    discountCents = Math.round(subtotalCents * (Number(promo.percent_off) || 0) / 100)
+    label += ` (${Number(promo.percent_off)}% off)`
+  } else if (promo.discount_type === 'FIXED') {
+    discountCents = promo.amount_off_cents || 0
+  } else {
+    const addon = items.find(item => item.key === promo.free_addon_key && item.total_cents > 0)
+    if (!addon) return null
+    discountCents = addon.total_cents
+    label += ` (free ${addon.label})`
+    lineTaxable = addon.taxable
+  }
+
+  discountCents = Math.min(discountCents, subtotalCents)
+  if (discountCents <= 0) return null
+
+  return {
+    key: 'PROMO_DISCOUNT',
+    label,
+    unit_price_cents: -discountCents,
+    total_cents: -discountCents,
+    taxable: lineTaxable,
+  }
+}
+
+/**
+ * Promo discount (positive cents) contained in a quote
+ */
+export function getPromoDiscountCents(breakdown: Pick<PricingBreakdown, 'items'>): number {
+  const item = breakdown.items.find(i => i.key === 'PROMO_DISCOUNT')
+  return item ? -item.total_cents : 0
+}
+
+/**
+ * Count redemptions of a code overall and by this customer, plus the
+ * customer's prior (non-canceled) orders for first-order-only codes.
+ */
+export async function getPromoUsage(
+  db: SupabaseClient,
+  promo: PromoCode,
+  context: Pick<PromoContext, 'userId' | 'guestEmail'>
+): Promise<PromoUsage> {
+  const usage: PromoUsage = { totalRedemptions: 0, customerRedemptions: 0, customerPriorOrders: 0 }
+
+  if (promo.max_redemptions) {
+    const { count } = await db
+      .from('promo_redemptions')
+      .select('id', { count: 'exact', head: true })
+      .eq('promo_code_id', promo.id)
+    usage.totalRedemptions = count || 0
+  }
+
+  const customerColumn = context.userId ? 'user_id' : 'guest_email'
+  const customerValue = context.userId || context.guestEmail
+  if (!customerValue) return usage
+
+  if (promo.max_redemptions_per_user) {
+    const { count } = await db
+      .from('promo_redemptions')
+      .select('id', { count: 'exact', head: true })
+      .eq('promo_code_id', promo.id)
+      .eq(customerColumn, customerValue)
+    usage.customerRedemptions = count || 0
+  }
+
+  if (promo.first_order_only) {
+    const { count } = await db
+      .from('orders')
+      .select('id', { count: 'exact', head: true })
+      .eq(customerColumn, customerValue)
+      .neq('status', 'canceled')
+    usage.customerPriorOrders = count || 0
+  }
+
+  return usage
+}
+
+/**
+ * Look up a code and check it against the booking
+ */
+export async function validatePromoCode(
+  code: string,
+  context: PromoContext
+): Promise<PromoValidation> {
+  const normalized = normalizePromoCode(code)
+  if (!normalized) {
+    return { valid: false, message: 'Enter a promo code' }
+  }
+
+  const db = getServiceClient()
+  const { data: promo, error } = await db
+    .from('promo_codes')
+    .select('*')
+    .eq('code', normalized)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Promo code lookup failed:', error)
+    return { valid: false, message: 'Unable to check promo code right now' }
+  }
+
+  if (!promo) {
+    return { valid: false, message: 'Invalid promo code' }
+  }
+
+  const usage = await getPromoUsage(db, promo, context)
+  const reason = getPromoIneligibilityReason(promo, context, usage)
+
+  return reason ? { valid: false, message: reason } : { valid: true, promo }
+}
+
+/**
+ * Load the code already redeemed on an order (for re-quotes after weighing);
+ * limits are not re-checked since the order holds the redemption.
+ */
+export async function getPromoCodeById(promoCodeId: string): Promise<PromoCode | null> {
+  const db = getServiceClient()
+  const { data, error } = await db
+    .from('promo_codes')
+    .select('*')
+    .eq('id', promoCodeId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Promo code lookup failed:', error)
+    return null
+  }
+
+  return data as PromoCode | null
+}
+
+/**
+ * Record (or update, on re-quote) the redemption of a code on an order
+ *
+ * The redeem_promo_code RPC checks max_redemptions and
+ * max_redemptions_per_user under the code's row lock, so concurrent
+ * checkouts cannot overshoot the limits validatePromoCode saw. Throws when
+ * the code is used up or the redemption cannot be written; callers undo the
+ * order so the discount is never granted without a redemption.
+ */
+export async function recordPromoRedemption(params: {
+  promoCodeId: string
+  orderId: string
+  userId?: string | null
+  guestEmail?: string | null
+  discountCents: number
+}): Promise<void> {
+  const db = getServiceClient()
+  const { data, error } = await db.rpc('redeem_promo_code', {
+    p_promo_code_id: params.promoCodeId,
+    p_order_id: params.orderId,
+    p_user_id: params.userId || null,
+    p_guest_email: params.userId ? null : params.guestEmail || null,
+    p_discount_cents: params.discountCents,
+  })
+
+  if (error) {
+    console.error('Failed to record promo redemption:', error)
+    throw new AppError('Failed to apply promo code', 500, 'PROMO_REDEMPTION_FAILED')
+  }
+
+  const result = data as { success: boolean; error?: string } | null
+  if (!result?.success) {
+    throw new ConflictError('This promo code has reached its redemption limit', result?.error || 'PROMO_LIMIT_REACHED')
+  }
+}
@@ -1,97 +1,393 @@
 /**
- * Simple in-memory rate limiting for login attempts
- * Prevents brute force attacks
+ * Rate Limiting
+ *
+ * Per-route rate limit policies backed by a pluggable store. Counters live in
+ * Postgres (rate_limits table) so limits hold across serverless instances;
+ * tests and local scripts use the in-memory store.
+ *
+ * Two algorithms are available:
+ * - sliding_window: approximated sliding window counter (current window plus
+ *   a weighted share of the previous one). Good for "N attempts per period".
+ * - token_bucket: bursts up to `capacity`, refilled at `refillPerSecond`.
+ *   Good for chatty endpoints like estimates and webhooks.
+ *
+ * Usage:
+ *   const limit = await rateLimit('waitlist', getClientIp(request))
+ *   if (!limit.allowed) return rateLimitError(limit.retryAfterSeconds, getCorrelationId(request))
+ *
+ * Store errors fail open (the request is allowed and the error logged) so a
+ * database hiccup never locks customers out, except for the auth and SMS
+ * webhook policies (FAIL_CLOSED_POLICIES), where an unlimited window is the
+ * bigger risk.
+ *
+ * @module lib/rate-limit
  */
 
-interface RateLimitRecord {
+import type { NextRequest } from 'next/server'
+import { getServiceClient } from './db'
+
+// ============================================================================
+// Policies
+// ============================================================================
+
+export type RateLimitAlgorithm = 'sliding_window' | 'token_bucket'
+
+export interface SlidingWindowPolicy {
+  algorithm: 'sliding_window'
+  limit: number
+  windowMs: number
+}
+
+export interface TokenBucketPolicy {
+  algorithm: 'token_bucket'
+  capacity: number
+  refillPerSecond: number
+}
+
+export type RateLimitPolicy = SlidingWindowPolicy | TokenBucketPolicy
+
+export type RateLimitPolicyName =
+  | 'auth.login'
+  | 'auth.signup'
+  | 'auth'
+  | 'waitlist'
+  | 'partner.apply'
+  | 'estimate'
+  | 'orders.create'
+  | 'slots.hold'
+  | 'uploads'
+  | 'sms.webhook'
+
+/**
+ * Per-route policies, keyed by route name
+ */
+export const RATE_LIMIT_POLICIES: Record<RateLimitPolicyName, RateLimitPolicy> = {
+  // /api/auth/login: 5 attempts per 15 minutes per IP (reset on success)
+  'auth.login': { algorithm: 'sliding_window', limit: 5, windowMs: 15 * 60 * 1000 },
+  // /api/auth/signup: 5 accounts per hour per IP
+  'auth.signup': { algorithm: 'sliding_window', limit: 5, windowMs: 60 * 60 * 1000 },
+  // Remaining /api/auth/* routes
+  'auth': { algorithm: 'token_bucket', capacity: 20, refillPerSecond: 1 },
+  // /api/waitlist: 3 submissions per minute per IP
+  'waitlist': { algorithm: 'sliding_window', limit: 3, windowMs: 60 * 1000 },
+  // POST /api/partner-applications: 5 submissions per hour per IP
+  'partner.apply': { algorithm: 'sliding_window', limit: 5, windowMs: 60 * 60 * 1000 },
+  // /api/estimate: bursts of 20, then one every 3 seconds per IP
+  'estimate': { algorithm: 'token_bucket', capacity: 20, refillPerSecond: 1 / 3 },
+  // POST /api/orders: 10 orders per hour per user
+  'orders.create': { algorithm: 'sliding_window', limit: 10, windowMs: 60 * 60 * 1000 },
+  // POST /api/slots/hold: 20 holds per 10 minutes per IP
+  'slots.hold': { algorithm: 'sliding_window', limit: 20, windowMs: 10 * 60 * 1000 },
+  // POST /api/upload: bursts of 20 photos, then one every 5 seconds per user
+  'uploads': { algorithm: 'token_bucket', capacity: 20, refillPerSecond: 0.2 },
+  // Partner SMS webhook: bursts of 10, then one every 2 seconds per phone
+  'sms.webhook': { algorithm: 'token_bucket', capacity: 10, refillPerSecond: 0.5 },
+}
+
+/**
+ * Policies that deny requests while the store is unavailable
+ */
+export const FAIL_CLOSED_POLICIES: ReadonlySet<RateLimitPolicyName> = new Set<RateLimitPolicyName>([
+  'auth.login',
+  'auth.signup',
+  'auth',
+  'sms.webhook',
+])
+
+// Retry-After for fail-closed denials
+const STORE_ERROR_RETRY_SECONDS = 30
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  retryAfterSeconds: number // 0 when allowed
+}
+
+// ============================================================================
+// Algorithms (pure)
+// ============================================================================
+
+export interface SlidingWindowState {
+  window_start: number
   count: number
-  resetAt: number
+  previous_count: number
 }
 
-const loginAttempts = new Map<string, RateLimitRecord>()
+export interface TokenBucketState {
+  tokens: number
+  updated_at: number
+}
+
+export type RateLimitState = SlidingWindowState | TokenBucketState
+
+interface AlgorithmOutcome<S> {
+  state: S
+  result: RateLimitResult
+  expiresAt: number
+}
+
+export function applySlidingWindow(
+  state: SlidingWindowState | null,
+  policy: SlidingWindowPolicy,
+  now: number,
+  cost: number = 1
+): AlgorithmOutcome<SlidingWindowState> {
+  const { limit, windowMs } = policy
+  const windowStart = Math.floor(now / windowMs) * windowMs
+
+  let count = 0
+  let previousCount = 0
+  if (state?.window_start === windowStart) {
+    count = state.count
+    previousCount = state.previous_count
+  } else if (state?.window_start === windowStart - windowMs) {
+    previousCount = state.count
+  }
+
+  const previousWeight = 1 - (now - windowStart) / windowMs
+  const estimated = previousCount * previousWeight + count
+  // Kept for two windows: the next window still weighs this one
+  const expiresAt = windowStart + 2 * windowMs
+
+  if (estimated + cost > limit) {
+    let retryAfterMs = windowStart + windowMs - now
+    if (count + cost <= limit && previousCount > 0) {
+      // Wait until enough of the previous window has slid out
+      const allowedWeight = (limit - count - cost) / previousCount
+      retryAfterMs = windowStart + windowMs * (1 - allowedWeight) - now
+    }
 
-// Clean up expired records every 5 minutes
-setInterval(() => {
-  const now = Date.now()
-  for (const [key, record] of loginAttempts.entries()) {
-    if (now > record.resetAt) {
-      loginAttempts.delete(key)
+    return {
+      state: { window_start: windowStart, count, previous_count: previousCount },
+      result: {
+        allowed: false,
+        limit,
+        remaining: 0,
+        retryAfterSeconds: Math.max(1, Math.ceil(retryAfterMs / 1000)),
+      },
+      expiresAt,
     }
   }
-}, 5 * 60 * 1000)
+
+  return {
+    state: { window_start: windowStart, count: count + cost, previous_count: previousCount },
+    result: {
+      allowed: true,
+      limit,
+      remaining: Math.max(0, Math.floor(limit - estimated - cost)),
+      retryAfterSeconds: 0,
+    },
+    expiresAt,
+  }
+}
+
+export function applyTokenBucket(
+  state: TokenBucketState | null,
+  policy: TokenBucketPolicy,
+  now: number,
+  cost: number = 1
+): AlgorithmOutcome<TokenBucketState> {
+  const { capacity, refillPerSecond } = policy
+
+  const elapsedSeconds = state ? Math.max(0, now - state.updated_at) / 1000 : 0
+  const tokens = state
+    ? Math.min(capacity, state.tokens + elapsedSeconds * refillPerSecond)
+    : capacity
+  // A bucket left alone long enough is full again, so the row can go
+  const expiresAt = now + Math.ceil((capacity / refillPerSecond) * 1000)
+
+  if (tokens < cost) {
+    return {
+      state: { tokens, updated_at: now },
+      result: {
+        allowed: false,
+        limit: capacity,
+        remaining: 0,
+        retryAfterSeconds: Math.max(1, Math.ceil((cost - tokens) / refillPerSecond)),
+      },
+      expiresAt,
+    }
+  }
+
+  return {
+    state: { tokens: tokens - cost, updated_at: now },
+    result: {
+      allowed: true,
+      limit: capacity,
+      remaining: Math.floor(tokens - cost),
+      retryAfterSeconds: 0,
+    },
+    expiresAt,
+  }
+}
+
+function applyPolicy(
+  state: RateLimitState | null,
+  policy: RateLimitPolicy,
+  now: number,
+  cost: number
+): AlgorithmOutcome<RateLimitState> {
+  return policy.algorithm === 'sliding_window'
+    ? applySlidingWindow(state as SlidingWindowState | null, policy, now, cost)
+    : applyTokenBucket(state as TokenBucketState | null, policy, now, cost)
+}
+
+// ============================================================================
+// Stores
+// ============================================================================
+
+interface RateLimitEntry {
+  state: RateLimitState
+  expiresAt: number
+}
 
 /**
- * Check if the identifier has exceeded the rate limit
- * @param identifier - Usually IP address or email
- * @param maxAttempts - Maximum number of attempts allowed (default: 5)
- * @param windowMs - Time window in milliseconds (default: 15 minutes)
- * @returns true if request is allowed, false if rate limited
+ * Storage for limiter state. `consume` reads the key's state, applies the
+ * policy and writes the result as one atomic step, so concurrent requests
+ * for the same key are all counted.
  */
-export function checkRateLimit(
-  identifier: string,
-  maxAttempts: number = 5,
-  windowMs: number = 15 * 60 * 1000
-): boolean {
-  const now = Date.now()
-  const record = loginAttempts.get(identifier)
-
-  // No record or record expired - allow and create new record
-  if (!record || now > record.resetAt) {
-    loginAttempts.set(identifier, {
-      count: 1,
-      resetAt: now + windowMs,
-    })
-    return true
+export interface RateLimitStore {
+  consume(key: string, policy: RateLimitPolicy, now: number, cost: number): Promise<RateLimitResult>
+  delete(key: string): Promise<void>
+}
+
+/**
+ * Process-local store for tests and local development
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, RateLimitEntry>()
+
+  // No await between the read and the write, so this is atomic in-process
+  async consume(key: string, policy: RateLimitPolicy, now: number, cost: number): Promise<RateLimitResult> {
+    const current = this.entries.get(key)
+    const liveState = current && current.expiresAt > now ? current.state : null
+
+    const outcome = applyPolicy(liveState, policy, now, cost)
+    this.entries.set(key, { state: outcome.state, expiresAt: outcome.expiresAt })
+    this.pruneExpired(now)
+    return outcome.result
   }
 
-  // Check if max attempts exceeded
-  if (record.count >= maxAttempts) {
-    return false
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key)
   }
 
-  // Increment count
-  record.count++
-  return true
+  private pruneExpired(now: number) {
+    if (this.entries.size < 1000) return
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt < now) this.entries.delete(key)
+    }
+  }
 }
 
 /**
- * Reset rate limit for an identifier (e.g., after successful login)
- * @param identifier - Usually IP address or email
+ * Shared store in the rate_limits table (see migrations 043 and 065). The
+ * policy is applied by consume_rate_limit under the key's row lock.
  */
-export function resetRateLimit(identifier: string): void {
-  loginAttempts.delete(identifier)
+export class PostgresRateLimitStore implements RateLimitStore {
+  async consume(key: string, policy: RateLimitPolicy, now: number, cost: number): Promise<RateLimitResult> {
+    const db = getServiceClient()
+    const { data, error } = await db.rpc('consume_rate_limit', {
+      p_key: key,
+      p_algorithm: policy.algorithm,
+      p_limit: policy.algorithm === 'sliding_window' ? policy.limit : policy.capacity,
+      p_window_ms: policy.algorithm === 'sliding_window' ? policy.windowMs : null,
+      p_refill_per_second: policy.algorithm === 'token_bucket' ? policy.refillPerSecond : null,
+      p_cost: cost,
+      p_now: now,
+    })
+
+    if (error) throw error
+
+    return {
+      allowed: data.allowed,
+      limit: Number(data.limit),
+      remaining: Number(data.remaining),
+      retryAfterSeconds: Number(data.retry_after_seconds),
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const db = getServiceClient()
+    const { error } = await db.from('rate_limits').delete().eq('key', key)
+    if (error) throw error
+  }
 }
 
+let store: RateLimitStore | null = null
+
 /**
- * Get time until rate limit resets for an identifier
- * @param identifier - Usually IP address or email
- * @returns milliseconds until reset, or 0 if no rate limit active
+ * Store used by rateLimit(); Postgres unless RATE_LIMIT_STORE=memory or under test
  */
-export function getTimeUntilReset(identifier: string): number {
-  const record = loginAttempts.get(identifier)
-  if (!record) return 0
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    const useMemory = process.env.RATE_LIMIT_STORE === 'memory' || process.env.NODE_ENV === 'test'
+    store = useMemory ? new MemoryRateLimitStore() : new PostgresRateLimitStore()
+  }
+  return store
+}
+
+export function setRateLimitStore(next: RateLimitStore | null): void {
+  store = next
+}
 
-  const now = Date.now()
-  if (now > record.resetAt) return 0
+// ============================================================================
+// Limiter
+// ============================================================================
 
-  return record.resetAt - now
+function getKey(policyName: RateLimitPolicyName, identifier: string): string {
+  return `${policyName}:${identifier}`
 }
 
 /**
- * Get remaining attempts for an identifier
- * @param identifier - Usually IP address or email
- * @param maxAttempts - Maximum number of attempts allowed (default: 5)
- * @returns number of remaining attempts
+ * Consume from a policy's allowance for an identifier (IP, user id, phone)
  */
-export function getRemainingAttempts(
+export async function rateLimit(
+  policyName: RateLimitPolicyName,
   identifier: string,
-  maxAttempts: number = 5
-): number {
-  const record = loginAttempts.get(identifier)
-  if (!record) return maxAttempts
+  options: { cost?: number; now?: number; store?: RateLimitStore } = {}
+): Promise<RateLimitResult> {
+  const policy = RATE_LIMIT_POLICIES[policyName]
+  const activeStore = options.store || getRateLimitStore()
+  const key = getKey(policyName, identifier)
+  const cost = options.cost ?? 1
+
+  try {
+    return await activeStore.consume(key, policy, options.now ?? Date.now(), cost)
+  } catch (error) {
+    const failClosed = FAIL_CLOSED_POLICIES.has(policyName)
+    console.error(`Rate limit store error on ${key}; ${failClosed ? 'denying' : 'allowing'} request:`, error)
+
+    return {
+      allowed: !failClosed,
+      limit: policy.algorithm === 'sliding_window' ? policy.limit : policy.capacity,
+      remaining: 0,
+      retryAfterSeconds: failClosed ? STORE_ERROR_RETRY_SECONDS : 0,
+    }
+  }
+}
 
-  const now = Date.now()
-  if (now > record.resetAt) return maxAttempts
+/**
+ * Clear an identifier's usage (e.g. after a successful login)
+ */
+export async function resetRateLimit(
+  policyName: RateLimitPolicyName,
+  identifier: string,
+  options: { store?: RateLimitStore } = {}
+): Promise<void> {
+  try {
+    await (options.store || getRateLimitStore()).delete(getKey(policyName, identifier))
+  } catch (error) {
+    console.error('Failed to reset rate limit:', error)
+  }
+}
 
-  return Math.max(0, maxAttempts - record.count)
+/**
+ * Client IP for per-IP policies; x-forwarded-for may hold a proxy chain
+ */
+export function getClientIp(request: NextRequest): string {
+  const forwarded = request.headers.get('x-forwarded-for')
+  if (forwarded) return forwarded.split(',')[0].trim()
+  return request.headers.get('x-real-ip') ?? '127.0.0.1'
 }
@@ -0,0 +1,792 @@
+/**
+ * Recurring Cleaning Visits
+ *
+ * Turns recurring plans (subscriptions) into real orders. The first visit is
+ * booked by the customer at signup; every later visit is generated by the
+ * recurring-orders cron from the plan's next_date.
+ *
+ * Lifecycle of a generated visit:
+ * - Booked RECURRING_BOOKING_LEAD_DAYS ahead: capacity reserved, priced with
+ *   quoteCleaning (frequency + visit discounts), customer notified
+ * - Until RECURRING_CHARGE_LEAD_HOURS before the slot the customer can skip it,
+ *   swap its slot or pause the whole plan from /orders/recurring/[id]
+ * - Charged off-session to the saved payment method, then handled like any
+ *   other paid cleaning order
+ * - Completing it calls /api/recurring/visit-complete, which bumps
+ *   visits_completed and next_date for the next run
+ *
+ * @module lib/recurring
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { ensureSlotsExist, getServingPartners, reserveCapacity, releaseCapacity } from './capacity'
+import { quoteCleaning, type PricingBreakdown } from './pricing'
+import { buildCleaningChecklist } from './cleaningStatus'
+import { notifyCustomer } from './notifications'
+import { executeWithCircuitBreaker } from './stripe-circuit-breaker'
+import { recordPaymentRetry } from './payment-errors'
+import { NY_TIMEZONE, formatDateTime, toNYDateString, isSlotWithin6Hours } from './timezone'
+
+// ============================================
+// TYPES
+// ============================================
+
+export type RecurringFrequency = 'WEEKLY' | 'BIWEEKLY' | 'MONTHLY'
+
+export interface RecurringPlan {
+  id: string
+  user_id: string
+  service_type: 'CLEANING' | 'LAUNDRY'
+  frequency: RecurringFrequency
+  discount_pct: number
+  next_date: string | null
+  active: boolean
+  visits_completed: number
+  day_of_week: number | null
+  time_window: string | null
+  default_addons: Record<string, boolean> | null
+  first_visit_deep: boolean
+  stripe_subscription_id?: string | null // Billed by a Stripe subscription (lib/subscription-billing)
+  billing_status?: string | null
+  current_period_end?: string | null
+  stripe_event_created_at?: string | null // created time of the last Stripe event applied
+}
+
+/**
+ * A capacity_calendar row
+ */
+export interface CapacitySlot {
+  id: string
+  partner_id: string
+  service_type: 'LAUNDRY' | 'CLEANING'
+  slot_start: string
+  slot_end: string
+  max_units: number
+  reserved_units: number
+}
+
+export interface RecurringVisitDetails {
+  bedrooms: number
+  bathrooms: number
+  deep: boolean
+  addons: string[]
+}
+
+export type BookVisitResult =
+  | { status: 'booked'; order: any; pricing: PricingBreakdown }
+  | { status: 'skipped'; reason: 'not_due' | 'already_booked' | 'no_template' | 'no_capacity' }
+
+export type ChargeVisitResult =
+  | { status: 'charged'; payment_intent_id: string }
+  | { status: 'failed'; error: string }
+  | { status: 'no_payment_method' }
+  | { status: 'covered' } // Paid by the plan's Stripe subscription
+  | { status: 'awaiting_subscription' } // Stripe subscription is past due
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+/** How many days before next_date the visit is booked and the customer notified */
+export const RECURRING_BOOKING_LEAD_DAYS = 3
+
+/** How long before the slot the saved card is charged; skip/swap close at the same time */
+export const RECURRING_CHARGE_LEAD_HOURS = 48
+
+/** Days after next_date to look for capacity when that day is full */
+export const RECURRING_SLOT_SEARCH_DAYS = 3
+
+/** Capacity units a visit takes (one booking per unit, like the cancel route releases) */
+export const RECURRING_VISIT_UNITS = 1
+
+/** Stripe subscription statuses that keep a plan booking visits */
+export const ACTIVE_BILLING_STATUSES = ['trialing', 'active']
+
+/** Order statuses that count as the plan's upcoming visit */
+export const UPCOMING_VISIT_STATUSES = ['pending', 'paid_processing', 'pending_pickup']
+
+export const FREQUENCY_LABELS: Record<RecurringFrequency, string> = {
+  WEEKLY: 'weekly',
+  BIWEEKLY: 'every-other-week',
+  MONTHLY: 'monthly',
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+function parseDate(date: string): Date {
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, day))
+}
+
+function formatDateKey(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+/**
+ * Add days to a calendar date (YYYY-MM-DD)
+ */
+export function addDays(date: string, days: number): string {
+  const result = parseDate(date)
+  result.setUTCDate(result.getUTCDate() + days)
+  return formatDateKey(result)
+}
+
+/**
+ * Next visit date after `date` for a plan frequency. Monthly plans keep the
+ * day of month, clamped to the end of shorter months (Jan 31 -> Feb 28).
+ */
+export function addFrequency(date: string, frequency: RecurringFrequency): string {
+  if (frequency === 'WEEKLY') return addDays(date, 7)
+  if (frequency === 'BIWEEKLY') return addDays(date, 14)
+
+  const current = parseDate(date)
+  const year = current.getUTCFullYear()
+  const month = current.getUTCMonth() + 1
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+  return formatDateKey(new Date(Date.UTC(year, month, Math.min(current.getUTCDate(), lastDay))))
+}
+
+/**
+ * Move a visit date that has already passed (missed run, paused plan) to the
+ * first occurrence on or after today
+ */
+export function rollForwardDate(date: string, frequency: RecurringFrequency, today: string): string {
+  let next = date
+  while (next < today) {
+    next = addFrequency(next, frequency)
+  }
+  return next
+}
+
+/**
+ * Plan frequency in the shape quoteCleaning expects
+ */
+export function toQuoteFrequency(frequency: RecurringFrequency): 'weekly' | 'biweekly' | 'monthly' {
+  return frequency.toLowerCase() as 'weekly' | 'biweekly' | 'monthly'
+}
+
+/**
+ * Whether the cron should book the plan's next visit now. Plans without a
+ * next_date are still waiting for their first (customer-booked) visit.
+ */
+export function isPlanDueForBooking(
+  plan: Pick<RecurringPlan, 'active' | 'next_date' | 'service_type'>,
+  today: string
+): boolean {
+  if (!plan.active || !plan.next_date || plan.service_type !== 'CLEANING') return false
+  return plan.next_date <= addDays(today, RECURRING_BOOKING_LEAD_DAYS)
+}
+
+/**
+ * Home size, cleaning type and add-ons for the next visit. The plan's
+ * default_addons win over the template order so edits to the plan apply; a
+ * deep clean booked only because of first_visit_deep is not repeated.
+ */
+export function getRecurringVisitDetails(
+  plan: Pick<RecurringPlan, 'default_addons' | 'first_visit_deep'>,
+  templateDetails: any
+): RecurringVisitDetails {
+  const details = templateDetails || {}
+
+  const deep = details.cleaningType
+    ? details.cleaningType === 'deep'
+    : Boolean(details.deep) && !plan.first_visit_deep
+
+  const addons = plan.default_addons
+    ? Object.keys(plan.default_addons).filter((key) => plan.default_addons![key])
+    : details.addons || []
+
+  return {
+    bedrooms: details.bedrooms ?? 0,
+    bathrooms: details.bathrooms ?? 1,
+    deep,
+    addons,
+  }
+}
+
+/**
+ * Time of day (HH:MM, New York) of a slot, for matching the plan's usual time
+ */
+export function getSlotTimeOfDay(slotStart: string): string {
+  return new Date(slotStart).toLocaleTimeString('en-GB', {
+    timeZone: NY_TIMEZONE,
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false,
+  })
+}
+
+/**
+ * Open slots ordered by how well they match the previous visit: same time and
+ * same partner first, then same time, then same partner, then earliest.
+ */
+export function rankRecurringSlots(
+  slots: CapacitySlot[],
+  previous: { partner_id: string; slot_start: string },
+  now: Date = new Date()
+): CapacitySlot[] {
+  const preferredTime = getSlotTimeOfDay(previous.slot_start)
+
+  const score = (slot: CapacitySlot) =>
+    (getSlotTimeOfDay(slot.slot_start) === preferredTime ? 2 : 0) +
+    (slot.partner_id === previous.partner_id ? 1 : 0)
+
+  return slots
+    .filter((slot) =>
+      slot.reserved_units + RECURRING_VISIT_UNITS <= slot.max_units &&
+      new Date(slot.slot_start) > now
+    )
+    .sort((a, b) => score(b) - score(a) || a.slot_start.localeCompare(b.slot_start))
+}
+
+/**
+ * When the saved card is charged for a visit
+ */
+export function getChargeDueAt(order: { slot_start: string }): Date {
+  return new Date(new Date(order.slot_start).getTime() - RECURRING_CHARGE_LEAD_HOURS * 60 * 60 * 1000)
+}
+
+/**
+ * Customers can skip or swap a visit until it is charged
+ */
+export function canChangeRecurringVisit(
+  order: { status: string; paid_at?: string | null; slot_start: string },
+  now: Date = new Date()
+): boolean {
+  return order.status === 'pending' && !order.paid_at && now < getChargeDueAt(order)
+}
+
+/**
+ * Visit is inside the charge window and still unpaid
+ */
+export function isVisitChargeDue(
+  order: { status: string; paid_at?: string | null; slot_start: string },
+  now: Date = new Date()
+): boolean {
+  return (
+    order.status === 'pending' &&
+    !order.paid_at &&
+    now >= getChargeDueAt(order) &&
+    now < new Date(order.slot_start)
+  )
+}
+
+/**
+ * Whether a Stripe subscription status keeps the plan billing
+ */
+export function isBillingStatusActive(status: string | null | undefined): boolean {
+  return ACTIVE_BILLING_STATUSES.includes(status || '')
+}
+
+function formatCents(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`
+}
+
+function getPlanUrl(planId: string): string {
+  return `${process.env.NEXT_PUBLIC_BASE_URL}/orders/recurring/${planId}`
+}
+
+// ============================================
+// DATA ACCESS
+// ============================================
+
+/**
+ * A plan, only if it belongs to the user
+ */
+export async function getCustomerPlan(
+  db: SupabaseClient,
+  planId: string,
+  userId: string
+): Promise<RecurringPlan | null> {
+  const { data: plan } = await db
+    .from('subscriptions')
+    .select('*')
+    .eq('id', planId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  return plan as RecurringPlan | null
+}
+
+/**
+ * Most recent visit of the plan; the next visit copies its address, home
+ * details, partner and payment method
+ */
+export async function getRecurringTemplateOrder(db: SupabaseClient, planId: string) {
+  const { data: order } = await db
+    .from('orders')
+    .select('*')
+    .eq('subscription_id', planId)
+    .neq('status', 'canceled')
+    .order('slot_start', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  return order
+}
+
+/**
+ * The plan's next visit that hasn't happened yet
+ */
+export async function getUpcomingRecurringVisit(
+  db: SupabaseClient,
+  planId: string,
+  now: Date = new Date()
+) {
+  const { data: order } = await db
+    .from('orders')
+    .select('*')
+    .eq('subscription_id', planId)
+    .in('status', UPCOMING_VISIT_STATUSES)
+    .gte('slot_start', now.toISOString())
+    .order('slot_start', { ascending: true })
+    .limit(1)
+    .maybeSingle()
+
+  return order
+}
+
+/**
+ * Cleaning capacity rows (per partner serving the ZIP) for a date
+ */
+async function getCapacitySlots(db: SupabaseClient, zip: string, date: string): Promise<CapacitySlot[]> {
+  const partners = await getServingPartners(db, 'CLEANING', zip)
+  if (partners.length === 0) return []
+
+  // Same day window as getAvailableSlots / ensureSlotsExist
+  const [year, month, day] = date.split('-').map(Number)
+  const startOfDay = new Date(year, month - 1, day, 0, 0, 0, 0)
+  const endOfDay = new Date(year, month - 1, day, 23, 59, 59, 999)
+
+  const { data: slots, error } = await db
+    .from('capacity_calendar')
+    .select('*')
+    .in('partner_id', partners.map((partner) => partner.id))
+    .eq('service_type', 'CLEANING')
+    .gte('slot_start', startOfDay.toISOString())
+    .lte('slot_start', endOfDay.toISOString())
+
+  if (error) throw error
+
+  return (slots || []) as CapacitySlot[]
+}
+
+// ============================================
+// BOOKING
+// ============================================
+
+/**
+ * Book the plan's next visit: reserve a slot close to the previous visit's
+ * time and partner, price it and notify the customer. Idempotent per plan and
+ * visit date through orders.idempotency_key.
+ */
+export async function bookRecurringVisit(
+  db: SupabaseClient,
+  plan: RecurringPlan,
+  now: Date = new Date()
+): Promise<BookVisitResult> {
+  const today = toNYDateString(now)
+
+  if (!isPlanDueForBooking(plan, today)) {
+    return { status: 'skipped', reason: 'not_due' }
+  }
+
+  if (await getUpcomingRecurringVisit(db, plan.id, now)) {
+    return { status: 'skipped', reason: 'already_booked' }
+  }
+
+  const template = await getRecurringTemplateOrder(db, plan.id)
+  if (!template) {
+    return { status: 'skipped', reason: 'no_template' }
+  }
+
+  const visitDate = rollForwardDate(plan.next_date!, plan.frequency, today)
+  const zip = template.address_snapshot?.zip
+
+  // Reserve the best open slot on the visit date, or the next days if it's full
+  let slot: CapacitySlot | null = null
+  for (let offset = 0; offset < RECURRING_SLOT_SEARCH_DAYS && !slot; offset++) {
+    const date = addDays(visitDate, offset)
+    await ensureSlotsExist('CLEANING', zip, date)
+
+    const candidates = rankRecurringSlots(await getCapacitySlots(db, zip, date), template, now)
+      .filter((candidate) => !isSlotWithin6Hours(candidate.slot_start))
+
+    for (const candidate of candidates) {
+      if (await reserveCapacity(candidate.partner_id, 'CLEANING', candidate.slot_start, RECURRING_VISIT_UNITS)) {
+        slot = candidate
+        break
+      }
+    }
+  }
+
+  if (!slot) {
+    return { status: 'skipped', reason: 'no_capacity' }
+  }
+
+  const details = getRecurringVisitDetails(plan, template.order_details)
+
+  let order: any
+  let pricing: PricingBreakdown
+  try {
+    pricing = await quoteCleaning({
+      zip,
+      bedrooms: details.bedrooms,
+      bathrooms: details.bathrooms,
+      deep: details.deep,
+      addons: details.addons,
+      frequency: toQuoteFrequency(plan.frequency),
+      visitsCompleted: plan.visits_completed || 0,
+      firstVisitDeep: plan.first_visit_deep,
+      buildingId: template.building_id,
+    })
+
+    const { data, error } = await db
+      .from('orders')
+      .insert({
+        user_id: plan.user_id,
+        service_type: 'CLEANING',
+        subscription_id: plan.id,
+        partner_id: slot.partner_id,
+        building_id: template.building_id || null,
+        pricing_version_id: pricing.pricing_version_id || null,
+        slot_start: slot.slot_start,
+        slot_end: slot.slot_end,
+        status: 'pending',
+        cleaning_status: 'scheduled',
+        subtotal_cents: pricing.subtotal_cents,
+        tax_cents: pricing.tax_cents,
+        delivery_cents: pricing.delivery_cents,
+        total_cents: pricing.total_cents,
+        stripe_customer_id: template.stripe_customer_id || null,
+        saved_payment_method_id: template.saved_payment_method_id || null,
+        idempotency_key: `recurring:${plan.id}:${visitDate}`,
+        order_details: {
+          ...details,
+          cleaningType: details.deep ? 'deep' : 'standard',
+          frequency: toQuoteFrequency(plan.frequency),
+          subscription_id: plan.id,
+          visit_number: (plan.visits_completed || 0) + 1,
+        },
+        address_snapshot: template.address_snapshot,
+      })
+      .select()
+      .single()
+
+    if (error) throw error
+    order = data
+  } catch (error: any) {
+    await releaseCapacity(slot.partner_id, 'CLEANING', slot.slot_start, RECURRING_VISIT_UNITS)
+    // Another run booked this visit first
+    if (error?.code === '23505') {
+      return { status: 'skipped', reason: 'already_booked' }
+    }
+    throw error
+  }
+
+  await db.from('order_events').insert({
+    order_id: order.id,
+    actor: null,
+    actor_role: 'system',
+    event_type: 'recurring_visit_booked',
+    payload_json: { subscription_id: plan.id, visit_date: visitDate, pricing },
+  })
+
+  await db.from('cleaning_checklist').insert(buildCleaningChecklist(order.id, details.bedrooms))
+
+  if (visitDate !== plan.next_date) {
+    await db.from('subscriptions').update({ next_date: visitDate }).eq('id', plan.id)
+  }
+
+  await notifyCustomer({
+    event: 'recurring_visit_booked',
+    userId: plan.user_id,
+    orderId: order.id,
+    phone: template.address_snapshot?.phone,
+    title: 'Your next cleaning is booked',
+    message:
+      `Your ${FREQUENCY_LABELS[plan.frequency]} cleaning is booked for ${formatDateTime(slot.slot_start)}. ` +
+      (plan.stripe_subscription_id
+        ? `It's covered by your subscription. `
+        : `We'll charge ${formatCents(pricing.total_cents)} to your saved card on ${formatDateTime(getChargeDueAt(slot).toISOString())}. `) +
+      `Skip or reschedule before ${formatDateTime(getChargeDueAt(slot).toISOString())}: ${getPlanUrl(plan.id)}`,
+  })
+
+  return { status: 'booked', order, pricing }
+}
+
+/**
+ * Confirm a visit of a Stripe-billed plan: the subscription already paid for
+ * it, so it moves on like a paid order without a per-visit charge
+ */
+async function confirmCoveredVisit(db: SupabaseClient, order: any): Promise<void> {
+  await db
+    .from('orders')
+    .update({ status: 'paid_processing', paid_at: new Date().toISOString() })
+    .eq('id', order.id)
+    .eq('status', 'pending')
+
+  await db.from('order_events').insert({
+    order_id: order.id,
+    actor: null,
+    actor_role: 'system',
+    event_type: 'subscription_visit_confirmed',
+    payload_json: { subscription_id: order.subscription_id },
+  })
+}
+
+/**
+ * Charge a booked visit to the saved payment method. Failures are logged to
+ * payment_retry_log and the customer is asked to pay from the order page.
+ * Visits of Stripe-billed plans are confirmed instead, once billing is
+ * current.
+ */
+export async function chargeRecurringVisit(
+  db: SupabaseClient,
+  order: any,
+  plan?: Pick<RecurringPlan, 'stripe_subscription_id' | 'billing_status'> | null
+): Promise<ChargeVisitResult> {
+  if (plan?.stripe_subscription_id) {
+    // Past-due customers already got the invoice failure notice; the visit
+    // is confirmed on the next run once the invoice is paid
+    if (!isBillingStatusActive(plan.billing_status)) {
+      return { status: 'awaiting_subscription' }
+    }
+    await confirmCoveredVisit(db, order)
+    return { status: 'covered' }
+  }
+
+  const orderUrl = `${process.env.NEXT_PUBLIC_BASE_URL}/orders/${order.id}`
+  const amount = formatCents(order.total_cents)
+  const requestPayment = () =>
+    notifyCustomer({
+      event: 'payment_requested',
+      userId: order.user_id,
+      orderId: order.id,
+      phone: order.address_snapshot?.phone,
+      title: 'Payment needed for your cleaning',
+      message: `We couldn't charge your saved card ${amount} for your cleaning on ${formatDateTime(order.slot_start)}. Pay here to keep your booking: ${orderUrl}`,
+    })
+
+  if (!order.saved_payment_method_id || !order.stripe_customer_id) {
+    await requestPayment()
+    return { status: 'no_payment_method' }
+  }
+
+  try {
+    const Stripe = (await import('stripe')).default
+    const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+      apiVersion: '2023-10-16'
+    })
+
+    const paymentIntent = await executeWithCircuitBreaker(
+      () =>
+        stripe.paymentIntents.create(
+          {
+            amount: order.total_cents,
+            currency: 'usd',
+            customer: order.stripe_customer_id,
+            payment_method: order.saved_payment_method_id,
+            confirm: true,
+            off_session: true,
+            metadata: {
+              order_id: order.id,
+              subscription_id: order.subscription_id,
+              reason: 'recurring_visit',
+            },
+          },
+          { idempotencyKey: `recurring-charge:${order.id}` }
+        ),
+      true
+    )
+
+    const paidAt = new Date().toISOString()
+    await db
+      .from('orders')
+      .update({
+        status: 'paid_processing',
+        paid_at: paidAt,
+        payment_intent_id: paymentIntent.id,
+      })
+      .eq('id', order.id)
+      .eq('status', 'pending')
+
+    await db.from('order_events').insert({
+      order_id: order.id,
+      actor: null,
+      actor_role: 'system',
+      event_type: 'payment_auto_charged',
+      payload_json: {
+        payment_intent_id: paymentIntent.id,
+        amount_cents: order.total_cents,
+        subscription_id: order.subscription_id,
+      },
+    })
+
+    await notifyCustomer({
+      event: 'payment_received',
+      userId: order.user_id,
+      orderId: order.id,
+      phone: order.address_snapshot?.phone,
+      title: 'Payment receipt',
+      message: `Charged ${amount} for your cleaning on ${formatDateTime(order.slot_start)}. View receipt: ${orderUrl}`,
+    })
+
+    return { status: 'charged', payment_intent_id: paymentIntent.id }
+  } catch (error: any) {
+    console.error('[RECURRING] Auto-charge failed:', error)
+
+    await recordPaymentRetry(db, { orderId: order.id, subscriptionId: order.subscription_id, error })
+
+    await requestPayment()
+    return { status: 'failed', error: error.message }
+  }
+}
+
+// ============================================
+// CUSTOMER CONTROLS
+// ============================================
+
+/**
+ * Cancel an uncharged visit and give its capacity back
+ */
+async function cancelRecurringVisit(
+  db: SupabaseClient,
+  order: any,
+  reason: string,
+  actorId: string
+): Promise<boolean> {
+  const { data: canceled } = await db
+    .from('orders')
+    .update({
+      status: 'canceled',
+      cleaning_status: 'canceled',
+      canceled_at: new Date().toISOString(),
+      canceled_by: actorId,
+      canceled_reason: reason,
+    })
+    .eq('id', order.id)
+    .eq('status', 'pending') // Never cancel a visit the cron just charged
+    .select('id')
+    .maybeSingle()
+
+  if (!canceled) return false
+
+  await releaseCapacity(order.partner_id, 'CLEANING', order.slot_start, RECURRING_VISIT_UNITS)
+  return true
+}
+
+/**
+ * Skip the upcoming visit; the plan moves on to the following one
+ */
+export async function skipRecurringVisit(
+  db: SupabaseClient,
+  plan: RecurringPlan,
+  order: any,
+  actorId: string
+): Promise<string | null> {
+  if (!(await cancelRecurringVisit(db, order, 'Skipped recurring visit', actorId))) {
+    return null
+  }
+
+  const visitDate = plan.next_date || toNYDateString(order.slot_start)
+  const nextDate = addFrequency(visitDate, plan.frequency)
+
+  await db.from('subscriptions').update({ next_date: nextDate }).eq('id', plan.id)
+
+  await db.from('order_events').insert({
+    order_id: order.id,
+    actor: actorId,
+    actor_role: 'user',
+    event_type: 'recurring_visit_skipped',
+    payload_json: { subscription_id: plan.id, next_date: nextDate },
+  })
+
+  return nextDate
+}
+
+/**
+ * Move the upcoming visit to another slot. Returns false when the new slot
+ * filled up or the visit can no longer be changed.
+ */
+export async function swapRecurringVisit(
+  db: SupabaseClient,
+  order: any,
+  slot: { partner_id: string; slot_start: string; slot_end: string },
+  actorId: string
+): Promise<any | null> {
+  const reserved = await reserveCapacity(slot.partner_id, 'CLEANING', slot.slot_start, RECURRING_VISIT_UNITS)
+  if (!reserved) return null
+
+  const { data: updated } = await db
+    .from('orders')
+    .update({
+      partner_id: slot.partner_id,
+      slot_start: slot.slot_start,
+      slot_end: slot.slot_end,
+    })
+    .eq('id', order.id)
+    .eq('status', 'pending')
+    .select()
+    .maybeSingle()
+
+  if (!updated) {
+    await releaseCapacity(slot.partner_id, 'CLEANING', slot.slot_start, RECURRING_VISIT_UNITS)
+    return null
+  }
+
+  await releaseCapacity(order.partner_id, 'CLEANING', order.slot_start, RECURRING_VISIT_UNITS)
+
+  await db.from('order_events').insert({
+    order_id: order.id,
+    actor: actorId,
+    actor_role: 'user',
+    event_type: 'recurring_visit_rescheduled',
+    payload_json: {
+      from: { partner_id: order.partner_id, slot_start: order.slot_start, slot_end: order.slot_end },
+      to: slot,
+    },
+  })
+
+  return updated
+}
+
+/**
+ * Pause the plan; an upcoming visit that hasn't been charged is canceled
+ */
+export async function pauseRecurringPlan(
+  db: SupabaseClient,
+  plan: RecurringPlan,
+  order: any | null,
+  actorId: string,
+  now: Date = new Date()
+): Promise<{ visit_canceled: boolean }> {
+  await db.from('subscriptions').update({ active: false }).eq('id', plan.id)
+
+  let visitCanceled = false
+  if (order && canChangeRecurringVisit(order, now)) {
+    visitCanceled = await cancelRecurringVisit(db, order, 'Recurring plan paused', actorId)
+  }
+
+  return { visit_canceled: visitCanceled }
+}
+
+/**
+ * Resume the plan; a next_date that passed while paused rolls forward so the
+ * cron doesn't book a visit in the past
+ */
+export async function resumeRecurringPlan(
+  db: SupabaseClient,
+  plan: RecurringPlan,
+  now: Date = new Date()
+): Promise<string | null> {
+  const nextDate = plan.next_date
+    ? rollForwardDate(plan.next_date, plan.frequency, toNYDateString(now))
+    : null
+
+  await db.from('subscriptions').update({ active: true, next_date: nextDate }).eq('id', plan.id)
+
+  return nextDate
+}
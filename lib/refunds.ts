@@ -0,0 +1,188 @@
+/**
+ * Refund Processing
+ *
+ * Shared refund path used by the admin refund endpoint, claim settlement
+ * and dispute refunds. Records the refund, flips fully refunded orders to
+ * `refunded`, and leaves an admin note on the order. executeStripeRefund
+ * moves the money for a recorded refund.
+ *
+ * @module lib/refunds
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { ValidationError } from './errors'
+import { executeWithCircuitBreaker } from './stripe-circuit-breaker'
+
+export interface IssueRefundParams {
+  order: any
+  amountCents: number
+  reason: string
+  approvedBy: string
+  /** Ties the refund to the outbox delivery that issued it */
+  idempotencyKey?: string
+}
+
+export interface IssueRefundResult {
+  refund: any | null
+  refundedCents: number
+  fullyRefunded: boolean
+}
+
+/**
+ * Amount actually charged for an order (final quote wins over the estimate)
+ */
+export function getPaidAmountCents(order: { quote_cents?: number | null; total_cents?: number | null }): number {
+  return order.quote_cents || order.total_cents || 0
+}
+
+/**
+ * Amount still refundable after earlier refunds
+ * Failed refunds never moved money, so they don't count against the balance
+ */
+export function getRefundableCents(
+  paidCents: number,
+  priorRefunds: Array<{ amount_cents: number; status?: string | null }>
+): number {
+  const alreadyRefunded = priorRefunds
+    .filter(r => r.status !== 'failed')
+    .reduce((sum, r) => sum + (r.amount_cents || 0), 0)
+
+  return Math.max(paidCents - alreadyRefunded, 0)
+}
+
+/**
+ * Issue a refund against an order
+ *
+ * @throws ValidationError if the amount is not positive or exceeds the refundable balance
+ */
+export async function issueRefund(
+  db: SupabaseClient,
+  params: IssueRefundParams
+): Promise<IssueRefundResult> {
+  const { order, amountCents, reason, approvedBy, idempotencyKey } = params
+
+  if (!Number.isInteger(amountCents) || amountCents <= 0) {
+    throw new ValidationError('Valid refund amount is required', 'INVALID_REFUND_AMOUNT')
+  }
+
+  const { data: priorRefunds } = await db
+    .from('refunds')
+    .select('amount_cents, status')
+    .eq('order_id', order.id)
+
+  const paidCents = getPaidAmountCents(order)
+  const refundableCents = getRefundableCents(paidCents, priorRefunds || [])
+
+  if (amountCents > refundableCents) {
+    throw new ValidationError('Refund amount cannot exceed paid amount', 'REFUND_EXCEEDS_PAID')
+  }
+
+  // Create refund record
+  const { data: refund, error: refundError } = await db
+    .from('refunds')
+    .insert({
+      order_id: order.id,
+      amount_cents: amountCents,
+      reason,
+      approved_by: approvedBy,
+      status: 'pending',
+      ...(idempotencyKey ? { idempotency_key: idempotencyKey } : {})
+    })
+    .select()
+    .single()
+
+  if (refundError) {
+    // If refunds table doesn't exist yet, just log and continue
+    console.warn('Refunds table not available:', refundError)
+  }
+
+  // Update order status if fully refunded
+  const fullyRefunded = amountCents >= refundableCents
+  if (fullyRefunded) {
+    await db
+      .from('orders')
+      .update({
+        status: 'refunded',
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', order.id)
+  }
+
+  // Add admin note
+  await db
+    .from('admin_notes')
+    .insert({
+      order_id: order.id,
+      author_id: approvedBy,
+      note: `Refund issued: $${(amountCents / 100).toFixed(2)}. Reason: ${reason}`
+    })
+
+  return {
+    refund: refund || null,
+    refundedCents: amountCents,
+    fullyRefunded
+  }
+}
+
+/**
+ * Refund a recorded refund's amount on the order's PaymentIntent
+ *
+ * Safe to retry with the same idempotency key: Stripe returns the original
+ * refund. Requests Stripe rejects outright (nothing captured, already
+ * refunded) mark the refund failed; other errors are rethrown for a retry.
+ */
+export async function executeStripeRefund(
+  db: SupabaseClient,
+  refund: { id: string; order_id: string; amount_cents: number },
+  paymentIntentId: string | null,
+  idempotencyKey: string
+): Promise<'succeeded' | 'failed'> {
+  const markFailed = async (message: string) => {
+    await db
+      .from('refunds')
+      .update({ status: 'failed', error_message: message, processed_at: new Date().toISOString() })
+      .eq('id', refund.id)
+    return 'failed' as const
+  }
+
+  if (!paymentIntentId) {
+    return markFailed('Order has no payment to refund')
+  }
+
+  await db.from('refunds').update({ status: 'processing' }).eq('id', refund.id)
+
+  const Stripe = (await import('stripe')).default
+  const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, { apiVersion: '2023-10-16' })
+
+  try {
+    const stripeRefund = await executeWithCircuitBreaker(() =>
+      stripe.refunds.create(
+        {
+          payment_intent: paymentIntentId,
+          amount: refund.amount_cents,
+          metadata: { order_id: refund.order_id, refund_id: refund.id },
+        },
+        { idempotencyKey }
+      )
+    )
+
+    await db
+      .from('refunds')
+      .update({
+        status: 'succeeded',
+        stripe_refund_id: stripeRefund.id,
+        error_message: null,
+        processed_at: new Date().toISOString()
+      })
+      .eq('id', refund.id)
+
+    return 'succeeded'
+  } catch (error: any) {
+    if (error?.type === 'StripeInvalidRequestError') {
+      return markFailed(error.message)
+    }
+
+    await db.from('refunds').update({ error_message: error?.message || 'Refund failed' }).eq('id', refund.id)
+    throw error
+  }
+}
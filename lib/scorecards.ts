@@ -0,0 +1,328 @@
+/**
+ * Partner Ratings and Scorecards
+ *
+ * Customer ratings and operational metrics rolled up per partner into
+ * partners.scorecard_json, which the partner card customers see and the
+ * admin partner pages read.
+ *
+ * - Customers rate a completed or delivered order once: 1-5 stars, tags for
+ *   what went well (on time, quality, communication) and an optional review
+ * - Operational metrics come from the partner's orders in the last
+ *   SCORECARD_WINDOW_DAYS: on-time rate from late_minutes, cleaner no-shows
+ *   and the share of serviced orders that were disputed
+ * - refreshPartnerScorecard recomputes the scorecard after every rating and
+ *   from the operations cron. A metric that newly falls past
+ *   SCORECARD_THRESHOLDS opens an operational_alerts row for the partner
+ *
+ * @module lib/scorecards
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+
+// ============================================
+// TYPES
+// ============================================
+
+export type RatingTag = 'on_time' | 'quality' | 'communication'
+
+export type ScorecardMetric = 'rating' | 'on_time_rate' | 'no_show_count' | 'dispute_rate'
+
+export interface OrderRating {
+  id: string
+  order_id: string
+  partner_id: string
+  user_id: string
+  rating: number
+  tags: RatingTag[]
+  review: string | null
+  created_at: string
+}
+
+export interface PartnerScorecard {
+  /** Average stars, rounded to one decimal; null until the first rating */
+  rating: number | null
+  review_count: number
+  /** Share of ratings that tagged each strength; null without ratings */
+  tag_rates: Record<RatingTag, number | null>
+  /** Orders serviced in the window (completed, delivered or disputed) */
+  completed_orders: number
+  on_time_rate: number | null
+  no_show_count: number
+  dispute_count: number
+  dispute_rate: number | null
+  /** Metrics currently past SCORECARD_THRESHOLDS */
+  low_metrics: ScorecardMetric[]
+  window_days: number
+  updated_at: string
+}
+
+export interface ScorecardOrder {
+  status: string
+  late_minutes: number | null
+  disputed_at: string | null
+  no_show_type: string | null
+}
+
+export interface ScorecardRefreshResult {
+  scorecard: PartnerScorecard
+  /** Metrics that fell past their threshold with this refresh */
+  alerts: ScorecardMetric[]
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const RATING_TAG_LABELS: Record<RatingTag, string> = {
+  on_time: 'On time',
+  quality: 'Quality',
+  communication: 'Communication',
+}
+
+export const SCORECARD_METRIC_LABELS: Record<ScorecardMetric, string> = {
+  rating: 'Average rating',
+  on_time_rate: 'On-time rate',
+  no_show_count: 'No-shows',
+  dispute_rate: 'Dispute rate',
+}
+
+/**
+ * Order statuses a customer can rate (the service has been delivered)
+ */
+export const RATEABLE_ORDER_STATUSES = ['completed', 'delivered']
+
+/**
+ * Statuses of orders the partner actually serviced, for rates
+ */
+const SERVICED_ORDER_STATUSES = ['completed', 'delivered', 'disputed']
+
+/**
+ * How late an arrival can be and still count as on time
+ */
+export const ON_TIME_GRACE_MINUTES = 15
+
+/**
+ * Look-back window for the operational metrics
+ */
+export const SCORECARD_WINDOW_DAYS = 90
+
+/**
+ * Limits that raise an alert. Rates only count once there's enough volume
+ * for one bad order not to trip them.
+ */
+export const SCORECARD_THRESHOLDS = {
+  minRating: 4.0,
+  minReviews: 5,
+  minOnTimeRate: 0.85,
+  maxDisputeRate: 0.1,
+  minOrders: 10,
+  maxNoShows: 2,
+}
+
+const RATING_TAGS = Object.keys(RATING_TAG_LABELS) as RatingTag[]
+
+// ============================================
+// VALIDATION SCHEMAS
+// ============================================
+
+export const createRatingSchema = z.object({
+  rating: z.number().int().min(1).max(5),
+  tags: z.array(z.enum(['on_time', 'quality', 'communication'])).max(3).default([]),
+  review: z.string().trim().max(1000).optional(),
+})
+
+export type CreateRatingInput = z.infer<typeof createRatingSchema>
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Check whether a customer can rate an order
+ */
+export function canRateOrder(order: { status: string; partner_id: string | null }): boolean {
+  return RATEABLE_ORDER_STATUSES.includes(order.status) && !!order.partner_id
+}
+
+function ratio(count: number, total: number): number | null {
+  return total > 0 ? Math.round((count / total) * 1000) / 1000 : null
+}
+
+function isServiced(order: ScorecardOrder): boolean {
+  return SERVICED_ORDER_STATUSES.includes(order.status) || !!order.disputed_at
+}
+
+/**
+ * List the metrics of a scorecard that are past their threshold
+ */
+export function getLowMetrics(
+  scorecard: Omit<PartnerScorecard, 'low_metrics' | 'window_days' | 'updated_at'>
+): ScorecardMetric[] {
+  const t = SCORECARD_THRESHOLDS
+  const low: ScorecardMetric[] = []
+
+  if (scorecard.rating !== null && scorecard.review_count >= t.minReviews && scorecard.rating < t.minRating) {
+    low.push('rating')
+  }
+  if (scorecard.completed_orders >= t.minOrders) {
+    if (scorecard.on_time_rate !== null && scorecard.on_time_rate < t.minOnTimeRate) low.push('on_time_rate')
+    if (scorecard.dispute_rate !== null && scorecard.dispute_rate > t.maxDisputeRate) low.push('dispute_rate')
+  }
+  if (scorecard.no_show_count > t.maxNoShows) low.push('no_show_count')
+
+  return low
+}
+
+/**
+ * Roll a partner's ratings and recent orders up into a scorecard
+ */
+export function computeScorecard(
+  ratings: Array<Pick<OrderRating, 'rating' | 'tags'>>,
+  orders: ScorecardOrder[],
+  now: Date = new Date()
+): PartnerScorecard {
+  const reviewCount = ratings.length
+  const totalStars = ratings.reduce((sum, r) => sum + r.rating, 0)
+
+  const tagRates = {} as Record<RatingTag, number | null>
+  for (const tag of RATING_TAGS) {
+    tagRates[tag] = ratio(ratings.filter((r) => (r.tags || []).includes(tag)).length, reviewCount)
+  }
+
+  const serviced = orders.filter(isServiced)
+  const onTime = serviced.filter((o) => (o.late_minutes ?? 0) <= ON_TIME_GRACE_MINUTES)
+  const disputed = serviced.filter((o) => !!o.disputed_at || o.status === 'disputed')
+  const noShows = orders.filter((o) => o.status === 'cleaner_no_show' || o.no_show_type === 'cleaner')
+
+  const scorecard = {
+    rating: reviewCount > 0 ? Math.round((totalStars / reviewCount) * 10) / 10 : null,
+    review_count: reviewCount,
+    tag_rates: tagRates,
+    completed_orders: serviced.length,
+    on_time_rate: ratio(onTime.length, serviced.length),
+    no_show_count: noShows.length,
+    dispute_count: disputed.length,
+    dispute_rate: ratio(disputed.length, serviced.length),
+  }
+
+  return {
+    ...scorecard,
+    low_metrics: getLowMetrics(scorecard),
+    window_days: SCORECARD_WINDOW_DAYS,
+    updated_at: now.toISOString(),
+  }
+}
+
+function formatMetric(metric: ScorecardMetric, scorecard: PartnerScorecard): string {
+  const percent = (value: number | null) => `${Math.round((value ?? 0) * 100)}%`
+  const t = SCORECARD_THRESHOLDS
+
+  switch (metric) {
+    case 'rating':
+      return `average rating ${scorecard.rating} over ${scorecard.review_count} reviews (minimum ${t.minRating})`
+    case 'on_time_rate':
+      return `on-time rate ${percent(scorecard.on_time_rate)} (minimum ${percent(t.minOnTimeRate)})`
+    case 'no_show_count':
+      return `${scorecard.no_show_count} no-shows in ${scorecard.window_days} days (maximum ${t.maxNoShows})`
+    case 'dispute_rate':
+      return `dispute rate ${percent(scorecard.dispute_rate)} (maximum ${percent(t.maxDisputeRate)})`
+  }
+}
+
+// ============================================
+// DATABASE OPERATIONS
+// ============================================
+
+/**
+ * Recompute a partner's scorecard and alert on metrics that just went low
+ *
+ * Metrics already low on the stored scorecard were alerted before, so a
+ * partner stays at one alert per metric until it recovers.
+ */
+export async function refreshPartnerScorecard(
+  db: SupabaseClient,
+  partnerId: string,
+  now: Date = new Date()
+): Promise<ScorecardRefreshResult> {
+  const windowStart = new Date(now.getTime() - SCORECARD_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+
+  const { data: partner, error: partnerError } = await db
+    .from('partners')
+    .select('id, name, scorecard_json')
+    .eq('id', partnerId)
+    .single()
+
+  if (partnerError || !partner) throw partnerError || new Error(`Partner ${partnerId} not found`)
+
+  const { data: ratings, error: ratingsError } = await db
+    .from('order_ratings')
+    .select('rating, tags')
+    .eq('partner_id', partnerId)
+
+  if (ratingsError) throw ratingsError
+
+  const { data: orders, error: ordersError } = await db
+    .from('orders')
+    .select('status, late_minutes, disputed_at, no_show_type')
+    .eq('partner_id', partnerId)
+    .gte('slot_start', windowStart.toISOString())
+
+  if (ordersError) throw ordersError
+
+  const scorecard = computeScorecard(ratings || [], orders || [], now)
+
+  const { error: updateError } = await db
+    .from('partners')
+    .update({ scorecard_json: scorecard })
+    .eq('id', partnerId)
+
+  if (updateError) throw updateError
+
+  const previouslyLow: ScorecardMetric[] = partner.scorecard_json?.low_metrics || []
+  const alerts = scorecard.low_metrics.filter((metric) => !previouslyLow.includes(metric))
+
+  if (alerts.length > 0) {
+    const { error: alertError } = await db.from('operational_alerts').insert(
+      alerts.map((metric) => ({
+        alert_type: 'partner_low_score',
+        severity: metric === 'no_show_count' ? 'critical' : 'high',
+        entity_type: 'partner',
+        entity_id: partnerId,
+        message: `${partner.name}: ${formatMetric(metric, scorecard)}`,
+        metadata: { metric, scorecard },
+      }))
+    )
+    // The scorecard is saved either way; a lost alert shouldn't fail the rating
+    if (alertError) console.error('Failed to record scorecard alert:', alertError)
+  }
+
+  return { scorecard, alerts }
+}
+
+/**
+ * Refresh every active partner's scorecard (operations cron)
+ *
+ * Picks up metrics that change without a new rating: late arrivals,
+ * no-shows, disputes and orders ageing out of the window.
+ */
+export async function refreshAllScorecards(
+  db: SupabaseClient,
+  now: Date = new Date()
+): Promise<{ refreshed: number; alerts: number; errors: number }> {
+  const { data: partners, error } = await db.from('partners').select('id').eq('active', true)
+  if (error) throw error
+
+  const result = { refreshed: 0, alerts: 0, errors: 0 }
+  for (const partner of partners || []) {
+    try {
+      const { alerts } = await refreshPartnerScorecard(db, partner.id, now)
+      result.refreshed++
+      result.alerts += alerts.length
+    } catch (err) {
+      console.error(`Failed to refresh scorecard for partner ${partner.id}:`, err)
+      result.errors++
+    }
+  }
+  return result
+}
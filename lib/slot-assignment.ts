@@ -0,0 +1,378 @@
+/**
+ * Slot Assignment
+ *
+ * Customers pick a merged window (see mergeSlotsByWindow); at checkout an
+ * assignment strategy picks the partner that takes the order.
+ *
+ * - Only partners serving the ZIP with the required capability and with
+ *   room left in the window are candidates
+ * - A strategy ranks the candidates; the first one whose slot can still be
+ *   held wins, so losing a race for one partner's last unit falls through to
+ *   the next partner instead of failing the checkout
+ * - The strategy comes from SLOT_ASSIGNMENT_STRATEGY (default least_loaded)
+ * - The decision and its reason are kept on the hold and logged to
+ *   order_events (partner_assigned) once the order exists
+ *
+ * @module lib/slot-assignment
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getServingPartners, type SlotCapability } from './capacity'
+import { BOOKING_CAPACITY_UNITS, createCapacityHold, getCheckoutHold, type CapacityHold } from './capacity-holds'
+import { AppError, ConflictError } from './errors'
+import type { PartnerScorecard } from './scorecards'
+
+// ============================================
+// TYPES
+// ============================================
+
+export type SlotAssignmentStrategyName = 'least_loaded' | 'round_robin' | 'best_scorecard' | 'nearest'
+
+export interface GeoPoint {
+  lat: number
+  lng: number
+}
+
+export interface AssignmentCandidate {
+  partner_id: string
+  partner_name: string
+  slot_id: string
+  max_units: number
+  reserved_units: number
+  available_units: number
+  scorecard: Pick<PartnerScorecard, 'rating' | 'review_count' | 'low_metrics'> | null
+  location: GeoPoint | null
+  /** When the partner last got an order for this service; null if never */
+  last_assigned_at: string | null
+}
+
+export interface AssignmentContext {
+  /** Customer's address location, when the address was geocoded */
+  location?: GeoPoint | null
+}
+
+export interface RankedCandidate {
+  candidate: AssignmentCandidate
+  reason: string
+}
+
+export interface SlotAssignmentStrategy {
+  readonly name: SlotAssignmentStrategyName
+  /** Candidates best first, each with why it ranks there */
+  rank(candidates: AssignmentCandidate[], context: AssignmentContext): RankedCandidate[]
+}
+
+export interface SlotAssignment {
+  partner_id: string
+  strategy: SlotAssignmentStrategyName
+  reason: string
+  /** Every partner considered, best first */
+  candidates: Array<{ partner_id: string; available_units: number; reason: string }>
+}
+
+export interface AssignSlotParams {
+  serviceType: 'LAUNDRY' | 'CLEANING'
+  zip: string
+  slotStart: string
+  capability?: SlotCapability
+  location?: GeoPoint | null
+  units?: number
+  userId?: string | null
+}
+
+// ============================================
+// STRATEGIES
+// ============================================
+
+function freeShare(candidate: AssignmentCandidate): number {
+  return candidate.max_units > 0 ? candidate.available_units / candidate.max_units : 0
+}
+
+function loadReason(candidate: AssignmentCandidate): string {
+  return `${candidate.available_units}/${candidate.max_units} units free`
+}
+
+function byLoad(a: AssignmentCandidate, b: AssignmentCandidate): number {
+  return freeShare(b) - freeShare(a) || b.available_units - a.available_units
+}
+
+/**
+ * Partner with the largest share of its window still free
+ */
+export const leastLoadedStrategy: SlotAssignmentStrategy = {
+  name: 'least_loaded',
+  rank(candidates) {
+    return [...candidates].sort(byLoad).map((candidate) => ({ candidate, reason: loadReason(candidate) }))
+  },
+}
+
+/**
+ * Partner that went longest without an order (never-booked partners first)
+ */
+export const roundRobinStrategy: SlotAssignmentStrategy = {
+  name: 'round_robin',
+  rank(candidates) {
+    return [...candidates]
+      .sort((a, b) => (a.last_assigned_at ?? '').localeCompare(b.last_assigned_at ?? '') || byLoad(a, b))
+      .map((candidate) => ({
+        candidate,
+        reason: candidate.last_assigned_at
+          ? `last assigned ${candidate.last_assigned_at}`
+          : 'no orders yet',
+      }))
+  },
+}
+
+/**
+ * Partner with the fewest scorecard metrics past threshold, then the best
+ * rating. Unrated partners rank after rated ones with no low metrics.
+ */
+export const bestScorecardStrategy: SlotAssignmentStrategy = {
+  name: 'best_scorecard',
+  rank(candidates) {
+    const lowCount = (c: AssignmentCandidate) => c.scorecard?.low_metrics?.length ?? 0
+    const rating = (c: AssignmentCandidate) => c.scorecard?.rating ?? 0
+
+    return [...candidates]
+      .sort((a, b) => lowCount(a) - lowCount(b) || rating(b) - rating(a) || byLoad(a, b))
+      .map((candidate) => {
+        const low = candidate.scorecard?.low_metrics ?? []
+        const stars = candidate.scorecard?.rating != null ? `rating ${candidate.scorecard.rating}` : 'unrated'
+        return {
+          candidate,
+          reason: low.length > 0 ? `${stars}, low ${low.join(', ')}` : `${stars}, no low metrics`,
+        }
+      })
+  },
+}
+
+/**
+ * Great-circle distance in kilometers
+ */
+export function distanceKm(a: GeoPoint, b: GeoPoint): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180
+  const dLat = toRad(b.lat - a.lat)
+  const dLng = toRad(b.lng - a.lng)
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2
+  return 2 * 6371 * Math.asin(Math.sqrt(h))
+}
+
+/**
+ * Partner closest to the customer's address. Partners without a location
+ * rank last; without the customer's location this is least-loaded.
+ */
+export const nearestStrategy: SlotAssignmentStrategy = {
+  name: 'nearest',
+  rank(candidates, context) {
+    const origin = context.location
+    if (!origin) {
+      return leastLoadedStrategy
+        .rank(candidates, context)
+        .map(({ candidate, reason }) => ({ candidate, reason: `address not located; ${reason}` }))
+    }
+
+    const distance = (c: AssignmentCandidate) => (c.location ? distanceKm(origin, c.location) : Infinity)
+
+    return [...candidates]
+      .sort((a, b) => distance(a) - distance(b) || byLoad(a, b))
+      .map((candidate) => ({
+        candidate,
+        reason: candidate.location ? `${distance(candidate).toFixed(1)} km away` : 'location unknown',
+      }))
+  },
+}
+
+export const SLOT_ASSIGNMENT_STRATEGIES: Record<SlotAssignmentStrategyName, SlotAssignmentStrategy> = {
+  least_loaded: leastLoadedStrategy,
+  round_robin: roundRobinStrategy,
+  best_scorecard: bestScorecardStrategy,
+  nearest: nearestStrategy,
+}
+
+/**
+ * Strategy in effect (SLOT_ASSIGNMENT_STRATEGY), least_loaded when unset
+ */
+export function getSlotAssignmentStrategy(
+  name: string | undefined = process.env.SLOT_ASSIGNMENT_STRATEGY
+): SlotAssignmentStrategy {
+  return SLOT_ASSIGNMENT_STRATEGIES[name as SlotAssignmentStrategyName] ?? leastLoadedStrategy
+}
+
+/**
+ * Partner capability a booking needs (the booking pages pass the same to /api/slots)
+ */
+export function getBookingCapability(
+  serviceType: 'LAUNDRY' | 'CLEANING',
+  serviceCategory?: string,
+  cleaningType?: string
+): SlotCapability | undefined {
+  if (serviceType === 'LAUNDRY') {
+    const laundry: Record<string, SlotCapability> = { washFold: 'wash_fold', dryClean: 'dry_clean', mixed: 'mixed' }
+    return serviceCategory ? laundry[serviceCategory] : undefined
+  }
+
+  const cleaning: Record<string, SlotCapability> = { standard: 'standard', deep: 'deep_clean', moveOut: 'move_in_out' }
+  return cleaningType ? cleaning[cleaningType] : undefined
+}
+
+// ============================================
+// DATABASE OPERATIONS
+// ============================================
+
+/**
+ * Partners that could take a booking in this window, with what the
+ * strategies rank on
+ */
+export async function getAssignmentCandidates(
+  db: SupabaseClient,
+  params: Pick<AssignSlotParams, 'serviceType' | 'zip' | 'slotStart' | 'capability' | 'units'>
+): Promise<AssignmentCandidate[]> {
+  const units = params.units ?? BOOKING_CAPACITY_UNITS
+  const serving = await getServingPartners(db, params.serviceType, params.zip, params.capability)
+  if (serving.length === 0) return []
+
+  const partnerIds = serving.map((partner) => partner.id)
+
+  const { data: slots, error: slotsError } = await db
+    .from('capacity_calendar')
+    .select('id, partner_id, max_units, reserved_units')
+    .in('partner_id', partnerIds)
+    .eq('service_type', params.serviceType)
+    .eq('slot_start', params.slotStart)
+
+  if (slotsError) throw slotsError
+
+  const open = (slots || []).filter((slot) => slot.max_units - slot.reserved_units >= units)
+  if (open.length === 0) return []
+
+  const openIds = open.map((slot) => slot.partner_id)
+
+  const { data: partners, error: partnersError } = await db
+    .from('partners')
+    .select('id, name, scorecard_json, latitude, longitude')
+    .in('id', openIds)
+
+  if (partnersError) throw partnersError
+
+  // Newest order per partner, for round-robin
+  const { data: recent, error: recentError } = await db
+    .from('orders')
+    .select('partner_id, created_at')
+    .in('partner_id', openIds)
+    .eq('service_type', params.serviceType)
+    .order('created_at', { ascending: false })
+    .limit(openIds.length * 20)
+
+  if (recentError) throw recentError
+
+  const lastAssigned = new Map<string, string>()
+  for (const order of recent || []) {
+    if (!lastAssigned.has(order.partner_id)) lastAssigned.set(order.partner_id, order.created_at)
+  }
+
+  const partnersById = new Map((partners || []).map((partner) => [partner.id, partner]))
+
+  return open.map((slot) => {
+    const partner = partnersById.get(slot.partner_id)
+    const scorecard = partner?.scorecard_json as Partial<PartnerScorecard> | null | undefined
+    const hasLocation = partner?.latitude != null && partner?.longitude != null
+
+    return {
+      partner_id: slot.partner_id,
+      partner_name: partner?.name ?? '',
+      slot_id: slot.id,
+      max_units: slot.max_units,
+      reserved_units: slot.reserved_units,
+      available_units: slot.max_units - slot.reserved_units,
+      scorecard: scorecard && 'low_metrics' in scorecard
+        ? { rating: scorecard.rating ?? null, review_count: scorecard.review_count ?? 0, low_metrics: scorecard.low_metrics ?? [] }
+        : null,
+      location: hasLocation ? { lat: Number(partner.latitude), lng: Number(partner.longitude) } : null,
+      last_assigned_at: lastAssigned.get(slot.partner_id) ?? null,
+    }
+  })
+}
+
+/**
+ * Pick a partner for the window and hold its slot
+ *
+ * @throws ConflictError (SLOT_FULL) when no candidate has room left
+ */
+export async function holdAssignedSlot(
+  db: SupabaseClient,
+  params: AssignSlotParams,
+  strategy: SlotAssignmentStrategy = getSlotAssignmentStrategy(),
+  now: Date = new Date()
+): Promise<{ hold: CapacityHold; assignment: SlotAssignment }> {
+  const candidates = await getAssignmentCandidates(db, params)
+  const ranked = strategy.rank(candidates, { location: params.location })
+
+  for (const { candidate, reason } of ranked) {
+    try {
+      const assignment: SlotAssignment = {
+        partner_id: candidate.partner_id,
+        strategy: strategy.name,
+        reason,
+        candidates: ranked.map((r) => ({
+          partner_id: r.candidate.partner_id,
+          available_units: r.candidate.available_units,
+          reason: r.reason,
+        })),
+      }
+
+      const hold = await createCapacityHold(db, {
+        partnerId: candidate.partner_id,
+        serviceType: params.serviceType,
+        slotStart: params.slotStart,
+        units: params.units,
+        userId: params.userId,
+        assignment,
+      }, now)
+
+      return { hold, assignment }
+    } catch (error) {
+      // Another checkout took this partner's last unit; try the next one
+      if (error instanceof AppError && error.code === 'SLOT_FULL') continue
+      throw error
+    }
+  }
+
+  throw new ConflictError('Selected time slot is no longer available', 'SLOT_FULL')
+}
+
+/**
+ * Take over the hold the customer placed at payment, with its assignment
+ *
+ * The hold is checked against the customer, service and window first (see
+ * getCheckoutHold), so another customer's assignment is never logged as
+ * this order's. An assignment that names another partner than the hold is
+ * dropped.
+ *
+ * @throws ValidationError (HOLD_MISMATCH) or ConflictError (HOLD_NOT_ACTIVE) from getCheckoutHold
+ */
+export async function reuseAssignedHold(
+  db: SupabaseClient,
+  holdId: string,
+  params: Pick<AssignSlotParams, 'serviceType' | 'slotStart' | 'userId'>
+): Promise<{ hold: CapacityHold; assignment: SlotAssignment | null }> {
+  const hold = await getCheckoutHold(db, holdId, params)
+  const assignment = hold.assignment_json?.partner_id === hold.partner_id ? hold.assignment_json : null
+  return { hold, assignment }
+}
+
+/**
+ * Log the assignment behind an order's partner
+ */
+export async function recordSlotAssignment(
+  db: SupabaseClient,
+  orderId: string,
+  assignment: SlotAssignment
+): Promise<void> {
+  await db.from('order_events').insert({
+    order_id: orderId,
+    actor: null,
+    actor_role: 'system',
+    event_type: 'partner_assigned',
+    payload_json: assignment,
+  })
+}
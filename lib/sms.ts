@@ -27,6 +27,13 @@ function getTwilioClient() {
 
 const FROM_PHONE = process.env.TWILIO_FROM_PHONE
 
+/**
+ * Whether sendSMS can deliver: Twilio is set up, or development logs to console
+ */
+export function isSMSConfigured(): boolean {
+  return isDev || Boolean(process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN && FROM_PHONE)
+}
+
 export interface SendSMSParams {
   to: string
   message: string
@@ -102,14 +109,13 @@ export async function sendSMS(params: SendSMSParams): Promise<void> {
 }
 
 /**
- * Send order created notification
+ * Order confirmation text (without the "Tidyhood:" prefix)
  */
-export async function sendOrderCreatedSMS(
-  phone: string,
+export function formatOrderCreatedMessage(
   orderId: string,
   serviceType: 'LAUNDRY' | 'CLEANING',
   slotStart: string
-): Promise<void> {
+): string {
   const shortId = orderId.slice(-8).toUpperCase()
   const date = new Date(slotStart).toLocaleDateString('en-US', {
     weekday: 'short',
@@ -124,9 +130,21 @@ export async function sendOrderCreatedSMS(
   
   const service = serviceType === 'LAUNDRY' ? 'laundry' : 'cleaning'
   
+  return `Your ${service} order #${shortId} is confirmed for ${date} at ${time}. We'll text you updates!`
+}
+
+/**
+ * Send order created notification
+ */
+export async function sendOrderCreatedSMS(
+  phone: string,
+  orderId: string,
+  serviceType: 'LAUNDRY' | 'CLEANING',
+  slotStart: string
+): Promise<void> {
   await sendSMS({
     to: phone,
-    message: `Tidyhood: Your ${service} order #${shortId} is confirmed for ${date} at ${time}. We'll text you updates!`,
+    message: `Tidyhood: ${formatOrderCreatedMessage(orderId, serviceType, slotStart)}`,
   })
 }
 
@@ -0,0 +1,346 @@
+/**
+ * Stripe Subscription Billing
+ *
+ * Keeps recurring plans (subscriptions table) in sync with Stripe
+ * subscriptions delivered through the customer.subscription.* webhooks.
+ * Plans are matched by stripe_subscription_id, then by the plan id in the
+ * Stripe subscription's metadata.subscription_id; a Stripe subscription for a
+ * known customer without a plan gets a new one.
+ *
+ * Stripe does not deliver events in order, so each plan keeps the `created`
+ * time of the last event applied to it (stripe_event_created_at) and older
+ * events are ignored.
+ *
+ * Status mapping:
+ * - trialing, active: the plan keeps booking visits
+ * - past_due, unpaid, paused, incomplete, incomplete_expired, canceled: the
+ *   plan stops booking (active = false) until billing recovers
+ *
+ * Visits of Stripe-billed plans are covered by the subscription instead of
+ * being charged one by one (see chargeRecurringVisit). Failed renewals
+ * (invoice.payment_failed) go to payment_retry_log through recordPaymentRetry,
+ * the same queue as failed visit charges.
+ *
+ * @module lib/subscription-billing
+ */
+
+import type Stripe from 'stripe'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getFrequencyDiscountRates } from './pricing'
+import { recordPaymentRetry } from './payment-errors'
+import { notifyCustomer } from './notifications'
+import {
+  toQuoteFrequency,
+  getUpcomingRecurringVisit,
+  isBillingStatusActive,
+  type RecurringFrequency,
+  type RecurringPlan,
+} from './recurring'
+
+// ============================================
+// TYPES
+// ============================================
+
+export type BillingStatus = Stripe.Subscription.Status
+
+export type SubscriptionEventType =
+  | 'customer.subscription.created'
+  | 'customer.subscription.updated'
+  | 'customer.subscription.deleted'
+
+export interface SubscriptionSyncResult {
+  action: 'created' | 'updated' | 'ignored'
+  plan_id?: string
+  reason?: string
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Plan `active` after a billing status change. Only a move between a billing
+ * and a non-billing status flips it, so a customer's own pause survives
+ * renewals and a recovered payment resumes the plan.
+ */
+export function getNextPlanActive(
+  plan: { active: boolean; billing_status?: string | null },
+  nextStatus: string
+): boolean {
+  const wasBilling = !plan.billing_status || isBillingStatusActive(plan.billing_status)
+  const isBilling = isBillingStatusActive(nextStatus)
+
+  if (wasBilling === isBilling) return plan.active
+  return isBilling
+}
+
+/**
+ * Plan frequency from metadata.frequency, else from the price's interval
+ */
+export function getPlanFrequency(subscription: Stripe.Subscription): RecurringFrequency | null {
+  const fromMetadata = subscription.metadata?.frequency?.toUpperCase()
+  if (fromMetadata === 'WEEKLY' || fromMetadata === 'BIWEEKLY' || fromMetadata === 'MONTHLY') {
+    return fromMetadata
+  }
+
+  const recurring = subscription.items?.data?.[0]?.price?.recurring
+  if (!recurring) return null
+
+  if (recurring.interval === 'week' && recurring.interval_count === 1) return 'WEEKLY'
+  if (recurring.interval === 'week' && recurring.interval_count === 2) return 'BIWEEKLY'
+  if (recurring.interval === 'month' && recurring.interval_count === 1) return 'MONTHLY'
+  return null
+}
+
+function getCustomerId(customer: string | Stripe.Customer | Stripe.DeletedCustomer): string {
+  return typeof customer === 'string' ? customer : customer.id
+}
+
+function toTimestamp(seconds: number | null | undefined): string | null {
+  return seconds ? new Date(seconds * 1000).toISOString() : null
+}
+
+/**
+ * Whether an event was sent before the one last applied to the plan. Events
+ * created in the same second are ordered by the billing period they carry.
+ */
+export function isStaleSubscriptionEvent(
+  plan: { stripe_event_created_at?: string | null; current_period_end?: string | null },
+  subscription: Stripe.Subscription,
+  eventCreated: number
+): boolean {
+  if (!plan.stripe_event_created_at) return false
+
+  const applied = new Date(plan.stripe_event_created_at).getTime()
+  const created = eventCreated * 1000
+  if (created !== applied) return created < applied
+
+  const periodEnd = toTimestamp(subscription.current_period_end)
+  return !!plan.current_period_end && !!periodEnd && new Date(periodEnd) < new Date(plan.current_period_end)
+}
+
+/**
+ * Billing columns for a plan from a Stripe subscription
+ */
+export function buildBillingUpdate(
+  subscription: Stripe.Subscription,
+  plan: { active: boolean; billing_status?: string | null } | null,
+  eventType: SubscriptionEventType,
+  eventCreated: number
+) {
+  // Deleted subscriptions arrive with their final status, but be explicit
+  const status = eventType === 'customer.subscription.deleted' ? 'canceled' : subscription.status
+
+  return {
+    stripe_subscription_id: subscription.id,
+    stripe_customer_id: getCustomerId(subscription.customer),
+    billing_status: status,
+    current_period_end: toTimestamp(subscription.current_period_end),
+    canceled_at: toTimestamp(subscription.canceled_at) || (status === 'canceled' ? new Date().toISOString() : null),
+    active: plan ? getNextPlanActive(plan, status) : isBillingStatusActive(status),
+    stripe_event_created_at: toTimestamp(eventCreated),
+  }
+}
+
+// ============================================
+// SYNC
+// ============================================
+
+async function findPlanForSubscription(
+  db: SupabaseClient,
+  subscription: Stripe.Subscription
+): Promise<RecurringPlan | null> {
+  const { data: linked } = await db
+    .from('subscriptions')
+    .select('*')
+    .eq('stripe_subscription_id', subscription.id)
+    .maybeSingle()
+
+  if (linked) return linked as RecurringPlan
+
+  const planId = subscription.metadata?.subscription_id
+  if (!planId) return null
+
+  const { data: plan } = await db
+    .from('subscriptions')
+    .select('*')
+    .eq('id', planId)
+    .maybeSingle()
+
+  return plan as RecurringPlan | null
+}
+
+/**
+ * Apply a customer.subscription.* event to the matching plan
+ *
+ * @param eventCreated - The event's `created` time (Unix seconds)
+ */
+export async function syncStripeSubscription(
+  db: SupabaseClient,
+  subscription: Stripe.Subscription,
+  eventType: SubscriptionEventType,
+  eventCreated: number
+): Promise<SubscriptionSyncResult> {
+  const plan = await findPlanForSubscription(db, subscription)
+
+  if (plan) {
+    if (isStaleSubscriptionEvent(plan, subscription, eventCreated)) {
+      return { action: 'ignored', plan_id: plan.id, reason: 'stale_event' }
+    }
+
+    const update = buildBillingUpdate(subscription, plan, eventType, eventCreated)
+
+    // Guarded so a newer event applied since the plan was read is kept
+    const { data: updated, error } = await db
+      .from('subscriptions')
+      .update(update)
+      .eq('id', plan.id)
+      .or(`stripe_event_created_at.is.null,stripe_event_created_at.lte.${update.stripe_event_created_at}`)
+      .select('id')
+    if (error) throw error
+
+    if (!updated || updated.length === 0) {
+      return { action: 'ignored', plan_id: plan.id, reason: 'stale_event' }
+    }
+
+    if (plan.billing_status !== update.billing_status) {
+      await db.from('audit_logs').insert({
+        actor_role: 'system',
+        action: `subscription.${update.billing_status}`,
+        entity_type: 'subscription',
+        entity_id: plan.id,
+        changes: {
+          stripe_subscription_id: subscription.id,
+          from: plan.billing_status || null,
+          to: update.billing_status,
+          active: update.active,
+        },
+      })
+    }
+
+    return { action: 'updated', plan_id: plan.id }
+  }
+
+  // Only subscriptions that start in Stripe create plans
+  if (eventType !== 'customer.subscription.created') {
+    return { action: 'ignored', reason: 'no_plan' }
+  }
+
+  const customerId = getCustomerId(subscription.customer)
+  const { data: profile } = await db
+    .from('profiles')
+    .select('id')
+    .eq('stripe_customer_id', customerId)
+    .maybeSingle()
+
+  if (!profile) {
+    return { action: 'ignored', reason: 'unknown_customer' }
+  }
+
+  const frequency = getPlanFrequency(subscription)
+  if (!frequency) {
+    return { action: 'ignored', reason: 'unsupported_interval' }
+  }
+
+  const discounts = await getFrequencyDiscountRates(db)
+
+  const { data: created, error } = await db
+    .from('subscriptions')
+    .insert({
+      user_id: profile.id,
+      service_type: subscription.metadata?.service_type || 'CLEANING',
+      frequency,
+      discount_pct: discounts[toQuoteFrequency(frequency)],
+      visits_completed: 0,
+      default_addons: {},
+      first_visit_deep: false,
+      next_date: null, // First visit is booked by the customer
+      ...buildBillingUpdate(subscription, null, eventType, eventCreated),
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+
+  return { action: 'created', plan_id: created.id }
+}
+
+// ============================================
+// RENEWALS
+// ============================================
+
+async function findPlanForInvoice(db: SupabaseClient, invoice: Stripe.Invoice): Promise<RecurringPlan | null> {
+  const subscriptionId = typeof invoice.subscription === 'string' ? invoice.subscription : invoice.subscription?.id
+  if (!subscriptionId) return null
+
+  const { data: plan } = await db
+    .from('subscriptions')
+    .select('*')
+    .eq('stripe_subscription_id', subscriptionId)
+    .maybeSingle()
+
+  return plan as RecurringPlan | null
+}
+
+/**
+ * invoice.payment_failed for a subscription renewal: queue a retry and ask the
+ * customer to update their card. Stripe sends the matching past_due status
+ * through customer.subscription.updated.
+ */
+export async function recordRenewalFailure(
+  db: SupabaseClient,
+  invoice: Stripe.Invoice
+): Promise<{ plan_id: string } | null> {
+  const plan = await findPlanForInvoice(db, invoice)
+  if (!plan) return null
+
+  const paymentIntent = typeof invoice.payment_intent === 'object' ? invoice.payment_intent : null
+  const lastError = paymentIntent?.last_payment_error
+
+  // The retry is tied to the visit it pays for, when one is booked
+  const upcoming = await getUpcomingRecurringVisit(db, plan.id)
+
+  await recordPaymentRetry(db, {
+    orderId: upcoming?.id,
+    subscriptionId: plan.id,
+    invoiceId: invoice.id,
+    error: {
+      message: lastError?.message || 'Subscription renewal payment failed',
+      code: lastError?.code || lastError?.decline_code || null,
+    },
+    retryAt: invoice.next_payment_attempt ? new Date(invoice.next_payment_attempt * 1000) : undefined,
+  })
+
+  const amount = `$${(invoice.amount_due / 100).toFixed(2)}`
+  const payUrl = invoice.hosted_invoice_url || `${process.env.NEXT_PUBLIC_BASE_URL}/orders/recurring/${plan.id}`
+
+  await notifyCustomer({
+    event: 'payment_requested',
+    userId: plan.user_id,
+    orderId: upcoming?.id,
+    title: 'Subscription payment failed',
+    message: `We couldn't charge ${amount} for your recurring cleaning plan. Update your card to keep your visits booked: ${payUrl}`,
+  })
+
+  return { plan_id: plan.id }
+}
+
+/**
+ * invoice.paid for a subscription: close the plan's open renewal retries
+ */
+export async function resolveRenewalRetries(
+  db: SupabaseClient,
+  invoice: Stripe.Invoice
+): Promise<{ plan_id: string } | null> {
+  const plan = await findPlanForInvoice(db, invoice)
+  if (!plan) return null
+
+  await db
+    .from('payment_retry_log')
+    .update({ resolved_at: new Date().toISOString() })
+    .eq('subscription_id', plan.id)
+    .not('stripe_invoice_id', 'is', null)
+    .is('resolved_at', null)
+
+  return { plan_id: plan.id }
+}
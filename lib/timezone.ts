@@ -345,3 +345,11 @@ export function formatDateOnly(
   const [y, m, d] = dateStr.split('-').map(Number);
   return new Date(y, m - 1, d).toLocaleDateString('en-US', options);
 }
+
+/**
+ * Calendar date (YYYY-MM-DD) of a timestamp in New York
+ */
+export function toNYDateString(timestamp: string | Date): string {
+  const date = typeof timestamp === 'string' ? new Date(timestamp) : timestamp;
+  return date.toLocaleDateString('en-CA', { timeZone: NY_TIMEZONE });
+}
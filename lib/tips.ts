@@ -0,0 +1,322 @@
+/**
+ * Tips
+ *
+ * Gratuity added after a cleaning is completed or laundry is delivered,
+ * from the order page or the rating request.
+ *
+ * - The customer picks a preset percent of the pre-tax order price or enters
+ *   a custom amount
+ * - The tip is charged off-session to the payment method the order already
+ *   saved, as its own PaymentIntent through the Stripe circuit breaker
+ * - It is recorded in order_tips, outside the order total and never taxed,
+ *   and the partner receives it in full with their next payout
+ *
+ * @module lib/tips
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type Stripe from 'stripe'
+import { z } from 'zod'
+import { AppError, ConflictError, ValidationError } from './errors'
+import { classifyPaymentError } from './payment-errors'
+import { getOrderRevenueCents } from './payouts'
+import { executeWithCircuitBreaker } from './stripe-circuit-breaker'
+import { formatOrderId } from './ids'
+
+// ============================================
+// TYPES
+// ============================================
+
+export type TipStatus = 'pending' | 'succeeded' | 'failed'
+
+export type TipSource = 'order_page' | 'rating'
+
+export interface OrderTip {
+  id: string
+  order_id: string
+  partner_id: string
+  user_id: string
+  amount_cents: number
+  percent: number | null
+  source: TipSource
+  status: TipStatus
+  payment_intent_id: string | null
+  receipt_url: string | null
+  failure_reason: string | null
+  payout_id: string | null
+  charged_at: string | null
+  created_at: string
+}
+
+export interface TippableOrder {
+  id: string
+  user_id: string | null
+  partner_id: string | null
+  status: string
+  quote_cents?: number | null
+  total_cents?: number | null
+  tax_cents?: number | null
+  saved_payment_method_id?: string | null
+  stripe_customer_id?: string | null
+  completed_at?: string | null
+  delivered_at?: string | null // From the delivered status event; see getDeliveredAt
+}
+
+export interface TipPreset {
+  percent: number
+  amount_cents: number
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const TIP_PRESET_PERCENTS = [15, 20, 25]
+
+export const MIN_TIP_CENTS = 100
+
+export const MAX_TIP_CENTS = 50000
+
+/**
+ * Order statuses a tip can be added from
+ */
+export const TIPPABLE_ORDER_STATUSES = ['completed', 'delivered']
+
+/**
+ * How long after completion a customer can still tip
+ */
+export const TIP_WINDOW_DAYS = 14
+
+// ============================================
+// VALIDATION SCHEMAS
+// ============================================
+
+export const createTipSchema = z
+  .object({
+    percent: z.number().int().min(1).max(100).optional(),
+    amount_cents: z.number().int().min(MIN_TIP_CENTS).max(MAX_TIP_CENTS).optional(),
+    source: z.enum(['order_page', 'rating']).default('order_page'),
+  })
+  .refine((input) => (input.percent === undefined) !== (input.amount_cents === undefined), {
+    message: 'Choose a tip percentage or enter an amount',
+  })
+
+export type CreateTipInput = z.infer<typeof createTipSchema>
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+/**
+ * Percent tips apply to the pre-tax price the customer paid
+ */
+export function calculateTipCents(order: TippableOrder, percent: number): number {
+  return Math.round((getOrderRevenueCents(order) * percent) / 100)
+}
+
+export function getTipPresets(order: TippableOrder): TipPreset[] {
+  return TIP_PRESET_PERCENTS.map((percent) => ({ percent, amount_cents: calculateTipCents(order, percent) }))
+}
+
+/**
+ * Check whether a tip can be charged for an order
+ *
+ * The window runs from completed_at or the delivered status event; an order
+ * with neither can't be tipped.
+ */
+export function canTipOrder(order: TippableOrder, now: Date = new Date()): boolean {
+  if (!TIPPABLE_ORDER_STATUSES.includes(order.status)) return false
+  if (!order.partner_id || !order.saved_payment_method_id || !order.stripe_customer_id) return false
+
+  const completedAt = order.completed_at || order.delivered_at
+  if (!completedAt) return false
+
+  const ageMs = now.getTime() - new Date(completedAt).getTime()
+  return ageMs <= TIP_WINDOW_DAYS * 24 * 60 * 60 * 1000
+}
+
+// ============================================
+// DATABASE OPERATIONS
+// ============================================
+
+/**
+ * When the order was first marked delivered
+ *
+ * Laundry orders have no completed_at; the move to delivered is only in
+ * order_events, as a state machine column or a status update payload.
+ */
+export async function getDeliveredAt(db: SupabaseClient, orderId: string): Promise<string | null> {
+  const { data: events, error } = await db
+    .from('order_events')
+    .select('*')
+    .eq('order_id', orderId)
+
+  if (error) throw error
+
+  const deliveredAt = (events || [])
+    .filter((event) => (event.new_status ?? event.payload_json?.new_status) === 'delivered')
+    .map((event) => event.ts || event.created_at)
+    .filter(Boolean)
+    .sort()
+  return deliveredAt[0] || null
+}
+
+/**
+ * The order's tip, if one was charged or is being charged
+ */
+export async function getOrderTip(db: SupabaseClient, orderId: string): Promise<OrderTip | null> {
+  const { data, error } = await db
+    .from('order_tips')
+    .select('*')
+    .eq('order_id', orderId)
+    .neq('status', 'failed')
+    .maybeSingle()
+
+  if (error) throw error
+  return data
+}
+
+/**
+ * Stripe errors that mean the tip was not charged. Anything else (connection
+ * errors, timeouts, Stripe API errors) may have left a confirmed
+ * PaymentIntent behind.
+ */
+function isDefinitivePaymentFailure(error: any): boolean {
+  return error?.type === 'StripeCardError' || error?.type === 'StripeInvalidRequestError'
+}
+
+/**
+ * Charge a tip to the order's saved payment method
+ *
+ * The pending row is written first so a double submit hits the one-tip-per-
+ * order index instead of charging twice; its id is the Stripe idempotency
+ * key. A declined card marks the tip failed so the customer can retry. Any
+ * other error leaves it pending, and the customer's retry charges that same
+ * tip again under the same key, so Stripe returns the first PaymentIntent
+ * instead of charging twice.
+ */
+export async function chargeTip(
+  db: SupabaseClient,
+  order: TippableOrder,
+  input: CreateTipInput,
+  userId: string
+): Promise<OrderTip> {
+  if (!canTipOrder(order)) {
+    throw new ValidationError(
+      `Tips can be added within ${TIP_WINDOW_DAYS} days of completion when a card is saved on the order`,
+      'TIP_NOT_ALLOWED'
+    )
+  }
+
+  const amountCents = input.amount_cents ?? calculateTipCents(order, input.percent!)
+  if (amountCents < MIN_TIP_CENTS || amountCents > MAX_TIP_CENTS) {
+    throw new ValidationError(
+      `Tips must be between $${MIN_TIP_CENTS / 100} and $${MAX_TIP_CENTS / 100}`,
+      'INVALID_TIP_AMOUNT'
+    )
+  }
+
+  const { data: inserted, error: insertError } = await db
+    .from('order_tips')
+    .insert({
+      order_id: order.id,
+      partner_id: order.partner_id,
+      user_id: userId,
+      amount_cents: amountCents,
+      percent: input.amount_cents === undefined ? input.percent : null,
+      source: input.source,
+      status: 'pending',
+    })
+    .select()
+    .single()
+
+  let tip: OrderTip = inserted
+  if (insertError) {
+    // Unique index on order_id for non-failed tips
+    if (insertError.code !== '23505') throw insertError
+
+    const existing = await getOrderTip(db, order.id)
+    if (existing?.status !== 'pending' || existing.user_id !== userId) {
+      throw new ConflictError('A tip was already added to this order', 'TIP_EXISTS')
+    }
+    // An earlier attempt's outcome was unknown: charge the same tip again
+    tip = existing
+  }
+
+  let paymentIntent: Stripe.PaymentIntent
+  try {
+    const Stripe = (await import('stripe')).default
+    const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+      apiVersion: '2023-10-16'
+    })
+
+    paymentIntent = await executeWithCircuitBreaker(
+      () =>
+        stripe.paymentIntents.create(
+          {
+            amount: tip.amount_cents,
+            currency: 'usd',
+            customer: order.stripe_customer_id!,
+            payment_method: order.saved_payment_method_id!,
+            confirm: true,
+            off_session: true,
+            description: `Tip for order ${formatOrderId(order.id)}`,
+            expand: ['latest_charge'],
+            metadata: {
+              order_id: order.id,
+              tip_id: tip.id,
+              type: 'tip',
+            },
+          },
+          { idempotencyKey: `tip:${tip.id}` }
+        ),
+      true
+    )
+  } catch (error) {
+    const classified = classifyPaymentError(error)
+    if (!isDefinitivePaymentFailure(error)) {
+      throw new AppError(
+        "We couldn't confirm your tip. Please try again; you won't be charged twice.",
+        502,
+        'TIP_PAYMENT_PENDING'
+      )
+    }
+
+    await db
+      .from('order_tips')
+      .update({ status: 'failed', failure_reason: classified.message })
+      .eq('id', tip.id)
+      .eq('status', 'pending')
+
+    throw new AppError(classified.userMessage, 402, 'TIP_PAYMENT_FAILED')
+  }
+
+  const charge = paymentIntent.latest_charge as Stripe.Charge | string | null
+  const { data: charged, error: updateError } = await db
+    .from('order_tips')
+    .update({
+      status: 'succeeded',
+      payment_intent_id: paymentIntent.id,
+      receipt_url: charge && typeof charge === 'object' ? charge.receipt_url : null,
+      charged_at: new Date().toISOString(),
+    })
+    .eq('id', tip.id)
+    .select()
+    .single()
+
+  if (updateError) throw updateError
+
+  await db.from('order_events').insert({
+    order_id: order.id,
+    actor: userId,
+    actor_role: 'customer',
+    event_type: 'tip_charged',
+    payload_json: {
+      tip_id: tip.id,
+      amount_cents: tip.amount_cents,
+      payment_intent_id: paymentIntent.id,
+    },
+  })
+
+  return charged
+}
@@ -58,12 +58,6 @@ export interface RecurringPlan {
   created_at: string;
 }
 
-export const RECURRING_DISCOUNT: Record<Exclude<Frequency, 'oneTime'>, number> = {
-  weekly: 0.20,
-  biweekly: 0.15,
-  monthly: 0.10,
-};
-
 export interface CleaningAddon {
   key: CleaningAddonKey;
   label: string;
@@ -88,6 +82,7 @@ export interface EstimateResult {
     label: string;
     amount: number;
   }>;
+  promoMessage?: string; // Why the promo code was not applied
 }
 
 export interface Slot {
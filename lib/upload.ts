@@ -1,4 +1,804 @@
+/**
+ * Photo Uploads
+ *
+ * Order photos uploaded through /api/upload, one storage folder per order and
+ * purpose ({orderId}/{purpose}/{file}):
+ * - bag: laundry bag photos, stored in bags.photos_json (partner, admin)
+ * - checklist: cleaning room photos, stored in cleaning_checklist
+ *   before_photos_json / after_photos_json (partner, admin)
+ * - dispute: customer evidence, stored in orders.dispute_evidence_json
+ * - claim: claim evidence, stored in claims.evidence_json when the claim
+ *   exists, otherwise returned for the claim form to submit
+ *
+ * Files go straight to storage: POST /api/upload checks access and the
+ * per-target limit and returns a signed upload URL for a fresh path, the
+ * client PUTs the file there, and POST /api/upload/complete sniffs its real
+ * image type, checks its size, strips EXIF GPS and XMP metadata in place and
+ * appends it to its target (append_order_photo, migrations 063 and 067).
+ * Completing the same path again returns the recorded photo. Files that fail
+ * the checks are deleted, and paths that are never completed are removed by
+ * the operations cron (sweepPendingUploads). The order-photos bucket is
+ * private: stored URLs point back at /api/upload/{path}, which checks access
+ * to the order and redirects to a short-lived signed URL. Thumbnails are
+ * rendered by Storage image transformations (?thumbnail=1) rather than stored
+ * as separate files.
+ *
+ * @module lib/upload
+ */
+
+import { z } from 'zod'
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { getServiceClient } from './db'
+import { ForbiddenError, NotFoundError, ValidationError } from './errors'
+
+// ============================================
+// TYPES
+// ============================================
+
+export type UploadPurpose = 'bag' | 'checklist' | 'dispute' | 'claim'
+
+export type UploadActorRole = 'customer' | 'partner' | 'admin'
+
+export type ImageContentType = 'image/jpeg' | 'image/png' | 'image/webp'
+
+export interface UploadedPhoto {
+  path: string
+  url: string
+  thumbnail_url: string
+  content_type: ImageContentType
+  size_bytes: number
+  uploaded_by: string
+  uploaded_at: string
+}
+
+export interface PendingUpload {
+  path: string
+  upload_url: string
+}
+
+export interface UploadTarget {
+  purpose: UploadPurpose
+  orderId: string
+  bagId?: string
+  checklistId?: string
+  stage?: 'before' | 'after'
+  claimId?: string
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const UPLOAD_BUCKET = 'order-photos'
+
+/**
+ * Matches the limit shown in the dispute form
+ */
+export const MAX_UPLOAD_BYTES = 5 * 1024 * 1024
+
+export const SIGNED_URL_TTL_SECONDS = 300 // 5 minutes
+
+export const THUMBNAIL_SIZE = 320
+
+/**
+ * Uploads not completed by then are swept; signed upload URLs last two hours
+ */
+export const PENDING_UPLOAD_TTL_MS = 3 * 60 * 60 * 1000
+
+/**
+ * Who may upload for each purpose, and how many photos a target holds
+ */
+export const UPLOAD_PURPOSES: Record<UploadPurpose, { roles: UploadActorRole[]; maxPhotos: number }> = {
+  bag: { roles: ['partner', 'admin'], maxPhotos: 10 },
+  checklist: { roles: ['partner', 'admin'], maxPhotos: 10 },
+  dispute: { roles: ['customer', 'admin'], maxPhotos: 5 },
+  claim: { roles: ['customer', 'admin'], maxPhotos: 10 },
+}
+
+const FILE_EXTENSIONS: Record<ImageContentType, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+}
+
+// ============================================
+// VALIDATION SCHEMAS
+// ============================================
+
+const uploadTargetSchema = z.object({
+  order_id: z.string().uuid(),
+  purpose: z.enum(['bag', 'checklist', 'dispute', 'claim']).default('dispute'),
+  bag_id: z.string().uuid().optional(),
+  checklist_id: z.string().uuid().optional(),
+  stage: z.enum(['before', 'after']).optional(),
+  claim_id: z.string().uuid().optional(),
+})
+
+function checkTargetFields(data: z.infer<typeof uploadTargetSchema>, ctx: z.RefinementCtx) {
+  if (data.purpose === 'bag' && !data.bag_id) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['bag_id'], message: 'bag_id is required for bag photos' })
+  }
+  if (data.purpose === 'checklist' && !(data.checklist_id && data.stage)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['checklist_id'],
+      message: 'checklist_id and stage are required for checklist photos',
+    })
+  }
+}
+
+/**
+ * POST /api/upload: the file is described, not sent; the stored file is
+ * checked again on completion
+ */
+export const uploadRequestSchema = uploadTargetSchema
+  .extend({
+    filename: z.string().trim().min(1).max(255).default('photo'),
+    content_type: z.enum(['image/jpeg', 'image/png', 'image/webp'], {
+      errorMap: () => ({ message: 'Only JPEG, PNG and WebP images are allowed' }),
+    }),
+    size_bytes: z.number().int().positive().max(MAX_UPLOAD_BYTES, `File is larger than ${MAX_UPLOAD_BYTES / (1024 * 1024)}MB`),
+  })
+  .superRefine(checkTargetFields)
+
+export type UploadRequestInput = z.infer<typeof uploadRequestSchema>
+
+/**
+ * POST /api/upload/complete: the path issued with the upload URL
+ */
+export const uploadCompleteSchema = uploadTargetSchema
+  .extend({
+    path: z.string().min(1),
+  })
+  .superRefine(checkTargetFields)
+
+export type UploadCompleteInput = z.infer<typeof uploadCompleteSchema>
+
+export function toUploadTarget(input: z.infer<typeof uploadTargetSchema>): UploadTarget {
+  return {
+    purpose: input.purpose,
+    orderId: input.order_id,
+    bagId: input.bag_id,
+    checklistId: input.checklist_id,
+    stage: input.stage,
+    claimId: input.claim_id,
+  }
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+function hasBytes(bytes: Uint8Array, offset: number, expected: number[] | string): boolean {
+  const values = typeof expected === 'string' ? Array.from(expected, (c) => c.charCodeAt(0)) : expected
+  if (offset + values.length > bytes.length) return false
+  return values.every((value, i) => bytes[offset + i] === value)
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    result.set(part, offset)
+    offset += part.length
+  }
+  return result
+}
+
+/**
+ * Image type from the file's magic bytes; the declared MIME type isn't trusted
+ */
+export function detectImageType(bytes: Uint8Array): ImageContentType | null {
+  if (hasBytes(bytes, 0, [0xff, 0xd8, 0xff])) return 'image/jpeg'
+  if (hasBytes(bytes, 0, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png'
+  if (hasBytes(bytes, 0, 'RIFF') && hasBytes(bytes, 8, 'WEBP')) return 'image/webp'
+  return null
+}
+
+/**
+ * Check size and type, returning the sniffed content type
+ */
+export function validateImage(bytes: Uint8Array): ImageContentType {
+  if (bytes.length === 0) {
+    throw new ValidationError('File is empty', 'EMPTY_FILE')
+  }
+  if (bytes.length > MAX_UPLOAD_BYTES) {
+    throw new ValidationError(`File is larger than ${MAX_UPLOAD_BYTES / (1024 * 1024)}MB`, 'FILE_TOO_LARGE')
+  }
+
+  const contentType = detectImageType(bytes)
+  if (!contentType) {
+    throw new ValidationError('Only JPEG, PNG and WebP images are allowed', 'UNSUPPORTED_FILE_TYPE')
+  }
+  return contentType
+}
+
+/**
+ * Generate a unique file path for photo uploads
+ */
+export function generatePhotoPath(
+  orderId: string,
+  type: UploadPurpose,
+  filename: string,
+  contentType?: ImageContentType
+): string {
+  const timestamp = Date.now()
+  // Same-named files uploaded in the same millisecond mustn't collide
+  const nonce = Math.random().toString(36).slice(2, 8)
+  let sanitizedFilename = filename.replace(/[^a-zA-Z0-9.-]/g, '_')
+  if (contentType) {
+    // Name the file after what it is, not what the client called it
+    sanitizedFilename = `${sanitizedFilename.replace(/\.[^.]*$/, '') || 'photo'}.${FILE_EXTENSIONS[contentType]}`
+  }
+  return `${orderId}/${type}/${timestamp}-${nonce}-${sanitizedFilename}`
+}
+
+/**
+ * Stable URL for a stored photo; /api/upload/{path} signs it on each request
+ */
+export function getPhotoUrl(baseUrl: string, path: string, thumbnail: boolean = false): string {
+  return `${baseUrl}/api/upload/${path}${thumbnail ? '?thumbnail=1' : ''}`
+}
+
+/**
+ * Order and purpose from a stored photo path, or null if it isn't one
+ */
+export function parsePhotoPath(path: string): { orderId: string; purpose: UploadPurpose } | null {
+  const [orderId, purpose, filename, ...rest] = path.split('/')
+  if (!orderId || !filename || rest.length > 0) return null
+  if (!z.string().uuid().safeParse(orderId).success) return null
+  if (!Object.keys(UPLOAD_PURPOSES).includes(purpose)) return null
+  return { orderId, purpose: purpose as UploadPurpose }
+}
+
+// ============================================
+// LOCATION METADATA
+// ============================================
+
+const EXIF_HEADER = 'Exif\0\0'
+const XMP_JPEG_HEADER = 'http://ns.adobe.com/xap/1.0/'
+const XMP_PNG_KEYWORD = 'XML:com.adobe.xmp'
+const GPS_IFD_TAG = 0x8825
+
+// Bytes per value for each TIFF field type
+const TIFF_TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 }
+
+/**
+ * Zero the GPS IFD of an EXIF block in place, keeping every other tag
+ * (orientation, capture time) intact so the image still displays upright
+ */
+function clearExifGps(segment: Uint8Array, tiffStart: number): void {
+  const view = new DataView(segment.buffer, segment.byteOffset, segment.byteLength)
+  const length = segment.length
+  if (tiffStart + 8 > length) return
+
+  const byteOrder = view.getUint16(tiffStart)
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return
+  const littleEndian = byteOrder === 0x4949
+
+  const ifd0 = tiffStart + view.getUint32(tiffStart + 4, littleEndian)
+  if (ifd0 + 2 > length) return
+
+  const entryCount = view.getUint16(ifd0, littleEndian)
+  for (let i = 0; i < entryCount; i++) {
+    const entry = ifd0 + 2 + i * 12
+    if (entry + 12 > length) return
+    if (view.getUint16(entry, littleEndian) !== GPS_IFD_TAG) continue
+
+    const gpsIfd = tiffStart + view.getUint32(entry + 8, littleEndian)
+    if (gpsIfd + 2 > length) return
+
+    const gpsCount = view.getUint16(gpsIfd, littleEndian)
+    for (let j = 0; j < gpsCount; j++) {
+      const gpsEntry = gpsIfd + 2 + j * 12
+      if (gpsEntry + 12 > length) break
+
+      const size = (TIFF_TYPE_SIZES[view.getUint16(gpsEntry + 2, littleEndian)] || 1) *
+        view.getUint32(gpsEntry + 4, littleEndian)
+      if (size > 4) {
+        // Values that don't fit in the entry live elsewhere in the block
+        const valueStart = tiffStart + view.getUint32(gpsEntry + 8, littleEndian)
+        segment.fill(0, Math.min(valueStart, length), Math.min(valueStart + size, length))
+      }
+    }
+
+    // An empty IFD with no next IFD
+    segment.fill(0, gpsIfd, Math.min(gpsIfd + 2 + gpsCount * 12 + 4, length))
+  }
+}
+
+function stripJpegLocation(bytes: Uint8Array): Uint8Array {
+  const parts: Uint8Array[] = [bytes.subarray(0, 2)]
+  let offset = 2
+
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1]
+    // Image data starts at SOS; nothing after it is metadata
+    if (marker === 0xda || marker === 0xd9) break
+
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3])
+    if (end > bytes.length) break
+
+    const segment = bytes.slice(offset, end)
+    if (marker === 0xe1 && hasBytes(segment, 4, EXIF_HEADER)) {
+      clearExifGps(segment, 4 + EXIF_HEADER.length)
+      parts.push(segment)
+    } else if (!(marker === 0xe1 && hasBytes(segment, 4, XMP_JPEG_HEADER))) {
+      // XMP can carry its own GPS fields, so it's dropped whole
+      parts.push(segment)
+    }
+    offset = end
+  }
+
+  parts.push(bytes.subarray(offset))
+  return concatBytes(parts)
+}
+
+function stripPngLocation(bytes: Uint8Array): Uint8Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)]
+  let offset = 8
+
+  while (offset + 12 <= bytes.length) {
+    const end = offset + 12 + view.getUint32(offset)
+    if (end > bytes.length) break
+
+    const isExif = hasBytes(bytes, offset + 4, 'eXIf')
+    const isXmp = hasBytes(bytes, offset + 4, 'iTXt') && hasBytes(bytes, offset + 8, XMP_PNG_KEYWORD)
+    if (!isExif && !isXmp) parts.push(bytes.subarray(offset, end))
+    offset = end
+  }
+
+  parts.push(bytes.subarray(offset))
+  return concatBytes(parts)
+}
+
+function stripWebpLocation(bytes: Uint8Array): Uint8Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const parts: Uint8Array[] = [bytes.slice(0, 12)]
+  let offset = 12
+
+  while (offset + 8 <= bytes.length) {
+    const size = view.getUint32(offset + 4, true)
+    const end = Math.min(offset + 8 + size + (size % 2), bytes.length)
+
+    if (hasBytes(bytes, offset, 'VP8X')) {
+      const chunk = bytes.slice(offset, end)
+      // Clear the EXIF (0x08) and XMP (0x04) presence flags
+      if (chunk.length > 8) chunk[8] &= ~0x0c
+      parts.push(chunk)
+    } else if (!hasBytes(bytes, offset, 'EXIF') && !hasBytes(bytes, offset, 'XMP ')) {
+      parts.push(bytes.subarray(offset, end))
+    }
+    offset = end
+  }
+
+  const result = concatBytes(parts)
+  new DataView(result.buffer).setUint32(4, result.length - 8, true)
+  return result
+}
+
+/**
+ * Remove location metadata: the EXIF GPS block and XMP packets. The pixel
+ * data is passed through untouched.
+ */
+export function stripLocationMetadata(bytes: Uint8Array, contentType: ImageContentType): Uint8Array {
+  switch (contentType) {
+    case 'image/jpeg':
+      return stripJpegLocation(bytes)
+    case 'image/png':
+      return stripPngLocation(bytes)
+    case 'image/webp':
+      return stripWebpLocation(bytes)
+  }
+}
+
+// ============================================
+// STORAGE
+// ============================================
+
+export interface UploadStorage {
+  /** URL the client PUTs a new file to */
+  createSignedUploadUrl(path: string): Promise<string>
+  download(path: string): Promise<Uint8Array>
+  /** Write or replace a file */
+  upload(path: string, body: Uint8Array, contentType: string): Promise<void>
+  createSignedUrl(path: string, expiresIn: number, options?: { thumbnail?: boolean }): Promise<string>
+  remove(paths: string[]): Promise<void>
+}
+
+/**
+ * Private Supabase Storage bucket (see migration 049)
+ */
+export class SupabaseUploadStorage implements UploadStorage {
+  constructor(private bucket: string = UPLOAD_BUCKET) {}
+
+  async createSignedUploadUrl(path: string): Promise<string> {
+    return getUploadSignedUrl(this.bucket, path)
+  }
+
+  async download(path: string): Promise<Uint8Array> {
+    const db = getServiceClient()
+    const { data, error } = await db.storage.from(this.bucket).download(path)
+    if (error || !data) {
+      throw new NotFoundError('Photo not found')
+    }
+    return new Uint8Array(await data.arrayBuffer())
+  }
+
+  async upload(path: string, body: Uint8Array, contentType: string): Promise<void> {
+    const db = getServiceClient()
+    const { error } = await db.storage.from(this.bucket).upload(path, body, { contentType, upsert: true })
+    if (error) {
+      throw new Error(`Failed to upload photo: ${error.message}`)
+    }
+  }
+
+  async createSignedUrl(path: string, expiresIn: number, options: { thumbnail?: boolean } = {}): Promise<string> {
+    const db = getServiceClient()
+    const { data, error } = await db.storage.from(this.bucket).createSignedUrl(path, expiresIn, {
+      transform: options.thumbnail
+        ? { width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE, resize: 'cover' }
+        : undefined,
+    })
+    if (error || !data) {
+      throw new NotFoundError('Photo not found')
+    }
+    return data.signedUrl
+  }
+
+  async remove(paths: string[]): Promise<void> {
+    const db = getServiceClient()
+    const { error } = await db.storage.from(this.bucket).remove(paths)
+    if (error) {
+      throw new Error(`Failed to delete photo: ${error.message}`)
+    }
+  }
+}
+
+/**
+ * Process-local stand-in for tests. Its upload URLs aren't reachable from a
+ * browser; tests write the client's file with upload().
+ */
+export class MemoryUploadStorage implements UploadStorage {
+  readonly files = new Map<string, { body: Uint8Array; contentType: string }>()
+
+  async createSignedUploadUrl(path: string): Promise<string> {
+    return `memory://${UPLOAD_BUCKET}/upload/${path}`
+  }
+
+  async download(path: string): Promise<Uint8Array> {
+    const file = this.files.get(path)
+    if (!file) {
+      throw new NotFoundError('Photo not found')
+    }
+    return file.body
+  }
+
+  async upload(path: string, body: Uint8Array, contentType: string): Promise<void> {
+    this.files.set(path, { body, contentType })
+  }
+
+  async createSignedUrl(path: string, expiresIn: number, options: { thumbnail?: boolean } = {}): Promise<string> {
+    if (!this.files.has(path)) {
+      throw new NotFoundError('Photo not found')
+    }
+    const thumbnail = options.thumbnail ? `&width=${THUMBNAIL_SIZE}&height=${THUMBNAIL_SIZE}` : ''
+    return `memory://${UPLOAD_BUCKET}/${path}?expires_in=${expiresIn}${thumbnail}`
+  }
+
+  async remove(paths: string[]): Promise<void> {
+    paths.forEach((path) => this.files.delete(path))
+  }
+}
+
+let storage: UploadStorage | null = null
+
+/**
+ * Storage used by the upload routes; Supabase unless UPLOAD_STORAGE=memory or under test
+ */
+export function getUploadStorage(): UploadStorage {
+  if (!storage) {
+    const useMemory = process.env.UPLOAD_STORAGE === 'memory' || process.env.NODE_ENV === 'test'
+    storage = useMemory ? new MemoryUploadStorage() : new SupabaseUploadStorage()
+  }
+  return storage
+}
+
+export function setUploadStorage(next: UploadStorage | null): void {
+  storage = next
+}
+
+// ============================================
+// ACCESS
+// ============================================
+
+/**
+ * How a user relates to an order, or null when they have no access to it
+ */
+export async function getOrderUploadRole(
+  db: SupabaseClient,
+  user: { id: string; email?: string; role: string },
+  order: { user_id: string | null; partner_id: string | null }
+): Promise<UploadActorRole | null> {
+  if (user.role === 'admin') return 'admin'
+  if (order.user_id === user.id) return 'customer'
+  if (user.role !== 'partner' || !order.partner_id) return null
+
+  const { data: partner } = await db
+    .from('partners')
+    .select('id')
+    .or(`profile_id.eq.${user.id},contact_email.eq.${user.email}`)
+    .maybeSingle()
+
+  return partner?.id === order.partner_id ? 'partner' : null
+}
+
+export function canUploadFor(role: UploadActorRole | null, purpose: UploadPurpose): boolean {
+  return role !== null && UPLOAD_PURPOSES[purpose].roles.includes(role)
+}
+
+/**
+ * @throws NotFoundError if the order doesn't exist
+ * @throws ForbiddenError if the user can't upload this purpose for the order
+ */
+export async function assertCanUpload(
+  db: SupabaseClient,
+  user: { id: string; email?: string; role: string },
+  target: UploadTarget
+): Promise<void> {
+  const { data: order, error } = await db
+    .from('orders')
+    .select('id, user_id, partner_id')
+    .eq('id', target.orderId)
+    .single()
+
+  if (error || !order) {
+    throw new NotFoundError('Order not found')
+  }
+
+  const role = await getOrderUploadRole(db, user, order)
+  if (!canUploadFor(role, target.purpose)) {
+    throw new ForbiddenError(`You can't upload ${target.purpose} photos for this order`)
+  }
+}
+
+// ============================================
+// RECORDING
+// ============================================
+
+function targetNotFound(target: UploadTarget): NotFoundError {
+  return new NotFoundError(`${target.purpose === 'checklist' ? 'Checklist room' : target.purpose} not found for this order`)
+}
+
+function photoLimitReached(target: UploadTarget): ValidationError {
+  return new ValidationError(`At most ${UPLOAD_PURPOSES[target.purpose].maxPhotos} photos are allowed`, 'PHOTO_LIMIT_REACHED')
+}
+
+/**
+ * The row a photo is recorded on, or null for claim evidence uploaded
+ * before the claim is filed
+ */
+function getTargetId(target: UploadTarget): string | null {
+  return {
+    bag: target.bagId,
+    checklist: target.checklistId,
+    dispute: target.orderId,
+    claim: target.claimId,
+  }[target.purpose] || null
+}
+
+/**
+ * Photos recorded on the target, or null if it isn't on the order
+ */
+async function loadTargetPhotos(db: SupabaseClient, target: UploadTarget, id: string): Promise<unknown[] | null> {
+  const { table, column } = {
+    bag: { table: 'bags', column: 'photos_json' },
+    checklist: { table: 'cleaning_checklist', column: `${target.stage}_photos_json` },
+    dispute: { table: 'orders', column: 'dispute_evidence_json' },
+    claim: { table: 'claims', column: 'evidence_json' },
+  }[target.purpose]
+
+  const { data, error } = await db
+    .from(table)
+    .select(`id, ${column}`)
+    .eq('id', id)
+    .eq(table === 'orders' ? 'id' : 'order_id', target.orderId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) return null
+
+  return ((data as unknown as Record<string, unknown>)[column] as unknown[] | null) || []
+}
+
+/**
+ * Check the target exists on the order and has room, before a URL is issued.
+ * The append re-checks the limit, since other uploads may finish first.
+ */
+async function checkTarget(db: SupabaseClient, target: UploadTarget): Promise<void> {
+  const id = getTargetId(target)
+  if (!id) return
+
+  const photos = await loadTargetPhotos(db, target, id)
+  if (!photos) throw targetNotFound(target)
+
+  if (photos.length >= UPLOAD_PURPOSES[target.purpose].maxPhotos) {
+    throw photoLimitReached(target)
+  }
+}
+
+/**
+ * Whether a photo entry, or a claim evidence URL, is the file at `path`
+ */
+function isEntryFor(entry: unknown, path: string): boolean {
+  if (typeof entry === 'string') return entry.endsWith(`/${path}`)
+  return (entry as { path?: string } | null)?.path === path
+}
+
+/**
+ * Whether the file at `path` is recorded on its target. Errs on yes, so a
+ * failed lookup never deletes a recorded photo.
+ */
+async function isPhotoRecorded(db: SupabaseClient, target: UploadTarget, path: string): Promise<boolean> {
+  const id = getTargetId(target)
+  if (!id) return false
+
+  try {
+    const photos = await loadTargetPhotos(db, target, id)
+    return (photos || []).some((entry) => isEntryFor(entry, path))
+  } catch {
+    return true
+  }
+}
+
+/**
+ * Append a photo to its target under the target's row lock, so concurrent
+ * uploads neither overwrite each other nor pass the limit, and clear its
+ * pending upload. Returns the recorded entry: the one already there when the
+ * path was recorded before.
+ */
+async function appendPhoto(db: SupabaseClient, target: UploadTarget, path: string, entry: unknown): Promise<unknown> {
+  const id = getTargetId(target)
+  if (!id) {
+    // Nothing to record until the claim is filed
+    const { error } = await db.from('pending_uploads').delete().eq('path', path)
+    if (error) throw error
+    return entry
+  }
+
+  const { data, error } = await db.rpc('append_order_photo', {
+    p_purpose: target.purpose,
+    p_target_id: id,
+    p_order_id: target.orderId,
+    p_stage: target.stage || null,
+    p_path: path,
+    p_photo: entry,
+    p_max_photos: UPLOAD_PURPOSES[target.purpose].maxPhotos,
+  })
+
+  if (error) throw error
+  if (!data?.success) {
+    throw data?.error === 'PHOTO_LIMIT_REACHED' ? photoLimitReached(target) : targetNotFound(target)
+  }
+  return data.photo
+}
+
+/**
+ * Issue a signed URL for a new photo on the target
+ */
+export async function requestUpload(
+  db: SupabaseClient,
+  store: UploadStorage,
+  params: {
+    target: UploadTarget
+    filename: string
+    contentType: ImageContentType
+  }
+): Promise<PendingUpload> {
+  const { target, filename, contentType } = params
+
+  await checkTarget(db, target)
+
+  const path = generatePhotoPath(target.orderId, target.purpose, filename, contentType)
+
+  // Tracked until completed, so an abandoned upload is swept
+  const { error } = await db
+    .from('pending_uploads')
+    .insert({ path, order_id: target.orderId, purpose: target.purpose })
+  if (error) throw error
+
+  return { path, upload_url: await store.createSignedUploadUrl(path) }
+}
+
+/**
+ * Validate and strip a photo the client uploaded to its signed URL, then
+ * record it on its target. A retry of a recorded path returns the recorded
+ * photo. The file is deleted if it fails the checks or can't be recorded,
+ * unless it is already recorded.
+ */
+export async function completeUpload(
+  db: SupabaseClient,
+  store: UploadStorage,
+  params: {
+    target: UploadTarget
+    path: string
+    uploadedBy: string
+    baseUrl: string
+    now?: Date
+  }
+): Promise<UploadedPhoto> {
+  const { target, path, uploadedBy, baseUrl, now = new Date() } = params
+
+  const parsed = parsePhotoPath(path)
+  if (!parsed || parsed.orderId !== target.orderId || parsed.purpose !== target.purpose) {
+    throw new ValidationError('This upload is not for this order', 'INVALID_UPLOAD_PATH')
+  }
+
+  const bytes = await store.download(path)
+
+  try {
+    const contentType = validateImage(bytes)
+    // The extension was picked from the type the client declared
+    if (!path.endsWith(`.${FILE_EXTENSIONS[contentType]}`)) {
+      throw new ValidationError('The file does not match its declared type', 'UNSUPPORTED_FILE_TYPE')
+    }
+
+    const body = stripLocationMetadata(bytes, contentType)
+    await store.upload(path, body, contentType)
+
+    const photo: UploadedPhoto = {
+      path,
+      url: getPhotoUrl(baseUrl, path),
+      thumbnail_url: getPhotoUrl(baseUrl, path, true),
+      content_type: contentType,
+      size_bytes: body.length,
+      uploaded_by: uploadedBy,
+      uploaded_at: now.toISOString(),
+    }
+
+    // Claim evidence is a plain list of URLs (see lib/claims)
+    const recorded = await appendPhoto(db, target, path, target.purpose === 'claim' ? photo.url : photo)
+    return recorded && typeof recorded === 'object' ? (recorded as UploadedPhoto) : photo
+  } catch (error) {
+    if (!(await isPhotoRecorded(db, target, path))) {
+      await store.remove([path])
+    }
+    throw error
+  }
+}
+
+/**
+ * Remove files whose upload was never completed: they were never checked
+ * and still carry their location metadata
+ */
+export async function sweepPendingUploads(
+  db: SupabaseClient,
+  store: UploadStorage,
+  now: Date = new Date()
+): Promise<{ removed: number }> {
+  const { data: stale, error } = await db
+    .from('pending_uploads')
+    .select('path')
+    .lt('created_at', new Date(now.getTime() - PENDING_UPLOAD_TTL_MS).toISOString())
+    .limit(500)
+
+  if (error) throw error
+
+  const paths = (stale || []).map((upload: { path: string }) => upload.path)
+  if (paths.length === 0) return { removed: 0 }
+
+  await store.remove(paths)
+
+  const { error: deleteError } = await db.from('pending_uploads').delete().in('path', paths)
+  if (deleteError) throw deleteError
+
+  return { removed: paths.length }
+}
+
+// ============================================
+// BUCKET HELPERS
+// ============================================
 
 /**
  * Generate a signed URL for uploading a photo to Supabase Storage
@@ -9,15 +809,15 @@ export async function getUploadSignedUrl(
   expiresIn: number = 300 // 5 minutes
 ): Promise<string> {
   const db = getServiceClient()
-  
+
   const { data, error } = await db.storage
     .from(bucket)
     .createSignedUploadUrl(filePath)
-  
+
   if (error) {
     throw new Error(`Failed to generate upload URL: ${error.message}`)
   }
-  
+
   return data.signedUrl
 }
 
@@ -26,25 +826,12 @@ export async function getUploadSignedUrl(
  */
 export function getPublicUrl(bucket: string, filePath: string): string {
   const db = getServiceClient()
-  
+
   const { data } = db.storage
     .from(bucket)
     .getPublicUrl(filePath)
-  
-  return data.publicUrl
-}
 
-/**
- * Generate a unique file path for photo uploads
- */
-export function generatePhotoPath(
-  orderId: string,
-  type: 'bag' | 'checklist',
-  filename: string
-): string {
-  const timestamp = Date.now()
-  const sanitizedFilename = filename.replace(/[^a-zA-Z0-9.-]/g, '_')
-  return `${orderId}/${type}/${timestamp}-${sanitizedFilename}`
+  return data.publicUrl
 }
 
 /**
@@ -52,11 +839,11 @@ export function generatePhotoPath(
  */
 export async function deletePhoto(bucket: string, filePath: string): Promise<void> {
   const db = getServiceClient()
-  
+
   const { error } = await db.storage
     .from(bucket)
     .remove([filePath])
-  
+
   if (error) {
     throw new Error(`Failed to delete photo: ${error.message}`)
   }
@@ -44,9 +44,7 @@ const serverEnvSchema = clientEnvSchema.extend({
   ADMIN_EMAIL: z.string().email().optional(),
   SEED_ADMIN_EMAIL: z.string().email().optional(),
   JWT_PARTNER_ROLE_CLAIM: z.string().default('app_role'),
-  NYC_TAX_RATE: z.string().default('0.08875').transform((val) => parseFloat(val)).pipe(z.number().min(0).max(1)),
   FIRST_ORDER_CAP_CENTS: z.string().default('7500').transform((val) => parseInt(val)).pipe(z.number().positive()),
-  LAUNDRY_MIN_LBS: z.string().default('10').transform((val) => parseInt(val)).pipe(z.number().positive()),
   SENTRY_DSN: z.string().url().optional(),
   SENTRY_ENVIRONMENT: z.string().optional(),
   SENTRY_SAMPLE_RATE: z.string().default('1.0').transform((val) => parseFloat(val)).pipe(z.number().min(0).max(1)),
@@ -0,0 +1,68 @@
+-- Claims Workflow
+-- Wires the claims table from 001_init.sql into the app: customers file
+-- LOST/DAMAGED/REWORK/OTHER claims against an order, admins approve, deny
+-- or resolve them, and resolutions with money attached settle through refunds.
+
+-- ============================================================================
+-- 1. EXTEND CLAIMS TABLE
+-- ============================================================================
+
+ALTER TABLE claims
+  ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES profiles(id),
+  ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS refund_id UUID REFERENCES refunds(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+-- Type was nullable in 001; every claim filed through the app has one
+UPDATE claims SET type = 'OTHER' WHERE type IS NULL;
+ALTER TABLE claims ALTER COLUMN type SET NOT NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'claims_amounts_non_negative'
+  ) THEN
+    ALTER TABLE claims
+      ADD CONSTRAINT claims_amounts_non_negative
+        CHECK (
+          (requested_cents IS NULL OR requested_cents >= 0)
+          AND (resolved_cents IS NULL OR resolved_cents >= 0)
+        );
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_claims_order_id ON claims(order_id);
+CREATE INDEX IF NOT EXISTS idx_claims_status ON claims(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_claims_user_id ON claims(user_id);
+
+CREATE TRIGGER update_claims_updated_at BEFORE UPDATE ON claims
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE claims ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "claims_select_own" ON claims
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = claims.order_id
+      AND orders.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "claims_admin_all" ON claims
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid()
+      AND profiles.role = 'admin'
+    )
+  );
+
+COMMENT ON COLUMN claims.user_id IS 'Customer who filed the claim';
+COMMENT ON COLUMN claims.reviewed_by IS 'Admin who made the latest decision on the claim';
+COMMENT ON COLUMN claims.refund_id IS 'Refund issued when the claim was resolved with a payout';
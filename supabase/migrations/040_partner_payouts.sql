@@ -0,0 +1,79 @@
+-- Partner Payout Ledger
+-- Turns the payouts table from 001_init.sql into a weekly settlement ledger.
+-- The payouts cron rolls completed orders per partner into one row per week,
+-- nets out refunds and claim settlements, and stamps every settled order and
+-- refund with its payout so nothing is counted twice.
+
+-- ============================================================================
+-- 1. EXTEND PAYOUTS TABLE
+-- ============================================================================
+
+ALTER TABLE payouts
+  ADD COLUMN IF NOT EXISTS order_count INT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS revenue_cents INT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS commission_cents INT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS refunds_cents INT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS claims_cents INT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS payout_percent NUMERIC,
+  ADD COLUMN IF NOT EXISTS paid_by UUID REFERENCES profiles(id),
+  ADD COLUMN IF NOT EXISTS payout_reference TEXT,
+  ADD COLUMN IF NOT EXISTS notes TEXT,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'payouts_partner_period_unique'
+  ) THEN
+    ALTER TABLE payouts
+      ADD CONSTRAINT payouts_partner_period_unique
+        UNIQUE (partner_id, period_start, period_end);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_payouts_partner ON payouts(partner_id, period_start DESC);
+CREATE INDEX IF NOT EXISTS idx_payouts_status ON payouts(status, period_start DESC);
+
+CREATE TRIGGER update_payouts_updated_at BEFORE UPDATE ON payouts
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. SETTLEMENT MARKERS
+-- ============================================================================
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS payout_id UUID REFERENCES payouts(id) ON DELETE SET NULL;
+
+ALTER TABLE refunds
+  ADD COLUMN IF NOT EXISTS payout_id UUID REFERENCES payouts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_orders_unsettled
+  ON orders(partner_id, status)
+  WHERE payout_id IS NULL AND partner_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_refunds_unsettled
+  ON refunds(order_id)
+  WHERE payout_id IS NULL;
+
+-- ============================================================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================================================
+
+-- The 002 policy let any active partner read every partner's payouts
+DROP POLICY IF EXISTS "payouts_partner_select" ON payouts;
+
+CREATE POLICY "payouts_partner_select" ON payouts
+  FOR SELECT USING (
+    partner_id IN (
+      SELECT id FROM partners WHERE profile_id = auth.uid()
+    )
+  );
+
+COMMENT ON COLUMN payouts.revenue_cents IS 'Pre-tax customer revenue of the orders settled in this payout';
+COMMENT ON COLUMN payouts.gross_cents IS 'Partner share of revenue_cents before adjustments';
+COMMENT ON COLUMN payouts.adjustments_cents IS 'Negative total of refunds_cents and claims_cents';
+COMMENT ON COLUMN payouts.refunds_cents IS 'Partner share of customer refunds settled in this payout';
+COMMENT ON COLUMN payouts.claims_cents IS 'Claim settlements charged back to the partner in full';
+COMMENT ON COLUMN payouts.payout_percent IS 'Partner share (percent) used for this settlement';
+COMMENT ON COLUMN orders.payout_id IS 'Payout that settled this order with the partner';
+COMMENT ON COLUMN refunds.payout_id IS 'Payout that deducted this refund from the partner';
@@ -0,0 +1,63 @@
+-- Buildings Program
+-- Activates the buildings / building_residents tables from 001_init.sql.
+-- Admins register partner buildings with a doorman drop-off policy and
+-- building pricing terms; bookings are matched to a building by normalized
+-- street address + ZIP and stamped with orders.building_id.
+
+-- ============================================================================
+-- 1. EXTEND BUILDINGS TABLE
+-- ============================================================================
+
+ALTER TABLE buildings
+  ADD COLUMN IF NOT EXISTS address_line1 TEXT,
+  ADD COLUMN IF NOT EXISTS zip TEXT,
+  ADD COLUMN IF NOT EXISTS normalized_address TEXT,
+  ADD COLUMN IF NOT EXISTS doorman_policy TEXT NOT NULL DEFAULT 'NONE',
+  ADD COLUMN IF NOT EXISTS dropoff_instructions TEXT,
+  ADD COLUMN IF NOT EXISTS discount_pct NUMERIC NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS pricing_overrides_json JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS active BOOLEAN NOT NULL DEFAULT TRUE,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'buildings_doorman_policy_check'
+  ) THEN
+    ALTER TABLE buildings
+      ADD CONSTRAINT buildings_doorman_policy_check
+        CHECK (doorman_policy IN ('NONE', 'DOORMAN_HOLD', 'PACKAGE_ROOM', 'FRONT_DESK_SIGNATURE'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'buildings_discount_pct_range'
+  ) THEN
+    ALTER TABLE buildings
+      ADD CONSTRAINT buildings_discount_pct_range
+        CHECK (discount_pct >= 0 AND discount_pct <= 1);
+  END IF;
+END $$;
+
+-- One active building per street address
+CREATE UNIQUE INDEX IF NOT EXISTS idx_buildings_address_unique
+  ON buildings(zip, normalized_address)
+  WHERE active = true;
+
+CREATE TRIGGER update_buildings_updated_at BEFORE UPDATE ON buildings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. ORDER LOOKUPS
+-- ============================================================================
+
+-- Batched pickup view reads orders per building per day
+CREATE INDEX IF NOT EXISTS idx_orders_building_slot
+  ON orders(building_id, slot_start)
+  WHERE building_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_building_residents_user ON building_residents(user_id);
+
+COMMENT ON COLUMN buildings.normalized_address IS 'Lowercased street address with abbreviated suffixes/directions (see lib/buildings normalizeStreetAddress)';
+COMMENT ON COLUMN buildings.doorman_policy IS 'How deliveries are left when the resident is out: NONE, DOORMAN_HOLD, PACKAGE_ROOM, FRONT_DESK_SIGNATURE';
+COMMENT ON COLUMN buildings.discount_pct IS 'Building discount as a fraction of the order subtotal (0.10 = 10%)';
+COMMENT ON COLUMN buildings.pricing_overrides_json IS 'Per-building unit prices keyed by pricing_rules.unit_key, e.g. {"LND_WF_PERLB": 199}';
@@ -0,0 +1,109 @@
+-- Promo Codes
+-- Replaces the hard-coded WELCOME10 / HARLEM5 literals in lib/estimate.ts with
+-- admin-managed promo codes. A code is a percentage, fixed-amount or free
+-- add-on discount with optional expiry window, service-type and ZIP
+-- restrictions, global and per-user redemption limits and a first-order-only
+-- rule. Every order that uses a code gets one row in promo_redemptions.
+
+-- ============================================================================
+-- 1. PROMO CODES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS promo_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL,
+  description TEXT,
+  discount_type TEXT NOT NULL,
+  percent_off NUMERIC,
+  amount_off_cents INT,
+  free_addon_key TEXT,
+  service_types TEXT[],
+  zip_codes TEXT[],
+  starts_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
+  max_redemptions INT,
+  max_redemptions_per_user INT,
+  first_order_only BOOLEAN NOT NULL DEFAULT FALSE,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by UUID REFERENCES profiles(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT promo_codes_code_upper CHECK (code = UPPER(code)),
+  CONSTRAINT promo_codes_discount_type_check
+    CHECK (discount_type IN ('PERCENT', 'FIXED', 'FREE_ADDON')),
+  CONSTRAINT promo_codes_discount_value_check CHECK (
+    (discount_type = 'PERCENT' AND percent_off > 0 AND percent_off <= 100) OR
+    (discount_type = 'FIXED' AND amount_off_cents > 0) OR
+    (discount_type = 'FREE_ADDON' AND free_addon_key IS NOT NULL)
+  ),
+  CONSTRAINT promo_codes_window_check
+    CHECK (starts_at IS NULL OR expires_at IS NULL OR starts_at < expires_at),
+  CONSTRAINT promo_codes_limits_check CHECK (
+    (max_redemptions IS NULL OR max_redemptions > 0) AND
+    (max_redemptions_per_user IS NULL OR max_redemptions_per_user > 0)
+  )
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_promo_codes_code ON promo_codes(code);
+
+CREATE TRIGGER update_promo_codes_updated_at BEFORE UPDATE ON promo_codes
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. REDEMPTIONS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS promo_redemptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  promo_code_id UUID NOT NULL REFERENCES promo_codes(id) ON DELETE RESTRICT,
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES profiles(id),
+  guest_email TEXT,
+  discount_cents INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  -- One promo per order
+  CONSTRAINT promo_redemptions_order_unique UNIQUE (order_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_promo_redemptions_code ON promo_redemptions(promo_code_id);
+CREATE INDEX IF NOT EXISTS idx_promo_redemptions_code_user
+  ON promo_redemptions(promo_code_id, user_id);
+
+CREATE TRIGGER update_promo_redemptions_updated_at BEFORE UPDATE ON promo_redemptions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS promo_code_id UUID REFERENCES promo_codes(id) ON DELETE SET NULL;
+
+-- ============================================================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE promo_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE promo_redemptions ENABLE ROW LEVEL SECURITY;
+
+-- Codes are validated server-side with the service role; only admins read them directly
+CREATE POLICY "promo_codes_admin_all" ON promo_codes
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin')
+  );
+
+CREATE POLICY "promo_redemptions_admin_all" ON promo_redemptions
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin')
+  );
+
+CREATE POLICY "promo_redemptions_user_select" ON promo_redemptions
+  FOR SELECT USING (user_id = auth.uid());
+
+COMMENT ON TABLE promo_codes IS 'Admin-managed promo codes (see lib/promos)';
+COMMENT ON COLUMN promo_codes.percent_off IS 'PERCENT codes: percent of the pre-tax subtotal (10 = 10% off)';
+COMMENT ON COLUMN promo_codes.amount_off_cents IS 'FIXED codes: amount off, capped at the order subtotal';
+COMMENT ON COLUMN promo_codes.free_addon_key IS 'FREE_ADDON codes: pricing_rules.unit_key of the add-on made free';
+COMMENT ON COLUMN promo_codes.service_types IS 'Restrict to LAUNDRY and/or CLEANING; NULL = all services';
+COMMENT ON COLUMN promo_codes.zip_codes IS 'Restrict to these ZIP codes; NULL = all served ZIPs';
+COMMENT ON COLUMN promo_redemptions.discount_cents IS 'Discount applied to the order; updated when a laundry order is re-quoted after weighing';
+COMMENT ON COLUMN orders.promo_code_id IS 'Promo code redeemed on this order';
@@ -0,0 +1,33 @@
+-- Distributed Rate Limiting
+-- Shared counter store for lib/rate-limit so limits hold across serverless
+-- instances (the old in-memory Map was per-instance). Each row holds the
+-- limiter state for one policy + identifier; writers compare-and-swap on
+-- `version`. Expired rows are swept by the operations cron.
+
+-- ============================================================================
+-- 1. RATE LIMITS TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS rate_limits (
+  key TEXT PRIMARY KEY,
+  state JSONB NOT NULL,
+  version INT NOT NULL DEFAULT 1,
+  expires_at TIMESTAMPTZ NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limits_expires ON rate_limits(expires_at);
+
+CREATE TRIGGER update_rate_limits_updated_at BEFORE UPDATE ON rate_limits
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================================================
+
+-- Only the service role reads or writes limiter state
+ALTER TABLE rate_limits ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE rate_limits IS 'Rate limiter state keyed by "<policy>:<identifier>" (see lib/rate-limit)';
+COMMENT ON COLUMN rate_limits.state IS 'Sliding window {window_start, count, previous_count} or token bucket {tokens, updated_at}; times in epoch ms';
+COMMENT ON COLUMN rate_limits.version IS 'Incremented on every write; updates are conditional on the version read';
@@ -0,0 +1,54 @@
+-- Feature Flags
+-- Database-backed flags for dark-launching booking-flow changes without a
+-- redeploy. A flag is on for a request when it is enabled, the request matches
+-- every targeting rule that is set (role, ZIP, service type) and the user falls
+-- inside the rollout percentage. Users listed in target_user_ids always get an
+-- enabled flag. Changes are recorded in settings_audit_log (see lib/feature-flags).
+
+-- ============================================================================
+-- 1. FEATURE FLAGS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS feature_flags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  key TEXT NOT NULL,
+  description TEXT,
+  enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  rollout_percentage INT NOT NULL DEFAULT 0,
+  target_user_ids TEXT[],
+  target_roles TEXT[],
+  target_zip_codes TEXT[],
+  target_service_types TEXT[],
+  created_by UUID REFERENCES profiles(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT feature_flags_key_format CHECK (key ~ '^[a-z0-9_.-]+$'),
+  CONSTRAINT feature_flags_rollout_check
+    CHECK (rollout_percentage >= 0 AND rollout_percentage <= 100)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_feature_flags_key ON feature_flags(key);
+
+CREATE TRIGGER update_feature_flags_updated_at BEFORE UPDATE ON feature_flags
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE feature_flags ENABLE ROW LEVEL SECURITY;
+
+-- Flags are evaluated server-side with the service role; only admins read them directly
+CREATE POLICY "feature_flags_admin_all" ON feature_flags
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'admin')
+  );
+
+COMMENT ON TABLE feature_flags IS 'Admin-managed feature flags (see lib/feature-flags)';
+COMMENT ON COLUMN feature_flags.key IS 'Stable identifier used in code, e.g. payment_authorization';
+COMMENT ON COLUMN feature_flags.rollout_percentage IS 'Share of signed-in users (0-100) bucketed by user ID hash';
+COMMENT ON COLUMN feature_flags.target_user_ids IS 'Users who always get the flag while it is enabled';
+COMMENT ON COLUMN feature_flags.target_roles IS 'Restrict to these profile roles; NULL = any role';
+COMMENT ON COLUMN feature_flags.target_zip_codes IS 'Restrict to these ZIP codes; NULL = any ZIP';
+COMMENT ON COLUMN feature_flags.target_service_types IS 'Restrict to LAUNDRY and/or CLEANING; NULL = any service';
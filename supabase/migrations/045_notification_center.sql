@@ -0,0 +1,59 @@
+-- Notification Center
+-- Wires up the notification tables from 011 and 019 for lib/notifications:
+-- every customer notification goes through a dispatcher that checks the
+-- customer's channel and per-event opt-ins, records each channel send in
+-- notifications (with its delivery status) and summarizes the dispatch in
+-- notification_log. IN_APP notifications double as the customer's inbox.
+
+-- ============================================================================
+-- 1. PER-EVENT PREFERENCES
+-- ============================================================================
+
+ALTER TABLE notification_preferences
+  ADD COLUMN IF NOT EXISTS event_channels JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+DROP TRIGGER IF EXISTS update_notification_preferences_updated_at ON notification_preferences;
+CREATE TRIGGER update_notification_preferences_updated_at BEFORE UPDATE ON notification_preferences
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. DELIVERY RECORDS AND INBOX
+-- ============================================================================
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE notifications
+  ADD CONSTRAINT notifications_type_check CHECK (type IN ('SMS', 'EMAIL', 'IN_APP'));
+
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS order_id UUID REFERENCES orders(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS title TEXT,
+  ADD COLUMN IF NOT EXISTS body TEXT,
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'pending',
+  ADD COLUMN IF NOT EXISTS read_at TIMESTAMPTZ;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'notifications_status_check'
+  ) THEN
+    ALTER TABLE notifications
+      ADD CONSTRAINT notifications_status_check
+      CHECK (status IN ('pending', 'sent', 'failed'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_inbox
+  ON notifications(recipient_id, created_at DESC) WHERE type = 'IN_APP';
+CREATE INDEX IF NOT EXISTS idx_notifications_unread
+  ON notifications(recipient_id) WHERE type = 'IN_APP' AND read_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_notifications_order ON notifications(order_id);
+
+ALTER TABLE notification_log
+  ADD COLUMN IF NOT EXISTS order_id UUID REFERENCES orders(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_notification_log_order ON notification_log(order_id);
+
+COMMENT ON COLUMN notification_preferences.event_channels IS 'Per-event channel opt-ins, e.g. {"order_delivered": {"sms": false}}; missing entries use the event default (see lib/notifications)';
+COMMENT ON COLUMN notifications.status IS 'Delivery status of this channel send: pending, sent or failed';
+COMMENT ON COLUMN notifications.read_at IS 'IN_APP only: when the customer read it in their inbox';
+COMMENT ON COLUMN notification_log.channels IS 'Outcome per channel for one dispatch, e.g. {"sms": "sent", "email": "opted_out"}';
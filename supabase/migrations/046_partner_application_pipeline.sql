@@ -0,0 +1,43 @@
+-- Partner Application Pipeline
+-- Puts the partner_applications table from 014 to work: applicants submit the
+-- public form at /partners/apply, admins work the queue at
+-- /admin/partner-applications and approving an application creates the
+-- partners row (capabilities from 018, service ZIPs) and links the
+-- applicant's auth account through partners.profile_id (017).
+
+-- ============================================================================
+-- 1. STATUSES
+-- ============================================================================
+
+-- info_requested: admin asked the applicant for more details; the applicant
+-- resubmits the form and the application goes back to pending
+ALTER TABLE partner_applications DROP CONSTRAINT IF EXISTS partner_applications_status_check;
+ALTER TABLE partner_applications
+  ADD CONSTRAINT partner_applications_status_check
+  CHECK (status IN ('pending', 'under_review', 'info_requested', 'approved', 'rejected'));
+
+ALTER TABLE partner_applications ALTER COLUMN status SET NOT NULL;
+
+-- ============================================================================
+-- 2. APPLICATION DETAILS
+-- ============================================================================
+
+ALTER TABLE partner_applications
+  ADD COLUMN IF NOT EXISTS capabilities JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS service_areas TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS description TEXT,
+  ADD COLUMN IF NOT EXISTS info_request TEXT,
+  ADD COLUMN IF NOT EXISTS partner_id UUID REFERENCES partners(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_partner_applications_partner ON partner_applications(partner_id);
+
+DROP TRIGGER IF EXISTS update_partner_applications_updated_at ON partner_applications;
+CREATE TRIGGER update_partner_applications_updated_at BEFORE UPDATE ON partner_applications
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON COLUMN partner_applications.status IS 'Application status: pending (new or resubmitted), under_review (admin reviewing), info_requested (waiting on the applicant), approved (partner created), rejected (denied)';
+COMMENT ON COLUMN partner_applications.capabilities IS 'Requested PartnerCapabilities for the service type, e.g. {"wash_fold": true, "dry_clean": false}; copied to partners.capabilities on approval';
+COMMENT ON COLUMN partner_applications.service_areas IS 'ZIP codes the applicant can serve; copied to partners.service_areas on approval';
+COMMENT ON COLUMN partner_applications.info_request IS 'What the admin asked the applicant for when requesting more information';
+COMMENT ON COLUMN partner_applications.partner_id IS 'Partner created when the application was approved';
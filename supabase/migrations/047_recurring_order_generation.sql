@@ -0,0 +1,26 @@
+-- Recurring Order Generation
+-- The recurring-orders cron (/api/cron/recurring-orders) books each active
+-- plan's next visit from subscriptions.next_date, charges it to the saved
+-- card 48 hours before the slot, and customers skip, swap or pause it from
+-- /orders/recurring/[id]. See lib/recurring.ts.
+
+-- ============================================================================
+-- 1. INDEXES
+-- ============================================================================
+
+-- Plans the cron has to look at
+CREATE INDEX IF NOT EXISTS idx_subscriptions_active_next_date
+  ON subscriptions(next_date)
+  WHERE active = TRUE;
+
+-- A plan's upcoming / latest visit
+CREATE INDEX IF NOT EXISTS idx_orders_subscription_slot
+  ON orders(subscription_id, slot_start)
+  WHERE subscription_id IS NOT NULL;
+
+-- ============================================================================
+-- 2. DOCUMENTATION
+-- ============================================================================
+
+COMMENT ON COLUMN subscriptions.next_date IS 'Date of the next visit to book; NULL until the first (customer-booked) visit completes. Advanced by visit completion and skips.';
+COMMENT ON COLUMN orders.subscription_id IS 'Recurring plan the visit belongs to. Generated visits use idempotency_key recurring:<subscription_id>:<visit date>.';
@@ -0,0 +1,48 @@
+-- Stripe Subscription Sync
+-- Recurring plans can be billed by a Stripe subscription instead of the
+-- internal per-visit schedule (lib/recurring). The Stripe webhook keeps these
+-- columns in sync from customer.subscription.* events and logs failed
+-- renewals (invoice.payment_failed) to payment_retry_log. See
+-- lib/subscription-billing.ts.
+
+-- ============================================================================
+-- 1. STRIPE BILLING STATE
+-- ============================================================================
+
+ALTER TABLE subscriptions
+  ADD COLUMN IF NOT EXISTS stripe_subscription_id TEXT UNIQUE,
+  ADD COLUMN IF NOT EXISTS stripe_customer_id TEXT,
+  ADD COLUMN IF NOT EXISTS billing_status TEXT,
+  ADD COLUMN IF NOT EXISTS current_period_end TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS canceled_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+ALTER TABLE subscriptions DROP CONSTRAINT IF EXISTS subscriptions_billing_status_check;
+ALTER TABLE subscriptions
+  ADD CONSTRAINT subscriptions_billing_status_check
+  CHECK (billing_status IS NULL OR billing_status IN (
+    'incomplete', 'incomplete_expired', 'trialing', 'active', 'past_due', 'canceled', 'unpaid', 'paused'
+  ));
+
+DROP TRIGGER IF EXISTS update_subscriptions_updated_at ON subscriptions;
+CREATE TRIGGER update_subscriptions_updated_at BEFORE UPDATE ON subscriptions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON COLUMN subscriptions.stripe_subscription_id IS 'Stripe subscription billing this plan; NULL for plans billed per visit by the recurring-orders cron';
+COMMENT ON COLUMN subscriptions.billing_status IS 'Stripe subscription status mirrored from webhooks; active/trialing keep the plan booking, past_due/unpaid/canceled/paused stop it';
+COMMENT ON COLUMN subscriptions.current_period_end IS 'End of the current Stripe billing period';
+
+-- ============================================================================
+-- 2. RENEWAL RETRIES
+-- ============================================================================
+
+ALTER TABLE payment_retry_log
+  ADD COLUMN IF NOT EXISTS subscription_id UUID REFERENCES subscriptions(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS stripe_invoice_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_payment_retry_subscription
+  ON payment_retry_log(subscription_id)
+  WHERE subscription_id IS NOT NULL;
+
+COMMENT ON COLUMN payment_retry_log.subscription_id IS 'Recurring plan whose charge failed (recurring visits and Stripe renewals)';
+COMMENT ON COLUMN payment_retry_log.stripe_invoice_id IS 'Stripe invoice of a failed subscription renewal';
@@ -0,0 +1,34 @@
+-- Order Photo Uploads
+-- Photos uploaded through /api/upload land in the private order-photos bucket
+-- under {order_id}/{purpose}/. The upload route records them on bags,
+-- cleaning_checklist rooms, claims and (new here) the order's dispute
+-- evidence. See lib/upload.ts.
+
+-- ============================================================================
+-- 1. STORAGE BUCKET
+-- ============================================================================
+
+-- Private: photos are served through short-lived signed URLs only
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('order-photos', 'order-photos', FALSE, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO UPDATE SET
+  public = EXCLUDED.public,
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- ============================================================================
+-- 2. DISPUTE EVIDENCE
+-- ============================================================================
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS dispute_evidence_json JSONB DEFAULT '[]'::JSONB;
+
+-- ============================================================================
+-- 3. COMMENTS
+-- ============================================================================
+
+COMMENT ON COLUMN orders.dispute_evidence_json IS 'Customer dispute photos [{path, url, thumbnail_url, content_type, size_bytes, uploaded_by, uploaded_at}]';
+COMMENT ON COLUMN bags.photos_json IS 'Bag photos [{path, url, thumbnail_url, content_type, size_bytes, uploaded_by, uploaded_at}]';
+COMMENT ON COLUMN cleaning_checklist.before_photos_json IS 'Room photos before cleaning, same shape as bags.photos_json';
+COMMENT ON COLUMN cleaning_checklist.after_photos_json IS 'Room photos after cleaning, same shape as bags.photos_json';
+COMMENT ON COLUMN claims.evidence_json IS 'Evidence photo URLs';
@@ -0,0 +1,127 @@
+-- Domain Event Outbox
+-- Order transitions enqueue typed domain events in the same transaction as
+-- the status change: transition_order_status writes an order_events row, and
+-- a trigger on order_events turns the actions that have side effects into a
+-- domain_events row. The outbox worker (lib/outbox, /api/cron/outbox) fans
+-- each event out into one delivery per handler (customer notification,
+-- partner notification, admin alert, Stripe refund) and retries failed
+-- deliveries with backoff. See lib/outbox.ts.
+
+-- ============================================================================
+-- 1. DOMAIN EVENTS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS domain_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_type TEXT NOT NULL,
+  order_id UUID REFERENCES orders(id) ON DELETE CASCADE,
+  idempotency_key TEXT NOT NULL UNIQUE,
+  payload JSONB NOT NULL DEFAULT '{}'::JSONB,
+  dispatched_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_domain_events_undispatched ON domain_events(created_at)
+  WHERE dispatched_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_domain_events_order ON domain_events(order_id, created_at DESC);
+
+-- ============================================================================
+-- 2. DELIVERIES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS domain_event_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id UUID NOT NULL REFERENCES domain_events(id) ON DELETE CASCADE,
+  order_id UUID REFERENCES orders(id) ON DELETE CASCADE,
+  handler TEXT NOT NULL,
+  idempotency_key TEXT NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'dead')),
+  attempts INT NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_until TIMESTAMPTZ,
+  last_error TEXT,
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_domain_event_deliveries_due ON domain_event_deliveries(next_attempt_at)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_domain_event_deliveries_order ON domain_event_deliveries(order_id);
+
+CREATE TRIGGER update_domain_event_deliveries_updated_at BEFORE UPDATE ON domain_event_deliveries
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 3. REFUND IDEMPOTENCY
+-- ============================================================================
+
+-- Lets a retried refund delivery find the refund it already recorded
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS idempotency_key TEXT UNIQUE;
+
+-- ============================================================================
+-- 4. ENQUEUE ON TRANSITION
+-- ============================================================================
+
+-- Reads the row as JSON so the trigger doesn't depend on which order_events
+-- columns a given insert uses; rows without a side-effect action are ignored
+CREATE OR REPLACE FUNCTION enqueue_transition_domain_event()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_event JSONB := to_jsonb(NEW);
+  v_event_type TEXT;
+BEGIN
+  v_event_type := CASE v_event->>'action'
+    WHEN 'assign' THEN 'order.partner_assigned'
+    WHEN 'en_route' THEN 'order.partner_en_route'
+    WHEN 'complete' THEN 'order.completed'
+    WHEN 'open_dispute' THEN 'order.dispute_opened'
+    WHEN 'resolve_dispute_refund' THEN 'order.dispute_refunded'
+    WHEN 'send_quote' THEN 'order.quote_sent'
+    WHEN 'mark_delivered' THEN 'order.delivered'
+    ELSE NULL
+  END;
+
+  IF v_event_type IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO domain_events (event_type, order_id, idempotency_key, payload)
+  VALUES (
+    v_event_type,
+    NEW.order_id,
+    'order_event:' || (v_event->>'id'),
+    jsonb_build_object(
+      'action', v_event->>'action',
+      'old_status', v_event->>'old_status',
+      'new_status', v_event->>'new_status',
+      'actor_id', v_event->>'actor_id',
+      'actor_role', v_event->>'actor_role',
+      'metadata', COALESCE(v_event->'metadata', '{}'::JSONB)
+    )
+  )
+  ON CONFLICT (idempotency_key) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enqueue_transition_domain_event ON order_events;
+CREATE TRIGGER enqueue_transition_domain_event AFTER INSERT ON order_events
+  FOR EACH ROW EXECUTE FUNCTION enqueue_transition_domain_event();
+
+-- ============================================================================
+-- 5. ROW LEVEL SECURITY
+-- ============================================================================
+
+-- Only the service role reads or writes the outbox
+ALTER TABLE domain_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE domain_event_deliveries ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE domain_events IS 'Transactional outbox of order domain events (see lib/outbox)';
+COMMENT ON COLUMN domain_events.idempotency_key IS '"order_event:<order_events.id>" for transitions, "<source>:<id>" for follow-up events';
+COMMENT ON COLUMN domain_events.dispatched_at IS 'When the worker created the event''s deliveries';
+COMMENT ON TABLE domain_event_deliveries IS 'One side effect of a domain event, retried independently';
+COMMENT ON COLUMN domain_event_deliveries.idempotency_key IS '"<event_id>:<handler>"; also passed to Stripe';
+COMMENT ON COLUMN domain_event_deliveries.locked_until IS 'Claimed by a worker until this time';
+COMMENT ON COLUMN refunds.idempotency_key IS 'Outbox delivery that issued the refund';
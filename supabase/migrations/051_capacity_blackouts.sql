@@ -0,0 +1,44 @@
+-- Capacity Blackouts
+-- Slot generation (on-demand in /api/slots and the populate-slots cron) now
+-- expands each partner's active capacity_templates instead of a fixed
+-- Mon-Sat schedule. Blackouts stop generation on a date: holidays for every
+-- partner (partner_id NULL) or exception days for one partner. See
+-- lib/capacity-templates.ts.
+
+-- ============================================================================
+-- 1. BLACKOUTS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS capacity_blackouts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  date DATE NOT NULL,
+  partner_id UUID REFERENCES partners(id) ON DELETE CASCADE,
+  service_type TEXT CHECK (service_type IS NULL OR service_type IN ('LAUNDRY', 'CLEANING')),
+  reason TEXT,
+  created_by UUID REFERENCES profiles(id),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One blackout per date, partner (or all) and service (or all)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_capacity_blackouts_unique ON capacity_blackouts(
+  date,
+  COALESCE(partner_id, '00000000-0000-0000-0000-000000000000'::UUID),
+  COALESCE(service_type, '')
+);
+CREATE INDEX IF NOT EXISTS idx_capacity_blackouts_partner ON capacity_blackouts(partner_id) WHERE partner_id IS NOT NULL;
+
+-- ============================================================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE capacity_blackouts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "capacity_blackouts_admin_all" ON capacity_blackouts
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+COMMENT ON TABLE capacity_blackouts IS 'Dates no capacity is generated: holidays (partner_id NULL) and partner exception days';
+COMMENT ON COLUMN capacity_blackouts.partner_id IS 'Partner taking the day off; NULL blacks out every partner';
+COMMENT ON COLUMN capacity_blackouts.service_type IS 'Service the blackout applies to; NULL for both';
+COMMENT ON TABLE capacity_templates IS 'Recurring availability patterns for partners (e.g., every Monday 10-12). Expanded into capacity_calendar by on-demand slot generation, the populate-slots cron and the admin bulk route. Partners without active templates get the default Mon-Sat schedule.';
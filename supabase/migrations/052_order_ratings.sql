@@ -0,0 +1,40 @@
+-- Order Ratings
+-- Customers rate a completed or delivered order once. Ratings roll up with
+-- on-time, no-show and dispute metrics into partners.scorecard_json (see
+-- lib/scorecards.ts), which replaces the hard-coded 4.5 star fallback.
+
+-- ============================================================================
+-- 1. RATINGS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS order_ratings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL UNIQUE REFERENCES orders(id) ON DELETE CASCADE,
+  partner_id UUID NOT NULL REFERENCES partners(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  rating INT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  tags TEXT[] NOT NULL DEFAULT '{}' CHECK (tags <@ ARRAY['on_time', 'quality', 'communication']),
+  review TEXT CHECK (review IS NULL OR char_length(review) <= 1000),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_ratings_partner ON order_ratings(partner_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_order_ratings_user ON order_ratings(user_id);
+
+-- ============================================================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE order_ratings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "order_ratings_owner_select" ON order_ratings
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "order_ratings_admin_all" ON order_ratings
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+COMMENT ON TABLE order_ratings IS 'Customer rating and review of an order, one per order. Written through /api/orders/:id/rating';
+COMMENT ON COLUMN order_ratings.tags IS 'What went well: on_time, quality, communication';
+COMMENT ON COLUMN partners.scorecard_json IS 'Ratings and operational metrics computed by lib/scorecards.ts: rating, review_count, tag_rates, on_time_rate, no_show_count, dispute_rate, low_metrics';
@@ -0,0 +1,60 @@
+-- Order Tips
+-- Customers can tip after a cleaning is completed or laundry is delivered.
+-- The tip is a separate off-session charge to the order's saved payment
+-- method, kept out of the order total and tax, and paid to the partner in
+-- full with their next payout. See lib/tips.ts.
+
+-- ============================================================================
+-- 1. TIPS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS order_tips (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  partner_id UUID NOT NULL REFERENCES partners(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  amount_cents INT NOT NULL CHECK (amount_cents > 0),
+  percent NUMERIC,
+  source TEXT NOT NULL DEFAULT 'order_page' CHECK (source IN ('order_page', 'rating')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  payment_intent_id TEXT,
+  receipt_url TEXT,
+  failure_reason TEXT,
+  payout_id UUID REFERENCES payouts(id) ON DELETE SET NULL,
+  charged_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One tip per order; a failed attempt can be retried
+CREATE UNIQUE INDEX IF NOT EXISTS idx_order_tips_order ON order_tips(order_id) WHERE status <> 'failed';
+
+CREATE INDEX IF NOT EXISTS idx_order_tips_unsettled
+  ON order_tips(partner_id)
+  WHERE payout_id IS NULL AND status = 'succeeded';
+
+-- ============================================================================
+-- 2. PAYOUTS
+-- ============================================================================
+
+ALTER TABLE payouts
+  ADD COLUMN IF NOT EXISTS tips_cents INT NOT NULL DEFAULT 0;
+
+-- ============================================================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE order_tips ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "order_tips_owner_select" ON order_tips
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "order_tips_admin_all" ON order_tips
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+COMMENT ON TABLE order_tips IS 'Gratuity charged off-session after completion; not part of the order total and never taxed';
+COMMENT ON COLUMN order_tips.percent IS 'Preset percent the customer picked; NULL for a custom amount';
+COMMENT ON COLUMN order_tips.source IS 'Where the tip was given: order_page or the rating request';
+COMMENT ON COLUMN order_tips.payout_id IS 'Payout that passed this tip to the partner';
+COMMENT ON COLUMN payouts.tips_cents IS 'Customer tips passed to the partner in full (included in net_cents)';
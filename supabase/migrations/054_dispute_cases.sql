@@ -0,0 +1,83 @@
+-- Dispute Cases
+-- One case per dispute, whether the customer opened it in the app
+-- (open_dispute transition) or through their bank (Stripe
+-- charge.dispute.created). The case links the order, the customer's
+-- evidence (orders.dispute_evidence_json), the partner's response and the
+-- Stripe dispute, tracks the 24h resolution SLA, and records the outcome and
+-- any chargeback evidence submitted to Stripe. See lib/disputes.ts.
+
+-- ============================================================================
+-- 1. CASES
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS dispute_cases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  partner_id UUID REFERENCES partners(id) ON DELETE SET NULL,
+  source TEXT NOT NULL CHECK (source IN ('in_app', 'chargeback')),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'evidence_submitted', 'closed')),
+  reason TEXT,
+  amount_cents INT,
+
+  -- Partner side of the story
+  partner_response TEXT,
+  partner_responded_at TIMESTAMPTZ,
+
+  -- Stripe chargeback
+  stripe_dispute_id TEXT UNIQUE,
+  stripe_charge_id TEXT,
+  stripe_status TEXT,
+  evidence_due_by TIMESTAMPTZ,
+  evidence_json JSONB,
+  evidence_submitted_at TIMESTAMPTZ,
+
+  -- SLA
+  opened_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  sla_due_at TIMESTAMPTZ NOT NULL,
+  sla_breached_at TIMESTAMPTZ,
+
+  -- Outcome
+  outcome TEXT CHECK (outcome IN ('partial_refund', 'full_refund', 'rejected')),
+  refund_cents INT,
+  resolution_note TEXT,
+  resolved_by UUID REFERENCES profiles(id),
+  resolved_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One open in-app case per order; a retried outbox delivery finds it
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dispute_cases_in_app_order
+  ON dispute_cases(order_id) WHERE source = 'in_app' AND status = 'open';
+
+CREATE INDEX IF NOT EXISTS idx_dispute_cases_queue ON dispute_cases(sla_due_at)
+  WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_dispute_cases_order ON dispute_cases(order_id);
+
+CREATE TRIGGER update_dispute_cases_updated_at BEFORE UPDATE ON dispute_cases
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE dispute_cases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "dispute_cases_owner_select" ON dispute_cases
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "dispute_cases_admin_all" ON dispute_cases
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+COMMENT ON TABLE dispute_cases IS 'In-app disputes and Stripe chargebacks worked from the admin dispute workbench';
+COMMENT ON COLUMN dispute_cases.source IS 'in_app (open_dispute transition) or chargeback (Stripe charge.dispute.created)';
+COMMENT ON COLUMN dispute_cases.status IS 'open, resolved (in-app outcome applied), evidence_submitted (chargeback contested), closed (chargeback accepted or decided by the bank)';
+COMMENT ON COLUMN dispute_cases.amount_cents IS 'Disputed amount; for in-app disputes the refundable balance when opened';
+COMMENT ON COLUMN dispute_cases.stripe_status IS 'Latest Stripe dispute status (needs_response, under_review, won, lost, ...)';
+COMMENT ON COLUMN dispute_cases.evidence_json IS 'Evidence packet submitted to Stripe: timeline, photos, policy version, receipt';
+COMMENT ON COLUMN dispute_cases.sla_due_at IS '24h after opening, or the Stripe evidence deadline if sooner';
+COMMENT ON COLUMN dispute_cases.sla_breached_at IS 'When the operations cron flagged the case as overdue';
@@ -0,0 +1,57 @@
+-- Bag Tracking
+-- Chain of custody for laundry bags. Each bag's printed label (QR of its
+-- label_code) is scanned by the partner at pickup, at the facility, when
+-- weighed, when packed and at delivery. Every scan is kept; the bag row holds
+-- the latest step and weight, and the weighed bags' total feeds the partner
+-- quote. See lib/bags.ts.
+
+-- ============================================================================
+-- 1. BAG STATUS
+-- ============================================================================
+
+ALTER TABLE bags
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'created'
+    CHECK (status IN ('created', 'picked_up', 'at_facility', 'weighed', 'packed', 'delivered')),
+  ADD COLUMN IF NOT EXISTS weighed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_scanned_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_bags_order ON bags(order_id);
+
+-- ============================================================================
+-- 2. SCAN EVENTS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS bag_scan_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  bag_id UUID NOT NULL REFERENCES bags(id) ON DELETE CASCADE,
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  event TEXT NOT NULL CHECK (event IN ('picked_up', 'at_facility', 'weighed', 'packed', 'delivered')),
+  weight_lbs NUMERIC CHECK (weight_lbs IS NULL OR weight_lbs > 0),
+  partner_id UUID REFERENCES partners(id) ON DELETE SET NULL,
+  scanned_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  scanned_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bag_scan_events_bag ON bag_scan_events(bag_id, scanned_at);
+CREATE INDEX IF NOT EXISTS idx_bag_scan_events_order ON bag_scan_events(order_id);
+
+-- ============================================================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE bag_scan_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "bag_scan_events_owner_select" ON bag_scan_events
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM orders WHERE orders.id = bag_scan_events.order_id AND orders.user_id = auth.uid())
+  );
+
+CREATE POLICY "bag_scan_events_admin_all" ON bag_scan_events
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+COMMENT ON TABLE bag_scan_events IS 'Every label scan of a laundry bag, in custody order';
+COMMENT ON COLUMN bag_scan_events.weight_lbs IS 'Bag weight, recorded on weighed scans';
+COMMENT ON COLUMN bags.status IS 'Latest custody step: created, picked_up, at_facility, weighed, packed, delivered';
+COMMENT ON COLUMN bags.weight_lbs IS 'Weight from the latest weighed scan; the order''s bags sum to the quoted weight';
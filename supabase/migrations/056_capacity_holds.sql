@@ -0,0 +1,48 @@
+-- Capacity Holds
+-- Time-boxed slot holds for checkouts. A hold takes its units from the slot
+-- when the customer reaches payment, becomes the order's reservation when the
+-- order is finalized, and expires (units returned) if checkout is abandoned.
+-- reserved_units counts held units too. See lib/capacity-holds.ts.
+
+-- ============================================================================
+-- 1. HOLDS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS capacity_holds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  slot_id UUID NOT NULL REFERENCES capacity_calendar(id) ON DELETE CASCADE,
+  partner_id UUID NOT NULL REFERENCES partners(id) ON DELETE CASCADE,
+  service_type TEXT NOT NULL CHECK (service_type IN ('LAUNDRY', 'CLEANING')),
+  slot_start TIMESTAMPTZ NOT NULL,
+  units INT NOT NULL CHECK (units > 0),
+  status TEXT NOT NULL DEFAULT 'held' CHECK (status IN ('held', 'converted', 'released', 'expired')),
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  user_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_capacity_holds_expiring ON capacity_holds(expires_at) WHERE status = 'held';
+CREATE INDEX IF NOT EXISTS idx_capacity_holds_slot ON capacity_holds(slot_id);
+CREATE INDEX IF NOT EXISTS idx_capacity_holds_order ON capacity_holds(order_id);
+
+CREATE TRIGGER update_capacity_holds_updated_at BEFORE UPDATE ON capacity_holds
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- 2. ROW LEVEL SECURITY
+-- ============================================================================
+
+-- Holds are written by the service role only
+ALTER TABLE capacity_holds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "capacity_holds_admin_all" ON capacity_holds
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'admin')
+  );
+
+COMMENT ON TABLE capacity_holds IS 'Checkout holds on capacity_calendar slots; held units are included in reserved_units';
+COMMENT ON COLUMN capacity_holds.status IS 'held (checkout in progress), converted (order finalized), released or expired (units returned)';
+COMMENT ON COLUMN capacity_holds.order_id IS 'Order the hold was converted into';
@@ -0,0 +1,25 @@
+-- Slot Assignment
+-- Customers book a merged window; at checkout a strategy (least-loaded,
+-- round-robin, best scorecard or nearest) picks the partner that takes the
+-- order. The decision is kept on the hold and logged to order_events as
+-- partner_assigned. See lib/slot-assignment.ts.
+
+-- ============================================================================
+-- 1. PARTNER LOCATION (nearest strategy)
+-- ============================================================================
+
+ALTER TABLE partners
+  ADD COLUMN IF NOT EXISTS latitude NUMERIC CHECK (latitude IS NULL OR latitude BETWEEN -90 AND 90),
+  ADD COLUMN IF NOT EXISTS longitude NUMERIC CHECK (longitude IS NULL OR longitude BETWEEN -180 AND 180);
+
+COMMENT ON COLUMN partners.latitude IS 'Facility location for nearest-partner assignment; NULL ranks the partner last';
+COMMENT ON COLUMN partners.longitude IS 'Facility location for nearest-partner assignment; NULL ranks the partner last';
+
+-- ============================================================================
+-- 2. ASSIGNMENT DECISIONS
+-- ============================================================================
+
+ALTER TABLE capacity_holds
+  ADD COLUMN IF NOT EXISTS assignment_json JSONB;
+
+COMMENT ON COLUMN capacity_holds.assignment_json IS 'Strategy, reason and candidates behind the hold''s partner; logged to order_events once the order is placed';
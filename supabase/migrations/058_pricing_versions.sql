@@ -0,0 +1,87 @@
+-- Pricing Versions
+-- Pricing rules belong to a version. Published versions take effect at their
+-- effective_from (scheduled or immediate) and are never edited; changes are
+-- staged in a single draft that admins preview against sample carts before
+-- publishing. Orders lock the version they were quoted under, like policy_id,
+-- so re-quotes and invoices reproduce. See lib/pricing-versions.ts.
+
+-- ============================================================================
+-- 1. VERSIONS
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS pricing_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  version INT NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published')),
+  effective_from TIMESTAMPTZ,
+  effective_to TIMESTAMPTZ,
+  notes TEXT,
+  created_by UUID REFERENCES profiles(id),
+  published_by UUID REFERENCES profiles(id),
+  published_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CONSTRAINT pricing_versions_published_dated CHECK (status = 'draft' OR effective_from IS NOT NULL),
+  CONSTRAINT pricing_versions_window CHECK (effective_to IS NULL OR effective_to > effective_from)
+);
+
+-- One staged draft at a time
+CREATE UNIQUE INDEX IF NOT EXISTS unique_pricing_draft ON pricing_versions((status)) WHERE status = 'draft';
+CREATE INDEX IF NOT EXISTS idx_pricing_versions_effective ON pricing_versions(effective_from DESC) WHERE status = 'published';
+
+CREATE TRIGGER update_pricing_versions_updated_at BEFORE UPDATE ON pricing_versions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Today's rules become version 1
+INSERT INTO pricing_versions (version, status, effective_from, notes, published_at)
+SELECT 1, 'published', COALESCE(MIN(created_at), NOW()), 'Rules in effect before versioning', NOW()
+FROM pricing_rules
+WHERE NOT EXISTS (SELECT 1 FROM pricing_versions);
+
+-- ============================================================================
+-- 2. RULES AND ORDERS
+-- ============================================================================
+
+ALTER TABLE pricing_rules
+  ADD COLUMN IF NOT EXISTS version_id UUID REFERENCES pricing_versions(id) ON DELETE CASCADE;
+
+UPDATE pricing_rules
+SET version_id = (SELECT id FROM pricing_versions WHERE version = 1)
+WHERE version_id IS NULL;
+
+ALTER TABLE pricing_rules
+  ALTER COLUMN version_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_pricing_rules_version ON pricing_rules(version_id, service_type);
+
+ALTER TABLE orders
+  ADD COLUMN IF NOT EXISTS pricing_version_id UUID REFERENCES pricing_versions(id);
+
+CREATE INDEX IF NOT EXISTS idx_orders_pricing_version_id ON orders(pricing_version_id);
+
+-- Existing orders were priced with version 1
+UPDATE orders
+SET pricing_version_id = (SELECT id FROM pricing_versions WHERE version = 1)
+WHERE pricing_version_id IS NULL;
+
+-- ============================================================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================================================
+
+ALTER TABLE pricing_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "pricing_versions_admin_all" ON pricing_versions
+  FOR ALL USING (is_admin());
+
+-- Draft prices stay private until published
+DROP POLICY IF EXISTS "pricing_select_active" ON pricing_rules;
+CREATE POLICY "pricing_select_active" ON pricing_rules
+  FOR SELECT USING (
+    active = true
+    AND EXISTS (SELECT 1 FROM pricing_versions v WHERE v.id = version_id AND v.status = 'published')
+  );
+
+COMMENT ON TABLE pricing_versions IS 'Versioned pricing rule sets; the published version with the latest effective_from at or before a time prices bookings made then';
+COMMENT ON COLUMN pricing_versions.status IS 'draft (staged, editable, previewable) or published (locked)';
+COMMENT ON COLUMN pricing_versions.effective_to IS 'Set when the next version is published; informational, effective_from decides';
+COMMENT ON COLUMN orders.pricing_version_id IS 'Pricing version the order was quoted under; re-quotes use it';
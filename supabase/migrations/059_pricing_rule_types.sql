@@ -0,0 +1,84 @@
+-- Pricing Rule Types
+-- Prices that lived in code or env now live in pricing_rules so admins can
+-- edit (and version) them like any other price. See lib/pricing-rules.ts.
+--
+--   PERCENT_SURCHARGE   rush (was +25% in quoteLaundry)
+--   FREQUENCY_DISCOUNT  recurring cleaning discounts (was RECURRING_DISCOUNTS)
+--   MIN_QTY             laundry minimum weight (was LAUNDRY_MIN_LBS env)
+--   TAX                 sales tax (was NYC_TAX_RATE env)
+--
+-- Add-on labels (was formatAddonLabel) move to a label column.
+
+-- ============================================================================
+-- 1. COLUMNS
+-- ============================================================================
+
+ALTER TABLE pricing_rules DROP CONSTRAINT IF EXISTS pricing_rules_unit_type_check;
+ALTER TABLE pricing_rules ADD CONSTRAINT pricing_rules_unit_type_check CHECK (unit_type IN (
+  'PER_LB', 'FLAT', 'ADDON', 'MULTIPLIER', 'DELIVERY',
+  'PERCENT_SURCHARGE', 'FREQUENCY_DISCOUNT', 'MIN_QTY', 'TAX'
+));
+
+ALTER TABLE pricing_rules
+  ADD COLUMN IF NOT EXISTS rate NUMERIC(6,5) CHECK (rate >= 0 AND rate <= 1),
+  ADD COLUMN IF NOT EXISTS min_quantity NUMERIC(8,2) CHECK (min_quantity > 0),
+  ADD COLUMN IF NOT EXISTS label TEXT;
+
+-- ============================================================================
+-- 2. LEGACY ROWS
+-- ============================================================================
+
+-- The minimum was stored as a PER_LB rule in cents (1500 = 15 lbs) and never read
+UPDATE pricing_rules
+SET unit_type = 'MIN_QTY', min_quantity = unit_price_cents / 100.0, unit_price_cents = NULL
+WHERE unit_key = 'LND_WF_MIN_LBS' AND unit_type = 'PER_LB';
+
+-- The flat $10 rush add-on was deactivated in 038 in favour of +25% in code
+UPDATE pricing_rules
+SET unit_type = 'PERCENT_SURCHARGE', rate = 0.25, unit_price_cents = NULL, active = true
+WHERE unit_key = 'LND_RUSH_24HR' AND unit_type = 'ADDON';
+
+-- ============================================================================
+-- 3. RULES FOR EVERY VERSION
+-- ============================================================================
+
+-- Published versions are locked in the app, but their quotes must keep
+-- reproducing, so each version gets the values the code charged until now.
+INSERT INTO pricing_rules (version_id, service_type, unit_type, unit_key, rate, min_quantity, label, priority, active)
+SELECT v.id, r.service_type, r.unit_type, r.unit_key, r.rate, r.min_quantity, r.label, r.priority, true
+FROM pricing_versions v
+CROSS JOIN (VALUES
+  ('LAUNDRY', 'MIN_QTY', 'LND_WF_MIN_LBS', NULL::NUMERIC, 15::NUMERIC, 'Minimum weight', 95),
+  ('LAUNDRY', 'PERCENT_SURCHARGE', 'LND_RUSH_24HR', 0.25, NULL, '24-Hour Rush Service', 200),
+  ('LAUNDRY', 'TAX', 'NYC_SALES_TAX', 0.08875, NULL, 'NYC sales tax', 300),
+  ('CLEANING', 'FREQUENCY_DISCOUNT', 'CLN_RECURRING_WEEKLY', 0.20, NULL, 'Recurring weekly discount', 250),
+  ('CLEANING', 'FREQUENCY_DISCOUNT', 'CLN_RECURRING_BIWEEKLY', 0.15, NULL, 'Recurring biweekly discount', 250),
+  ('CLEANING', 'FREQUENCY_DISCOUNT', 'CLN_RECURRING_MONTHLY', 0.10, NULL, 'Recurring monthly discount', 250),
+  ('CLEANING', 'TAX', 'NYC_SALES_TAX', 0.08875, NULL, 'NYC sales tax', 300)
+) AS r(service_type, unit_type, unit_key, rate, min_quantity, label, priority)
+WHERE NOT EXISTS (
+  SELECT 1 FROM pricing_rules existing
+  WHERE existing.version_id = v.id
+    AND existing.service_type = r.service_type
+    AND existing.unit_key = r.unit_key
+);
+
+-- Labels formatAddonLabel used to supply
+UPDATE pricing_rules p
+SET label = l.label
+FROM (VALUES
+  ('LND_RUSH_24HR', '24-Hour Rush Service'),
+  ('LND_BULKY_ITEM', 'Bulky Item Fee'),
+  ('LND_DELICATE', 'Delicate Care'),
+  ('LND_EXTRA_SOFTENER', 'Extra Softener'),
+  ('CLN_FRIDGE_INSIDE', 'Refrigerator Interior'),
+  ('CLN_OVEN_INSIDE', 'Oven Interior'),
+  ('CLN_WINDOWS_INSIDE', 'Interior Windows'),
+  ('CLN_LAUNDRY_WASH', 'Laundry Service'),
+  ('CLN_EXTRA_BATHROOM', 'Additional Bathroom')
+) AS l(unit_key, label)
+WHERE p.unit_key = l.unit_key AND p.label IS NULL;
+
+COMMENT ON COLUMN pricing_rules.rate IS 'Share (0-1) for PERCENT_SURCHARGE, FREQUENCY_DISCOUNT and TAX rules';
+COMMENT ON COLUMN pricing_rules.min_quantity IS 'Least quantity billed for MIN_QTY rules (lbs for laundry)';
+COMMENT ON COLUMN pricing_rules.label IS 'Customer-facing line label; falls back to unit_key';
@@ -0,0 +1,50 @@
+-- Dry-Clean Garment Catalog
+-- Dry clean is priced per garment from PER_ITEM pricing rules instead of the
+-- static sample table. Partners itemize garments at intake through the quote
+-- flow; quoteLaundry prices them next to wash & fold pounds so mixed orders
+-- get one breakdown. See lib/pricing-rules.ts getGarmentCatalog.
+
+-- ============================================================================
+-- 1. RULE TYPE
+-- ============================================================================
+
+ALTER TABLE pricing_rules DROP CONSTRAINT IF EXISTS pricing_rules_unit_type_check;
+ALTER TABLE pricing_rules ADD CONSTRAINT pricing_rules_unit_type_check CHECK (unit_type IN (
+  'PER_LB', 'PER_ITEM', 'FLAT', 'ADDON', 'MULTIPLIER', 'DELIVERY',
+  'PERCENT_SURCHARGE', 'FREQUENCY_DISCOUNT', 'MIN_QTY', 'TAX'
+));
+
+-- ============================================================================
+-- 2. CATALOG
+-- ============================================================================
+
+-- Starting prices from the dry-clean tooltip, added to every version so
+-- quotes under older versions can itemize too. Priority orders the catalog.
+INSERT INTO pricing_rules (version_id, service_type, unit_type, unit_key, unit_price_cents, label, priority, active)
+SELECT v.id, 'LAUNDRY', 'PER_ITEM', g.unit_key, g.unit_price_cents, g.label, g.priority, true
+FROM pricing_versions v
+CROSS JOIN (VALUES
+  ('DC_SHIRT', 1100, 'Shirt / Blouse', 400),
+  ('DC_PANTS', 1300, 'Pants / Slacks', 401),
+  ('DC_SKIRT', 1000, 'Skirt', 402),
+  ('DC_SWEATER', 1500, 'Sweater / Knit', 403),
+  ('DC_SUIT_2PC', 2000, 'Suit (2-piece)', 404),
+  ('DC_SUIT_3PC', 2900, 'Suit (3-piece)', 405),
+  ('DC_JACKET', 1200, 'Jacket / Blazer', 406),
+  ('DC_DRESS', 1800, 'Dress', 407),
+  ('DC_TIE', 900, 'Tie', 408),
+  ('DC_COAT', 3000, 'Coat / Outer Jacket', 409),
+  ('DC_DOWN_COAT', 4000, 'Down Coat', 410),
+  ('DC_GOWN', 2600, 'Gown / Formal', 411),
+  ('DC_SILK_BLOUSE', 1500, 'Silk Blouse', 412),
+  ('DC_LEATHER', 6500, 'Leather / Suede', 413),
+  ('DC_SCARF', 800, 'Scarf', 414)
+) AS g(unit_key, unit_price_cents, label, priority)
+WHERE NOT EXISTS (
+  SELECT 1 FROM pricing_rules existing
+  WHERE existing.version_id = v.id
+    AND existing.service_type = 'LAUNDRY'
+    AND existing.unit_key = g.unit_key
+);
+
+COMMENT ON COLUMN pricing_rules.unit_price_cents IS 'Price for PER_LB, PER_ITEM (each garment), FLAT, ADDON and DELIVERY rules';
@@ -0,0 +1,85 @@
+-- Promo Redemption Limits
+-- Redemption limits were checked by counting promo_redemptions when a code
+-- was entered and the redemption was written afterwards, so concurrent
+-- checkouts could all pass the count and overshoot max_redemptions or
+-- max_redemptions_per_user. redeem_promo_code checks the limits and writes
+-- the redemption while holding the code's row lock. See lib/promos.ts
+-- recordPromoRedemption.
+
+-- ============================================================================
+-- 1. INDEXES
+-- ============================================================================
+
+-- Per-customer counts for guests (user_id is covered by idx_promo_redemptions_code_user)
+CREATE INDEX IF NOT EXISTS idx_promo_redemptions_code_guest
+  ON promo_redemptions(promo_code_id, guest_email)
+  WHERE user_id IS NULL AND guest_email IS NOT NULL;
+
+-- ============================================================================
+-- 2. REDEEM
+-- ============================================================================
+
+-- Returns {"success": true} or {"success": false, "error": "PROMO_LIMIT_REACHED" | ...}.
+-- Re-quotes of an order that already holds the redemption only update its
+-- discount; the limits were checked when it was redeemed.
+CREATE OR REPLACE FUNCTION redeem_promo_code(
+  p_promo_code_id UUID,
+  p_order_id UUID,
+  p_user_id UUID,
+  p_guest_email TEXT,
+  p_discount_cents INT
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_promo promo_codes%ROWTYPE;
+  v_guest_email TEXT := CASE WHEN p_user_id IS NULL THEN p_guest_email ELSE NULL END;
+  v_total INT;
+  v_customer INT;
+BEGIN
+  -- Serializes redemptions of the same code
+  SELECT * INTO v_promo FROM promo_codes WHERE id = p_promo_code_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'PROMO_NOT_FOUND');
+  END IF;
+
+  UPDATE promo_redemptions
+  SET discount_cents = p_discount_cents
+  WHERE order_id = p_order_id AND promo_code_id = p_promo_code_id;
+  IF FOUND THEN
+    RETURN jsonb_build_object('success', true);
+  END IF;
+
+  IF v_promo.max_redemptions IS NOT NULL THEN
+    SELECT COUNT(*) INTO v_total FROM promo_redemptions WHERE promo_code_id = p_promo_code_id;
+    IF v_total >= v_promo.max_redemptions THEN
+      RETURN jsonb_build_object('success', false, 'error', 'PROMO_LIMIT_REACHED');
+    END IF;
+  END IF;
+
+  IF v_promo.max_redemptions_per_user IS NOT NULL AND (p_user_id IS NOT NULL OR v_guest_email IS NOT NULL) THEN
+    SELECT COUNT(*) INTO v_customer
+    FROM promo_redemptions
+    WHERE promo_code_id = p_promo_code_id
+      AND (
+        (p_user_id IS NOT NULL AND user_id = p_user_id) OR
+        (p_user_id IS NULL AND user_id IS NULL AND guest_email = v_guest_email)
+      );
+    IF v_customer >= v_promo.max_redemptions_per_user THEN
+      RETURN jsonb_build_object('success', false, 'error', 'PROMO_CUSTOMER_LIMIT_REACHED');
+    END IF;
+  END IF;
+
+  -- promo_redemptions_order_unique rejects a second code on the same order
+  INSERT INTO promo_redemptions (promo_code_id, order_id, user_id, guest_email, discount_cents)
+  VALUES (p_promo_code_id, p_order_id, p_user_id, v_guest_email, p_discount_cents);
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION redeem_promo_code(UUID, UUID, UUID, TEXT, INT) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION redeem_promo_code IS 'Record a promo redemption on an order within the code''s limits (see lib/promos)';
@@ -0,0 +1,17 @@
+-- Order Event Idempotency
+-- Stripe retries a webhook until it is marked processed, so handlers that log
+-- to order_events (charge.dispute.created) could add the same event twice.
+-- They now key the row on the Stripe event id (stripe:<event id>) and skip
+-- duplicates. The index from 023 wasn't unique, so it couldn't back the upsert.
+
+-- ============================================================================
+-- 1. UNIQUE KEY
+-- ============================================================================
+
+DROP INDEX IF EXISTS idx_order_events_idempotency;
+
+-- NULL keys stay distinct, so unkeyed events are unaffected
+CREATE UNIQUE INDEX IF NOT EXISTS idx_order_events_idempotency_key
+  ON order_events(idempotency_key);
+
+COMMENT ON COLUMN order_events.idempotency_key IS 'Dedupes retried writers, e.g. stripe:<event id> for webhook events';
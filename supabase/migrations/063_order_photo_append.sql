@@ -0,0 +1,81 @@
+-- Order Photo Append
+-- Photos were recorded by reading the target's JSONB list and writing it back
+-- with the new entry, so two uploads finishing together could drop one photo
+-- or both pass the per-target limit. append_order_photo appends in a single
+-- UPDATE whose WHERE clause also checks the limit. See lib/upload.ts
+-- completeUpload.
+
+-- ============================================================================
+-- 1. APPEND
+-- ============================================================================
+
+-- Returns {"success": true, "count": n} or
+-- {"success": false, "error": "PHOTO_LIMIT_REACHED" | "TARGET_NOT_FOUND" | "INVALID_PURPOSE"}.
+-- Targets are matched on their id and order, so a bag from another order is not found.
+CREATE OR REPLACE FUNCTION append_order_photo(
+  p_purpose TEXT,
+  p_target_id UUID,
+  p_order_id UUID,
+  p_stage TEXT,
+  p_photo JSONB,
+  p_max_photos INT
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_table TEXT;
+  v_column TEXT;
+  v_order_column TEXT := 'order_id';
+  v_count INT;
+  v_exists BOOLEAN;
+BEGIN
+  CASE p_purpose
+    WHEN 'bag' THEN
+      v_table := 'bags';
+      v_column := 'photos_json';
+    WHEN 'checklist' THEN
+      IF p_stage IS NULL OR p_stage NOT IN ('before', 'after') THEN
+        RETURN jsonb_build_object('success', false, 'error', 'INVALID_PURPOSE');
+      END IF;
+      v_table := 'cleaning_checklist';
+      v_column := p_stage || '_photos_json';
+    WHEN 'dispute' THEN
+      v_table := 'orders';
+      v_column := 'dispute_evidence_json';
+      v_order_column := 'id';
+    WHEN 'claim' THEN
+      v_table := 'claims';
+      v_column := 'evidence_json';
+    ELSE
+      RETURN jsonb_build_object('success', false, 'error', 'INVALID_PURPOSE');
+  END CASE;
+
+  EXECUTE format(
+    'UPDATE %1$I SET %2$I = COALESCE(%2$I, ''[]''::JSONB) || jsonb_build_array($1)
+     WHERE id = $2 AND %3$I = $3 AND jsonb_array_length(COALESCE(%2$I, ''[]''::JSONB)) < $4
+     RETURNING jsonb_array_length(%2$I)',
+    v_table, v_column, v_order_column
+  )
+  INTO v_count
+  USING p_photo, p_target_id, p_order_id, p_max_photos;
+
+  IF v_count IS NOT NULL THEN
+    RETURN jsonb_build_object('success', true, 'count', v_count);
+  END IF;
+
+  EXECUTE format('SELECT EXISTS (SELECT 1 FROM %I WHERE id = $1 AND %I = $2)', v_table, v_order_column)
+  INTO v_exists
+  USING p_target_id, p_order_id;
+
+  RETURN jsonb_build_object(
+    'success', false,
+    'error', CASE WHEN v_exists THEN 'PHOTO_LIMIT_REACHED' ELSE 'TARGET_NOT_FOUND' END
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION append_order_photo(TEXT, UUID, UUID, TEXT, JSONB, INT) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION append_order_photo IS 'Append a stored photo to its bag, checklist room, dispute or claim within the per-target limit (see lib/upload)';
@@ -0,0 +1,16 @@
+-- Subscription Event Order
+-- Stripe does not guarantee the order of webhook deliveries, so a delayed
+-- customer.subscription.updated (past_due) could land after the event that
+-- recovered the subscription and stop a paying plan, or revive a canceled
+-- one. Plans now record the created time of the last event applied to them
+-- and older events are ignored. See lib/subscription-billing.ts
+-- syncStripeSubscription.
+
+-- ============================================================================
+-- 1. LAST APPLIED EVENT
+-- ============================================================================
+
+ALTER TABLE subscriptions
+  ADD COLUMN IF NOT EXISTS stripe_event_created_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN subscriptions.stripe_event_created_at IS 'Created time of the last Stripe subscription event applied to this plan; older events are ignored';
@@ -0,0 +1,127 @@
+-- Atomic Rate Limit Consume
+-- lib/rate-limit read a counter, computed the next state in the app and wrote
+-- it back conditional on the version read (migration 043). Concurrent
+-- requests for the same key lost the race, and after five lost races the
+-- request was let through, so a burst got past the limit exactly when it
+-- mattered. consume_rate_limit applies the policy under the key's row lock
+-- so every request is counted. The algorithms mirror applySlidingWindow and
+-- applyTokenBucket in lib/rate-limit.ts.
+
+-- ============================================================================
+-- 1. CONSUME
+-- ============================================================================
+
+-- p_limit is the sliding window limit or the token bucket capacity; times are
+-- epoch ms. Returns {"allowed", "limit", "remaining", "retry_after_seconds"}.
+CREATE OR REPLACE FUNCTION consume_rate_limit(
+  p_key TEXT,
+  p_algorithm TEXT,
+  p_limit NUMERIC,
+  p_window_ms BIGINT,
+  p_refill_per_second NUMERIC,
+  p_cost NUMERIC,
+  p_now BIGINT
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row rate_limits%ROWTYPE;
+  v_live BOOLEAN;
+  v_state JSONB;
+  v_expires BIGINT;
+  v_allowed BOOLEAN;
+  v_remaining NUMERIC := 0;
+  v_retry_after NUMERIC := 0;
+  -- sliding_window
+  v_window_start BIGINT;
+  v_count NUMERIC := 0;
+  v_previous NUMERIC := 0;
+  v_estimated NUMERIC;
+  v_retry_ms NUMERIC;
+  -- token_bucket
+  v_tokens NUMERIC;
+BEGIN
+  -- A new key gets an already expired placeholder, so the row always exists to lock
+  INSERT INTO rate_limits (key, state, expires_at)
+  VALUES (p_key, '{}'::JSONB, to_timestamp(0))
+  ON CONFLICT (key) DO NOTHING;
+
+  SELECT * INTO v_row FROM rate_limits WHERE key = p_key FOR UPDATE;
+  v_live := v_row.expires_at > to_timestamp(p_now / 1000.0);
+
+  IF p_algorithm = 'sliding_window' THEN
+    v_window_start := (p_now / p_window_ms) * p_window_ms;
+
+    IF v_live AND (v_row.state->>'window_start')::BIGINT = v_window_start THEN
+      v_count := (v_row.state->>'count')::NUMERIC;
+      v_previous := (v_row.state->>'previous_count')::NUMERIC;
+    ELSIF v_live AND (v_row.state->>'window_start')::BIGINT = v_window_start - p_window_ms THEN
+      v_previous := (v_row.state->>'count')::NUMERIC;
+    END IF;
+
+    v_estimated := v_previous * (1 - (p_now - v_window_start)::NUMERIC / p_window_ms) + v_count;
+    -- Kept for two windows: the next window still weighs this one
+    v_expires := v_window_start + 2 * p_window_ms;
+    v_allowed := v_estimated + p_cost <= p_limit;
+
+    IF v_allowed THEN
+      v_count := v_count + p_cost;
+      v_remaining := GREATEST(0, FLOOR(p_limit - v_estimated - p_cost));
+    ELSE
+      v_retry_ms := v_window_start + p_window_ms - p_now;
+      IF v_count + p_cost <= p_limit AND v_previous > 0 THEN
+        -- Wait until enough of the previous window has slid out
+        v_retry_ms := v_window_start + p_window_ms * (1 - (p_limit - v_count - p_cost) / v_previous) - p_now;
+      END IF;
+      v_retry_after := GREATEST(1, CEIL(v_retry_ms / 1000));
+    END IF;
+
+    v_state := jsonb_build_object('window_start', v_window_start, 'count', v_count, 'previous_count', v_previous);
+  ELSIF p_algorithm = 'token_bucket' THEN
+    IF v_live THEN
+      v_tokens := LEAST(
+        p_limit,
+        (v_row.state->>'tokens')::NUMERIC
+          + GREATEST(0, p_now - (v_row.state->>'updated_at')::BIGINT) / 1000.0 * p_refill_per_second
+      );
+    ELSE
+      v_tokens := p_limit;
+    END IF;
+
+    -- A bucket left alone long enough is full again, so the row can go
+    v_expires := p_now + CEIL(p_limit / p_refill_per_second * 1000);
+    v_allowed := v_tokens >= p_cost;
+
+    IF v_allowed THEN
+      v_tokens := v_tokens - p_cost;
+      v_remaining := FLOOR(v_tokens);
+    ELSE
+      v_retry_after := GREATEST(1, CEIL((p_cost - v_tokens) / p_refill_per_second));
+    END IF;
+
+    v_state := jsonb_build_object('tokens', v_tokens, 'updated_at', p_now);
+  ELSE
+    RAISE EXCEPTION 'Unknown rate limit algorithm %', p_algorithm;
+  END IF;
+
+  UPDATE rate_limits
+  SET state = v_state,
+      version = version + 1,
+      expires_at = to_timestamp(v_expires / 1000.0)
+  WHERE key = p_key;
+
+  RETURN jsonb_build_object(
+    'allowed', v_allowed,
+    'limit', p_limit,
+    'remaining', v_remaining,
+    'retry_after_seconds', v_retry_after
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION consume_rate_limit(TEXT, TEXT, NUMERIC, BIGINT, NUMERIC, NUMERIC, BIGINT) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION consume_rate_limit IS 'Apply a rate limit policy to a key under its row lock and return the decision (see lib/rate-limit)';
+COMMENT ON COLUMN rate_limits.version IS 'Incremented on every write';
@@ -0,0 +1,74 @@
+-- Atomic Payout Settlement
+-- settlePartnerPayout inserted the payout row with totals that already
+-- counted the period's orders, refunds and tips, then stamped those rows with
+-- the payout id in three separate updates. A failed stamp left rows unsettled
+-- behind a payout that paid for them: the re-run for the period hit the
+-- unique constraint and stopped, and the next week paid the rows again.
+-- settle_partner_payout inserts the payout and stamps everything it counts in
+-- one transaction. See lib/payouts.ts settlePartnerPayout.
+
+-- ============================================================================
+-- 1. SETTLE
+-- ============================================================================
+
+-- Returns the payout row, or NULL when the partner's period is already settled.
+-- Raises (rolling the payout back) if any counted row was settled meanwhile.
+CREATE OR REPLACE FUNCTION settle_partner_payout(
+  p_payout JSONB,
+  p_order_ids UUID[],
+  p_refund_ids UUID[],
+  p_tip_ids UUID[]
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_payout payouts%ROWTYPE;
+  v_count INT;
+BEGIN
+  BEGIN
+    INSERT INTO payouts (
+      partner_id, period_start, period_end, payout_percent, status,
+      order_count, revenue_cents, gross_cents, commission_cents, refunds_cents,
+      claims_cents, adjustments_cents, tips_cents, net_cents
+    )
+    SELECT
+      p.partner_id, p.period_start, p.period_end, p.payout_percent, p.status,
+      p.order_count, p.revenue_cents, p.gross_cents, p.commission_cents, p.refunds_cents,
+      p.claims_cents, p.adjustments_cents, p.tips_cents, p.net_cents
+    FROM jsonb_populate_record(NULL::payouts, p_payout) p
+    RETURNING * INTO v_payout;
+  EXCEPTION WHEN unique_violation THEN
+    -- payouts_partner_period_unique: already settled
+    RETURN NULL;
+  END;
+
+  UPDATE orders SET payout_id = v_payout.id
+  WHERE id = ANY(COALESCE(p_order_ids, '{}')) AND payout_id IS NULL;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  IF v_count <> COALESCE(array_length(p_order_ids, 1), 0) THEN
+    RAISE EXCEPTION 'Orders for payout of partner % were settled concurrently', v_payout.partner_id;
+  END IF;
+
+  UPDATE refunds SET payout_id = v_payout.id
+  WHERE id = ANY(COALESCE(p_refund_ids, '{}')) AND payout_id IS NULL;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  IF v_count <> COALESCE(array_length(p_refund_ids, 1), 0) THEN
+    RAISE EXCEPTION 'Refunds for payout of partner % were settled concurrently', v_payout.partner_id;
+  END IF;
+
+  UPDATE order_tips SET payout_id = v_payout.id
+  WHERE id = ANY(COALESCE(p_tip_ids, '{}')) AND payout_id IS NULL;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  IF v_count <> COALESCE(array_length(p_tip_ids, 1), 0) THEN
+    RAISE EXCEPTION 'Tips for payout of partner % were settled concurrently', v_payout.partner_id;
+  END IF;
+
+  RETURN to_jsonb(v_payout);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION settle_partner_payout(JSONB, UUID[], UUID[], UUID[]) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION settle_partner_payout IS 'Insert a partner payout and stamp the orders, refunds and tips it counts in one transaction (see lib/payouts)';
@@ -0,0 +1,124 @@
+-- Upload Completion
+-- Completing a signed-URL upload (lib/upload.ts completeUpload) was not
+-- idempotent: a client retry of the same path appended a second entry, and a
+-- retry that hit the photo limit deleted a file already recorded on its
+-- target. Uploads that were never completed stayed in the bucket with their
+-- location metadata and nothing removed them.
+--
+-- pending_uploads tracks every issued path until it is recorded, so the
+-- operations cron can remove the ones left behind, and append_order_photo
+-- now returns the existing entry when the path is already recorded.
+
+-- ============================================================================
+-- 1. PENDING UPLOADS
+-- ============================================================================
+
+-- No foreign key to orders: a file is still swept after its order is gone
+CREATE TABLE IF NOT EXISTS pending_uploads (
+  path TEXT PRIMARY KEY,
+  order_id UUID NOT NULL,
+  purpose TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pending_uploads_created ON pending_uploads(created_at);
+
+-- Only the service role reads or writes pending uploads
+ALTER TABLE pending_uploads ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- 2. APPEND
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS append_order_photo(TEXT, UUID, UUID, TEXT, JSONB, INT);
+
+-- Returns {"success": true, "count": n, "photo": entry} or
+-- {"success": false, "error": "PHOTO_LIMIT_REACHED" | "TARGET_NOT_FOUND" | "INVALID_PURPOSE"}.
+-- An entry already recorded for p_path (a photo object with that path, or a
+-- claim evidence URL ending in it) is returned as is, ahead of the limit check.
+-- Either way the path's pending_uploads row is cleared in the same transaction.
+CREATE OR REPLACE FUNCTION append_order_photo(
+  p_purpose TEXT,
+  p_target_id UUID,
+  p_order_id UUID,
+  p_stage TEXT,
+  p_path TEXT,
+  p_photo JSONB,
+  p_max_photos INT
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_table TEXT;
+  v_column TEXT;
+  v_order_column TEXT := 'order_id';
+  v_found BOOLEAN;
+  v_photos JSONB;
+  v_existing JSONB;
+BEGIN
+  CASE p_purpose
+    WHEN 'bag' THEN
+      v_table := 'bags';
+      v_column := 'photos_json';
+    WHEN 'checklist' THEN
+      IF p_stage IS NULL OR p_stage NOT IN ('before', 'after') THEN
+        RETURN jsonb_build_object('success', false, 'error', 'INVALID_PURPOSE');
+      END IF;
+      v_table := 'cleaning_checklist';
+      v_column := p_stage || '_photos_json';
+    WHEN 'dispute' THEN
+      v_table := 'orders';
+      v_column := 'dispute_evidence_json';
+      v_order_column := 'id';
+    WHEN 'claim' THEN
+      v_table := 'claims';
+      v_column := 'evidence_json';
+    ELSE
+      RETURN jsonb_build_object('success', false, 'error', 'INVALID_PURPOSE');
+  END CASE;
+
+  -- Lock the target so concurrent completions see each other's entries
+  EXECUTE format(
+    'SELECT true, COALESCE(%1$I, ''[]''::JSONB) FROM %2$I WHERE id = $1 AND %3$I = $2 FOR UPDATE',
+    v_column, v_table, v_order_column
+  )
+  INTO v_found, v_photos
+  USING p_target_id, p_order_id;
+
+  IF v_found IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'TARGET_NOT_FOUND');
+  END IF;
+
+  SELECT entry INTO v_existing
+  FROM jsonb_array_elements(v_photos) AS entry
+  WHERE entry->>'path' = p_path
+     OR (jsonb_typeof(entry) = 'string' AND right(entry #>> '{}', length(p_path) + 1) = '/' || p_path)
+  LIMIT 1;
+
+  IF v_existing IS NULL THEN
+    IF jsonb_array_length(v_photos) >= p_max_photos THEN
+      RETURN jsonb_build_object('success', false, 'error', 'PHOTO_LIMIT_REACHED');
+    END IF;
+
+    EXECUTE format(
+      'UPDATE %1$I SET %2$I = COALESCE(%2$I, ''[]''::JSONB) || jsonb_build_array($1) WHERE id = $2',
+      v_table, v_column
+    )
+    USING p_photo, p_target_id;
+
+    v_existing := p_photo;
+    v_photos := v_photos || jsonb_build_array(p_photo);
+  END IF;
+
+  DELETE FROM pending_uploads WHERE path = p_path;
+
+  RETURN jsonb_build_object('success', true, 'count', jsonb_array_length(v_photos), 'photo', v_existing);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION append_order_photo(TEXT, UUID, UUID, TEXT, TEXT, JSONB, INT) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE pending_uploads IS 'Photo paths issued signed upload URLs and not yet recorded; swept by the operations cron (see lib/upload)';
+COMMENT ON FUNCTION append_order_photo IS 'Append a stored photo to its bag, checklist room, dispute or claim within the per-target limit, once per path (see lib/upload)';
@@ -0,0 +1,61 @@
+-- Draft-Only Pricing Rule Updates
+-- The pricing rule route checked that the rule's version was a draft and
+-- then updated the rule in a separate query. A publish that landed between
+-- the two changed a rule of a now-published, locked version, so bookings
+-- already priced under it could no longer be reproduced.
+-- update_draft_pricing_rule checks the version and updates the rule under a
+-- share lock on the version row, which publishing (an UPDATE of that row)
+-- waits for. See lib/pricing-versions.ts updateDraftPricingRule.
+
+-- ============================================================================
+-- 1. UPDATE
+-- ============================================================================
+
+-- p_updates holds only the columns to change (a JSON null clears label).
+-- Returns {"success": true, "rule": row} or
+-- {"success": false, "error": "RULE_NOT_FOUND" | "PRICING_VERSION_LOCKED", "version": n}.
+CREATE OR REPLACE FUNCTION update_draft_pricing_rule(
+  p_rule_id UUID,
+  p_updates JSONB
+) RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_version pricing_versions%ROWTYPE;
+  v_rule pricing_rules%ROWTYPE;
+BEGIN
+  SELECT v.* INTO v_version
+  FROM pricing_rules r
+  JOIN pricing_versions v ON v.id = r.version_id
+  WHERE r.id = p_rule_id
+  FOR SHARE OF v;
+
+  IF v_version.id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'RULE_NOT_FOUND');
+  END IF;
+
+  IF v_version.status <> 'draft' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'PRICING_VERSION_LOCKED', 'version', v_version.version);
+  END IF;
+
+  UPDATE pricing_rules SET
+    unit_price_cents = CASE WHEN p_updates ? 'unit_price_cents' THEN (p_updates->>'unit_price_cents')::INT ELSE unit_price_cents END,
+    multiplier = CASE WHEN p_updates ? 'multiplier' THEN (p_updates->>'multiplier')::NUMERIC ELSE multiplier END,
+    rate = CASE WHEN p_updates ? 'rate' THEN (p_updates->>'rate')::NUMERIC ELSE rate END,
+    min_quantity = CASE WHEN p_updates ? 'min_quantity' THEN (p_updates->>'min_quantity')::NUMERIC ELSE min_quantity END,
+    label = CASE WHEN p_updates ? 'label' THEN p_updates->>'label' ELSE label END,
+    active = CASE WHEN p_updates ? 'active' THEN (p_updates->>'active')::BOOLEAN ELSE active END,
+    updated_by = CASE WHEN p_updates ? 'updated_by' THEN (p_updates->>'updated_by')::UUID ELSE updated_by END,
+    change_reason = CASE WHEN p_updates ? 'change_reason' THEN p_updates->>'change_reason' ELSE change_reason END
+  WHERE id = p_rule_id
+  RETURNING * INTO v_rule;
+
+  RETURN jsonb_build_object('success', true, 'rule', to_jsonb(v_rule));
+END;
+$$;
+
+REVOKE ALL ON FUNCTION update_draft_pricing_rule(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION update_draft_pricing_rule IS 'Update a pricing rule only while its version is a draft, under a lock publishing waits for (see lib/pricing-versions)';
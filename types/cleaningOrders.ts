@@ -225,6 +225,7 @@ export interface TransitionRequest {
     proof?: ProofItem[];
     quote_cents?: number;
     actual_weight_lbs?: number;
+    refund_cents?: number; // Partial dispute refund (default: full refundable amount)
     [key: string]: any;
   };
 }